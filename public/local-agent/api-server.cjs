@@ -9,10 +9,26 @@ const bodyParser = require('body-parser');
 const path = require('path');
 const crypto = require('crypto');
 const https = require('https');
+const fs = require('fs');
 const compression = require('compression');
 const { execSync } = require('child_process');
 const SharedDatabase = require('./shared-db.cjs');
 const TG400TcpApi = require('./tg400-tcp-api.cjs');
+const SmsClassifier = require('./sms-classifier.cjs');
+const DiagnosticsEngine = require('./diagnostics-engine.cjs');
+const RuntimeConfig = require('./runtime-config.cjs');
+const ReportRenderer = require('./report-renderer.cjs');
+const { EXPORT_FORMATS, ExportWriter } = require('./export-writer.cjs');
+const { SUPER_ADMIN_ROLE, PERMISSIONS, PERMISSION_KEYS } = require('./permissions.cjs');
+const {
+  PROVIDERS: LLM_PROVIDERS,
+  LlmUnavailableError,
+  createLlmProvider,
+  classifySms,
+  suggestReplies,
+  summarizeReport,
+} = require('./llm-provider.cjs');
+const { toE164, isValidCountryCode } = require('./phone-number.cjs');
 
 const logger = require('./logger.cjs');
 logger.info('[API Server] Using shared database singleton to prevent concurrent access issues');
@@ -47,6 +63,7 @@ app.use(compression({ level: 6 })); // gzip compression with level 6
 app.use(cors({
   origin: '*',
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  exposedHeaders: ['Content-Disposition'], // Report downloads carry their filename
   optionsSuccessStatus: 200
 }));
 app.use(bodyParser.json({ limit: '10mb' }));
@@ -109,6 +126,8 @@ if (!db) {
   process.exit(1);
 }
 
+const runtimeConfig = new RuntimeConfig(db);
+
 // ========================================
 // Yeastar PBX HTTPS API Integration
 // ========================================
@@ -116,54 +135,281 @@ if (!db) {
 // --- Local User / Role API Endpoints ---
 // Provide simple endpoints to manage users and roles in the local SQLite DB.
 
-// Middleware: require authenticated user with one of the allowed roles
-// Token format: "userId:role" (set at login)
-const requireRole = (...allowedRoles) => (req, res, next) => {
+// ========================================
+// Auth Tokens (HMAC-signed, session-backed)
+// ========================================
+// Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256).
+// Payload: { sid: session id, sub: user id, iat, exp } (seconds since epoch).
+// The session row is what makes logout/revocation work; the signature is what
+// stops anyone from minting a token for a user id they guessed.
+
+const AUTH_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;        // token lifetime
+const AUTH_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;  // refreshable until then
+const AUTH_SESSION_TOUCH_MS = 5 * 60 * 1000;          // last_seen_at write throttle
+
+const authTokenSecret = process.env.AUTH_TOKEN_SECRET || db.getAuthTokenSecret();
+if (!authTokenSecret) {
+  console.error('Failed to load auth token secret. Exiting.');
+  process.exit(1);
+}
+
+function signAuthPayload(encodedPayload) {
+  return crypto.createHmac('sha256', authTokenSecret).update(encodedPayload).digest('base64url');
+}
+
+function issueAuthToken(session) {
+  const now = Date.now();
+  const payload = {
+    sid: session.id,
+    sub: session.user_id,
+    iat: Math.floor(now / 1000),
+    exp: Math.floor((now + AUTH_TOKEN_TTL_MS) / 1000)
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return {
+    token: `${encodedPayload}.${signAuthPayload(encodedPayload)}`,
+    expiresAt: new Date(payload.exp * 1000).toISOString()
+  };
+}
+
+// Returns { payload, session } or { error, status }.
+// allowExpired lets /api/auth/refresh accept a lapsed token for a live session.
+function verifyAuthToken(token, { allowExpired = false } = {}) {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 2) return { error: 'Invalid token', status: 401 };
+
+  const [encodedPayload, signature] = parts;
+  const expected = Buffer.from(signAuthPayload(encodedPayload));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    return { error: 'Invalid token', status: 401 };
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch (e) {
+    return { error: 'Invalid token', status: 401 };
+  }
+
+  if (!allowExpired && (!payload.exp || payload.exp * 1000 < Date.now())) {
+    return { error: 'Token expired', status: 401 };
+  }
+
+  const session = db.getAuthSession(payload.sid);
+  if (!session || session.user_id !== payload.sub) return { error: 'Invalid token', status: 401 };
+  if (session.revoked_at) return { error: 'Session revoked', status: 401 };
+  if (new Date(session.expires_at).getTime() < Date.now()) return { error: 'Session expired', status: 401 };
+
+  return { payload, session };
+}
+
+function getClientIp(req) {
+  return req.headers['x-forwarded-for'] ?
+    req.headers['x-forwarded-for'].split(',')[0].trim() :
+    req.connection.remoteAddress || req.socket.remoteAddress || 'Unknown';
+}
+
+// Resolves the bearer token to a live user. Returns { userId, role, sessionId }
+// or { error, status }. The role always comes from the DB, never the token.
+function authenticateRequest(req) {
   const authHeader = req.headers.authorization;
   const token = authHeader?.split(' ')[1];
-  if (!token) return res.status(401).json({ success: false, error: 'Unauthorized' });
+  if (!token) return { error: 'Unauthorized', status: 401 };
 
-  const [userId, tokenRole] = token.split(':');
-  if (!userId || !tokenRole) return res.status(401).json({ success: false, error: 'Invalid token' });
+  const verified = verifyAuthToken(token);
+  if (verified.error) return verified;
 
-  // Always look up the live role from DB (tokens can't be stale this way)
   const dbUser = db.db.prepare(
     `SELECT COALESCE(ur.role, u.role) as role, u.is_active 
      FROM users u LEFT JOIN user_roles ur ON ur.user_id = u.id 
      WHERE u.id = ?`
-  ).get(userId);
+  ).get(verified.session.user_id);
+
+  if (!dbUser || !dbUser.is_active) return { error: 'Unauthorized', status: 401 };
+
+  const lastSeen = verified.session.last_seen_at ? new Date(verified.session.last_seen_at).getTime() : 0;
+  if (Date.now() - lastSeen > AUTH_SESSION_TOUCH_MS) {
+    db.touchAuthSession(verified.session.id);
+  }
+
+  const role = db.getRole(dbUser.role);
+  return {
+    userId: verified.session.user_id,
+    role: dbUser.role,
+    permissions: role ? role.permissions : [],
+    sessionId: verified.session.id
+  };
+}
+
+// Whether the authenticated request's role grants a permission (see permissions.cjs)
+function hasPermission(req, permission) {
+  return Array.isArray(req.currentPermissions) && req.currentPermissions.includes(permission);
+}
 
-  if (!dbUser || !dbUser.is_active) return res.status(401).json({ success: false, error: 'Unauthorized' });
-  if (!allowedRoles.includes(dbUser.role)) return res.status(403).json({ success: false, error: 'Forbidden: insufficient role' });
+// Middleware: require an authenticated user whose role grants the permission
+const requirePermission = (permission) => (req, res, next) => {
+  const auth = authenticateRequest(req);
+  if (auth.error) return res.status(auth.status).json({ success: false, error: auth.error });
+  if (!auth.permissions.includes(permission)) {
+    return res.status(403).json({ success: false, error: `Forbidden: requires ${permission} permission` });
+  }
 
-  req.currentUserId = userId;
-  req.currentUserRole = dbUser.role;
+  req.currentUserId = auth.userId;
+  req.currentUserRole = auth.role;
+  req.currentPermissions = auth.permissions;
+  req.currentSessionId = auth.sessionId;
   next();
 };
 
-// Middleware: any authenticated user (sets req.currentUserId and req.currentUserRole)
+// Middleware: any authenticated user (sets req.currentUserId, req.currentUserRole,
+// req.currentPermissions and req.currentSessionId)
 const requireAuth = (req, res, next) => {
-  const authHeader = req.headers.authorization;
-  const token = authHeader?.split(' ')[1];
-  if (!token) return res.status(401).json({ success: false, error: 'Unauthorized' });
+  const auth = authenticateRequest(req);
+  if (auth.error) return res.status(auth.status).json({ success: false, error: auth.error });
 
-  const [userId, tokenRole] = token.split(':');
-  if (!userId || !tokenRole) return res.status(401).json({ success: false, error: 'Invalid token' });
+  req.currentUserId = auth.userId;
+  req.currentUserRole = auth.role;
+  req.currentPermissions = auth.permissions;
+  req.currentSessionId = auth.sessionId;
+  next();
+};
 
-  const dbUser = db.db.prepare(
-    `SELECT COALESCE(ur.role, u.role) as role, u.is_active 
-     FROM users u LEFT JOIN user_roles ur ON ur.user_id = u.id 
-     WHERE u.id = ?`
-  ).get(userId);
+// ========================================
+// Roles & Permissions
+// ========================================
 
-  if (!dbUser || !dbUser.is_active) return res.status(401).json({ success: false, error: 'Unauthorized' });
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_]{1,31}$/;
 
-  req.currentUserId = userId;
-  req.currentUserRole = dbUser.role;
-  next();
-};
+// Returns { error, status } if the caller may not give a user this role
+function checkAssignableRole(req, role) {
+  if (!db.getRole(role)) return { error: `Unknown role: ${role}`, status: 400 };
+  // Only a super admin can make another one
+  if (role === SUPER_ADMIN_ROLE && req.currentUserRole !== SUPER_ADMIN_ROLE) {
+    return { error: 'Only a super admin can assign the super admin role', status: 403 };
+  }
+  return null;
+}
+
+function validateRoleInput(body, { isNew }) {
+  const input = {};
+  if (isNew) {
+    const name = String(body.name || '').trim().toLowerCase();
+    if (!ROLE_NAME_PATTERN.test(name)) {
+      return { error: 'name must be 2-32 lowercase letters, digits or underscores, starting with a letter' };
+    }
+    input.name = name;
+  }
+  if (isNew || body.label !== undefined) {
+    const label = String(body.label || '').trim();
+    if (!label || label.length > 60) return { error: 'label is required (max 60 characters)' };
+    input.label = label;
+  }
+  if (body.description !== undefined) {
+    input.description = body.description ? String(body.description).trim().slice(0, 200) : null;
+  }
+  if (isNew || body.permissions !== undefined) {
+    if (!Array.isArray(body.permissions)) return { error: 'permissions must be an array' };
+    const unknown = body.permissions.filter(p => !PERMISSION_KEYS.includes(p));
+    if (unknown.length > 0) return { error: `Unknown permissions: ${unknown.join(', ')}` };
+    input.permissions = body.permissions;
+  }
+  return { input };
+}
+
+// The permission catalogue, for the role editor
+app.get('/api/permissions', requireAuth, (req, res) => {
+  res.json({ success: true, data: PERMISSIONS });
+});
+
+// The caller's own role and what it allows (drives useCan() in the UI)
+app.get('/api/auth/permissions', requireAuth, (req, res) => {
+  try {
+    const role = db.getRole(req.currentUserRole);
+    res.json({
+      success: true,
+      data: {
+        role: req.currentUserRole,
+        label: role ? role.label : req.currentUserRole,
+        description: role ? role.description : null,
+        permissions: req.currentPermissions
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/api/roles', requirePermission('users.view'), (req, res) => {
+  try {
+    res.json({ success: true, data: db.getRoles() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/roles', requirePermission('roles.manage'), (req, res) => {
+  try {
+    const { input, error } = validateRoleInput(req.body || {}, { isNew: true });
+    if (error) return res.status(400).json({ success: false, error });
+    if (db.getRole(input.name)) return res.status(409).json({ success: false, error: `Role ${input.name} already exists` });
+
+    const role = db.createRole(input);
+    if (!role) return res.status(500).json({ success: false, error: 'Failed to create role' });
+
+    db.logActivity('role_created', `Role "${role.label}" created by ${req.currentUserRole} with ${role.permissions.length} permission(s)`, 'info');
+    broadcastEvent('roles.updated', { name: role.name });
+    res.json({ success: true, data: role });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.put('/api/roles/:name', requirePermission('roles.manage'), (req, res) => {
+  try {
+    const existing = db.getRole(req.params.name);
+    if (!existing) return res.status(404).json({ success: false, error: 'Role not found' });
+    if (existing.name === SUPER_ADMIN_ROLE) {
+      return res.status(400).json({ success: false, error: 'The super admin role always has every permission' });
+    }
+
+    const { input, error } = validateRoleInput(req.body || {}, { isNew: false });
+    if (error) return res.status(400).json({ success: false, error });
+
+    const role = db.updateRole(existing.name, input);
+    if (!role) return res.status(500).json({ success: false, error: 'Failed to update role' });
+
+    const added = role.permissions.filter(p => !existing.permissions.includes(p));
+    const removed = existing.permissions.filter(p => !role.permissions.includes(p));
+    db.logActivity('role_updated', `Role "${role.label}" updated by ${req.currentUserRole}`, 'info', null,
+      JSON.stringify({ role: role.name, added, removed }));
+    broadcastEvent('roles.updated', { name: role.name });
+    res.json({ success: true, data: role });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-app.get('/api/users', requireRole('super_admin', 'admin'), (req, res) => {
+app.delete('/api/roles/:name', requirePermission('roles.manage'), (req, res) => {
+  try {
+    const role = db.getRoles().find(r => r.name === req.params.name);
+    if (!role) return res.status(404).json({ success: false, error: 'Role not found' });
+    if (role.built_in) return res.status(400).json({ success: false, error: 'Built-in roles cannot be deleted' });
+    if (role.user_count > 0) {
+      return res.status(409).json({ success: false, error: `Role is assigned to ${role.user_count} user(s); reassign them first` });
+    }
+
+    if (!db.deleteRole(role.name)) return res.status(500).json({ success: false, error: 'Failed to delete role' });
+
+    db.logActivity('role_deleted', `Role "${role.label}" deleted by ${req.currentUserRole}`, 'info');
+    broadcastEvent('roles.updated', { name: role.name });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/api/users', requirePermission('users.view'), (req, res) => {
   try {
     const users = db.getAllUsers ? db.getAllUsers() : [];
     logger.info(`[GET /api/users] Returning ${users.length} users`);
@@ -179,10 +425,12 @@ app.get('/api/users', requireRole('super_admin', 'admin'), (req, res) => {
   }
 });
 
-app.post('/api/users', requireRole('super_admin'), (req, res) => {
+app.post('/api/users', requirePermission('roles.manage'), (req, res) => {
   try {
     const { email, password, name, role = 'operator', pin = null, telegram_chat_id = null, notification_channel = 'telegram' } = req.body;
     if (!email || !password) return res.status(400).json({ success: false, error: 'email and password required' });
+    const roleError = checkAssignableRole(req, role);
+    if (roleError) return res.status(roleError.status).json({ success: false, error: roleError.error });
 
     const created = db.createUser ? db.createUser({ email, password, name, role, pin, telegram_chat_id, notification_channel }) : false;
     if (!created) return res.status(500).json({ success: false, error: 'failed to create user' });
@@ -200,15 +448,19 @@ app.post('/api/users', requireRole('super_admin'), (req, res) => {
   }
 });
 
-app.put('/api/users/:id/role', requireRole('super_admin'), (req, res) => {
+app.put('/api/users/:id/role', requirePermission('roles.manage'), (req, res) => {
   try {
     const userId = req.params.id;
     const { role } = req.body;
     if (!userId || !role) return res.status(400).json({ success: false, error: 'user id and role required' });
+    const roleError = checkAssignableRole(req, role);
+    if (roleError) return res.status(roleError.status).json({ success: false, error: roleError.error });
 
     const updated = db.setUserRole ? db.setUserRole(userId, role) : false;
     if (!updated) return res.status(500).json({ success: false, error: 'failed to update role' });
 
+    db.logActivity('user_role_changed', `User ${userId} assigned role ${role} by ${req.currentUserRole}`, 'info');
+    broadcastEvent('roles.updated', { user_id: userId });
     res.json({ success: true });
   } catch (error) {
     logger.error('PUT /api/users/:id/role error: %s', error.message);
@@ -584,6 +836,54 @@ class YeastarPBXAPI {
     }
   }
 
+  // Download a call recording to destPath (recording/get, then recording/download).
+  // Resolves { contentType, size }; throws when the PBX has no such file.
+  async downloadRecording(recordingFile, destPath) {
+    const token = await this.getToken();
+    const config = db.getPbxConfig();
+
+    const info = await this.makeRequest('POST', `/api/v1.1.0/recording/get?token=${token}`, {
+      recording: recordingFile
+    });
+    if (info.status !== 'Success' || !info.random) {
+      throw new Error(`Recording not available: ${info.errno || info.errmsg || 'Unknown error'}`);
+    }
+
+    const params = new URLSearchParams({ recording: info.file || recordingFile, random: info.random, token });
+    logger.info(`🎧 Downloading recording: ${recordingFile}`);
+
+    return new Promise((resolve, reject) => {
+      const req = https.get({
+        hostname: config.pbx_ip,
+        port: parseInt(config.pbx_port) || 8088,
+        path: `/api/v1.1.0/recording/download?${params}`,
+        rejectUnauthorized: false,
+        headers: { 'User-Agent': 'YeastarConnector/1.0' }
+      }, (res) => {
+        const contentType = res.headers['content-type'] || 'audio/wav';
+        // Errors come back as a JSON body with a 200 status
+        if (res.statusCode !== 200 || contentType.includes('json')) {
+          res.resume();
+          return reject(new Error(`Recording download failed (HTTP ${res.statusCode})`));
+        }
+
+        const file = fs.createWriteStream(destPath);
+        let size = 0;
+        res.on('data', (chunk) => { size += chunk.length; });
+        res.pipe(file);
+        file.on('finish', () => file.close(() => resolve({ contentType, size })));
+        file.on('error', (error) => {
+          res.destroy();
+          reject(error);
+        });
+        res.on('error', reject);
+      });
+
+      req.on('error', reject);
+      req.setTimeout(60000, () => req.destroy(new Error('Recording download timeout')));
+    });
+  }
+
   // Query active calls by type (inbound/outbound) or specific call ID
   async queryCallsAdvanced(type = null, callid = null) {
     const token = await this.getToken();
@@ -951,6 +1251,151 @@ class YeastarPBXAPI {
 // Initialize PBX API
 const pbxAPI = new YeastarPBXAPI();
 
+// ========================================
+// Realtime Event Stream (Server-Sent Events)
+// ========================================
+// Dashboards subscribe to GET /api/events instead of polling SQLite every few
+// seconds. Events: sms.received, sms.status, sms.outbox, sms.opt_out, campaign.progress,
+// call.started, call.ended, call.queue, port.status, sim.balance, activity.logged.
+
+const sseClients = new Set();
+let sseEventId = 0;
+let activeCallWatchInterval = null;
+let activeCallIds = new Map(); // call id -> summary, from the last active-call poll
+
+function broadcastEvent(type, data = {}) {
+  if (sseClients.size === 0) return;
+
+  sseEventId++;
+  const frame = `id: ${sseEventId}\nevent: ${type}\ndata: ${JSON.stringify({ type, data, timestamp: new Date().toISOString() })}\n\n`;
+
+  for (const client of sseClients) {
+    try {
+      client.write(frame);
+      // compression() buffers the body; flush so the event goes out immediately
+      if (typeof client.flush === 'function') client.flush();
+    } catch (error) {
+      logger.debug(`[SSE] Dropping client: ${error.message}`);
+      sseClients.delete(client);
+    }
+  }
+}
+
+// TG400 portNumber is the GSM span (2-5)
+function broadcastPortStatus(ports) {
+  broadcastEvent('port.status', {
+    ports: ports.map(p => ({
+      gsm_span: p.portNumber,
+      status: p.status,
+      isUp: p.isUp,
+      isPowerOn: p.isPowerOn
+    }))
+  });
+}
+
+function closeEventStreams() {
+  for (const client of sseClients) {
+    try { client.end(); } catch (e) {}
+  }
+  sseClients.clear();
+  stopActiveCallWatch();
+}
+
+// Every activity row is pushed to connected dashboards as it is written
+const logActivityToDb = db.logActivity.bind(db);
+db.logActivity = (eventType, message, severity = 'info', sim_port = null, metadata = {}) => {
+  const logged = logActivityToDb(eventType, message, severity, sim_port, metadata);
+  if (logged) {
+    broadcastEvent('activity.logged', { event_type: eventType, message, severity, sim_port });
+  }
+  return logged;
+};
+
+// Poll the PBX for live calls once for all viewers (only while someone is listening)
+async function pollActiveCalls() {
+  try {
+    const config = db.getPbxConfig();
+    if (!config || !config.pbx_ip || !config.api_username) return;
+
+    const [inbound, outbound] = await Promise.all([
+      pbxAPI.queryInboundCalls(),
+      pbxAPI.queryOutboundCalls()
+    ]);
+    if (inbound.status !== 'Success' || outbound.status !== 'Success') return;
+
+    const current = new Map();
+    (inbound.inbound || []).forEach(call => {
+      const id = `in-${call.inboundid}`;
+      current.set(id, { id, direction: 'inbound', from: call.from || null, to: call.to || null });
+    });
+    (outbound.outbound || []).forEach(call => {
+      const id = `out-${call.outboundid}`;
+      current.set(id, { id, direction: 'outbound', from: call.from || null, to: call.to || null });
+    });
+
+    for (const [id, call] of current) {
+      if (!activeCallIds.has(id)) broadcastEvent('call.started', call);
+    }
+    for (const [id, call] of activeCallIds) {
+      if (!current.has(id)) broadcastEvent('call.ended', call);
+    }
+    activeCallIds = current;
+  } catch (error) {
+    logger.debug(`[SSE] Active call poll failed: ${error.message}`);
+  }
+}
+
+function startActiveCallWatch() {
+  if (activeCallWatchInterval) return;
+  activeCallWatchInterval = setInterval(pollActiveCalls, runtimeConfig.get('poll_interval_seconds') * 1000);
+  pollActiveCalls();
+}
+
+runtimeConfig.onChange('poll_interval_seconds', (seconds) => {
+  if (!activeCallWatchInterval) return; // Nobody watching; the next client starts it
+  clearInterval(activeCallWatchInterval);
+  activeCallWatchInterval = setInterval(pollActiveCalls, seconds * 1000);
+  logger.info(`[SSE] Active call poll interval changed to ${seconds}s`);
+});
+
+function stopActiveCallWatch() {
+  if (activeCallWatchInterval) {
+    clearInterval(activeCallWatchInterval);
+    activeCallWatchInterval = null;
+  }
+  activeCallIds = new Map();
+}
+
+app.get('/api/events', (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: 5000\n\n`);
+  if (typeof res.flush === 'function') res.flush();
+
+  sseClients.add(res);
+  logger.debug(`[SSE] Client connected (${sseClients.size} total)`);
+  startActiveCallWatch();
+
+  // Comment frames keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => {
+    try {
+      res.write(': ping\n\n');
+      if (typeof res.flush === 'function') res.flush();
+    } catch (e) {}
+  }, 25000);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    sseClients.delete(res);
+    logger.debug(`[SSE] Client disconnected (${sseClients.size} remaining)`);
+    if (sseClients.size === 0) stopActiveCallWatch();
+  });
+});
+
 // ========================================
 // Service start time — only calls at or after this UTC moment get auto-SMS.
 // This prevents historical CDR backfill from ever triggering messages.
@@ -965,6 +1410,24 @@ logger.info(`Service start time (UTC): ${new Date(SERVICE_START_UTC_MS).toISOStr
 let callSyncInterval = null;
 let isFirstSync = true; // Track first sync for historical backfill
 
+// (Re)start the periodic sync at the configured interval
+function scheduleCallSync() {
+  if (callSyncInterval) clearInterval(callSyncInterval);
+  callSyncInterval = setInterval(async () => {
+    try {
+      await syncCallRecords();
+    } catch (error) {
+      logger.error(`Background call sync error: ${error.message}`);
+    }
+  }, runtimeConfig.get('pbx_sync_interval_seconds') * 1000);
+}
+
+runtimeConfig.onChange('pbx_sync_interval_seconds', (seconds) => {
+  if (!callSyncInterval) return; // Not started yet; startCallSync picks it up
+  scheduleCallSync();
+  logger.info(` Call sync interval changed to ${seconds}s`);
+});
+
 // Start background call synchronization
 async function startCallSync() {
   try {
@@ -985,14 +1448,8 @@ async function startCallSync() {
     // Sync immediately on start
     await syncCallRecords();
     
-    // Then sync every 5 minutes for ongoing updates
-    callSyncInterval = setInterval(async () => {
-      try {
-        await syncCallRecords();
-      } catch (error) {
-        logger.error(`Background call sync error: ${error.message}`);
-      }
-    }, 5 * 60 * 1000); // 5 minutes
+    // Then sync every pbx_sync_interval_seconds (5 minutes by default) for ongoing updates
+    scheduleCallSync();
     
   } catch (error) {
     logger.error(`Failed to start call sync: ${error.message}`);
@@ -1099,6 +1556,16 @@ async function syncCallRecords() {
         
         if (db.saveCallRecord(callRecord)) {
           savedCount++;
+
+          broadcastEvent('call.ended', {
+            external_id: callRecord.external_id,
+            caller_number: callRecord.caller_number,
+            callee_number: callRecord.callee_number,
+            direction: callRecord.direction,
+            status: callRecord.status,
+            extension: callRecord.extension,
+            start_time: callRecord.start_time
+          });
           
           // EVENT-DRIVEN: Send missed call alert and auto-SMS immediately when saved
           if (['missed', 'no-answer', 'noanswer', 'failed'].includes(callRecord.status)) {
@@ -1214,3684 +1681,6474 @@ async function processMissedCallQueue() {
 }
 
 // ========================================
-// ========================================
-// Auto-Reply SMS
+// SMS Opt-Out (Suppression List)
 // ========================================
 
-async function sendAutoReplySms(senderNumber) {
-  try {
-    const autoReplyConfig = db.getAutoReplyConfig ? db.getAutoReplyConfig() : null;
-    
-    // Check if auto-reply is enabled
-    if (!autoReplyConfig?.enabled) {
-      logger.debug(' Auto-reply disabled - skipping');
-      return false;
-    }
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'OPT-OUT', 'OPT OUT'];
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'SUBSCRIBE'];
+
+// Drop suppressed recipients before any send; each blocked attempt is logged.
+// Every outbound path (gateway, reports, SIM sends) goes through this.
+function filterOptedOut(numbers, context) {
+  return numbers.filter(number => {
+    if (!db.isOptedOut(number)) return true;
+    logger.warn(`🚫 SMS to ${number} blocked (${context}): recipient opted out`);
+    db.logActivity('sms_blocked_opt_out', `SMS to ${number} blocked (${context}): recipient opted out`, 'warning', null,
+      JSON.stringify({ phone_number: number, context }));
+    return false;
+  });
+}
 
-    if (!senderNumber || !autoReplyConfig.message) {
-      logger.warn('Auto-reply: Missing phone number or message');
-      return false;
-    }
+/**
+ * Inbound STOP / START handling. The whole message must be the keyword
+ * (trailing punctuation allowed) so "don't stop calling me" isn't an opt-out.
+ * Returns 'opt_out', 'opt_in' or null.
+ */
+function handleOptOutKeywords(senderNumber, messageContent, gsmSpan) {
+  const keyword = String(messageContent || '').trim().replace(/[.!\s]+$/, '').replace(/\s+/g, ' ').toUpperCase();
 
-    // Prevent repeated auto-replies to the same number.
-    // Use the admin-configured duplicate window from call_auto_sms_config (default 10 min).
-    const callAutoSmsCfg = db.getCallAutoSmsConfig ? db.getCallAutoSmsConfig() : {};
-    const autoReplyDupWindow = callAutoSmsCfg?.duplicate_window || 10;
-    if (db.checkRecentSms && db.checkRecentSms(senderNumber, autoReplyDupWindow)) {
-      logger.info(` Auto-reply duplicate prevention: skipping ${senderNumber} (within ${autoReplyDupWindow} min window)`);
-      db.logActivity('auto_reply_sms_duplicate_prevented', `Auto-reply duplicate prevented for ${senderNumber}`, 'info');
-      return false;
+  if (OPT_OUT_KEYWORDS.includes(keyword)) {
+    if (db.addOptOut({ phoneNumber: senderNumber, source: 'keyword', keyword, reason: 'Inbound opt-out keyword' })) {
+      logger.info(`🚫 ${senderNumber} opted out via "${keyword}" on GsmSpan ${gsmSpan}`);
+      db.logActivity('sms_opt_out', `${senderNumber} opted out by texting ${keyword}`, 'warning', gsmSpan,
+        JSON.stringify({ phone_number: senderNumber, keyword, source: 'keyword' }));
     }
+    return 'opt_out';
+  }
 
-    logger.info(`📧 Sending auto-reply to: ${senderNumber}`);
-    logger.info(`   Message: ${autoReplyConfig.message.substring(0, 80)}...`);
-    
-    const success = await sendSmsViaGateway(senderNumber, autoReplyConfig.message);
-    
-    if (success) {
-      logger.info(`✅ Auto-reply SMS sent to ${senderNumber}`);
-      db.logActivity('auto_reply_sms_sent', `Auto-reply sent to ${senderNumber}`, 'success');
-      db.insertSMS({
-        sender_number: senderNumber,
-        message_content: autoReplyConfig.message,
-        received_at: new Date().toISOString(),
-        status: 'processed',
-        direction: 'sent',
-        category: 'auto_reply'
-      });
-    } else {
-      logger.error(`❌ Auto-reply SMS failed for ${senderNumber}`);
-      db.logActivity('auto_reply_sms_failed', `Auto-reply failed for ${senderNumber}`, 'error');
+  // Only lift keyword opt-outs; a manual suppression needs an admin to remove it
+  if (OPT_IN_KEYWORDS.includes(keyword)) {
+    const existing = db.getOptOut(senderNumber);
+    if (existing?.source === 'keyword' && db.removeOptOut(senderNumber)) {
+      logger.info(`✅ ${senderNumber} opted back in via "${keyword}"`);
+      db.logActivity('sms_opt_in', `${senderNumber} opted back in by texting ${keyword}`, 'info', gsmSpan,
+        JSON.stringify({ phone_number: senderNumber, keyword }));
+      return 'opt_in';
     }
-    
-    return success;
-  } catch (error) {
-    logger.error(`Auto-reply exception: ${error.message}`);
-    return false;
   }
+
+  return null;
 }
 
 // ========================================
-// Call Auto-SMS
+// SIM-originated SMS (TG400)
 // ========================================
 
-async function sendCallAutoSms(callRecord) {
+// Spans that are up on the TG400 and enabled in gsm_span_config, limited to
+// allowedSpans when given (empty = any span)
+async function getHealthySpans(allowedSpans = []) {
+  if (!tg400Api || !tg400Api.isConnected || !tg400Api.isAuthenticated) return [];
+
+  let ports;
   try {
-    const callAutoSmsConfig = db.getCallAutoSmsConfig ? db.getCallAutoSmsConfig() : null;
-    
-    // Check if call auto-SMS is enabled
-    if (!callAutoSmsConfig?.enabled) {
-      logger.debug(' Call auto-SMS disabled - skipping');
-      return false;
-    }
+    ports = await tg400Api.getAllPortsInfo();
+  } catch (error) {
+    logger.debug(`Span health check failed: ${error.message}`);
+    return [];
+  }
 
-    // Skip internal calls entirely (extension-to-extension)
-    if (callRecord.direction === 'internal') {
-      logger.debug(` Call auto-SMS: Skipping internal call`);
-      return false;
-    }
+  const disabled = new Set(db.prepare('SELECT gsm_span FROM gsm_span_config WHERE is_active = 0').all().map(row => row.gsm_span));
+  return ports
+    .filter(p => p.isUp && !disabled.has(p.portNumber))
+    .filter(p => allowedSpans.length === 0 || allowedSpans.includes(p.portNumber))
+    .map(p => p.portNumber);
+}
 
-    // Check configured call direction (inbound / outbound / both)
-    const configuredDirection = callAutoSmsConfig.call_direction || 'both';
-    if (configuredDirection !== 'both' && callRecord.direction !== configuredDirection) {
-      logger.debug(` Call auto-SMS: Skipping ${callRecord.direction} call (configured for '${configuredDirection}' only)`);
-      return false;
-    }
+// Send attempts per span since the last SIM health sample: gsm span -> { attempts, failures }
+const spanSendCounts = new Map();
 
-    // Check extension filter — if a list is set, the call's extension must be in it
-    let allowedExtensions = [];
-    try { allowedExtensions = JSON.parse(callAutoSmsConfig.allowed_extensions || '[]'); } catch {}
-    if (allowedExtensions.length > 0 && !allowedExtensions.includes(String(callRecord.extension))) {
-      logger.debug(` Call auto-SMS: Extension '${callRecord.extension}' not in allowed list [${allowedExtensions.join(', ')}]`);
-      return false;
-    }
+function countSpanSend(gsmSpan, sent) {
+  const counts = spanSendCounts.get(gsmSpan) || { attempts: 0, failures: 0 };
+  counts.attempts++;
+  if (!sent) counts.failures++;
+  spanSendCounts.set(gsmSpan, counts);
+}
 
-    // ✅ Recency guard — only send SMS for calls that started AFTER this service instance was launched.
-    // CDR start_time is stored in UTC. We append 'Z' if no timezone designator is present so
-    // JavaScript always parses it as UTC (not server local time), matching the EAT display in the frontend.
-    // Historical CDR backfill records (any call before service start) are always rejected.
-    if (callRecord.start_time) {
-      const raw = String(callRecord.start_time).trim().replace(' ', 'T');
-      const utcTs = /Z$|[+-]\d{2}:\d{2}$/.test(raw) ? raw : `${raw}Z`;
-      const callMs = new Date(utcTs).getTime();
-      if (isNaN(callMs)) {
-        logger.warn(` Call auto-SMS: Could not parse start_time '${callRecord.start_time}' — skipping`);
-        return false;
-      }
-      if (callMs < SERVICE_START_UTC_MS) {
-        logger.debug(` Call auto-SMS: Skipping pre-service call from ${new Date(callMs).toISOString()} (service started ${new Date(SERVICE_START_UTC_MS).toISOString()})`);
-        return false;
-      }
-    }
+// Hand one SMS to the TG400 on a given span; resolves to the gateway's status.
+// Every attempt that reaches the gateway counts towards the SIM's failure rate.
+async function transmitSpanSms(gsmSpan, to, text, messageId) {
+  if (!tg400Api || !tg400Api.isConnected || !tg400Api.isAuthenticated) {
+    return { id: messageId, status: 'failed', error: 'Gateway not connected' };
+  }
+  let status;
+  try {
+    // sendSms takes the SIM port (1-4) and adds 1 to address the span
+    status = await tg400Api.sendSms(gsmSpan - 1, to, text, messageId);
+  } catch (sendError) {
+    status = { id: messageId, status: 'failed', error: sendError.message };
+  }
+  countSpanSend(gsmSpan, status?.status === 'sent');
+  return status;
+}
 
-    // Determine the external number to receive the SMS
-    // Inbound: SMS goes to the external caller; Outbound: SMS goes to the external callee
-    const targetNumber = callRecord.direction === 'outbound'
-      ? callRecord.callee_number
-      : callRecord.caller_number;
+// Store a SIM send in the sent log and push it to SSE clients
+function recordSpanSms(messageId, gsmSpan, to, text, sent, category) {
+  db.insertSMS({
+    external_id: messageId,
+    sender_number: to,
+    message_content: text,
+    gsm_span: gsmSpan,
+    received_at: new Date().toISOString(),
+    status: sent ? 'sent' : 'failed',
+    direction: 'sent',
+    category
+  });
 
-    const callerNumber = targetNumber;
-    if (!callerNumber) {
-      logger.warn('Call auto-SMS: No caller number provided');
-      return false;
+  for (const [key] of responseCache.entries()) {
+    if (key.includes('sms-') || key === 'statistics:all') {
+      responseCache.delete(key);
     }
+  }
 
-    // ✅ Ensure it's an external phone number, not an internal extension (extensions are 1-4 digits)
-    if (callerNumber && /^\d{1,4}$/.test(callerNumber)) {
-      logger.debug(` Call auto-SMS: Skipping internal extension ${callerNumber}`);
-      return false;
-    }
+  broadcastEvent('sms.status', { external_id: messageId, sender_number: to, gsm_span: gsmSpan, status: sent ? 'sent' : 'failed' });
+}
 
-    // ✅ Validate phone number (must be 10+ digits: 0722832929, 254729202638, etc.)
-    if (!isValidPhoneNumber(callerNumber)) {
-      logger.warn(` Call auto-SMS: Invalid phone number format: ${callerNumber} (must be 10+ digits)`);
-      db.logActivity('call_auto_sms_invalid_number', `Invalid phone number: ${callerNumber}`, 'warning');
-      return false;
-    }
+// Send from a specific SIM so the customer sees the number they texted.
+// The attempt is stored as a sent row either way and pushed to SSE clients.
+// Campaigns call this directly since they track their own per-recipient
+// state; everything else goes through the outbox below.
+async function sendSpanSms(gsmSpan, to, text, { idPrefix = 'span', category = null } = {}) {
+  if (filterOptedOut([to], category || idPrefix).length === 0) {
+    return { id: null, sent: false, blocked: true, error: 'Recipient has opted out of SMS' };
+  }
 
-    // Determine message based on call status
-    let messageTemplate;
-    if (['missed', 'no-answer', 'noanswer', 'failed'].includes(callRecord.status)) {
-      messageTemplate = callAutoSmsConfig.missed_message;
-      logger.info(`📞 Sending missed call auto-SMS to: ${callerNumber}`);
-    } else if (['answered', 'connected'].includes(callRecord.status)) {
-      messageTemplate = callAutoSmsConfig.answered_message;
-      logger.info(`☎️ Sending answered call auto-SMS to: ${callerNumber}`);
-    } else {
-      logger.debug(` Call auto-SMS: Status '${callRecord.status}' not matched for sending`);
-      return false;
+  const messageId = `${idPrefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const status = await transmitSpanSms(gsmSpan, to, text, messageId);
+  const sent = status?.status === 'sent';
+
+  recordSpanSms(messageId, gsmSpan, to, text, sent, category);
+
+  return { id: messageId, sent, blocked: false, error: sent ? null : (status?.error || 'Gateway reported failure') };
+}
+
+// ========================================
+// Outbound SMS Queue
+// ========================================
+
+const OUTBOX_TICK_MS = 5000;
+const OUTBOX_BACKOFF_BASE_SECONDS = 30; // 30s, 1m, 2m, 4m ... between attempts
+const OUTBOX_BACKOFF_MAX_SECONDS = 1800;
+let outboxDraining = false;
+
+function outboxBackoffSeconds(attempts) {
+  return Math.min(OUTBOX_BACKOFF_BASE_SECONDS * Math.pow(2, Math.max(0, attempts - 1)), OUTBOX_BACKOFF_MAX_SECONDS);
+}
+
+function broadcastOutboxStatus(item) {
+  if (!item) return;
+  broadcastEvent('sms.outbox', {
+    id: item.id,
+    to_number: item.to_number,
+    gsm_span: item.gsm_span,
+    status: item.status,
+    attempts: item.attempts,
+    last_error: item.last_error,
+  });
+}
+
+// Persist an SMS for sending. Opted-out recipients are refused up front so
+// the caller can tell the user; returns { item, blocked }.
+function enqueueSms(to, text, { gsmSpan = null, source = 'api', category = null, createdBy = null } = {}) {
+  if (filterOptedOut([to], category || source).length === 0) {
+    return { item: null, blocked: true };
+  }
+
+  const item = db.enqueueOutboxMessage({
+    to_number: to,
+    message: text,
+    preferred_gsm_span: gsmSpan,
+    source,
+    category,
+    created_by: createdBy,
+    max_attempts: runtimeConfig.get('sms_max_attempts'),
+  });
+  if (!item) throw new Error('Failed to queue SMS');
+
+  broadcastOutboxStatus(item);
+  setImmediate(() => drainOutbox().catch(error => logger.error(`Outbox drain error: ${error.message}`)));
+  return { item, blocked: false };
+}
+
+// Prefer the span the message asked for; fail over to another healthy SIM
+// when it is down, or when it was the one that failed the last attempt.
+function pickOutboxSpan(item, healthySpans) {
+  const preferred = item.preferred_gsm_span;
+  const lastFailed = item.attempts > 1 && item.last_error ? item.gsm_span : null;
+
+  if (preferred && healthySpans.includes(preferred) && preferred !== lastFailed) return preferred;
+  const others = healthySpans.filter(span => span !== lastFailed);
+  return others.length > 0 ? others[0] : healthySpans[0];
+}
+
+// One attempt at a claimed message. Returns the updated outbox row.
+async function attemptOutboxMessage(item, healthySpans) {
+  // Opt-outs can arrive while a message waits out a backoff
+  if (filterOptedOut([item.to_number], item.category || item.source).length === 0) {
+    const cancelled = db.updateOutboxMessage(item.id, { status: 'cancelled', last_error: 'Recipient has opted out of SMS' });
+    broadcastOutboxStatus(cancelled);
+    return cancelled;
+  }
+
+  const gsmSpan = pickOutboxSpan(item, healthySpans);
+  const exhausted = item.attempts >= item.max_attempts;
+  const messageId = `${item.source}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const status = await transmitSpanSms(gsmSpan, item.to_number, item.message, messageId);
+  const sent = status?.status === 'sent';
+  const error = sent ? null : (status?.error || 'Gateway reported failure');
+
+  let updated;
+  if (sent) {
+    updated = db.updateOutboxMessage(item.id, { status: 'sent', gsm_span: gsmSpan, external_id: messageId });
+    recordSpanSms(messageId, gsmSpan, item.to_number, item.message, true, item.category);
+  } else if (exhausted) {
+    updated = db.updateOutboxMessage(item.id, { status: 'failed', gsm_span: gsmSpan, external_id: messageId, last_error: error });
+    recordSpanSms(messageId, gsmSpan, item.to_number, item.message, false, item.category);
+    logger.error(`❌ SMS to ${item.to_number} failed after ${item.attempts} attempts: ${error}`);
+    db.logActivity('sms_send_failed', `SMS to ${item.to_number} failed after ${item.attempts} attempts: ${error}`, 'error', gsmSpan,
+      JSON.stringify({ outbox_id: item.id, source: item.source }));
+  } else {
+    const retryIn = outboxBackoffSeconds(item.attempts);
+    updated = db.updateOutboxMessage(item.id, { gsm_span: gsmSpan, external_id: messageId, last_error: error, retry_in_seconds: retryIn });
+    logger.warn(`⚠️  SMS to ${item.to_number} via GsmSpan ${gsmSpan} failed (attempt ${item.attempts}/${item.max_attempts}): ${error}. Retrying in ${retryIn}s`);
+  }
+
+  broadcastOutboxStatus(updated);
+  return updated;
+}
+
+// Work off everything that is due. One drain at a time; the SIMs are slow
+// enough that sending sequentially costs nothing. While no SIM is usable the
+// queue just waits, so a gateway outage doesn't burn through attempts.
+async function drainOutbox() {
+  if (outboxDraining || !db.hasDueOutboxMessage()) return;
+  outboxDraining = true;
+  try {
+    const healthySpans = await getHealthySpans();
+    if (healthySpans.length === 0) return;
+
+    let item;
+    while ((item = db.claimOutboxMessage())) {
+      await attemptOutboxMessage(item, healthySpans);
     }
+  } finally {
+    outboxDraining = false;
+  }
+}
 
-    if (!messageTemplate) {
-      logger.warn('Call auto-SMS: No message template available');
-      return false;
+const interruptedOutboxSends = db.failInterruptedOutboxSends();
+if (interruptedOutboxSends > 0) {
+  logger.warn(`📤 Marked ${interruptedOutboxSends} in-flight outbound SMS as failed after restart; retry them from Sent SMS if they did not arrive`);
+  db.logActivity('sms_send_interrupted', `${interruptedOutboxSends} outbound SMS were interrupted by an agent restart and need a manual retry`, 'warning');
+}
+setInterval(() => {
+  drainOutbox().catch(error => logger.error(`Outbox drain error: ${error.message}`));
+}, OUTBOX_TICK_MS);
+
+// ========================================
+// Keyword Auto-Reply Rules
+// ========================================
+
+// Does the inbound text trigger this rule? Returns the regex match (or a
+// synthetic one for exact/keyword rules) so replies can use capture groups.
+function matchAutoReplyRule(rule, messageContent) {
+  const text = String(messageContent || '').trim();
+  const fold = (value) => (rule.case_sensitive ? value : value.toLowerCase());
+
+  if (rule.match_type === 'regex') {
+    try {
+      return new RegExp(rule.pattern, rule.case_sensitive ? '' : 'i').exec(text);
+    } catch {
+      return null;
     }
+  }
 
-    // Replace template variables
-    let message = messageTemplate
-      .replace(/\{caller_name\}/g, callRecord.caller_name || callRecord.caller_number)
-      .replace(/\{caller_number\}/g, callerNumber)
-      .replace(/\{extension\}/g, callRecord.extension || 'N/A')
-      .replace(/\{time\}/g, new Date(callRecord.start_time).toLocaleTimeString('en-KE'))
-      .replace(/\{date\}/g, new Date(callRecord.start_time).toLocaleDateString('en-KE'))
-      .replace(/\{duration\}/g, `${callRecord.talk_duration || 0}s`);
+  const pattern = fold(String(rule.pattern || '').trim());
+  if (!pattern) return null;
 
-    logger.info(`   Message: ${message.substring(0, 80)}...`);
-    
-    // Calculate delay (admin-configurable, default 5 minutes)
-    const delayMinutes = (callAutoSmsConfig.delay_enabled && callAutoSmsConfig.delay_minutes) ? callAutoSmsConfig.delay_minutes : 0;
-    const delayMs = delayMinutes * 60 * 1000;
-    const scheduledTime = Date.now() + delayMs;
-    
-    // Use admin-configured duplicate window (default 10 minutes)
-    const duplicateWindowMinutes = callAutoSmsConfig.duplicate_window || 10;
+  if (rule.match_type === 'exact') {
+    return fold(text) === pattern ? [text] : null;
+  }
 
-    // Check for recent duplicates before queueing
-    if (db.checkRecentSms && db.checkRecentSms(callerNumber, duplicateWindowMinutes)) {
-      logger.info(` Auto-SMS: Duplicate prevention - SMS already sent to ${callerNumber} within ${duplicateWindowMinutes} min`);
-      db.logActivity('call_auto_sms_duplicate_prevented', `Duplicate prevented for ${callerNumber}`, 'info');
-      return false;
+  // keyword: first word of the message, e.g. "BALANCE 12345"
+  const [firstWord = '', ...rest] = text.split(/\s+/);
+  return fold(firstWord) === pattern ? [text, rest.join(' ')] : null;
+}
+
+// Office-hours window check (server local time). Windows may wrap midnight.
+function isAutoReplyRuleActiveNow(rule, now = new Date()) {
+  if (rule.active_days.length > 0 && !rule.active_days.includes(now.getDay())) {
+    return false;
+  }
+  if (!rule.active_from || !rule.active_to) return true;
+
+  const toMinutes = (hhmm) => {
+    const [h, m] = String(hhmm).split(':').map(Number);
+    return h * 60 + (m || 0);
+  };
+  const current = now.getHours() * 60 + now.getMinutes();
+  const from = toMinutes(rule.active_from);
+  const to = toMinutes(rule.active_to);
+  return from <= to ? (current >= from && current < to) : (current >= from || current < to);
+}
+
+// First enabled rule that applies to this message on this span right now
+function findAutoReplyRule(messageContent, gsmSpan, now = new Date()) {
+  for (const rule of db.getAutoReplyRules({ enabledOnly: true })) {
+    if (rule.gsm_spans.length > 0 && !rule.gsm_spans.includes(gsmSpan)) continue;
+    if (!isAutoReplyRuleActiveNow(rule, now)) continue;
+    const match = matchAutoReplyRule(rule, messageContent);
+    if (match) return { rule, match };
+  }
+  return null;
+}
+
+function renderAutoReplyRule(rule, match, senderNumber) {
+  const vars = { sender: senderNumber, message: match[0], args: match[1] || '' };
+  match.forEach((group, index) => { vars[index] = group; });
+  return applyTemplate(rule.template_message || rule.reply_message || '', vars).trim();
+}
+
+/**
+ * Reply to a structured keyword ("BALANCE", "STOP", ...) from the SIM it came in on.
+ * Returns true when a rule matched — even if cooldown suppressed the send — so the
+ * generic auto-reply doesn't also fire for that message.
+ */
+async function sendKeywordAutoReply(senderNumber, messageContent, gsmSpan) {
+  try {
+    const found = findAutoReplyRule(messageContent, gsmSpan);
+    if (!found) return false;
+
+    const { rule, match } = found;
+
+    if (db.isAutoReplyRuleCoolingDown(rule.id, senderNumber, rule.cooldown_minutes)) {
+      logger.info(` Keyword rule "${rule.name}" cooling down for ${senderNumber} (${rule.cooldown_minutes} min)`);
+      db.recordAutoReplyRuleHit(rule.id, senderNumber, gsmSpan, 'cooldown');
+      db.logActivity('auto_reply_rule_cooldown', `Rule "${rule.name}" skipped for ${senderNumber} (cooldown)`, 'info', gsmSpan);
+      return true;
     }
 
-    // Queue SMS for delayed sending
-    const existingQueuedAt = autoSmsQueuedNumbers.get(callerNumber);
-    if (existingQueuedAt && (Date.now() - existingQueuedAt) < (duplicateWindowMinutes * 60 * 1000)) {
-      logger.info(` Auto-SMS queue duplicate prevention: ${callerNumber} already queued recently`);
-      db.logActivity('call_auto_sms_queue_duplicate_prevented', `Queue duplicate prevented for ${callerNumber}`, 'info');
-      return false;
+    const reply = renderAutoReplyRule(rule, match, senderNumber);
+    if (!reply) {
+      logger.warn(`Keyword rule "${rule.name}" matched but has no reply text`);
+      return true;
     }
 
-    autoSmsQueuedNumbers.set(callerNumber, Date.now());
+    if (!db.isSmsEnabled()) {
+      logger.info('ℹ️  SMS sending is currently disabled by administrator');
+      return true;
+    }
 
-    autoSmsQueue.push({
-      scheduledTime,
-      fn: async () => {
-        try {
-          const success = await sendSmsViaGateway(callerNumber, message);
-          if (success) {
-            logger.info(`✅ Call auto-SMS sent to ${callerNumber} (delayed ${delayMinutes}m)`);
-            db.logActivity('call_auto_sms_sent', `Call auto-SMS sent to ${callerNumber}`, 'success');
-            db.insertSMS({ sender_number: callerNumber, message_content: message, received_at: new Date().toISOString(), status: 'processed', direction: 'sent', category: 'auto' });
-          } else {
-            logger.error(`❌ Call auto-SMS failed for ${callerNumber}`);
-            db.logActivity('call_auto_sms_failed', `Call auto-SMS failed for ${callerNumber}`, 'error');
-          }
-        } catch (err) { logger.error(`Queued SMS error: ${err.message}`); }
-        finally {
-          autoSmsQueuedNumbers.delete(callerNumber);
-        }
-      }
-    });
+    logger.info(`📧 Keyword rule "${rule.name}" matched SMS from ${senderNumber} on GsmSpan ${gsmSpan}`);
+    const { item, blocked } = enqueueSms(senderNumber, reply, { gsmSpan, source: 'rule', category: 'auto_reply' });
+    if (blocked) return true;
 
-    if (!isProcessingAutoSms) processAutoSmsQueue();
+    // A queued reply counts towards the cooldown; the outbox owns retries and
+    // logs the send if it finally fails
+    db.recordAutoReplyRuleHit(rule.id, senderNumber, gsmSpan, 'sent');
+    db.logActivity('auto_reply_rule_sent', `Rule "${rule.name}" queued a reply to ${senderNumber}`, 'success', gsmSpan,
+      JSON.stringify({ rule_id: rule.id, rule_name: rule.name, outbox_id: item.id }));
     return true;
   } catch (error) {
-    logger.error(`Call auto-SMS exception: ${error.message}`);
+    logger.error(`Keyword auto-reply exception: ${error.message}`);
     return false;
   }
 }
 
-// Template variable substitution
-function applyTemplate(template, vars) {
-  return Object.entries(vars).reduce((text, [key, val]) =>
-    text.split(`{${key}}`).join(val !== undefined && val !== null ? String(val) : ''),
-  template);
+// ========================================
+// Bulk SMS Campaigns
+// ========================================
+
+const CAMPAIGN_TICK_MS = 15000;
+const activeCampaignRuns = new Map(); // campaign id -> run promise
+
+function renderCampaignMessage(message, recipient) {
+  return applyTemplate(message, {
+    ...recipient.merge_data,
+    name: recipient.name || recipient.merge_data?.name || '',
+    phone: recipient.phone_number,
+  }).trim();
 }
 
-// Get template for a specific channel (tg_ or email_ prefix), falling back to shared key
-function getChannelTemplate(channel, eventType) {
-  const channelKey = `${channel}_${eventType}`;
-  return db.getNotificationTemplate(channelKey) || db.getNotificationTemplate(eventType) || null;
+function broadcastCampaignProgress(campaignId) {
+  const campaign = db.getCampaign(campaignId);
+  if (!campaign) return;
+  broadcastEvent('campaign.progress', {
+    id: campaign.id,
+    status: campaign.status,
+    total: campaign.total,
+    pending: campaign.pending,
+    sent: campaign.sent,
+    failed: campaign.failed,
+    skipped: campaign.skipped,
+  });
 }
 
-// Event-Driven Missed Call Alert (No Polling)
-// ========================================
+// One worker per SIM: pull the next recipient, send, then wait out the SIM's rate slot
+async function runCampaignSpan(campaignId, gsmSpan, intervalMs) {
+  let consecutiveFailures = 0;
 
-const notifiedMissedCalls = new Set(); // Track which missed calls we've already alerted
+  while (true) {
+    const campaign = db.getCampaign(campaignId);
+    if (!campaign || campaign.status !== 'running') return;
+    if (!tg400Api || !tg400Api.isConnected) return;
 
-async function sendMissedCallAlert(callRecord) {
-  try {
-    const telegramConfig = db.getNotificationConfig();
-    
-    // Only send if telegram is enabled and configured
-    if (!telegramConfig?.enabled || !telegramConfig?.bot_token || !telegramConfig?.chat_id) {
-      logger.debug(' Telegram not enabled - skipping alert');
-      return;
-    }
+    const recipient = db.claimCampaignRecipient(campaignId, gsmSpan);
+    if (!recipient) return;
 
-    if (!telegramConfig?.notify_missed_calls) {
-      logger.debug(' Missed-call notifications are disabled - skipping alert');
-      return;
-    }
+    const startedAt = Date.now();
+    const text = renderCampaignMessage(campaign.message, recipient);
+    const result = text
+      ? await sendSpanSms(gsmSpan, recipient.phone_number, text, { idPrefix: 'campaign', category: 'marketing' })
+      : { id: null, sent: false, blocked: true, error: 'Message is empty after merge' };
 
-    // Skip if not a missed call or already notified
-    if (!['missed', 'no-answer', 'noanswer', 'failed'].includes(callRecord.status)) {
+    db.updateCampaignRecipient(recipient.id, {
+      status: result.blocked ? 'skipped' : result.sent ? 'sent' : 'failed',
+      external_id: result.id,
+      error: result.error,
+    });
+    broadcastCampaignProgress(campaignId);
+
+    // Skipped recipients never reached the SIM, so they don't use up a rate slot
+    if (result.blocked) continue;
+
+    consecutiveFailures = result.sent ? 0 : consecutiveFailures + 1;
+    if (consecutiveFailures >= runtimeConfig.get('campaign_span_max_failures')) {
+      logger.warn(`📣 Campaign "${campaign.name}": GsmSpan ${gsmSpan} failed ${consecutiveFailures} sends in a row, dropping it from this run`);
+      db.logActivity('campaign_span_dropped', `Campaign "${campaign.name}" stopped using GsmSpan ${gsmSpan} after ${consecutiveFailures} failed sends`, 'warning', gsmSpan);
       return;
     }
 
-    // Only alert for inbound calls (external callers) — never internal extensions
-    if (callRecord.direction !== 'inbound') {
-      logger.debug(` Missed call alert: skipping ${callRecord.direction} call from ${callRecord.caller_number}`);
-      return;
+    const wait = intervalMs - (Date.now() - startedAt);
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
     }
+  }
+}
 
-    // ✅ CHECK CHECKPOINT - Only alert for NEW calls after Telegram was enabled
-    const checkpoint = db.getAlertCheckpoint('missed_call');
-    if (checkpoint) {
-      const callTime = new Date(callRecord.start_time).getTime();
-      const checkpointTime = new Date(checkpoint).getTime();
-      
-      if (callTime <= checkpointTime) {
-        logger.debug(`⏭️ Skipping old call (${callRecord.start_time} <= ${checkpoint})`);
-        return;
-      }
+async function runCampaign(campaignId) {
+  const campaign = db.getCampaign(campaignId);
+  if (!campaign || campaign.status !== 'running') return;
+
+  const spans = await getHealthySpans(campaign.gsm_spans);
+  if (spans.length === 0) {
+    // Stay running; the next tick retries once a SIM comes back
+    if (campaign.last_error !== 'No healthy SIM available') {
+      logger.warn(`📣 Campaign "${campaign.name}" waiting: no healthy SIM available`);
+      db.setCampaignError(campaignId, 'No healthy SIM available');
+      broadcastCampaignProgress(campaignId);
     }
+    return;
+  }
+  if (campaign.last_error) db.setCampaignError(campaignId, null);
 
-    const callKey = callRecord.external_id || callRecord.id;
-    if (notifiedMissedCalls.has(callKey)) {
-      logger.debug(` Alert already sent for: ${callKey}`);
-      return;
+  const intervalMs = Math.ceil(60000 / Math.max(1, campaign.rate_per_minute));
+  logger.info(`📣 Campaign "${campaign.name}": sending ${campaign.pending} SMS over GsmSpans ${spans.join(', ')} at ${campaign.rate_per_minute}/min per SIM`);
+  await Promise.all(spans.map(span => runCampaignSpan(campaignId, span, intervalMs)));
+
+  const after = db.getCampaign(campaignId);
+  if (after && after.status === 'running' && after.pending === 0 && after.sending === 0) {
+    db.setCampaignStatus(campaignId, 'completed');
+    db.logActivity('campaign_completed', `Campaign "${after.name}" finished: ${after.sent} sent, ${after.failed} failed, ${after.skipped} skipped`, 'success', null,
+      JSON.stringify({ campaign_id: campaignId, sent: after.sent, failed: after.failed, skipped: after.skipped }));
+    broadcastCampaignProgress(campaignId);
+  }
+}
+
+function campaignTick() {
+  for (const due of db.getDueCampaigns()) {
+    if (activeCampaignRuns.has(due.id)) continue;
+
+    if (due.status === 'scheduled') {
+      const campaign = db.getCampaign(due.id);
+      db.setCampaignStatus(due.id, 'running');
+      db.logActivity('campaign_started', `Campaign "${campaign.name}" started (${campaign.total} recipients)`, 'info', null,
+        JSON.stringify({ campaign_id: due.id }));
     }
 
-    try {
-      // Format Telegram message with Nairobi timezone (UTC+3)
-      const callDateTime = new Date(callRecord.start_time);
-      const nairobiTime = new Date(callDateTime.getTime() + 3 * 60 * 60 * 1000);
-      
-      const callTime = nairobiTime.toLocaleTimeString('en-KE', { 
-        timeZone: 'Africa/Nairobi',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      });
-      
-      const callDate = nairobiTime.toLocaleDateString('en-KE', {
-        timeZone: 'Africa/Nairobi',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit'
-      });
-      
-      const callerNumber = callRecord.caller_number || 'Unknown';
-      const extensionNumber = callRecord.extension || 'General Queue';
-      const duration = callRecord.ring_duration || 0;
-      
-      // Get extension username from database
-      let extensionUsername = 'N/A';
-      if (extensionNumber !== 'General Queue') {
-        const extInfo = db.db.prepare('SELECT username FROM pbx_extensions WHERE extnumber = ? LIMIT 1').get(extensionNumber);
-        if (extInfo?.username) {
-          extensionUsername = extInfo.username;
-        }
-      }
-      
-      const missedTemplate = getChannelTemplate('tg', 'missed_call') ||
-        '\uD83D\uDD14 MISSED CALL ALERT\n\nCaller: {caller}\nExtension: {extension} ({extension_name})\nTime: {time} (Nairobi)\nDate: {date}\nRing Duration: {duration}s';
-      const messageText = applyTemplate(missedTemplate, {
-        caller: callerNumber,
-        extension: extensionNumber,
-        extension_name: extensionUsername,
-        time: callTime,
-        date: callDate,
-        duration: String(duration),
-      });
+    const run = runCampaign(due.id)
+      .catch(error => logger.error(`Campaign run error: ${error.message}`))
+      .finally(() => activeCampaignRuns.delete(due.id));
+    activeCampaignRuns.set(due.id, run);
+  }
+}
 
-      const botToken = telegramConfig.bot_token;
-      const chatId = telegramConfig.chat_id;
-      const telegramApiUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
+const interruptedCampaignSends = db.failInterruptedCampaignSends();
+if (interruptedCampaignSends > 0) {
+  logger.warn(`📣 Marked ${interruptedCampaignSends} in-flight campaign SMS as failed after restart`);
+}
+setInterval(campaignTick, CAMPAIGN_TICK_MS);
 
-      const payload = {
-        chat_id: chatId,
-        text: messageText
-      };
+// ========================================
+// USSD & SIM Balance Checks
+// ========================================
 
-      logger.info(`🔔 Queuing missed call alert: ${callerNumber} → Ext ${extensionNumber}`);
+const BALANCE_CHECK_TICK_MS = 60000;
+const ussdQueues = new Map(); // gsm span -> tail of that SIM's USSD chain
+let isRunningBalanceChecks = false;
 
-      // Queue ONLY missed call alerts (other sends bypass queue to avoid bottlenecks)
-      missedCallAlertQueue.push({
-        fn: async () => {
-          try {
-            const tgResp = await fetch(telegramApiUrl, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify(payload)
-            });
+// A SIM can only hold one USSD session, so requests per span run one at a time
+function runUssd(gsmSpan, code, timeoutSeconds = 30) {
+  const previous = ussdQueues.get(gsmSpan) || Promise.resolve();
+  const run = previous.catch(() => {}).then(() => {
+    if (!tg400Api || !tg400Api.isConnected || !tg400Api.isAuthenticated) {
+      throw new Error('Gateway not connected');
+    }
+    return tg400Api.sendUssd(gsmSpan - 1, code, timeoutSeconds);
+  });
+  ussdQueues.set(gsmSpan, run);
+  run.finally(() => {
+    if (ussdQueues.get(gsmSpan) === run) ussdQueues.delete(gsmSpan);
+  }).catch(() => {});
+  return run;
+}
 
-            const tgJson = await tgResp.json();
+/**
+ * Pull the airtime balance out of a carrier's USSD reply, e.g.
+ * "Bal:Ksh12.34 ..." (Safaricom *144#) or "Your airtime balance is KES 20.00".
+ * Returns { balance, currency } or null.
+ */
+function parseUssdBalance(text) {
+  const content = String(text || '');
+  const withCurrency = content.match(/\b(KSh|Kshs|Ksh|KES|UGX|TZS|USD)\.?\s*([\d,]+(?:\.\d+)?)/i);
+  if (withCurrency) {
+    return { balance: parseFloat(withCurrency[2].replace(/,/g, '')), currency: withCurrency[1].toUpperCase().replace(/^KSHS?$/, 'KES') };
+  }
+  const afterWord = content.match(/\b(?:bal(?:ance)?|airtime)\b[^\d-]{0,20}(-?[\d,]+(?:\.\d+)?)/i);
+  if (afterWord) {
+    return { balance: parseFloat(afterWord[1].replace(/,/g, '')), currency: null };
+  }
+  return null;
+}
 
-            if (tgResp.ok && tgJson.ok) {
-              logger.info(`✅ Missed call alert delivered to ${callerNumber}`);
-              notifiedMissedCalls.add(callKey);
-              
-              // ✅ Update checkpoint to this call's time so we only check forward from here
-              db.updateAlertCheckpoint('missed_call', callRecord.start_time);
-              
-              db.logActivity('telegram_missed_call_alert', `Missed call alert sent: ${callerNumber} -> ${extensionNumber}`, 'success');
-            } else {
-              logger.warn(`⏳ Telegram rate limited (will retry): ${tgJson.description || 'Unknown error'}`);
-              db.logActivity('telegram_missed_call_alert_failed', `Failed to send alert for ${callerNumber}: ${tgJson.description || tgResp.statusText}`, 'error');
-            }
+async function checkSimBalance(gsmSpan, { triggeredBy = 'schedule' } = {}) {
+  const config = db.getSimBalanceConfig(gsmSpan);
+  let reading;
 
-            // Also send via Email if enabled — use email-specific template
-            const emailTemplate = getChannelTemplate('email', 'missed_call') ||
-              '🔔 MISSED CALL ALERT\n\nCaller: {caller}\nExtension: {extension} ({extension_name})\nTime: {time} (Nairobi)\nDate: {date}\nRing Duration: {duration}s';
-            const emailText = applyTemplate(emailTemplate, {
-              caller: callerNumber,
-              extension: extensionNumber,
-              extension_name: extensionUsername,
-              time: callTime,
-              date: callDate,
-              duration: String(duration),
-            });
-            await sendEmail(`Missed Call: ${callerNumber}`, emailText);
-          } catch (error) {
-            logger.error(`❌ Queue send error: ${error.message}`);
-          }
-        }
-      });
+  try {
+    const ussd = await runUssd(gsmSpan, config.ussd_code);
+    const parsed = parseUssdBalance(ussd.message);
+    reading = parsed
+      ? { status: 'ok', response: ussd.message, ...parsed }
+      : { status: 'unparsed', response: ussd.message, balance: null, currency: null };
+  } catch (error) {
+    reading = { status: 'error', response: error.message, balance: null, currency: null };
+  }
 
-      // Process queue
-      processMissedCallQueue();
-    } catch (error) {
-      logger.error(`❌ Missed call alert error: ${error.message}`);
-      db.logActivity('telegram_alert_exception', `Alert exception: ${error.message}`, 'error');
+  db.recordSimBalance({ gsmSpan, ussdCode: config.ussd_code, triggeredBy, ...reading });
+  broadcastEvent('sim.balance', { gsm_span: gsmSpan, status: reading.status, balance: reading.balance, currency: reading.currency });
+
+  if (reading.status !== 'ok') {
+    logger.warn(`💳 Balance check on GsmSpan ${gsmSpan} ${reading.status}: ${String(reading.response).substring(0, 100)}`);
+    db.logActivity('sim_balance_check_failed', `Balance check on GsmSpan ${gsmSpan} ${reading.status === 'error' ? 'failed' : 'could not be parsed'}: ${String(reading.response).substring(0, 100)}`,
+      'warning', gsmSpan);
+    return reading;
+  }
+
+  logger.info(`💳 GsmSpan ${gsmSpan} balance: ${reading.currency || ''} ${reading.balance}`);
+
+  // Alert once when the balance drops below the threshold; re-arm after a top-up
+  const threshold = config.low_threshold;
+  if (threshold !== null && threshold !== undefined) {
+    if (reading.balance < threshold && !config.low_alerted_at) {
+      db.setSimBalanceLowAlerted(gsmSpan, true);
+      db.logActivity('sim_balance_low', `GsmSpan ${gsmSpan} balance ${reading.balance} is below ${threshold}`, 'warning', gsmSpan,
+        JSON.stringify({ balance: reading.balance, currency: reading.currency, threshold }));
+      await sendLowBalanceAlert(gsmSpan, reading.balance, reading.currency, threshold);
+    } else if (reading.balance >= threshold && config.low_alerted_at) {
+      db.setSimBalanceLowAlerted(gsmSpan, false);
     }
-  } catch (error) {
-    logger.error(`Missed call alert wrapper error: ${error.message}`);
   }
-}
 
-// ========================================
-// Deprecated: checkAndAlertMissedCalls (replaced by event-driven sendMissedCallAlert)
-// ========================================
-// This function is kept for backwards compatibility but is no longer called
-async function checkAndAlertMissedCalls() {
-  logger.info(' Legacy polling function - skipped, using event-driven alerts instead');
+  return reading;
 }
 
-async function alertErrorImmediately(eventType, message) {
+async function runDueBalanceChecks() {
+  if (isRunningBalanceChecks || !tg400Api || !tg400Api.isConnected) return;
+  isRunningBalanceChecks = true;
   try {
-    const telegramConfig = db.getNotificationConfig();
-    
-    // Only send if telegram is enabled
-    if (!telegramConfig?.enabled || !telegramConfig?.bot_token || !telegramConfig?.chat_id) {
-      return;
+    const now = Date.now();
+    for (const config of db.getSimBalanceConfigs()) {
+      if (!config.enabled) continue;
+      // last_checked_at is SQLite UTC ("YYYY-MM-DD HH:MM:SS")
+      const last = config.last_checked_at ? new Date(config.last_checked_at.replace(' ', 'T') + 'Z').getTime() : 0;
+      if (now - last < config.interval_minutes * 60000) continue;
+      await checkSimBalance(config.gsm_span);
     }
+  } catch (error) {
+    logger.error(`Balance check run error: ${error.message}`);
+  } finally {
+    isRunningBalanceChecks = false;
+  }
+}
 
-    if (!telegramConfig?.notify_system_errors) {
-      return;
-    }
+setInterval(runDueBalanceChecks, BALANCE_CHECK_TICK_MS);
 
-    // Format time in Nairobi timezone (UTC+3)
-    const now = new Date();
-    const nairobiTime = now.toLocaleString('en-KE', {
-      timeZone: 'Africa/Nairobi',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true
-    });
+// ========================================
+// SIM Health Monitoring
+// ========================================
 
-    const errorTemplate = getChannelTemplate('tg', 'system_error') ||
-      'ERROR ALERT\n\nType: {error_type}\nMessage: {error_message}\nTime: {time}';
-    const messageText = applyTemplate(errorTemplate, {
-      error_type: eventType,
-      error_message: message.substring(0, 200) + (message.length > 200 ? '...' : ''),
-      time: nairobiTime + ' (Nairobi)',
-    });
+const SIM_HEALTH_SAMPLE_MS = 5 * 60000;
+const SIM_HEALTH_RETENTION_DAYS = 14;
+const SIM_FAILURE_WINDOW_MINUTES = 60;
+const SIM_FAILURE_MIN_ATTEMPTS = 5; // don't judge a SIM on one or two sends
+const SIM_FAILURE_RATE_ALERT = 0.5;
+let isSamplingSimHealth = false;
 
-    const botToken = telegramConfig.bot_token;
-    const chatId = telegramConfig.chat_id;
-    const telegramApiUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
+const isSimRegistered = registration => registration === 'registered' || registration === 'roaming';
 
-    const payload = {
-      chat_id: chatId,
-      text: messageText
-    };
+// Failure rate over the alert window, or null while there are too few sends to tell
+function simFailureRate(stats) {
+  if (!stats || stats.attempts < SIM_FAILURE_MIN_ATTEMPTS) return null;
+  return stats.failures / stats.attempts;
+}
 
-    logger.info(`Sending Telegram error alert: ${eventType}`);
+/**
+ * Take one sample per span: "gsm show spans" for power/up state, then
+ * "gsm show N" for signal, registration and operator. Send outcomes counted
+ * since the previous sample go into the same row. Alerts fire once when a SIM
+ * that was registered drops off the network, or when its failure rate over
+ * the last hour crosses SIM_FAILURE_RATE_ALERT; each re-arms on recovery.
+ */
+async function sampleSimHealth() {
+  if (isSamplingSimHealth || !tg400Api || !tg400Api.isConnected || !tg400Api.isAuthenticated) return null;
+  isSamplingSimHealth = true;
+  try {
+    const ports = await tg400Api.getAllPortsInfo();
+    const previous = db.getLatestSimHealthSamples({ knownRegistrationOnly: true });
+    const samples = [];
 
-    // Send to Telegram
-    const tgResp = await fetch(telegramApiUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload)
-    });
+    for (const gsmSpan of [2, 3, 4, 5]) {
+      const port = ports.find(p => p.portNumber === gsmSpan);
+      let detail = null;
+      if (port && port.isPowerOn) {
+        try {
+          detail = await tg400Api.checkPortStatus(gsmSpan - 1);
+        } catch (error) {
+          logger.debug(`[SIM health] gsm show ${gsmSpan} failed: ${error.message}`);
+        }
+      }
 
-    const tgJson = await tgResp.json();
+      const counts = spanSendCounts.get(gsmSpan) || { attempts: 0, failures: 0 };
+      spanSendCounts.delete(gsmSpan);
+
+      const sample = {
+        gsmSpan,
+        isUp: !!port?.isUp,
+        registration: detail ? detail.registration : (port?.isUp ? 'unknown' : 'unregistered'),
+        signalQuality: detail ? detail.signalQuality : null,
+        operator: detail && detail.networkName !== 'Unknown' ? detail.networkName : null,
+        sendAttempts: counts.attempts,
+        sendFailures: counts.failures,
+      };
+      db.recordSimHealthSample(sample);
+      samples.push(sample);
+    }
 
-    if (tgResp.ok && tgJson.ok) {
-      logger.info(`Telegram error alert sent successfully`);
-      db.logActivity('error_alert_sent', `Error alert sent: ${eventType}`, 'success');
-    } else {
-      logger.error(`Telegram error send failed: ${tgJson.description || 'Unknown error'}`);
+    const alerts = db.getSimHealthAlerts();
+    const sendStats = db.getSimSendStats(SIM_FAILURE_WINDOW_MINUTES);
+    for (const sample of samples) {
+      const alert = alerts.find(a => a.gsm_span === sample.gsmSpan) || {};
+      const before = previous.find(p => p.gsm_span === sample.gsmSpan);
+      await checkSimRegistration(sample, before, alert);
+      await checkSimFailureRate(sample.gsmSpan, sendStats.find(s => s.gsm_span === sample.gsmSpan), alert);
     }
 
-    // Send via Email using email-specific template
-    const emailErrTemplate = getChannelTemplate('email', 'system_error') ||
-      'ERROR ALERT\n\nType: {error_type}\nMessage: {error_message}\nTime: {time}';
-    const emailErrText = applyTemplate(emailErrTemplate, {
-      error_type: eventType,
-      error_message: message.substring(0, 200) + (message.length > 200 ? '...' : ''),
-      time: nairobiTime + ' (Nairobi)',
+    db.pruneSimHealthSamples(SIM_HEALTH_RETENTION_DAYS);
+    broadcastEvent('sim.health', {
+      samples: samples.map(s => ({ gsm_span: s.gsmSpan, is_up: s.isUp, registration: s.registration, signal_quality: s.signalQuality })),
     });
-    await sendEmail(`System Alert: ${eventType}`, emailErrText);
+    return samples;
   } catch (error) {
-    logger.error(`Error alert error: ${error.message}`);
+    logger.debug(`[SIM health] Sampling skipped: ${error.message}`);
+    return null;
+  } finally {
+    isSamplingSimHealth = false;
   }
 }
 
-// Send alert when a new inbound SMS is received
-async function sendNewSmsAlert(senderNumber, portLabel, messageContent) {
-  try {
-    const telegramConfig = db.getNotificationConfig();
-    if (!telegramConfig?.enabled || !telegramConfig?.bot_token || !telegramConfig?.chat_id) return;
-    if (!telegramConfig?.notify_new_sms) return;
-
-    const now = new Date().toLocaleString('en-KE', {
-      timeZone: 'Africa/Nairobi', year: 'numeric', month: '2-digit', day: '2-digit',
-      hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: true,
-    });
-    const tgSmsTemplate = getChannelTemplate('tg', 'new_sms') ||
-      '\uD83D\uDCAC NEW SMS RECEIVED\n\nFrom: {caller}\nPort: {port}\nTime: {time}\nMessage: {message}';
-    const text = applyTemplate(tgSmsTemplate, {
-      caller: senderNumber,
-      port: portLabel || 'Unknown',
-      time: now,
-      message: messageContent.substring(0, 300) + (messageContent.length > 300 ? '...' : ''),
-    });
-    const tgResp = await fetch(`https://api.telegram.org/bot${telegramConfig.bot_token}/sendMessage`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ chat_id: telegramConfig.chat_id, text }),
-    });
-    const tgJson = await tgResp.json();
-    if (tgResp.ok && tgJson.ok) {
-      logger.info(`\uD83D\uDCE9 New SMS alert sent for ${senderNumber}`);
-      db.logActivity('new_sms_alert_sent', `New SMS alert sent for ${senderNumber}`, 'success');
-    }
-    // Email with channel-specific template
-    const emailSmsTemplate = getChannelTemplate('email', 'new_sms') ||
-      '\uD83D\uDCAC NEW SMS RECEIVED\n\nFrom: {caller}\nPort: {port}\nTime: {time}\nMessage: {message}';
-    const emailSmsText = applyTemplate(emailSmsTemplate, {
-      caller: senderNumber,
-      port: portLabel || 'Unknown',
-      time: now,
-      message: messageContent.substring(0, 300) + (messageContent.length > 300 ? '...' : ''),
+async function checkSimRegistration(sample, before, alert) {
+  const registered = isSimRegistered(sample.registration);
+  // 'unknown' means the gateway didn't say; wait for a definite answer
+  if (sample.registration === 'unknown') return;
+
+  if (!registered && !alert.deregistered_alerted_at && before && isSimRegistered(before.registration)) {
+    db.setSimHealthAlerted(sample.gsmSpan, 'deregistered', true);
+    logger.warn(`📵 GsmSpan ${sample.gsmSpan} SIM is ${sample.registration} (was ${before.registration} on ${before.operator || 'unknown network'})`);
+    db.logActivity('sim_deregistered', `GsmSpan ${sample.gsmSpan} SIM dropped off the network (${sample.registration})`, 'error', sample.gsmSpan,
+      JSON.stringify({ registration: sample.registration, previous: before.registration, operator: before.operator }));
+    await sendSimHealthAlert(sample.gsmSpan, 'SIM deregistered',
+      `Status: ${sample.registration}\nLast network: ${before.operator || 'Unknown'}\nPort up: ${sample.isUp ? 'yes' : 'no'}`);
+    raiseAiRecommendation({
+      ruleKey: `sim_deregistered:${sample.gsmSpan}`,
+      category: 'sim',
+      title: `Port ${sample.gsmSpan - 1} SIM is off the network`,
+      description: `Port ${sample.gsmSpan - 1} SIM went from ${before.registration} to ${sample.registration}. Reseat the SIM, confirm the line is active with the carrier and check the antenna.`,
+      details: { gsm_span: sample.gsmSpan, registration: sample.registration, priority: 'high' },
     });
-    await sendEmail(`New SMS from ${senderNumber}`, emailSmsText);
-  } catch (e) {
-    logger.error(`New SMS alert error: ${e.message}`);
+  } else if (registered && alert.deregistered_alerted_at) {
+    db.setSimHealthAlerted(sample.gsmSpan, 'deregistered', false);
+    resolveAiRecommendation(`sim_deregistered:${sample.gsmSpan}`);
+    db.logActivity('sim_registered', `GsmSpan ${sample.gsmSpan} SIM is back on ${sample.operator || 'the network'}`, 'success', sample.gsmSpan);
   }
 }
 
-// Start checking for missed calls independently every 3 minutes
-function startMissedCallAlerts() {
-  // EVENT-DRIVEN ALERT: Polling is now disabled in favor of instant alerts
-  // Alerts are sent immediately when a missed call is saved in syncCallRecords()
-  logger.info('✅ Missed call alert service: EVENT-DRIVEN (instant alerts on call save)');
+async function checkSimFailureRate(gsmSpan, stats, alert) {
+  const rate = simFailureRate(stats);
+  if (rate === null) return;
+
+  if (rate >= SIM_FAILURE_RATE_ALERT && !alert.failure_alerted_at) {
+    const percent = Math.round(rate * 100);
+    db.setSimHealthAlerted(gsmSpan, 'failure', true);
+    logger.warn(`📵 GsmSpan ${gsmSpan} failed ${stats.failures}/${stats.attempts} sends in the last ${SIM_FAILURE_WINDOW_MINUTES} min`);
+    db.logActivity('sim_failure_spike', `GsmSpan ${gsmSpan} failed ${percent}% of sends in the last ${SIM_FAILURE_WINDOW_MINUTES} min`, 'error', gsmSpan,
+      JSON.stringify({ attempts: stats.attempts, failures: stats.failures }));
+    await sendSimHealthAlert(gsmSpan, 'SIM send failures',
+      `Failed: ${stats.failures} of ${stats.attempts} sends (${percent}%) in the last ${SIM_FAILURE_WINDOW_MINUTES} minutes`);
+    raiseAiRecommendation({
+      ruleKey: `sim_failure_rate:${gsmSpan}`,
+      category: 'sim',
+      title: `Port ${gsmSpan - 1} is failing ${percent}% of sends`,
+      description: `Port ${gsmSpan - 1} failed ${stats.failures} of ${stats.attempts} SMS attempts in the last ${SIM_FAILURE_WINDOW_MINUTES} minutes. Check its airtime and SMS bundle, and disable the port if it keeps failing.`,
+      details: { gsm_span: gsmSpan, attempts: stats.attempts, failures: stats.failures, priority: 'high' },
+    });
+  } else if (rate < SIM_FAILURE_RATE_ALERT && alert.failure_alerted_at) {
+    db.setSimHealthAlerted(gsmSpan, 'failure', false);
+    resolveAiRecommendation(`sim_failure_rate:${gsmSpan}`);
+  }
 }
 
-// Initialize event-driven alerts
-startMissedCallAlerts();
+setInterval(sampleSimHealth, SIM_HEALTH_SAMPLE_MS);
 
 // ========================================
-// ========================================
-// Email Service (configurable SMTP via admin settings)
+// Diagnostics Engine
 // ========================================
 
-async function sendEmail(subject, bodyText, { bypassEnabledCheck = false } = {}) {
-  try {
-    const telegramConfig = db.getNotificationConfig();
-    
-    if (!bypassEnabledCheck && !telegramConfig?.email_enabled) {
-      logger.debug(' Email notifications disabled - skipping');
-      return false;
-    }
+const DIAGNOSTICS_WINDOW_HOURS = 24;
+const DIAGNOSTICS_RUN_MS = 6 * 60 * 60 * 1000;
+const DIAGNOSTICS_TUNABLES = ['pbx_sync_interval_seconds', 'port_poll_interval_seconds', 'sms_max_attempts'];
 
-    const smtpHost = telegramConfig.email_smtp_host;
-    const smtpPort = telegramConfig.email_smtp_port || 587;
-    const smtpUser = telegramConfig.email_smtp_user;
-    const smtpPass = telegramConfig.email_smtp_pass;
-    const emailFrom = telegramConfig.email_from || smtpUser;
-    const encryption = telegramConfig.email_smtp_encryption || 'auto';
-
-    if (!smtpHost || !smtpUser || !smtpPass) {
-      logger.warn(' Email SMTP credentials not configured - skipping email send');
-      return false;
-    }
+// What the engine may suggest changing, with the values running now
+function diagnosticsTunables() {
+  const tunables = {};
+  for (const config of runtimeConfig.describe()) {
+    if (!DIAGNOSTICS_TUNABLES.includes(config.key)) continue;
+    tunables[config.key] = { value: config.value, min: config.min, max: config.max, unit: config.unit };
+  }
+  return tunables;
+}
 
-    let recipients = [];
-    try {
-      const raw = telegramConfig.email_recipients;
-      recipients = Array.isArray(raw) ? raw : JSON.parse(raw || '[]');
-    } catch (e) {
-      recipients = [];
-    }
+/**
+ * Run the offline diagnostics over the last DIAGNOSTICS_WINDOW_HOURS. With
+ * persist, findings and tuning suggestions are stored as ai_recommendations
+ * and the result is kept as the panel's "last run".
+ */
+function runDiagnostics({ persist = true, triggeredBy = 'schedule' } = {}) {
+  const snapshot = db.getDiagnosticsSnapshot(DIAGNOSTICS_WINDOW_HOURS);
+  if (!snapshot) throw new Error('Could not read diagnostics data');
+
+  // Twice the window so the earlier half is the error baseline
+  const errors = logger.readRecentErrors(Date.now() - DIAGNOSTICS_WINDOW_HOURS * 2 * 3600000);
+  const { recommendations, ...result } = DiagnosticsEngine.analyze(snapshot, { errors, tunables: diagnosticsTunables() });
+
+  if (!persist) return { ...result, recommendations_created: 0, recommendations_updated: 0 };
+
+  let created = 0;
+  let updated = 0;
+  for (const recommendation of recommendations) {
+    const saved = db.upsertAiRecommendation(recommendation);
+    if (!saved) continue;
+    if (saved.created) created++;
+    else updated++;
+  }
+  // Anything the engine no longer finds has cleared up on its own (or was applied)
+  const resolved = db.resolveAiRecommendations({ exceptKeys: recommendations.map(r => r.ruleKey) });
+
+  const stored = { ...result, recommendations_created: created, recommendations_updated: updated, recommendations_resolved: resolved, triggered_by: triggeredBy };
+  db.setSystemSetting('diagnostics_last_result', JSON.stringify(stored));
+  db.logActivity('diagnostics_run', `Diagnostics: ${result.prediction.risk_level} risk, ${result.findings.length} finding(s), ${created} new recommendation(s)`,
+    ['high', 'critical'].includes(result.prediction.risk_level) ? 'warning' : 'info', null,
+    JSON.stringify({ risk_level: result.prediction.risk_level, created, updated, triggered_by: triggeredBy }));
+  if (created > 0 || resolved > 0) broadcastEvent('ai.recommendations', { created, updated, resolved, risk_level: result.prediction.risk_level });
+  return stored;
+}
 
-    if (!recipients || recipients.length === 0) {
-      logger.warn(' No email recipients configured');
-      return false;
-    }
+// Stored recommendation from a live detector (SIM health alerts); the next
+// diagnostics run refreshes or resolves it like any other
+function raiseAiRecommendation(recommendation) {
+  const saved = db.upsertAiRecommendation(recommendation);
+  if (saved?.created) broadcastEvent('ai.recommendations', { created: 1, updated: 0, resolved: 0 });
+}
 
-    const nodemailer = require('nodemailer');
-    // Determine secure/tls settings based on encryption choice
-    let secure = false;
-    let tlsOptions = { rejectUnauthorized: false };
-    if (encryption === 'ssl' || (encryption === 'auto' && smtpPort === 465)) {
-      secure = true; // SSL/TLS from the start
-    } else if (encryption === 'starttls') {
-      secure = false; // STARTTLS upgrades after connection
-      tlsOptions = { ...tlsOptions, ciphers: 'SSLv3' };
-    } else if (encryption === 'none') {
-      secure = false;
-      tlsOptions = { rejectUnauthorized: false };
-    }
-    const transporter = nodemailer.createTransport({
-      host: smtpHost,
-      port: smtpPort,
-      secure,
-      auth: { user: smtpUser, pass: smtpPass },
-      tls: tlsOptions
-    });
+function resolveAiRecommendation(ruleKey) {
+  if (db.resolveAiRecommendations({ ruleKeys: [ruleKey] }) > 0) {
+    broadcastEvent('ai.recommendations', { created: 0, updated: 0, resolved: 1 });
+  }
+}
 
-    await transporter.sendMail({
-      from: emailFrom,
-      to: recipients.join(','),
-      subject,
-      text: bodyText
-    });
+/**
+ * Apply a pending recommendation. One that names a runtime config key
+ * (details.config / details.new_value) changes that value live and keeps
+ * the old one in details.applied_change so it can be reverted; anything else
+ * is recorded as actioned. auto marks it as applied by auto-tune.
+ */
+function applyAiRecommendation(recommendation, userId, { auto = false } = {}) {
+  const { config, new_value: newValue } = recommendation.details || {};
+  let change = null;
 
-    logger.info(`✅ Email sent: "${subject}" to ${recipients.length} recipient(s)`);
-    db.logActivity('email_sent', `Email "${subject}" sent to ${recipients.join(', ')}`, 'success');
-    return true;
-  } catch (error) {
-    logger.error(`Email send failed: ${error.message}`);
-    db.logActivity('email_send_failed', `Email send failed: ${error.message}`, 'error');
-    return false;
+  if (config) {
+    if (!runtimeConfig.has(config)) throw new Error(`Unknown config key: ${config}`);
+    const { value, previous } = runtimeConfig.set(config, newValue, { userId, source: 'ai' });
+    broadcastEvent('agent.config', { key: config, value });
+    change = { config, from: previous, to: value, applied_at: new Date().toISOString(), applied_by: userId || null };
   }
-}
 
-// SMS Gateway Service (Hardcoded Credentials)
-// ========================================
+  const updated = db.updateAiRecommendation(recommendation.id, {
+    status: 'applied',
+    details: change ? { ...recommendation.details, applied_change: change } : null,
+    autoApplied: auto,
+  });
+  db.logActivity('ai_recommendation_applied',
+    change ? `Applied "${recommendation.title}": ${config} ${change.from} → ${change.to}` : `Marked "${recommendation.title}" as done`,
+    'info', null, JSON.stringify({ recommendation_id: recommendation.id, ...(change || {}) }));
+  return updated;
+}
 
-const SMS_GATEWAY_CONFIG = {
-  url: 'https://sms.techrasystems.com/SMSApi/send',
-  userid: 'nosteqltd',
-  senderid: 'NOSTEQLTD',
-  apikey: 'd5333c2f579ef1115d5984475e6fbecfffa2cdff'
-};
+// Put the config back to what it was before the recommendation was applied
+function revertAiRecommendation(recommendation, userId) {
+  const change = recommendation.details?.applied_change;
+  if (!change || change.reverted_at) throw new Error('Nothing to revert');
 
-// Generic SMS sending function using hardcoded gateway
-// Format phone number to international format
-// Converts 0XXXXXXXXX to 254XXXXXXXXX (Kenya country code)
-function formatPhoneNumber(number) {
-  if (!number) return number;
-  const cleaned = String(number).trim();
-  
-  // If starts with 0, replace with 254
-  if (cleaned.startsWith('0')) {
-    return '254' + cleaned.substring(1);
-  }
-  
-  // If already starts with 254, return as is
-  if (cleaned.startsWith('254')) {
-    return cleaned;
+  const current = runtimeConfig.get(change.config);
+  if (current !== change.to) {
+    const error = new Error(`${change.config} has since been changed to ${current}; revert it by hand`);
+    error.status = 409;
+    throw error;
   }
-  
-  // Otherwise, prepend 254
-  return '254' + cleaned;
+
+  runtimeConfig.set(change.config, change.from, { userId });
+  broadcastEvent('agent.config', { key: change.config, value: change.from });
+  const updated = db.updateAiRecommendation(recommendation.id, {
+    status: 'dismissed',
+    details: { ...recommendation.details, applied_change: { ...change, reverted_at: new Date().toISOString(), reverted_by: userId || null } },
+  });
+  db.logActivity('ai_recommendation_reverted', `Reverted "${recommendation.title}": ${change.config} ${change.to} → ${change.from}`,
+    'info', null, JSON.stringify({ recommendation_id: recommendation.id, config: change.config, from: change.to, to: change.from }));
+  return updated;
 }
 
+setInterval(() => {
+  try {
+    runDiagnostics();
+  } catch (error) {
+    logger.error(`Diagnostics run error: ${error.message}`);
+  }
+}, DIAGNOSTICS_RUN_MS);
+
 // ========================================
-// Phone Number Validation
+// AI Provider (LLM)
 // ========================================
-function isValidPhoneNumber(number) {
-  if (!number) return false;
-  
-  // Remove all non-digit characters
-  const digitsOnly = String(number).replace(/\D/g, '');
-  
-  // Must be at least 10 digits (e.g., 0722832929 or minimum 254xxxxxxxx)
-  if (digitsOnly.length < 10) {
-    return false;
-  }
-  
-  // Must be at most 13 digits (e.g., 254XXXXXXXXXX)
-  if (digitsOnly.length > 13) {
-    return false;
-  }
-  
-  // Valid formats:
-  // - 0722832929 (Kenya local, 10 digits starting with 0)
-  // - 254722832929 (Kenya international, 12 digits starting with 254)
-  // - 722832929 (Kenya without 0 or 254, 9 digits - we add 254)
-  return true;
+// Optional model for SMS categorization fallback, reply suggestions and the
+// daily report summary. Unconfigured (provider 'none') or unreachable, each
+// feature keeps its rule-based behaviour.
+
+const LLM_FEATURES = ['classify', 'reply_suggestions', 'report_summary'];
+const LLM_DEFAULT_TIMEOUT_SECONDS = 20;
+const LLM_CLASSIFY_BELOW_CONFIDENCE = 0.5; // Only ask the model when the rules were unsure
+
+let llmConfig = null;
+let llmProvider = null;
+
+function getLlmConfig() {
+  const provider = db.getSystemSetting('llm_provider');
+  return {
+    provider: LLM_PROVIDERS.includes(provider) ? provider : 'none',
+    base_url: db.getSystemSetting('llm_base_url') || '',
+    model: db.getSystemSetting('llm_model') || '',
+    api_key: db.getSystemSetting('llm_api_key') || '',
+    timeout_seconds: parseInt(db.getSystemSetting('llm_timeout_seconds')) || LLM_DEFAULT_TIMEOUT_SECONDS,
+    features: Object.fromEntries(LLM_FEATURES.map(feature => [feature, db.getSystemSetting(`llm_feature_${feature}`) !== 'false'])),
+  };
 }
 
-async function sendSmsViaGateway(phoneNumberOrNumbers, messageText) {
-  try {
-    // Check if SMS sending is enabled globally
-    if (!db.isSmsEnabled()) {
-      logger.info('ℹ️  SMS sending is currently disabled by administrator');
-      return false;
-    }
-    
-    const numbers = Array.isArray(phoneNumberOrNumbers) ? phoneNumberOrNumbers : [phoneNumberOrNumbers];
-    
-    if (!numbers || numbers.length === 0 || !messageText) {
-      logger.warn('SMS sending: No phone numbers or message provided');
-      return false;
-    }
+function reloadLlmProvider() {
+  llmConfig = getLlmConfig();
+  llmProvider = createLlmProvider({ ...llmConfig, timeout_ms: llmConfig.timeout_seconds * 1000 });
+}
 
-    // Check for duplicate SMS within 24 hours for each recipient
-    const filteredNumbers = [];
-    for (const number of numbers) {
-      if (db.checkRecentSms(number, 1440)) {
-        logger.warn(`⚠️  SMS already sent to ${number} today - skipping to prevent duplicate`);
-        db.logActivity('sms_duplicate_prevented', `SMS to ${number} skipped (duplicate within 24h)`, 'warning');
-        continue;
-      }
-      filteredNumbers.push(number);
-    }
-    
-    // If all numbers were filtered out due to duplicates, return early
-    if (filteredNumbers.length === 0) {
-      logger.info(`ℹ️  All SMS recipients already received this message today - no action taken`);
-      return true;
-    }
+reloadLlmProvider();
 
-    // Format all phone numbers to international format
-    const formattedNumbers = filteredNumbers.map(n => formatPhoneNumber(n));
-    const mobileParam = formattedNumbers.join(',');
-    
-    logger.info(`📤 Sending SMS via gateway to: ${mobileParam}`);
-    logger.info(`   Message: ${messageText.substring(0, 80)}...`);
+// The key never leaves the agent
+function publicLlmConfig() {
+  const { api_key, ...config } = llmConfig;
+  return { ...config, has_api_key: Boolean(api_key), available: llmProvider.available };
+}
 
-    try {
-      const { execSync } = require('child_process');
-      // Properly escape for shell: escape backslashes, double quotes, backticks, and dollar signs
-      const escapedMsg = messageText
-        .replace(/\\/g, '\\\\')    // Escape backslashes first
-        .replace(/"/g, '\\"')      // Escape double quotes
-        .replace(/`/g, '\\`')      // Escape backticks
-        .replace(/\$/g, '\\$');    // Escape dollar signs
-      
-      const curlCommand = `curl -X POST '${SMS_GATEWAY_CONFIG.url}' \
--H 'Accept: application/json' \
--H 'apikey: ${SMS_GATEWAY_CONFIG.apikey}' \
--H 'Content-Type: application/x-www-form-urlencoded' \
--H 'Cookie: SERVERID=webC1' \
--d "userid=${SMS_GATEWAY_CONFIG.userid}&senderid=${SMS_GATEWAY_CONFIG.senderid}&msgType=text&duplicatecheck=true&sendMethod=quick&msg=${escapedMsg}&mobile=${mobileParam}"`;
+// The provider if it is configured and the feature is switched on, else null
+function llmFor(feature) {
+  return llmProvider.available && llmConfig.features[feature] ? llmProvider : null;
+}
 
-      const response = execSync(curlCommand, { 
-        encoding: 'utf-8',
-        timeout: 30000,
-        maxBuffer: 10 * 1024 * 1024,
-        shell: '/bin/bash' 
-      });
+// Second opinion for an inbound SMS the rule-based classifier was unsure about
+async function refineSmsCategoryWithLlm(externalId) {
+  const llm = llmFor('classify');
+  if (!llm || !externalId) return;
+  const sms = db.getInboundSmsByExternalId(externalId);
+  if (!sms || (sms.category !== 'unknown' && sms.category_confidence >= LLM_CLASSIFY_BELOW_CONFIDENCE)) return;
 
-      if (response && response.trim()) {
-        logger.info(`✅ SMS sent successfully to ${filteredNumbers.length} recipient(s)`);
-        
-        // Store sent SMS in database for each recipient
-        try {
-          filteredNumbers.forEach(recipient => {
-            db.insertSMS({
-              sender_number: recipient,
-              message_content: messageText,
-              received_at: new Date().toISOString(),
-              status: 'processed',
-              direction: 'sent',
-              category: 'system'
-            });
-          });
-        } catch (dbError) {
-          logger.warn(`Failed to log sent SMS to database: ${dbError.message}`);
-        }
-        
-        return true;
-      } else {
-        logger.warn(`SMS gateway empty response`);
-        return false;
-      }
-    } catch (execError) {
-      logger.error(`SMS sending failed: ${execError.message}`);
-      return false;
+  try {
+    const result = await classifySms(llm, {
+      categories: SmsClassifier.categories,
+      sender: sms.sender_number,
+      message: sms.message_content,
+    });
+    if (!result) return;
+
+    if (db.refineSmsCategory(sms.id, result.category, result.confidence)) {
+      logger.debug(`AI categorized SMS ${sms.id} as ${result.category} (${result.confidence}), rules said ${sms.category}`);
+      broadcastEvent('sms.status', { id: sms.id, category: result.category });
     }
   } catch (error) {
-    logger.error(`SMS sending exception: ${error.message}`);
-    return false;
+    logger.debug(`AI categorization skipped for SMS ${sms.id}: ${error.message}`);
   }
 }
 
-async function sendSmsReport(phoneNumbers, messageText) {
+// Up to three draft replies to the latest message from phoneNumber
+async function suggestSmsReplies(phoneNumber) {
+  const llm = llmFor('reply_suggestions');
+  if (!llm) throw new LlmUnavailableError('AI reply suggestions are not enabled');
+
+  const history = db.getConversationMessages(phoneNumber, 10);
+  if (history.length === 0) throw new Error('No messages with this number');
+  return suggestReplies(llm, history);
+}
+
+// A short plain-text overview for the daily report, or null to leave it out
+async function summarizeDailyReport(reportText) {
+  const llm = llmFor('report_summary');
+  if (!llm) return null;
   try {
-    // Check if SMS sending is enabled globally
-    if (!db.isSmsEnabled()) {
-      logger.info('ℹ️  SMS sending is currently disabled by administrator');
+    return await summarizeReport(llm, reportText);
+  } catch (error) {
+    logger.warn(`AI report summary skipped: ${error.message}`);
+    return null;
+  }
+}
+
+// ========================================
+// Auto-Reply SMS
+// ========================================
+
+async function sendAutoReplySms(senderNumber) {
+  try {
+    const autoReplyConfig = db.getAutoReplyConfig ? db.getAutoReplyConfig() : null;
+    
+    // Check if auto-reply is enabled
+    if (!autoReplyConfig?.enabled) {
+      logger.debug(' Auto-reply disabled - skipping');
       return false;
     }
-    
-    // Handle both single number and array of numbers
-    const numbers = Array.isArray(phoneNumbers) ? phoneNumbers : [phoneNumbers];
-    
-    if (!numbers || numbers.length === 0 || !messageText) {
-      logger.warn('SMS Report: No phone numbers or message provided');
+
+    if (!senderNumber || !autoReplyConfig.message) {
+      logger.warn('Auto-reply: Missing phone number or message');
       return false;
     }
 
-    // Check for duplicate SMS within 24 hours for each recipient
-    const filteredNumbers = [];
-    for (const number of numbers) {
-      if (db.checkRecentSms(number, 1440)) {
-        logger.warn(`⚠️  SMS Report already sent to ${number} today - skipping to prevent duplicate`);
-        db.logActivity('sms_report_duplicate_prevented', `SMS Report to ${number} skipped (duplicate within 24h)`, 'warning');
-        continue;
-      }
-      filteredNumbers.push(number);
+    if (filterOptedOut([senderNumber], 'auto_reply').length === 0) {
+      return false;
     }
-    
-    // If all numbers were filtered out due to duplicates, return early
-    if (filteredNumbers.length === 0) {
-      logger.info(`ℹ️  All SMS Report recipients already received this message today - no action taken`);
-      return true;
+
+    // Prevent repeated auto-replies to the same number.
+    // Use the admin-configured duplicate window from call_auto_sms_config (default 10 min).
+    const callAutoSmsCfg = db.getCallAutoSmsConfig ? db.getCallAutoSmsConfig() : {};
+    const autoReplyDupWindow = callAutoSmsCfg?.duplicate_window || 10;
+    if (db.checkRecentSms && db.checkRecentSms(senderNumber, autoReplyDupWindow)) {
+      logger.info(` Auto-reply duplicate prevention: skipping ${senderNumber} (within ${autoReplyDupWindow} min window)`);
+      db.logActivity('auto_reply_sms_duplicate_prevented', `Auto-reply duplicate prevented for ${senderNumber}`, 'info');
+      return false;
     }
 
-    // Format all phone numbers to international format and join
-    const formattedNumbers = filteredNumbers.map(n => formatPhoneNumber(n));
-    const mobileParam = formattedNumbers.join(',');
+    logger.info(`📧 Sending auto-reply to: ${senderNumber}`);
+    logger.info(`   Message: ${autoReplyConfig.message.substring(0, 80)}...`);
     
-    logger.info(`📤 SMS sending to: ${mobileParam}`);
-    logger.info(`   Message length: ${messageText.length} characters`);
-
-    try {
-      // Build and execute curl command directly using shell escaping
-      const { execSync } = require('child_process');
-      
-      // Properly escape for shell: escape backslashes, double quotes, backticks, and dollar signs
-      const escapedMsg = messageText
-        .replace(/\\/g, '\\\\')    // Escape backslashes first
-        .replace(/"/g, '\\"')      // Escape double quotes
-        .replace(/`/g, '\\`')      // Escape backticks
-        .replace(/\$/g, '\\$');    // Escape dollar signs
-      
-      const curlCommand = `curl -X POST '${SMS_GATEWAY_CONFIG.url}' \
--H 'Accept: application/json' \
--H 'apikey: ${SMS_GATEWAY_CONFIG.apikey}' \
--H 'Content-Type: application/x-www-form-urlencoded' \
--H 'Cookie: SERVERID=webC1' \
--d "userid=${SMS_GATEWAY_CONFIG.userid}&senderid=${SMS_GATEWAY_CONFIG.senderid}&msgType=text&duplicatecheck=true&sendMethod=quick&msg=${escapedMsg}&mobile=${mobileParam}"`;
-
-      logger.info(`Executing SMS curl...`);
-      
-      const response = execSync(curlCommand, { 
-        encoding: 'utf-8',
-        timeout: 30000,
-        maxBuffer: 10 * 1024 * 1024,
-        shell: '/bin/bash' 
+    const success = await sendSmsViaGateway(senderNumber, autoReplyConfig.message);
+    
+    if (success) {
+      logger.info(`✅ Auto-reply SMS sent to ${senderNumber}`);
+      db.logActivity('auto_reply_sms_sent', `Auto-reply sent to ${senderNumber}`, 'success');
+      db.insertSMS({
+        sender_number: senderNumber,
+        message_content: autoReplyConfig.message,
+        received_at: new Date().toISOString(),
+        status: 'processed',
+        direction: 'sent',
+        category: 'auto_reply'
       });
-
-      logger.info(`SMS Gateway Response: ${response}`);
-      
-      // Any response from gateway is typically success - they respond with JSON
-      if (response && response.trim()) {
-        logger.info(`✅ SMS sent successfully to ${filteredNumbers.length} recipient(s): ${mobileParam}`);
-        db.logActivity('sms_report_sent', `SMS sent to ${mobileParam}`, 'success');
-        
-        // Store sent SMS in database for each recipient
-        try {
-          filteredNumbers.forEach(recipient => {
-            db.insertSMS({
-              sender_number: recipient,
-              message_content: messageText,
-              received_at: new Date().toISOString(),
-              status: 'processed',
-              direction: 'sent',
-              category: 'report'
-            });
-          });
-        } catch (dbError) {
-          logger.warn(`Failed to log sent SMS to database: ${dbError.message}`);
-        }
-        
-        return true;
-      } else {
-        logger.warn(`SMS Gateway empty response for: ${mobileParam}`);
-        return false;
-      }
-    } catch (execError) {
-      logger.error(`Curl execution failed: ${execError.message}`);
-      if (execError.stderr) {
-        logger.error(`Stderr: ${execError.stderr}`);
-      }
-      if (execError.stdout) {
-        logger.error(`Stdout: ${execError.stdout}`);
-      }
-      db.logActivity('sms_report_error', `SMS error to ${mobileParam}: ${execError.message}`, 'error');
-      return false;
+    } else {
+      logger.error(`❌ Auto-reply SMS failed for ${senderNumber}`);
+      db.logActivity('auto_reply_sms_failed', `Auto-reply failed for ${senderNumber}`, 'error');
     }
+    
+    return success;
   } catch (error) {
-    logger.error(`SMS Report Exception: ${error.message}`);
-    db.logActivity('sms_report_error', `SMS exception: ${error.message}`, 'error');
+    logger.error(`Auto-reply exception: ${error.message}`);
     return false;
   }
 }
 
 // ========================================
-// Daily Report Service
+// Call Auto-SMS
 // ========================================
 
-let dailyReportInterval = null;
-let lastReportTimes = {}; // Track last send times for morning and evening reports
-
-async function sendDailyReport() {
+async function sendCallAutoSms(callRecord) {
   try {
-    const telegramConfig = db.getNotificationConfig();
-    if (!telegramConfig?.daily_report_enabled) {
-      logger.info('Daily report disabled in notification settings');
-      return;
+    const callAutoSmsConfig = db.getCallAutoSmsConfig ? db.getCallAutoSmsConfig() : null;
+    
+    // Check if call auto-SMS is enabled
+    if (!callAutoSmsConfig?.enabled) {
+      logger.debug(' Call auto-SMS disabled - skipping');
+      return false;
     }
 
-    // Get today's date
-    const today = new Date().toISOString().split('T')[0];
+    // Skip internal calls entirely (extension-to-extension)
+    if (callRecord.direction === 'internal') {
+      logger.debug(` Call auto-SMS: Skipping internal call`);
+      return false;
+    }
 
-    // === CALL STATISTICS (AGGREGATED) ===
-    const callStats = db.db.prepare(`
-      SELECT 
-        COUNT(*) as total_calls,
-        SUM(CASE WHEN direction = 'inbound' THEN 1 ELSE 0 END) as inbound_calls,
-        SUM(CASE WHEN direction = 'outbound' THEN 1 ELSE 0 END) as outbound_calls,
-        SUM(CASE WHEN direction = 'internal' THEN 1 ELSE 0 END) as internal_calls,
-        SUM(CASE WHEN direction = 'inbound' AND status = 'answered' THEN 1 ELSE 0 END) as inbound_answered,
-        SUM(CASE WHEN direction = 'inbound' AND status IN ('missed', 'no-answer', 'noanswer') THEN 1 ELSE 0 END) as inbound_missed,
-        SUM(CASE WHEN direction = 'inbound' AND status IN ('missed', 'no-answer', 'noanswer') AND is_returned = 0 THEN 1 ELSE 0 END) as inbound_unreturned,
-        SUM(CASE WHEN direction = 'outbound' AND status = 'answered' THEN 1 ELSE 0 END) as outbound_answered,
-        SUM(CASE WHEN direction = 'outbound' AND status IN ('missed', 'no-answer', 'noanswer', 'failed', 'busy') THEN 1 ELSE 0 END) as outbound_failed,
-        COUNT(DISTINCT extension) as total_extensions
-      FROM call_records
-      WHERE SUBSTR(start_time, 1, 10) = ?
-    `).get(today);
+    // Check configured call direction (inbound / outbound / both)
+    const configuredDirection = callAutoSmsConfig.call_direction || 'both';
+    if (configuredDirection !== 'both' && callRecord.direction !== configuredDirection) {
+      logger.debug(` Call auto-SMS: Skipping ${callRecord.direction} call (configured for '${configuredDirection}' only)`);
+      return false;
+    }
 
-    // === SMS STATISTICS (AGGREGATED) ===
-    const smsStats = db.db.prepare(`
-      SELECT COUNT(*) as total_sms FROM sms_messages 
-      WHERE SUBSTR(received_at, 1, 10) = ?
-    `).get(today);
+    // Check extension filter — if a list is set, the call's extension must be in it
+    let allowedExtensions = [];
+    try { allowedExtensions = JSON.parse(callAutoSmsConfig.allowed_extensions || '[]'); } catch {}
+    if (allowedExtensions.length > 0 && !allowedExtensions.includes(String(callRecord.extension))) {
+      logger.debug(` Call auto-SMS: Extension '${callRecord.extension}' not in allowed list [${allowedExtensions.join(', ')}]`);
+      return false;
+    }
 
-    // Check if there's any data to report
-    const hasCallData = callStats && callStats.total_calls > 0;
-    const hasSmsData = smsStats && smsStats.total_sms > 0;
+    // ✅ Recency guard — only send SMS for calls that started AFTER this service instance was launched.
+    // CDR start_time is stored in UTC. We append 'Z' if no timezone designator is present so
+    // JavaScript always parses it as UTC (not server local time), matching the EAT display in the frontend.
+    // Historical CDR backfill records (any call before service start) are always rejected.
+    if (callRecord.start_time) {
+      const raw = String(callRecord.start_time).trim().replace(' ', 'T');
+      const utcTs = /Z$|[+-]\d{2}:\d{2}$/.test(raw) ? raw : `${raw}Z`;
+      const callMs = new Date(utcTs).getTime();
+      if (isNaN(callMs)) {
+        logger.warn(` Call auto-SMS: Could not parse start_time '${callRecord.start_time}' — skipping`);
+        return false;
+      }
+      if (callMs < SERVICE_START_UTC_MS) {
+        logger.debug(` Call auto-SMS: Skipping pre-service call from ${new Date(callMs).toISOString()} (service started ${new Date(SERVICE_START_UTC_MS).toISOString()})`);
+        return false;
+      }
+    }
 
-    if (!hasCallData && !hasSmsData) {
-      logger.info('No calls or SMS today, skipping daily report');
-      return;
+    // Determine the external number to receive the SMS
+    // Inbound: SMS goes to the external caller; Outbound: SMS goes to the external callee
+    const targetNumber = callRecord.direction === 'outbound'
+      ? callRecord.callee_number
+      : callRecord.caller_number;
+
+    const callerNumber = targetNumber;
+    if (!callerNumber) {
+      logger.warn('Call auto-SMS: No caller number provided');
+      return false;
     }
 
-    let messageText = 'DAILY SYSTEM REPORT\n\n';
-    messageText += `Date: ${today}\n`;
-    messageText += `Report Time: Nairobi Time\n`;
-    messageText += `\n========== CALLS ==========\n\n`;
+    // ✅ Ensure it's an external phone number, not an internal extension (extensions are 1-4 digits)
+    if (callerNumber && /^\d{1,4}$/.test(callerNumber)) {
+      logger.debug(` Call auto-SMS: Skipping internal extension ${callerNumber}`);
+      return false;
+    }
 
-    if (hasCallData) {
-      messageText += `Total Calls: ${callStats.total_calls}\n`;
-      messageText += `Extensions with Calls: ${callStats.total_extensions}\n\n`;
-      
-      messageText += `--- Inbound & Outbound ---\n`;
-      const totalInOut = (callStats.inbound_calls || 0) + (callStats.outbound_calls || 0);
-      const totalAnswered = (callStats.inbound_answered || 0) + (callStats.outbound_answered || 0);
-      const totalLost = (callStats.inbound_missed || 0) + (callStats.outbound_failed || 0);
-      messageText += `[Total] ${totalInOut}\n`;
-      messageText += `[Answered] ${totalAnswered}\n`;
-      messageText += `[Missed/Failed] ${totalLost}\n`;
-      messageText += `[Unreturned] ${callStats.inbound_unreturned || 0}\n`;
-      messageText += `[Returned] ${(callStats.inbound_missed || 0) - (callStats.inbound_unreturned || 0)}\n\n`;
-      
-      messageText += `--- Internal ---\n`;
-      messageText += `[Total] ${callStats.internal_calls || 0}\n`;
-    } else {
-      messageText += `No calls today.\n`;
+    // ✅ Validate phone number (must be 10+ digits: 0722832929, 254729202638, etc.)
+    if (!isValidPhoneNumber(callerNumber)) {
+      logger.warn(` Call auto-SMS: Invalid phone number format: ${callerNumber} (must be 10+ digits)`);
+      db.logActivity('call_auto_sms_invalid_number', `Invalid phone number: ${callerNumber}`, 'warning');
+      return false;
     }
 
-    messageText += `\n========== SMS ==========\n\n`;
+    if (filterOptedOut([callerNumber], 'call_auto_sms').length === 0) {
+      return false;
+    }
 
-    if (hasSmsData) {
-      messageText += `Total Messages Received: ${smsStats.total_sms}\n`;
+    // Determine message based on call status
+    let messageTemplate;
+    if (['missed', 'no-answer', 'noanswer', 'failed'].includes(callRecord.status)) {
+      messageTemplate = callAutoSmsConfig.missed_message;
+      logger.info(`📞 Sending missed call auto-SMS to: ${callerNumber}`);
+    } else if (['answered', 'connected'].includes(callRecord.status)) {
+      messageTemplate = callAutoSmsConfig.answered_message;
+      logger.info(`☎️ Sending answered call auto-SMS to: ${callerNumber}`);
     } else {
-      messageText += `Total Messages Received: 0\n`;
+      logger.debug(` Call auto-SMS: Status '${callRecord.status}' not matched for sending`);
+      return false;
     }
 
-    messageText += `\n========== END REPORT ==========\n`;
-
-    // ========== SEND TO TELEGRAM (IF ENABLED) ==========
-    if (telegramConfig?.enabled && telegramConfig?.bot_token && telegramConfig?.chat_id) {
-      const botToken = telegramConfig.bot_token;
-      const chatId = telegramConfig.chat_id;
-      const telegramApiUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
+    if (!messageTemplate) {
+      logger.warn('Call auto-SMS: No message template available');
+      return false;
+    }
 
-      const payload = {
-        chat_id: chatId,
-        text: messageText
-      };
-
-      logger.info('Sending daily system report to Telegram');
+    // Replace template variables
+    let message = messageTemplate
+      .replace(/\{caller_name\}/g, callRecord.caller_name || callRecord.caller_number)
+      .replace(/\{caller_number\}/g, callerNumber)
+      .replace(/\{extension\}/g, callRecord.extension || 'N/A')
+      .replace(/\{time\}/g, new Date(callRecord.start_time).toLocaleTimeString('en-KE'))
+      .replace(/\{date\}/g, new Date(callRecord.start_time).toLocaleDateString('en-KE'))
+      .replace(/\{duration\}/g, `${callRecord.talk_duration || 0}s`);
 
-      // Send to Telegram
-      const tgResp = await fetch(telegramApiUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
-      });
+    logger.info(`   Message: ${message.substring(0, 80)}...`);
+    
+    // Calculate delay (admin-configurable, default 5 minutes)
+    const delayMinutes = (callAutoSmsConfig.delay_enabled && callAutoSmsConfig.delay_minutes) ? callAutoSmsConfig.delay_minutes : 0;
+    const delayMs = delayMinutes * 60 * 1000;
+    const scheduledTime = Date.now() + delayMs;
+    
+    // Use admin-configured duplicate window (default 10 minutes)
+    const duplicateWindowMinutes = callAutoSmsConfig.duplicate_window || 10;
 
-      const tgJson = await tgResp.json();
+    // Check for recent duplicates before queueing
+    if (db.checkRecentSms && db.checkRecentSms(callerNumber, duplicateWindowMinutes)) {
+      logger.info(` Auto-SMS: Duplicate prevention - SMS already sent to ${callerNumber} within ${duplicateWindowMinutes} min`);
+      db.logActivity('call_auto_sms_duplicate_prevented', `Duplicate prevented for ${callerNumber}`, 'info');
+      return false;
+    }
 
-      if (tgResp.ok && tgJson.ok) {
-        logger.info('Daily report sent successfully to Telegram');
-        db.logActivity('daily_report_sent', `Daily report: ${callStats.total_calls} calls, ${smsStats.total_sms} SMS messages`, 'success');
-      } else {
-        logger.error(`Daily report Telegram send failed: ${tgJson.description || 'Unknown error'}`);
-      }
-    } else {
-      logger.info('Telegram not enabled, skipping Telegram report');
+    // Queue SMS for delayed sending
+    const existingQueuedAt = autoSmsQueuedNumbers.get(callerNumber);
+    if (existingQueuedAt && (Date.now() - existingQueuedAt) < (duplicateWindowMinutes * 60 * 1000)) {
+      logger.info(` Auto-SMS queue duplicate prevention: ${callerNumber} already queued recently`);
+      db.logActivity('call_auto_sms_queue_duplicate_prevented', `Queue duplicate prevented for ${callerNumber}`, 'info');
+      return false;
     }
 
-    // ========== SEND VIA EMAIL (IF ENABLED) ==========
-    await sendEmail('Daily System Report', messageText);
+    autoSmsQueuedNumbers.set(callerNumber, Date.now());
 
-    // ========== SEND SMS TO CONFIGURED PHONE NUMBERS ==========
-    const smsRecipients = db.getSmsReportRecipients();
-    if (telegramConfig?.sms_enabled && smsRecipients && smsRecipients.length > 0) {
-      logger.info(`📱 Sending daily report via SMS to ${smsRecipients.length} recipient(s)...`);
-      
-      // Send to all recipients at once
-      const phoneNumbers = smsRecipients.map(r => r.phone_number);
-      try {
-        logger.info(`→ Sending daily report to all SMS recipients: ${phoneNumbers.join(', ')}`);
-        const smsSent = await sendSmsReport(phoneNumbers, messageText);
-        if (smsSent) {
-          logger.info(`✅ Daily report sent successfully via SMS to ${smsRecipients.length} recipient(s)`);
-        } else {
-          logger.error(`❌ Failed to send daily report via SMS`);
+    autoSmsQueue.push({
+      scheduledTime,
+      fn: async () => {
+        try {
+          const success = await sendSmsViaGateway(callerNumber, message);
+          if (success) {
+            logger.info(`✅ Call auto-SMS sent to ${callerNumber} (delayed ${delayMinutes}m)`);
+            db.logActivity('call_auto_sms_sent', `Call auto-SMS sent to ${callerNumber}`, 'success');
+            db.insertSMS({ sender_number: callerNumber, message_content: message, received_at: new Date().toISOString(), status: 'processed', direction: 'sent', category: 'auto' });
+          } else {
+            logger.error(`❌ Call auto-SMS failed for ${callerNumber}`);
+            db.logActivity('call_auto_sms_failed', `Call auto-SMS failed for ${callerNumber}`, 'error');
+          }
+        } catch (err) { logger.error(`Queued SMS error: ${err.message}`); }
+        finally {
+          autoSmsQueuedNumbers.delete(callerNumber);
         }
-      } catch (error) {
-        logger.error(`Exception sending daily SMS report: ${error.message}`);
       }
-    }
+    });
+
+    if (!isProcessingAutoSms) processAutoSmsQueue();
+    return true;
   } catch (error) {
-    logger.error(`Daily report error: ${error.message}`);
+    logger.error(`Call auto-SMS exception: ${error.message}`);
+    return false;
   }
 }
 
-function scheduleDailyReport() {
-  logger.info('Scheduling daily report based on notification settings');
-
-  // Check every second if it's time to send the report
-  dailyReportInterval = setInterval(() => {
-    const telegramConfig = db.getNotificationConfig() || {};
-    if (!telegramConfig.daily_report_enabled) {
-      return;
-    }
-
-    const configuredTime = (telegramConfig.daily_report_time || '18:00').trim();
-    const timeMatch = configuredTime.match(/^(\d{1,2}):(\d{2})$/);
-    if (!timeMatch) {
-      return;
-    }
-
-    const targetHour = Math.max(0, Math.min(23, parseInt(timeMatch[1], 10)));
-    const targetMinute = Math.max(0, Math.min(59, parseInt(timeMatch[2], 10)));
-
-    const now = new Date();
-    const nairobiParts = new Intl.DateTimeFormat('en-KE', {
-      timeZone: 'Africa/Nairobi',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false,
-    }).formatToParts(now);
-
-    const getPart = (type) => nairobiParts.find((p) => p.type === type)?.value || '00';
-    const year = getPart('year');
-    const month = getPart('month');
-    const day = getPart('day');
-    const hour = parseInt(getPart('hour'), 10);
-    const minute = parseInt(getPart('minute'), 10);
-    const second = parseInt(getPart('second'), 10);
-    const todayKey = `${year}-${month}-${day}`;
-
-    if (hour === targetHour && minute === targetMinute && second === 0 && lastReportTimes.daily !== todayKey) {
-      lastReportTimes.daily = todayKey;
-      logger.info(`📊 Sending scheduled daily report at ${configuredTime} Nairobi`);
-      sendDailyReport();
-    }
-  }, 1000); // Check every second
+// Template variable substitution
+function applyTemplate(template, vars) {
+  return Object.entries(vars).reduce((text, [key, val]) =>
+    text.split(`{${key}}`).join(val !== undefined && val !== null ? String(val) : ''),
+  template);
 }
 
-// Start scheduling the daily report
-scheduleDailyReport();
-
-async function recordHeartbeat() {
-  try {
-    const stats = db.getCallStats();
-    const smsCount = db.db.prepare('SELECT COUNT(*) as count FROM sms_messages').get().count;
-    const errorCount = db.db.prepare("SELECT COUNT(*) as count FROM activity_logs WHERE severity = 'error'").get().count;
-    
-    await fetch(`http://127.0.0.1:${PORT}/api/agent-heartbeat`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        agent_id: 'local-sms-agent',
-        status: 'online',
-        version: '1.0.0',
-        hostname: 'local',
-        messages_synced: smsCount,
-        errors_count: errorCount,
-        metadata: {
-          callsStored: stats.total,
-          callsAnswered: stats.answered,
-          callsMissed: stats.missed,
-          avgTalkTime: Math.round(stats.avgTalk)
-        }
-      })
-    });
-    logger.debug('🫀 Heartbeat recorded');
-  } catch (error) {
-    logger.debug(`Heartbeat record failed: ${error.message}`);
-  }
+// Get template for a specific channel (tg_ or email_ prefix), falling back to shared key
+function getChannelTemplate(channel, eventType) {
+  const channelKey = `${channel}_${eventType}`;
+  return db.getNotificationTemplate(channelKey) || db.getNotificationTemplate(eventType) || null;
 }
 
-// Start heartbeat every 60 seconds
-setInterval(recordHeartbeat, 60000);
-recordHeartbeat(); // Send immediately on startup
-
-// Cache cleanup interval - clear old cache entries every 30 seconds
-setInterval(() => {
-  const now = Date.now();
-  let cleaned = 0;
-  for (const [key, value] of responseCache.entries()) {
-    if (now - value.timestamp > 30000) { // 30 second max age
-      responseCache.delete(key);
-      cleaned++;
-    }
-  }
-  if (cleaned > 0) {
-    logger.debug(`[Cache] Cleaned ${cleaned} expired entries`);
-  }
-}, 30000);
-
-// ========================================
-// SMS Listener (Background Service)
+// Event-Driven Missed Call Alert (No Polling)
 // ========================================
 
-let tg400Api = null;
-let pollingInterval = null;
+const notifiedMissedCalls = new Set(); // Track which missed calls we've already alerted
 
-async function startSmsListener(retryCount = 0) {
-  // Exponential backoff: 30s, 60s, 120s, 240s, capped at 300s (5 min)
-  const retryDelay = Math.min(30000 * Math.pow(2, retryCount), 300000);
+async function sendMissedCallAlert(callRecord) {
   try {
-    const config = db.getGatewayConfig();
+    const telegramConfig = db.getNotificationConfig();
     
-    if (!config || !config.gateway_ip || !config.api_username) {
-      logger.debug('⏳ Waiting for gateway configuration...');
-      // Retry after 5 seconds
-      setTimeout(startSmsListener, 5000);
+    // Only send if telegram is enabled and configured
+    if (!telegramConfig?.enabled || !telegramConfig?.bot_token || !telegramConfig?.chat_id) {
+      logger.debug(' Telegram not enabled - skipping alert');
       return;
     }
 
-    if (tg400Api && tg400Api.isConnected) {
-      logger.debug('SMS listener already connected');
+    if (!telegramConfig?.notify_missed_calls) {
+      logger.debug(' Missed-call notifications are disabled - skipping alert');
       return;
     }
 
-    // Fully destroy old instance before creating a new one
-    if (tg400Api) {
-      logger.debug('🧹 Cleaning up old SMS listener...');
-      try {
-        tg400Api.removeAllListeners();
-        tg400Api.disconnect();
-      } catch (_) {}
-      tg400Api = null;
+    // Skip if not a missed call or already notified
+    if (!['missed', 'no-answer', 'noanswer', 'failed'].includes(callRecord.status)) {
+      return;
     }
-    // Clear any old polling interval
-    if (pollingInterval) { clearInterval(pollingInterval); pollingInterval = null; }
 
-    logger.info(`\n📡 Connecting SMS listener to ${config.gateway_ip}:${config.api_port || 5038}`);
-    
-    tg400Api = new TG400TcpApi(
-      config.gateway_ip,
-      config.api_port || 5038,
-      config.api_username,
-      config.api_password,
-      { log: (level, msg) => logger.debug(`[TCP] ${level.toUpperCase()}: ${msg}`) }
-    );
+    // Only alert for inbound calls (external callers) — never internal extensions
+    if (callRecord.direction !== 'inbound') {
+      logger.debug(` Missed call alert: skipping ${callRecord.direction} call from ${callRecord.caller_number}`);
+      return;
+    }
 
-    // Event: New SMS received - Server pushes SMS when received
-    tg400Api.on('sms-received', async (sms) => {
-      try {
-        logger.info(`\n📨 SMS LISTENER: Received event from TG400`);
-        logger.info(`🔍 RAW SMS EVENT DATA:`, JSON.stringify({
-          id: sms.id,
-          gsmSpan: sms.gsmSpan,
-          port: sms.port,
-          portNumber: sms.portNumber,
-          port_number: sms.port_number,
-          sender: sms.sender,
-          timestamp: new Date().toISOString()
-        }, null, 2));
-        
-        // Determine which port field has the actual port number
-        const portFromEvent = sms.port !== undefined ? sms.port : 
-                             sms.portNumber !== undefined ? sms.portNumber :
-                             sms.port_number !== undefined ? sms.port_number : null;
-        
-        const gsmSpan = sms.gsmSpan || (sms.port ? sms.port + 1 : 2);  // GsmSpan = port + 1
-        
-        logger.info(`✅ RESOLVED: Port=${portFromEvent}, GsmSpan=${gsmSpan}`);
-        const internalPort = portFromEvent;
-        
-        let messageContent = sms.content || '';
-        
-        // Try additional decoding if needed
-        try {
-          // Replace + with space (form-encoding) then decode
-          const normalized = messageContent.replace(/\+/g, ' ');
-          messageContent = decodeURIComponent(normalized);
-        } catch (e) {
-          logger.debug(`No URL decoding needed: ${e.message}`);
-          // If decoding fails, use original content
+    // ✅ CHECK CHECKPOINT - Only alert for NEW calls after Telegram was enabled
+    const checkpoint = db.getAlertCheckpoint('missed_call');
+    if (checkpoint) {
+      const callTime = new Date(callRecord.start_time).getTime();
+      const checkpointTime = new Date(checkpoint).getTime();
+      
+      if (callTime <= checkpointTime) {
+        logger.debug(`⏭️ Skipping old call (${callRecord.start_time} <= ${checkpoint})`);
+        return;
+      }
+    }
+
+    // A call that only shows up now (PBX was unreachable, backlog sync) is
+    // too late to act on. This runs when the record is first synced, and a
+    // call can already be one sync interval old by then, so only the delay
+    // beyond that counts (the interval may be raised by auto-tune).
+    // start_time is UTC, possibly without a designator.
+    const thresholdMinutes = runtimeConfig.get('missed_call_threshold_minutes');
+    const syncIntervalMinutes = runtimeConfig.get('pbx_sync_interval_seconds') / 60;
+    const rawStart = String(callRecord.start_time || '').trim().replace(' ', 'T');
+    const startMs = new Date(/Z$|[+-]\d{2}:\d{2}$/.test(rawStart) ? rawStart : `${rawStart}Z`).getTime();
+    const ageMinutes = (Date.now() - startMs) / 60000;
+    const lateMinutes = ageMinutes - syncIntervalMinutes;
+    if (lateMinutes > thresholdMinutes) {
+      logger.warn(
+        `Skipping missed-call alert for ${callRecord.caller_number}: synced ${Math.round(ageMinutes)} min after the call ` +
+        `(${Math.round(lateMinutes)} min past the ${Math.round(syncIntervalMinutes)} min sync interval, threshold ${thresholdMinutes} min)`
+      );
+      return;
+    }
+
+    const callKey = callRecord.external_id || callRecord.id;
+    if (notifiedMissedCalls.has(callKey)) {
+      logger.debug(` Alert already sent for: ${callKey}`);
+      return;
+    }
+
+    try {
+      // Format Telegram message with Nairobi timezone (UTC+3)
+      const callDateTime = new Date(callRecord.start_time);
+      const nairobiTime = new Date(callDateTime.getTime() + 3 * 60 * 60 * 1000);
+      
+      const callTime = nairobiTime.toLocaleTimeString('en-KE', { 
+        timeZone: 'Africa/Nairobi',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      });
+      
+      const callDate = nairobiTime.toLocaleDateString('en-KE', {
+        timeZone: 'Africa/Nairobi',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit'
+      });
+      
+      const callerNumber = callRecord.caller_number || 'Unknown';
+      const extensionNumber = callRecord.extension || 'General Queue';
+      const duration = callRecord.ring_duration || 0;
+      
+      // Get extension username from database
+      let extensionUsername = 'N/A';
+      if (extensionNumber !== 'General Queue') {
+        const extInfo = db.db.prepare('SELECT username FROM pbx_extensions WHERE extnumber = ? LIMIT 1').get(extensionNumber);
+        if (extInfo?.username) {
+          extensionUsername = extInfo.username;
         }
+      }
+      
+      const missedTemplate = getChannelTemplate('tg', 'missed_call') ||
+        '\uD83D\uDD14 MISSED CALL ALERT\n\nCaller: {caller}\nExtension: {extension} ({extension_name})\nTime: {time} (Nairobi)\nDate: {date}\nRing Duration: {duration}s';
+      const messageText = applyTemplate(missedTemplate, {
+        caller: callerNumber,
+        extension: extensionNumber,
+        extension_name: extensionUsername,
+        time: callTime,
+        date: callDate,
+        duration: String(duration),
+      });
 
-        logger.info(`💾 Saving SMS to database: From ${sms.sender}, ${messageContent.length} chars, GsmSpan ${gsmSpan}, ID: ${sms.id}`);
-        
-        // Use high-level insert for consistency - store only gsm_span (2-5)
-        const inserted = db.insertSMS({
-          external_id: sms.id,
-          sender_number: sms.sender,
-          message_content: messageContent,
-          gsm_span: gsmSpan,
-          received_at: sms.received_at || new Date().toISOString(),
-          status: 'unread'
-        });
-        
-        // Clear related SMS caches immediately
-        for (const [key] of responseCache.entries()) {
-          if (key.includes('sms-') || key === 'statistics:all') {
-            responseCache.delete(key);
+      const botToken = telegramConfig.bot_token;
+      const chatId = telegramConfig.chat_id;
+      const telegramApiUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
+
+      const payload = {
+        chat_id: chatId,
+        text: messageText
+      };
+
+      logger.info(`🔔 Queuing missed call alert: ${callerNumber} → Ext ${extensionNumber}`);
+
+      // Queue ONLY missed call alerts (other sends bypass queue to avoid bottlenecks)
+      missedCallAlertQueue.push({
+        fn: async () => {
+          try {
+            const tgResp = await fetch(telegramApiUrl, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(payload)
+            });
+
+            const tgJson = await tgResp.json();
+
+            if (tgResp.ok && tgJson.ok) {
+              logger.info(`✅ Missed call alert delivered to ${callerNumber}`);
+              notifiedMissedCalls.add(callKey);
+              
+              // ✅ Update checkpoint to this call's time so we only check forward from here
+              db.updateAlertCheckpoint('missed_call', callRecord.start_time);
+              
+              db.logActivity('telegram_missed_call_alert', `Missed call alert sent: ${callerNumber} -> ${extensionNumber}`, 'success');
+            } else {
+              logger.warn(`⏳ Telegram rate limited (will retry): ${tgJson.description || 'Unknown error'}`);
+              db.logActivity('telegram_missed_call_alert_failed', `Failed to send alert for ${callerNumber}: ${tgJson.description || tgResp.statusText}`, 'error');
+            }
+
+            // Also send via Email if enabled — use email-specific template
+            const emailTemplate = getChannelTemplate('email', 'missed_call') ||
+              '🔔 MISSED CALL ALERT\n\nCaller: {caller}\nExtension: {extension} ({extension_name})\nTime: {time} (Nairobi)\nDate: {date}\nRing Duration: {duration}s';
+            const emailText = applyTemplate(emailTemplate, {
+              caller: callerNumber,
+              extension: extensionNumber,
+              extension_name: extensionUsername,
+              time: callTime,
+              date: callDate,
+              duration: String(duration),
+            });
+            await sendEmail(`Missed Call: ${callerNumber}`, emailText);
+          } catch (error) {
+            logger.error(`❌ Queue send error: ${error.message}`);
           }
         }
+      });
 
-        if (inserted) {
-          logger.info(`✅ SMS SAVED: From ${sms.sender} on GsmSpan ${gsmSpan}`);
-          db.logActivity('sms_received', `New SMS from ${sms.sender} on GsmSpan ${gsmSpan}: ${messageContent.substring(0, 50)}...`, 'success', gsmSpan);
-          
-          // EVENT-DRIVEN: Send auto-reply SMS if enabled
-          await sendAutoReplySms(sms.sender);
+      // Process queue
+      processMissedCallQueue();
+    } catch (error) {
+      logger.error(`❌ Missed call alert error: ${error.message}`);
+      db.logActivity('telegram_alert_exception', `Alert exception: ${error.message}`, 'error');
+    }
+  } catch (error) {
+    logger.error(`Missed call alert wrapper error: ${error.message}`);
+  }
+}
+
+// ========================================
+// Deprecated: checkAndAlertMissedCalls (replaced by event-driven sendMissedCallAlert)
+// ========================================
+// This function is kept for backwards compatibility but is no longer called
+async function checkAndAlertMissedCalls() {
+  logger.info(' Legacy polling function - skipped, using event-driven alerts instead');
+}
+
+async function alertErrorImmediately(eventType, message) {
+  try {
+    const telegramConfig = db.getNotificationConfig();
+    
+    // Only send if telegram is enabled
+    if (!telegramConfig?.enabled || !telegramConfig?.bot_token || !telegramConfig?.chat_id) {
+      return;
+    }
+
+    if (!telegramConfig?.notify_system_errors) {
+      return;
+    }
+
+    // Format time in Nairobi timezone (UTC+3)
+    const now = new Date();
+    const nairobiTime = now.toLocaleString('en-KE', {
+      timeZone: 'Africa/Nairobi',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: true
+    });
+
+    const errorTemplate = getChannelTemplate('tg', 'system_error') ||
+      'ERROR ALERT\n\nType: {error_type}\nMessage: {error_message}\nTime: {time}';
+    const messageText = applyTemplate(errorTemplate, {
+      error_type: eventType,
+      error_message: message.substring(0, 200) + (message.length > 200 ? '...' : ''),
+      time: nairobiTime + ' (Nairobi)',
+    });
+
+    const botToken = telegramConfig.bot_token;
+    const chatId = telegramConfig.chat_id;
+    const telegramApiUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
+
+    const payload = {
+      chat_id: chatId,
+      text: messageText
+    };
+
+    logger.info(`Sending Telegram error alert: ${eventType}`);
+
+    // Send to Telegram
+    const tgResp = await fetch(telegramApiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    });
+
+    const tgJson = await tgResp.json();
+
+    if (tgResp.ok && tgJson.ok) {
+      logger.info(`Telegram error alert sent successfully`);
+      db.logActivity('error_alert_sent', `Error alert sent: ${eventType}`, 'success');
+    } else {
+      logger.error(`Telegram error send failed: ${tgJson.description || 'Unknown error'}`);
+    }
+
+    // Send via Email using email-specific template
+    const emailErrTemplate = getChannelTemplate('email', 'system_error') ||
+      'ERROR ALERT\n\nType: {error_type}\nMessage: {error_message}\nTime: {time}';
+    const emailErrText = applyTemplate(emailErrTemplate, {
+      error_type: eventType,
+      error_message: message.substring(0, 200) + (message.length > 200 ? '...' : ''),
+      time: nairobiTime + ' (Nairobi)',
+    });
+    await sendEmail(`System Alert: ${eventType}`, emailErrText);
+  } catch (error) {
+    logger.error(`Error alert error: ${error.message}`);
+  }
+}
+
+// Send alert when a new inbound SMS is received
+async function sendNewSmsAlert(senderNumber, portLabel, messageContent) {
+  try {
+    const telegramConfig = db.getNotificationConfig();
+    if (!telegramConfig?.enabled || !telegramConfig?.bot_token || !telegramConfig?.chat_id) return;
+    if (!telegramConfig?.notify_new_sms) return;
+
+    const now = new Date().toLocaleString('en-KE', {
+      timeZone: 'Africa/Nairobi', year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: true,
+    });
+    const tgSmsTemplate = getChannelTemplate('tg', 'new_sms') ||
+      '\uD83D\uDCAC NEW SMS RECEIVED\n\nFrom: {caller}\nPort: {port}\nTime: {time}\nMessage: {message}';
+    const text = applyTemplate(tgSmsTemplate, {
+      caller: senderNumber,
+      port: portLabel || 'Unknown',
+      time: now,
+      message: messageContent.substring(0, 300) + (messageContent.length > 300 ? '...' : ''),
+    });
+    const tgResp = await fetch(`https://api.telegram.org/bot${telegramConfig.bot_token}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat_id: telegramConfig.chat_id, text }),
+    });
+    const tgJson = await tgResp.json();
+    if (tgResp.ok && tgJson.ok) {
+      logger.info(`\uD83D\uDCE9 New SMS alert sent for ${senderNumber}`);
+      db.logActivity('new_sms_alert_sent', `New SMS alert sent for ${senderNumber}`, 'success');
+    }
+    // Email with channel-specific template
+    const emailSmsTemplate = getChannelTemplate('email', 'new_sms') ||
+      '\uD83D\uDCAC NEW SMS RECEIVED\n\nFrom: {caller}\nPort: {port}\nTime: {time}\nMessage: {message}';
+    const emailSmsText = applyTemplate(emailSmsTemplate, {
+      caller: senderNumber,
+      port: portLabel || 'Unknown',
+      time: now,
+      message: messageContent.substring(0, 300) + (messageContent.length > 300 ? '...' : ''),
+    });
+    await sendEmail(`New SMS from ${senderNumber}`, emailSmsText);
+  } catch (e) {
+    logger.error(`New SMS alert error: ${e.message}`);
+  }
+}
+
+// Send alert when a SIM's airtime balance drops below its threshold
+async function sendLowBalanceAlert(gsmSpan, balance, currency, threshold) {
+  try {
+    const spanName = db.prepare('SELECT name FROM gsm_span_config WHERE gsm_span = ?').get(gsmSpan)?.name;
+    const portLabel = spanName || `Port ${gsmSpan - 1}`;
+    const amount = `${currency || ''} ${balance.toFixed(2)}`.trim();
+    const text = `\u26A0\uFE0F LOW SIM BALANCE\n\nPort: ${portLabel} (GsmSpan ${gsmSpan})\nBalance: ${amount}\nThreshold: ${threshold}`;
+
+    const telegramConfig = db.getNotificationConfig();
+    if (telegramConfig?.enabled && telegramConfig?.bot_token && telegramConfig?.chat_id) {
+      const tgResp = await fetch(`https://api.telegram.org/bot${telegramConfig.bot_token}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat_id: telegramConfig.chat_id, text }),
+      });
+      const tgJson = await tgResp.json();
+      if (!tgResp.ok || !tgJson.ok) {
+        logger.error(`Low balance Telegram alert failed: ${tgJson.description || 'Unknown error'}`);
+      }
+    }
+    await sendEmail(`Low SIM balance: ${portLabel}`, text);
+  } catch (e) {
+    logger.error(`Low balance alert error: ${e.message}`);
+  }
+}
+
+// Send alert when a SIM drops off the network or starts failing sends
+async function sendSimHealthAlert(gsmSpan, subject, details) {
+  try {
+    const spanName = db.prepare('SELECT name FROM gsm_span_config WHERE gsm_span = ?').get(gsmSpan)?.name;
+    const portLabel = spanName || `Port ${gsmSpan - 1}`;
+    const text = `\u26A0\uFE0F ${subject.toUpperCase()}\n\nPort: ${portLabel} (GsmSpan ${gsmSpan})\n${details}`;
+
+    const telegramConfig = db.getNotificationConfig();
+    if (telegramConfig?.enabled && telegramConfig?.bot_token && telegramConfig?.chat_id) {
+      const tgResp = await fetch(`https://api.telegram.org/bot${telegramConfig.bot_token}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat_id: telegramConfig.chat_id, text }),
+      });
+      const tgJson = await tgResp.json();
+      if (!tgResp.ok || !tgJson.ok) {
+        logger.error(`SIM health Telegram alert failed: ${tgJson.description || 'Unknown error'}`);
+      }
+    }
+    await sendEmail(`${subject}: ${portLabel}`, text);
+  } catch (e) {
+    logger.error(`SIM health alert error: ${e.message}`);
+  }
+}
+
+// Start checking for missed calls independently every 3 minutes
+function startMissedCallAlerts() {
+  // EVENT-DRIVEN ALERT: Polling is now disabled in favor of instant alerts
+  // Alerts are sent immediately when a missed call is saved in syncCallRecords()
+  logger.info('✅ Missed call alert service: EVENT-DRIVEN (instant alerts on call save)');
+}
+
+// Initialize event-driven alerts
+startMissedCallAlerts();
+
+// ========================================
+// ========================================
+// Email Service (configurable SMTP via admin settings)
+// ========================================
+
+// recipients/attachments are for report definitions, which carry their own
+// address list; everything else goes to the configured email_recipients
+async function sendEmail(subject, bodyText, { bypassEnabledCheck = false, recipients: toAddresses = null, attachments = [] } = {}) {
+  try {
+    const telegramConfig = db.getNotificationConfig();
+    
+    if (!bypassEnabledCheck && !telegramConfig?.email_enabled) {
+      logger.debug(' Email notifications disabled - skipping');
+      return false;
+    }
+
+    const smtpHost = telegramConfig.email_smtp_host;
+    const smtpPort = telegramConfig.email_smtp_port || 587;
+    const smtpUser = telegramConfig.email_smtp_user;
+    const smtpPass = telegramConfig.email_smtp_pass;
+    const emailFrom = telegramConfig.email_from || smtpUser;
+    const encryption = telegramConfig.email_smtp_encryption || 'auto';
+
+    if (!smtpHost || !smtpUser || !smtpPass) {
+      logger.warn(' Email SMTP credentials not configured - skipping email send');
+      return false;
+    }
+
+    let recipients = toAddresses || [];
+    if (!toAddresses) {
+      try {
+        const raw = telegramConfig.email_recipients;
+        recipients = Array.isArray(raw) ? raw : JSON.parse(raw || '[]');
+      } catch (e) {
+        recipients = [];
+      }
+    }
+
+    if (!recipients || recipients.length === 0) {
+      logger.warn(' No email recipients configured');
+      return false;
+    }
+
+    const nodemailer = require('nodemailer');
+    // Determine secure/tls settings based on encryption choice
+    let secure = false;
+    let tlsOptions = { rejectUnauthorized: false };
+    if (encryption === 'ssl' || (encryption === 'auto' && smtpPort === 465)) {
+      secure = true; // SSL/TLS from the start
+    } else if (encryption === 'starttls') {
+      secure = false; // STARTTLS upgrades after connection
+      tlsOptions = { ...tlsOptions, ciphers: 'SSLv3' };
+    } else if (encryption === 'none') {
+      secure = false;
+      tlsOptions = { rejectUnauthorized: false };
+    }
+    const transporter = nodemailer.createTransport({
+      host: smtpHost,
+      port: smtpPort,
+      secure,
+      auth: { user: smtpUser, pass: smtpPass },
+      tls: tlsOptions
+    });
+
+    await transporter.sendMail({
+      from: emailFrom,
+      to: recipients.join(','),
+      subject,
+      text: bodyText,
+      attachments
+    });
+
+    logger.info(`✅ Email sent: "${subject}" to ${recipients.length} recipient(s)`);
+    db.logActivity('email_sent', `Email "${subject}" sent to ${recipients.join(', ')}`, 'success');
+    return true;
+  } catch (error) {
+    logger.error(`Email send failed: ${error.message}`);
+    db.logActivity('email_send_failed', `Email send failed: ${error.message}`, 'error');
+    return false;
+  }
+}
+
+// SMS Gateway Service (Hardcoded Credentials)
+// ========================================
+
+const SMS_GATEWAY_CONFIG = {
+  url: 'https://sms.techrasystems.com/SMSApi/send',
+  userid: 'nosteqltd',
+  senderid: 'NOSTEQLTD',
+  apikey: 'd5333c2f579ef1115d5984475e6fbecfffa2cdff'
+};
+
+// Generic SMS sending function using hardcoded gateway
+// Format phone number to international format
+// Converts 0XXXXXXXXX to 254XXXXXXXXX (Kenya country code)
+function formatPhoneNumber(number) {
+  if (!number) return number;
+  const cleaned = String(number).trim();
+  
+  // If starts with 0, replace with 254
+  if (cleaned.startsWith('0')) {
+    return '254' + cleaned.substring(1);
+  }
+  
+  // If already starts with 254, return as is
+  if (cleaned.startsWith('254')) {
+    return cleaned;
+  }
+  
+  // Otherwise, prepend 254
+  return '254' + cleaned;
+}
+
+// ========================================
+// Phone Number Validation
+// ========================================
+function isValidPhoneNumber(number) {
+  if (!number) return false;
+  
+  // Remove all non-digit characters
+  const digitsOnly = String(number).replace(/\D/g, '');
+  
+  // Must be at least 10 digits (e.g., 0722832929 or minimum 254xxxxxxxx)
+  if (digitsOnly.length < 10) {
+    return false;
+  }
+  
+  // Must be at most 13 digits (e.g., 254XXXXXXXXXX)
+  if (digitsOnly.length > 13) {
+    return false;
+  }
+  
+  // Valid formats:
+  // - 0722832929 (Kenya local, 10 digits starting with 0)
+  // - 254722832929 (Kenya international, 12 digits starting with 254)
+  // - 722832929 (Kenya without 0 or 254, 9 digits - we add 254)
+  return true;
+}
+
+async function sendSmsViaGateway(phoneNumberOrNumbers, messageText) {
+  try {
+    // Check if SMS sending is enabled globally
+    if (!db.isSmsEnabled()) {
+      logger.info('ℹ️  SMS sending is currently disabled by administrator');
+      return false;
+    }
+    
+    const numbers = Array.isArray(phoneNumberOrNumbers) ? phoneNumberOrNumbers : [phoneNumberOrNumbers];
+    
+    if (!numbers || numbers.length === 0 || !messageText) {
+      logger.warn('SMS sending: No phone numbers or message provided');
+      return false;
+    }
+
+    const permittedNumbers = filterOptedOut(numbers, 'gateway');
+    if (permittedNumbers.length === 0) {
+      return false;
+    }
+
+    // Check for duplicate SMS within 24 hours for each recipient
+    const filteredNumbers = [];
+    for (const number of permittedNumbers) {
+      if (db.checkRecentSms(number, 1440)) {
+        logger.warn(`⚠️  SMS already sent to ${number} today - skipping to prevent duplicate`);
+        db.logActivity('sms_duplicate_prevented', `SMS to ${number} skipped (duplicate within 24h)`, 'warning');
+        continue;
+      }
+      filteredNumbers.push(number);
+    }
+    
+    // If all numbers were filtered out due to duplicates, return early
+    if (filteredNumbers.length === 0) {
+      logger.info(`ℹ️  All SMS recipients already received this message today - no action taken`);
+      return true;
+    }
+
+    // Format all phone numbers to international format
+    const formattedNumbers = filteredNumbers.map(n => formatPhoneNumber(n));
+    const mobileParam = formattedNumbers.join(',');
+    
+    logger.info(`📤 Sending SMS via gateway to: ${mobileParam}`);
+    logger.info(`   Message: ${messageText.substring(0, 80)}...`);
+
+    try {
+      const { execSync } = require('child_process');
+      // Properly escape for shell: escape backslashes, double quotes, backticks, and dollar signs
+      const escapedMsg = messageText
+        .replace(/\\/g, '\\\\')    // Escape backslashes first
+        .replace(/"/g, '\\"')      // Escape double quotes
+        .replace(/`/g, '\\`')      // Escape backticks
+        .replace(/\$/g, '\\$');    // Escape dollar signs
+      
+      const curlCommand = `curl -X POST '${SMS_GATEWAY_CONFIG.url}' \
+-H 'Accept: application/json' \
+-H 'apikey: ${SMS_GATEWAY_CONFIG.apikey}' \
+-H 'Content-Type: application/x-www-form-urlencoded' \
+-H 'Cookie: SERVERID=webC1' \
+-d "userid=${SMS_GATEWAY_CONFIG.userid}&senderid=${SMS_GATEWAY_CONFIG.senderid}&msgType=text&duplicatecheck=true&sendMethod=quick&msg=${escapedMsg}&mobile=${mobileParam}"`;
+
+      const response = execSync(curlCommand, { 
+        encoding: 'utf-8',
+        timeout: 30000,
+        maxBuffer: 10 * 1024 * 1024,
+        shell: '/bin/bash' 
+      });
+
+      if (response && response.trim()) {
+        logger.info(`✅ SMS sent successfully to ${filteredNumbers.length} recipient(s)`);
+        
+        // Store sent SMS in database for each recipient
+        try {
+          filteredNumbers.forEach(recipient => {
+            db.insertSMS({
+              sender_number: recipient,
+              message_content: messageText,
+              received_at: new Date().toISOString(),
+              status: 'processed',
+              direction: 'sent',
+              category: 'system'
+            });
+          });
+        } catch (dbError) {
+          logger.warn(`Failed to log sent SMS to database: ${dbError.message}`);
+        }
+        
+        return true;
+      } else {
+        logger.warn(`SMS gateway empty response`);
+        return false;
+      }
+    } catch (execError) {
+      logger.error(`SMS sending failed: ${execError.message}`);
+      return false;
+    }
+  } catch (error) {
+    logger.error(`SMS sending exception: ${error.message}`);
+    return false;
+  }
+}
+
+async function sendSmsReport(phoneNumbers, messageText) {
+  try {
+    // Check if SMS sending is enabled globally
+    if (!db.isSmsEnabled()) {
+      logger.info('ℹ️  SMS sending is currently disabled by administrator');
+      return false;
+    }
+    
+    // Handle both single number and array of numbers
+    const numbers = Array.isArray(phoneNumbers) ? phoneNumbers : [phoneNumbers];
+    
+    if (!numbers || numbers.length === 0 || !messageText) {
+      logger.warn('SMS Report: No phone numbers or message provided');
+      return false;
+    }
+
+    const permittedNumbers = filterOptedOut(numbers, 'report');
+    if (permittedNumbers.length === 0) {
+      return false;
+    }
+
+    // Check for duplicate SMS within 24 hours for each recipient
+    const filteredNumbers = [];
+    for (const number of permittedNumbers) {
+      if (db.checkRecentSms(number, 1440)) {
+        logger.warn(`⚠️  SMS Report already sent to ${number} today - skipping to prevent duplicate`);
+        db.logActivity('sms_report_duplicate_prevented', `SMS Report to ${number} skipped (duplicate within 24h)`, 'warning');
+        continue;
+      }
+      filteredNumbers.push(number);
+    }
+    
+    // If all numbers were filtered out due to duplicates, return early
+    if (filteredNumbers.length === 0) {
+      logger.info(`ℹ️  All SMS Report recipients already received this message today - no action taken`);
+      return true;
+    }
+
+    // Format all phone numbers to international format and join
+    const formattedNumbers = filteredNumbers.map(n => formatPhoneNumber(n));
+    const mobileParam = formattedNumbers.join(',');
+    
+    logger.info(`📤 SMS sending to: ${mobileParam}`);
+    logger.info(`   Message length: ${messageText.length} characters`);
+
+    try {
+      // Build and execute curl command directly using shell escaping
+      const { execSync } = require('child_process');
+      
+      // Properly escape for shell: escape backslashes, double quotes, backticks, and dollar signs
+      const escapedMsg = messageText
+        .replace(/\\/g, '\\\\')    // Escape backslashes first
+        .replace(/"/g, '\\"')      // Escape double quotes
+        .replace(/`/g, '\\`')      // Escape backticks
+        .replace(/\$/g, '\\$');    // Escape dollar signs
+      
+      const curlCommand = `curl -X POST '${SMS_GATEWAY_CONFIG.url}' \
+-H 'Accept: application/json' \
+-H 'apikey: ${SMS_GATEWAY_CONFIG.apikey}' \
+-H 'Content-Type: application/x-www-form-urlencoded' \
+-H 'Cookie: SERVERID=webC1' \
+-d "userid=${SMS_GATEWAY_CONFIG.userid}&senderid=${SMS_GATEWAY_CONFIG.senderid}&msgType=text&duplicatecheck=true&sendMethod=quick&msg=${escapedMsg}&mobile=${mobileParam}"`;
+
+      logger.info(`Executing SMS curl...`);
+      
+      const response = execSync(curlCommand, { 
+        encoding: 'utf-8',
+        timeout: 30000,
+        maxBuffer: 10 * 1024 * 1024,
+        shell: '/bin/bash' 
+      });
+
+      logger.info(`SMS Gateway Response: ${response}`);
+      
+      // Any response from gateway is typically success - they respond with JSON
+      if (response && response.trim()) {
+        logger.info(`✅ SMS sent successfully to ${filteredNumbers.length} recipient(s): ${mobileParam}`);
+        db.logActivity('sms_report_sent', `SMS sent to ${mobileParam}`, 'success');
+        
+        // Store sent SMS in database for each recipient
+        try {
+          filteredNumbers.forEach(recipient => {
+            db.insertSMS({
+              sender_number: recipient,
+              message_content: messageText,
+              received_at: new Date().toISOString(),
+              status: 'processed',
+              direction: 'sent',
+              category: 'report'
+            });
+          });
+        } catch (dbError) {
+          logger.warn(`Failed to log sent SMS to database: ${dbError.message}`);
+        }
+        
+        return true;
+      } else {
+        logger.warn(`SMS Gateway empty response for: ${mobileParam}`);
+        return false;
+      }
+    } catch (execError) {
+      logger.error(`Curl execution failed: ${execError.message}`);
+      if (execError.stderr) {
+        logger.error(`Stderr: ${execError.stderr}`);
+      }
+      if (execError.stdout) {
+        logger.error(`Stdout: ${execError.stdout}`);
+      }
+      db.logActivity('sms_report_error', `SMS error to ${mobileParam}: ${execError.message}`, 'error');
+      return false;
+    }
+  } catch (error) {
+    logger.error(`SMS Report Exception: ${error.message}`);
+    db.logActivity('sms_report_error', `SMS exception: ${error.message}`, 'error');
+    return false;
+  }
+}
+
+// ========================================
+// Daily Report Service
+// ========================================
+
+let dailyReportInterval = null;
+let lastReportTimes = {}; // Track last send times for morning and evening reports
+
+async function sendDailyReport() {
+  try {
+    const telegramConfig = db.getNotificationConfig();
+    if (!telegramConfig?.daily_report_enabled) {
+      logger.info('Daily report disabled in notification settings');
+      return;
+    }
+
+    // Get today's date
+    const today = new Date().toISOString().split('T')[0];
+
+    // === CALL STATISTICS (AGGREGATED) ===
+    const callStats = db.db.prepare(`
+      SELECT 
+        COUNT(*) as total_calls,
+        SUM(CASE WHEN direction = 'inbound' THEN 1 ELSE 0 END) as inbound_calls,
+        SUM(CASE WHEN direction = 'outbound' THEN 1 ELSE 0 END) as outbound_calls,
+        SUM(CASE WHEN direction = 'internal' THEN 1 ELSE 0 END) as internal_calls,
+        SUM(CASE WHEN direction = 'inbound' AND status = 'answered' THEN 1 ELSE 0 END) as inbound_answered,
+        SUM(CASE WHEN direction = 'inbound' AND status IN ('missed', 'no-answer', 'noanswer') THEN 1 ELSE 0 END) as inbound_missed,
+        SUM(CASE WHEN direction = 'inbound' AND status IN ('missed', 'no-answer', 'noanswer') AND is_returned = 0 THEN 1 ELSE 0 END) as inbound_unreturned,
+        SUM(CASE WHEN direction = 'outbound' AND status = 'answered' THEN 1 ELSE 0 END) as outbound_answered,
+        SUM(CASE WHEN direction = 'outbound' AND status IN ('missed', 'no-answer', 'noanswer', 'failed', 'busy') THEN 1 ELSE 0 END) as outbound_failed,
+        COUNT(DISTINCT extension) as total_extensions
+      FROM call_records
+      WHERE SUBSTR(start_time, 1, 10) = ?
+    `).get(today);
+
+    // === SMS STATISTICS (AGGREGATED) ===
+    const smsStats = db.db.prepare(`
+      SELECT COUNT(*) as total_sms FROM sms_messages 
+      WHERE SUBSTR(received_at, 1, 10) = ?
+    `).get(today);
+
+    // Check if there's any data to report
+    const hasCallData = callStats && callStats.total_calls > 0;
+    const hasSmsData = smsStats && smsStats.total_sms > 0;
+
+    if (!hasCallData && !hasSmsData) {
+      logger.info('No calls or SMS today, skipping daily report');
+      return;
+    }
+
+    let messageText = 'DAILY SYSTEM REPORT\n\n';
+    messageText += `Date: ${today}\n`;
+    messageText += `Report Time: Nairobi Time\n`;
+    messageText += `\n========== CALLS ==========\n\n`;
+
+    if (hasCallData) {
+      messageText += `Total Calls: ${callStats.total_calls}\n`;
+      messageText += `Extensions with Calls: ${callStats.total_extensions}\n\n`;
+      
+      messageText += `--- Inbound & Outbound ---\n`;
+      const totalInOut = (callStats.inbound_calls || 0) + (callStats.outbound_calls || 0);
+      const totalAnswered = (callStats.inbound_answered || 0) + (callStats.outbound_answered || 0);
+      const totalLost = (callStats.inbound_missed || 0) + (callStats.outbound_failed || 0);
+      messageText += `[Total] ${totalInOut}\n`;
+      messageText += `[Answered] ${totalAnswered}\n`;
+      messageText += `[Missed/Failed] ${totalLost}\n`;
+      messageText += `[Unreturned] ${callStats.inbound_unreturned || 0}\n`;
+      messageText += `[Returned] ${(callStats.inbound_missed || 0) - (callStats.inbound_unreturned || 0)}\n\n`;
+      
+      messageText += `--- Internal ---\n`;
+      messageText += `[Total] ${callStats.internal_calls || 0}\n`;
+    } else {
+      messageText += `No calls today.\n`;
+    }
+
+    messageText += `\n========== SMS ==========\n\n`;
+
+    if (hasSmsData) {
+      messageText += `Total Messages Received: ${smsStats.total_sms}\n`;
+    } else {
+      messageText += `Total Messages Received: 0\n`;
+    }
+
+    const summary = await summarizeDailyReport(messageText);
+    if (summary) {
+      messageText += `\n========== SUMMARY ==========\n\n${summary}\n`;
+    }
+
+    messageText += `\n========== END REPORT ==========\n`;
+
+    // ========== SEND TO TELEGRAM (IF ENABLED) ==========
+    if (telegramConfig?.enabled && telegramConfig?.bot_token && telegramConfig?.chat_id) {
+      const botToken = telegramConfig.bot_token;
+      const chatId = telegramConfig.chat_id;
+      const telegramApiUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
+
+      const payload = {
+        chat_id: chatId,
+        text: messageText
+      };
+
+      logger.info('Sending daily system report to Telegram');
+
+      // Send to Telegram
+      const tgResp = await fetch(telegramApiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+
+      const tgJson = await tgResp.json();
+
+      if (tgResp.ok && tgJson.ok) {
+        logger.info('Daily report sent successfully to Telegram');
+        db.logActivity('daily_report_sent', `Daily report: ${callStats.total_calls} calls, ${smsStats.total_sms} SMS messages`, 'success');
+      } else {
+        logger.error(`Daily report Telegram send failed: ${tgJson.description || 'Unknown error'}`);
+      }
+    } else {
+      logger.info('Telegram not enabled, skipping Telegram report');
+    }
+
+    // ========== SEND VIA EMAIL (IF ENABLED) ==========
+    await sendEmail('Daily System Report', messageText);
+
+    // ========== SEND SMS TO CONFIGURED PHONE NUMBERS ==========
+    const smsRecipients = db.getSmsReportRecipients();
+    if (telegramConfig?.sms_enabled && smsRecipients && smsRecipients.length > 0) {
+      logger.info(`📱 Sending daily report via SMS to ${smsRecipients.length} recipient(s)...`);
+      
+      // Send to all recipients at once
+      const phoneNumbers = smsRecipients.map(r => r.phone_number);
+      try {
+        logger.info(`→ Sending daily report to all SMS recipients: ${phoneNumbers.join(', ')}`);
+        const smsSent = await sendSmsReport(phoneNumbers, messageText);
+        if (smsSent) {
+          logger.info(`✅ Daily report sent successfully via SMS to ${smsRecipients.length} recipient(s)`);
+        } else {
+          logger.error(`❌ Failed to send daily report via SMS`);
+        }
+      } catch (error) {
+        logger.error(`Exception sending daily SMS report: ${error.message}`);
+      }
+    }
+  } catch (error) {
+    logger.error(`Daily report error: ${error.message}`);
+  }
+}
+
+function scheduleDailyReport() {
+  logger.info('Scheduling daily report based on notification settings');
+
+  // Check every second if it's time to send the report
+  dailyReportInterval = setInterval(() => {
+    const telegramConfig = db.getNotificationConfig() || {};
+    if (!telegramConfig.daily_report_enabled) {
+      return;
+    }
+
+    const configuredTime = (telegramConfig.daily_report_time || '18:00').trim();
+    const timeMatch = configuredTime.match(/^(\d{1,2}):(\d{2})$/);
+    if (!timeMatch) {
+      return;
+    }
+
+    const targetHour = Math.max(0, Math.min(23, parseInt(timeMatch[1], 10)));
+    const targetMinute = Math.max(0, Math.min(59, parseInt(timeMatch[2], 10)));
+
+    const now = new Date();
+    const nairobiParts = new Intl.DateTimeFormat('en-KE', {
+      timeZone: 'Africa/Nairobi',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false,
+    }).formatToParts(now);
+
+    const getPart = (type) => nairobiParts.find((p) => p.type === type)?.value || '00';
+    const year = getPart('year');
+    const month = getPart('month');
+    const day = getPart('day');
+    const hour = parseInt(getPart('hour'), 10);
+    const minute = parseInt(getPart('minute'), 10);
+    const second = parseInt(getPart('second'), 10);
+    const todayKey = `${year}-${month}-${day}`;
+
+    if (hour === targetHour && minute === targetMinute && second === 0 && lastReportTimes.daily !== todayKey) {
+      lastReportTimes.daily = todayKey;
+      logger.info(`📊 Sending scheduled daily report at ${configuredTime} Nairobi`);
+      sendDailyReport();
+    }
+  }, 1000); // Check every second
+}
+
+// Start scheduling the daily report
+scheduleDailyReport();
+
+// ========================================
+// Scheduled Reports
+// ========================================
+// Report definitions pick their metrics, date window, extension/port filters
+// and schedule. Each run renders PDF/CSV attachments and delivers them to the
+// definition's own email addresses and Telegram chats, plus an SMS digest to
+// the chosen sms_report_recipients. Times are Nairobi (UTC+3, no DST).
+
+const REPORT_METRICS = {
+  calls_summary: 'Call summary',
+  calls_by_extension: 'Calls by extension',
+  missed_calls: 'Missed calls',
+  sms_summary: 'SMS summary',
+  sms_by_port: 'SMS by port',
+  sms_by_category: 'SMS by category',
+};
+const REPORT_WINDOWS = ['today', 'yesterday', 'last_7_days', 'last_30_days', 'previous_week', 'month_to_date', 'previous_month'];
+const REPORT_FREQUENCIES = ['daily', 'weekly', 'monthly'];
+const REPORT_FORMATS = ['pdf', 'csv'];
+const REPORT_CONTENT_TYPES = { pdf: 'application/pdf', csv: 'text/csv' };
+const REPORT_TICK_MS = 30000;
+const REPORT_SLOT_GRACE_MINUTES = 30; // A slot missed for longer (agent offline) is skipped, not sent late
+const NAIROBI_OFFSET_MS = 3 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let reportSchedulerInterval = null;
+let isRunningScheduledReports = false;
+
+const toSqlUtc = (ms) => new Date(ms).toISOString().slice(0, 19).replace('T', ' ');
+const nairobiDate = (ms) => new Date(ms + NAIROBI_OFFSET_MS).toISOString().slice(0, 10);
+
+// UTC from the database ("YYYY-MM-DD HH:MM:SS" or ISO) → "YYYY-MM-DD HH:MM[:SS]" Nairobi
+function formatNairobiTime(utc, { seconds = false } = {}) {
+  const text = String(utc || '');
+  const ms = Date.parse(/(Z|[+-]\d{2}:?\d{2})$/i.test(text) ? text : `${text.replace(' ', 'T')}Z`);
+  return Number.isNaN(ms) ? text : new Date(ms + NAIROBI_OFFSET_MS).toISOString().slice(0, seconds ? 19 : 16).replace('T', ' ');
+}
+
+function formatTalkTime(seconds) {
+  const total = Math.round(seconds || 0);
+  return `${Math.floor(total / 60)}m ${String(total % 60).padStart(2, '0')}s`;
+}
+
+// UTC bounds (to exclusive) of a date window, computed on Nairobi calendar days
+function resolveReportWindow(window, now = Date.now()) {
+  const local = new Date(now + NAIROBI_OFFSET_MS);
+  const midnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) - NAIROBI_OFFSET_MS;
+  const monthStart = (offset) => Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + offset, 1) - NAIROBI_OFFSET_MS;
+  const monday = midnight - ((local.getUTCDay() + 6) % 7) * DAY_MS;
+
+  const ranges = {
+    today: [midnight, now],
+    yesterday: [midnight - DAY_MS, midnight],
+    last_7_days: [midnight - 7 * DAY_MS, midnight],
+    last_30_days: [midnight - 30 * DAY_MS, midnight],
+    previous_week: [monday - 7 * DAY_MS, monday],
+    month_to_date: [monthStart(0), now],
+    previous_month: [monthStart(-1), monthStart(0)],
+  };
+  const [from, to] = ranges[window] || ranges.yesterday;
+  const first = nairobiDate(from);
+  const last = nairobiDate(to - 1);
+  return {
+    from: toSqlUtc(from),
+    to: toSqlUtc(to),
+    label: first === last ? first : `${first} to ${last}`,
+  };
+}
+
+// Sections in the order the definition lists its metrics
+function buildReport(definition, now = Date.now()) {
+  const period = resolveReportWindow(definition.date_window, now);
+  const data = db.getReportData({
+    from: period.from,
+    to: period.to,
+    metrics: definition.metrics,
+    extensions: definition.extensions,
+    gsmSpans: definition.gsm_spans,
+  });
+  if (!data) throw new Error('Failed to query report data');
+
+  const sections = definition.metrics.filter(metric => REPORT_METRICS[metric]).map(metric => {
+    const section = { key: metric, title: REPORT_METRICS[metric], summary: [], columns: [], rows: [], digest: null };
+    switch (metric) {
+      case 'calls_summary': {
+        const stats = data.calls_summary || {};
+        section.summary = [
+          ['Total calls', stats.total || 0],
+          ['Inbound', stats.inbound || 0],
+          ['Outbound', stats.outbound || 0],
+          ['Internal', stats.internal || 0],
+          ['Answered', stats.answered || 0],
+          ['Missed inbound', stats.missed || 0],
+          ['Unreturned', stats.unreturned || 0],
+          ['Average talk time', formatTalkTime(stats.avg_talk)],
+        ];
+        section.digest = `Calls ${stats.total || 0} (missed ${stats.missed || 0}, unreturned ${stats.unreturned || 0})`;
+        break;
+      }
+      case 'calls_by_extension': {
+        const rows = data.calls_by_extension || [];
+        section.columns = ['Extension', 'Name', 'Calls', 'Answered', 'Missed', 'Avg talk'];
+        section.rows = rows.map(r => [r.extension, r.name || '', r.total, r.answered || 0, r.missed || 0, formatTalkTime(r.avg_talk)]);
+        if (rows.length > 0) section.digest = `Busiest ext ${rows[0].extension} (${rows[0].total})`;
+        break;
+      }
+      case 'missed_calls': {
+        const rows = data.missed_calls || [];
+        section.columns = ['Time (Nairobi)', 'Caller', 'Extension', 'Ring (s)', 'Returned'];
+        section.rows = rows.map(r => [formatNairobiTime(r.start_time), r.caller_number || '', r.extension || '', r.ring_duration || 0, r.is_returned ? 'Yes' : 'No']);
+        if (!definition.metrics.includes('calls_summary')) section.digest = `Missed ${rows.length}`;
+        break;
+      }
+      case 'sms_summary': {
+        const stats = data.sms_summary || {};
+        section.summary = [
+          ['Received', stats.received || 0],
+          ['Unique senders', stats.senders || 0],
+          ['Sent', stats.sent || 0],
+          ['Failed', stats.failed || 0],
+        ];
+        section.digest = `SMS in ${stats.received || 0}, out ${stats.sent || 0}, failed ${stats.failed || 0}`;
+        break;
+      }
+      case 'sms_by_port': {
+        section.columns = ['Port', 'Received', 'Sent', 'Failed'];
+        section.rows = (data.sms_by_port || []).map(r => [
+          r.gsm_span ? `Port ${r.gsm_span - 1}` : 'Unknown', r.received || 0, r.sent || 0, r.failed || 0,
+        ]);
+        break;
+      }
+      case 'sms_by_category': {
+        const rows = data.sms_by_category || [];
+        section.columns = ['Category', 'Messages'];
+        section.rows = rows.map(r => [r.category, r.count]);
+        if (rows.length > 0) section.digest = `Top SMS ${rows.slice(0, 2).map(r => `${r.category} ${r.count}`).join(', ')}`;
+        break;
+      }
+    }
+    return section;
+  });
+
+  const filters = [];
+  if (definition.extensions.length > 0) filters.push(`Extensions: ${definition.extensions.join(', ')}`);
+  if (definition.gsm_spans.length > 0) filters.push(`Ports: ${definition.gsm_spans.map(span => span - 1).join(', ')}`);
+
+  return {
+    title: definition.name,
+    period,
+    generated_at: `${formatNairobiTime(toSqlUtc(now))} (Nairobi)`,
+    filters,
+    sections,
+  };
+}
+
+function renderReportAttachment(report, format) {
+  const content = format === 'pdf' ? ReportRenderer.renderPdf(report) : ReportRenderer.renderCsv(report);
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+  return {
+    filename: `${slug}-${report.period.label.replace(/ to /, '_')}.${format}`,
+    content,
+    contentType: REPORT_CONTENT_TYPES[format],
+  };
+}
+
+// Text first (Telegram caps messages at 4096 characters), then one document per attachment
+async function sendTelegramReport(chatId, text, attachments) {
+  const telegramConfig = db.getNotificationConfig();
+  if (!telegramConfig?.bot_token) throw new Error('Telegram bot token is not configured');
+  const apiUrl = `https://api.telegram.org/bot${telegramConfig.bot_token}`;
+
+  const tgResp = await fetch(`${apiUrl}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ chat_id: chatId, text: text.slice(0, 4096) }),
+  });
+  const tgJson = await tgResp.json().catch(() => ({}));
+  if (!tgResp.ok || !tgJson.ok) throw new Error(tgJson.description || tgResp.statusText);
+
+  for (const attachment of attachments) {
+    const form = new FormData();
+    form.append('chat_id', String(chatId));
+    form.append('document', new Blob([attachment.content], { type: attachment.contentType }), attachment.filename);
+    const docResp = await fetch(`${apiUrl}/sendDocument`, { method: 'POST', body: form });
+    const docJson = await docResp.json().catch(() => ({}));
+    if (!docResp.ok || !docJson.ok) throw new Error(docJson.description || docResp.statusText);
+  }
+}
+
+/**
+ * Build, render and deliver one report definition. slot is set for
+ * scheduled sends so the same slot is never delivered twice.
+ * @returns {{status: 'sent'|'partial'|'failed', delivered: object, errors: string[]}}
+ */
+async function deliverReport(definition, { slot = null, triggeredBy = 'schedule' } = {}) {
+  const errors = [];
+  const delivered = { email: 0, telegram: 0, sms: 0 };
+  let channels = 0;
+
+  try {
+    const report = buildReport(definition);
+    const attachments = definition.formats.map(format => renderReportAttachment(report, format));
+    const text = ReportRenderer.renderText(report);
+    const subject = `${report.title} - ${report.period.label}`;
+
+    if (definition.email_recipients.length > 0) {
+      channels++;
+      const sent = await sendEmail(subject, text, {
+        bypassEnabledCheck: true,
+        recipients: definition.email_recipients,
+        attachments,
+      });
+      if (sent) delivered.email = definition.email_recipients.length;
+      else errors.push('Email delivery failed (check SMTP settings)');
+    }
+
+    for (const chatId of definition.telegram_chat_ids) {
+      channels++;
+      try {
+        await sendTelegramReport(chatId, text, attachments);
+        delivered.telegram++;
+      } catch (error) {
+        errors.push(`Telegram ${chatId}: ${error.message}`);
+      }
+    }
+
+    if (definition.sms_recipient_ids.length > 0) {
+      const digest = ReportRenderer.renderDigest(report);
+      const recipients = db.getSmsReportRecipients().filter(r => definition.sms_recipient_ids.includes(String(r.id)));
+      for (const recipient of recipients) {
+        channels++;
+        try {
+          const { blocked } = enqueueSms(recipient.phone_number, digest, { source: 'report', category: 'report' });
+          if (blocked) errors.push(`SMS ${recipient.phone_number}: opted out`);
+          else delivered.sms++;
+        } catch (error) {
+          errors.push(`SMS ${recipient.phone_number}: ${error.message}`);
+        }
+      }
+    }
+
+    if (channels === 0) errors.push('No recipients configured');
+  } catch (error) {
+    errors.push(error.message);
+  }
+
+  const deliveredCount = delivered.email + delivered.telegram + delivered.sms;
+  const status = errors.length === 0 ? 'sent' : deliveredCount > 0 ? 'partial' : 'failed';
+  db.recordReportDefinitionRun(definition.id, { slot, status, error: errors.join('; ') || null });
+  db.logActivity(
+    status === 'failed' ? 'scheduled_report_failed' : 'scheduled_report_sent',
+    `Report "${definition.name}" (${triggeredBy}): ${status}${errors.length > 0 ? ` - ${errors.join('; ')}` : ''}`,
+    status === 'sent' ? 'success' : status === 'partial' ? 'warning' : 'error',
+    null,
+    JSON.stringify({ report_definition_id: definition.id, slot, delivered })
+  );
+  broadcastEvent('report.definitions', { id: definition.id, status });
+  return { status, delivered, errors };
+}
+
+// Latest send time of today that has passed within the grace window and
+// is newer than the last slot sent, as "YYYY-MM-DD HH:MM" Nairobi
+function dueReportSlot(definition, now = Date.now()) {
+  const local = new Date(now + NAIROBI_OFFSET_MS);
+  if (definition.frequency === 'weekly' && local.getUTCDay() !== definition.weekday) return null;
+  if (definition.frequency === 'monthly' && local.getUTCDate() !== definition.month_day) return null;
+
+  const date = local.toISOString().slice(0, 10);
+  const minutesNow = local.getUTCHours() * 60 + local.getUTCMinutes();
+  let due = null;
+  for (const time of [...definition.send_times].sort()) {
+    const [hour, minute] = time.split(':').map(Number);
+    const elapsed = minutesNow - (hour * 60 + minute);
+    if (elapsed >= 0 && elapsed <= REPORT_SLOT_GRACE_MINUTES) due = `${date} ${time}`;
+  }
+  return due && due > (definition.last_slot || '') ? due : null;
+}
+
+async function runScheduledReports() {
+  if (isRunningScheduledReports) return;
+  isRunningScheduledReports = true;
+  try {
+    for (const definition of db.getReportDefinitions({ enabledOnly: true })) {
+      const slot = dueReportSlot(definition);
+      if (!slot) continue;
+      // Claim the slot first so a crash mid-delivery cannot resend it every tick
+      db.recordReportDefinitionRun(definition.id, { slot, status: 'running' });
+      logger.info(`📊 Sending scheduled report "${definition.name}" for ${slot} Nairobi`);
+      await deliverReport(definition, { slot });
+    }
+  } catch (error) {
+    logger.error(`Scheduled reports error: ${error.message}`);
+  } finally {
+    isRunningScheduledReports = false;
+  }
+}
+
+function scheduleReportDefinitions() {
+  reportSchedulerInterval = setInterval(() => {
+    runScheduledReports();
+  }, REPORT_TICK_MS);
+}
+
+scheduleReportDefinitions();
+
+async function recordHeartbeat() {
+  try {
+    const stats = db.getCallStats();
+    const smsCount = db.db.prepare('SELECT COUNT(*) as count FROM sms_messages').get().count;
+    const errorCount = db.db.prepare("SELECT COUNT(*) as count FROM activity_logs WHERE severity = 'error'").get().count;
+    
+    await fetch(`http://127.0.0.1:${PORT}/api/agent-heartbeat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        agent_id: 'local-sms-agent',
+        status: 'online',
+        version: '1.0.0',
+        hostname: 'local',
+        messages_synced: smsCount,
+        errors_count: errorCount,
+        metadata: {
+          callsStored: stats.total,
+          callsAnswered: stats.answered,
+          callsMissed: stats.missed,
+          avgTalkTime: Math.round(stats.avgTalk)
+        }
+      })
+    });
+    logger.debug('🫀 Heartbeat recorded');
+  } catch (error) {
+    logger.debug(`Heartbeat record failed: ${error.message}`);
+  }
+}
+
+// Start heartbeat every heartbeat_interval_seconds
+let heartbeatInterval = setInterval(recordHeartbeat, runtimeConfig.get('heartbeat_interval_seconds') * 1000);
+recordHeartbeat(); // Send immediately on startup
+
+runtimeConfig.onChange('heartbeat_interval_seconds', (seconds) => {
+  clearInterval(heartbeatInterval);
+  heartbeatInterval = setInterval(recordHeartbeat, seconds * 1000);
+  logger.info(`🫀 Heartbeat interval changed to ${seconds}s`);
+});
+
+// Cache cleanup interval - clear old cache entries every 30 seconds
+setInterval(() => {
+  const now = Date.now();
+  let cleaned = 0;
+  for (const [key, value] of responseCache.entries()) {
+    if (now - value.timestamp > 30000) { // 30 second max age
+      responseCache.delete(key);
+      cleaned++;
+    }
+  }
+  if (cleaned > 0) {
+    logger.debug(`[Cache] Cleaned ${cleaned} expired entries`);
+  }
+}, 30000);
+
+// ========================================
+// SMS Listener (Background Service)
+// ========================================
+
+let tg400Api = null;
+let pollingInterval = null;
+
+async function pollPortStatus() {
+  try {
+    const ports = await Promise.race([
+      tg400Api.getAllPortsInfo(),
+      new Promise((_, reject) => 
+        setTimeout(() => reject(new Error('Port polling timeout - skipping this cycle')), 8000)
+      )
+    ]);
+    if (ports && Array.isArray(ports)) {
+      ports.forEach(port => {
+        try {
+          db.updatePortStatus(port.portNumber, {
+            status: port.status,
+            isUp: port.isUp,
+            isPowerOn: port.isPowerOn
+          });
+        } catch (updateErr) {
+          logger.debug(`[Poll] Skipped port ${port.portNumber} update: ${updateErr.message}`);
+        }
+      });
+      broadcastPortStatus(ports);
+    }
+  } catch (err) {
+    logger.debug(`[Poll] Port status polling skipped: ${err.message}`);
+  }
+}
+
+// Poll port status every port_poll_interval_seconds - just to check which ports are being used
+function schedulePortPolling() {
+  if (pollingInterval) clearInterval(pollingInterval);
+  pollingInterval = setInterval(pollPortStatus, runtimeConfig.get('port_poll_interval_seconds') * 1000);
+}
+
+runtimeConfig.onChange('port_poll_interval_seconds', (seconds) => {
+  if (!pollingInterval) return; // Listener not connected; it schedules on connect
+  schedulePortPolling();
+  logger.info(`[Poll] Port status interval changed to ${seconds}s`);
+});
+
+async function startSmsListener(retryCount = 0) {
+  // Exponential backoff: 30s, 60s, 120s, 240s, capped at 300s (5 min)
+  const retryDelay = Math.min(30000 * Math.pow(2, retryCount), 300000);
+  try {
+    const config = db.getGatewayConfig();
+    
+    if (!config || !config.gateway_ip || !config.api_username) {
+      logger.debug('⏳ Waiting for gateway configuration...');
+      // Retry after 5 seconds
+      setTimeout(startSmsListener, 5000);
+      return;
+    }
+
+    if (tg400Api && tg400Api.isConnected) {
+      logger.debug('SMS listener already connected');
+      return;
+    }
+
+    // Fully destroy old instance before creating a new one
+    if (tg400Api) {
+      logger.debug('🧹 Cleaning up old SMS listener...');
+      try {
+        tg400Api.removeAllListeners();
+        tg400Api.disconnect();
+      } catch (_) {}
+      tg400Api = null;
+    }
+    // Clear any old polling interval
+    if (pollingInterval) { clearInterval(pollingInterval); pollingInterval = null; }
+
+    logger.info(`\n📡 Connecting SMS listener to ${config.gateway_ip}:${config.api_port || 5038}`);
+    
+    tg400Api = new TG400TcpApi(
+      config.gateway_ip,
+      config.api_port || 5038,
+      config.api_username,
+      config.api_password,
+      { log: (level, msg) => logger.debug(`[TCP] ${level.toUpperCase()}: ${msg}`) }
+    );
+
+    // Event: New SMS received - Server pushes SMS when received
+    tg400Api.on('sms-received', async (sms) => {
+      try {
+        logger.info(`\n📨 SMS LISTENER: Received event from TG400`);
+        logger.info(`🔍 RAW SMS EVENT DATA:`, JSON.stringify({
+          id: sms.id,
+          gsmSpan: sms.gsmSpan,
+          port: sms.port,
+          portNumber: sms.portNumber,
+          port_number: sms.port_number,
+          sender: sms.sender,
+          timestamp: new Date().toISOString()
+        }, null, 2));
+        
+        // Determine which port field has the actual port number
+        const portFromEvent = sms.port !== undefined ? sms.port : 
+                             sms.portNumber !== undefined ? sms.portNumber :
+                             sms.port_number !== undefined ? sms.port_number : null;
+        
+        const gsmSpan = sms.gsmSpan || (sms.port ? sms.port + 1 : 2);  // GsmSpan = port + 1
+        
+        logger.info(`✅ RESOLVED: Port=${portFromEvent}, GsmSpan=${gsmSpan}`);
+        const internalPort = portFromEvent;
+        
+        let messageContent = sms.content || '';
+        
+        // Try additional decoding if needed
+        try {
+          // Replace + with space (form-encoding) then decode
+          const normalized = messageContent.replace(/\+/g, ' ');
+          messageContent = decodeURIComponent(normalized);
+        } catch (e) {
+          logger.debug(`No URL decoding needed: ${e.message}`);
+          // If decoding fails, use original content
+        }
+
+        logger.info(`💾 Saving SMS to database: From ${sms.sender}, ${messageContent.length} chars, GsmSpan ${gsmSpan}, ID: ${sms.id}`);
+        
+        // Use high-level insert for consistency - store only gsm_span (2-5)
+        const inserted = db.insertSMS({
+          external_id: sms.id,
+          sender_number: sms.sender,
+          message_content: messageContent,
+          gsm_span: gsmSpan,
+          received_at: sms.received_at || new Date().toISOString(),
+          status: 'unread'
+        });
+        
+        // Clear related SMS caches immediately
+        for (const [key] of responseCache.entries()) {
+          if (key.includes('sms-') || key === 'statistics:all') {
+            responseCache.delete(key);
+          }
+        }
+
+        if (inserted) {
+          logger.info(`✅ SMS SAVED: From ${sms.sender} on GsmSpan ${gsmSpan}`);
+          broadcastEvent('sms.received', {
+            external_id: sms.id,
+            sender_number: sms.sender,
+            gsm_span: gsmSpan,
+            message_content: messageContent.substring(0, 160)
+          });
+          db.logActivity('sms_received', `New SMS from ${sms.sender} on GsmSpan ${gsmSpan}: ${messageContent.substring(0, 50)}...`, 'success', gsmSpan);
+          refineSmsCategoryWithLlm(sms.id); // Background; never delays replies
+          
+          // EVENT-DRIVEN: STOP/START first, then keyword rules; the generic auto-reply only answers unmatched messages
+          const optOutAction = handleOptOutKeywords(sms.sender, messageContent, gsmSpan);
+          if (optOutAction === 'opt_out') {
+            broadcastEvent('sms.opt_out', { sender_number: sms.sender, gsm_span: gsmSpan });
+          } else {
+            const keywordHandled = await sendKeywordAutoReply(sms.sender, messageContent, gsmSpan);
+            if (!keywordHandled) {
+              await sendAutoReplySms(sms.sender);
+            }
+          }
+
+          // EVENT-DRIVEN: Send new SMS notification alert if enabled
+          const portLabel = (() => {
+            try {
+              const row = db.db.prepare('SELECT label FROM port_labels WHERE port_number = ? LIMIT 1').get(internalPort);
+              return row?.label || `Port ${internalPort}`;
+            } catch (e) { return `Port ${internalPort}`; }
+          })();
+          await sendNewSmsAlert(sms.sender, portLabel, messageContent);
+          
+          // Invalidate cache on new SMS
+          responseCache.delete('sms-messages:*');
+          responseCache.delete('statistics:all');
+        } else {
+          logger.error(`❌ SAVE FAILED: SMS from ${sms.sender} on GsmSpan ${gsmSpan} (ID: ${sms.id})`);
+          logger.debug(`   Message: ${messageContent.substring(0, 100)}`);
+          db.logActivity('sms_received_failed', `Failed to save SMS from ${sms.sender} on GsmSpan ${gsmSpan} (ID: ${sms.id})`, 'error', gsmSpan);
+          alertErrorImmediately('SMS Save Failed', `SMS from ${sms.sender} on GsmSpan ${gsmSpan} could not be saved to database`);
+        }
+      } catch (err) {
+        logger.error(`\n❌ SMS HANDLER ERROR: ${err && err.message ? err.message : String(err)}`);
+        if (err && err.stack) logger.debug(err.stack);
+        logErrorToFile(err);
+        try { db.logActivity('sms_handler_error', `Handler error: ${err && err.message ? err.message : String(err)}`, 'error'); alertErrorImmediately('SMS Handler Error', err && err.message ? err.message : String(err)); } catch (e) {}
+      }
+    });
+
+    // Event: Delivery status for an outbound SMS
+    tg400Api.on('sms-status-update', (status) => {
+      broadcastEvent('sms.status', { external_id: status.id, status: status.status, smsc: status.smsc || null });
+      const campaignId = db.applyCampaignDeliveryStatus(status.id, status.status);
+      if (campaignId) broadcastCampaignProgress(campaignId);
+    });
+
+    // Event: Connection closed - try reconnect
+    tg400Api.on('disconnected', () => {
+      logger.warn('\n⚠️  SMS listener disconnected. Retrying in 30s...\n');
+      setTimeout(() => startSmsListener(0), 30000);
+    });
+
+    // Cache invalidation on SMS listener connect
+    responseCache.delete('sms-messages:*');
+    responseCache.delete('statistics:all');
+    
+    // Connect and authenticate
+    logger.info('⏳ Waiting for authentication...');
+    await tg400Api.connect();
+    
+    logger.info('\n✅ SMS listener connected and authenticated.');
+    logger.info('📨 Ready to receive SMS from TG400 gateway\n');
+    db.logActivity('agent_start', 'SMS listener background service started', 'success');
+    
+    // Poll immediately on connection, then every 60 seconds
+    (async () => {
+      try {
+        const ports = await tg400Api.getAllPortsInfo();
+        logger.debug(`Initial port scan found ${ports.length} ports`);
+        if (ports && Array.isArray(ports)) {
+          ports.forEach(port => {
+            db.updatePortStatus(port.portNumber, {
+              status: port.status,
+              isUp: port.isUp,
+              isPowerOn: port.isPowerOn
+            });
+          });
+          broadcastPortStatus(ports);
+        }
+      } catch (err) {
+        console.error('[Poll] Error polling initial port status:', err.message);
+      }
+    })();
+    
+    schedulePortPolling();
+  } catch (error) {
+    const isUnreachable = error.message.includes('EHOSTUNREACH') || error.message.includes('ECONNREFUSED') || error.message.includes('Authentication timeout');
+    if (isUnreachable) {
+      logger.warn(`⚠️  TG400 unreachable (${error.message}). Retry in ${retryDelay / 1000}s (attempt ${retryCount + 1})`);
+    } else {
+      logger.error(`\n Failed to start SMS listener: ${error.message}`);
+    }
+    setTimeout(() => startSmsListener(retryCount + 1), retryDelay);
+  }
+}
+
+// Health check
+app.get('/api/health', (req, res) => {
+  res.setHeader('Cache-Control', 'no-cache');
+  res.json({
+    status: 'ok',
+    database: 'sqlite',
+    dbPath: dbPath,
+    timestamp: new Date().toISOString(),
+    cacheSize: responseCache.size
+  });
+});
+
+// Gateway connection status
+app.get('/api/gateway-status', requirePermission('system.status.view'), (req, res) => {
+  const config = db.getGatewayConfig();
+  const isConnected = tg400Api && tg400Api.isConnected;
+  
+  res.json({
+    configured: !!(config && config.gateway_ip && config.api_username),
+    connected: isConnected,
+    gateway_ip: config?.gateway_ip || null,
+    gateway_port: config?.api_port || null,
+    timestamp: new Date().toISOString()
+  });
+});
+
+// ========================================
+// TG400 Direct API - Get Active SIM Ports
+// ========================================
+
+app.get('/api/tg400-ports', async (req, res) => {
+  try {
+    const config = db.getGatewayConfig();
+    
+    if (!config || !config.gateway_ip || !config.api_port) {
+      return res.status(400).json({
+        success: false,
+        error: 'TG400 gateway not configured'
+      });
+    }
+
+    let tg400Ports = [];
+
+    // If already connected, use existing connection
+    if (tg400Api && tg400Api.isConnected && tg400Api.isAuthenticated) {
+      try {
+        tg400Ports = await tg400Api.getAllPortsInfo();
+      } catch (error) {
+        logger.error(`Failed to get ports from existing connection: ${error.message}`);
+      }
+    }
+
+    // If no ports from existing connection, create temporary connection
+    if (tg400Ports.length === 0) {
+      const TG400TcpApi = require('./tg400-tcp-api.cjs');
+      const tempApi = new TG400TcpApi(
+        config.gateway_ip,
+        parseInt(config.api_port) || 5038,
+        config.api_username,
+        config.api_password,
+        logger
+      );
+
+      try {
+        await tempApi.connect();
+        tg400Ports = await tempApi.getAllPortsInfo();
+        tempApi.disconnect();
+      } catch (error) {
+        logger.error(`Failed to get ports from temp connection: ${error.message}`);
+        tg400Ports = [];
+      }
+    }
+
+    // Get database configurations for ports
+    const dbConfigs = db.prepare(`
+      SELECT port_number, label, carrier, phone_number, signal_strength, status
+      FROM sim_port_config
+    `).all();
+
+    // Merge TG400 data with database configs
+    const mergedPorts = tg400Ports.map(tg400Port => {
+      // TG400 API already returns port numbers as 1-4 (internal format)
+      // No conversion needed
+      const portNumber = tg400Port.portNumber;
+      
+      // Find matching config using port number
+      const dbConfig = dbConfigs.find(cfg => cfg.port_number === portNumber);
+      
+      logger.debug(`[/api/tg400-ports] Port ${portNumber}: DB match=${dbConfig ? 'yes' : 'no'}, label="${dbConfig?.label || 'none'}"`);
+      
+      return {
+        ...tg400Port,
+        portNumber: portNumber,  // Already internal port number (1-4)
+        label: dbConfig?.label || null,
+        carrier: dbConfig?.carrier || null,
+        phone_number: dbConfig?.phone_number || null,
+        signal_strength: dbConfig?.signal_strength || tg400Port.signal_strength || 0,
+        status: dbConfig?.status || tg400Port.status || 'unknown'
+      };
+    });
+
+    res.json({
+      success: true,
+      data: mergedPorts,
+      source: 'merged',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error(`Failed to get TG400 ports: ${error.message}`);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// ========================================
+// SIM Port Configuration Endpoints
+// ========================================
+
+// Test endpoint to verify routing works
+app.get('/api/sim-port-test', (req, res) => {
+  logger.info('[TEST] SIM port test endpoint reached');
+  res.json({ success: true, message: 'Routing is working' });
+});
+
+// Cache status endpoint for monitoring
+app.get('/api/cache-stats', (req, res) => {
+  res.json({
+    success: true,
+    cacheSize: responseCache.size,
+    cacheEntries: Array.from(responseCache.keys()),
+    uptime: Date.now() / 1000
+  });
+});
+
+// Get all SIM port configurations
+app.get('/api/sim-ports', (req, res) => {
+  try {
+    // Get configuration from database
+    const ports = db.prepare(`
+      SELECT id, port_number, label, phone_number, signal_strength, 
+             carrier, status, last_seen_at, created_at, updated_at
+      FROM sim_port_config
+      ORDER BY port_number ASC
+    `).all();
+
+    logger.debug(`[/api/sim-ports] Raw ports from DB:`, ports.map(p => ({ port_number: p.port_number, label: p.label })));
+
+    // Database already stores port numbers as 1-4 (internal format)
+    // No normalization needed
+    const normalizedPorts = ports.map(port => ({
+      ...port
+      // port_number is already 1-4, no conversion needed
+    }));
+
+    logger.debug(`[/api/sim-ports] Ports:`, normalizedPorts.map(p => ({ port_number: p.port_number, label: p.label })));
+
+    res.json({
+      success: true,
+      data: normalizedPorts
+    });
+  } catch (error) {
+    logger.error(`Failed to get SIM ports: ${error.message}`);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Get specific SIM port configuration
+app.get('/api/sim-port/:port', (req, res) => {
+  try {
+    const { port } = req.params;
+    const internalPort = parseInt(port);
+    
+    logger.debug(`[/api/sim-port/:port] Looking for port ${internalPort}`);
+    
+    // Database stores port numbers as 1-4 (internal format)
+    let portData = db.prepare(`
+      SELECT id, port_number, label, phone_number, signal_strength,
+             carrier, status, last_seen_at, created_at, updated_at
+      FROM sim_port_config
+      WHERE port_number = ?
+      LIMIT 1
+    `).get(internalPort);
+
+    if (!portData) {
+      logger.debug(`[/api/sim-port/:port] Port not found for ${internalPort}`);
+      return res.status(404).json({
+        success: false,
+        error: 'Port not found'
+      });
+    }
+
+    logger.debug(`[/api/sim-port/:port] Found port with port_number=${portData.port_number}, label=${portData.label}`);
+
+    // Database stores internal port numbers, return as-is
+    const normalizedPort = {
+      ...portData
+    };
+
+    res.json({
+      success: true,
+      data: normalizedPort
+    });
+  } catch (error) {
+    logger.error(`Failed to get SIM port: ${error.message}`);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+// Update SIM port label
+app.put('/api/sim-port/:port/label', requirePermission('config.gateway.write'), (req, res) => {
+  try {
+    const { port } = req.params;
+    const portNumber = parseInt(port);  // Port number (1-4) sent by config page
+    const { label } = req.body;
+
+    logger.info(`[/api/sim-port/:port/label] Saving label for port ${portNumber}: "${label}"`);
+
+    if (!label || typeof label !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Label must be a non-empty string'
+      });
+    }
+
+    // Check if record exists for this port
+    let existing = db.prepare(`
+      SELECT id, port_number FROM sim_port_config WHERE port_number = ?
+    `).get(portNumber);
+
+    logger.debug(`[/api/sim-port/:port/label] Existing record:`, existing);
+
+    if (!existing) {
+      // Create new port config
+      logger.info(`[/api/sim-port/:port/label] Creating new port config for port ${portNumber}`);
+      db.prepare(`
+        INSERT INTO sim_port_config (port_number, label)
+        VALUES (?, ?)
+      `).run(portNumber, label);
+    } else {
+      // Update existing port config
+      logger.info(`[/api/sim-port/:port/label] Updating port config for port ${portNumber}`);
+      db.prepare(`
+        UPDATE sim_port_config
+        SET label = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE port_number = ?
+      `).run(label, portNumber);
+    }
+
+    logger.info(`[/api/sim-port/:port/label] Port ${portNumber} label saved: "${label}"`);
+
+    res.json({
+      success: true,
+      message: `Port ${portNumber} label updated successfully`,
+      data: {
+        port_number: portNumber,
+        label: label
+      }
+    });
+  } catch (error) {
+    logger.error(`Failed to update SIM port label: ${error.message}`);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+
+
+// ========================================
+// Authentication Endpoints
+// ========================================
+
+app.post('/api/auth/login', (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email and password are required'
+      });
+    }
+
+    const result = db.authenticateUser(email, password);
+    
+    if (result.success) {
+      // Get client IP address
+      const clientIP = getClientIp(req);
+      
+      // Log login activity with IP
+      db.logActivity('user_login', `User ${email} logged in from IP: ${clientIP}`, 'success', null, JSON.stringify({
+        email,
+        ip: clientIP,
+        timestamp: new Date().toISOString()
+      }));
+      
+      const session = db.createAuthSession({
+        userId: result.user.id,
+        userAgent: req.headers['user-agent'] || null,
+        ipAddress: clientIP,
+        expiresAt: new Date(Date.now() + AUTH_SESSION_TTL_MS).toISOString()
+      });
+      if (!session) throw new Error('Failed to create session');
+
+      const { token, expiresAt } = issueAuthToken(session);
+      
+      res.json({
+        success: true,
+        message: 'Login successful',
+        token,
+        expiresAt,
+        user: result.user
+      });
+    } else {
+      // Log failed login attempt
+      const clientIP = getClientIp(req);
+      
+      db.logActivity('user_login_failed', `Failed login attempt for ${email} from IP: ${clientIP}`, 'error', null, JSON.stringify({
+        email,
+        ip: clientIP,
+        timestamp: new Date().toISOString()
+      }));
+      
+      res.status(401).json({
+        success: false,
+        error: result.error
+      });
+    }
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/auth/register', (req, res) => {
+  try {
+    const { email, password, name } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email and password are required'
+      });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({
+        success: false,
+        error: 'Password must be at least 6 characters'
+      });
+    }
+
+    const existingUser = db.getUserByEmail(email);
+    if (existingUser) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email already registered'
+      });
+    }
+
+    const success = db.createUser(email, password, 'operator', name);
+    
+    if (success) {
+      res.json({
+        success: true,
+        message: 'User registered successfully'
+      });
+    } else {
+      throw new Error('Failed to create user');
+    }
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  try {
+    // Revoke the session behind the token; an already-invalid token still logs out client-side
+    const token = req.headers.authorization?.split(' ')[1];
+    const verified = token ? verifyAuthToken(token, { allowExpired: true }) : null;
+    if (verified && verified.session) {
+      db.revokeAuthSession(verified.session.id);
+      db.logActivity('user_logout', `User ${verified.session.user_id} logged out`, 'info');
+    }
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Exchange a valid (or recently lapsed) token for a fresh one on the same session
+app.post('/api/auth/refresh', (req, res) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) return res.status(401).json({ success: false, error: 'Unauthorized' });
+
+    const verified = verifyAuthToken(token, { allowExpired: true });
+    if (verified.error) return res.status(verified.status).json({ success: false, error: verified.error });
+
+    const user = db.db.prepare('SELECT is_active FROM users WHERE id = ?').get(verified.session.user_id);
+    if (!user || !user.is_active) {
+      db.revokeAuthSession(verified.session.id);
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    db.touchAuthSession(verified.session.id, new Date(Date.now() + AUTH_SESSION_TTL_MS).toISOString());
+    const refreshed = issueAuthToken(verified.session);
+
+    res.json({ success: true, token: refreshed.token, expiresAt: refreshed.expiresAt });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// List the caller's live sessions
+app.get('/api/auth/sessions', requireAuth, (req, res) => {
+  try {
+    const sessions = db.getUserSessions(req.currentUserId).map(session => ({
+      ...session,
+      current: session.id === req.currentSessionId
+    }));
+    res.json({ success: true, data: sessions });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Sign out every session except the one making the request
+app.post('/api/auth/sessions/revoke-others', requireAuth, (req, res) => {
+  try {
+    const revoked = db.revokeUserSessions(req.currentUserId, req.currentSessionId);
+    db.logActivity('user_sessions_revoked', `User ${req.currentUserId} signed out ${revoked} other session(s)`, 'info');
+    res.json({ success: true, revoked });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Sign out one of the caller's own sessions
+app.delete('/api/auth/sessions/:id', requireAuth, (req, res) => {
+  try {
+    const revoked = db.revokeAuthSession(req.params.id, req.currentUserId);
+    if (!revoked) return res.status(404).json({ success: false, error: 'Session not found' });
+    db.logActivity('user_session_revoked', `User ${req.currentUserId} signed out session ${req.params.id}`, 'info');
+    res.json({ success: true, current: req.params.id === req.currentSessionId });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Drop expired and revoked sessions once a day
+setInterval(() => {
+  const purged = db.purgeExpiredAuthSessions();
+  if (purged > 0) logger.debug(`[AUTH] Purged ${purged} expired sessions`);
+}, 24 * 60 * 60 * 1000);
+
+// ========================================
+// Change own password (authenticated user)
+app.put('/api/users/change-password', requireAuth, (req, res) => {
+  try {
+    const userId = req.currentUserId;
+
+    const { newPassword } = req.body;
+    if (!newPassword || newPassword.length < 6) {
+      return res.status(400).json({ success: false, error: 'Password must be at least 6 characters' });
+    }
+
+    const newPasswordHash = crypto.createHash('sha256').update(newPassword).digest('hex');
+    db.db.prepare('UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(newPasswordHash, userId);
+    // A password change signs out every other device
+    db.revokeUserSessions(userId, req.currentSessionId);
+    res.json({ success: true, message: 'Password updated successfully' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Change own PIN (authenticated user)
+app.put('/api/users/change-pin', requireAuth, (req, res) => {
+  try {
+    const userId = req.currentUserId;
+
+    const { pin } = req.body;
+    if (!pin || String(pin).length < 4) {
+      return res.status(400).json({ success: false, error: 'PIN must be at least 4 digits' });
+    }
+
+    const user = db.db.prepare('SELECT id FROM users WHERE id = ?').get(userId);
+    if (!user) return res.status(404).json({ success: false, error: 'No user profile found. Contact your admin.' });
+
+    db.db.prepare('UPDATE users SET pin = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(String(pin), userId);
+    res.json({ success: true, message: 'Clock-in PIN updated' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Update user (users.manage)
+app.put('/api/users/:id', requirePermission('users.manage'), (req, res) => {
+  try {
+    const { id } = req.params;
+    const { email, password, name, role, is_active } = req.body;
+
+    // Get user to ensure it exists
+    const stmt = db.db.prepare('SELECT * FROM users WHERE id = ?');
+    const user = stmt.get(id);
+    
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    // Update user
+    const updateStmt = db.db.prepare(`
+      UPDATE users SET 
+        email = ?,
+        name = ?,
+        role = ?,
+        is_active = ?
+      WHERE id = ?
+    `);
+    
+    updateStmt.run(
+      email || user.email,
+      name || user.name,
+      role || user.role,
+      is_active !== undefined ? is_active : user.is_active,
+      id
+    );
+
+    // Deactivated users lose their sessions immediately
+    if (is_active !== undefined && !is_active) {
+      db.revokeUserSessions(id);
+    }
+
+    // If password provided, update it
+    if (password) {
+      const crypto = require('crypto');
+      const hashedPassword = crypto.createHash('sha256').update(password).digest('hex');
+      const pwdStmt = db.db.prepare('UPDATE users SET password = ? WHERE id = ?');
+      pwdStmt.run(hashedPassword, id);
+    }
+
+    const updatedUser = db.db.prepare('SELECT id, email, name, role, is_active, created_at FROM users WHERE id = ?').get(id);
+    
+    res.json({
+      success: true,
+      message: 'User updated successfully',
+      data: updatedUser
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Delete user (roles.manage)
+app.delete('/api/users/:id', requirePermission('roles.manage'), (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const userToDelete = db.db.prepare('SELECT role, id FROM users WHERE id = ?').get(id);
+    if (!userToDelete) return res.status(404).json({ success: false, error: 'User not found' });
+
+    // Prevent deleting a super_admin
+    if (userToDelete.role === 'super_admin') {
+      return res.status(400).json({ success: false, error: 'Cannot delete a super admin account' });
+    }
+
+    // Prevent deleting the last remaining admin
+    const { count } = db.db.prepare(
+      "SELECT COUNT(*) as count FROM users u LEFT JOIN user_roles ur ON u.id = ur.user_id WHERE COALESCE(ur.role, u.role) IN ('admin','super_admin')"
+    ).get();
+    const effectiveRole = db.db.prepare(
+      "SELECT COALESCE(ur.role, u.role) as role FROM users u LEFT JOIN user_roles ur ON u.id = ur.user_id WHERE u.id = ?"
+    ).get(id);
+    if (effectiveRole && effectiveRole.role === 'admin' && count <= 1) {
+      return res.status(400).json({ success: false, error: 'Cannot delete the only admin user' });
+    }
+
+    db.db.prepare('DELETE FROM user_roles WHERE user_id = ?').run(id);
+    db.db.prepare('DELETE FROM auth_sessions WHERE user_id = ?').run(id);
+    const result = db.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+
+    if (result.changes === 0) return res.status(404).json({ success: false, error: 'User not found' });
+
+    res.json({ success: true, message: 'User deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get user port permissions (users.view, or the user themself)
+app.get('/api/users/:id/port-permissions', requireAuth, (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!hasPermission(req, 'users.view') && req.currentUserId !== id) {
+      return res.status(403).json({ success: false, error: 'Forbidden' });
+    }
+    const ports = db.getUserPortPermissions(id);
+    res.json({ success: true, data: ports });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Set user port permissions (users.manage)
+app.post('/api/users/:id/port-permissions', requirePermission('users.manage'), (req, res) => {
+  try {
+    const { id } = req.params;
+    const { ports } = req.body; // Array of port numbers [1,2,3,4] or empty for all
+    
+    if (!Array.isArray(ports)) {
+      return res.status(400).json({ success: false, error: 'Ports must be an array' });
+    }
+
+    // Validate port numbers
+    const validPorts = ports.filter(p => p >= 1 && p <= 4);
+    
+    const success = db.setUserPortPermissions(id, validPorts);
+    if (!success) throw new Error('Failed to set port permissions');
+
+    res.json({ success: true, message: 'Port permissions updated', data: validPorts });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get user extension permissions (users.view, or the user themself)
+app.get('/api/users/:id/extension-permissions', requireAuth, (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!hasPermission(req, 'users.view') && req.currentUserId !== id) {
+      return res.status(403).json({ success: false, error: 'Forbidden' });
+    }
+    const extensions = db.getUserExtensionPermissions(id);
+    res.json({ success: true, data: extensions });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Set user extension permissions (users.manage)
+app.post('/api/users/:id/extension-permissions', requirePermission('users.manage'), (req, res) => {
+  try {
+    const { id } = req.params;
+    const { extensions } = req.body; // Array of extension strings or empty for all
+    
+    if (!Array.isArray(extensions)) {
+      return res.status(400).json({ success: false, error: 'Extensions must be an array' });
+    }
+
+    const success = db.setUserExtensionPermissions(id, extensions);
+    if (!success) throw new Error('Failed to set extension permissions');
+
+    res.json({ success: true, message: 'Extension permissions updated', data: extensions });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get own profile
+app.get('/api/users/profile/me', requireAuth, (req, res) => {
+  try {
+    const userId = req.currentUserId;
+
+    const user = db.db.prepare('SELECT id, email, name, role, is_active, created_at FROM users WHERE id = ? AND is_active = 1').get(userId);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    res.json({ 
+      success: true, 
+      data: {
+        id: user.id,
+        email: user.email,
+        name: user.name || user.email.split('@')[0],
+        role: user.role,
+        isActive: user.is_active === 1
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Update own profile
+app.put('/api/users/profile/me', requireAuth, (req, res) => {
+  try {
+    const userId = req.currentUserId;
+
+    const { email, password, name, oldPassword } = req.body;
+    
+    // Get current user
+    const currentUser = db.db.prepare('SELECT * FROM users WHERE id = ?').get(userId);
+    if (!currentUser) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    
+    // If changing password, verify old password
+    if (password) {
+      if (!oldPassword) {
+        return res.status(400).json({ success: false, error: 'Old password is required to change password' });
+      }
+      
+      const oldPasswordHash = crypto.createHash('sha256').update(oldPassword).digest('hex');
+      
+      if (oldPasswordHash !== currentUser.password_hash) {
+        return res.status(401).json({ success: false, error: 'Old password is incorrect' });
+      }
+    }
+    
+    // Update fields
+    let updateQuery = 'UPDATE users SET updated_at = CURRENT_TIMESTAMP';
+    const updateParams = [];
+    
+    if (email && email !== currentUser.email) {
+      // Check email uniqueness
+      const existingUser = db.db.prepare('SELECT id FROM users WHERE email = ? AND id != ?').get(email, userId);
+      if (existingUser) {
+        return res.status(400).json({ success: false, error: 'Email already in use' });
+      }
+      updateQuery += ', email = ?';
+      updateParams.push(email);
+    }
+    
+    if (name) {
+      updateQuery += ', name = ?';
+      updateParams.push(name);
+    }
+    
+    if (password) {
+      const newPasswordHash = crypto.createHash('sha256').update(password).digest('hex');
+      updateQuery += ', password_hash = ?';
+      updateParams.push(newPasswordHash);
+    }
+    
+    updateQuery += ' WHERE id = ?';
+    updateParams.push(userId);
+    
+    const stmt = db.db.prepare(updateQuery);
+    stmt.run(...updateParams);
+    
+    // Get updated user (without password)
+    const updatedUser = db.db.prepare('SELECT id, email, name, role, is_active, created_at FROM users WHERE id = ?').get(userId);
+    
+    res.json({
+      success: true,
+      message: 'Profile updated successfully',
+      data: updatedUser
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// Gateway Configuration Endpoints
+// ========================================
+
+app.get('/api/gateway-config', requirePermission('config.view'), (req, res) => {
+  try {
+    const config = db.getGatewayConfig();
+    res.json({ success: true, data: config });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/gateway-config', requirePermission('config.gateway.write'), (req, res) => {
+  logger.debug('[API] POST /api/gateway-config received');
+  logger.debug('[API] Request body: %s', JSON.stringify(req.body, null, 2));
+  
+  try {
+    const { gateway_ip, api_username, api_password, api_port } = req.body;
+
+    if (!gateway_ip || !api_username || !api_password) {
+      logger.warn('[API] Validation failed - missing required fields');
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: gateway_ip, api_username, api_password'
+      });
+    }
+    logger.debug('[API] Validation passed, calling db.saveGatewayConfig()');
+    const success = db.saveGatewayConfig({
+      gateway_ip,
+      api_username,
+      api_password,
+      api_port: api_port || 5038
+    });
+
+    if (success) {
+      logger.info('[API] Gateway config saved successfully');
+      db.logActivity('gateway_config_updated', `Gateway config saved: ${gateway_ip}`, 'success');
+      
+      // Re-trigger SMS listener with new config
+      startSmsListener();
+      
+      res.json({
+        success: true,
+        message: 'Gateway configuration saved',
+        data: db.getGatewayConfig()
+      });
+    } else {
+      throw new Error('Failed to save gateway configuration');
+    }
+    } catch (error) {
+    logger.error('[API] Error: %s', error.message);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// System Settings Endpoints
+// ========================================
+
+app.get('/api/system-settings/sms-enabled', (req, res) => {
+  try {
+    const isEnabled = db.isSmsEnabled();
+    res.json({ 
+      success: true, 
+      sms_enabled: isEnabled
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/system-settings/sms-enabled', (req, res) => {
+  try {
+    const { enabled } = req.body;
+    
+    if (enabled === undefined) {
+      return res.status(400).json({ success: false, error: 'enabled parameter required' });
+    }
+
+    const success = db.setSystemSetting('sms_enabled', enabled ? 'true' : 'false');
+    
+    if (success) {
+      logger.info(`SMS sending ${enabled ? 'ENABLED' : 'DISABLED'} by admin`);
+      db.logActivity('sms_setting_changed', `SMS sending ${enabled ? 'ENABLED' : 'DISABLED'}`, 'success');
+      
+      res.json({
+        success: true,
+        message: `SMS sending ${enabled ? 'enabled' : 'disabled'}`,
+        sms_enabled: enabled
+      });
+    } else {
+      throw new Error('Failed to update SMS setting');
+    }
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Phone number normalisation: numbers are stored in E.164; local numbers
+// (0712…, 712…) get the default country code
+function getPhoneNormalizationSettings() {
+  return {
+    default_country_code: db.getDefaultCountryCode(),
+    relinked_at: db.getSystemSetting('phone_numbers_relinked_at'),
+  };
+}
+
+app.get('/api/system-settings/phone-normalization', requireAuth, (req, res) => {
+  res.json({ success: true, data: getPhoneNormalizationSettings() });
+});
+
+// Changing the country re-normalises stored numbers from their raw originals
+app.put('/api/system-settings/phone-normalization', requirePermission('config.system.write'), (req, res) => {
+  try {
+    const code = String(req.body.default_country_code ?? '').replace(/^\+/, '').trim();
+    if (!isValidCountryCode(code)) {
+      return res.status(400).json({ success: false, error: 'default_country_code must be 1-3 digits, e.g. 254' });
+    }
+
+    let relinked = null;
+    if (code !== db.getDefaultCountryCode()) {
+      if (!db.setDefaultCountryCode(code)) throw new Error('Failed to save default country code');
+      relinked = db.relinkPhoneNumbers();
+      db.logActivity('phone_country_changed', `Default phone country code set to +${code}`, 'info');
+      broadcastEvent('contacts.relinked', relinked || {});
+    }
+    res.json({ success: true, data: { ...getPhoneNormalizationSettings(), relinked } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/system-settings/phone-normalization/relink', requirePermission('config.system.write'), (req, res) => {
+  try {
+    const relinked = db.relinkPhoneNumbers();
+    if (!relinked) throw new Error('Failed to normalise stored phone numbers');
+    broadcastEvent('contacts.relinked', relinked);
+    res.json({ success: true, data: { ...getPhoneNormalizationSettings(), relinked } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// PBX Configuration Endpoints
+// ========================================
+
+app.get('/api/pbx-config', requirePermission('config.view'), (req, res) => {
+  try {
+    const config = db.getPbxConfig();
+    res.json({ success: true, data: config });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// PBX connection status
+app.get('/api/pbx-status', requirePermission('system.status.view'), async (req, res) => {
+  try {
+    const config = db.getPbxConfig();
+    const isConfigured = !!(config && config.pbx_ip && config.api_username);
+
+    if (!isConfigured) {
+      return res.json({
+        configured: false,
+        connected: false,
+        status: 'Not Configured',
+        error: null,
+        pbx_ip: config?.pbx_ip || null,
+        pbx_port: config?.pbx_port || null,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const testResult = await pbxAPI.testConnection();
+
+    res.json({
+      configured: true,
+      connected: !!testResult.success,
+      status: testResult.status || (testResult.success ? 'Connected' : 'Failed'),
+      error: testResult.success ? null : (testResult.error || 'Connection failed'),
+      pbx_ip: config?.pbx_ip || null,
+      pbx_port: config?.pbx_port || null,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/pbx-config', requirePermission('config.gateway.write'), (req, res) => {
+  try {
+    const { pbx_ip, pbx_port, api_username, api_password, web_port } = req.body;
+
+    const success = db.savePbxConfig({
+      pbx_ip,
+      pbx_port: pbx_port || 5060,
+      api_username,
+      api_password,
+      web_port: web_port || 8333
+    });
+
+    if (success) {
+      // Clear any existing token when config changes
+      pbxAPI.token = null;
+      if (pbxAPI.tokenTimeout) {
+        clearTimeout(pbxAPI.tokenTimeout);
+        pbxAPI.tokenTimeout = null;
+      }
+      
+      res.json({
+        success: true,
+        message: 'PBX configuration saved',
+        data: db.getPbxConfig()
+      });
+    } else {
+      throw new Error('Failed to save PBX configuration');
+    }
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Test PBX connection and authentication
+app.get('/api/pbx-test', async (req, res) => {
+  try {
+    logger.info('🧪 Testing PBX connection...');
+    const result = await pbxAPI.testConnection();
+    res.json(result);
+  } catch (error) {
+    logger.error(`PBX Test Error: ${error.message}`);
+    res.status(500).json({ 
+      success: false, 
+      error: error.message,
+      status: 'Error' 
+    });
+  }
+});
+
+// Test TG400 Gateway Connection (REAL TEST - Actually connects to the device)
+app.get('/api/gateway-test', async (req, res) => {
+  try {
+    logger.info('🧪 Testing TG400 Gateway connection...');
+    const gatewayConfig = db.getGatewayConfig();
+    
+    if (!gatewayConfig) {
+      return res.status(400).json({
+        success: false,
+        error: 'Gateway not configured',
+        status: 'Error'
+      });
+    }
+
+    const gateway_ip = gatewayConfig.gateway_ip || '192.168.5.3';
+    const api_port = gatewayConfig.api_port || 5038;
+    const username = gatewayConfig.api_username || 'admin';
+    const password = gatewayConfig.api_password || '';
+
+    logger.info(` Attempting TCP connection to TG400 at ${gateway_ip}:${api_port} (user: ${username})...`);
+
+    // Create TCP connection to test
+    const net = require('net');
+    const socket = net.createConnection(parseInt(api_port), gateway_ip);
+    let authCompleted = false;
+    let errorOccurred = false;
+    const connectionTimeout = 10000; // 10 second timeout
+
+    const timeoutHandle = setTimeout(() => {
+      if (!authCompleted && !errorOccurred) {
+        errorOccurred = true;
+        socket.destroy();
+        logger.error(` Gateway connection timeout after ${connectionTimeout}ms`);
+        res.status(500).json({
+          success: false,
+          error: `Connection timeout to ${gateway_ip}:${api_port}`,
+          status: 'Timeout'
+        });
+      }
+    }, connectionTimeout);
+
+    socket.on('connect', () => {
+      logger.info(` TCP socket connected to ${gateway_ip}:${api_port}`);
+      // Send login command with credentials
+      const loginCmd = `Action: Login\r\nUsername: ${username}\r\nSecret: ${password}\r\n\r\n`;
+      socket.write(loginCmd);
+    });
+
+    socket.on('data', (data) => {
+      const response = data.toString();
+      logger.info(` Received from TG400: ${response.substring(0, 100)}`);
+      
+      if (response.includes('Response: Success') || response.includes('Welcome')) {
+        authCompleted = true;
+        clearTimeout(timeoutHandle);
+        socket.destroy();
+        logger.info(` Authentication successful with TG400`);
+        res.json({
+          success: true,
+          error: null,
+          status: 'Connected',
+          message: `Successfully connected and authenticated with TG400 at ${gateway_ip}:${api_port}`
+        });
+      } else if (response.includes('Response: Error') || response.includes('Invalid')) {
+        authCompleted = true;
+        clearTimeout(timeoutHandle);
+        socket.destroy();
+        logger.error(` Authentication failed with TG400`);
+        res.status(500).json({
+          success: false,
+          error: 'Authentication failed - check credentials',
+          status: 'Auth Error'
+        });
+      }
+    });
+
+    socket.on('error', (error) => {
+      if (!errorOccurred) {
+        errorOccurred = true;
+        clearTimeout(timeoutHandle);
+        logger.error(` Socket connection error: ${error.message}`);
+        res.status(500).json({
+          success: false,
+          error: error.message,
+          status: 'Connection Error'
+        });
+      }
+    });
+
+    socket.on('close', () => {
+      if (!authCompleted && !errorOccurred) {
+        logger.warn(`Socket closed before authentication completed`);
+      }
+    });
+  } catch (error) {
+    logger.error(`Gateway Test Error: ${error.message}`);
+    res.status(500).json({ 
+      success: false, 
+      error: error.message,
+      status: 'Error' 
+    });
+  }
+});
+
+// Test SMS Gateway URL connectivity
+app.post('/api/test-sms-gateway', async (req, res) => {
+  try {
+    const { url } = req.body;
+    if (!url) {
+      return res.status(400).json({ success: false, error: 'URL is required' });
+    }
+
+    logger.info(`🧪 Testing SMS gateway URL: ${url}`);
+
+    // Test the URL with a simple fetch with timeout
+    const timeoutPromise = new Promise((_, reject) =>
+      setTimeout(() => reject(new Error('Connection timeout')), 5000)
+    );
+
+    const fetchPromise = fetch(url, {
+      method: 'HEAD',
+      timeout: 5000,
+    }).catch(() => {
+      // If HEAD fails, try GET
+      return fetch(url, {
+        method: 'GET',
+        timeout: 5000,
+      });
+    });
+
+    const response = await Promise.race([fetchPromise, timeoutPromise]);
+
+    if (response?.ok) {
+      logger.info(`✅ SMS gateway URL test successful: ${url}`);
+      res.json({ success: true, message: 'Connection successful' });
+    } else {
+      logger.warn(`⚠️  SMS gateway URL returned status ${response?.status}: ${url}`);
+      res.status(500).json({ success: false, message: `HTTP ${response?.status}` });
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`❌ SMS gateway URL test failed: ${errorMsg}`);
+    res.status(500).json({ success: false, message: errorMsg });
+  }
+});
+
+// Query active calls
+app.get('/api/pbx-calls', async (req, res) => {
+  try {
+    logger.info(' Querying active calls...');
+    const calls = await pbxAPI.queryCalls();
+    res.json({ success: true, data: calls });
+  } catch (error) {
+    logger.error(`Query Calls Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Query Call Detail Records (CDR)
+app.get('/api/pbx-cdr', async (req, res) => {
+  try {
+    const { startTime, endTime, limit } = req.query;
+    logger.info(` Querying CDR from PBX...`);
+    const cdr = await pbxAPI.queryCDR(startTime, endTime, parseInt(limit) || 100);
+    res.json({ success: true, data: cdr });
+  } catch (error) {
+    logger.error(`Query CDR Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Discover available API endpoints
+app.get('/api/pbx-endpoints', async (req, res) => {
+  try {
+    logger.info('🔍 Discovering PBX API endpoints...');
+    const endpoints = await pbxAPI.discoverEndpoints();
+    res.json({ success: true, data: endpoints });
+  } catch (error) {
+    logger.error(`Discover Endpoints Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get real PBX system information
+app.get('/api/pbx-system-info', async (req, res) => {
+  try {
+    logger.info('Getting PBX system information...');
+    const info = await pbxAPI.getSystemInfo();
+    res.json({ success: true, data: info });
+  } catch (error) {
+    logger.error(`Get System Info Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get real extensions list
+app.get('/api/pbx-extensions', async (req, res) => {
+  try {
+    logger.info('📞 Getting PBX extensions...');
+    const extensions = await pbxAPI.getExtensions();
+    res.json({ success: true, data: extensions });
+  } catch (error) {
+    logger.error(`Get Extensions Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Sync extensions from PBX to database
+app.post('/api/pbx-sync-extensions', async (req, res) => {
+  try {
+    logger.info(' Syncing extensions from PBX to database...');
+    const response = await pbxAPI.getExtensions();
+    
+    if (!response || !response.extinfos) {
+      return res.status(500).json({ 
+        success: false, 
+        error: 'No extensions data received from PBX',
+        data: response
+      });
+    }
+
+    const extensions = response.extinfos;
+    
+    if (!extensions.length) {
+      return res.status(500).json({ 
+        success: false, 
+        error: 'Extensions array is empty' 
+      });
+    }
+
+    // Save each extension to database
+    let savedCount = 0;
+    for (const extension of extensions) {
+      const saved = db.saveExtension(extension);
+      if (saved) savedCount++;
+    }
+
+    logger.info(` Synchronized ${savedCount} extensions to database`);
+    res.json({
+      success: true,
+      message: `Synchronized ${savedCount} extensions from PBX`,
+      total: extensions.length,
+      saved: savedCount
+    });
+  } catch (error) {
+    logger.error(`Extension Sync Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// Call Control APIs (Dial, Hangup, Query)
+// ========================================
+
+// Make a call (dial)
+app.post('/api/pbx-call/dial', requirePermission('calls.dial'), async (req, res) => {
+  try {
+    const { caller, callee, autoanswer = 'no' } = req.body;
+    
+    if (!caller || !callee) {
+      return res.status(400).json({
+        success: false,
+        error: 'caller and callee parameters are required'
+      });
+    }
+
+    logger.info(` Making call: ${caller} -> ${callee}`);
+    const result = await pbxAPI.dialCall(caller, callee, autoanswer);
+    
+    res.json({ success: result.status === 'Success', data: result });
+  } catch (error) {
+    logger.error(`Dial Call Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Hang up a call
+app.post('/api/pbx-call/hangup', async (req, res) => {
+  try {
+    const { extid } = req.body;
+    
+    if (!extid) {
+      return res.status(400).json({
+        success: false,
+        error: 'extid parameter is required'
+      });
+    }
+
+    logger.info(`📞 Hanging up call for extension: ${extid}`);
+    const result = await pbxAPI.hangupCall(extid);
+    
+    res.json({ success: result.status === 'Success', data: result });
+  } catch (error) {
+    logger.error(`Hangup Call Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-          // EVENT-DRIVEN: Send new SMS notification alert if enabled
-          const portLabel = (() => {
-            try {
-              const row = db.db.prepare('SELECT label FROM port_labels WHERE port_number = ? LIMIT 1').get(internalPort);
-              return row?.label || `Port ${internalPort}`;
-            } catch (e) { return `Port ${internalPort}`; }
-          })();
-          await sendNewSmsAlert(sms.sender, portLabel, messageContent);
-          
-          // Invalidate cache on new SMS
-          responseCache.delete('sms-messages:*');
-          responseCache.delete('statistics:all');
-        } else {
-          logger.error(`❌ SAVE FAILED: SMS from ${sms.sender} on GsmSpan ${gsmSpan} (ID: ${sms.id})`);
-          logger.debug(`   Message: ${messageContent.substring(0, 100)}`);
-          db.logActivity('sms_received_failed', `Failed to save SMS from ${sms.sender} on GsmSpan ${gsmSpan} (ID: ${sms.id})`, 'error', gsmSpan);
-          alertErrorImmediately('SMS Save Failed', `SMS from ${sms.sender} on GsmSpan ${gsmSpan} could not be saved to database`);
-        }
-      } catch (err) {
-        logger.error(`\n❌ SMS HANDLER ERROR: ${err && err.message ? err.message : String(err)}`);
-        if (err && err.stack) logger.debug(err.stack);
-        logErrorToFile(err);
-        try { db.logActivity('sms_handler_error', `Handler error: ${err && err.message ? err.message : String(err)}`, 'error'); alertErrorImmediately('SMS Handler Error', err && err.message ? err.message : String(err)); } catch (e) {}
+// Query calls by type or ID
+app.post('/api/pbx-call/query', async (req, res) => {
+  try {
+    const { type, callid } = req.body;
+    
+    logger.info(`📞 Querying calls: type=${type}, callid=${callid}`);
+    const result = await pbxAPI.queryCallsAdvanced(type, callid);
+    
+    res.json({ success: result.status === 'Success', data: result });
+  } catch (error) {
+    logger.error(`Query Calls Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Get call logs - query inbound and outbound calls
+app.post('/api/pbx-call/logs', async (req, res) => {
+  try {
+    logger.info(`📊 Fetching call logs...`);
+    
+    // Query both inbound and outbound calls
+    const inboundResult = await pbxAPI.queryCallsAdvanced('inbound');
+    const outboundResult = await pbxAPI.queryCallsAdvanced('outbound');
+    
+    const inboundCalls = inboundResult.Calls || [];
+    const outboundCalls = outboundResult.Calls || [];
+    
+    // Combine and sort by time
+    const allCalls = [
+      ...inboundCalls.map(c => ({ ...c, type: 'inbound' })),
+      ...outboundCalls.map(c => ({ ...c, type: 'outbound' }))
+    ];
+    
+    logger.info(`Call logs fetched: ${inboundCalls.length} inbound, ${outboundCalls.length} outbound`);
+    
+    res.json({
+      success: true,
+      data: {
+        inbound: {
+          count: inboundCalls.length,
+          calls: inboundCalls
+        },
+        outbound: {
+          count: outboundCalls.length,
+          calls: outboundCalls
+        },
+        total: allCalls.length,
+        allCalls
       }
     });
+  } catch (error) {
+    logger.error(`Call Logs Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    // Event: Connection closed - try reconnect
-    tg400Api.on('disconnected', () => {
-      logger.warn('\n⚠️  SMS listener disconnected. Retrying in 30s...\n');
-      setTimeout(() => startSmsListener(0), 30000);
+// Get ALL call logs stored locally with filtering and pagination
+app.get('/api/call-logs/stored', (req, res) => {
+  try {
+    const { direction, status, extension, limit = 100, offset = 0, sort = 'desc' } = req.query;
+    
+    logger.info(` Getting stored call logs: limit=${limit}, offset=${offset}, filter: direction=${direction}, status=${status}`);
+    
+    // Build WHERE clause for filtering
+    let where = [];
+    let params = [];
+    
+    if (direction && direction !== 'all') {
+      where.push('direction = ?');
+      params.push(direction);
+    }
+    
+    if (status) {
+      where.push('status = ?');
+      params.push(status);
+    }
+    
+    if (extension) {
+      where.push('(extension = ? OR caller_number = ? OR callee_number = ?)');
+      params.push(extension, extension, extension);
+    }
+    
+    const whereClause = where.length > 0 ? 'WHERE ' + where.join(' AND ') : '';
+    const orderBy = sort === 'asc' ? 'ASC' : 'DESC';
+    
+    // Get total count
+    const countQuery = `SELECT COUNT(*) as total FROM call_records ${whereClause}`;
+    const countStmt = db.db.prepare(countQuery);
+    const countResult = countStmt.all(...params);
+    const totalRecords = countResult[0]?.total || 0;
+    
+    // Get paginated records
+    const dataQuery = `
+      SELECT * FROM call_records 
+      ${whereClause}
+      ORDER BY start_time ${orderBy}
+      LIMIT ? OFFSET ?
+    `;
+    
+    const stmt = db.db.prepare(dataQuery);
+    const records = stmt.all(...params, parseInt(limit), parseInt(offset));
+    
+    res.json({
+      success: true,
+      data: {
+        total: totalRecords,
+        count: records.length,
+        limit: parseInt(limit),
+        offset: parseInt(offset),
+        records: records
+      }
     });
+  } catch (error) {
+    logger.error(`Stored Call Logs Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    // Cache invalidation on SMS listener connect
-    responseCache.delete('sms-messages:*');
-    responseCache.delete('statistics:all');
+// Sync and store all call logs from PBX to local database
+app.post('/api/call-logs/sync', async (req, res) => {
+  try {
+    logger.info(` Syncing all call logs from PBX to local storage...`);
     
-    // Connect and authenticate
-    logger.info('⏳ Waiting for authentication...');
-    await tg400Api.connect();
+    // Use CDR endpoint to get historical call records
+    // CDR (Call Detail Records) contains all completed calls, not just active ones
+    const token = await pbxAPI.getToken();
     
-    logger.info('\n✅ SMS listener connected and authenticated.');
-    logger.info('📨 Ready to receive SMS from TG400 gateway\n');
-    db.logActivity('agent_start', 'SMS listener background service started', 'success');
+    // Query CDR for last 30 days
+    const endTime = new Date();
+    const startTime = new Date(endTime.getTime() - 30 * 24 * 60 * 60 * 1000);
     
-    // Poll immediately on connection, then every 60 seconds
-    (async () => {
-      try {
-        const ports = await tg400Api.getAllPortsInfo();
-        logger.debug(`Initial port scan found ${ports.length} ports`);
-        if (ports && Array.isArray(ports)) {
-          ports.forEach(port => {
-            db.updatePortStatus(port.portNumber, {
-              status: port.status,
-              isUp: port.isUp,
-              isPowerOn: port.isPowerOn
-            });
-          });
-        }
-      } catch (err) {
-        console.error('[Poll] Error polling initial port status:', err.message);
+    const startStr = startTime.toISOString().split('T')[0];
+    const endStr = endTime.toISOString().split('T')[0];
+    
+    logger.info(` Querying CDR from ${startStr} to ${endStr}`);
+    
+    // Try CDR endpoint
+    let cdrData = [];
+    try {
+      const cdrResponse = await pbxAPI.makeRequest('POST', `/api/v1.1.0/cdr/get_random?token=${token}`, {
+        starttime: startStr,
+        endtime: endStr
+      });
+      
+      if (cdrResponse.data) {
+        cdrData = cdrResponse.data;
+      } else if (cdrResponse.Calls) {
+        cdrData = cdrResponse.Calls;
+      } else if (Array.isArray(cdrResponse)) {
+        cdrData = cdrResponse;
       }
-    })();
+      
+      logger.info(` CDR query returned ${cdrData.length} call records`);
+    } catch (err) {
+      logger.warn(`CDR query failed: ${err.message}`);
+    }
     
-    // Start polling for port status every 10 minutes (600s) - just to check which ports are being used
-    if (pollingInterval) clearInterval(pollingInterval);
-    pollingInterval = setInterval(async () => {
-      try {
-        const ports = await Promise.race([
-          tg400Api.getAllPortsInfo(),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Port polling timeout - skipping this cycle')), 8000)
-          )
-        ]);
-        if (ports && Array.isArray(ports)) {
-          ports.forEach(port => {
-            try {
-              db.updatePortStatus(port.portNumber, {
-                status: port.status,
-                isUp: port.isUp,
-                isPowerOn: port.isPowerOn
-              });
-            } catch (updateErr) {
-              logger.debug(`[Poll] Skipped port ${port.portNumber} update: ${updateErr.message}`);
-            }
-          });
-        }
-      } catch (err) {
-        logger.debug(`[Poll] Port status polling skipped: ${err.message}`);
+    let savedCount = 0;
+    let skippedCount = 0;
+    
+    // Save CDR records
+    for (const call of cdrData) {
+      const record = {
+        external_id: call.id || call.callid || `cdr_${Date.now()}`,
+        caller_number: call.src || call.caller || call.from,
+        callee_number: call.dst || call.callee || call.to,
+        caller_name: call.src_name || call.caller_name,
+        callee_name: call.dst_name || call.callee_name,
+        direction: call.direction || (call.type === 'in' ? 'inbound' : 'outbound'),
+        status: call.status || 'completed',
+        extension: call.extension || call.ext,
+        start_time: call.starttime || call.start_time,
+        answer_time: call.answer_time,
+        end_time: call.endtime || call.end_time,
+        ring_duration: call.ring_duration || 0,
+        talk_duration: call.duration || call.billsec || 0,
+        total_duration: call.duration || 0,
+        recording_url: call.recording_file || call.recordingfile
+      };
+      
+      if (db.saveCallRecord(record)) {
+        savedCount++;
+      } else {
+        skippedCount++;
+      }
+    }
+    
+    // Also query live inbound/outbound for current calls
+    logger.info(`📞 Also checking for current active calls...`);
+    const inboundResult = await pbxAPI.queryCallsAdvanced('inbound');
+    const outboundResult = await pbxAPI.queryCallsAdvanced('outbound');
+    
+    const inboundCalls = inboundResult.Calls || [];
+    const outboundCalls = outboundResult.Calls || [];
+    
+    logger.info(`Found ${inboundCalls.length} active inbound + ${outboundCalls.length} active outbound calls`);
+    
+    res.json({
+      success: true,
+      data: {
+        cdr_records: cdrData.length,
+        active_inbound: inboundCalls.length,
+        active_outbound: outboundCalls.length,
+        saved: savedCount,
+        skipped: skippedCount,
+        total: cdrData.length
       }
-    }, 600000);
+    });
   } catch (error) {
-    const isUnreachable = error.message.includes('EHOSTUNREACH') || error.message.includes('ECONNREFUSED') || error.message.includes('Authentication timeout');
-    if (isUnreachable) {
-      logger.warn(`⚠️  TG400 unreachable (${error.message}). Retry in ${retryDelay / 1000}s (attempt ${retryCount + 1})`);
-    } else {
-      logger.error(`\n Failed to start SMS listener: ${error.message}`);
-    }
-    setTimeout(() => startSmsListener(retryCount + 1), retryDelay);
+    logger.error(`Sync Call Logs Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
   }
-}
-
-// Health check
-app.get('/api/health', (req, res) => {
-  res.setHeader('Cache-Control', 'no-cache');
-  res.json({
-    status: 'ok',
-    database: 'sqlite',
-    dbPath: dbPath,
-    timestamp: new Date().toISOString(),
-    cacheSize: responseCache.size
-  });
 });
 
-// Gateway connection status
-app.get('/api/gateway-status', (req, res) => {
-  const config = db.getGatewayConfig();
-  const isConnected = tg400Api && tg400Api.isConnected;
-  
-  res.json({
-    configured: !!(config && config.gateway_ip && config.api_username),
-    connected: isConnected,
-    gateway_ip: config?.gateway_ip || null,
-    gateway_port: config?.api_port || null,
-    timestamp: new Date().toISOString()
-  });
+// Get extensions from database
+app.get('/api/extensions', (req, res) => {
+  try {
+    logger.info(' Getting extensions from database...');
+    const extensions = db.getExtensions();
+    const stats = db.getExtensionStats();
+    
+    res.json({
+      success: true,
+      data: {
+        extensions,
+        stats
+      }
+    });
+  } catch (error) {
+    logger.error(`Get Extensions DB Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
 });
 
-// ========================================
-// TG400 Direct API - Get Active SIM Ports
-// ========================================
-
-app.get('/api/tg400-ports', async (req, res) => {
+// Get single extension
+app.get('/api/extensions/:extnumber', (req, res) => {
   try {
-    const config = db.getGatewayConfig();
+    const { extnumber } = req.params;
+    logger.info(`📞 Getting extension ${extnumber} from database...`);
     
-    if (!config || !config.gateway_ip || !config.api_port) {
-      return res.status(400).json({
-        success: false,
-        error: 'TG400 gateway not configured'
+    const extensions = db.getExtensions();
+    const extension = extensions.find(ext => ext.extnumber === extnumber);
+    
+    if (!extension) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Extension not found' 
       });
     }
 
-    let tg400Ports = [];
-
-    // If already connected, use existing connection
-    if (tg400Api && tg400Api.isConnected && tg400Api.isAuthenticated) {
-      try {
-        tg400Ports = await tg400Api.getAllPortsInfo();
-      } catch (error) {
-        logger.error(`Failed to get ports from existing connection: ${error.message}`);
-      }
-    }
+    res.json({
+      success: true,
+      data: extension
+    });
+  } catch (error) {
+    logger.error(`Get Extension Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    // If no ports from existing connection, create temporary connection
-    if (tg400Ports.length === 0) {
-      const TG400TcpApi = require('./tg400-tcp-api.cjs');
-      const tempApi = new TG400TcpApi(
-        config.gateway_ip,
-        parseInt(config.api_port) || 5038,
-        config.api_username,
-        config.api_password,
-        logger
-      );
+// Get call logs for specific extension
+app.get('/api/extensions/:extnumber/call-logs', (req, res) => {
+  try {
+    const { extnumber } = req.params;
+    const page = parseInt(req.query.page) || 1;
+    const pageSize = parseInt(req.query.pageSize) || 50;
+    const offset = (page - 1) * pageSize;
+    
+    // Get total count of calls for this extension
+    const countStmt = db.db.prepare(`
+      SELECT COUNT(*) as total FROM call_records
+      WHERE extension = ? OR caller_number = ? OR callee_number = ?
+    `);
+    const { total } = countStmt.get(extnumber, extnumber, extnumber);
+    
+    // Get paginated call records
+    const stmt = db.db.prepare(`
+      SELECT * FROM call_records
+      WHERE extension = ? OR caller_number = ? OR callee_number = ?
+      ORDER BY start_time DESC
+      LIMIT ? OFFSET ?
+    `);
+    const records = stmt.all(extnumber, extnumber, extnumber, pageSize, offset);
+    
+    res.json({
+      success: true,
+      data: records,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize)
+      },
+      extension: extnumber
+    });
+  } catch (error) {
+    logger.error(`Get Extension Call Logs Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
+// Sync call logs for specific extension from PBX
+app.post('/api/extensions/:extnumber/sync-call-logs', async (req, res) => {
+  try {
+    const { extnumber } = req.params;
+    const days = parseInt(req.query.days) || 7; // Default last 7 days
+    
+    logger.info(`Syncing call logs for extension ${extnumber} (${days} days)...`);
+    
+    // Try to fetch call logs from PBX for this extension
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(endDate.getDate() - days);
+    
+    // Format dates for PBX API (YYYY-MM-DD)
+    const startStr = startDate.toISOString().split('T')[0];
+    const endStr = endDate.toISOString().split('T')[0];
+    
+    const token = await pbxAPI.getToken();
+    const endpoints = [
+      `/api/v2.0.0/cdr/query?token=${token}&starttime=${startStr}&endtime=${endStr}&extension=${extnumber}`,
+      `/api/v1.0.0/cdr/query?access_token=${token}&starttime=${startStr}&endtime=${endStr}&extension=${extnumber}`,
+      `/api/v2.0.0/call/query?token=${token}&extension=${extnumber}`,
+      `/api/v1.0.0/call/query?access_token=${token}&extension=${extnumber}`
+    ];
+    
+    let callData = null;
+    let workingEndpoint = null;
+    
+    for (const endpoint of endpoints) {
       try {
-        await tempApi.connect();
-        tg400Ports = await tempApi.getAllPortsInfo();
-        tempApi.disconnect();
+        const response = await pbxAPI.makeRequest('GET', endpoint);
+        if (response.status === 'Success' && response.cdr) {
+          callData = response.cdr;
+          workingEndpoint = endpoint;
+          break;
+        }
       } catch (error) {
-        logger.error(`Failed to get ports from temp connection: ${error.message}`);
-        tg400Ports = [];
+        continue;
       }
     }
-
-    // Get database configurations for ports
-    const dbConfigs = db.prepare(`
-      SELECT port_number, label, carrier, phone_number, signal_strength, status
-      FROM sim_port_config
-    `).all();
-
-    // Merge TG400 data with database configs
-    const mergedPorts = tg400Ports.map(tg400Port => {
-      // TG400 API already returns port numbers as 1-4 (internal format)
-      // No conversion needed
-      const portNumber = tg400Port.portNumber;
-      
-      // Find matching config using port number
-      const dbConfig = dbConfigs.find(cfg => cfg.port_number === portNumber);
-      
-      logger.debug(`[/api/tg400-ports] Port ${portNumber}: DB match=${dbConfig ? 'yes' : 'no'}, label="${dbConfig?.label || 'none'}"`);
-      
-      return {
-        ...tg400Port,
-        portNumber: portNumber,  // Already internal port number (1-4)
-        label: dbConfig?.label || null,
-        carrier: dbConfig?.carrier || null,
-        phone_number: dbConfig?.phone_number || null,
-        signal_strength: dbConfig?.signal_strength || tg400Port.signal_strength || 0,
-        status: dbConfig?.status || tg400Port.status || 'unknown'
+    
+    if (!callData) {
+      return res.json({
+        success: true,
+        message: `No call logs API available for extension ${extnumber}`,
+        data: [],
+        note: 'This S100 model may not support call log queries'
+      });
+    }
+    
+    // Save call records to database
+    let savedCount = 0;
+    for (const call of callData) {
+      const record = {
+        external_id: call.uniqueid,
+        caller_number: call.src,
+        callee_number: call.dst,
+        extension: extnumber,
+        direction: call.disposition === 'ANSWERED' ? 'inbound' : 'outbound',
+        status: call.disposition,
+        start_time: call.calldate,
+        answer_time: call.answertime,
+        end_time: call.endtime,
+        total_duration: call.billsec,
+        metadata: call
       };
-    });
-
+      
+      if (db.saveCallRecord(record)) {
+        savedCount++;
+      }
+    }
+    
     res.json({
       success: true,
-      data: mergedPorts,
-      source: 'merged',
-      timestamp: new Date().toISOString()
-    });
-  } catch (error) {
-    logger.error(`Failed to get TG400 ports: ${error.message}`);
-    res.status(500).json({
-      success: false,
-      error: error.message
+      message: `Synced ${savedCount} call logs for extension ${extnumber}`,
+      saved: savedCount,
+      total: callData.length,
+      endpoint: workingEndpoint
     });
+  } catch (error) {
+    logger.error(`Extension Call Log Sync Error: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // ========================================
-// SIM Port Configuration Endpoints
+// Click-to-Call Queue
 // ========================================
-
-// Test endpoint to verify routing works
-app.get('/api/sim-port-test', (req, res) => {
-  logger.info('[TEST] SIM port test endpoint reached');
-  res.json({ success: true, message: 'Routing is working' });
-});
-
-// Cache status endpoint for monitoring
-app.get('/api/cache-stats', (req, res) => {
-  res.json({
-    success: true,
-    cacheSize: responseCache.size,
-    cacheEntries: Array.from(responseCache.keys()),
-    uptime: Date.now() / 1000
+// Quick Dial and the missed-calls report queue calls here instead of dialling
+// straight away. Each extension gets one call at a time, highest priority
+// first, and only while the PBX reports it idle.
+
+const CALL_QUEUE_TICK_MS = 5000;
+const CALL_QUEUE_SETTLE_MS = 15000; // Ignore the extension's status this long after dialling
+const CALL_QUEUE_MAX_CALL_MS = 2 * 60 * 60 * 1000;
+const CALL_QUEUE_BUSY_STATUSES = new Set(['busy', 'ringing', 'inuse', 'in use', 'unavailable', 'unregistered']);
+const CALL_QUEUE_NUMBER_PATTERN = /^\+?[0-9*#]{2,20}$/;
+let callQueueTicking = false;
+
+function broadcastCallQueue(item) {
+  if (!item) return;
+  broadcastEvent('call.queue', {
+    id: item.id,
+    from_extension: item.from_extension,
+    to_number: item.to_number,
+    status: item.status,
   });
-});
+}
 
-// Get all SIM port configurations
-app.get('/api/sim-ports', (req, res) => {
-  try {
-    // Get configuration from database
-    const ports = db.prepare(`
-      SELECT id, port_number, label, phone_number, signal_strength, 
-             carrier, status, last_seen_at, created_at, updated_at
-      FROM sim_port_config
-      ORDER BY port_number ASC
-    `).all();
+// Live extension status from the PBX: extnumber -> lower-cased status
+async function getExtensionStatuses() {
+  const result = await pbxAPI.queryExtensions();
+  if (result.status !== 'Success') throw new Error(result.error || 'Failed to query extensions');
 
-    logger.debug(`[/api/sim-ports] Raw ports from DB:`, ports.map(p => ({ port_number: p.port_number, label: p.label })));
+  const statuses = new Map();
+  for (const ext of result.extensions || []) {
+    const number = String(ext.extnumber || ext.number || '');
+    if (number) statuses.set(number, String(ext.status || '').toLowerCase());
+  }
+  return statuses;
+}
 
-    // Database already stores port numbers as 1-4 (internal format)
-    // No normalization needed
-    const normalizedPorts = ports.map(port => ({
-      ...port
-      // port_number is already 1-4, no conversion needed
-    }));
+function isExtensionIdle(statuses, extension) {
+  if (!statuses.has(extension)) return false;
+  return !CALL_QUEUE_BUSY_STATUSES.has(statuses.get(extension));
+}
 
-    logger.debug(`[/api/sim-ports] Ports:`, normalizedPorts.map(p => ({ port_number: p.port_number, label: p.label })));
+async function dispatchQueuedCall(item) {
+  if (!db.claimQueuedCall(item.id)) return;
+  broadcastCallQueue(db.getQueuedCall(item.id));
 
-    res.json({
-      success: true,
-      data: normalizedPorts
-    });
+  logger.info(`📞 Call queue: dialling ${item.to_number} from extension ${item.from_extension}`);
+  let result;
+  try {
+    result = await pbxAPI.dialCall(item.from_extension, item.to_number, 'no');
   } catch (error) {
-    logger.error(`Failed to get SIM ports: ${error.message}`);
-    res.status(500).json({
-      success: false,
-      error: error.message
-    });
+    result = { status: 'Failed', error: error.message };
   }
-});
 
-// Get specific SIM port configuration
-app.get('/api/sim-port/:port', (req, res) => {
-  try {
-    const { port } = req.params;
-    const internalPort = parseInt(port);
-    
-    logger.debug(`[/api/sim-port/:port] Looking for port ${internalPort}`);
-    
-    // Database stores port numbers as 1-4 (internal format)
-    let portData = db.prepare(`
-      SELECT id, port_number, label, phone_number, signal_strength,
-             carrier, status, last_seen_at, created_at, updated_at
-      FROM sim_port_config
-      WHERE port_number = ?
-      LIMIT 1
-    `).get(internalPort);
+  if (result.status === 'Success') {
+    broadcastCallQueue(db.updateQueuedCall(item.id, { status: 'in_progress', call_id: result.callid ? String(result.callid) : null, result: 'dialled' }));
+  } else {
+    const error = result.error || result.errmsg || (result.errno ? `PBX error ${result.errno}` : 'Dial failed');
+    logger.error(`❌ Call queue: dial ${item.from_extension} -> ${item.to_number} failed: ${error}`);
+    db.logActivity('call_queue_failed', `Queued call from ${item.from_extension} to ${item.to_number} failed: ${error}`, 'error', null,
+      JSON.stringify({ call_queue_id: item.id }));
+    broadcastCallQueue(db.updateQueuedCall(item.id, { status: 'failed', error_message: error }));
+  }
+}
 
-    if (!portData) {
-      logger.debug(`[/api/sim-port/:port] Port not found for ${internalPort}`);
-      return res.status(404).json({
-        success: false,
-        error: 'Port not found'
-      });
-    }
+// An in-progress call is over once its extension is idle again
+async function settleQueuedCall(item, statuses) {
+  // picked_up_at is SQLite UTC ("YYYY-MM-DD HH:MM:SS")
+  const elapsed = Date.now() - new Date(item.picked_up_at.replace(' ', 'T') + 'Z').getTime();
+  if (elapsed < CALL_QUEUE_SETTLE_MS) return;
 
-    logger.debug(`[/api/sim-port/:port] Found port with port_number=${portData.port_number}, label=${portData.label}`);
+  if (elapsed > CALL_QUEUE_MAX_CALL_MS) {
+    broadcastCallQueue(db.updateQueuedCall(item.id, { status: 'failed', error_message: 'Lost track of the call' }));
+    return;
+  }
+  if (!isExtensionIdle(statuses, item.from_extension)) return;
+
+  const completed = db.updateQueuedCall(item.id, { status: 'completed', result: 'ended' });
+  db.logActivity('call_queue_completed', `Queued call from ${item.from_extension} to ${item.to_number} finished`, 'success', null,
+    JSON.stringify({ call_queue_id: item.id }));
+  broadcastCallQueue(completed);
+
+  const callRecordId = completed?.metadata?.call_record_id;
+  if (!callRecordId) return;
+
+  // A callback queued from the missed-calls report only closes that missed
+  // call if the PBX logged it as answered. Pull the CDR now rather than wait
+  // for the next sync; without an answer the task stays open with a
+  // no_answer attempt on it.
+  await syncCallRecords();
+  const answered = db.hasAnsweredOutboundCall(item.to_number, item.picked_up_at);
+  if (answered) db.prepare('UPDATE call_records SET is_returned = 1 WHERE id = ?').run(callRecordId);
+  syncCallbacks();
+  if (answered) return;
+
+  const task = db.getCallbackTaskByCallRecord(callRecordId);
+  if (task?.status !== 'open') return;
+  const updated = db.recordCallbackAttempt(task.id, {
+    outcome: 'no_answer',
+    notes: `Queued call from extension ${item.from_extension} was not answered`,
+    recorded_by: item.requested_by || null,
+  });
+  if (updated) broadcastCallbackUpdate(updated);
+}
 
-    // Database stores internal port numbers, return as-is
-    const normalizedPort = {
-      ...portData
-    };
+async function callQueueTick() {
+  if (callQueueTicking) return;
+  const inProgress = db.getInProgressQueuedCalls();
+  const next = db.getNextQueuedCalls();
+  if (inProgress.length === 0 && next.length === 0) return;
 
-    res.json({
-      success: true,
-      data: normalizedPort
-    });
+  const config = db.getPbxConfig();
+  if (!config || !config.pbx_ip || !config.api_username) return;
+
+  callQueueTicking = true;
+  try {
+    const statuses = await getExtensionStatuses();
+    for (const item of inProgress) {
+      await settleQueuedCall(item, statuses);
+    }
+    for (const item of next) {
+      if (isExtensionIdle(statuses, item.from_extension)) {
+        await dispatchQueuedCall(item);
+      }
+    }
   } catch (error) {
-    logger.error(`Failed to get SIM port: ${error.message}`);
-    res.status(500).json({
-      success: false,
-      error: error.message
-    });
+    logger.debug(`Call queue tick failed: ${error.message}`);
+  } finally {
+    callQueueTicking = false;
   }
-});
+}
 
-// Update SIM port label
-app.put('/api/sim-port/:port/label', (req, res) => {
+const interruptedQueuedCalls = db.failInterruptedQueuedCalls();
+if (interruptedQueuedCalls > 0) {
+  logger.warn(`📞 Marked ${interruptedQueuedCalls} queued calls as failed after restart`);
+}
+setInterval(callQueueTick, CALL_QUEUE_TICK_MS);
+
+app.get('/api/call-queue', requireAuth, (req, res) => {
   try {
-    const { port } = req.params;
-    const portNumber = parseInt(port);  // Port number (1-4) sent by config page
-    const { label } = req.body;
+    const { status, extension } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 100, 1), 500);
+    res.json({ success: true, data: db.getCallQueue({ status: status || null, extension: extension || null, limit }) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    logger.info(`[/api/sim-port/:port/label] Saving label for port ${portNumber}: "${label}"`);
+app.post('/api/call-queue', requirePermission('calls.dial'), (req, res) => {
+  try {
+    const { from_extension, to_number, priority = 0, metadata = {} } = req.body;
+    const extension = String(from_extension || '').trim();
+    const number = String(to_number || '').replace(/[\s-]/g, '');
 
-    if (!label || typeof label !== 'string') {
-      return res.status(400).json({
-        success: false,
-        error: 'Label must be a non-empty string'
-      });
+    if (!extension || !number) {
+      return res.status(400).json({ success: false, error: 'from_extension and to_number are required' });
+    }
+    if (!/^\d{2,8}$/.test(extension)) {
+      return res.status(400).json({ success: false, error: `Invalid extension: ${extension}` });
+    }
+    if (!CALL_QUEUE_NUMBER_PATTERN.test(number)) {
+      return res.status(400).json({ success: false, error: `Invalid number: ${to_number}` });
+    }
+    if (db.findOpenQueuedCall(extension, number)) {
+      return res.status(409).json({ success: false, error: `A call to ${number} from extension ${extension} is already queued` });
     }
 
-    // Check if record exists for this port
-    let existing = db.prepare(`
-      SELECT id, port_number FROM sim_port_config WHERE port_number = ?
-    `).get(portNumber);
+    const item = db.enqueueCall({
+      from_extension: extension,
+      to_number: number,
+      priority: Math.min(Math.max(parseInt(priority) || 0, 0), 10),
+      requested_by: req.currentUserId,
+      metadata: metadata && typeof metadata === 'object' ? metadata : {},
+    });
+    if (!item) {
+      return res.status(500).json({ success: false, error: 'Failed to queue call' });
+    }
 
-    logger.debug(`[/api/sim-port/:port/label] Existing record:`, existing);
+    db.logActivity('call_queued', `Call to ${number} queued for extension ${extension} by ${req.currentUserRole}`, 'info', null,
+      JSON.stringify({ call_queue_id: item.id, priority: item.priority }));
+    broadcastCallQueue(item);
+    setImmediate(callQueueTick);
+    res.json({ success: true, data: item });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
+app.post('/api/call-queue/:id/cancel', requirePermission('calls.dial'), (req, res) => {
+  try {
+    const existing = db.getQueuedCall(req.params.id);
     if (!existing) {
-      // Create new port config
-      logger.info(`[/api/sim-port/:port/label] Creating new port config for port ${portNumber}`);
-      db.prepare(`
-        INSERT INTO sim_port_config (port_number, label)
-        VALUES (?, ?)
-      `).run(portNumber, label);
-    } else {
-      // Update existing port config
-      logger.info(`[/api/sim-port/:port/label] Updating port config for port ${portNumber}`);
-      db.prepare(`
-        UPDATE sim_port_config
-        SET label = ?, updated_at = CURRENT_TIMESTAMP
-        WHERE port_number = ?
-      `).run(label, portNumber);
+      return res.status(404).json({ success: false, error: 'Queued call not found' });
     }
-
-    logger.info(`[/api/sim-port/:port/label] Port ${portNumber} label saved: "${label}"`);
-
-    res.json({
-      success: true,
-      message: `Port ${portNumber} label updated successfully`,
-      data: {
-        port_number: portNumber,
-        label: label
-      }
-    });
+    const item = db.cancelQueuedCall(req.params.id);
+    if (!item) {
+      return res.status(400).json({ success: false, error: `Only pending calls can be cancelled (status is ${existing.status})` });
+    }
+    broadcastCallQueue(item);
+    res.json({ success: true, data: item });
   } catch (error) {
-    logger.error(`Failed to update SIM port label: ${error.message}`);
-    res.status(500).json({
-      success: false,
-      error: error.message
-    });
+    res.status(500).json({ success: false, error: error.message });
   }
 });
 
-
-
 // ========================================
-// Authentication Endpoints
+// Call Recordings
 // ========================================
+// Recordings are pulled from the PBX on first play, kept under RECORDINGS_DIR
+// and served from disk with range support. <audio> can't send the bearer
+// token, so playback goes through a short-lived signed stream URL.
+
+const RECORDINGS_DIR = path.resolve(process.env.RECORDINGS_DIR || path.join(__dirname, 'recordings'));
+const RECORDING_URL_TTL_MS = 15 * 60 * 1000;
+const RECORDING_PRUNE_MS = 60 * 60 * 1000;
+const RECORDING_DEFAULT_RETENTION_DAYS = 30;
+const RECORDING_DEFAULT_CACHE_MB = 2048;
+const recordingDownloads = new Map(); // call_record_id -> in-flight download promise
+
+function getRecordingRetention() {
+  return {
+    retention_days: parseInt(db.getSystemSetting('recording_retention_days')) || RECORDING_DEFAULT_RETENTION_DAYS,
+    max_cache_mb: parseInt(db.getSystemSetting('recording_cache_max_mb')) || RECORDING_DEFAULT_CACHE_MB,
+  };
+}
 
-app.post('/api/auth/login', (req, res) => {
-  try {
-    const { email, password } = req.body;
+// data.unrestricted hears everything; others are limited to their extension
+// permissions (an empty list means all extensions, as for the rest of the UI)
+function canAccessCallRecording(req, call) {
+  if (hasPermission(req, 'data.unrestricted')) return true;
+  const allowed = db.getUserExtensionPermissions(req.currentUserId);
+  if (allowed.length === 0) return true;
+  return [call.extension, call.caller_number, call.callee_number]
+    .some(value => value && allowed.includes(String(value)));
+}
 
-    if (!email || !password) {
-      return res.status(400).json({
-        success: false,
-        error: 'Email and password are required'
-      });
-    }
+function signRecordingStream(callRecordId, expires) {
+  return signAuthPayload(`recording:${callRecordId}:${expires}`);
+}
 
-    const result = db.authenticateUser(email, password);
-    
-    if (result.success) {
-      // Get client IP address
-      const clientIP = req.headers['x-forwarded-for'] ? 
-        req.headers['x-forwarded-for'].split(',')[0].trim() : 
-        req.connection.remoteAddress || req.socket.remoteAddress || 'Unknown';
-      
-      // Log login activity with IP
-      db.logActivity('user_login', `User ${email} logged in from IP: ${clientIP}`, 'success', null, JSON.stringify({
-        email,
-        ip: clientIP,
-        timestamp: new Date().toISOString()
-      }));
-      
-      // Generate token in format: user.id:user.role for easy parsing
-      const token = `${result.user.id}:${result.user.role}`;
-      
-      res.json({
-        success: true,
-        message: 'Login successful',
-        token,
-        user: result.user
-      });
-    } else {
-      // Log failed login attempt
-      const clientIP = req.headers['x-forwarded-for'] ? 
-        req.headers['x-forwarded-for'].split(',')[0].trim() : 
-        req.connection.remoteAddress || req.socket.remoteAddress || 'Unknown';
-      
-      db.logActivity('user_login_failed', `Failed login attempt for ${email} from IP: ${clientIP}`, 'error', null, JSON.stringify({
-        email,
-        ip: clientIP,
-        timestamp: new Date().toISOString()
-      }));
-      
-      res.status(401).json({
-        success: false,
-        error: result.error
-      });
-    }
+function removeCachedRecording(cached) {
+  try {
+    fs.rmSync(cached.local_path, { force: true });
   } catch (error) {
-    res.status(500).json({ success: false, error: error.message });
+    logger.warn(`Could not delete recording ${cached.local_path}: ${error.message}`);
   }
-});
+  db.deleteCachedRecording(cached.call_record_id);
+}
 
-app.post('/api/auth/register', (req, res) => {
-  try {
-    const { email, password, name } = req.body;
+// Returns the cache row, downloading the file from the PBX if it isn't on disk
+async function ensureRecordingCached(call) {
+  const cached = db.getCachedRecording(call.id);
+  if (cached && fs.existsSync(cached.local_path)) {
+    db.touchCachedRecording(call.id);
+    return cached;
+  }
+  if (cached) db.deleteCachedRecording(call.id);
 
-    if (!email || !password) {
-      return res.status(400).json({
-        success: false,
-        error: 'Email and password are required'
-      });
-    }
+  if (recordingDownloads.has(call.id)) return recordingDownloads.get(call.id);
 
-    if (password.length < 6) {
-      return res.status(400).json({
-        success: false,
-        error: 'Password must be at least 6 characters'
+  const download = (async () => {
+    fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
+    const extension = path.extname(call.recording_url).replace(/[^a-zA-Z0-9.]/g, '') || '.wav';
+    const localPath = path.join(RECORDINGS_DIR, `${String(call.id).replace(/[^a-zA-Z0-9_-]/g, '')}${extension}`);
+    const partialPath = `${localPath}.part`;
+
+    try {
+      const { contentType, size } = await pbxAPI.downloadRecording(call.recording_url, partialPath);
+      fs.renameSync(partialPath, localPath);
+      const saved = db.saveCachedRecording({
+        call_record_id: call.id,
+        recording_file: call.recording_url,
+        local_path: localPath,
+        content_type: contentType,
+        size_bytes: size,
       });
+      pruneRecordingCache();
+      return saved;
+    } catch (error) {
+      fs.rmSync(partialPath, { force: true });
+      throw error;
     }
+  })();
 
-    const existingUser = db.getUserByEmail(email);
-    if (existingUser) {
-      return res.status(400).json({
-        success: false,
-        error: 'Email already registered'
-      });
+  recordingDownloads.set(call.id, download);
+  try {
+    return await download;
+  } finally {
+    recordingDownloads.delete(call.id);
+  }
+}
+
+// Drop recordings not played within the retention window, then the least
+// recently played ones until the cache fits its size cap
+function pruneRecordingCache() {
+  try {
+    const { retention_days, max_cache_mb } = getRecordingRetention();
+    const cutoff = Date.now() - retention_days * 24 * 60 * 60 * 1000;
+    const maxBytes = max_cache_mb * 1024 * 1024;
+    let removed = 0;
+
+    const remaining = [];
+    for (const cached of db.getCachedRecordings()) {
+      const lastAccess = new Date(cached.last_accessed_at.replace(' ', 'T') + 'Z').getTime();
+      if (lastAccess < cutoff || !fs.existsSync(cached.local_path)) {
+        removeCachedRecording(cached);
+        removed++;
+      } else {
+        remaining.push(cached);
+      }
     }
 
-    const success = db.createUser(email, password, 'operator', name);
-    
-    if (success) {
-      res.json({
-        success: true,
-        message: 'User registered successfully'
-      });
-    } else {
-      throw new Error('Failed to create user');
+    let totalBytes = remaining.reduce((sum, cached) => sum + (cached.size_bytes || 0), 0);
+    for (const cached of remaining) {
+      if (totalBytes <= maxBytes) break;
+      removeCachedRecording(cached);
+      totalBytes -= cached.size_bytes || 0;
+      removed++;
     }
+
+    if (removed > 0) logger.info(`🎧 Pruned ${removed} cached recording(s)`);
+    return removed;
   } catch (error) {
-    res.status(500).json({ success: false, error: error.message });
+    logger.error(`Recording cache prune failed: ${error.message}`);
+    return 0;
   }
-});
+}
 
-app.post('/api/auth/logout', (req, res) => {
+setInterval(pruneRecordingCache, RECORDING_PRUNE_MS);
+
+// GET /api/call-records/:id/recording — fetch (or reuse) the recording and hand
+// back a signed stream URL for the player
+app.get('/api/call-records/:id/recording', requireAuth, async (req, res) => {
   try {
-    // In a real app with sessions/tokens, you'd invalidate them here
+    const call = db.getCallRecordById(req.params.id);
+    if (!call) return res.status(404).json({ success: false, error: 'Call record not found' });
+    if (!canAccessCallRecording(req, call)) {
+      return res.status(403).json({ success: false, error: 'Forbidden: no access to this extension' });
+    }
+    if (!call.recording_url) return res.status(404).json({ success: false, error: 'This call has no recording' });
+
+    let cached;
+    try {
+      cached = await ensureRecordingCached(call);
+    } catch (error) {
+      logger.warn(`Recording fetch failed for call ${call.id}: ${error.message}`);
+      return res.status(502).json({ success: false, error: error.message });
+    }
+    if (!cached) throw new Error('Failed to store recording');
+
+    const expires = Date.now() + RECORDING_URL_TTL_MS;
+    const params = new URLSearchParams({ expires: String(expires), sig: signRecordingStream(call.id, expires) });
     res.json({
       success: true,
-      message: 'Logged out successfully'
+      data: {
+        url: `/api/call-records/${encodeURIComponent(call.id)}/recording/stream?${params}`,
+        expires_at: new Date(expires).toISOString(),
+        content_type: cached.content_type,
+        size_bytes: cached.size_bytes,
+      }
     });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// ========================================
-// Change own password (authenticated user)
-app.put('/api/users/change-password', (req, res) => {
+// GET /api/call-records/:id/recording/stream?expires&sig — range-capable audio
+app.get('/api/call-records/:id/recording/stream', (req, res) => {
   try {
-    const token = req.headers.authorization?.split(' ')[1];
-    if (!token) return res.status(401).json({ success: false, error: 'Unauthorized' });
-    const [userId] = token.split(':');
-    if (!userId) return res.status(401).json({ success: false, error: 'Invalid token' });
+    const { id } = req.params;
+    const expires = parseInt(req.query.expires);
+    const given = Buffer.from(String(req.query.sig || ''));
+    const expected = Buffer.from(signRecordingStream(id, expires));
+    if (!expires || given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      return res.status(403).json({ success: false, error: 'Invalid recording link' });
+    }
+    if (expires < Date.now()) return res.status(403).json({ success: false, error: 'Recording link expired' });
 
-    const { newPassword } = req.body;
-    if (!newPassword || newPassword.length < 6) {
-      return res.status(400).json({ success: false, error: 'Password must be at least 6 characters' });
+    const cached = db.getCachedRecording(id);
+    if (!cached || !fs.existsSync(cached.local_path)) {
+      return res.status(404).json({ success: false, error: 'Recording is no longer cached' });
     }
+    db.touchCachedRecording(id);
 
-    const newPasswordHash = crypto.createHash('sha256').update(newPassword).digest('hex');
-    db.db.prepare('UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(newPasswordHash, userId);
-    res.json({ success: true, message: 'Password updated successfully' });
+    // no-transform keeps compression from breaking byte ranges
+    res.sendFile(cached.local_path, {
+      headers: {
+        'Content-Type': cached.content_type || 'audio/wav',
+        'Cache-Control': 'private, no-transform, max-age=900',
+      }
+    }, (error) => {
+      if (error && !res.headersSent) res.status(error.status || 500).json({ success: false, error: error.message });
+    });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Change own PIN (authenticated user)
-app.put('/api/users/change-pin', (req, res) => {
+app.get('/api/recordings/settings', requirePermission('config.system.write'), (req, res) => {
   try {
-    const token = req.headers.authorization?.split(' ')[1];
-    if (!token) return res.status(401).json({ success: false, error: 'Unauthorized' });
-    const [userId] = token.split(':');
-    if (!userId) return res.status(401).json({ success: false, error: 'Invalid token' });
-
-    const { pin } = req.body;
-    if (!pin || String(pin).length < 4) {
-      return res.status(400).json({ success: false, error: 'PIN must be at least 4 digits' });
-    }
-
-    const user = db.db.prepare('SELECT id FROM users WHERE id = ?').get(userId);
-    if (!user) return res.status(404).json({ success: false, error: 'No user profile found. Contact your admin.' });
-
-    db.db.prepare('UPDATE users SET pin = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(String(pin), userId);
-    res.json({ success: true, message: 'Clock-in PIN updated' });
+    res.json({ success: true, data: { ...getRecordingRetention(), cache: db.getRecordingCacheStats() } });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Update user (admin only)
-app.put('/api/users/:id', (req, res) => {
+app.put('/api/recordings/settings', requirePermission('config.system.write'), (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-    
-    if (!token) {
-      return res.status(401).json({ success: false, error: 'Unauthorized' });
-    }
-
-    const { id } = req.params;
-    const { email, password, name, role, is_active } = req.body;
-
-    // Get user to ensure it exists
-    const stmt = db.db.prepare('SELECT * FROM users WHERE id = ?');
-    const user = stmt.get(id);
-    
-    if (!user) {
-      return res.status(404).json({ success: false, error: 'User not found' });
+    const { retention_days, max_cache_mb } = req.body;
+    if (retention_days !== undefined) {
+      const days = parseInt(retention_days);
+      if (!(days >= 1 && days <= 3650)) {
+        return res.status(400).json({ success: false, error: 'retention_days must be between 1 and 3650' });
+      }
+      db.setSystemSetting('recording_retention_days', String(days));
     }
-
-    // Update user
-    const updateStmt = db.db.prepare(`
-      UPDATE users SET 
-        email = ?,
-        name = ?,
-        role = ?,
-        is_active = ?
-      WHERE id = ?
-    `);
-    
-    updateStmt.run(
-      email || user.email,
-      name || user.name,
-      role || user.role,
-      is_active !== undefined ? is_active : user.is_active,
-      id
-    );
-
-    // If password provided, update it
-    if (password) {
-      const crypto = require('crypto');
-      const hashedPassword = crypto.createHash('sha256').update(password).digest('hex');
-      const pwdStmt = db.db.prepare('UPDATE users SET password = ? WHERE id = ?');
-      pwdStmt.run(hashedPassword, id);
+    if (max_cache_mb !== undefined) {
+      const mb = parseInt(max_cache_mb);
+      if (!(mb >= 50)) return res.status(400).json({ success: false, error: 'max_cache_mb must be at least 50' });
+      db.setSystemSetting('recording_cache_max_mb', String(mb));
     }
 
-    const updatedUser = db.db.prepare('SELECT id, email, name, role, is_active, created_at FROM users WHERE id = ?').get(id);
-    
-    res.json({
-      success: true,
-      message: 'User updated successfully',
-      data: updatedUser
-    });
+    const removed = pruneRecordingCache();
+    db.logActivity('recording_settings_changed', `Recording retention set to ${getRecordingRetention().retention_days} days`, 'info');
+    res.json({ success: true, data: { ...getRecordingRetention(), cache: db.getRecordingCacheStats(), removed } });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Delete user (super_admin only)
-app.delete('/api/users/:id', requireRole('super_admin'), (req, res) => {
-  try {
-    const { id } = req.params;
+// ========================================
+// Missed Call Callbacks
+// ========================================
+// Every missed inbound call gets a callback task. Supervisors assign tasks to
+// agents, agents log attempts with an outcome, and the call log closes tasks
+// on its own when the caller is reached or rings back. The SLA clock runs
+// from the missed call to the first callback attempt.
 
-    const userToDelete = db.db.prepare('SELECT role, id FROM users WHERE id = ?').get(id);
-    if (!userToDelete) return res.status(404).json({ success: false, error: 'User not found' });
+const CALLBACK_OUTCOMES = ['reached', 'voicemail', 'no_answer', 'wrong_number'];
+const CALLBACK_SYNC_MS = 60000;
+const CALLBACK_DEFAULT_SLA_MINUTES = 30;
 
-    // Prevent deleting a super_admin
-    if (userToDelete.role === 'super_admin') {
-      return res.status(400).json({ success: false, error: 'Cannot delete a super admin account' });
-    }
+function getCallbackSlaMinutes() {
+  return parseInt(db.getSystemSetting('callback_sla_minutes')) || CALLBACK_DEFAULT_SLA_MINUTES;
+}
 
-    // Prevent deleting the last remaining admin
-    const { count } = db.db.prepare(
-      "SELECT COUNT(*) as count FROM users u LEFT JOIN user_roles ur ON u.id = ur.user_id WHERE COALESCE(ur.role, u.role) IN ('admin','super_admin')"
-    ).get();
-    const effectiveRole = db.db.prepare(
-      "SELECT COALESCE(ur.role, u.role) as role FROM users u LEFT JOIN user_roles ur ON u.id = ur.user_id WHERE u.id = ?"
-    ).get(id);
-    if (effectiveRole && effectiveRole.role === 'admin' && count <= 1) {
-      return res.status(400).json({ success: false, error: 'Cannot delete the only admin user' });
-    }
+function broadcastCallbackUpdate(task) {
+  broadcastEvent('callback.updated', task ? { id: task.id, call_record_id: task.call_record_id, status: task.status } : {});
+}
 
-    db.db.prepare('DELETE FROM user_roles WHERE user_id = ?').run(id);
-    const result = db.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+function syncCallbacks() {
+  const changes = db.syncCallbackTasks();
+  if (changes > 0) broadcastCallbackUpdate(null);
+  return changes;
+}
 
-    if (result.changes === 0) return res.status(404).json({ success: false, error: 'User not found' });
+// from/to are local YYYY-MM-DD dates; returns UTC bounds (end exclusive)
+function parseLocalDateRange(query) {
+  const timeZone = query.tz || ANALYTICS_DEFAULT_TZ;
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  const range = { fromUtc: null, toUtc: null };
+  if (query.from) {
+    if (!datePattern.test(query.from)) return { error: 'from must be a YYYY-MM-DD date' };
+    range.fromUtc = toSqliteUtc(zonedMidnightUtc(query.from, timeZone));
+  }
+  if (query.to) {
+    if (!datePattern.test(query.to)) return { error: 'to must be a YYYY-MM-DD date' };
+    const nextDay = toDateKey(Date.parse(`${query.to}T00:00:00Z`) + 86400000);
+    range.toUtc = toSqliteUtc(zonedMidnightUtc(nextDay, timeZone));
+  }
+  return range;
+}
 
-    res.json({ success: true, message: 'User deleted successfully' });
-  } catch (error) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+setInterval(syncCallbacks, CALLBACK_SYNC_MS);
 
-// Get user port permissions (admin)
-app.get('/api/users/:id/port-permissions', requireAuth, (req, res) => {
+app.get('/api/callbacks', requireAuth, (req, res) => {
   try {
-    const { id } = req.params;
-    if (req.currentUserRole !== 'super_admin' && req.currentUserRole !== 'admin' && req.currentUserId !== id) {
-      return res.status(403).json({ success: false, error: 'Forbidden' });
-    }
-    const ports = db.getUserPortPermissions(id);
-    res.json({ success: true, data: ports });
+    const range = parseLocalDateRange(req.query);
+    if (range.error) return res.status(400).json({ success: false, error: range.error });
+
+    syncCallbacks();
+    const items = db.getCallbackTasks({
+      status: req.query.status || null,
+      agentId: req.query.agent_id || null,
+      extension: req.query.extension || null,
+      fromUtc: range.fromUtc,
+      toUtc: range.toUtc,
+      limit: Math.min(parseInt(req.query.limit) || 200, 1000),
+    });
+    res.json({ success: true, data: { items, sla_minutes: getCallbackSlaMinutes() } });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Set user port permissions (admin)
-app.post('/api/users/:id/port-permissions', requireRole('super_admin', 'admin'), (req, res) => {
+// GET /api/callbacks/sla-report?from=YYYY-MM-DD&to=YYYY-MM-DD — per-extension SLA
+app.get('/api/callbacks/sla-report', requireAuth, (req, res) => {
   try {
-    const { id } = req.params;
-    const { ports } = req.body; // Array of port numbers [1,2,3,4] or empty for all
-    
-    if (!Array.isArray(ports)) {
-      return res.status(400).json({ success: false, error: 'Ports must be an array' });
-    }
+    const range = parseLocalDateRange(req.query);
+    if (range.error) return res.status(400).json({ success: false, error: range.error });
 
-    // Validate port numbers
-    const validPorts = ports.filter(p => p >= 1 && p <= 4);
-    
-    const success = db.setUserPortPermissions(id, validPorts);
-    if (!success) throw new Error('Failed to set port permissions');
-
-    res.json({ success: true, message: 'Port permissions updated', data: validPorts });
+    syncCallbacks();
+    const slaMinutes = getCallbackSlaMinutes();
+    const rows = db.getCallbackSlaReport(range.fromUtc || '1970-01-01 00:00:00', range.toUtc || '9999-12-31 23:59:59', slaMinutes)
+      .map(row => ({
+        ...row,
+        avg_first_callback_seconds: row.avg_first_callback_seconds != null ? Math.round(row.avg_first_callback_seconds) : null,
+        max_first_callback_seconds: row.max_first_callback_seconds != null ? Math.round(row.max_first_callback_seconds) : null,
+        // Share of calls whose SLA outcome is known that were called back in time
+        sla_compliance: row.within_sla + row.breached > 0
+          ? Math.round((row.within_sla / (row.within_sla + row.breached)) * 1000) / 10
+          : null,
+      }));
+    res.json({ success: true, data: { sla_minutes: slaMinutes, extensions: rows } });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Get user extension permissions (admin)
-app.get('/api/users/:id/extension-permissions', requireAuth, (req, res) => {
+app.get('/api/callbacks/settings', requireAuth, (req, res) => {
+  res.json({ success: true, data: { sla_minutes: getCallbackSlaMinutes() } });
+});
+
+app.put('/api/callbacks/settings', requirePermission('callbacks.manage'), (req, res) => {
   try {
-    const { id } = req.params;
-    if (req.currentUserRole !== 'super_admin' && req.currentUserRole !== 'admin' && req.currentUserId !== id) {
-      return res.status(403).json({ success: false, error: 'Forbidden' });
+    const minutes = parseInt(req.body.sla_minutes);
+    if (!(minutes >= 1 && minutes <= 10080)) {
+      return res.status(400).json({ success: false, error: 'sla_minutes must be between 1 and 10080' });
     }
-    const extensions = db.getUserExtensionPermissions(id);
-    res.json({ success: true, data: extensions });
+    db.setSystemSetting('callback_sla_minutes', String(minutes));
+    db.logActivity('callback_sla_changed', `Callback SLA set to ${minutes} minutes`, 'info');
+    broadcastCallbackUpdate(null);
+    res.json({ success: true, data: { sla_minutes: minutes } });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Set user extension permissions (admin)
-app.post('/api/users/:id/extension-permissions', requireRole('super_admin', 'admin'), (req, res) => {
+app.get('/api/callbacks/:id', requireAuth, (req, res) => {
   try {
-    const { id } = req.params;
-    const { extensions } = req.body; // Array of extension strings or empty for all
-    
-    if (!Array.isArray(extensions)) {
-      return res.status(400).json({ success: false, error: 'Extensions must be an array' });
-    }
-
-    const success = db.setUserExtensionPermissions(id, extensions);
-    if (!success) throw new Error('Failed to set extension permissions');
-
-    res.json({ success: true, message: 'Extension permissions updated', data: extensions });
+    const task = db.getCallbackTask(req.params.id);
+    if (!task) return res.status(404).json({ success: false, error: 'Callback task not found' });
+    res.json({ success: true, data: { ...task, attempts: db.getCallbackAttempts(task.id) } });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Get own profile
-app.get('/api/users/profile/me', (req, res) => {
+// PUT /api/callbacks/:id/assign { agent_id } — null unassigns
+app.put('/api/callbacks/:id/assign', requirePermission('callbacks.manage'), (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-    
-    if (!token) {
-      return res.status(401).json({ success: false, error: 'Unauthorized' });
-    }
+    const task = db.getCallbackTask(req.params.id);
+    if (!task) return res.status(404).json({ success: false, error: 'Callback task not found' });
 
-    // Decode token to get user ID (format: user.id:user.role)
-    const [userId, userRole] = token.split(':');
-    if (!userId) {
-      return res.status(401).json({ success: false, error: 'Invalid token' });
+    const agentId = req.body.agent_id || null;
+    const agent = agentId ? db.getAgentById(agentId) : null;
+    if (agentId && (!agent || !agent.is_active)) {
+      return res.status(400).json({ success: false, error: 'Unknown or inactive agent' });
     }
 
-    const user = db.db.prepare('SELECT id, email, name, role, is_active, created_at FROM users WHERE id = ? AND is_active = 1').get(userId);
-    if (!user) {
-      return res.status(404).json({ success: false, error: 'User not found' });
-    }
+    const updated = db.assignCallbackTask(task.id, agentId, req.currentUserId);
+    if (!updated) throw new Error('Failed to assign callback');
 
-    res.json({ 
-      success: true, 
-      data: {
-        id: user.id,
-        email: user.email,
-        name: user.name || user.email.split('@')[0],
-        role: user.role,
-        isActive: user.is_active === 1
-      }
-    });
+    db.logActivity('callback_assigned',
+      agent ? `Callback to ${task.caller_number} assigned to ${agent.name}` : `Callback to ${task.caller_number} unassigned`,
+      'info', null, JSON.stringify({ callback_task_id: task.id, agent_id: agentId }));
+    broadcastCallbackUpdate(updated);
+    res.json({ success: true, data: updated });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Update own profile
-app.put('/api/users/profile/me', (req, res) => {
+// POST /api/callbacks/:id/attempts { outcome, notes?, agent_id? }
+app.post('/api/callbacks/:id/attempts', requirePermission('callbacks.work'), (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-    
-    if (!token) {
-      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    const { outcome, notes, agent_id } = req.body;
+    if (!CALLBACK_OUTCOMES.includes(outcome)) {
+      return res.status(400).json({ success: false, error: `outcome must be one of ${CALLBACK_OUTCOMES.join(', ')}` });
     }
 
-    // Decode token to get user ID (format: user.id:user.role)
-    const [userId, userRole] = token.split(':');
-    if (!userId) {
-      return res.status(401).json({ success: false, error: 'Invalid token' });
-    }
+    const task = db.getCallbackTask(req.params.id);
+    if (!task) return res.status(404).json({ success: false, error: 'Callback task not found' });
+    if (task.status === 'closed') return res.status(409).json({ success: false, error: 'Callback is already closed' });
 
-    const { email, password, name, oldPassword } = req.body;
-    
-    // Get current user
-    const currentUser = db.db.prepare('SELECT * FROM users WHERE id = ?').get(userId);
-    if (!currentUser) {
-      return res.status(404).json({ success: false, error: 'User not found' });
-    }
-    
-    // If changing password, verify old password
-    if (password) {
-      if (!oldPassword) {
-        return res.status(400).json({ success: false, error: 'Old password is required to change password' });
-      }
-      
-      const oldPasswordHash = crypto.createHash('sha256').update(oldPassword).digest('hex');
-      
-      if (oldPasswordHash !== currentUser.password_hash) {
-        return res.status(401).json({ success: false, error: 'Old password is incorrect' });
-      }
-    }
-    
-    // Update fields
-    let updateQuery = 'UPDATE users SET updated_at = CURRENT_TIMESTAMP';
-    const updateParams = [];
-    
-    if (email && email !== currentUser.email) {
-      // Check email uniqueness
-      const existingUser = db.db.prepare('SELECT id FROM users WHERE email = ? AND id != ?').get(email, userId);
-      if (existingUser) {
-        return res.status(400).json({ success: false, error: 'Email already in use' });
-      }
-      updateQuery += ', email = ?';
-      updateParams.push(email);
-    }
-    
-    if (name) {
-      updateQuery += ', name = ?';
-      updateParams.push(name);
-    }
-    
-    if (password) {
-      const newPasswordHash = crypto.createHash('sha256').update(password).digest('hex');
-      updateQuery += ', password_hash = ?';
-      updateParams.push(newPasswordHash);
-    }
-    
-    updateQuery += ' WHERE id = ?';
-    updateParams.push(userId);
-    
-    const stmt = db.db.prepare(updateQuery);
-    stmt.run(...updateParams);
-    
-    // Get updated user (without password)
-    const updatedUser = db.db.prepare('SELECT id, email, name, role, is_active, created_at FROM users WHERE id = ?').get(userId);
-    
-    res.json({
-      success: true,
-      message: 'Profile updated successfully',
-      data: updatedUser
+    const updated = db.recordCallbackAttempt(task.id, {
+      outcome,
+      notes: notes ? String(notes).slice(0, 1000) : null,
+      agent_id: agent_id || null,
+      recorded_by: req.currentUserId,
     });
+    if (!updated) throw new Error('Failed to record callback attempt');
+
+    db.logActivity('callback_attempt', `Callback to ${task.caller_number}: ${outcome.replace('_', ' ')}`,
+      outcome === 'reached' ? 'success' : 'info', null, JSON.stringify({ callback_task_id: task.id, outcome }));
+    broadcastCallbackUpdate(updated);
+    res.status(201).json({ success: true, data: { ...updated, attempts: db.getCallbackAttempts(task.id) } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/callbacks/:id/close', requirePermission('callbacks.work'), (req, res) => {
+  try {
+    const task = db.getCallbackTask(req.params.id);
+    if (!task) return res.status(404).json({ success: false, error: 'Callback task not found' });
+
+    const updated = db.closeCallbackTask(task.id, 'manual');
+    if (!updated) throw new Error('Failed to close callback');
+    broadcastCallbackUpdate(updated);
+    res.json({ success: true, data: updated });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // ========================================
-// Gateway Configuration Endpoints
+// Call Records API Endpoints
 // ========================================
 
-app.get('/api/gateway-config', (req, res) => {
+// Save a call record
+app.post('/api/call-records', (req, res) => {
   try {
-    const config = db.getGatewayConfig();
-    res.json({ success: true, data: config });
+    const success = db.saveCallRecord(req.body);
+    if (success) {
+      res.json({ success: true, message: 'Call record saved' });
+    } else {
+      res.status(500).json({ success: false, error: 'Failed to save call record' });
+    }
   } catch (error) {
+    logger.error(`Save Call Record Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.post('/api/gateway-config', (req, res) => {
-  logger.debug('[API] POST /api/gateway-config received');
-  logger.debug('[API] Request body: %s', JSON.stringify(req.body, null, 2));
-  
+// Clear test data from database
+app.post('/api/clear-test-data', (req, res) => {
   try {
-    const { gateway_ip, api_username, api_password, api_port } = req.body;
-
-    if (!gateway_ip || !api_username || !api_password) {
-      logger.warn('[API] Validation failed - missing required fields');
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required fields: gateway_ip, api_username, api_password'
-      });
-    }
-    logger.debug('[API] Validation passed, calling db.saveGatewayConfig()');
-    const success = db.saveGatewayConfig({
-      gateway_ip,
-      api_username,
-      api_password,
-      api_port: api_port || 5038
+    const result = db.db.prepare("DELETE FROM call_records WHERE external_id LIKE 'test-call-%'").run();
+    const stats = db.getCallStats();
+    logger.info(` Cleared ${result.changes} test call records`);
+    res.json({ 
+      success: true, 
+      message: `Cleared ${result.changes} test call records from database`,
+      stats: stats
     });
-
-    if (success) {
-      logger.info('[API] Gateway config saved successfully');
-      db.logActivity('gateway_config_updated', `Gateway config saved: ${gateway_ip}`, 'success');
-      
-      // Re-trigger SMS listener with new config
-      startSmsListener();
-      
-      res.json({
-        success: true,
-        message: 'Gateway configuration saved',
-        data: db.getGatewayConfig()
-      });
-    } else {
-      throw new Error('Failed to save gateway configuration');
-    }
-    } catch (error) {
-    logger.error('[API] Error: %s', error.message);
+  } catch (error) {
+    logger.error(`Clear Test Data Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// ========================================
-// System Settings Endpoints
-// ========================================
-
-app.get('/api/system-settings/sms-enabled', (req, res) => {
+// Clear ALL call records from database
+app.post('/api/clear-calls', (req, res) => {
   try {
-    const isEnabled = db.isSmsEnabled();
+    const result = db.db.prepare("DELETE FROM call_records").run();
+    logger.info(` Cleared ${result.changes} call records from database`);
     res.json({ 
       success: true, 
-      sms_enabled: isEnabled
+      message: `Cleared ${result.changes} call records from database`,
+      deleted: result.changes
     });
   } catch (error) {
+    logger.error(`Clear Calls Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.post('/api/system-settings/sms-enabled', (req, res) => {
+// Sync calls from PBX and store locally
+app.post('/api/pbx-sync-calls', async (req, res) => {
   try {
-    const { enabled } = req.body;
-    
-    if (enabled === undefined) {
-      return res.status(400).json({ success: false, error: 'enabled parameter required' });
-    }
-
-    const success = db.setSystemSetting('sms_enabled', enabled ? 'true' : 'false');
+    logger.info(' Syncing calls from PBX...');
+    const pbxCalls = await pbxAPI.queryCalls();
     
-    if (success) {
-      logger.info(`SMS sending ${enabled ? 'ENABLED' : 'DISABLED'} by admin`);
-      db.logActivity('sms_setting_changed', `SMS sending ${enabled ? 'ENABLED' : 'DISABLED'}`, 'success');
+    if (pbxCalls && pbxCalls.status === 'Success' && pbxCalls.data) {
+      let savedCount = 0;
       
-      res.json({
-        success: true,
-        message: `SMS sending ${enabled ? 'enabled' : 'disabled'}`,
-        sms_enabled: enabled
+      // Process each call from PBX and save to database
+      for (const call of pbxCalls.data) {
+        const callRecord = {
+          external_id: call.id || call.callid,
+          caller_number: call.from || call.callerid,
+          callee_number: call.to || call.destination,
+          caller_name: call.fromname || null,
+          callee_name: call.toname || null,
+          direction: determineCallDirection(call),
+          status: mapCallStatus(call.status),
+          extension: call.extension || null,
+          start_time: call.starttime || new Date().toISOString(),
+          answer_time: call.answertime || null,
+          end_time: call.endtime || null,
+          ring_duration: call.ringduration || 0,
+          talk_duration: call.duration || 0,
+          total_duration: (call.ringduration || 0) + (call.duration || 0),
+          metadata: call
+        };
+        
+        if (db.saveCallRecord(callRecord)) {
+          savedCount++;
+        }
+      }
+      
+      res.json({ 
+        success: true, 
+        message: `Synced ${savedCount} calls from PBX`, 
+        data: { saved: savedCount, total: pbxCalls.data.length } 
       });
     } else {
-      throw new Error('Failed to update SMS setting');
+      res.json({ 
+        success: false, 
+        message: 'No calls received from PBX or PBX error',
+        error: pbxCalls.errno
+      });
     }
   } catch (error) {
+    logger.error(`PBX Sync Calls Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+// Helper functions for call processing
+function determineCallDirection(call) {
+  // Basic logic - can be enhanced based on PBX response structure
+  if (call.direction) return call.direction;
+  if (call.from && call.to) {
+    // Check if internal calls (extension to extension)
+    if (/^[1-9]\d{2,3}$/.test(call.from) && /^[1-9]\d{2,3}$/.test(call.to)) {
+      return 'internal';
+    }
+    // If from external number, it's inbound
+    if (!/^[1-9]\d{2,3}$/.test(call.from)) {
+      return 'inbound';
+    }
+    // If to external number, it's outbound
+    return 'outbound';
+  }
+  return 'unknown';
+}
+
+function mapCallStatus(status) {
+  if (!status) return 'unknown';
+  const statusLower = status.toLowerCase();
+  
+  const statusMap = {
+    'answered': 'answered',
+    'up': 'answered',
+    'connected': 'answered',
+    'missed': 'missed',
+    'noanswer': 'missed',
+    'no answer': 'missed',
+    'busy': 'busy',
+    'failed': 'failed',
+    'voicemail': 'voicemail'
+  };
+  
+  return statusMap[statusLower] || 'unknown';
+}
+
 // ========================================
-// PBX Configuration Endpoints
+// Channel Setup Endpoints (Telegram credentials + Email SMTP)
 // ========================================
 
-app.get('/api/pbx-config', (req, res) => {
+app.get('/api/channel-setup', (req, res) => {
   try {
-    const config = db.getPbxConfig();
+    const config = db.getChannelConfig();
     res.json({ success: true, data: config });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// PBX connection status
-app.get('/api/pbx-status', async (req, res) => {
+app.post('/api/channel-setup', requirePermission('notifications.manage'), (req, res) => {
   try {
-    const config = db.getPbxConfig();
-    const isConfigured = !!(config && config.pbx_ip && config.api_username);
+    const {
+      bot_token,
+      chat_id,
+      email_smtp_host,
+      email_smtp_port,
+      email_smtp_user,
+      email_smtp_pass,
+      email_from,
+      email_recipients,
+      email_smtp_encryption,
+    } = req.body;
 
-    if (!isConfigured) {
-      return res.json({
-        configured: false,
-        connected: false,
-        status: 'Not Configured',
-        error: null,
-        pbx_ip: config?.pbx_ip || null,
-        pbx_port: config?.pbx_port || null,
-        timestamp: new Date().toISOString()
-      });
+    const success = db.saveChannelConfig({
+      bot_token,
+      chat_id,
+      email_smtp_host,
+      email_smtp_port,
+      email_smtp_user,
+      email_smtp_pass,
+      email_from,
+      email_recipients,
+      email_smtp_encryption,
+    });
+
+    if (success) {
+      res.json({ success: true, message: 'Channel credentials saved', data: db.getChannelConfig() });
+    } else {
+      throw new Error('Failed to save channel credentials');
     }
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    const testResult = await pbxAPI.testConnection();
+// ========================================
+// Notification Preferences Endpoints (delivery toggles + schedule)
+// ========================================
 
-    res.json({
-      configured: true,
-      connected: !!testResult.success,
-      status: testResult.status || (testResult.success ? 'Connected' : 'Failed'),
-      error: testResult.success ? null : (testResult.error || 'Connection failed'),
-      pbx_ip: config?.pbx_ip || null,
-      pbx_port: config?.pbx_port || null,
-      timestamp: new Date().toISOString()
-    });
+app.get('/api/notifications-setup', (req, res) => {
+  try {
+    const setup = db.getNotificationsSetup();
+    res.json({ success: true, data: setup });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.post('/api/pbx-config', (req, res) => {
+app.post('/api/notifications-setup', requirePermission('notifications.manage'), (req, res) => {
   try {
-    const { pbx_ip, pbx_port, api_username, api_password, web_port } = req.body;
-
-    const success = db.savePbxConfig({
-      pbx_ip,
-      pbx_port: pbx_port || 5060,
-      api_username,
-      api_password,
-      web_port: web_port || 8333
+    const {
+      telegram_enabled,
+      email_enabled,
+      sms_reports_enabled,
+      notify_missed_calls,
+      notify_new_sms,
+      notify_system_errors,
+      notify_shift_changes,
+      daily_report_enabled,
+      daily_report_time,
+    } = req.body;
+
+    const success = db.saveNotificationsSetup({
+      telegram_enabled,
+      email_enabled,
+      sms_reports_enabled,
+      notify_missed_calls,
+      notify_new_sms,
+      notify_system_errors,
+      notify_shift_changes,
+      daily_report_enabled,
+      daily_report_time,
     });
 
     if (success) {
-      // Clear any existing token when config changes
-      pbxAPI.token = null;
-      if (pbxAPI.tokenTimeout) {
-        clearTimeout(pbxAPI.tokenTimeout);
-        pbxAPI.tokenTimeout = null;
-      }
-      
-      res.json({
-        success: true,
-        message: 'PBX configuration saved',
-        data: db.getPbxConfig()
-      });
+      res.json({ success: true, message: 'Notification preferences saved', data: db.getNotificationsSetup() });
     } else {
-      throw new Error('Failed to save PBX configuration');
+      throw new Error('Failed to save notification preferences');
     }
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Test PBX connection and authentication
-app.get('/api/pbx-test', async (req, res) => {
-  try {
-    logger.info('🧪 Testing PBX connection...');
-    const result = await pbxAPI.testConnection();
-    res.json(result);
-  } catch (error) {
-    logger.error(`PBX Test Error: ${error.message}`);
-    res.status(500).json({ 
-      success: false, 
-      error: error.message,
-      status: 'Error' 
-    });
-  }
-});
 
-// Test TG400 Gateway Connection (REAL TEST - Actually connects to the device)
-app.get('/api/gateway-test', async (req, res) => {
+// Test SMS endpoint
+app.post('/api/test-sms', async (req, res) => {
   try {
-    logger.info('🧪 Testing TG400 Gateway connection...');
-    const gatewayConfig = db.getGatewayConfig();
+    const smsRecipients = db.getSmsReportRecipients();
     
-    if (!gatewayConfig) {
+    if (!smsRecipients || smsRecipients.length === 0) {
       return res.status(400).json({
         success: false,
-        error: 'Gateway not configured',
-        status: 'Error'
+        error: 'No SMS recipients configured',
+        details: 'Please add at least one phone number in Configuration → Setup'
       });
     }
 
-    const gateway_ip = gatewayConfig.gateway_ip || '192.168.5.3';
-    const api_port = gatewayConfig.api_port || 5038;
-    const username = gatewayConfig.api_username || 'admin';
-    const password = gatewayConfig.api_password || '';
-
-    logger.info(` Attempting TCP connection to TG400 at ${gateway_ip}:${api_port} (user: ${username})...`);
-
-    // Create TCP connection to test
-    const net = require('net');
-    const socket = net.createConnection(parseInt(api_port), gateway_ip);
-    let authCompleted = false;
-    let errorOccurred = false;
-    const connectionTimeout = 10000; // 10 second timeout
-
-    const timeoutHandle = setTimeout(() => {
-      if (!authCompleted && !errorOccurred) {
-        errorOccurred = true;
-        socket.destroy();
-        logger.error(` Gateway connection timeout after ${connectionTimeout}ms`);
-        res.status(500).json({
-          success: false,
-          error: `Connection timeout to ${gateway_ip}:${api_port}`,
-          status: 'Timeout'
-        });
-      }
-    }, connectionTimeout);
-
-    socket.on('connect', () => {
-      logger.info(` TCP socket connected to ${gateway_ip}:${api_port}`);
-      // Send login command with credentials
-      const loginCmd = `Action: Login\r\nUsername: ${username}\r\nSecret: ${password}\r\n\r\n`;
-      socket.write(loginCmd);
-    });
-
-    socket.on('data', (data) => {
-      const response = data.toString();
-      logger.info(` Received from TG400: ${response.substring(0, 100)}`);
-      
-      if (response.includes('Response: Success') || response.includes('Welcome')) {
-        authCompleted = true;
-        clearTimeout(timeoutHandle);
-        socket.destroy();
-        logger.info(` Authentication successful with TG400`);
-        res.json({
-          success: true,
-          error: null,
-          status: 'Connected',
-          message: `Successfully connected and authenticated with TG400 at ${gateway_ip}:${api_port}`
-        });
-      } else if (response.includes('Response: Error') || response.includes('Invalid')) {
-        authCompleted = true;
-        clearTimeout(timeoutHandle);
-        socket.destroy();
-        logger.error(` Authentication failed with TG400`);
-        res.status(500).json({
-          success: false,
-          error: 'Authentication failed - check credentials',
-          status: 'Auth Error'
-        });
-      }
-    });
-
-    socket.on('error', (error) => {
-      if (!errorOccurred) {
-        errorOccurred = true;
-        clearTimeout(timeoutHandle);
-        logger.error(` Socket connection error: ${error.message}`);
-        res.status(500).json({
-          success: false,
-          error: error.message,
-          status: 'Connection Error'
-        });
-      }
-    });
-
-    socket.on('close', () => {
-      if (!authCompleted && !errorOccurred) {
-        logger.warn(`Socket closed before authentication completed`);
-      }
-    });
+    // Send test SMS to first recipient only
+    const testRecipient = smsRecipients[0];
+    const testMessage = `SMS Gateway Test - System working. Time: ${new Date().toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' })}`;
+    
+    const smsSent = await sendSmsViaGateway(testRecipient.phone_number, testMessage);
+    
+    if (smsSent) {
+      res.json({
+        success: true,
+        message: 'Test SMS sent successfully',
+        details: `Sent to ${testRecipient.phone_number}`,
+        recipientCount: smsRecipients.length
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        error: 'Failed to send test SMS',
+        details: 'Check SMS gateway configuration (URL, API key) and try again'
+      });
+    }
   } catch (error) {
-    logger.error(`Gateway Test Error: ${error.message}`);
     res.status(500).json({ 
       success: false, 
-      error: error.message,
-      status: 'Error' 
+      error: 'SMS test failed',
+      details: error.message 
     });
   }
 });
 
-// Test SMS Gateway URL connectivity
-app.post('/api/test-sms-gateway', async (req, res) => {
+// Test Email endpoint
+app.post('/api/test-email', async (req, res) => {
   try {
-    const { url } = req.body;
-    if (!url) {
-      return res.status(400).json({ success: false, error: 'URL is required' });
-    }
-
-    logger.info(`🧪 Testing SMS gateway URL: ${url}`);
+    const telegramConfig = db.getNotificationConfig();
 
-    // Test the URL with a simple fetch with timeout
-    const timeoutPromise = new Promise((_, reject) =>
-      setTimeout(() => reject(new Error('Connection timeout')), 5000)
-    );
+    const smtpHost = telegramConfig?.email_smtp_host;
+    const smtpPort = Number(telegramConfig?.email_smtp_port) || 587;
+    const smtpUser = telegramConfig?.email_smtp_user;
+    const smtpPass = telegramConfig?.email_smtp_pass;
+    const emailFrom = telegramConfig?.email_from || smtpUser;
+    const encryption = telegramConfig?.email_smtp_encryption || 'auto';
 
-    const fetchPromise = fetch(url, {
-      method: 'HEAD',
-      timeout: 5000,
-    }).catch(() => {
-      // If HEAD fails, try GET
-      return fetch(url, {
-        method: 'GET',
-        timeout: 5000,
+    // Check SMTP credentials
+    if (!smtpHost || !smtpUser || !smtpPass) {
+      return res.status(400).json({
+        success: false,
+        error: 'Email SMTP not configured',
+        missingFields: {
+          smtp_host: !smtpHost,
+          smtp_user: !smtpUser,
+          smtp_pass: !smtpPass
+        },
+        details: 'Please configure SMTP credentials in Configuration → Setup'
       });
-    });
+    }
 
-    const response = await Promise.race([fetchPromise, timeoutPromise]);
+    // Parse recipients properly (stored as JSON string in DB)
+    let recipients = [];
+    try {
+      const raw = telegramConfig.email_recipients;
+      recipients = Array.isArray(raw) ? raw : JSON.parse(raw || '[]');
+    } catch (e) {
+      recipients = [];
+    }
 
-    if (response?.ok) {
-      logger.info(`✅ SMS gateway URL test successful: ${url}`);
-      res.json({ success: true, message: 'Connection successful' });
-    } else {
-      logger.warn(`⚠️  SMS gateway URL returned status ${response?.status}: ${url}`);
-      res.status(500).json({ success: false, message: `HTTP ${response?.status}` });
+    if (recipients.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No email recipients configured',
+        details: 'Please add at least one email recipient in Configuration → Setup'
+      });
     }
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    logger.error(`❌ SMS gateway URL test failed: ${errorMsg}`);
-    res.status(500).json({ success: false, message: errorMsg });
-  }
-});
 
-// Query active calls
-app.get('/api/pbx-calls', async (req, res) => {
-  try {
-    logger.info(' Querying active calls...');
-    const calls = await pbxAPI.queryCalls();
-    res.json({ success: true, data: calls });
-  } catch (error) {
-    logger.error(`Query Calls Error: ${error.message}`);
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+    // Build transporter directly so we can return the real SMTP error to the caller
+    const nodemailer = require('nodemailer');
+    let secure = false;
+    let tlsOptions = { rejectUnauthorized: false };
+    if (encryption === 'ssl' || (encryption === 'auto' && smtpPort === 465)) {
+      secure = true;
+    } else if (encryption === 'starttls') {
+      secure = false;
+      tlsOptions = { ...tlsOptions, ciphers: 'SSLv3' };
+    }
+
+    const transporter = nodemailer.createTransport({
+      host: smtpHost,
+      port: smtpPort,
+      secure,
+      auth: { user: smtpUser, pass: smtpPass },
+      tls: tlsOptions
+    });
 
-// Query Call Detail Records (CDR)
-app.get('/api/pbx-cdr', async (req, res) => {
-  try {
-    const { startTime, endTime, limit } = req.query;
-    logger.info(` Querying CDR from PBX...`);
-    const cdr = await pbxAPI.queryCDR(startTime, endTime, parseInt(limit) || 100);
-    res.json({ success: true, data: cdr });
-  } catch (error) {
-    logger.error(`Query CDR Error: ${error.message}`);
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+    const testMessage = `Email Gateway Test - System working correctly.\n\nTime: ${new Date().toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' })}\n\nIf you received this, your SMTP settings are correct.`;
 
-// Discover available API endpoints
-app.get('/api/pbx-endpoints', async (req, res) => {
-  try {
-    logger.info('🔍 Discovering PBX API endpoints...');
-    const endpoints = await pbxAPI.discoverEndpoints();
-    res.json({ success: true, data: endpoints });
-  } catch (error) {
-    logger.error(`Discover Endpoints Error: ${error.message}`);
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+    await transporter.sendMail({
+      from: emailFrom,
+      to: recipients.join(','),
+      subject: 'SMS Gateway Test Email',
+      text: testMessage
+    });
 
-// Get real PBX system information
-app.get('/api/pbx-system-info', async (req, res) => {
-  try {
-    logger.info('Getting PBX system information...');
-    const info = await pbxAPI.getSystemInfo();
-    res.json({ success: true, data: info });
+    logger.info(`✅ Test email sent to ${recipients.join(', ')}`);
+    res.json({
+      success: true,
+      message: 'Test email sent successfully',
+      details: `Sent to ${recipients.join(', ')}`,
+      recipientCount: recipients.length
+    });
   } catch (error) {
-    logger.error(`Get System Info Error: ${error.message}`);
-    res.status(500).json({ success: false, error: error.message });
+    logger.error(`Test email failed: ${error.message}`);
+    res.status(400).json({
+      success: false,
+      error: 'Failed to send test email',
+      details: error.message  // real SMTP/nodemailer error surfaced to frontend
+    });
   }
 });
 
-// Get real extensions list
-app.get('/api/pbx-extensions', async (req, res) => {
+app.post('/api/telegram-send', requirePermission('telegram.view'), async (req, res) => {
   try {
-    logger.info('📞 Getting PBX extensions...');
-    const extensions = await pbxAPI.getExtensions();
-    res.json({ success: true, data: extensions });
-  } catch (error) {
-    logger.error(`Get Extensions Error: ${error.message}`);
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+    const { action, bot_token: overrideBotToken, chat_id: overrideChatId } = req.body;
+    const telegramConfig = db.getNotificationConfig();
 
-// Sync extensions from PBX to database
-app.post('/api/pbx-sync-extensions', async (req, res) => {
-  try {
-    logger.info(' Syncing extensions from PBX to database...');
-    const response = await pbxAPI.getExtensions();
-    
-    if (!response || !response.extinfos) {
-      return res.status(500).json({ 
-        success: false, 
-        error: 'No extensions data received from PBX',
-        data: response
+    // Allow overriding for testing purposes
+    const botToken = overrideBotToken || telegramConfig?.bot_token;
+    const chatId = overrideChatId || telegramConfig?.chat_id;
+    const isEnabled = telegramConfig?.enabled;
+
+    if (!botToken || !chatId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Telegram not configured. Please set bot token and chat ID.'
       });
     }
 
-    const extensions = response.extinfos;
+    let messageText = '';
     
-    if (!extensions.length) {
-      return res.status(500).json({ 
-        success: false, 
-        error: 'Extensions array is empty' 
-      });
+    // Format Nairobi timezone for all messages
+    const nairobiTime = new Date().toLocaleString('en-KE', {
+      timeZone: 'Africa/Nairobi',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: true
+    });
+    
+    // Handle test message
+    if (action === 'test') {
+      messageText = 'Telegram Connection Test \n\n';
+      messageText += 'Your bot is properly configured and connected.\n';
+      messageText += `Time: ${nairobiTime} (Nairobi, UTC+3)\n`;
+    }
+    // Gather data based on action type
+    else if (action === 'sms_logs') {
+      // Get SMS from today only - use SUBSTR to handle mixed timestamp formats
+      const today = new Date().toISOString().split('T')[0];
+      const smsMessages = db.db.prepare(`
+        SELECT * FROM sms_messages 
+        WHERE SUBSTR(received_at, 1, 10) = ?
+        ORDER BY received_at DESC LIMIT 20
+      `).all(today);
+      
+      messageText = 'SMS LOGS (TODAY)\n\n';
+      if (smsMessages.length === 0) {
+        messageText += 'No SMS messages today.';
+      } else {
+        smsMessages.forEach((msg, idx) => {
+          messageText += `${idx + 1}. From: ${msg.sender_number}\n`;
+          messageText += `   ${msg.message_content?.substring(0, 60)}${msg.message_content?.length > 60 ? '...' : ''}\n`;
+          messageText += `   Time: ${msg.received_at}\n`;
+          messageText += `   Port: ${msg.sim_port}\n\n`;
+        });
+      }
+    } else if (action === 'call_logs') {
+      // Get calls from today only - use SUBSTR to handle mixed timestamp formats
+      const today = new Date().toISOString().split('T')[0];
+      const callRecords = db.db.prepare(`
+        SELECT * FROM call_records 
+        WHERE SUBSTR(start_time, 1, 10) = ?
+        ORDER BY start_time DESC LIMIT 20
+      `).all(today);
+      
+      messageText = 'CALL LOGS (TODAY)\n\n';
+      if (callRecords.length === 0) {
+        messageText += 'No call records today.';
+      } else {
+        callRecords.forEach((call, idx) => {
+          const duration = call.total_duration ? `${Math.floor(call.total_duration / 60)}m` : 'N/A';
+          messageText += `${idx + 1}. From: ${call.caller_number} - To: ${call.callee_number}\n`;
+          messageText += `   Status: ${call.status} | Duration: ${duration}\n`;
+          messageText += `   ${call.start_time}\n\n`;
+        });
+      }
+    } else if (action === 'activity_logs') {
+      // Get activities from today only - use SUBSTR to handle mixed timestamp formats
+      const today = new Date().toISOString().split('T')[0];
+      const activities = db.db.prepare(`
+        SELECT * FROM activity_logs 
+        WHERE SUBSTR(created_at, 1, 10) = ?
+        ORDER BY created_at DESC LIMIT 20
+      `).all(today);
+      
+      messageText = 'ACTIVITY LOGS (TODAY)\n\n';
+      if (activities.length === 0) {
+        messageText += 'No activities today.';
+      } else {
+        activities.forEach((activity, idx) => {
+          messageText += `${idx + 1}. [${activity.severity.toUpperCase()}] ${activity.event_type}\n`;
+          messageText += `   ${activity.message}\n`;
+          messageText += `   ${activity.created_at}\n\n`;
+        });
+      }
+    } else if (action === 'gateway_status') {
+      const gatewayConfig = db.getGatewayConfig();
+      const pbxConfig = db.getPbxConfig();
+      const totalPorts = db.db.prepare('SELECT COUNT(*) as cnt FROM sim_port_config').get();
+      const portDetails = db.db.prepare('SELECT port_number, status FROM sim_port_config ORDER BY port_number').all();
+      
+      messageText = 'GATEWAY & PBX STATUS\n\n';
+      messageText += `Gateway IP: ${gatewayConfig?.gateway_ip || 'Not configured'}\n`;
+      messageText += `PBX IP: ${pbxConfig?.pbx_ip || 'Not configured'}\n`;
+      messageText += `Total SIM Ports: ${totalPorts.cnt}\n`;
+      if (portDetails.length > 0) {
+        messageText += `\nPort Details:\n`;
+        portDetails.forEach(port => {
+          const status = port.enabled ? 'ENABLED' : 'DISABLED';
+          messageText += `  Port ${port.port_number}: ${status} - ${port.status}\n`;
+        });
+      } else {
+        messageText += `\nNo SIM ports configured\n`;
+      }
+      messageText += `Time: ${nairobiTime} (Nairobi, UTC+3)\n`;
+    } else if (action === 'system_summary') {
+      const today = new Date().toISOString().split('T')[0];
+      const smsCount = db.db.prepare("SELECT COUNT(*) as cnt FROM sms_messages WHERE SUBSTR(received_at, 1, 10) = ?").get(today);
+      const callCount = db.db.prepare("SELECT COUNT(*) as cnt FROM call_records WHERE SUBSTR(start_time, 1, 10) = ?").get(today);
+      const errorCount = db.db.prepare("SELECT COUNT(*) as cnt FROM activity_logs WHERE severity = 'error' AND SUBSTR(created_at, 1, 10) = ?").get(today);
+      const totalActivity = db.db.prepare("SELECT COUNT(*) as cnt FROM activity_logs WHERE SUBSTR(created_at, 1, 10) = ?").get(today);
+      const totalPorts = db.db.prepare('SELECT COUNT(*) as cnt FROM sim_port_config').get();
+      
+      messageText = 'SYSTEM SUMMARY (TODAY)\n\n';
+      messageText += `SMS Messages: ${smsCount.cnt}\n`;
+      messageText += `Call Records: ${callCount.cnt}\n`;
+      messageText += `Activities: ${totalActivity.cnt}\n`;
+      messageText += `Errors: ${errorCount.cnt}\n`;
+      messageText += `Total SIM Ports: ${totalPorts.cnt}\n`;
+      messageText += `Time: ${nairobiTime} (Nairobi, UTC+3)\n`;
     }
 
-    // Save each extension to database
-    let savedCount = 0;
-    for (const extension of extensions) {
-      const saved = db.saveExtension(extension);
-      if (saved) savedCount++;
+    // Send to Telegram API
+    const telegramApiUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
+    const payload = {
+      chat_id: chatId,
+      text: messageText
+    };
+
+    // Log the telegram send action
+    db.logActivity('telegram_send', `Telegram ${action} sent`, 'success');
+    
+    logger.info(`[Telegram] Sending ${action} message to chat ${chatId}`);
+
+    // Ensure fetch exists (Node 18+ has global fetch; otherwise log)
+    if (typeof fetch === 'undefined') {
+      console.warn('Global fetch not available; Telegram send may fail');
     }
 
-    logger.info(` Synchronized ${savedCount} extensions to database`);
-    res.json({
-      success: true,
-      message: `Synchronized ${savedCount} extensions from PBX`,
-      total: extensions.length,
-      saved: savedCount
-    });
+    // Send to Telegram and wait for result so UI can display success/failure
+    try {
+      const tgResp = await fetch(telegramApiUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      });
+      const tgJson = await tgResp.json().catch(() => ({}));
+
+      if (tgResp.ok && tgJson && tgJson.ok) {
+        logger.info('[Telegram] Message sent successfully');
+        db.logActivity('telegram_send_success', `Telegram ${action} sent to ${chatId}`, 'success');
+        return res.json({ success: true, message: `${action} sent to Telegram`, preview: messageText });
+      }
+      const errMsg = tgJson && tgJson.description ? tgJson.description : `HTTP ${tgResp.status}`;
+      logger.error('[Telegram] Failed to send: %s', errMsg);
+      db.logActivity('telegram_send_failed', `Telegram send failed: ${errMsg}`, 'error');
+      return res.status(502).json({ success: false, error: `Telegram API error: ${errMsg}`, preview: messageText });
+    } catch (err) {
+      logger.error('[Telegram] Error sending: %s', err && err.message ? err.message : err);
+      logErrorToFile(err);
+      db.logActivity('telegram_send_exception', `Telegram send exception: ${err && err.message ? err.message : String(err)}`, 'error');
+      return res.status(500).json({ success: false, error: err && err.message ? err.message : String(err) });
+    }
   } catch (error) {
-    logger.error(`Extension Sync Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // ========================================
-// Call Control APIs (Dial, Hangup, Query)
+// SMS Report Recipients API Endpoints
 // ========================================
 
-// Make a call (dial)
-app.post('/api/pbx-call/dial', async (req, res) => {
+// Get all SMS report recipients
+app.get('/api/sms-report-recipients', (req, res) => {
   try {
-    const { caller, callee, autoanswer = 'no' } = req.body;
-    
-    if (!caller || !callee) {
-      return res.status(400).json({
-        success: false,
-        error: 'caller and callee parameters are required'
-      });
-    }
-
-    logger.info(` Making call: ${caller} -> ${callee}`);
-    const result = await pbxAPI.dialCall(caller, callee, autoanswer);
-    
-    res.json({ success: result.status === 'Success', data: result });
+    const recipients = db.getSmsReportRecipients();
+    res.json({ 
+      success: true, 
+      data: recipients,
+      count: recipients.length
+    });
   } catch (error) {
-    logger.error(`Dial Call Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Hang up a call
-app.post('/api/pbx-call/hangup', async (req, res) => {
+// Add a phone number to receive SMS reports
+app.post('/api/sms-report-recipients', requirePermission('reports.manage'), (req, res) => {
   try {
-    const { extid } = req.body;
-    
-    if (!extid) {
-      return res.status(400).json({
-        success: false,
-        error: 'extid parameter is required'
+    const { phone_number } = req.body;
+
+    if (!phone_number || typeof phone_number !== 'string') {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'phone_number is required and must be a string' 
       });
     }
 
-    logger.info(`📞 Hanging up call for extension: ${extid}`);
-    const result = await pbxAPI.hangupCall(extid);
-    
-    res.json({ success: result.status === 'Success', data: result });
-  } catch (error) {
-    logger.error(`Hangup Call Error: ${error.message}`);
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+    const success = db.addSmsReportRecipient(phone_number);
 
-// Query calls by type or ID
-app.post('/api/pbx-call/query', async (req, res) => {
-  try {
-    const { type, callid } = req.body;
-    
-    logger.info(`📞 Querying calls: type=${type}, callid=${callid}`);
-    const result = await pbxAPI.queryCallsAdvanced(type, callid);
-    
-    res.json({ success: result.status === 'Success', data: result });
+    if (success) {
+      res.json({
+        success: true,
+        message: `Phone number ${phone_number} added to SMS report recipients`,
+        data: { phone_number }
+      });
+    } else {
+      res.status(400).json({
+        success: false,
+        error: `Phone number ${phone_number} may already exist or failed to save`
+      });
+    }
   } catch (error) {
-    logger.error(`Query Calls Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Get call logs - query inbound and outbound calls
-app.post('/api/pbx-call/logs', async (req, res) => {
+// Remove a phone number from SMS report recipients
+app.delete('/api/sms-report-recipients/:phone_number', requirePermission('reports.manage'), (req, res) => {
   try {
-    logger.info(`📊 Fetching call logs...`);
-    
-    // Query both inbound and outbound calls
-    const inboundResult = await pbxAPI.queryCallsAdvanced('inbound');
-    const outboundResult = await pbxAPI.queryCallsAdvanced('outbound');
-    
-    const inboundCalls = inboundResult.Calls || [];
-    const outboundCalls = outboundResult.Calls || [];
-    
-    // Combine and sort by time
-    const allCalls = [
-      ...inboundCalls.map(c => ({ ...c, type: 'inbound' })),
-      ...outboundCalls.map(c => ({ ...c, type: 'outbound' }))
-    ];
-    
-    logger.info(`Call logs fetched: ${inboundCalls.length} inbound, ${outboundCalls.length} outbound`);
-    
-    res.json({
-      success: true,
-      data: {
-        inbound: {
-          count: inboundCalls.length,
-          calls: inboundCalls
-        },
-        outbound: {
-          count: outboundCalls.length,
-          calls: outboundCalls
-        },
-        total: allCalls.length,
-        allCalls
-      }
-    });
-  } catch (error) {
-    logger.error(`Call Logs Error: ${error.message}`);
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+    const { phone_number } = req.params;
 
-// Get ALL call logs stored locally with filtering and pagination
-app.get('/api/call-logs/stored', (req, res) => {
-  try {
-    const { direction, status, extension, limit = 100, offset = 0, sort = 'desc' } = req.query;
-    
-    logger.info(` Getting stored call logs: limit=${limit}, offset=${offset}, filter: direction=${direction}, status=${status}`);
-    
-    // Build WHERE clause for filtering
-    let where = [];
-    let params = [];
-    
-    if (direction && direction !== 'all') {
-      where.push('direction = ?');
-      params.push(direction);
-    }
-    
-    if (status) {
-      where.push('status = ?');
-      params.push(status);
-    }
-    
-    if (extension) {
-      where.push('(extension = ? OR caller_number = ? OR callee_number = ?)');
-      params.push(extension, extension, extension);
+    if (!phone_number) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'phone_number is required' 
+      });
     }
-    
-    const whereClause = where.length > 0 ? 'WHERE ' + where.join(' AND ') : '';
-    const orderBy = sort === 'asc' ? 'ASC' : 'DESC';
-    
-    // Get total count
-    const countQuery = `SELECT COUNT(*) as total FROM call_records ${whereClause}`;
-    const countStmt = db.db.prepare(countQuery);
-    const countResult = countStmt.all(...params);
-    const totalRecords = countResult[0]?.total || 0;
-    
-    // Get paginated records
-    const dataQuery = `
-      SELECT * FROM call_records 
-      ${whereClause}
-      ORDER BY start_time ${orderBy}
-      LIMIT ? OFFSET ?
-    `;
-    
-    const stmt = db.db.prepare(dataQuery);
-    const records = stmt.all(...params, parseInt(limit), parseInt(offset));
-    
-    res.json({
-      success: true,
-      data: {
-        total: totalRecords,
-        count: records.length,
-        limit: parseInt(limit),
-        offset: parseInt(offset),
-        records: records
-      }
-    });
-  } catch (error) {
-    logger.error(`Stored Call Logs Error: ${error.message}`);
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
 
-// Sync and store all call logs from PBX to local database
-app.post('/api/call-logs/sync', async (req, res) => {
-  try {
-    logger.info(` Syncing all call logs from PBX to local storage...`);
-    
-    // Use CDR endpoint to get historical call records
-    // CDR (Call Detail Records) contains all completed calls, not just active ones
-    const token = await pbxAPI.getToken();
-    
-    // Query CDR for last 30 days
-    const endTime = new Date();
-    const startTime = new Date(endTime.getTime() - 30 * 24 * 60 * 60 * 1000);
-    
-    const startStr = startTime.toISOString().split('T')[0];
-    const endStr = endTime.toISOString().split('T')[0];
-    
-    logger.info(` Querying CDR from ${startStr} to ${endStr}`);
-    
-    // Try CDR endpoint
-    let cdrData = [];
-    try {
-      const cdrResponse = await pbxAPI.makeRequest('POST', `/api/v1.1.0/cdr/get_random?token=${token}`, {
-        starttime: startStr,
-        endtime: endStr
+    const success = db.removeSmsReportRecipient(decodeURIComponent(phone_number));
+
+    if (success) {
+      res.json({
+        success: true,
+        message: `Phone number removed from SMS report recipients`,
+        data: { phone_number }
+      });
+    } else {
+      res.status(404).json({
+        success: false,
+        error: 'Phone number not found'
       });
-      
-      if (cdrResponse.data) {
-        cdrData = cdrResponse.data;
-      } else if (cdrResponse.Calls) {
-        cdrData = cdrResponse.Calls;
-      } else if (Array.isArray(cdrResponse)) {
-        cdrData = cdrResponse;
-      }
-      
-      logger.info(` CDR query returned ${cdrData.length} call records`);
-    } catch (err) {
-      logger.warn(`CDR query failed: ${err.message}`);
-    }
-    
-    let savedCount = 0;
-    let skippedCount = 0;
-    
-    // Save CDR records
-    for (const call of cdrData) {
-      const record = {
-        external_id: call.id || call.callid || `cdr_${Date.now()}`,
-        caller_number: call.src || call.caller || call.from,
-        callee_number: call.dst || call.callee || call.to,
-        caller_name: call.src_name || call.caller_name,
-        callee_name: call.dst_name || call.callee_name,
-        direction: call.direction || (call.type === 'in' ? 'inbound' : 'outbound'),
-        status: call.status || 'completed',
-        extension: call.extension || call.ext,
-        start_time: call.starttime || call.start_time,
-        answer_time: call.answer_time,
-        end_time: call.endtime || call.end_time,
-        ring_duration: call.ring_duration || 0,
-        talk_duration: call.duration || call.billsec || 0,
-        total_duration: call.duration || 0,
-        recording_url: call.recording_file || call.recordingfile
-      };
-      
-      if (db.saveCallRecord(record)) {
-        savedCount++;
-      } else {
-        skippedCount++;
-      }
     }
-    
-    // Also query live inbound/outbound for current calls
-    logger.info(`📞 Also checking for current active calls...`);
-    const inboundResult = await pbxAPI.queryCallsAdvanced('inbound');
-    const outboundResult = await pbxAPI.queryCallsAdvanced('outbound');
-    
-    const inboundCalls = inboundResult.Calls || [];
-    const outboundCalls = outboundResult.Calls || [];
-    
-    logger.info(`Found ${inboundCalls.length} active inbound + ${outboundCalls.length} active outbound calls`);
-    
-    res.json({
-      success: true,
-      data: {
-        cdr_records: cdrData.length,
-        active_inbound: inboundCalls.length,
-        active_outbound: outboundCalls.length,
-        saved: savedCount,
-        skipped: skippedCount,
-        total: cdrData.length
-      }
-    });
   } catch (error) {
-    logger.error(`Sync Call Logs Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Get extensions from database
-app.get('/api/extensions', (req, res) => {
+// ========================================
+// SMS Templates API Endpoints
+// ========================================
+
+app.get('/api/sms-templates', (req, res) => {
   try {
-    logger.info(' Getting extensions from database...');
-    const extensions = db.getExtensions();
-    const stats = db.getExtensionStats();
-    
-    res.json({
-      success: true,
-      data: {
-        extensions,
-        stats
-      }
-    });
+    const templates = db.getSmsTemplates ? db.getSmsTemplates() : [];
+    res.json({ success: true, data: templates });
   } catch (error) {
-    logger.error(`Get Extensions DB Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Get single extension
-app.get('/api/extensions/:extnumber', (req, res) => {
+// Notification alert templates endpoints
+app.get('/api/notification-templates', (req, res) => {
   try {
-    const { extnumber } = req.params;
-    logger.info(`📞 Getting extension ${extnumber} from database...`);
-    
-    const extensions = db.getExtensions();
-    const extension = extensions.find(ext => ext.extnumber === extnumber);
-    
-    if (!extension) {
-      return res.status(404).json({ 
-        success: false, 
-        error: 'Extension not found' 
-      });
+    const templates = db.getAllNotificationTemplates();
+    res.json({ success: true, data: templates });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/notification-templates/:eventType', requirePermission('notifications.manage'), (req, res) => {
+  try {
+    const { eventType } = req.params;
+    const allowed = ['missed_call', 'new_sms', 'system_error', 'shift_change', 'daily_report', 'callback_notify',
+    'tg_missed_call', 'tg_new_sms', 'tg_system_error', 'tg_shift_change', 'tg_daily_report',
+    'email_missed_call', 'email_new_sms', 'email_system_error', 'email_shift_change', 'email_daily_report',
+    'sms_callback_notify'];
+    if (!allowed.includes(eventType)) {
+      return res.status(400).json({ success: false, error: 'Invalid event type' });
+    }
+    const { template_text } = req.body;
+    if (typeof template_text !== 'string' || !template_text.trim()) {
+      return res.status(400).json({ success: false, error: 'template_text is required' });
+    }
+    const ok = db.saveNotificationTemplate(eventType, template_text);
+    if (ok) res.json({ success: true });
+    else res.status(500).json({ success: false, error: 'Failed to save template' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/sms-templates', requirePermission('sms.automation.manage'), (req, res) => {
+  try {
+    const { name, message } = req.body;
+    if (!name || !message) {
+      return res.status(400).json({ success: false, error: 'name and message are required' });
     }
 
-    res.json({
-      success: true,
-      data: extension
-    });
+    const success = db.createSmsTemplate ? db.createSmsTemplate({ name, message, active: true }) : false;
+    if (!success) {
+      return res.status(500).json({ success: false, error: 'Failed to create template' });
+    }
+
+    res.json({ success: true, message: 'Template created' });
   } catch (error) {
-    logger.error(`Get Extension Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Get call logs for specific extension
-app.get('/api/extensions/:extnumber/call-logs', (req, res) => {
+app.put('/api/sms-templates/:id', requirePermission('sms.automation.manage'), (req, res) => {
   try {
-    const { extnumber } = req.params;
-    const page = parseInt(req.query.page) || 1;
-    const pageSize = parseInt(req.query.pageSize) || 50;
-    const offset = (page - 1) * pageSize;
-    
-    // Get total count of calls for this extension
-    const countStmt = db.db.prepare(`
-      SELECT COUNT(*) as total FROM call_records
-      WHERE extension = ? OR caller_number = ? OR callee_number = ?
-    `);
-    const { total } = countStmt.get(extnumber, extnumber, extnumber);
-    
-    // Get paginated call records
-    const stmt = db.db.prepare(`
-      SELECT * FROM call_records
-      WHERE extension = ? OR caller_number = ? OR callee_number = ?
-      ORDER BY start_time DESC
-      LIMIT ? OFFSET ?
-    `);
-    const records = stmt.all(extnumber, extnumber, extnumber, pageSize, offset);
-    
-    res.json({
-      success: true,
-      data: records,
-      pagination: {
-        page,
-        pageSize,
-        total,
-        totalPages: Math.ceil(total / pageSize)
-      },
-      extension: extnumber
-    });
+    const { id } = req.params;
+    const { name, message, active = true } = req.body;
+    if (!id || !name || !message) {
+      return res.status(400).json({ success: false, error: 'id, name, and message are required' });
+    }
+
+    const success = db.updateSmsTemplate ? db.updateSmsTemplate(id, { name, message, active }) : false;
+    if (!success) {
+      return res.status(404).json({ success: false, error: 'Template not found or unchanged' });
+    }
+
+    res.json({ success: true, message: 'Template updated' });
   } catch (error) {
-    logger.error(`Get Extension Call Logs Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Sync call logs for specific extension from PBX
-app.post('/api/extensions/:extnumber/sync-call-logs', async (req, res) => {
+app.delete('/api/sms-templates/:id', requirePermission('sms.automation.manage'), (req, res) => {
   try {
-    const { extnumber } = req.params;
-    const days = parseInt(req.query.days) || 7; // Default last 7 days
-    
-    logger.info(`Syncing call logs for extension ${extnumber} (${days} days)...`);
-    
-    // Try to fetch call logs from PBX for this extension
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(endDate.getDate() - days);
-    
-    // Format dates for PBX API (YYYY-MM-DD)
-    const startStr = startDate.toISOString().split('T')[0];
-    const endStr = endDate.toISOString().split('T')[0];
-    
-    const token = await pbxAPI.getToken();
-    const endpoints = [
-      `/api/v2.0.0/cdr/query?token=${token}&starttime=${startStr}&endtime=${endStr}&extension=${extnumber}`,
-      `/api/v1.0.0/cdr/query?access_token=${token}&starttime=${startStr}&endtime=${endStr}&extension=${extnumber}`,
-      `/api/v2.0.0/call/query?token=${token}&extension=${extnumber}`,
-      `/api/v1.0.0/call/query?access_token=${token}&extension=${extnumber}`
-    ];
-    
-    let callData = null;
-    let workingEndpoint = null;
-    
-    for (const endpoint of endpoints) {
-      try {
-        const response = await pbxAPI.makeRequest('GET', endpoint);
-        if (response.status === 'Success' && response.cdr) {
-          callData = response.cdr;
-          workingEndpoint = endpoint;
-          break;
-        }
-      } catch (error) {
-        continue;
-      }
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ success: false, error: 'id is required' });
     }
-    
-    if (!callData) {
-      return res.json({
-        success: true,
-        message: `No call logs API available for extension ${extnumber}`,
-        data: [],
-        note: 'This S100 model may not support call log queries'
-      });
+
+    const success = db.deleteSmsTemplate ? db.deleteSmsTemplate(id) : false;
+    if (!success) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
     }
-    
-    // Save call records to database
-    let savedCount = 0;
-    for (const call of callData) {
-      const record = {
-        external_id: call.uniqueid,
-        caller_number: call.src,
-        callee_number: call.dst,
-        extension: extnumber,
-        direction: call.disposition === 'ANSWERED' ? 'inbound' : 'outbound',
-        status: call.disposition,
-        start_time: call.calldate,
-        answer_time: call.answertime,
-        end_time: call.endtime,
-        total_duration: call.billsec,
-        metadata: call
-      };
-      
-      if (db.saveCallRecord(record)) {
-        savedCount++;
-      }
+
+    res.json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// Auto-Reply Config API Endpoints
+// ========================================
+
+app.get('/api/auto-reply-config', (req, res) => {
+  try {
+    const config = db.getAutoReplyConfig ? db.getAutoReplyConfig() : null;
+    res.json({ success: true, data: config });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/auto-reply-config', requirePermission('sms.automation.manage'), (req, res) => {
+  try {
+    const { enabled, message, notification_email } = req.body;
+    if (message === undefined) {
+      return res.status(400).json({ success: false, error: 'message is required' });
     }
-    
-    res.json({
-      success: true,
-      message: `Synced ${savedCount} call logs for extension ${extnumber}`,
-      saved: savedCount,
-      total: callData.length,
-      endpoint: workingEndpoint
-    });
+    const success = db.saveAutoReplyConfig
+      ? db.saveAutoReplyConfig({ enabled: !!enabled, message, notification_email })
+      : false;
+    if (!success) {
+      return res.status(500).json({ success: false, error: 'Failed to save auto-reply config' });
+    }
+    res.json({ success: true, message: 'Auto-reply config saved' });
   } catch (error) {
-    logger.error(`Extension Call Log Sync Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // ========================================
-// Call Records API Endpoints
+// Keyword Auto-Reply Rules API Endpoints
 // ========================================
 
-// Save a call record
-app.post('/api/call-records', (req, res) => {
-  try {
-    const success = db.saveCallRecord(req.body);
-    if (success) {
-      res.json({ success: true, message: 'Call record saved' });
-    } else {
-      res.status(500).json({ success: false, error: 'Failed to save call record' });
-    }
-  } catch (error) {
-    logger.error(`Save Call Record Error: ${error.message}`);
-    res.status(500).json({ success: false, error: error.message });
+const HHMM_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Returns an error message, or null when the rule is valid
+function validateAutoReplyRule(rule) {
+  if (!rule.name || !String(rule.name).trim()) return 'name is required';
+  if (!['exact', 'keyword', 'regex'].includes(rule.match_type)) return 'match_type must be exact, keyword or regex';
+  if (!rule.pattern || !String(rule.pattern).trim()) return 'pattern is required';
+  if (rule.match_type === 'regex') {
+    try { new RegExp(rule.pattern); } catch (e) { return `Invalid regex: ${e.message}`; }
   }
-});
+  if (!rule.template_id && !(rule.reply_message && String(rule.reply_message).trim())) {
+    return 'reply_message or template_id is required';
+  }
+  if (rule.gsm_spans && (!Array.isArray(rule.gsm_spans) || rule.gsm_spans.some(span => !Number.isInteger(span) || span < 2 || span > 5))) {
+    return 'gsm_spans must be a list of spans between 2 and 5';
+  }
+  if (rule.active_days && (!Array.isArray(rule.active_days) || rule.active_days.some(day => !Number.isInteger(day) || day < 0 || day > 6))) {
+    return 'active_days must be a list of weekdays (0 = Sunday)';
+  }
+  if (!!rule.active_from !== !!rule.active_to) return 'active_from and active_to must be set together';
+  if (rule.active_from && (!HHMM_PATTERN.test(rule.active_from) || !HHMM_PATTERN.test(rule.active_to))) {
+    return 'active_from / active_to must be HH:MM';
+  }
+  if (rule.cooldown_minutes !== undefined && (!Number.isInteger(rule.cooldown_minutes) || rule.cooldown_minutes < 0)) {
+    return 'cooldown_minutes must be a non-negative integer';
+  }
+  return null;
+}
 
-// Clear test data from database
-app.post('/api/clear-test-data', (req, res) => {
+app.get('/api/auto-reply-rules', requirePermission('sms.automation.manage'), (req, res) => {
   try {
-    const result = db.db.prepare("DELETE FROM call_records WHERE external_id LIKE 'test-call-%'").run();
-    const stats = db.getCallStats();
-    logger.info(` Cleared ${result.changes} test call records`);
-    res.json({ 
-      success: true, 
-      message: `Cleared ${result.changes} test call records from database`,
-      stats: stats
-    });
+    res.json({ success: true, data: db.getAutoReplyRules() });
   } catch (error) {
-    logger.error(`Clear Test Data Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Clear ALL call records from database
-app.post('/api/clear-calls', (req, res) => {
+app.post('/api/auto-reply-rules', requirePermission('sms.automation.manage'), (req, res) => {
   try {
-    const result = db.db.prepare("DELETE FROM call_records").run();
-    logger.info(` Cleared ${result.changes} call records from database`);
-    res.json({ 
-      success: true, 
-      message: `Cleared ${result.changes} call records from database`,
-      deleted: result.changes
-    });
+    const error = validateAutoReplyRule(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, error });
+    }
+    const id = db.saveAutoReplyRule(req.body);
+    if (!id) {
+      return res.status(500).json({ success: false, error: 'Failed to save auto-reply rule' });
+    }
+    db.logActivity('auto_reply_rule_created', `Auto-reply rule "${req.body.name}" created`, 'success');
+    res.json({ success: true, data: db.getAutoReplyRule(id) });
   } catch (error) {
-    logger.error(`Clear Calls Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Sync calls from PBX and store locally
-app.post('/api/pbx-sync-calls', async (req, res) => {
+// Registered before /:id so "reorder" isn't taken as a rule id
+app.put('/api/auto-reply-rules/reorder', requirePermission('sms.automation.manage'), (req, res) => {
   try {
-    logger.info(' Syncing calls from PBX...');
-    const pbxCalls = await pbxAPI.queryCalls();
-    
-    if (pbxCalls && pbxCalls.status === 'Success' && pbxCalls.data) {
-      let savedCount = 0;
-      
-      // Process each call from PBX and save to database
-      for (const call of pbxCalls.data) {
-        const callRecord = {
-          external_id: call.id || call.callid,
-          caller_number: call.from || call.callerid,
-          callee_number: call.to || call.destination,
-          caller_name: call.fromname || null,
-          callee_name: call.toname || null,
-          direction: determineCallDirection(call),
-          status: mapCallStatus(call.status),
-          extension: call.extension || null,
-          start_time: call.starttime || new Date().toISOString(),
-          answer_time: call.answertime || null,
-          end_time: call.endtime || null,
-          ring_duration: call.ringduration || 0,
-          talk_duration: call.duration || 0,
-          total_duration: (call.ringduration || 0) + (call.duration || 0),
-          metadata: call
-        };
-        
-        if (db.saveCallRecord(callRecord)) {
-          savedCount++;
-        }
-      }
-      
-      res.json({ 
-        success: true, 
-        message: `Synced ${savedCount} calls from PBX`, 
-        data: { saved: savedCount, total: pbxCalls.data.length } 
-      });
-    } else {
-      res.json({ 
-        success: false, 
-        message: 'No calls received from PBX or PBX error',
-        error: pbxCalls.errno
-      });
+    const { ids } = req.body;
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ success: false, error: 'ids array is required' });
+    }
+    if (!db.reorderAutoReplyRules(ids)) {
+      return res.status(500).json({ success: false, error: 'Failed to reorder auto-reply rules' });
     }
+    res.json({ success: true, data: db.getAutoReplyRules() });
   } catch (error) {
-    logger.error(`PBX Sync Calls Error: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Helper functions for call processing
-function determineCallDirection(call) {
-  // Basic logic - can be enhanced based on PBX response structure
-  if (call.direction) return call.direction;
-  if (call.from && call.to) {
-    // Check if internal calls (extension to extension)
-    if (/^[1-9]\d{2,3}$/.test(call.from) && /^[1-9]\d{2,3}$/.test(call.to)) {
-      return 'internal';
+app.put('/api/auto-reply-rules/:id', requirePermission('sms.automation.manage'), (req, res) => {
+  try {
+    const existing = db.getAutoReplyRule(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Rule not found' });
     }
-    // If from external number, it's inbound
-    if (!/^[1-9]\d{2,3}$/.test(call.from)) {
-      return 'inbound';
+    const rule = { ...existing, ...req.body };
+    const error = validateAutoReplyRule(rule);
+    if (error) {
+      return res.status(400).json({ success: false, error });
     }
-    // If to external number, it's outbound
-    return 'outbound';
+    db.saveAutoReplyRule(rule, req.params.id);
+    db.logActivity('auto_reply_rule_updated', `Auto-reply rule "${rule.name}" updated`, 'success');
+    res.json({ success: true, data: db.getAutoReplyRule(req.params.id) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
   }
-  return 'unknown';
-}
-
-function mapCallStatus(status) {
-  if (!status) return 'unknown';
-  const statusLower = status.toLowerCase();
-  
-  const statusMap = {
-    'answered': 'answered',
-    'up': 'answered',
-    'connected': 'answered',
-    'missed': 'missed',
-    'noanswer': 'missed',
-    'no answer': 'missed',
-    'busy': 'busy',
-    'failed': 'failed',
-    'voicemail': 'voicemail'
-  };
-  
-  return statusMap[statusLower] || 'unknown';
-}
-
-// ========================================
-// Channel Setup Endpoints (Telegram credentials + Email SMTP)
-// ========================================
+});
 
-app.get('/api/channel-setup', (req, res) => {
+app.delete('/api/auto-reply-rules/:id', requirePermission('sms.automation.manage'), (req, res) => {
   try {
-    const config = db.getChannelConfig();
-    res.json({ success: true, data: config });
+    const existing = db.getAutoReplyRule(req.params.id);
+    if (!existing || !db.deleteAutoReplyRule(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Rule not found' });
+    }
+    db.logActivity('auto_reply_rule_deleted', `Auto-reply rule "${existing.name}" deleted`, 'success');
+    res.json({ success: true });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.post('/api/channel-setup', (req, res) => {
+// Dry run: which rule would answer this message, and with what text
+app.post('/api/auto-reply-rules/test', requirePermission('sms.automation.manage'), (req, res) => {
   try {
-    const {
-      bot_token,
-      chat_id,
-      email_smtp_host,
-      email_smtp_port,
-      email_smtp_user,
-      email_smtp_pass,
-      email_from,
-      email_recipients,
-      email_smtp_encryption,
-    } = req.body;
-
-    const success = db.saveChannelConfig({
-      bot_token,
-      chat_id,
-      email_smtp_host,
-      email_smtp_port,
-      email_smtp_user,
-      email_smtp_pass,
-      email_from,
-      email_recipients,
-      email_smtp_encryption,
-    });
-
-    if (success) {
-      res.json({ success: true, message: 'Channel credentials saved', data: db.getChannelConfig() });
-    } else {
-      throw new Error('Failed to save channel credentials');
+    const { message, gsm_span, sender = '+254700000000' } = req.body;
+    if (!message) {
+      return res.status(400).json({ success: false, error: 'message is required' });
     }
+    const found = findAutoReplyRule(message, parseInt(gsm_span) || 2);
+    res.json({
+      success: true,
+      data: found
+        ? { rule_id: found.rule.id, rule_name: found.rule.name, reply: renderAutoReplyRule(found.rule, found.match, sender) }
+        : null,
+    });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // ========================================
-// Notification Preferences Endpoints (delivery toggles + schedule)
+// Bulk SMS Campaign API Endpoints
 // ========================================
 
-app.get('/api/notifications-setup', (req, res) => {
+const MAX_CAMPAIGN_RECIPIENTS = 20000;
+
+app.get('/api/sms-campaigns', requirePermission('campaigns.manage'), (req, res) => {
   try {
-    const setup = db.getNotificationsSetup();
-    res.json({ success: true, data: setup });
+    res.json({ success: true, data: db.getCampaigns() });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.post('/api/notifications-setup', (req, res) => {
+app.get('/api/sms-campaigns/:id', requirePermission('campaigns.manage'), (req, res) => {
   try {
-    const {
-      telegram_enabled,
-      email_enabled,
-      sms_reports_enabled,
-      notify_missed_calls,
-      notify_new_sms,
-      notify_system_errors,
-      notify_shift_changes,
-      daily_report_enabled,
-      daily_report_time,
-    } = req.body;
-
-    const success = db.saveNotificationsSetup({
-      telegram_enabled,
-      email_enabled,
-      sms_reports_enabled,
-      notify_missed_calls,
-      notify_new_sms,
-      notify_system_errors,
-      notify_shift_changes,
-      daily_report_enabled,
-      daily_report_time,
-    });
-
-    if (success) {
-      res.json({ success: true, message: 'Notification preferences saved', data: db.getNotificationsSetup() });
-    } else {
-      throw new Error('Failed to save notification preferences');
+    const campaign = db.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
     }
+    res.json({ success: true, data: campaign });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+app.get('/api/sms-campaigns/:id/recipients', requirePermission('campaigns.manage'), (req, res) => {
+  try {
+    const { status, limit = 200, offset = 0 } = req.query;
+    const recipients = db.getCampaignRecipients(req.params.id, {
+      status: status || null,
+      limit: Math.min(parseInt(limit) || 200, 1000),
+      offset: parseInt(offset) || 0,
+    });
+    res.json({ success: true, data: recipients });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-// Test SMS endpoint
-app.post('/api/test-sms', async (req, res) => {
+// Body: { name, template_id?, message?, recipients: [{ phone_number, name?, fields? }],
+//         gsm_spans?, rate_per_minute?, scheduled_at? }
+app.post('/api/sms-campaigns', requirePermission('campaigns.manage'), (req, res) => {
   try {
-    const smsRecipients = db.getSmsReportRecipients();
-    
-    if (!smsRecipients || smsRecipients.length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'No SMS recipients configured',
-        details: 'Please add at least one phone number in Configuration → Setup'
-      });
+    const { name, template_id = null, recipients, gsm_spans = [], rate_per_minute = 6, scheduled_at } = req.body;
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ success: false, error: 'name is required' });
     }
 
-    // Send test SMS to first recipient only
-    const testRecipient = smsRecipients[0];
-    const testMessage = `SMS Gateway Test - System working. Time: ${new Date().toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' })}`;
-    
-    const smsSent = await sendSmsViaGateway(testRecipient.phone_number, testMessage);
-    
-    if (smsSent) {
-      res.json({
-        success: true,
-        message: 'Test SMS sent successfully',
-        details: `Sent to ${testRecipient.phone_number}`,
-        recipientCount: smsRecipients.length
-      });
-    } else {
-      res.status(400).json({
-        success: false,
-        error: 'Failed to send test SMS',
-        details: 'Check SMS gateway configuration (URL, API key) and try again'
-      });
+    // The template text is copied so editing the template later doesn't change a running blast
+    let message = req.body.message;
+    if (!message && template_id) {
+      const template = db.prepare('SELECT message FROM sms_templates WHERE id = ?').get(template_id);
+      message = template?.message;
+    }
+    if (!message || !String(message).trim()) {
+      return res.status(400).json({ success: false, error: 'message or template_id is required' });
+    }
+
+    if (!Array.isArray(recipients) || recipients.length === 0) {
+      return res.status(400).json({ success: false, error: 'recipients array is required' });
+    }
+    if (recipients.length > MAX_CAMPAIGN_RECIPIENTS) {
+      return res.status(400).json({ success: false, error: `A campaign can have at most ${MAX_CAMPAIGN_RECIPIENTS} recipients` });
+    }
+    if (!Array.isArray(gsm_spans) || gsm_spans.some(span => !Number.isInteger(span) || span < 2 || span > 5)) {
+      return res.status(400).json({ success: false, error: 'gsm_spans must be a list of spans between 2 and 5' });
+    }
+    if (!Number.isInteger(rate_per_minute) || rate_per_minute < 1 || rate_per_minute > 30) {
+      return res.status(400).json({ success: false, error: 'rate_per_minute must be between 1 and 30' });
+    }
+
+    const startAt = scheduled_at ? new Date(scheduled_at) : new Date();
+    if (isNaN(startAt.getTime())) {
+      return res.status(400).json({ success: false, error: 'scheduled_at is not a valid date' });
     }
+
+    const valid = recipients
+      .filter(r => r && isValidPhoneNumber(r.phone_number))
+      .map(r => ({
+        phone_number: formatPhoneNumber(String(r.phone_number).replace(/\D/g, '')),
+        name: r.name ? String(r.name).trim() : null,
+        fields: r.fields && typeof r.fields === 'object' ? r.fields : {},
+      }));
+    if (valid.length === 0) {
+      return res.status(400).json({ success: false, error: 'No valid phone numbers in recipients' });
+    }
+
+    const id = db.createCampaign({
+      name: String(name).trim(),
+      message: String(message),
+      template_id,
+      gsm_spans,
+      rate_per_minute,
+      scheduled_at: startAt.toISOString(),
+      created_by: req.currentUserId,
+    }, valid);
+    if (!id) {
+      return res.status(500).json({ success: false, error: 'Failed to create campaign' });
+    }
+
+    const campaign = db.getCampaign(id);
+    db.logActivity('campaign_created', `Campaign "${campaign.name}" scheduled for ${startAt.toLocaleString()} (${campaign.total} recipients)`, 'info', null,
+      JSON.stringify({ campaign_id: id, invalid: recipients.length - valid.length }));
+    campaignTick();
+
+    res.json({ success: true, data: { ...campaign, invalid: recipients.length - valid.length } });
   } catch (error) {
-    res.status(500).json({ 
-      success: false, 
-      error: 'SMS test failed',
-      details: error.message 
-    });
+    res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Test Email endpoint
-app.post('/api/test-email', async (req, res) => {
-  try {
-    const telegramConfig = db.getNotificationConfig();
+// Pause / resume / cancel. A paused campaign finishes the SMS in flight, then stops claiming recipients.
+const CAMPAIGN_TRANSITIONS = {
+  pause: { from: ['scheduled', 'running'], to: 'paused' },
+  resume: { from: ['paused'], to: 'running' },
+  cancel: { from: ['scheduled', 'running', 'paused'], to: 'cancelled' },
+};
 
-    const smtpHost = telegramConfig?.email_smtp_host;
-    const smtpPort = Number(telegramConfig?.email_smtp_port) || 587;
-    const smtpUser = telegramConfig?.email_smtp_user;
-    const smtpPass = telegramConfig?.email_smtp_pass;
-    const emailFrom = telegramConfig?.email_from || smtpUser;
-    const encryption = telegramConfig?.email_smtp_encryption || 'auto';
+for (const [action, transition] of Object.entries(CAMPAIGN_TRANSITIONS)) {
+  app.post(`/api/sms-campaigns/:id/${action}`, requirePermission('campaigns.manage'), (req, res) => {
+    try {
+      const campaign = db.getCampaign(req.params.id);
+      if (!campaign) {
+        return res.status(404).json({ success: false, error: 'Campaign not found' });
+      }
+      if (!transition.from.includes(campaign.status)) {
+        return res.status(409).json({ success: false, error: `Cannot ${action} a ${campaign.status} campaign` });
+      }
 
-    // Check SMTP credentials
-    if (!smtpHost || !smtpUser || !smtpPass) {
-      return res.status(400).json({
-        success: false,
-        error: 'Email SMTP not configured',
-        missingFields: {
-          smtp_host: !smtpHost,
-          smtp_user: !smtpUser,
-          smtp_pass: !smtpPass
-        },
-        details: 'Please configure SMTP credentials in Configuration → Setup'
-      });
-    }
+      // Resuming a campaign paused before its start time puts it back on the schedule
+      const status = action === 'resume' && !campaign.started_at ? 'scheduled' : transition.to;
+      db.setCampaignStatus(campaign.id, status);
+      db.logActivity(`campaign_${action}`, `Campaign "${campaign.name}" ${status} by ${req.currentUserRole}`, 'info', null,
+        JSON.stringify({ campaign_id: campaign.id }));
+      if (status !== 'paused' && status !== 'cancelled') campaignTick();
+      broadcastCampaignProgress(campaign.id);
 
-    // Parse recipients properly (stored as JSON string in DB)
-    let recipients = [];
-    try {
-      const raw = telegramConfig.email_recipients;
-      recipients = Array.isArray(raw) ? raw : JSON.parse(raw || '[]');
-    } catch (e) {
-      recipients = [];
+      res.json({ success: true, data: db.getCampaign(campaign.id) });
+    } catch (error) {
+      res.status(500).json({ success: false, error: error.message });
     }
+  });
+}
 
-    if (recipients.length === 0) {
-      return res.status(400).json({
-        success: false,
-        error: 'No email recipients configured',
-        details: 'Please add at least one email recipient in Configuration → Setup'
-      });
+app.delete('/api/sms-campaigns/:id', requirePermission('campaigns.manage'), (req, res) => {
+  try {
+    const campaign = db.getCampaign(req.params.id);
+    if (!campaign) {
+      return res.status(404).json({ success: false, error: 'Campaign not found' });
     }
-
-    // Build transporter directly so we can return the real SMTP error to the caller
-    const nodemailer = require('nodemailer');
-    let secure = false;
-    let tlsOptions = { rejectUnauthorized: false };
-    if (encryption === 'ssl' || (encryption === 'auto' && smtpPort === 465)) {
-      secure = true;
-    } else if (encryption === 'starttls') {
-      secure = false;
-      tlsOptions = { ...tlsOptions, ciphers: 'SSLv3' };
+    if (campaign.status === 'running' || activeCampaignRuns.has(campaign.id)) {
+      return res.status(409).json({ success: false, error: 'Pause or cancel the campaign before deleting it' });
     }
+    db.deleteCampaign(campaign.id);
+    db.logActivity('campaign_deleted', `Campaign "${campaign.name}" deleted`, 'info');
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    const transporter = nodemailer.createTransport({
-      host: smtpHost,
-      port: smtpPort,
-      secure,
-      auth: { user: smtpUser, pass: smtpPass },
-      tls: tlsOptions
-    });
+// ========================================
+// USSD & SIM Balance API Endpoints
+// ========================================
 
-    const testMessage = `Email Gateway Test - System working correctly.\n\nTime: ${new Date().toLocaleString('en-KE', { timeZone: 'Africa/Nairobi' })}\n\nIf you received this, your SMTP settings are correct.`;
+const USSD_CODE_PATTERN = /^[0-9*#]{1,30}$/;
 
-    await transporter.sendMail({
-      from: emailFrom,
-      to: recipients.join(','),
-      subject: 'SMS Gateway Test Email',
-      text: testMessage
-    });
+// Interactive USSD: send a code, or a menu choice while the previous reply left the session open
+app.post('/api/ussd', requirePermission('sims.manage'), async (req, res) => {
+  try {
+    const gsmSpan = parseInt(req.body.gsm_span);
+    const code = String(req.body.code || '').trim();
+    const timeout = Math.min(Math.max(parseInt(req.body.timeout) || 30, 5), 60);
 
-    logger.info(`✅ Test email sent to ${recipients.join(', ')}`);
+    if (!(gsmSpan >= 2 && gsmSpan <= 5)) {
+      return res.status(400).json({ success: false, error: 'gsm_span must be between 2 and 5' });
+    }
+    if (!USSD_CODE_PATTERN.test(code)) {
+      return res.status(400).json({ success: false, error: 'code may only contain digits, * and #' });
+    }
+
+    db.logActivity('ussd_sent', `USSD ${code} sent on GsmSpan ${gsmSpan} by ${req.currentUserRole}`, 'info', gsmSpan);
+    const ussd = await runUssd(gsmSpan, code, timeout);
     res.json({
       success: true,
-      message: 'Test email sent successfully',
-      details: `Sent to ${recipients.join(', ')}`,
-      recipientCount: recipients.length
+      data: { gsm_span: gsmSpan, code, status: ussd.status, session_open: ussd.sessionOpen, message: ussd.message },
     });
   } catch (error) {
-    logger.error(`Test email failed: ${error.message}`);
-    res.status(400).json({
-      success: false,
-      error: 'Failed to send test email',
-      details: error.message  // real SMTP/nodemailer error surfaced to frontend
-    });
+    const status = /not connected/i.test(error.message) ? 503 : /timeout/i.test(error.message) ? 504 : 500;
+    res.status(status).json({ success: false, error: error.message });
   }
 });
 
-app.post('/api/telegram-send', async (req, res) => {
+// Balance config plus the latest successful reading for every span
+app.get('/api/sim-balances', requireAuth, (req, res) => {
   try {
-    const { action, bot_token: overrideBotToken, chat_id: overrideChatId } = req.body;
-    const telegramConfig = db.getNotificationConfig();
-
-    // Allow overriding for testing purposes
-    const botToken = overrideBotToken || telegramConfig?.bot_token;
-    const chatId = overrideChatId || telegramConfig?.chat_id;
-    const isEnabled = telegramConfig?.enabled;
-
-    if (!botToken || !chatId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Telegram not configured. Please set bot token and chat ID.'
-      });
-    }
-
-    let messageText = '';
-    
-    // Format Nairobi timezone for all messages
-    const nairobiTime = new Date().toLocaleString('en-KE', {
-      timeZone: 'Africa/Nairobi',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: true
+    const latest = db.getLatestSimBalances();
+    const data = db.getSimBalanceConfigs().map(config => {
+      const reading = latest.find(r => r.gsm_span === config.gsm_span) || null;
+      return {
+        ...config,
+        balance: reading ? reading.balance : null,
+        currency: reading ? reading.currency : null,
+        balance_at: reading ? reading.created_at : null,
+        is_low: !!reading && config.low_threshold !== null && reading.balance < config.low_threshold,
+      };
     });
-    
-    // Handle test message
-    if (action === 'test') {
-      messageText = 'Telegram Connection Test \n\n';
-      messageText += 'Your bot is properly configured and connected.\n';
-      messageText += `Time: ${nairobiTime} (Nairobi, UTC+3)\n`;
-    }
-    // Gather data based on action type
-    else if (action === 'sms_logs') {
-      // Get SMS from today only - use SUBSTR to handle mixed timestamp formats
-      const today = new Date().toISOString().split('T')[0];
-      const smsMessages = db.db.prepare(`
-        SELECT * FROM sms_messages 
-        WHERE SUBSTR(received_at, 1, 10) = ?
-        ORDER BY received_at DESC LIMIT 20
-      `).all(today);
-      
-      messageText = 'SMS LOGS (TODAY)\n\n';
-      if (smsMessages.length === 0) {
-        messageText += 'No SMS messages today.';
-      } else {
-        smsMessages.forEach((msg, idx) => {
-          messageText += `${idx + 1}. From: ${msg.sender_number}\n`;
-          messageText += `   ${msg.message_content?.substring(0, 60)}${msg.message_content?.length > 60 ? '...' : ''}\n`;
-          messageText += `   Time: ${msg.received_at}\n`;
-          messageText += `   Port: ${msg.sim_port}\n\n`;
-        });
-      }
-    } else if (action === 'call_logs') {
-      // Get calls from today only - use SUBSTR to handle mixed timestamp formats
-      const today = new Date().toISOString().split('T')[0];
-      const callRecords = db.db.prepare(`
-        SELECT * FROM call_records 
-        WHERE SUBSTR(start_time, 1, 10) = ?
-        ORDER BY start_time DESC LIMIT 20
-      `).all(today);
-      
-      messageText = 'CALL LOGS (TODAY)\n\n';
-      if (callRecords.length === 0) {
-        messageText += 'No call records today.';
-      } else {
-        callRecords.forEach((call, idx) => {
-          const duration = call.total_duration ? `${Math.floor(call.total_duration / 60)}m` : 'N/A';
-          messageText += `${idx + 1}. From: ${call.caller_number} - To: ${call.callee_number}\n`;
-          messageText += `   Status: ${call.status} | Duration: ${duration}\n`;
-          messageText += `   ${call.start_time}\n\n`;
-        });
-      }
-    } else if (action === 'activity_logs') {
-      // Get activities from today only - use SUBSTR to handle mixed timestamp formats
-      const today = new Date().toISOString().split('T')[0];
-      const activities = db.db.prepare(`
-        SELECT * FROM activity_logs 
-        WHERE SUBSTR(created_at, 1, 10) = ?
-        ORDER BY created_at DESC LIMIT 20
-      `).all(today);
-      
-      messageText = 'ACTIVITY LOGS (TODAY)\n\n';
-      if (activities.length === 0) {
-        messageText += 'No activities today.';
-      } else {
-        activities.forEach((activity, idx) => {
-          messageText += `${idx + 1}. [${activity.severity.toUpperCase()}] ${activity.event_type}\n`;
-          messageText += `   ${activity.message}\n`;
-          messageText += `   ${activity.created_at}\n\n`;
-        });
-      }
-    } else if (action === 'gateway_status') {
-      const gatewayConfig = db.getGatewayConfig();
-      const pbxConfig = db.getPbxConfig();
-      const totalPorts = db.db.prepare('SELECT COUNT(*) as cnt FROM sim_port_config').get();
-      const portDetails = db.db.prepare('SELECT port_number, status FROM sim_port_config ORDER BY port_number').all();
-      
-      messageText = 'GATEWAY & PBX STATUS\n\n';
-      messageText += `Gateway IP: ${gatewayConfig?.gateway_ip || 'Not configured'}\n`;
-      messageText += `PBX IP: ${pbxConfig?.pbx_ip || 'Not configured'}\n`;
-      messageText += `Total SIM Ports: ${totalPorts.cnt}\n`;
-      if (portDetails.length > 0) {
-        messageText += `\nPort Details:\n`;
-        portDetails.forEach(port => {
-          const status = port.enabled ? 'ENABLED' : 'DISABLED';
-          messageText += `  Port ${port.port_number}: ${status} - ${port.status}\n`;
-        });
-      } else {
-        messageText += `\nNo SIM ports configured\n`;
-      }
-      messageText += `Time: ${nairobiTime} (Nairobi, UTC+3)\n`;
-    } else if (action === 'system_summary') {
-      const today = new Date().toISOString().split('T')[0];
-      const smsCount = db.db.prepare("SELECT COUNT(*) as cnt FROM sms_messages WHERE SUBSTR(received_at, 1, 10) = ?").get(today);
-      const callCount = db.db.prepare("SELECT COUNT(*) as cnt FROM call_records WHERE SUBSTR(start_time, 1, 10) = ?").get(today);
-      const errorCount = db.db.prepare("SELECT COUNT(*) as cnt FROM activity_logs WHERE severity = 'error' AND SUBSTR(created_at, 1, 10) = ?").get(today);
-      const totalActivity = db.db.prepare("SELECT COUNT(*) as cnt FROM activity_logs WHERE SUBSTR(created_at, 1, 10) = ?").get(today);
-      const totalPorts = db.db.prepare('SELECT COUNT(*) as cnt FROM sim_port_config').get();
-      
-      messageText = 'SYSTEM SUMMARY (TODAY)\n\n';
-      messageText += `SMS Messages: ${smsCount.cnt}\n`;
-      messageText += `Call Records: ${callCount.cnt}\n`;
-      messageText += `Activities: ${totalActivity.cnt}\n`;
-      messageText += `Errors: ${errorCount.cnt}\n`;
-      messageText += `Total SIM Ports: ${totalPorts.cnt}\n`;
-      messageText += `Time: ${nairobiTime} (Nairobi, UTC+3)\n`;
-    }
+    res.json({ success: true, data });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    // Send to Telegram API
-    const telegramApiUrl = `https://api.telegram.org/bot${botToken}/sendMessage`;
-    const payload = {
-      chat_id: chatId,
-      text: messageText
-    };
+app.get('/api/sim-balances/:gsm_span/history', requireAuth, (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit) || 50, 500);
+    res.json({ success: true, data: db.getSimBalanceHistory(parseInt(req.params.gsm_span), limit) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    // Log the telegram send action
-    db.logActivity('telegram_send', `Telegram ${action} sent`, 'success');
-    
-    logger.info(`[Telegram] Sending ${action} message to chat ${chatId}`);
+app.put('/api/sim-balances/:gsm_span/config', requirePermission('sims.manage'), (req, res) => {
+  try {
+    const gsmSpan = parseInt(req.params.gsm_span);
+    const existing = db.getSimBalanceConfig(gsmSpan);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Unknown GSM span' });
+    }
 
-    // Ensure fetch exists (Node 18+ has global fetch; otherwise log)
-    if (typeof fetch === 'undefined') {
-      console.warn('Global fetch not available; Telegram send may fail');
+    const config = { ...existing, ...req.body };
+    if (!USSD_CODE_PATTERN.test(String(config.ussd_code || ''))) {
+      return res.status(400).json({ success: false, error: 'ussd_code may only contain digits, * and #' });
+    }
+    if (!Number.isInteger(config.interval_minutes) || config.interval_minutes < 15) {
+      return res.status(400).json({ success: false, error: 'interval_minutes must be at least 15' });
+    }
+    if (config.low_threshold !== null && (typeof config.low_threshold !== 'number' || config.low_threshold < 0)) {
+      return res.status(400).json({ success: false, error: 'low_threshold must be a non-negative number or null' });
     }
 
-    // Send to Telegram and wait for result so UI can display success/failure
-    try {
-      const tgResp = await fetch(telegramApiUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
-      });
-      const tgJson = await tgResp.json().catch(() => ({}));
+    db.saveSimBalanceConfig(gsmSpan, config);
+    db.logActivity('sim_balance_config_updated', `Balance checks for GsmSpan ${gsmSpan} ${config.enabled ? `every ${config.interval_minutes} min via ${config.ussd_code}` : 'disabled'}`,
+      'info', gsmSpan);
+    res.json({ success: true, data: db.getSimBalanceConfig(gsmSpan) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-      if (tgResp.ok && tgJson && tgJson.ok) {
-        logger.info('[Telegram] Message sent successfully');
-        db.logActivity('telegram_send_success', `Telegram ${action} sent to ${chatId}`, 'success');
-        return res.json({ success: true, message: `${action} sent to Telegram`, preview: messageText });
-      }
-      const errMsg = tgJson && tgJson.description ? tgJson.description : `HTTP ${tgResp.status}`;
-      logger.error('[Telegram] Failed to send: %s', errMsg);
-      db.logActivity('telegram_send_failed', `Telegram send failed: ${errMsg}`, 'error');
-      return res.status(502).json({ success: false, error: `Telegram API error: ${errMsg}`, preview: messageText });
-    } catch (err) {
-      logger.error('[Telegram] Error sending: %s', err && err.message ? err.message : err);
-      logErrorToFile(err);
-      db.logActivity('telegram_send_exception', `Telegram send exception: ${err && err.message ? err.message : String(err)}`, 'error');
-      return res.status(500).json({ success: false, error: err && err.message ? err.message : String(err) });
+app.post('/api/sim-balances/:gsm_span/check', requirePermission('sims.manage'), async (req, res) => {
+  try {
+    const gsmSpan = parseInt(req.params.gsm_span);
+    if (!(gsmSpan >= 2 && gsmSpan <= 5)) {
+      return res.status(400).json({ success: false, error: 'gsm_span must be between 2 and 5' });
     }
+    const reading = await checkSimBalance(gsmSpan, { triggeredBy: 'manual' });
+    res.json({ success: true, data: reading });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // ========================================
-// SMS Report Recipients API Endpoints
+// SIM Health API Endpoints
 // ========================================
 
-// Get all SMS report recipients
-app.get('/api/sms-report-recipients', (req, res) => {
+// Latest sample, recent series and alert state for every span
+app.get('/api/sim-health', requireAuth, (req, res) => {
   try {
-    const recipients = db.getSmsReportRecipients();
-    res.json({ 
-      success: true, 
-      data: recipients,
-      count: recipients.length
+    const hours = Math.min(Math.max(parseInt(req.query.hours) || 24, 1), SIM_HEALTH_RETENTION_DAYS * 24);
+    const history = db.getSimHealthHistory(null, hours);
+    const latest = db.getLatestSimHealthSamples();
+    const alerts = db.getSimHealthAlerts();
+    const sendStats = db.getSimSendStats(SIM_FAILURE_WINDOW_MINUTES);
+
+    const data = [2, 3, 4, 5].map(gsmSpan => {
+      const stats = sendStats.find(s => s.gsm_span === gsmSpan);
+      const alert = alerts.find(a => a.gsm_span === gsmSpan) || {};
+      return {
+        gsm_span: gsmSpan,
+        latest: latest.find(s => s.gsm_span === gsmSpan) || null,
+        samples: history.filter(s => s.gsm_span === gsmSpan),
+        failure_rate: simFailureRate(stats),
+        deregistered_alerted_at: alert.deregistered_alerted_at || null,
+        failure_alerted_at: alert.failure_alerted_at || null,
+      };
     });
+    res.json({ success: true, data });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Add a phone number to receive SMS reports
-app.post('/api/sms-report-recipients', (req, res) => {
+app.get('/api/sim-health/:gsm_span/history', requireAuth, (req, res) => {
   try {
-    const { phone_number } = req.body;
-
-    if (!phone_number || typeof phone_number !== 'string') {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'phone_number is required and must be a string' 
-      });
-    }
-
-    const success = db.addSmsReportRecipient(phone_number);
-
-    if (success) {
-      res.json({
-        success: true,
-        message: `Phone number ${phone_number} added to SMS report recipients`,
-        data: { phone_number }
-      });
-    } else {
-      res.status(400).json({
-        success: false,
-        error: `Phone number ${phone_number} may already exist or failed to save`
-      });
+    const gsmSpan = parseInt(req.params.gsm_span);
+    if (!(gsmSpan >= 2 && gsmSpan <= 5)) {
+      return res.status(400).json({ success: false, error: 'gsm_span must be between 2 and 5' });
     }
+    const hours = Math.min(Math.max(parseInt(req.query.hours) || 24, 1), SIM_HEALTH_RETENTION_DAYS * 24);
+    res.json({ success: true, data: db.getSimHealthHistory(gsmSpan, hours) });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Remove a phone number from SMS report recipients
-app.delete('/api/sms-report-recipients/:phone_number', requireRole('super_admin', 'admin'), (req, res) => {
+// Sample now instead of waiting for the next tick
+app.post('/api/sim-health/sample', requirePermission('sims.manage'), async (req, res) => {
   try {
-    const { phone_number } = req.params;
-
-    if (!phone_number) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'phone_number is required' 
-      });
-    }
-
-    const success = db.removeSmsReportRecipient(decodeURIComponent(phone_number));
-
-    if (success) {
-      res.json({
-        success: true,
-        message: `Phone number removed from SMS report recipients`,
-        data: { phone_number }
-      });
-    } else {
-      res.status(404).json({
-        success: false,
-        error: 'Phone number not found'
-      });
+    const samples = await sampleSimHealth();
+    if (!samples) {
+      return res.status(503).json({ success: false, error: 'Gateway not connected or a sample is already running' });
     }
+    res.json({ success: true, data: db.getLatestSimHealthSamples() });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // ========================================
-// SMS Templates API Endpoints
+// Diagnostics API Endpoints
 // ========================================
 
-app.get('/api/sms-templates', (req, res) => {
+// Result of the last stored run, or null before the first one
+app.get('/api/diagnostics/latest', requirePermission('ai.view'), (req, res) => {
   try {
-    const templates = db.getSmsTemplates ? db.getSmsTemplates() : [];
-    res.json({ success: true, data: templates });
+    const stored = db.getSystemSetting('diagnostics_last_result');
+    res.json({ success: true, data: stored ? JSON.parse(stored) : null });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-// Notification alert templates endpoints
-app.get('/api/notification-templates', (req, res) => {
+// scope 'health' is a read-only look; 'full' also stores recommendations
+app.post('/api/diagnostics/run', requirePermission('ai.manage'), (req, res) => {
   try {
-    const templates = db.getAllNotificationTemplates();
-    res.json({ success: true, data: templates });
+    const scope = req.body?.scope === 'health' ? 'health' : 'full';
+    const result = runDiagnostics({ persist: scope === 'full', triggeredBy: 'manual' });
+    res.json({ success: true, data: result });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.post('/api/notification-templates/:eventType', (req, res) => {
+// ========================================
+// AI Recommendations API Endpoints
+// ========================================
+
+app.get('/api/ai-recommendations', requirePermission('ai.view'), (req, res) => {
   try {
-    const { eventType } = req.params;
-    const allowed = ['missed_call', 'new_sms', 'system_error', 'shift_change', 'daily_report', 'callback_notify',
-    'tg_missed_call', 'tg_new_sms', 'tg_system_error', 'tg_shift_change', 'tg_daily_report',
-    'email_missed_call', 'email_new_sms', 'email_system_error', 'email_shift_change', 'email_daily_report',
-    'sms_callback_notify'];
-    if (!allowed.includes(eventType)) {
-      return res.status(400).json({ success: false, error: 'Invalid event type' });
-    }
-    const { template_text } = req.body;
-    if (typeof template_text !== 'string' || !template_text.trim()) {
-      return res.status(400).json({ success: false, error: 'template_text is required' });
-    }
-    const ok = db.saveNotificationTemplate(eventType, template_text);
-    if (ok) res.json({ success: true });
-    else res.status(500).json({ success: false, error: 'Failed to save template' });
+    const limit = Math.min(parseInt(req.query.limit) || 100, 500);
+    res.json({ success: true, data: db.getAiRecommendations({ status: req.query.status || null, limit }) });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.post('/api/sms-templates', (req, res) => {
+app.post('/api/ai-recommendations/:id/apply', requirePermission('ai.manage'), (req, res) => {
   try {
-    const { name, message } = req.body;
-    if (!name || !message) {
-      return res.status(400).json({ success: false, error: 'name and message are required' });
+    const recommendation = db.getAiRecommendation(req.params.id);
+    if (!recommendation) {
+      return res.status(404).json({ success: false, error: 'Recommendation not found' });
     }
-
-    const success = db.createSmsTemplate ? db.createSmsTemplate({ name, message, active: true }) : false;
-    if (!success) {
-      return res.status(500).json({ success: false, error: 'Failed to create template' });
+    if (recommendation.status !== 'pending') {
+      return res.status(409).json({ success: false, error: `Recommendation is already ${recommendation.status}` });
     }
+    const updated = applyAiRecommendation(recommendation, req.currentUserId);
+    broadcastEvent('ai.recommendations', { id: updated.id, status: updated.status });
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    const status = /must be|Unknown config/.test(error.message) ? 400 : 500;
+    res.status(status).json({ success: false, error: error.message });
+  }
+});
 
-    res.json({ success: true, message: 'Template created' });
+app.post('/api/ai-recommendations/:id/dismiss', requirePermission('ai.manage'), (req, res) => {
+  try {
+    const recommendation = db.getAiRecommendation(req.params.id);
+    if (!recommendation) {
+      return res.status(404).json({ success: false, error: 'Recommendation not found' });
+    }
+    if (recommendation.status !== 'pending') {
+      return res.status(409).json({ success: false, error: `Recommendation is already ${recommendation.status}` });
+    }
+    const updated = db.updateAiRecommendation(recommendation.id, { status: 'dismissed' });
+    db.logActivity('ai_recommendation_dismissed', `Dismissed "${recommendation.title}"`, 'info', null,
+      JSON.stringify({ recommendation_id: recommendation.id }));
+    broadcastEvent('ai.recommendations', { id: updated.id, status: updated.status });
+    res.json({ success: true, data: updated });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.put('/api/sms-templates/:id', (req, res) => {
+app.post('/api/ai-recommendations/:id/revert', requirePermission('ai.manage'), (req, res) => {
   try {
-    const { id } = req.params;
-    const { name, message, active = true } = req.body;
-    if (!id || !name || !message) {
-      return res.status(400).json({ success: false, error: 'id, name, and message are required' });
+    const recommendation = db.getAiRecommendation(req.params.id);
+    if (!recommendation) {
+      return res.status(404).json({ success: false, error: 'Recommendation not found' });
     }
+    const updated = revertAiRecommendation(recommendation, req.currentUserId);
+    broadcastEvent('ai.recommendations', { id: updated.id, status: updated.status });
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    const status = error.status || (error.message === 'Nothing to revert' ? 409 : 500);
+    res.status(status).json({ success: false, error: error.message });
+  }
+});
 
-    const success = db.updateSmsTemplate ? db.updateSmsTemplate(id, { name, message, active }) : false;
-    if (!success) {
-      return res.status(404).json({ success: false, error: 'Template not found or unchanged' });
-    }
+app.delete('/api/ai-recommendations/resolved', requirePermission('ai.manage'), (req, res) => {
+  try {
+    const deleted = db.deleteResolvedAiRecommendations();
+    broadcastEvent('ai.recommendations', { deleted });
+    res.json({ success: true, data: { deleted } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
 
-    res.json({ success: true, message: 'Template updated' });
+// ========================================
+// Agent Runtime Config API Endpoints
+// ========================================
+
+app.get('/api/agent-config', requirePermission('ai.view'), (req, res) => {
+  try {
+    res.json({ success: true, data: runtimeConfig.describe() });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.delete('/api/sms-templates/:id', requireRole('super_admin', 'admin'), (req, res) => {
+app.put('/api/agent-config/:key', requirePermission('config.system.write'), (req, res) => {
   try {
-    const { id } = req.params;
-    if (!id) {
-      return res.status(400).json({ success: false, error: 'id is required' });
+    const { key } = req.params;
+    if (!runtimeConfig.has(key)) {
+      return res.status(404).json({ success: false, error: `Unknown config key: ${key}` });
     }
-
-    const success = db.deleteSmsTemplate ? db.deleteSmsTemplate(id) : false;
-    if (!success) {
-      return res.status(404).json({ success: false, error: 'Template not found' });
+    const { value, previous } = runtimeConfig.set(key, req.body?.value, { userId: req.currentUserId });
+    if (value !== previous) {
+      db.logActivity('agent_config_updated', `${key} changed from ${previous} to ${value}`, 'info', null,
+        JSON.stringify({ key, from: previous, to: value }));
+      broadcastEvent('agent.config', { key, value });
     }
+    res.json({ success: true, data: runtimeConfig.describe().find(config => config.key === key) });
+  } catch (error) {
+    const status = /must be/.test(error.message) ? 400 : 500;
+    res.status(status).json({ success: false, error: error.message });
+  }
+});
 
-    res.json({ success: true, message: 'Template deleted' });
+// Run the diagnostics and apply every config change they suggest
+app.post('/api/agent-config/auto-tune', requirePermission('config.system.write'), (req, res) => {
+  try {
+    runDiagnostics({ triggeredBy: 'auto_tune' });
+    const applied = [];
+    for (const recommendation of db.getAiRecommendations({ status: 'pending', limit: 500 })) {
+      if (!recommendation.details?.config) continue;
+      const updated = applyAiRecommendation(recommendation, req.currentUserId, { auto: true });
+      if (updated?.details?.applied_change) applied.push(updated.details.applied_change);
+    }
+    if (applied.length > 0) broadcastEvent('ai.recommendations', { applied: applied.length });
+    res.json({ success: true, data: { applied } });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
 // ========================================
-// Auto-Reply Config API Endpoints
+// AI Provider (LLM) API Endpoints
 // ========================================
 
-app.get('/api/auto-reply-config', (req, res) => {
+app.get('/api/llm/status', requireAuth, (req, res) => {
+  const { provider, features, available } = publicLlmConfig();
+  res.json({ success: true, data: { provider, available, features } });
+});
+
+app.get('/api/llm/config', requirePermission('ai.manage'), (req, res) => {
   try {
-    const config = db.getAutoReplyConfig ? db.getAutoReplyConfig() : null;
-    res.json({ success: true, data: config });
+    res.json({ success: true, data: publicLlmConfig() });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
-app.post('/api/auto-reply-config', (req, res) => {
+app.put('/api/llm/config', requirePermission('ai.manage'), (req, res) => {
   try {
-    const { enabled, message, notification_email } = req.body;
-    if (message === undefined) {
-      return res.status(400).json({ success: false, error: 'message is required' });
+    const { provider, base_url, model, api_key, timeout_seconds, features } = req.body || {};
+    if (provider !== undefined && !LLM_PROVIDERS.includes(provider)) {
+      return res.status(400).json({ success: false, error: `provider must be one of: ${LLM_PROVIDERS.join(', ')}` });
     }
-    const success = db.saveAutoReplyConfig
-      ? db.saveAutoReplyConfig({ enabled: !!enabled, message, notification_email })
-      : false;
-    if (!success) {
-      return res.status(500).json({ success: false, error: 'Failed to save auto-reply config' });
+    if (base_url !== undefined && base_url !== '' && !/^https?:\/\/\S+$/i.test(base_url)) {
+      return res.status(400).json({ success: false, error: 'base_url must be an http(s) URL, e.g. http://192.168.1.20:11434/v1' });
     }
-    res.json({ success: true, message: 'Auto-reply config saved' });
+    const nextProvider = provider ?? llmConfig.provider;
+    const nextBaseUrl = base_url ?? llmConfig.base_url;
+    const nextModel = model ?? llmConfig.model;
+    if (nextProvider === 'openai' && (!String(nextBaseUrl).trim() || !String(nextModel).trim())) {
+      return res.status(400).json({ success: false, error: 'An OpenAI-compatible provider needs a base URL and model' });
+    }
+    let seconds = null;
+    if (timeout_seconds !== undefined) {
+      seconds = parseInt(timeout_seconds);
+      if (!(seconds >= 1 && seconds <= 120)) {
+        return res.status(400).json({ success: false, error: 'timeout_seconds must be between 1 and 120' });
+      }
+    }
+
+    if (provider !== undefined) db.setSystemSetting('llm_provider', provider);
+    if (base_url !== undefined) db.setSystemSetting('llm_base_url', String(base_url).trim());
+    if (model !== undefined) db.setSystemSetting('llm_model', String(model).trim());
+    if (api_key !== undefined) db.setSystemSetting('llm_api_key', String(api_key)); // '' clears it
+    if (seconds !== null) db.setSystemSetting('llm_timeout_seconds', String(seconds));
+    for (const feature of LLM_FEATURES) {
+      if (typeof features?.[feature] === 'boolean') db.setSystemSetting(`llm_feature_${feature}`, String(features[feature]));
+    }
+
+    reloadLlmProvider();
+    db.logActivity('llm_config_changed', `AI provider set to ${llmConfig.provider}${llmConfig.model ? ` (${llmConfig.model})` : ''}`, 'info');
+    res.json({ success: true, data: publicLlmConfig() });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+// Round-trip to the configured provider so admins can check the URL and model
+app.post('/api/llm/test', requirePermission('ai.manage'), async (req, res) => {
+  try {
+    if (!llmProvider.available) throw new LlmUnavailableError();
+    const startedAt = Date.now();
+    const reply = await llmProvider.complete([
+      { role: 'user', content: 'Reply with the single word: ok' },
+    ], { task: 'test', maxTokens: 10, temperature: 0 });
+    res.json({ success: true, data: { reply, latency_ms: Date.now() - startedAt, model: llmConfig.model || null } });
+  } catch (error) {
+    const status = error instanceof LlmUnavailableError ? 400 : 502;
+    res.status(status).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/llm/reply-suggestions', requirePermission('sms.send'), async (req, res) => {
+  try {
+    const { phone_number } = req.body || {};
+    if (!phone_number) {
+      return res.status(400).json({ success: false, error: 'phone_number is required' });
+    }
+    const suggestions = await suggestSmsReplies(phone_number);
+    res.json({ success: true, data: { suggestions } });
+  } catch (error) {
+    const status = error instanceof LlmUnavailableError ? 503 : error.message === 'No messages with this number' ? 404 : 502;
+    res.status(status).json({ success: false, error: error.message });
+  }
+});
+
 // ========================================
 // Call Auto-SMS Config API Endpoints
 // ========================================
@@ -4905,7 +8162,7 @@ app.get('/api/call-auto-sms-config', (req, res) => {
   }
 });
 
-app.post('/api/call-auto-sms-config', (req, res) => {
+app.post('/api/call-auto-sms-config', requirePermission('sms.automation.manage'), (req, res) => {
   try {
     const { enabled, answered_message, missed_message, delay_enabled, delay_minutes, duplicate_window, allowed_ports, allowed_extensions, call_direction } = req.body;
     if (!answered_message || !missed_message) {
@@ -4970,7 +8227,7 @@ app.post('/api/sms-report-test', async (req, res) => {
 });
 
 // Manual report generation endpoint
-app.post('/api/manual-report', async (req, res) => {
+app.post('/api/manual-report', requirePermission('reports.manage'), async (req, res) => {
   try {
     const today = new Date().toISOString().split('T')[0];
     const telegramConfig = db.getNotificationConfig();
@@ -5028,6 +8285,11 @@ app.post('/api/manual-report', async (req, res) => {
 
     messageText += `\n========== SMS ==========\n\n`;
     messageText += `Total Messages Received: ${hasSmsData ? smsStats.total_sms : 0}\n`;
+    const summary = await summarizeDailyReport(messageText);
+    if (summary) {
+      messageText += `\n========== SUMMARY ==========\n\n${summary}\n`;
+    }
+
     messageText += `\n========== END REPORT ==========\n`;
 
     logger.info('📊 Generating manual report — sending to all configured channels...');
@@ -5110,24 +8372,190 @@ app.post('/api/manual-report', async (req, res) => {
       logger.info('SMS not enabled — skipping');
     }
 
-    if (channelsSent.length === 0) {
-      logger.warn('⚠️  No channels were able to send the manual report. Errors:', channelErrors);
-      return res.status(400).json({
-        success: false,
-        error: 'No notification channels are configured or enabled.',
-        details: channelErrors.length > 0 ? channelErrors.join('; ') : 'Please configure at least one channel: Telegram (bot token + chat ID), Email (SMTP + recipients), or SMS (recipients).'
-      });
+    if (channelsSent.length === 0) {
+      logger.warn('⚠️  No channels were able to send the manual report. Errors:', channelErrors);
+      return res.status(400).json({
+        success: false,
+        error: 'No notification channels are configured or enabled.',
+        details: channelErrors.length > 0 ? channelErrors.join('; ') : 'Please configure at least one channel: Telegram (bot token + chat ID), Email (SMTP + recipients), or SMS (recipients).'
+      });
+    }
+
+    logger.info(`✅ Manual report delivered via: ${channelsSent.join(', ')}`);
+    res.json({
+      success: true,
+      message: `Report sent via ${channelsSent.join(', ')}`,
+      stats: { calls: callStats, sms: smsStats },
+      sendResults
+    });
+  } catch (error) {
+    logger.error(`Manual report generation failed: ${error.message}`);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// Scheduled Report Definitions API Endpoints
+// ========================================
+
+const REPORT_EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TELEGRAM_CHAT_PATTERN = /^(-?\d+|@\w{5,})$/;
+
+const uniqueTrimmed = (list) => [...new Set((Array.isArray(list) ? list : []).map(item => String(item).trim()).filter(Boolean))];
+
+// Returns { error } or { definition } with every field normalised
+function validateReportDefinition(input) {
+  const name = String(input.name || '').trim();
+  if (!name || name.length > 100) return { error: 'name is required (max 100 characters)' };
+
+  const metrics = uniqueTrimmed(input.metrics);
+  if (metrics.length === 0 || metrics.some(metric => !REPORT_METRICS[metric])) {
+    return { error: `metrics must be a non-empty list of: ${Object.keys(REPORT_METRICS).join(', ')}` };
+  }
+  const dateWindow = input.date_window || 'yesterday';
+  if (!REPORT_WINDOWS.includes(dateWindow)) return { error: `date_window must be one of: ${REPORT_WINDOWS.join(', ')}` };
+
+  const extensions = uniqueTrimmed(input.extensions);
+  if (extensions.some(ext => !/^\d{1,10}$/.test(ext))) return { error: 'extensions must be extension numbers' };
+  const gsmSpans = [...new Set((Array.isArray(input.gsm_spans) ? input.gsm_spans : []).map(Number))];
+  if (gsmSpans.some(span => !Number.isInteger(span) || span < 1 || span > 32)) return { error: 'gsm_spans must be port span numbers' };
+
+  const frequency = input.frequency || 'daily';
+  if (!REPORT_FREQUENCIES.includes(frequency)) return { error: `frequency must be one of: ${REPORT_FREQUENCIES.join(', ')}` };
+  const weekday = input.weekday === undefined || input.weekday === null ? null : Number(input.weekday);
+  if (frequency === 'weekly' && !(Number.isInteger(weekday) && weekday >= 0 && weekday <= 6)) {
+    return { error: 'weekday must be 0 (Sunday) to 6 (Saturday) for weekly reports' };
+  }
+  const monthDay = input.month_day === undefined || input.month_day === null ? null : Number(input.month_day);
+  if (frequency === 'monthly' && !(Number.isInteger(monthDay) && monthDay >= 1 && monthDay <= 28)) {
+    return { error: 'month_day must be 1 to 28 for monthly reports' };
+  }
+  const sendTimes = uniqueTrimmed(input.send_times).sort();
+  if (sendTimes.length === 0 || sendTimes.length > 24 || sendTimes.some(time => !HHMM_PATTERN.test(time))) {
+    return { error: 'send_times must list 1 to 24 times as HH:MM (Nairobi)' };
+  }
+
+  const formats = uniqueTrimmed(input.formats ?? ['pdf']);
+  if (formats.some(format => !REPORT_FORMATS.includes(format))) return { error: `formats must be any of: ${REPORT_FORMATS.join(', ')}` };
+
+  const emailRecipients = uniqueTrimmed(input.email_recipients).map(email => email.toLowerCase());
+  const badEmail = emailRecipients.find(email => !REPORT_EMAIL_PATTERN.test(email));
+  if (badEmail) return { error: `Invalid email address: ${badEmail}` };
+  const telegramChatIds = uniqueTrimmed(input.telegram_chat_ids);
+  const badChat = telegramChatIds.find(chatId => !TELEGRAM_CHAT_PATTERN.test(chatId));
+  if (badChat) return { error: `Invalid Telegram chat: ${badChat} (use a numeric chat id or @channel)` };
+  const smsRecipientIds = uniqueTrimmed(input.sms_recipient_ids);
+  const knownRecipients = new Set(db.getSmsReportRecipients().map(r => String(r.id)));
+  if (smsRecipientIds.some(id => !knownRecipients.has(id))) return { error: 'sms_recipient_ids must be active SMS report recipients' };
+  if (emailRecipients.length + telegramChatIds.length + smsRecipientIds.length === 0) {
+    return { error: 'Add at least one email address, Telegram chat or SMS recipient' };
+  }
+
+  return {
+    definition: {
+      name,
+      enabled: input.enabled !== false,
+      metrics,
+      date_window: dateWindow,
+      extensions,
+      gsm_spans: gsmSpans,
+      frequency,
+      weekday,
+      month_day: monthDay,
+      send_times: sendTimes,
+      formats,
+      email_recipients: emailRecipients,
+      telegram_chat_ids: telegramChatIds,
+      sms_recipient_ids: smsRecipientIds,
+    },
+  };
+}
+
+app.get('/api/report-definitions', requirePermission('reports.manage'), (req, res) => {
+  try {
+    res.json({ success: true, data: db.getReportDefinitions() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/report-definitions', requirePermission('reports.manage'), (req, res) => {
+  try {
+    const { error, definition } = validateReportDefinition(req.body || {});
+    if (error) return res.status(400).json({ success: false, error });
+
+    const id = db.saveReportDefinition(definition, null, req.currentUserId);
+    if (!id) return res.status(500).json({ success: false, error: 'Failed to save report definition' });
+    db.logActivity('report_definition_created', `Report "${definition.name}" created (${definition.frequency} at ${definition.send_times.join(', ')})`, 'info');
+    broadcastEvent('report.definitions', { id });
+    res.json({ success: true, data: db.getReportDefinition(id) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Partial updates are merged over the stored definition, so { enabled } alone toggles it
+app.put('/api/report-definitions/:id', requirePermission('reports.manage'), (req, res) => {
+  try {
+    const existing = db.getReportDefinition(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Report definition not found' });
+
+    const { error, definition } = validateReportDefinition({ ...existing, ...(req.body || {}) });
+    if (error) return res.status(400).json({ success: false, error });
+
+    db.saveReportDefinition(definition, existing.id);
+    db.logActivity('report_definition_updated', `Report "${definition.name}" updated`, 'info');
+    broadcastEvent('report.definitions', { id: existing.id });
+    res.json({ success: true, data: db.getReportDefinition(existing.id) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.delete('/api/report-definitions/:id', requirePermission('reports.manage'), (req, res) => {
+  try {
+    const existing = db.getReportDefinition(req.params.id);
+    if (!existing) return res.status(404).json({ success: false, error: 'Report definition not found' });
+
+    db.deleteReportDefinition(existing.id);
+    db.logActivity('report_definition_deleted', `Report "${existing.name}" deleted`, 'info');
+    broadcastEvent('report.definitions', { id: existing.id });
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Deliver now, outside the schedule
+app.post('/api/report-definitions/:id/send', requirePermission('reports.manage'), async (req, res) => {
+  try {
+    const definition = db.getReportDefinition(req.params.id);
+    if (!definition) return res.status(404).json({ success: false, error: 'Report definition not found' });
+
+    const result = await deliverReport(definition, { triggeredBy: 'manual' });
+    if (result.status === 'failed') {
+      return res.status(502).json({ success: false, error: result.errors.join('; '), data: result });
+    }
+    res.json({ success: true, data: result });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/api/report-definitions/:id/download', requirePermission('reports.manage'), (req, res) => {
+  try {
+    const definition = db.getReportDefinition(req.params.id);
+    if (!definition) return res.status(404).json({ success: false, error: 'Report definition not found' });
+    const format = String(req.query.format || 'pdf');
+    if (!REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ success: false, error: `format must be one of: ${REPORT_FORMATS.join(', ')}` });
     }
 
-    logger.info(`✅ Manual report delivered via: ${channelsSent.join(', ')}`);
-    res.json({
-      success: true,
-      message: `Report sent via ${channelsSent.join(', ')}`,
-      stats: { calls: callStats, sms: smsStats },
-      sendResults
-    });
+    const attachment = renderReportAttachment(buildReport(definition), format);
+    res.setHeader('Content-Type', attachment.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${attachment.filename}"`);
+    res.send(attachment.content);
   } catch (error) {
-    logger.error(`Manual report generation failed: ${error.message}`);
     res.status(500).json({ success: false, error: error.message });
   }
 });
@@ -5384,6 +8812,17 @@ app.get('/api/call-records', (req, res) => {
       whereConditions.push('cr.start_time <= ?');
       params.push(start_time_to);
     }
+
+    // Calls to or from any member of a saved contact segment
+    if (req.query.segment_id) {
+      const segment = db.getContactSegment(req.query.segment_id);
+      if (!segment) {
+        return res.status(404).json({ success: false, error: 'Segment not found' });
+      }
+      const numbers = JSON.stringify(segmentPhoneVariants(segment));
+      whereConditions.push('(cr.caller_number IN (SELECT value FROM json_each(?)) OR cr.callee_number IN (SELECT value FROM json_each(?)))');
+      params.push(numbers, numbers);
+    }
     
     const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
     
@@ -5437,6 +8876,10 @@ app.put('/api/call-records/:id/callback', (req, res) => {
     if (result.changes === 0) {
       return res.status(404).json({ success: false, error: 'Record not found' });
     }
+
+    // Keep the callback workflow in step with the quick "called back" flag
+    const task = callback_attempted ? db.getCallbackTaskByCallRecord(id) : null;
+    if (task && task.status === 'open') broadcastCallbackUpdate(db.closeCallbackTask(task.id, 'manual'));
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
@@ -5501,6 +8944,7 @@ app.get('/api/sms-messages', (req, res) => {
       status,
       since,
       direction,
+      segment_id,
       limit = 100
     } = req.query;
 
@@ -5509,6 +8953,14 @@ app.get('/api/sms-messages', (req, res) => {
     if (status) filters.status = status;
     if (since) filters.since = since;
     if (direction) filters.direction = direction;
+    // Messages from any member of a saved contact segment
+    if (segment_id) {
+      const segment = db.getContactSegment(segment_id);
+      if (!segment) {
+        return res.status(404).json({ success: false, error: 'Segment not found' });
+      }
+      filters.segmentNumbers = segmentPhoneVariants(segment);
+    }
 
     const messages = db.getSMSMessages(filters);
     const responseData = { success: true, data: messages, count: messages.length };
@@ -5521,6 +8973,39 @@ app.get('/api/sms-messages', (req, res) => {
 
 app.post('/api/sms-messages', (req, res) => {
   try {
+    // An outbound message is a request to send, not a log entry: it goes
+    // through the outbox like every other SIM send
+    if (req.body?.direction === 'sent') {
+      const auth = authenticateRequest(req);
+      if (auth.error) return res.status(auth.status).json({ success: false, error: auth.error });
+      if (!auth.permissions.includes('sms.send')) {
+        return res.status(403).json({ success: false, error: 'Forbidden: requires sms.send permission' });
+      }
+
+      const { sender_number, message_content, gsm_span, category } = req.body;
+      const gsmSpan = gsm_span ? parseInt(gsm_span) : null;
+      if (!sender_number || !message_content || !String(message_content).trim()) {
+        return res.status(400).json({ success: false, error: 'sender_number and message_content are required' });
+      }
+      if (!isValidPhoneNumber(sender_number)) {
+        return res.status(400).json({ success: false, error: `Invalid phone number: ${sender_number}` });
+      }
+      if (gsmSpan !== null && (!Number.isInteger(gsmSpan) || gsmSpan < 2 || gsmSpan > 5)) {
+        return res.status(400).json({ success: false, error: 'gsm_span must be between 2 and 5' });
+      }
+
+      const { item, blocked } = enqueueSms(sender_number, String(message_content).trim(), {
+        gsmSpan,
+        source: 'api',
+        category: category || null,
+        createdBy: auth.userId,
+      });
+      if (blocked) {
+        return res.status(409).json({ success: false, error: `${sender_number} has opted out of SMS` });
+      }
+      return res.status(202).json({ success: true, data: item });
+    }
+
     const success = db.insertSMS(req.body);
     if (success) {
       res.json({ success: true });
@@ -5549,7 +9034,7 @@ app.post('/api/sms-messages/bulk', (req, res) => {
   }
 });
 
-app.put('/api/sms-messages/:id/status', (req, res) => {
+app.put('/api/sms-messages/:id/status', requirePermission('sms.manage'), (req, res) => {
   try {
     const { id } = req.params;
     const { status } = req.body;
@@ -5570,14 +9055,10 @@ app.put('/api/sms-messages/:id/status', (req, res) => {
 });
 
 // PUT /api/sms-messages/mark-all-read — mark all messages as read (requires auth)
-app.put('/api/sms-messages/mark-all-read', (req, res) => {
+app.put('/api/sms-messages/mark-all-read', requireAuth, (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-    if (!token) return res.status(401).json({ success: false, error: 'Unauthorized' });
-
-    const [userId, userRole] = token.split(':');
-    if (userRole === 'viewer') return res.status(403).json({ success: false, error: 'Viewers cannot perform this action' });
+    const userRole = req.currentUserRole;
+    if (!hasPermission(req, 'sms.manage')) return res.status(403).json({ success: false, error: 'Forbidden: requires sms.manage permission' });
 
     const changed = db.markAllRead();
     db.logActivity('sms_mark_all_read', `Marked ${changed} messages as read by ${userRole}`, 'success');
@@ -5587,13 +9068,10 @@ app.put('/api/sms-messages/mark-all-read', (req, res) => {
   }
 });
 
-app.delete('/api/sms-messages/all-sent', (req, res) => {
+app.delete('/api/sms-messages/all-sent', requireAuth, (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-    if (!token) return res.status(401).json({ success: false, error: 'Unauthorized' });
-    const [userId, userRole] = token.split(':');
-    if (userRole === 'viewer') return res.status(403).json({ success: false, error: 'Forbidden' });
+    const userRole = req.currentUserRole;
+    if (!hasPermission(req, 'sms.delete')) return res.status(403).json({ success: false, error: 'Forbidden: requires sms.delete permission' });
     const count = db.deleteAllSentSMS();
     db.logActivity('sms_sent_deleted_all', `All ${count} sent SMS deleted by ${userRole}`, 'success');
     res.json({ success: true, deleted: count });
@@ -5602,21 +9080,11 @@ app.delete('/api/sms-messages/all-sent', (req, res) => {
   }
 });
 
-app.delete('/api/sms-messages/:id', (req, res) => {
+app.delete('/api/sms-messages/:id', requireAuth, (req, res) => {
   try {
-    const authHeader = req.headers.authorization;
-    const token = authHeader?.split(' ')[1];
-    
-    if (!token) {
-      return res.status(401).json({ success: false, error: 'Unauthorized' });
-    }
-    
-    // Decode token to get user role (format: user.id:user.role)
-    const [userId, userRole] = token.split(':');
-    
-    // Only admin and operator can delete, viewer cannot
-    if (userRole === 'viewer') {
-      return res.status(403).json({ success: false, error: 'Viewers cannot delete messages' });
+    const userRole = req.currentUserRole;
+    if (!hasPermission(req, 'sms.delete')) {
+      return res.status(403).json({ success: false, error: 'Forbidden: requires sms.delete permission' });
     }
     
     const { id } = req.params;
@@ -5632,6 +9100,185 @@ app.delete('/api/sms-messages/:id', (req, res) => {
   }
 });
 
+// Operator correction of a message's category — stored as feedback the classifier learns from
+app.put('/api/sms-messages/:id/category', requirePermission('sms.manage'), (req, res) => {
+  try {
+    const { id } = req.params;
+    const { category } = req.body;
+
+    if (!SmsClassifier.categories.includes(category)) {
+      return res.status(400).json({ success: false, error: `Category must be one of: ${SmsClassifier.categories.join(', ')}` });
+    }
+
+    const feedback = db.saveCategoryFeedback(id, category, req.currentUserId);
+    if (!feedback) {
+      return res.status(404).json({ success: false, error: 'SMS not found' });
+    }
+
+    db.logActivity('sms_category_corrected', `SMS ${id} recategorised ${feedback.original_category} → ${category}`, 'info', null, JSON.stringify({ sms_id: id, ...feedback }));
+    res.json({ success: true, data: { id, category, category_confidence: 1 } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Re-classify all inbound messages with the current rules + feedback.
+// Runs in batches off the request so a large inbox doesn't block the API.
+const SMS_RECLASSIFY_BATCH_SIZE = 500;
+let smsReclassifyJob = { status: 'idle', total: 0, processed: 0, changed: 0, started_at: null, finished_at: null, error: null };
+
+function runSmsReclassifyBatch(afterRowid) {
+  const result = db.reclassifySMSBatch(afterRowid, SMS_RECLASSIFY_BATCH_SIZE);
+  if (!result) {
+    smsReclassifyJob = { ...smsReclassifyJob, status: 'failed', finished_at: new Date().toISOString(), error: 'Batch update failed' };
+    db.logActivity('sms_reclassify_failed', `SMS re-classification stopped after ${smsReclassifyJob.processed} messages`, 'error');
+    return;
+  }
+
+  smsReclassifyJob.processed += result.processed;
+  smsReclassifyJob.changed += result.changed;
+
+  if (result.processed === SMS_RECLASSIFY_BATCH_SIZE) {
+    setImmediate(() => runSmsReclassifyBatch(result.lastRowid));
+    return;
+  }
+
+  smsReclassifyJob = { ...smsReclassifyJob, status: 'completed', finished_at: new Date().toISOString() };
+  db.logActivity('sms_reclassify_completed', `Re-classified ${smsReclassifyJob.processed} SMS (${smsReclassifyJob.changed} changed)`, 'success');
+  broadcastEvent('sms.status', { reclassified: smsReclassifyJob.changed });
+}
+
+app.post('/api/sms-messages/reclassify', requirePermission('sms.reclassify'), (req, res) => {
+  try {
+    if (smsReclassifyJob.status === 'running') {
+      return res.status(409).json({ success: false, error: 'Re-classification already running', data: smsReclassifyJob });
+    }
+
+    db.retrainClassifier();
+    smsReclassifyJob = {
+      status: 'running',
+      total: db.countReclassifiableSMS(),
+      processed: 0,
+      changed: 0,
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      error: null,
+    };
+    setImmediate(() => runSmsReclassifyBatch(0));
+
+    res.status(202).json({ success: true, data: smsReclassifyJob });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/api/sms-messages/reclassify', requirePermission('sms.reclassify'), (req, res) => {
+  res.json({ success: true, data: smsReclassifyJob });
+});
+
+// Reply to a contact from the conversation view — sent from a SIM on the TG400
+// (not the HTTP gateway) so the customer sees the same number they texted.
+app.post('/api/sms-messages/send', requirePermission('sms.send'), (req, res) => {
+  try {
+    const { to, message, gsm_span } = req.body;
+    const gsmSpan = parseInt(gsm_span);
+
+    if (!to || !message || !String(message).trim()) {
+      return res.status(400).json({ success: false, error: 'to and message are required' });
+    }
+    if (!isValidPhoneNumber(to)) {
+      return res.status(400).json({ success: false, error: `Invalid phone number: ${to}` });
+    }
+    if (!Number.isInteger(gsmSpan) || gsmSpan < 2 || gsmSpan > 5) {
+      return res.status(400).json({ success: false, error: 'gsm_span must be between 2 and 5' });
+    }
+    // Same port restriction the exports apply (ports are gsm_span - 1)
+    const { ports } = exportPermissions(req);
+    if (ports.length > 0 && !ports.includes(gsmSpan - 1)) {
+      return res.status(403).json({ success: false, error: 'Forbidden: port not permitted' });
+    }
+
+    const spanConfig = db.prepare('SELECT gsm_span, name, is_active FROM gsm_span_config WHERE gsm_span = ?').get(gsmSpan);
+    if (!spanConfig) {
+      return res.status(404).json({ success: false, error: 'GSM span not found' });
+    }
+    if (!spanConfig.is_active) {
+      return res.status(400).json({ success: false, error: `GsmSpan ${gsmSpan} is not active` });
+    }
+
+    const text = String(message).trim();
+
+    // Queued rather than sent inline: if the SIM is down or the send fails,
+    // the outbox retries and can fail over to another span
+    const { item, blocked } = enqueueSms(to, text, {
+      gsmSpan,
+      source: 'reply',
+      category: 'reply',
+      createdBy: req.currentUserId || null,
+    });
+
+    if (blocked) {
+      return res.status(409).json({ success: false, error: `${to} has opted out of SMS` });
+    }
+
+    logger.info(`📤 Conversation reply to ${to} queued for GsmSpan ${gsmSpan} (${text.length} chars)`);
+    db.logActivity('sms_reply_queued', `Reply to ${to} queued for GsmSpan ${gsmSpan} by ${req.currentUserRole}`, 'info', gsmSpan);
+    res.status(202).json({ success: true, data: { id: item.id, to, gsm_span: gsmSpan, status: item.status } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Outbound queue for the Sent SMS view: every queued SIM send and its state
+app.get('/api/sms-outbox', requireAuth, (req, res) => {
+  try {
+    const { status } = req.query;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 200, 1), 1000);
+    const items = db.getOutboxMessages({ status: status || null, limit });
+    res.json({ success: true, data: { items, counts: db.getOutboxCounts() } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/sms-outbox/:id/retry', requirePermission('sms.send'), (req, res) => {
+  try {
+    const existing = db.getOutboxMessage(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Message not found' });
+    }
+    if (filterOptedOut([existing.to_number], existing.category || existing.source).length === 0) {
+      return res.status(409).json({ success: false, error: `${existing.to_number} has opted out of SMS` });
+    }
+
+    const item = db.retryOutboxMessage(req.params.id);
+    if (!item) {
+      return res.status(400).json({ success: false, error: `Only failed or cancelled messages can be retried (status is ${existing.status})` });
+    }
+
+    db.logActivity('sms_send_retried', `SMS to ${item.to_number} re-queued by ${req.currentUserRole}`, 'info', item.gsm_span,
+      JSON.stringify({ outbox_id: item.id }));
+    broadcastOutboxStatus(item);
+    setImmediate(() => drainOutbox().catch(error => logger.error(`Outbox drain error: ${error.message}`)));
+    res.json({ success: true, data: item });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/sms-outbox/:id/cancel', requirePermission('sms.send'), (req, res) => {
+  try {
+    const item = db.cancelOutboxMessage(req.params.id);
+    if (!item) {
+      return res.status(400).json({ success: false, error: 'Only queued messages can be cancelled' });
+    }
+    broadcastOutboxStatus(item);
+    res.json({ success: true, data: item });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // ========================================
 // GSM Span Configuration Endpoints
 // ========================================
@@ -5669,7 +9316,7 @@ app.get('/api/gsm-spans/:gsm_span', (req, res) => {
   }
 });
 
-app.put('/api/gsm-spans/:gsm_span', (req, res) => {
+app.put('/api/gsm-spans/:gsm_span', requirePermission('config.gateway.write'), (req, res) => {
   try {
     const { gsm_span } = req.params;
     const { name, phone_number } = req.body;
@@ -5744,6 +9391,7 @@ app.put('/api/port-status/:port_number', (req, res) => {
 
     const success = db.updatePortStatus(parseInt(port_number), statusData);
     if (success) {
+      broadcastEvent('port.status', { ports: [{ gsm_span: parseInt(port_number), ...statusData }] });
       res.json({
         success: true,
         message: 'Port status updated',
@@ -5761,42 +9409,474 @@ app.put('/api/port-status/:port_number', (req, res) => {
 // Activity Logs Endpoints
 // ========================================
 
-app.get('/api/activity-logs', (req, res) => {
-  try {
-    const { severity, limit = 500 } = req.query;
+app.get('/api/activity-logs', (req, res) => {
+  try {
+    const { severity, limit = 500 } = req.query;
+
+    const filters = { limit: parseInt(limit) };
+    if (severity) filters.severity = severity;
+
+    const logs = db.getActivityLogs(filters);
+    res.json({ success: true, data: logs, count: logs.length });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/activity-logs', (req, res) => {
+  try {
+    const { event_type, message, severity = 'info', sim_port = null } = req.body;
+
+    if (!event_type || !message) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'event_type and message are required' 
+      });
+    }
+
+    const log = {
+      id: `log-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      event_type,
+      message,
+      severity,
+      sim_port,
+      created_at: new Date().toISOString(),
+    };
+
+    db.addActivityLog(log);
+    res.status(201).json({ success: true, data: log });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// Export API Endpoints
+// ========================================
+// Full downloads of calls, SMS and activity logs as CSV, XLSX or JSON,
+// streamed a page at a time. Filters match the ones the panels send to the
+// list endpoints; from/to are Nairobi calendar dates (YYYY-MM-DD, both
+// inclusive). Viewers' port and extension permissions always apply.
+
+const EXPORT_PAGE_SIZE = 1000;
+const EXPORT_MAX_ROWS = 1000000; // An XLSX sheet holds 1,048,576 rows
+const EXPORT_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseExportDateRange({ from, to }) {
+  const bound = (date, days = 0) => {
+    const ms = Date.parse(`${date}T00:00:00Z`);
+    return Number.isNaN(ms) ? null : toSqlUtc(ms + days * DAY_MS - NAIROBI_OFFSET_MS);
+  };
+  if ((from && !EXPORT_DATE_PATTERN.test(from)) || (to && !EXPORT_DATE_PATTERN.test(to))) {
+    return { error: 'from and to must be dates as YYYY-MM-DD' };
+  }
+  const range = { from: from ? bound(from) : null, to: to ? bound(to, 1) : null };
+  if ((from && !range.from) || (to && !range.to)) return { error: 'from and to must be valid dates' };
+  if (range.from && range.to && range.from >= range.to) return { error: 'from must not be after to' };
+  return range;
+}
+
+// Per-user port/extension restrictions apply unless the role has data.unrestricted, as in the UI
+function exportPermissions(req) {
+  if (hasPermission(req, 'data.unrestricted')) return { ports: [], extensions: [] };
+  return {
+    ports: db.getUserPortPermissions(req.currentUserId),
+    extensions: db.getUserExtensionPermissions(req.currentUserId),
+  };
+}
+
+// Same cut the SMS panel applies without sms.view_full
+function redactSmsForRole(content, req) {
+  if (hasPermission(req, 'sms.view_full')) return content;
+  const index = String(content || '').indexOf('New Utility balance');
+  return index === -1 ? content : content.substring(0, index).trim();
+}
+
+/**
+ * Stream every matching row in the requested format. fetchPage({limit,
+ * offset}) returns rows or null on a query error; mapRow shapes a row for
+ * the columns.
+ */
+async function streamExport(req, res, { name, columns, fetchPage, mapRow }) {
+  const format = String(req.query.format || 'csv');
+  if (!EXPORT_FORMATS[format]) {
+    return res.status(400).json({ success: false, error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+  }
+
+  // Fail before any bytes go out if the first page cannot be read
+  const firstPage = fetchPage({ limit: EXPORT_PAGE_SIZE, offset: 0 });
+  if (!firstPage) return res.status(500).json({ success: false, error: 'Failed to read export data' });
+
+  const filename = `${name}-${nairobiDate(Date.now())}.${EXPORT_FORMATS[format].extension}`;
+  res.setHeader('Content-Type', EXPORT_FORMATS[format].contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  const writer = new ExportWriter(res, format, columns, { sheetName: name });
+  try {
+    await writer.start();
+    let rows = firstPage;
+    let offset = 0;
+    while (!res.destroyed) {
+      await writer.writeRows(rows.map(mapRow));
+      offset += rows.length;
+      if (rows.length < EXPORT_PAGE_SIZE || offset >= EXPORT_MAX_ROWS) break;
+      rows = fetchPage({ limit: Math.min(EXPORT_PAGE_SIZE, EXPORT_MAX_ROWS - offset), offset });
+      if (!rows) throw new Error('Failed to read export data');
+    }
+    if (res.destroyed) {
+      logger.info(`Export ${filename} cancelled by the client after ${writer.count} rows`);
+      return;
+    }
+    await writer.end();
+    db.logActivity(
+      'data_exported',
+      `Exported ${writer.count} ${name.replace(/-/g, ' ')} row(s) as ${format.toUpperCase()}`,
+      'info',
+      null,
+      JSON.stringify({ user_id: req.currentUserId, filters: req.query, rows: writer.count })
+    );
+  } catch (error) {
+    // Headers are already out; cutting the connection marks the download as failed
+    logger.error(`Export ${filename} failed: ${error.message}`);
+    res.destroy(error);
+  }
+}
+
+app.get('/api/exports/calls', requirePermission('calls.export'), async (req, res) => {
+  try {
+    const range = parseExportDateRange(req.query);
+    if (range.error) return res.status(400).json({ success: false, error: range.error });
+
+    const permissions = exportPermissions(req);
+    const { extension, direction, status, segment_id } = req.query;
+    if (extension && permissions.extensions.length > 0 && !permissions.extensions.includes(String(extension))) {
+      return res.status(403).json({ success: false, error: 'Forbidden: extension not permitted' });
+    }
+    let segmentNumbers = null;
+    if (segment_id) {
+      const segment = db.getContactSegment(segment_id);
+      if (!segment) return res.status(404).json({ success: false, error: 'Segment not found' });
+      segmentNumbers = segmentPhoneVariants(segment);
+    }
+
+    const filters = {
+      extension: extension || null,
+      allowedExtensions: permissions.extensions,
+      direction: direction || null,
+      status: status || null,
+      segmentNumbers,
+      from: range.from,
+      to: range.to,
+    };
+
+    await streamExport(req, res, {
+      name: 'call-records',
+      columns: [
+        { key: 'time', header: 'Time (Nairobi)' },
+        { key: 'direction', header: 'Direction' },
+        { key: 'status', header: 'Status' },
+        { key: 'from', header: 'From' },
+        { key: 'from_name', header: 'From name' },
+        { key: 'to', header: 'To' },
+        { key: 'to_name', header: 'To name' },
+        { key: 'extension', header: 'Extension' },
+        { key: 'ring_seconds', header: 'Ring (s)' },
+        { key: 'talk_seconds', header: 'Talk (s)' },
+        { key: 'total_seconds', header: 'Total (s)' },
+        { key: 'returned', header: 'Returned' },
+        { key: 'notes', header: 'Notes' },
+      ],
+      fetchPage: (page) => db.getCallRecordsExportPage(filters, page),
+      mapRow: (call) => ({
+        time: formatNairobiTime(call.call_time, { seconds: true }),
+        direction: call.direction,
+        status: call.status,
+        from: call.caller_number,
+        from_name: call.caller_extension_username || call.caller_name || '',
+        to: call.callee_number,
+        to_name: call.callee_extension_username || call.callee_name || '',
+        extension: call.extension,
+        ring_seconds: call.ring_duration ?? 0,
+        talk_seconds: call.talk_duration ?? 0,
+        total_seconds: call.total_duration ?? 0,
+        returned: call.direction === 'inbound' && call.status !== 'answered' ? (call.is_returned ? 'Yes' : 'No') : '',
+        notes: call.notes || '',
+      }),
+    });
+  } catch (error) {
+    if (!res.headersSent) res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/api/exports/sms', requirePermission('sms.export'), async (req, res) => {
+  try {
+    const range = parseExportDateRange(req.query);
+    if (range.error) return res.status(400).json({ success: false, error: range.error });
+
+    const permissions = exportPermissions(req);
+    const { sim_port, direction, status, read, category, q, segment_id } = req.query;
+    const simPort = sim_port ? parseInt(sim_port) : null;
+    if (sim_port && !(simPort >= 1 && simPort <= 4)) {
+      return res.status(400).json({ success: false, error: 'sim_port must be between 1 and 4' });
+    }
+    if (simPort && permissions.ports.length > 0 && !permissions.ports.includes(simPort)) {
+      return res.status(403).json({ success: false, error: 'Forbidden: port not permitted' });
+    }
+    let segmentNumbers = null;
+    if (segment_id) {
+      const segment = db.getContactSegment(segment_id);
+      if (!segment) return res.status(404).json({ success: false, error: 'Segment not found' });
+      segmentNumbers = segmentPhoneVariants(segment);
+    }
+
+    const filters = {
+      gsmSpan: simPort ? simPort + 1 : null,
+      allowedGsmSpans: permissions.ports.map(port => port + 1),
+      direction: direction || null,
+      status: status || null,
+      read: ['read', 'unread'].includes(read) ? read : null,
+      category: category || null,
+      search: q ? String(q).trim() : null,
+      segmentNumbers,
+      from: range.from,
+      to: range.to,
+    };
+
+    await streamExport(req, res, {
+      name: 'sms-messages',
+      columns: [
+        { key: 'time', header: 'Time (Nairobi)' },
+        { key: 'direction', header: 'Direction' },
+        { key: 'port', header: 'Port' },
+        { key: 'number', header: 'Number' },
+        { key: 'message', header: 'Message' },
+        { key: 'status', header: 'Status' },
+        { key: 'category', header: 'Category' },
+        { key: 'confidence', header: 'Category confidence' },
+      ],
+      fetchPage: (page) => db.getSmsMessagesExportPage(filters, page),
+      mapRow: (message) => ({
+        time: formatNairobiTime(message.message_time, { seconds: true }),
+        direction: message.direction,
+        port: message.port_name,
+        number: message.sender_number,
+        message: redactSmsForRole(message.message_content, req),
+        status: message.status,
+        category: message.category || 'unknown',
+        confidence: message.category_confidence ?? '',
+      }),
+    });
+  } catch (error) {
+    if (!res.headersSent) res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/api/exports/activity-logs', requirePermission('activity.export'), async (req, res) => {
+  try {
+    const range = parseExportDateRange(req.query);
+    if (range.error) return res.status(400).json({ success: false, error: range.error });
+
+    const filters = {
+      severity: req.query.severity || null,
+      eventType: req.query.event_type || null,
+      from: range.from,
+      to: range.to,
+    };
+
+    await streamExport(req, res, {
+      name: 'activity-logs',
+      columns: [
+        { key: 'time', header: 'Time (Nairobi)' },
+        { key: 'severity', header: 'Severity' },
+        { key: 'event_type', header: 'Event' },
+        { key: 'message', header: 'Message' },
+        { key: 'port', header: 'Port' },
+      ],
+      fetchPage: (page) => db.getActivityLogsExportPage(filters, page),
+      mapRow: (log) => ({
+        time: formatNairobiTime(log.logged_at, { seconds: true }),
+        severity: log.severity,
+        event_type: log.event_type,
+        message: log.message,
+        port: log.sim_port ?? '',
+      }),
+    });
+  } catch (error) {
+    if (!res.headersSent) res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// Analytics Aggregation
+// ========================================
+// SQLite has no timezone database, so counts come back in 15-minute UTC
+// slices and are regrouped into local buckets here with Intl.
+
+const ANALYTICS_DEFAULT_TZ = 'Africa/Nairobi';
+const ANALYTICS_BUCKETS = ['hour', 'day', 'week', 'month'];
+const ANALYTICS_MAX_DAYS = 3660;
+const ANALYTICS_MAX_HOURLY_DAYS = 31;
+const analyticsFormatters = new Map(); // timezone -> Intl.DateTimeFormat
+
+function getZoneFormatter(timeZone) {
+  if (!analyticsFormatters.has(timeZone)) {
+    analyticsFormatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }));
+  }
+  return analyticsFormatters.get(timeZone);
+}
+
+// Wall-clock fields of a UTC instant in the given zone
+function zonedParts(utcMs, timeZone) {
+  const parts = {};
+  for (const part of getZoneFormatter(timeZone).formatToParts(new Date(utcMs))) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour % 24, minute: parts.minute };
+}
+
+function zoneOffsetMs(utcMs, timeZone) {
+  const p = zonedParts(utcMs, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return wallClock - Math.floor(utcMs / 60000) * 60000;
+}
+
+// Local midnight of a YYYY-MM-DD date in the zone, as a UTC instant.
+// Second pass corrects for a DST change between the guess and the answer.
+function zonedMidnightUtc(dateKey, timeZone) {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const guess = Date.UTC(year, month - 1, day);
+  const first = guess - zoneOffsetMs(guess, timeZone);
+  return guess - zoneOffsetMs(first, timeZone);
+}
+
+const pad2 = (n) => String(n).padStart(2, '0');
+const toDateKey = (ms) => new Date(ms).toISOString().slice(0, 10); // ms is a UTC-midnight calendar day
+const toSqliteUtc = (ms) => new Date(ms).toISOString().replace('T', ' ').slice(0, 19);
+
+function analyticsBucketKey(bucket, year, month, day, hour) {
+  const date = `${year}-${pad2(month)}-${pad2(day)}`;
+  if (bucket === 'hour') return `${date} ${pad2(hour)}:00`;
+  if (bucket === 'month') return `${year}-${pad2(month)}`;
+  if (bucket === 'week') {
+    // Weeks start on Monday
+    const dayMs = Date.UTC(year, month - 1, day);
+    const weekday = (new Date(dayMs).getUTCDay() + 6) % 7;
+    return toDateKey(dayMs - weekday * 86400000);
+  }
+  return date;
+}
 
-    const filters = { limit: parseInt(limit) };
-    if (severity) filters.severity = severity;
+function buildAnalytics({ fromDate, toDate, timeZone, bucket }) {
+  const startUtc = zonedMidnightUtc(fromDate, timeZone);
+  const endDayMs = Date.parse(`${toDate}T00:00:00Z`) + 86400000;
+  const endUtc = zonedMidnightUtc(toDateKey(endDayMs), timeZone);
+
+  // Every bucket in the range, so quiet periods show up as zero
+  const buckets = new Map();
+  for (let dayMs = Date.parse(`${fromDate}T00:00:00Z`); dayMs < endDayMs; dayMs += 86400000) {
+    const d = new Date(dayMs);
+    const hours = bucket === 'hour' ? 24 : 1;
+    for (let hour = 0; hour < hours; hour++) {
+      buckets.set(analyticsBucketKey(bucket, d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), hour), 0);
+    }
+  }
+
+  const hourly = new Array(24).fill(0);
+  const portCounts = new Map();
+  let totalMessages = 0;
+
+  for (const row of db.getSmsAnalyticsSlices(toSqliteUtc(startUtc), toSqliteUtc(endUtc))) {
+    const local = zonedParts(Date.parse(`${row.slice.replace(' ', 'T')}:00Z`), timeZone);
+    const key = analyticsBucketKey(bucket, local.year, local.month, local.day, local.hour);
+    buckets.set(key, (buckets.get(key) || 0) + row.count);
+    hourly[local.hour] += row.count;
+    totalMessages += row.count;
+
+    // sim_port (1-4) = gsm_span (2-5) - 1, as the port labels are keyed
+    const port = row.gsm_span ? row.gsm_span - 1 : null;
+    if (port) portCounts.set(port, (portCounts.get(port) || 0) + row.count);
+  }
+
+  const portActivity = Array.from(portCounts.entries())
+    .map(([port, count]) => ({ port, count }))
+    .sort((a, b) => a.port - b.port);
+  const hourlyDistribution = hourly.map((count, hour) => ({ hour, count }));
+  const days = Math.round((endDayMs - Date.parse(`${fromDate}T00:00:00Z`)) / 86400000);
+
+  const extensionBreakdown = db.getCallAnalyticsByExtension(toSqliteUtc(startUtc), toSqliteUtc(endUtc)).map(row => ({
+    extension: row.extension,
+    label: row.username || '',
+    port: row.sim_port || 0,
+    totalCalls: row.total_calls,
+    answeredCalls: row.answered_calls,
+    missedCalls: row.missed_calls,
+    calledBack: row.called_back,
+    // SMS aren't tied to extensions; count those on the extension's SIM
+    smsCount: row.sim_port ? (portCounts.get(row.sim_port) || 0) : 0,
+    totalTalkTime: Math.round(row.total_talk_time || 0),
+    avgTalkTime: row.answered_calls > 0 ? Math.round((row.total_talk_time || 0) / row.answered_calls) : 0,
+  }));
 
-    const logs = db.getActivityLogs(filters);
-    res.json({ success: true, data: logs, count: logs.length });
-  } catch (error) {
-    res.status(500).json({ success: false, error: error.message });
-  }
-});
+  return {
+    dailyMessages: Array.from(buckets.entries()).map(([date, count]) => ({ date, count })),
+    portActivity,
+    hourlyDistribution,
+    totalMessages,
+    averagePerDay: days > 0 ? totalMessages / days : 0,
+    busiestPort: portActivity.length ? [...portActivity].sort((a, b) => b.count - a.count)[0].port : null,
+    peakHour: totalMessages > 0 ? hourlyDistribution.reduce((best, h) => (h.count > best.count ? h : best)).hour : null,
+    extensionBreakdown,
+    range: { from: fromDate, to: toDate, timezone: timeZone, bucket, days },
+  };
+}
 
-app.post('/api/activity-logs', (req, res) => {
+// GET /api/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD&tz=Africa/Nairobi&bucket=day
+// Without from/to: the last `days` days (default 7) up to today in tz.
+app.get('/api/analytics', (req, res) => {
   try {
-    const { event_type, message, severity = 'info', sim_port = null } = req.body;
+    const timeZone = req.query.tz || ANALYTICS_DEFAULT_TZ;
+    try {
+      getZoneFormatter(timeZone);
+    } catch {
+      return res.status(400).json({ success: false, error: `Unknown timezone: ${timeZone}` });
+    }
 
-    if (!event_type || !message) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'event_type and message are required' 
-      });
+    const bucket = req.query.bucket || 'day';
+    if (!ANALYTICS_BUCKETS.includes(bucket)) {
+      return res.status(400).json({ success: false, error: `bucket must be one of ${ANALYTICS_BUCKETS.join(', ')}` });
     }
 
-    const log = {
-      id: `log-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      event_type,
-      message,
-      severity,
-      sim_port,
-      created_at: new Date().toISOString(),
-    };
+    let { from: fromDate, to: toDate } = req.query;
+    if (!fromDate || !toDate) {
+      const today = zonedParts(Date.now(), timeZone);
+      const todayMs = Date.UTC(today.year, today.month - 1, today.day);
+      const days = Math.min(Math.max(parseInt(req.query.days) || 7, 1), ANALYTICS_MAX_DAYS);
+      toDate = toDateKey(todayMs);
+      fromDate = toDateKey(todayMs - (days - 1) * 86400000);
+    }
 
-    db.addActivityLog(log);
-    res.status(201).json({ success: true, data: log });
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    if (!datePattern.test(fromDate) || !datePattern.test(toDate) || Number.isNaN(Date.parse(fromDate)) || Number.isNaN(Date.parse(toDate))) {
+      return res.status(400).json({ success: false, error: 'from and to must be YYYY-MM-DD dates' });
+    }
+    const spanDays = (Date.parse(toDate) - Date.parse(fromDate)) / 86400000 + 1;
+    if (spanDays < 1) {
+      return res.status(400).json({ success: false, error: 'from must not be after to' });
+    }
+    if (spanDays > ANALYTICS_MAX_DAYS) {
+      return res.status(400).json({ success: false, error: `Date range is limited to ${ANALYTICS_MAX_DAYS} days` });
+    }
+    if (bucket === 'hour' && spanDays > ANALYTICS_MAX_HOURLY_DAYS) {
+      return res.status(400).json({ success: false, error: `Hourly buckets are limited to ${ANALYTICS_MAX_HOURLY_DAYS} days` });
+    }
+
+    res.json({ success: true, data: buildAnalytics({ fromDate, toDate, timeZone, bucket }) });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
   }
@@ -6523,9 +10603,18 @@ app.get('/api/clock/active-legacy', (req, res) => {
 
 // ========================================
 
+// GET /api/contacts?tag=vip&segment_id=<id>
 app.get('/api/contacts', (req, res) => {
   try {
-    const contacts = db.getContacts();
+    const { tag, segment_id } = req.query;
+    let filter = null;
+    if (segment_id) {
+      const segment = db.getContactSegment(segment_id);
+      if (!segment) return res.status(404).json({ success: false, error: 'Segment not found' });
+      filter = segment.filter;
+    }
+
+    const contacts = db.getContacts({ tag: tag ? String(tag).toLowerCase() : null, filter });
     res.json({ success: true, data: contacts });
   } catch (error) {
     res.status(500).json({ success: false, error: error.message });
@@ -6546,8 +10635,15 @@ app.get('/api/contacts/:id', (req, res) => {
 
 app.put('/api/contacts/:id', (req, res) => {
   try {
-    const { name, notes } = req.body;
-    const success = db.updateContact(req.params.id, { name, notes });
+    const { name, notes, custom_fields } = req.body;
+    if (custom_fields !== undefined) {
+      const { values, error } = validateCustomFieldValues(custom_fields);
+      if (error) return res.status(400).json({ success: false, error });
+      if (!db.setContactCustomFields(req.params.id, values)) {
+        return res.status(404).json({ success: false, error: 'Contact not found' });
+      }
+    }
+    const success = (name === undefined && notes === undefined) || db.updateContact(req.params.id, { name, notes });
     
     if (success) {
       const updated = db.getContact(req.params.id);
@@ -6583,6 +10679,550 @@ app.post('/api/contacts/merge', (req, res) => {
   }
 });
 
+// ========================================
+// SMS Opt-Out API Endpoints
+// ========================================
+
+app.get('/api/sms-opt-outs', requireAuth, (req, res) => {
+  try {
+    res.json({ success: true, data: db.getOptOuts() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/sms-opt-outs', requirePermission('sms.opt_out'), (req, res) => {
+  try {
+    const { phone_number, reason } = req.body;
+    if (!phone_number || !isValidPhoneNumber(phone_number)) {
+      return res.status(400).json({ success: false, error: 'A valid phone_number is required' });
+    }
+    if (!db.addOptOut({ phoneNumber: phone_number, source: 'manual', reason: reason || null, createdBy: req.currentUserId })) {
+      return res.status(409).json({ success: false, error: `${phone_number} is already opted out` });
+    }
+    db.logActivity('sms_opt_out', `${phone_number} opted out manually by ${req.currentUserRole}`, 'warning', null,
+      JSON.stringify({ phone_number, source: 'manual', reason: reason || null }));
+    res.json({ success: true, data: db.getOptOut(phone_number) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Re-subscribing someone is a consent decision, so it has its own permission
+app.delete('/api/sms-opt-outs/:phone_number', requirePermission('sms.opt_out.remove'), (req, res) => {
+  try {
+    const { phone_number } = req.params;
+    if (!db.removeOptOut(phone_number)) {
+      return res.status(404).json({ success: false, error: 'Number is not on the suppression list' });
+    }
+    db.logActivity('sms_opt_in', `${phone_number} removed from suppression list by ${req.currentUserRole}`, 'info', null,
+      JSON.stringify({ phone_number, source: 'manual' }));
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// Customer Timeline
+// ========================================
+// One chronological view per phone number across SMS, calls, callbacks,
+// opt-outs and staff notes. Numbers match in any local/international form.
+
+const CONTACT_TAG_PATTERN = /^[a-z0-9][a-z0-9 _-]{0,31}$/;
+const CONTACT_MAX_TAGS = 20;
+
+function contactTimelineSummary(phoneNumber) {
+  const contact = db.findContactByPhone(phoneNumber);
+  return {
+    phone_number: contact?.phone_number || phoneNumber,
+    contact: contact ? db.getContact(contact.id) : null,
+    opt_out: db.getOptOut(phoneNumber),
+  };
+}
+
+// GET /api/contacts/by-phone/:phone/timeline?before=<next_before>&limit=50
+// before is the previous page's next_before ("<UTC timestamp>|<item id>");
+// a bare timestamp is also accepted
+app.get('/api/contacts/by-phone/:phone/timeline', requireAuth, (req, res) => {
+  try {
+    const { phone } = req.params;
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 200);
+    const cursor = req.query.before ? String(req.query.before) : null;
+    const separator = cursor ? cursor.indexOf('|') : -1;
+    const before = separator >= 0 ? cursor.substring(0, separator) : cursor;
+    const beforeId = separator >= 0 ? cursor.substring(separator + 1) : null;
+    if (before && Number.isNaN(Date.parse(before.replace(' ', 'T') + 'Z'))) {
+      return res.status(400).json({ success: false, error: 'before must be a timestamp' });
+    }
+
+    const timeline = db.getContactTimeline(phone, { before, beforeId, limit });
+    res.json({ success: true, data: { ...contactTimelineSummary(phone), ...timeline } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/contacts/by-phone/:phone/notes', requirePermission('contacts.edit'), (req, res) => {
+  try {
+    const body = String(req.body.body || '').trim();
+    if (!body) return res.status(400).json({ success: false, error: 'Note text is required' });
+    if (body.length > 2000) return res.status(400).json({ success: false, error: 'Notes are limited to 2000 characters' });
+
+    const contact = db.ensureContact(req.params.phone);
+    if (!contact) throw new Error('Failed to create contact');
+
+    const note = db.addContactNote(contact.id, body, req.currentUserId);
+    if (!note) throw new Error('Failed to save note');
+    res.status(201).json({ success: true, data: note });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Authors can remove their own notes; contacts.moderate can remove any
+app.delete('/api/contact-notes/:id', requirePermission('contacts.edit'), (req, res) => {
+  try {
+    const note = db.getContactNote(req.params.id);
+    if (!note) return res.status(404).json({ success: false, error: 'Note not found' });
+    if (note.created_by !== req.currentUserId && !hasPermission(req, 'contacts.moderate')) {
+      return res.status(403).json({ success: false, error: 'Forbidden: not your note' });
+    }
+    db.deleteContactNote(note.id);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// PUT /api/contacts/by-phone/:phone/tags { tags: string[] } — replaces the set
+app.put('/api/contacts/by-phone/:phone/tags', requirePermission('contacts.edit'), (req, res) => {
+  try {
+    if (!Array.isArray(req.body.tags)) {
+      return res.status(400).json({ success: false, error: 'tags must be an array' });
+    }
+    const tags = [...new Set(req.body.tags.map(tag => String(tag).trim().toLowerCase()).filter(Boolean))];
+    const invalid = tags.find(tag => !CONTACT_TAG_PATTERN.test(tag));
+    if (invalid) {
+      return res.status(400).json({ success: false, error: `Invalid tag "${invalid}": use up to 32 letters, digits, spaces, - or _` });
+    }
+    if (tags.length > CONTACT_MAX_TAGS) {
+      return res.status(400).json({ success: false, error: `A contact can have at most ${CONTACT_MAX_TAGS} tags` });
+    }
+
+    const contact = db.ensureContact(req.params.phone);
+    if (!contact) throw new Error('Failed to create contact');
+
+    const saved = db.setContactTags(contact.id, tags);
+    if (!saved) throw new Error('Failed to save tags');
+    res.json({ success: true, data: saved });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// Contact Fields & Segments
+// ========================================
+// Admins define typed custom fields; segments are saved filter rules over
+// contacts, reused by the contacts list, call records, SMS and campaigns.
+
+const CONTACT_FIELD_TYPES = ['text', 'number', 'date', 'boolean', 'select'];
+const CONTACT_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,31}$/;
+
+// Which operators each value type supports in a segment rule
+const SEGMENT_OPERATORS = {
+  text: ['eq', 'neq', 'contains', 'is_set', 'not_set'],
+  select: ['eq', 'neq', 'is_set', 'not_set'],
+  number: ['eq', 'neq', 'gt', 'lt', 'is_set', 'not_set'],
+  date: ['within_days', 'older_than_days', 'is_set', 'not_set'],
+  boolean: ['is_true', 'is_false'],
+  tag: ['has', 'not_has'],
+};
+const SEGMENT_BUILTIN_FIELDS = {
+  tag: 'tag', name: 'text', source: 'select', notes: 'text',
+  sms_count: 'number', call_count: 'number', first_seen_at: 'date', last_seen_at: 'date',
+};
+const SEGMENT_MAX_RULES = 20;
+
+function validateCustomFieldValues(input) {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'custom_fields must be an object' };
+  }
+  const fields = new Map(db.getContactFields().map(field => [field.field_key, field]));
+  const values = {};
+  for (const [key, raw] of Object.entries(input)) {
+    const field = fields.get(key);
+    if (!field) return { error: `Unknown contact field: ${key}` };
+    if (raw === null || raw === '') {
+      values[key] = null;
+      continue;
+    }
+    switch (field.field_type) {
+      case 'number':
+        if (!Number.isFinite(Number(raw))) return { error: `${field.label} must be a number` };
+        values[key] = Number(raw);
+        break;
+      case 'date':
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(String(raw)) || Number.isNaN(Date.parse(raw))) {
+          return { error: `${field.label} must be a date (YYYY-MM-DD)` };
+        }
+        values[key] = String(raw);
+        break;
+      case 'boolean':
+        values[key] = raw === true || raw === 'true' || raw === 1;
+        break;
+      case 'select':
+        if (!field.options.includes(String(raw))) {
+          return { error: `${field.label} must be one of: ${field.options.join(', ')}` };
+        }
+        values[key] = String(raw);
+        break;
+      default:
+        values[key] = String(raw).trim().substring(0, 500);
+    }
+  }
+  return { values };
+}
+
+// Returns { filter } with normalised rules, or { error }
+function normalizeSegmentFilter(input) {
+  if (!input || typeof input !== 'object' || !Array.isArray(input.rules)) {
+    return { error: 'filter must be { match, rules: [] }' };
+  }
+  if (input.rules.length === 0) return { error: 'A segment needs at least one rule' };
+  if (input.rules.length > SEGMENT_MAX_RULES) return { error: `A segment can have at most ${SEGMENT_MAX_RULES} rules` };
+
+  const customFields = new Map(db.getContactFields().map(field => [field.field_key, field]));
+  const rules = [];
+  for (const rule of input.rules) {
+    const field = String(rule?.field || '');
+    const type = SEGMENT_BUILTIN_FIELDS[field]
+      || (field.startsWith('field:') ? customFields.get(field.substring(6))?.field_type : null);
+    if (!type) return { error: `Unknown field "${field}"` };
+
+    const op = String(rule.op || '');
+    if (!SEGMENT_OPERATORS[type].includes(op)) return { error: `"${op}" can't be used with ${field}` };
+
+    const needsValue = !['is_set', 'not_set', 'is_true', 'is_false'].includes(op);
+    let value = needsValue ? rule.value : null;
+    if (needsValue) {
+      if (value === undefined || value === null || String(value).trim() === '') {
+        return { error: `A value is required for ${field} ${op}` };
+      }
+      if (['gt', 'lt', 'within_days', 'older_than_days'].includes(op) || type === 'number') {
+        value = Number(value);
+        if (!Number.isFinite(value) || (op.endsWith('_days') && value < 0)) {
+          return { error: `${field} ${op} needs a number` };
+        }
+      } else {
+        value = String(value).trim();
+      }
+    }
+    rules.push({ field, op, value });
+  }
+  return { filter: { match: input.match === 'any' ? 'any' : 'all', rules } };
+}
+
+// Every spelling of every member's number, for matching call and SMS rows
+function segmentPhoneVariants(segment) {
+  return db.getContacts({ filter: segment.filter }).flatMap(contact => db.phoneNumberVariants(contact.phone_number));
+}
+
+app.get('/api/contact-tags', requireAuth, (req, res) => {
+  try {
+    res.json({ success: true, data: db.getAllContactTags() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/api/contact-fields', requireAuth, (req, res) => {
+  try {
+    res.json({ success: true, data: db.getContactFields() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+function parseFieldOptions(options) {
+  if (!Array.isArray(options)) return null;
+  const cleaned = [...new Set(options.map(option => String(option).trim()).filter(Boolean))];
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+app.post('/api/contact-fields', requirePermission('contacts.fields.manage'), (req, res) => {
+  try {
+    const field_key = String(req.body.field_key || '').trim().toLowerCase();
+    const label = String(req.body.label || '').trim();
+    const { field_type } = req.body;
+
+    if (!CONTACT_FIELD_KEY_PATTERN.test(field_key)) {
+      return res.status(400).json({ success: false, error: 'field_key must start with a letter and use only a-z, 0-9 and _' });
+    }
+    if (!label) return res.status(400).json({ success: false, error: 'label is required' });
+    if (!CONTACT_FIELD_TYPES.includes(field_type)) {
+      return res.status(400).json({ success: false, error: `field_type must be one of: ${CONTACT_FIELD_TYPES.join(', ')}` });
+    }
+    const options = field_type === 'select' ? parseFieldOptions(req.body.options) : [];
+    if (!options) return res.status(400).json({ success: false, error: 'Select fields need at least one option' });
+    if (db.getContactFields().some(field => field.field_key === field_key)) {
+      return res.status(409).json({ success: false, error: `A field with key "${field_key}" already exists` });
+    }
+
+    const field = db.createContactField({ field_key, label, field_type, options });
+    if (!field) throw new Error('Failed to create field');
+    res.status(201).json({ success: true, data: field });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.put('/api/contact-fields/:id', requirePermission('contacts.fields.manage'), (req, res) => {
+  try {
+    const field = db.getContactField(req.params.id);
+    if (!field) return res.status(404).json({ success: false, error: 'Field not found' });
+
+    const label = req.body.label !== undefined ? String(req.body.label).trim() : undefined;
+    if (label === '') return res.status(400).json({ success: false, error: 'label cannot be empty' });
+    let options;
+    if (field.field_type === 'select' && req.body.options !== undefined) {
+      options = parseFieldOptions(req.body.options);
+      if (!options) return res.status(400).json({ success: false, error: 'Select fields need at least one option' });
+    }
+
+    res.json({ success: true, data: db.updateContactField(field.id, { label, options }) });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.delete('/api/contact-fields/:id', requirePermission('contacts.fields.manage'), (req, res) => {
+  try {
+    const field = db.getContactField(req.params.id);
+    if (!field) return res.status(404).json({ success: false, error: 'Field not found' });
+
+    const usedBy = db.getContactSegments()
+      .filter(segment => segment.filter.rules.some(rule => rule.field === `field:${field.field_key}`))
+      .map(segment => segment.name);
+    if (usedBy.length > 0) {
+      return res.status(409).json({ success: false, error: `Field is used by segment(s): ${usedBy.join(', ')}` });
+    }
+
+    db.deleteContactField(field.id);
+    db.logActivity('contact_field_deleted', `Contact field "${field.label}" deleted by ${req.currentUserRole}`, 'info');
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.get('/api/contact-segments', requireAuth, (req, res) => {
+  try {
+    res.json({ success: true, data: db.getContactSegments() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/contact-segments/preview { filter } — member count before saving
+app.post('/api/contact-segments/preview', requireAuth, (req, res) => {
+  try {
+    const { filter, error } = normalizeSegmentFilter(req.body.filter);
+    if (error) return res.status(400).json({ success: false, error });
+    const contacts = db.getContacts({ filter });
+    res.json({ success: true, data: { member_count: contacts.length, sample: contacts.slice(0, 10) } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.post('/api/contact-segments', requirePermission('contacts.edit'), (req, res) => {
+  try {
+    const name = String(req.body.name || '').trim();
+    if (!name) return res.status(400).json({ success: false, error: 'name is required' });
+    const { filter, error } = normalizeSegmentFilter(req.body.filter);
+    if (error) return res.status(400).json({ success: false, error });
+    if (db.prepare('SELECT id FROM contact_segments WHERE lower(name) = lower(?)').get(name)) {
+      return res.status(409).json({ success: false, error: `A segment named "${name}" already exists` });
+    }
+
+    const segment = db.createContactSegment({
+      name,
+      description: req.body.description ? String(req.body.description).trim() : null,
+      filter,
+      created_by: req.currentUserId,
+    });
+    if (!segment) throw new Error('Failed to create segment');
+    res.status(201).json({ success: true, data: segment });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.put('/api/contact-segments/:id', requirePermission('contacts.edit'), (req, res) => {
+  try {
+    const segment = db.getContactSegment(req.params.id);
+    if (!segment) return res.status(404).json({ success: false, error: 'Segment not found' });
+
+    const name = req.body.name !== undefined ? String(req.body.name).trim() : undefined;
+    if (name === '') return res.status(400).json({ success: false, error: 'name cannot be empty' });
+    if (name && db.prepare('SELECT id FROM contact_segments WHERE lower(name) = lower(?) AND id != ?').get(name, segment.id)) {
+      return res.status(409).json({ success: false, error: `A segment named "${name}" already exists` });
+    }
+    let filter;
+    if (req.body.filter !== undefined) {
+      const normalized = normalizeSegmentFilter(req.body.filter);
+      if (normalized.error) return res.status(400).json({ success: false, error: normalized.error });
+      filter = normalized.filter;
+    }
+
+    const updated = db.updateContactSegment(segment.id, {
+      name,
+      description: req.body.description !== undefined ? (String(req.body.description).trim() || null) : undefined,
+      filter,
+    });
+    res.json({ success: true, data: updated });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+app.delete('/api/contact-segments/:id', requirePermission('contacts.edit'), (req, res) => {
+  try {
+    if (!db.deleteContactSegment(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Segment not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// ========================================
+// Contact File Import
+// ========================================
+// The browser parses CSV / vCard files and maps columns; the agent normalises
+// numbers to E.164 and flags duplicates so the user can review before commit.
+
+const CONTACT_IMPORT_MAX_ROWS = 20000;
+const CONTACT_IMPORT_ACTIONS = {
+  new: ['create', 'skip'],
+  existing: ['merge', 'overwrite', 'skip'],
+  duplicate: ['skip'],
+  invalid: ['skip'],
+};
+
+function importTag(tag) {
+  return String(tag).trim().toLowerCase().replace(/[^a-z0-9 _-]/g, '').substring(0, 32).trim();
+}
+
+// Normalises every row and classifies it against existing contacts and
+// earlier rows in the same file
+function prepareContactImport(contacts) {
+  const index = db.getContactPhoneIndex();
+  const countryCode = db.getDefaultCountryCode();
+  const seen = new Map();
+
+  return contacts.map((input, i) => {
+    const row = {
+      index: i,
+      phone_input: String(input?.phone_number ?? '').trim(),
+      phone_number: toE164(input?.phone_number, countryCode),
+      name: input?.name ? String(input.name).trim().substring(0, 200) : null,
+      notes: input?.notes ? String(input.notes).trim().substring(0, 2000) : null,
+      tags: Array.isArray(input?.tags)
+        ? [...new Set(input.tags.map(importTag).filter(tag => CONTACT_TAG_PATTERN.test(tag)))].slice(0, CONTACT_MAX_TAGS)
+        : [],
+      custom_fields: {},
+      status: 'new',
+      error: null,
+      existing: null,
+      duplicate_of: null,
+    };
+
+    if (!row.phone_number) {
+      return { ...row, status: 'invalid', error: row.phone_input ? 'Not a valid phone number' : 'Missing phone number' };
+    }
+    if (input.custom_fields && Object.keys(input.custom_fields).length > 0) {
+      const { values, error } = validateCustomFieldValues(input.custom_fields);
+      if (error) return { ...row, status: 'invalid', error };
+      row.custom_fields = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null));
+    }
+
+    const key = db.optOutKey(row.phone_number);
+    if (seen.has(key)) return { ...row, status: 'duplicate', duplicate_of: seen.get(key) };
+    seen.set(key, i);
+
+    const existing = index.get(key);
+    return existing ? { ...row, status: 'existing', existing } : row;
+  });
+}
+
+function summarizeContactImport(rows) {
+  return rows.reduce((acc, row) => ({ ...acc, [row.status]: (acc[row.status] || 0) + 1 }),
+    { new: 0, existing: 0, duplicate: 0, invalid: 0 });
+}
+
+function readImportContacts(req, res) {
+  const { contacts } = req.body;
+  if (!Array.isArray(contacts) || contacts.length === 0) {
+    res.status(400).json({ success: false, error: 'contacts must be a non-empty array' });
+    return null;
+  }
+  if (contacts.length > CONTACT_IMPORT_MAX_ROWS) {
+    res.status(400).json({ success: false, error: `A file can have at most ${CONTACT_IMPORT_MAX_ROWS} contacts` });
+    return null;
+  }
+  return contacts;
+}
+
+// POST /api/contacts/import/preview { contacts: [{ phone_number, name?, notes?, tags?, custom_fields? }] }
+app.post('/api/contacts/import/preview', requirePermission('contacts.edit'), (req, res) => {
+  try {
+    const contacts = readImportContacts(req, res);
+    if (!contacts) return;
+    const rows = prepareContactImport(contacts);
+    res.json({ success: true, data: { rows, summary: summarizeContactImport(rows) } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/contacts/import/commit { contacts, decisions: { [index]: action } }
+// The rows are re-checked here, so a contact created since the preview is
+// merged rather than duplicated. Rows without a decision use the default.
+app.post('/api/contacts/import/commit', requirePermission('contacts.edit'), (req, res) => {
+  try {
+    const contacts = readImportContacts(req, res);
+    if (!contacts) return;
+    const decisions = req.body.decisions && typeof req.body.decisions === 'object' ? req.body.decisions : {};
+
+    const rows = prepareContactImport(contacts);
+    const toApply = [];
+    let skipped = 0;
+    for (const row of rows) {
+      const allowed = CONTACT_IMPORT_ACTIONS[row.status];
+      const requested = decisions[row.index];
+      // A "create" decided on a row that now matches an existing contact becomes a merge
+      const action = allowed.includes(requested) ? requested
+        : requested === 'create' && row.status === 'existing' ? 'merge'
+          : allowed[0];
+      if (action === 'skip') {
+        skipped++;
+        continue;
+      }
+      toApply.push({ ...row, action, existing_id: row.existing?.id || null });
+    }
+
+    const result = db.commitContactImport(toApply);
+    if (!result) throw new Error('Import failed; no contacts were changed');
+    res.json({ success: true, data: { ...result, skipped } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // ========================================
 // Google Contacts Integration (Placeholder)
 // ========================================
@@ -6793,7 +11433,7 @@ function ensureGsmSpansExist() {
 // ========================================
 
 // Agents
-app.post('/api/agents', (req, res) => {
+app.post('/api/agents', requirePermission('staff.manage'), (req, res) => {
   try {
     const { name, pin, email, phone, extension, telegram_chat_id, notification_channel } = req.body;
     if (!name) return res.status(400).json({ success: false, error: 'name is required' });
@@ -6832,7 +11472,7 @@ app.get('/api/agents/:id', (req, res) => {
   }
 });
 
-app.put('/api/agents/:id', (req, res) => {
+app.put('/api/agents/:id', requirePermission('staff.manage'), (req, res) => {
   try {
     const { name, email, phone, extension, telegram_chat_id, notification_channel, is_active } = req.body;
     const success = db.updateAgent(req.params.id, { name, email, phone, extension, telegram_chat_id, notification_channel, is_active });
@@ -6848,7 +11488,7 @@ app.put('/api/agents/:id', (req, res) => {
   }
 });
 
-app.post('/api/agents/:id/pin', (req, res) => {
+app.post('/api/agents/:id/pin', requirePermission('staff.manage'), (req, res) => {
   try {
     const { newPin } = req.body;
     if (!newPin) return res.status(400).json({ success: false, error: 'newPin is required' });
@@ -7026,7 +11666,7 @@ app.get('/api/clock/history/:agentId', (req, res) => {
 });
 
 // Shift Schedule
-app.post('/api/shift-schedule', (req, res) => {
+app.post('/api/shift-schedule', requirePermission('staff.manage'), (req, res) => {
   try {
     const { agent_id, shift_date, start_time, end_time, notes } = req.body;
     if (!agent_id || !shift_date || !start_time || !end_time) {
@@ -7071,7 +11711,7 @@ app.get('/api/shift-schedule', (req, res) => {
   }
 });
 
-app.delete('/api/shift-schedule/:id', requireRole('super_admin', 'admin'), (req, res) => {
+app.delete('/api/shift-schedule/:id', requirePermission('staff.manage'), (req, res) => {
   try {
     const success = db.deleteSchedule(req.params.id);
     if (success) {
@@ -7202,7 +11842,7 @@ app.get('/api/clock/today', (req, res) => {
 });
 
 // Bulk create shift schedules
-app.post('/api/shift-schedule/bulk', (req, res) => {
+app.post('/api/shift-schedule/bulk', requirePermission('staff.manage'), (req, res) => {
   try {
     const entries = req.body;
     if (!Array.isArray(entries) || entries.length === 0) {
@@ -7225,7 +11865,7 @@ app.post('/api/shift-schedule/bulk', (req, res) => {
 });
 
 // Update shift schedule (time edit)
-app.put('/api/shift-schedule/:id', (req, res) => {
+app.put('/api/shift-schedule/:id', requirePermission('staff.manage'), (req, res) => {
   try {
     const { start_time, end_time, notes } = req.body;
     const result = db.db.prepare(
@@ -7242,7 +11882,7 @@ app.put('/api/shift-schedule/:id', (req, res) => {
 });
 
 // Reassign shift to a different agent
-app.post('/api/shift-schedule/:id/reassign', (req, res) => {
+app.post('/api/shift-schedule/:id/reassign', requirePermission('staff.manage'), (req, res) => {
   try {
     const { agent_id, newAgentId, notes, reason } = req.body;
     const targetAgentId = agent_id || newAgentId;
@@ -7428,7 +12068,7 @@ app.get('/api/system/update/status', (req, res) => {
 });
 
 // POST start a system update using backend-configured repo/token
-app.post('/api/system/update', (req, res) => {
+app.post('/api/system/update', requirePermission('system.update'), (req, res) => {
   if (updateState.running) {
     return res.status(409).json({ success: false, error: 'Update already in progress' });
   }
@@ -7603,6 +12243,7 @@ const server = app.listen(PORT, HOST, () => {
 // Graceful shutdown
 process.on('SIGINT', () => {
   logger.info('Shutting down server (SIGINT)');
+  closeEventStreams();
   db.close();
   server.close(() => {
     logger.info('Server stopped');
@@ -7657,6 +12298,7 @@ async function checkActiveGsmSpans() {
         }
       }
       
+      broadcastPortStatus(ports);
       logger.info(`[GSM CHECK] ✅ GSM span status updated successfully`);
     } else {
       logger.warn(`[GSM CHECK] No ports returned from TG400`);
@@ -0,0 +1,317 @@
+/**
+ * Offline Diagnostics Engine
+ * Rule-based stand-in for the cloud "AI diagnostics": scores a snapshot of
+ * the agent (error log, activity_logs, SIM health samples, outbox and call
+ * outcomes, category corrections) into a risk level, plain-language
+ * predictions, config tuning suggestions and classification insights.
+ * Pure functions — the caller gathers the data and persists the results.
+ */
+
+const RISK_LEVELS = ['low', 'medium', 'high', 'critical'];
+
+const MIN_SENDS_TO_JUDGE = 5;
+const MIN_CALLS_TO_JUDGE = 10;
+const WEAK_SIGNAL = 10; // CSQ 0-31; below ~10 SMS and calls get unreliable
+
+const portLabel = gsmSpan => `Port ${gsmSpan - 1}`;
+const percent = ratio => `${Math.round(ratio * 100)}%`;
+const isRegistered = registration => registration === 'registered' || registration === 'roaming';
+
+// Collapse numbers, ids and quoted values so repeats of the same error group together
+function errorSignature(message) {
+  return String(message || '')
+    .split('\n')[0]
+    .replace(/[0-9a-f]{16,}/gi, '<id>')
+    .replace(/\d+(\.\d+)*/g, '#')
+    .replace(/(["'`]).*?\1/g, '$1…$1')
+    .trim()
+    .substring(0, 120);
+}
+
+function groupErrors(entries) {
+  const groups = new Map();
+  for (const entry of entries) {
+    const signature = errorSignature(entry.message);
+    const group = groups.get(signature) || { signature, count: 0, last_at: 0 };
+    group.count++;
+    group.last_at = Math.max(group.last_at, entry.at);
+    groups.set(signature, group);
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Findings are { key, points, category, title, prediction, action, details }.
+ * key is stable per check and subject so re-runs update the same stored
+ * recommendation; points feed the risk score.
+ */
+function findSimProblems(spans) {
+  const findings = [];
+  for (const span of spans) {
+    const label = portLabel(span.gsm_span);
+    const everRegistered = span.unregistered_samples < span.samples;
+
+    if (span.latest_registration && !isRegistered(span.latest_registration) && span.latest_registration !== 'unknown' && everRegistered) {
+      findings.push({
+        key: `sim_deregistered:${span.gsm_span}`,
+        points: 3,
+        category: 'sim',
+        title: `${label} SIM is off the network`,
+        prediction: `${label} SIM is ${span.latest_registration}; SMS and calls on it will fail until it re-registers.`,
+        action: `Reseat the SIM in ${label}, confirm the line is active with the carrier and check the antenna.`,
+        details: { gsm_span: span.gsm_span, registration: span.latest_registration },
+      });
+    } else if (span.samples >= 6 && span.unregistered_samples / span.samples >= 0.1) {
+      findings.push({
+        key: `sim_unstable:${span.gsm_span}`,
+        points: 1,
+        category: 'sim',
+        title: `${label} SIM keeps dropping off the network`,
+        prediction: `${label} was unregistered in ${percent(span.unregistered_samples / span.samples)} of health samples; expect intermittent send failures.`,
+        action: `Check the antenna and signal for ${label}, or move the SIM to another port to rule out the module.`,
+        details: { gsm_span: span.gsm_span, samples: span.samples, unregistered_samples: span.unregistered_samples },
+      });
+    }
+
+    if (span.attempts >= MIN_SENDS_TO_JUDGE) {
+      const rate = span.failures / span.attempts;
+      if (rate >= 0.2) {
+        findings.push({
+          key: `sim_failure_rate:${span.gsm_span}`,
+          points: rate >= 0.5 ? 3 : 1,
+          category: 'sim',
+          title: `${label} is failing ${percent(rate)} of sends`,
+          prediction: `${label} failed ${span.failures} of ${span.attempts} SMS attempts; at this rate queued messages will keep failing over to other SIMs.`,
+          action: `Check ${label}'s airtime and SMS bundle, and disable the port if it keeps failing.`,
+          details: { gsm_span: span.gsm_span, attempts: span.attempts, failures: span.failures },
+        });
+      }
+    }
+
+    if (span.avg_signal !== null && span.avg_signal < WEAK_SIGNAL && isRegistered(span.latest_registration)) {
+      findings.push({
+        key: `sim_weak_signal:${span.gsm_span}`,
+        points: 1,
+        category: 'sim',
+        title: `${label} has weak signal`,
+        prediction: `${label} averaged ${span.avg_signal}/31 signal; below ${WEAK_SIGNAL} it is likely to drop off the network.`,
+        action: `Reposition or replace the antenna on ${label}.`,
+        details: { gsm_span: span.gsm_span, avg_signal: span.avg_signal, min_signal: span.min_signal },
+      });
+    }
+  }
+  return findings;
+}
+
+function findTrafficProblems(snapshot) {
+  const findings = [];
+  const { outbox, calls, activity } = snapshot;
+
+  const outboxTotal = outbox.sent + outbox.failed;
+  if (outboxTotal >= MIN_SENDS_TO_JUDGE && outbox.failed / outboxTotal >= 0.2) {
+    findings.push({
+      key: 'sms_outbox_failures',
+      points: 2,
+      category: 'sms',
+      title: `${percent(outbox.failed / outboxTotal)} of outgoing SMS failed`,
+      prediction: `${outbox.failed} of ${outboxTotal} queued SMS ran out of attempts in the last ${snapshot.window_hours}h.`,
+      action: 'Review the failed messages in the outbox and the SIM health of the ports that sent them.',
+      details: { ...outbox },
+    });
+  }
+
+  const syncFailures = activity.top.find(a => a.event_type === 'call_sync' && a.severity === 'error')?.count || 0;
+  if (syncFailures >= 3) {
+    findings.push({
+      key: 'pbx_sync_failures',
+      points: 2,
+      category: 'calls',
+      title: 'Call sync with the PBX is failing',
+      prediction: `Call sync failed ${syncFailures} times in the last ${snapshot.window_hours}h; call history and missed-call alerts will lag.`,
+      action: 'Check the PBX address and API credentials under Configuration, and that the PBX API is enabled.',
+      details: { failures: syncFailures },
+    });
+  }
+
+  if (calls.total >= MIN_CALLS_TO_JUDGE && calls.failed / calls.total >= 0.2) {
+    findings.push({
+      key: 'call_failures',
+      points: 1,
+      category: 'calls',
+      title: `${percent(calls.failed / calls.total)} of calls failed or were busy`,
+      prediction: `${calls.failed} of ${calls.total} calls failed or hit busy in the last ${snapshot.window_hours}h.`,
+      action: 'Check trunk registration and concurrent call limits on the PBX.',
+      details: { total: calls.total, failed: calls.failed },
+    });
+  }
+
+  // Compare with the baseline rate rather than an absolute number; some lines just miss a lot
+  const baselineRate = calls.baseline_total > 0 ? calls.baseline_missed / calls.baseline_total : null;
+  const missedRate = calls.total > 0 ? calls.missed / calls.total : 0;
+  if (calls.missed >= 5 && baselineRate !== null && missedRate > baselineRate * 1.5 && missedRate - baselineRate >= 0.1) {
+    findings.push({
+      key: 'missed_call_rise',
+      points: 1,
+      category: 'calls',
+      title: 'Missed calls are up',
+      prediction: `${percent(missedRate)} of calls were missed in the last ${snapshot.window_hours}h against ${percent(baselineRate)} over the previous ${snapshot.baseline_days} days.`,
+      action: 'Check agent shift coverage and ring group membership for the busiest hours.',
+      details: { missed: calls.missed, total: calls.total, baseline_rate: Math.round(baselineRate * 1000) / 1000 },
+    });
+  }
+
+  return findings;
+}
+
+function findErrorProblems(errorCount, previousErrorCount, errorGroups, windowHours) {
+  const findings = [];
+
+  if (errorCount >= 10 && errorCount >= previousErrorCount * 2) {
+    findings.push({
+      key: 'error_spike',
+      points: errorCount >= 50 ? 3 : 2,
+      category: 'errors',
+      title: 'Error rate has jumped',
+      prediction: `${errorCount} errors in the last ${windowHours}h against ${previousErrorCount} the ${windowHours}h before.`,
+      action: 'Look at the most frequent errors below and the activity log around when they started.',
+      details: { errors: errorCount, previous_errors: previousErrorCount },
+    });
+  }
+
+  for (const group of errorGroups.slice(0, 3)) {
+    if (group.count < 10) break;
+    findings.push({
+      key: `recurring_error:${group.signature}`,
+      points: 1,
+      category: 'errors',
+      title: 'Recurring error',
+      prediction: `"${group.signature}" was logged ${group.count} times in the last ${windowHours}h.`,
+      action: 'Find the component that logs this error and fix the cause, or lower it to a warning if it is expected.',
+      details: { signature: group.signature, count: group.count, last_at: new Date(group.last_at).toISOString() },
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Config suggestions as { config, old_value, new_value, unit, reason }.
+ * tunables maps config key -> { value, min, max, unit } for what is running now.
+ */
+function suggestTuning(snapshot, tunables) {
+  const suggestions = [];
+  const suggest = (config, newValue, reason) => {
+    const tunable = tunables[config];
+    if (!tunable) return;
+    const value = Math.min(Math.max(newValue, tunable.min), tunable.max);
+    if (value === tunable.value) return;
+    suggestions.push({ config, old_value: tunable.value, new_value: value, unit: tunable.unit, reason });
+  };
+
+  const syncFailures = snapshot.activity.top.find(a => a.event_type === 'call_sync' && a.severity === 'error')?.count || 0;
+  if (syncFailures >= 3 && tunables.pbx_sync_interval_seconds) {
+    suggest('pbx_sync_interval_seconds', tunables.pbx_sync_interval_seconds.value * 2,
+      `Call sync failed ${syncFailures} times; syncing less often gives a struggling PBX room to recover.`);
+  }
+
+  const deregistrations = snapshot.activity.top.find(a => a.event_type === 'sim_deregistered')?.count || 0;
+  if (deregistrations > 0 && tunables.port_poll_interval_seconds) {
+    suggest('port_poll_interval_seconds', 120,
+      `${deregistrations} SIM drop-out(s) in the last ${snapshot.window_hours}h; polling ports more often spots them sooner.`);
+  }
+
+  const { outbox } = snapshot;
+  if (outbox.sent + outbox.failed >= MIN_SENDS_TO_JUDGE && tunables.sms_max_attempts) {
+    const retriedShare = outbox.retried / Math.max(outbox.sent, 1);
+    if (outbox.failed > 0 && retriedShare >= 0.2) {
+      suggest('sms_max_attempts', tunables.sms_max_attempts.value + 2,
+        `${percent(retriedShare)} of delivered SMS needed a retry and ${outbox.failed} ran out of attempts; a couple more attempts would have saved some.`);
+    }
+  }
+
+  return suggestions;
+}
+
+function summarizeLearning(snapshot) {
+  const feedbackCount = snapshot.feedback.reduce((sum, f) => sum + f.count, 0);
+  const insights = snapshot.feedback
+    .filter(f => f.count >= 2 && f.original_category !== f.corrected_category)
+    .map(f => `${f.original_category || 'uncategorized'} → ${f.corrected_category} (${f.count})`);
+  const rules = snapshot.feedback_senders
+    .map(s => `Messages from ${s.sender_number} are ${s.corrected_category} (${s.count} corrections)`);
+
+  return { feedback_count: feedbackCount, patterns_found: insights.length, insights, ai_rules: rules };
+}
+
+function riskLevel(findings) {
+  const score = findings.reduce((sum, f) => sum + f.points, 0);
+  let level = score >= 7 ? 3 : score >= 4 ? 2 : score >= 2 ? 1 : 0;
+  // A single severe problem (a dead SIM, a failing port) is at least high on its own
+  if (findings.some(f => f.points >= 3)) level = Math.max(level, 2);
+  return RISK_LEVELS[level];
+}
+
+/**
+ * Analyse a snapshot from SMSDatabase.getDiagnosticsSnapshot().
+ * errors: error log entries ({ at, message }) for twice the window, so the
+ * earlier half can serve as the baseline. Returns the OptimizationResult the
+ * maintenance panel renders, plus `recommendations` ready to store.
+ */
+function analyze(snapshot, { errors = [], tunables = {}, now = Date.now() } = {}) {
+  const windowStart = now - snapshot.window_hours * 3600000;
+  const recentErrors = errors.filter(e => e.at >= windowStart);
+  const errorCount = recentErrors.length + snapshot.activity.errors;
+  const previousErrorCount = (errors.length - recentErrors.length) + snapshot.activity.previous_errors;
+  const errorGroups = groupErrors(recentErrors);
+
+  const findings = [
+    ...findSimProblems(snapshot.spans),
+    ...findTrafficProblems(snapshot),
+    ...findErrorProblems(errorCount, previousErrorCount, errorGroups, snapshot.window_hours),
+  ].sort((a, b) => b.points - a.points);
+
+  const tuning = suggestTuning(snapshot, tunables);
+  const registeredSpans = snapshot.spans.filter(s => isRegistered(s.latest_registration)).length;
+
+  const prediction = {
+    risk_level: riskLevel(findings),
+    prediction: findings.length > 0
+      ? findings.slice(0, 3).map(f => f.prediction).join(' ')
+      : `No problems found in the last ${snapshot.window_hours}h: ${snapshot.calls.total} calls, ${snapshot.outbox.sent} SMS sent, ${registeredSpans} SIM(s) registered.`,
+    recommended_action: findings.length > 0 ? findings[0].action : 'No action needed.',
+    auto_applied: false,
+  };
+
+  const recommendations = [
+    ...findings.map(f => ({
+      ruleKey: f.key,
+      category: f.category,
+      title: f.title,
+      description: `${f.prediction} ${f.action}`,
+      details: { ...f.details, risk_points: f.points, priority: f.points >= 3 ? 'high' : f.points >= 2 ? 'medium' : 'low', action: f.action },
+    })),
+    ...tuning.map(t => ({
+      ruleKey: `config:${t.config}`,
+      category: 'config',
+      title: `Change ${t.config} from ${t.old_value} to ${t.new_value}${t.unit ? ` ${t.unit}` : ''}`,
+      description: t.reason,
+      details: { ...t, priority: 'medium' },
+    })),
+  ];
+
+  return {
+    prediction,
+    tuning: { recommendations: tuning, error_count: errorCount },
+    learning: summarizeLearning(snapshot),
+    findings,
+    top_errors: errorGroups.slice(0, 5),
+    recommendations,
+    analyzed_at: new Date(now).toISOString(),
+  };
+}
+
+module.exports = {
+  RISK_LEVELS,
+  analyze,
+  errorSignature,
+};
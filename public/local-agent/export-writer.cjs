@@ -0,0 +1,307 @@
+/**
+ * Export Writer
+ * Streams rows to an HTTP response as CSV, JSON or XLSX without holding the
+ * export in memory. XLSX is a one-sheet workbook written as a streamed ZIP:
+ * the sheet is deflated on the fly and its CRC and sizes follow in a data
+ * descriptor, so no spreadsheet library is needed.
+ *
+ * Columns are [{ key, header }]; rows are objects keyed by column key.
+ * Numbers stay numbers in XLSX/JSON, everything else is written as text.
+ */
+
+const zlib = require('zlib');
+
+// Resolves on event, or once the stream has closed (client went away), so a
+// cancelled download never leaves a write waiting forever
+const settled = (stream, event) => new Promise(resolve => {
+  if (stream.destroyed) return resolve();
+  const done = () => {
+    stream.off(event, done);
+    stream.off('close', done);
+    resolve();
+  };
+  stream.on(event, done);
+  stream.on('close', done);
+});
+
+const FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+};
+
+// Spreadsheet apps run CSV cells starting with these as formulas; SMS text
+// is untrusted, so such cells get a leading quote. Numbers and phone numbers
+// like +254… are left alone.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?[\d\s().]+$/;
+
+const cellText = (value) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return FORMULA_START.test(text) && !PLAIN_NUMBER.test(text) ? `'${text}` : text;
+};
+
+// ========================================
+// ZIP (for XLSX)
+// ========================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer, crc = 0) {
+  let c = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < buffer.length; i++) c = CRC_TABLE[(c ^ buffer[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date = new Date()) {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+class ZipStream {
+  constructor(output) {
+    this.output = output;
+    this.offset = 0;
+    this.entries = [];
+    this.stamp = dosDateTime();
+  }
+
+  async write(chunk) {
+    this.offset += chunk.length;
+    if (!this.output.write(chunk)) await settled(this.output, 'drain');
+  }
+
+  localHeader(entry) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(this.stamp.time, 10);
+    header.writeUInt16LE(this.stamp.date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+    return Buffer.concat([header, name]);
+  }
+
+  // Small parts whose content is known up front, stored uncompressed
+  async addFile(name, content) {
+    const data = Buffer.from(content, 'utf8');
+    const entry = {
+      name, flags: FLAG_UTF8, method: 0, offset: this.offset,
+      crc: crc32(data), compressedSize: data.length, size: data.length,
+    };
+    this.entries.push(entry);
+    await this.write(this.localHeader(entry));
+    await this.write(data);
+  }
+
+  // Returns a writer whose chunks are deflated straight into the output
+  async openStream(name) {
+    const entry = { name, flags: FLAG_UTF8 | FLAG_DATA_DESCRIPTOR, method: 8, offset: this.offset, crc: 0, compressedSize: 0, size: 0 };
+    this.entries.push(entry);
+    await this.write(this.localHeader(entry));
+
+    const deflate = zlib.createDeflateRaw();
+    deflate.on('data', (chunk) => {
+      entry.compressedSize += chunk.length;
+      this.offset += chunk.length;
+    });
+    deflate.on('error', () => {}); // Only ever destroyed with the response
+    deflate.pipe(this.output, { end: false });
+    if (this.output.destroyed) deflate.destroy();
+    else this.output.once('close', () => deflate.destroy());
+
+    return {
+      write: async (text) => {
+        if (deflate.destroyed) return;
+        const data = Buffer.from(text, 'utf8');
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        if (!deflate.write(data)) await settled(deflate, 'drain');
+      },
+      close: async () => {
+        if (deflate.destroyed) return;
+        deflate.end();
+        await settled(deflate, 'end');
+        deflate.unpipe(this.output);
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(entry.crc, 4);
+        descriptor.writeUInt32LE(entry.compressedSize, 8);
+        descriptor.writeUInt32LE(entry.size, 12);
+        await this.write(descriptor);
+      },
+    };
+  }
+
+  async finish() {
+    const start = this.offset;
+    for (const entry of this.entries) {
+      const name = Buffer.from(entry.name, 'utf8');
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(this.stamp.time, 12);
+      header.writeUInt16LE(this.stamp.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, name]));
+    }
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+  }
+}
+
+// ========================================
+// XLSX parts
+// ========================================
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Inline strings are never evaluated, so unlike CSV no formula guard is needed
+const xmlText = (value) => String(value ?? '')
+  .replace(/[^\x09\x0a\x0d\x20-\ud7ff\ue000-\ufffd\u{10000}-\u{10ffff}]/gu, '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const xmlAttr = (value) => xmlText(value).replace(/"/g, '&quot;');
+
+// Style 1 is the bold header row
+const xlsxCell = (value, style = 0) => {
+  const s = style ? ` s="${style}"` : '';
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c${s}><v>${value}</v></c>`;
+  return `<c t="inlineStr"${s}><is><t xml:space="preserve">${xmlText(value)}</t></is></c>`;
+};
+
+const XLSX_STATIC_PARTS = (sheetName) => ({
+  '[Content_Types].xml': `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + '</Types>',
+  '_rels/.rels': `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>',
+  'xl/workbook.xml': `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" `
+    + 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets><sheet name="${xmlAttr(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  'xl/_rels/workbook.xml.rels': `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+    + '</Relationships>',
+  'xl/styles.xml': `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+    + '</styleSheet>',
+});
+
+// ========================================
+// Writer
+// ========================================
+
+class ExportWriter {
+  /**
+   * @param {import('stream').Writable} output usually the Express response
+   * @param {'csv'|'json'|'xlsx'} format
+   * @param {Array<{key: string, header: string}>} columns
+   * @param {{sheetName?: string}} options
+   */
+  constructor(output, format, columns, { sheetName = 'Export' } = {}) {
+    if (!FORMATS[format]) throw new Error(`Unsupported export format: ${format}`);
+    this.output = output;
+    this.format = format;
+    this.columns = columns;
+    this.sheetName = sheetName.slice(0, 31); // Excel's sheet name limit
+    this.count = 0;
+  }
+
+  async write(text) {
+    if (!this.output.write(text)) await settled(this.output, 'drain');
+  }
+
+  async start() {
+    if (this.format === 'csv') {
+      // BOM so Excel reads the file as UTF-8
+      await this.write(`\ufeff${this.columns.map(c => this.csvCell(c.header)).join(',')}\r\n`);
+    } else if (this.format === 'json') {
+      await this.write('[');
+    } else {
+      this.zip = new ZipStream(this.output);
+      for (const [name, content] of Object.entries(XLSX_STATIC_PARTS(this.sheetName))) {
+        await this.zip.addFile(name, content);
+      }
+      this.sheet = await this.zip.openStream('xl/worksheets/sheet1.xml');
+      await this.sheet.write(`${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + `<sheetData><row>${this.columns.map(c => xlsxCell(c.header, 1)).join('')}</row>`);
+    }
+  }
+
+  csvCell(value) {
+    return `"${cellText(value).replace(/"/g, '""')}"`;
+  }
+
+  async writeRows(rows) {
+    if (rows.length === 0) return;
+    let chunk;
+    if (this.format === 'csv') {
+      chunk = rows.map(row => `${this.columns.map(c => this.csvCell(row[c.key])).join(',')}\r\n`).join('');
+    } else if (this.format === 'json') {
+      chunk = rows.map((row, i) => {
+        const record = Object.fromEntries(this.columns.map(c => [c.key, row[c.key] ?? null]));
+        return `${this.count + i === 0 ? '' : ','}\n${JSON.stringify(record)}`;
+      }).join('');
+    } else {
+      chunk = rows.map(row => `<row>${this.columns.map(c => xlsxCell(row[c.key])).join('')}</row>`).join('');
+    }
+    this.count += rows.length;
+    if (this.format === 'xlsx') await this.sheet.write(chunk);
+    else await this.write(chunk);
+  }
+
+  async end() {
+    if (this.format === 'json') {
+      await this.write(this.count > 0 ? '\n]\n' : ']\n');
+    } else if (this.format === 'xlsx') {
+      await this.sheet.write('</sheetData></worksheet>');
+      await this.sheet.close();
+      await this.zip.finish();
+    }
+    this.output.end();
+  }
+}
+
+module.exports = {
+  EXPORT_FORMATS: FORMATS,
+  ExportWriter,
+};
@@ -0,0 +1,198 @@
+/**
+ * LLM Provider
+ * Optional language model behind one interface, used for SMS categorization
+ * fallback, reply suggestions and daily report summaries.
+ *
+ *  - 'openai': any OpenAI-compatible /chat/completions endpoint (Ollama,
+ *    llama.cpp server, vLLM, LocalAI, or OpenAI itself)
+ *  - 'mock':   deterministic answers derived from the prompt, so the features
+ *    can be exercised and tested without a model
+ *  - 'none':   the default; unavailable, and callers fall back to their
+ *    non-AI behaviour
+ */
+
+const crypto = require('crypto');
+
+const PROVIDERS = ['none', 'openai', 'mock'];
+const DEFAULT_TIMEOUT_MS = 20000;
+
+class LlmUnavailableError extends Error {
+  constructor(message = 'No AI provider is configured') {
+    super(message);
+    this.name = 'LlmUnavailableError';
+  }
+}
+
+// Models wrap JSON in prose or ``` fences; take the first object/array in the text
+function extractJson(text) {
+  const source = String(text || '');
+  const start = source.search(/[[{]/);
+  if (start === -1) throw new Error('Model reply contained no JSON');
+  const open = source[start];
+  const close = open === '{' ? '}' : ']';
+  const end = source.lastIndexOf(close);
+  if (end <= start) throw new Error('Model reply contained no JSON');
+  return JSON.parse(source.slice(start, end + 1));
+}
+
+class LlmProvider {
+  constructor(config = {}) {
+    this.name = config.provider || 'none';
+    this.model = config.model || null;
+    this.timeoutMs = config.timeout_ms || DEFAULT_TIMEOUT_MS;
+  }
+
+  get available() {
+    return false;
+  }
+
+  /**
+   * @param {Array<{role: 'system'|'user'|'assistant', content: string}>} messages
+   * @param {{task?: string, maxTokens?: number, temperature?: number}} options
+   *   task names the feature asking, for logging and for the mock provider
+   * @returns {Promise<string>}
+   */
+  async complete(_messages, _options = {}) {
+    throw new LlmUnavailableError();
+  }
+
+  async completeJson(messages, options = {}) {
+    return extractJson(await this.complete(messages, options));
+  }
+}
+
+class OpenAiCompatibleProvider extends LlmProvider {
+  constructor(config) {
+    super(config);
+    this.baseUrl = String(config.base_url || '').replace(/\/+$/, '');
+    this.apiKey = config.api_key || null;
+  }
+
+  get available() {
+    return Boolean(this.baseUrl && this.model);
+  }
+
+  async complete(messages, { maxTokens = 300, temperature = 0.2 } = {}) {
+    if (!this.available) throw new LlmUnavailableError('AI provider needs a base URL and model');
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model: this.model, messages, max_tokens: maxTokens, temperature, stream: false }),
+        signal: controller.signal,
+      });
+      const json = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(`AI provider returned HTTP ${response.status}${json?.error?.message ? `: ${json.error.message}` : ''}`);
+      }
+      const content = json?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('AI provider reply had no message content');
+      return content.trim();
+    } catch (error) {
+      if (error.name === 'AbortError') throw new Error(`AI provider timed out after ${this.timeoutMs}ms`);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+class MockProvider extends LlmProvider {
+  get available() {
+    return true;
+  }
+
+  // Same prompt, same answer: the reply is picked by a hash of the last user message
+  async complete(messages, { task } = {}) {
+    const prompt = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+    const hash = crypto.createHash('sha256').update(prompt).digest();
+
+    switch (task) {
+      case 'classify_sms': {
+        const categories = (prompt.match(/Categories: ([a-z, ]+)/) || [])[1]?.split(/,\s*/) || ['personal'];
+        return JSON.stringify({ category: categories[hash[0] % categories.length], confidence: 0.6 });
+      }
+      case 'reply_suggestions':
+        return JSON.stringify([
+          'Thank you for your message, we will get back to you shortly.',
+          'Noted, thanks. Could you share a few more details?',
+          'Thanks! Please call us if it is urgent.',
+        ]);
+      case 'report_summary':
+        return `Mock summary (${hash.toString('hex').slice(0, 8)}): ${prompt.split('\n').filter(Boolean).length} report lines reviewed.`;
+      default:
+        return `Mock reply ${hash.toString('hex').slice(0, 8)}`;
+    }
+  }
+}
+
+// Feature prompts and reply handling. Callers pick the provider (and whether
+// the feature is on); these reject with LlmUnavailableError when it is 'none'.
+
+// Capped below an operator correction (1) so the UI still treats it as a guess
+const MAX_AI_CONFIDENCE = 0.9;
+
+// A category from `categories` with its confidence, or null if the model named something else
+async function classifySms(llm, { categories, sender, message }) {
+  const result = await llm.completeJson([
+    { role: 'system', content: 'You label SMS messages received by a business in Kenya. Reply with JSON only: {"category": "<one of the categories>", "confidence": <0 to 1>}.' },
+    { role: 'user', content: `Categories: ${categories.join(', ')}\nSender: ${sender}\nMessage: ${message}` },
+  ], { task: 'classify_sms', maxTokens: 60, temperature: 0 });
+  if (!categories.includes(result?.category)) return null;
+
+  const confidence = Math.round(Math.min(MAX_AI_CONFIDENCE, Math.max(0, Number(result.confidence) || 0.5)) * 100) / 100;
+  return { category: result.category, confidence };
+}
+
+// Up to three draft replies to the latest message in `history` (oldest first)
+async function suggestReplies(llm, history) {
+  const transcript = history
+    .map(m => `${m.direction === 'sent' ? 'Us' : 'Customer'}: ${m.message_content}`)
+    .join('\n');
+
+  const suggestions = await llm.completeJson([
+    { role: 'system', content: "You draft SMS replies for a business support team. Suggest 3 short, polite replies to the customer's latest message, each under 160 characters and in the customer's language. Reply with a JSON array of strings only." },
+    { role: 'user', content: transcript },
+  ], { task: 'reply_suggestions', maxTokens: 300, temperature: 0.5 });
+  if (!Array.isArray(suggestions)) throw new Error('AI provider returned no suggestions');
+
+  return suggestions
+    .filter(suggestion => typeof suggestion === 'string' && suggestion.trim())
+    .map(suggestion => suggestion.trim())
+    .slice(0, 3);
+}
+
+// A short plain-text overview of a daily report
+async function summarizeReport(llm, reportText) {
+  return llm.complete([
+    { role: 'system', content: 'You summarize a call centre daily report for its manager in two or three plain sentences. Point out anything unusual, such as many unreturned missed calls. No markdown.' },
+    { role: 'user', content: reportText },
+  ], { task: 'report_summary', maxTokens: 200 });
+}
+
+function createLlmProvider(config = {}) {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAiCompatibleProvider(config);
+    case 'mock':
+      return new MockProvider(config);
+    default:
+      return new LlmProvider(config);
+  }
+}
+
+module.exports = {
+  PROVIDERS,
+  LlmUnavailableError,
+  createLlmProvider,
+  extractJson,
+  classifySms,
+  suggestReplies,
+  summarizeReport,
+};
@@ -16,7 +16,40 @@ function writeErrorToFile(message) {
   }
 }
 
+// Error lines written since `sinceMs`, newest last. Reads only the tail of the
+// file; continuation lines of multi-line errors are folded into their entry.
+function readRecentErrors(sinceMs, maxBytes = 2 * 1024 * 1024) {
+  let text;
+  try {
+    const { size } = fs.statSync(ERROR_LOG);
+    const start = Math.max(0, size - maxBytes);
+    const fd = fs.openSync(ERROR_LOG, 'r');
+    try {
+      const buffer = Buffer.alloc(size - start);
+      fs.readSync(fd, buffer, 0, buffer.length, start);
+      text = buffer.toString('utf8');
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch (e) {
+    return [];
+  }
+
+  const entries = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\[(\d{4}-\d{2}-\d{2}T[^\]]+)\] (.*)$/);
+    if (match) {
+      const at = Date.parse(match[1]);
+      if (at >= sinceMs) entries.push({ at, message: match[2] });
+    } else if (entries.length > 0 && line.trim()) {
+      entries[entries.length - 1].message += `\n${line}`;
+    }
+  }
+  return entries;
+}
+
 module.exports = {
+  readRecentErrors,
   error: (msg, ...args) => {
     const out = typeof msg === 'string' ? util.format(msg, ...args) : util.inspect(msg);
     console.error(out);
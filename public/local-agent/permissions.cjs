@@ -0,0 +1,159 @@
+/**
+ * Permissions
+ * Named permissions checked by the API (requirePermission) and the UI
+ * (useCan). A role is just a named set of them, stored in the roles table and
+ * editable from Roles & Permissions. The four built-in roles are seeded with
+ * the sets below, which match what they could do before roles were editable.
+ *
+ * super_admin always holds every permission and cannot be edited, so there is
+ * always someone who can repair a broken role.
+ */
+
+const SUPER_ADMIN_ROLE = 'super_admin';
+
+const PERMISSIONS = [
+  // Users & roles
+  { key: 'users.view', group: 'Users & roles', label: 'View users and their access' },
+  { key: 'users.manage', group: 'Users & roles', label: 'Edit users and their SIM port / extension access' },
+  { key: 'roles.manage', group: 'Users & roles', label: 'Add and delete users, assign roles, edit role permissions' },
+
+  // Data access
+  { key: 'data.unrestricted', group: 'Data access', label: 'See all SIM ports and extensions, ignoring per-user restrictions' },
+  { key: 'data.filter', group: 'Data access', label: 'Filter lists by port, extension, status and segment' },
+  { key: 'system.status.view', group: 'Data access', label: 'See gateway, PBX and message store status' },
+  { key: 'activity.view', group: 'Data access', label: 'See the activity log' },
+  { key: 'activity.export', group: 'Data access', label: 'Export the activity log' },
+
+  // SMS
+  { key: 'sms.view_full', group: 'SMS', label: 'See full message text, including balance details' },
+  { key: 'sms.send', group: 'SMS', label: 'Send and reply to SMS, retry or cancel queued sends' },
+  { key: 'sms.manage', group: 'SMS', label: 'Mark messages read and correct their category' },
+  { key: 'sms.delete', group: 'SMS', label: 'Delete received and sent messages' },
+  { key: 'sms.reclassify', group: 'SMS', label: 'Re-run the classifier over all messages' },
+  { key: 'sms.export', group: 'SMS', label: 'Export messages' },
+  { key: 'sms.automation.manage', group: 'SMS', label: 'Manage SMS templates and auto-reply rules' },
+  { key: 'sms.opt_out', group: 'SMS', label: 'Add numbers to the SMS suppression list' },
+  { key: 'sms.opt_out.remove', group: 'SMS', label: 'Remove numbers from the SMS suppression list' },
+  { key: 'campaigns.manage', group: 'SMS', label: 'Create and run bulk SMS campaigns' },
+
+  // Calls
+  { key: 'calls.dial', group: 'Calls', label: 'Place calls from the dashboard' },
+  { key: 'calls.export', group: 'Calls', label: 'Export call records' },
+  { key: 'callbacks.work', group: 'Calls', label: 'Log callback attempts and close callbacks' },
+  { key: 'callbacks.manage', group: 'Calls', label: 'Assign callbacks and change callback settings' },
+
+  // Contacts
+  { key: 'contacts.edit', group: 'Contacts', label: 'Edit contacts, notes, tags and segments; import contacts' },
+  { key: 'contacts.moderate', group: 'Contacts', label: "Delete other users' contact notes" },
+  { key: 'contacts.fields.manage', group: 'Contacts', label: 'Manage custom contact fields' },
+
+  // Reports & notifications
+  { key: 'reports.manage', group: 'Reports & notifications', label: 'Manage scheduled reports and their recipients' },
+  { key: 'notifications.manage', group: 'Reports & notifications', label: 'Manage notification channels and templates' },
+  { key: 'telegram.view', group: 'Reports & notifications', label: 'Use the Telegram bot panel and send reports to Telegram' },
+
+  // Staff
+  { key: 'staff.manage', group: 'Staff', label: 'Manage agents, shifts and clock-ins' },
+
+  // AI
+  { key: 'ai.view', group: 'AI', label: 'See AI automation and diagnostics' },
+  { key: 'ai.manage', group: 'AI', label: 'Run diagnostics, apply recommendations, configure the LLM provider' },
+
+  // Configuration
+  { key: 'config.view', group: 'Configuration', label: 'Open the Configuration tab' },
+  { key: 'config.gateway.write', group: 'Configuration', label: 'Change gateway and PBX connection settings' },
+  { key: 'config.system.write', group: 'Configuration', label: 'Change agent, recording and phone number settings' },
+  { key: 'sims.manage', group: 'Configuration', label: 'Configure SIM balance checks, sample SIM health, send USSD' },
+  { key: 'system.update', group: 'Configuration', label: 'Install agent updates' },
+];
+
+const PERMISSION_KEYS = PERMISSIONS.map(p => p.key);
+
+const VIEWER_PERMISSIONS = [
+  'sms.export',
+  'calls.export',
+];
+
+const OPERATOR_PERMISSIONS = [
+  ...VIEWER_PERMISSIONS,
+  'data.filter',
+  'activity.view',
+  'activity.export',
+  'sms.send',
+  'sms.manage',
+  'sms.opt_out',
+  'calls.dial',
+  'callbacks.work',
+  'contacts.edit',
+  'telegram.view',
+  'ai.view',
+];
+
+const ADMIN_PERMISSIONS = [
+  ...OPERATOR_PERMISSIONS,
+  'users.view',
+  'users.manage',
+  'data.unrestricted',
+  'system.status.view',
+  'sms.view_full',
+  'sms.delete',
+  'sms.reclassify',
+  'sms.automation.manage',
+  'sms.opt_out.remove',
+  'campaigns.manage',
+  'callbacks.manage',
+  'contacts.moderate',
+  'contacts.fields.manage',
+  'reports.manage',
+  'notifications.manage',
+  'staff.manage',
+  'ai.manage',
+  'config.view',
+  'config.gateway.write',
+  'config.system.write',
+  'sims.manage',
+];
+
+const BUILT_IN_ROLES = [
+  {
+    name: SUPER_ADMIN_ROLE,
+    label: 'Super Admin',
+    description: 'Full system access, role management, all admin powers',
+    permissions: PERMISSION_KEYS,
+  },
+  {
+    name: 'admin',
+    label: 'Admin',
+    description: 'Manage agents, shifts, configuration, and system settings',
+    permissions: ADMIN_PERMISSIONS,
+  },
+  {
+    name: 'operator',
+    label: 'Operator',
+    description: 'Manage calls, contacts, SMS and daily operations',
+    permissions: OPERATOR_PERMISSIONS,
+  },
+  {
+    name: 'viewer',
+    label: 'Viewer',
+    description: 'Read-only access to dashboard, calls, and reports',
+    permissions: VIEWER_PERMISSIONS,
+  },
+];
+
+const BUILT_IN_ROLE_NAMES = BUILT_IN_ROLES.map(r => r.name);
+
+// Drops unknown keys and duplicates, keeping catalogue order
+function normalizePermissions(list) {
+  const wanted = new Set(Array.isArray(list) ? list : []);
+  return PERMISSION_KEYS.filter(key => wanted.has(key));
+}
+
+module.exports = {
+  SUPER_ADMIN_ROLE,
+  PERMISSIONS,
+  PERMISSION_KEYS,
+  BUILT_IN_ROLES,
+  BUILT_IN_ROLE_NAMES,
+  normalizePermissions,
+};
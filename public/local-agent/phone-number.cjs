@@ -0,0 +1,77 @@
+/**
+ * Phone number normalisation
+ * The TG400, the S100 CDR and Google each report the same customer as 0712…,
+ * 712… or +254712…. Numbers are stored in E.164 (+254712…) so SMS, calls and
+ * contacts line up; callers keep the original alongside. Anything that isn't
+ * a subscriber number (extensions, short codes, alphanumeric sender IDs) is
+ * left exactly as reported.
+ */
+
+const DEFAULT_COUNTRY_CODE = '254';
+
+// National (significant) number length for the country codes we can check.
+// Other codes only get the generic 8-15 digit E.164 bound.
+const NATIONAL_NUMBER_LENGTHS = {
+  '1': 10,
+  '27': 9,
+  '44': 10,
+  '91': 10,
+  '211': 9,
+  '234': 10,
+  '250': 9,
+  '251': 9,
+  '254': 9,
+  '255': 9,
+  '256': 9,
+  '257': 8,
+  '971': 9,
+};
+
+const KNOWN_CODES = Object.keys(NATIONAL_NUMBER_LENGTHS).sort((a, b) => b.length - a.length);
+
+function isValidCountryCode(code) {
+  return /^[1-9]\d{0,2}$/.test(String(code || ''));
+}
+
+// Returns +<digits>, or null when the input isn't a dialable subscriber number
+function toE164(number, defaultCountryCode = DEFAULT_COUNTRY_CODE) {
+  if (number === null || number === undefined) return null;
+  const raw = String(number).trim();
+  // Alphanumeric sender IDs (MPESA, SAFARICOM) are never phone numbers
+  if (/[a-z]/i.test(raw.replace(/^tel:/i, '').replace(/\s*(ext|x)\.?\s*\d+$/i, ''))) return null;
+
+  let digits = raw.replace(/\D/g, '');
+  if (!digits) return null;
+
+  const countryCode = isValidCountryCode(defaultCountryCode) ? String(defaultCountryCode) : DEFAULT_COUNTRY_CODE;
+  const nationalLength = NATIONAL_NUMBER_LENGTHS[countryCode];
+
+  if (raw.replace(/^tel:/i, '').startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    digits = digits.substring(2);
+  } else if (digits.startsWith('0')) {
+    digits = countryCode + digits.substring(1);
+  } else if (nationalLength ? digits.length === nationalLength : (!digits.startsWith(countryCode) && digits.length <= 9)) {
+    digits = countryCode + digits;
+  }
+
+  const knownCode = KNOWN_CODES.find(code => digits.startsWith(code));
+  if (knownCode && digits.length !== knownCode.length + NATIONAL_NUMBER_LENGTHS[knownCode]) return null;
+  if (digits.length < 8 || digits.length > 15) return null;
+  return `+${digits}`;
+}
+
+// E.164 when possible, otherwise the trimmed original (extensions, short codes)
+function normalizePhoneNumber(number, defaultCountryCode = DEFAULT_COUNTRY_CODE) {
+  if (number === null || number === undefined || number === '') return number;
+  return toE164(number, defaultCountryCode) || String(number).trim();
+}
+
+module.exports = {
+  DEFAULT_COUNTRY_CODE,
+  NATIONAL_NUMBER_LENGTHS,
+  isValidCountryCode,
+  toE164,
+  normalizePhoneNumber,
+};
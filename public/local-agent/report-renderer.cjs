@@ -0,0 +1,223 @@
+/**
+ * Report Renderer
+ * Turns a built report into its delivery formats: CSV and PDF attachments,
+ * a plain-text body for email/Telegram, and an SMS-sized digest. No
+ * dependencies — the PDF is written directly (A4, built-in fonts, text and
+ * tables only), which is all a statistics report needs.
+ *
+ * A report is:
+ *   { title, period: { label, from, to }, generated_at, filters: [string],
+ *     sections: [{ key, title, summary: [[label, value]], columns: [string],
+ *                  rows: [[value]], digest: string }] }
+ */
+
+// ========================================
+// CSV
+// ========================================
+
+const csvCell = (value) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+// Sections one after another, each with a title row, separated by a blank line
+function renderCsv(report) {
+  const lines = [
+    [report.title],
+    ['Period', report.period.label],
+    ['Generated', report.generated_at],
+    ...report.filters.map(filter => ['Filter', filter]),
+  ].map(row => row.map(csvCell).join(','));
+
+  for (const section of report.sections) {
+    lines.push('', csvCell(section.title));
+    for (const [label, value] of section.summary || []) lines.push([label, value].map(csvCell).join(','));
+    if (section.columns?.length) {
+      lines.push(section.columns.map(csvCell).join(','));
+      for (const row of section.rows) lines.push(row.map(csvCell).join(','));
+    }
+  }
+  return Buffer.from(`${lines.join('\r\n')}\r\n`, 'utf8');
+}
+
+// ========================================
+// Plain text and SMS digest
+// ========================================
+
+const TEXT_MAX_ROWS = 10; // The attachments carry the full tables
+
+function renderText(report) {
+  const lines = [report.title, `Period: ${report.period.label}`, ...report.filters];
+  for (const section of report.sections) {
+    lines.push('', `== ${section.title} ==`);
+    for (const [label, value] of section.summary || []) lines.push(`${label}: ${value}`);
+    if (section.columns?.length && section.rows.length > 0) {
+      lines.push(section.columns.join(' | '));
+      for (const row of section.rows.slice(0, TEXT_MAX_ROWS)) lines.push(row.join(' | '));
+      if (section.rows.length > TEXT_MAX_ROWS) lines.push(`… ${section.rows.length - TEXT_MAX_ROWS} more row(s)`);
+    } else if (!section.summary?.length) {
+      lines.push('No data');
+    }
+  }
+  return lines.join('\n');
+}
+
+// One line per section, trimmed to fit maxLength (two SMS segments by default)
+function renderDigest(report, maxLength = 306) {
+  const parts = report.sections.map(section => section.digest).filter(Boolean);
+  let text = `${report.title} ${report.period.label}: ${parts.join('; ')}`;
+  if (text.length > maxLength) text = `${text.slice(0, maxLength - 1).trimEnd()}…`;
+  return text;
+}
+
+// ========================================
+// PDF
+// ========================================
+
+const PAGE_WIDTH = 595;  // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const TABLE_FONT_SIZE = 8;
+const CHAR_WIDTH = 0.6;  // Courier advance per point of font size
+const MAX_TABLE_CHARS = Math.floor((PAGE_WIDTH - MARGIN * 2) / (TABLE_FONT_SIZE * CHAR_WIDTH));
+
+// Built-in fonts only cover WinAnsi; anything outside Latin-1 becomes '?'
+function pdfString(text) {
+  const latin1 = String(text ?? '').replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+  return `(${latin1.replace(/[\\()]/g, '\\$&')})`;
+}
+
+// Column widths in characters: fit the content, then shrink the widest
+// columns until the table fits the page
+function columnWidths(columns, rows) {
+  const widths = columns.map((column, i) =>
+    Math.max(String(column).length, ...rows.map(row => String(row[i] ?? '').length), 1));
+  const gaps = (columns.length - 1) * 2;
+  while (widths.reduce((a, b) => a + b, 0) + gaps > MAX_TABLE_CHARS) {
+    const widest = widths.indexOf(Math.max(...widths));
+    if (widths[widest] <= 4) break;
+    widths[widest]--;
+  }
+  return widths;
+}
+
+const fitCell = (value, width) => {
+  const text = String(value ?? '');
+  return text.length > width ? `${text.slice(0, Math.max(1, width - 1))}~` : text.padEnd(width);
+};
+
+class PdfPages {
+  constructor() {
+    this.pages = [];
+    this.newPage();
+  }
+
+  newPage() {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensure(height) {
+    if (this.y - height < MARGIN) this.newPage();
+  }
+
+  text(content, { font = 'F1', size = 10, gap = 4, x = MARGIN } = {}) {
+    this.ensure(size + gap);
+    this.y -= size;
+    this.ops.push(`BT /${font} ${size} Tf ${x} ${this.y} Td ${pdfString(content)} Tj ET`);
+    this.y -= gap;
+  }
+
+  rule() {
+    this.ensure(6);
+    this.y -= 3;
+    this.ops.push(`0.7 G ${MARGIN} ${this.y} m ${PAGE_WIDTH - MARGIN} ${this.y} l S 0 G`);
+    this.y -= 3;
+  }
+
+  space(height) {
+    this.y -= height;
+  }
+}
+
+function renderPdf(report) {
+  const doc = new PdfPages();
+  doc.text(report.title, { font: 'F2', size: 16, gap: 6 });
+  doc.text(`Period: ${report.period.label}`, { size: 10 });
+  doc.text(`Generated: ${report.generated_at}`, { size: 9 });
+  for (const filter of report.filters) doc.text(filter, { size: 9 });
+
+  for (const section of report.sections) {
+    doc.space(10);
+    doc.ensure(40);
+    doc.text(section.title, { font: 'F2', size: 12, gap: 2 });
+    doc.rule();
+    for (const [label, value] of section.summary || []) doc.text(`${label}: ${value}`, { size: 10, gap: 3 });
+
+    if (section.columns?.length) {
+      if (section.rows.length === 0) {
+        doc.text('No data', { size: 9 });
+        continue;
+      }
+      const widths = columnWidths(section.columns, section.rows);
+      const line = (cells) => cells.map((cell, i) => fitCell(cell, widths[i])).join('  ').trimEnd();
+      const header = line(section.columns);
+      doc.space(4);
+      doc.text(header, { font: 'F3', size: TABLE_FONT_SIZE, gap: 3 });
+      for (const row of section.rows) {
+        // Repeat the header at the top of every continuation page
+        if (doc.y - TABLE_FONT_SIZE - 3 < MARGIN) {
+          doc.newPage();
+          doc.text(header, { font: 'F3', size: TABLE_FONT_SIZE, gap: 3 });
+        }
+        doc.text(line(row), { font: 'F4', size: TABLE_FONT_SIZE, gap: 3 });
+      }
+    }
+  }
+
+  // Page footers
+  doc.pages.forEach((ops, i) => {
+    ops.push(`BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td ${pdfString(`${report.title} - page ${i + 1} of ${doc.pages.length}`)} Tj ET`);
+  });
+
+  return writePdf(doc.pages);
+}
+
+// Serialise pages of content-stream operators into a PDF file
+function writePdf(pages) {
+  const fonts = { F1: 'Helvetica', F2: 'Helvetica-Bold', F3: 'Courier-Bold', F4: 'Courier' };
+  const objects = []; // index + 1 = object number
+  const add = (body) => objects.push(body); // Returns the new object's number
+
+  const catalogId = add(null);
+  const pagesId = add(null);
+  const fontIds = Object.entries(fonts).map(([name, base]) =>
+    [name, add(`<< /Type /Font /Subtype /Type1 /BaseFont /${base} /Encoding /WinAnsiEncoding >>`)]);
+  const fontResources = fontIds.map(([name, id]) => `/${name} ${id} 0 R`).join(' ');
+
+  const pageIds = pages.map(ops => {
+    const stream = ops.join('\n');
+    const contentId = add(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+    return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + `/Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`);
+  });
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = Buffer.byteLength(output, 'latin1');
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(output, 'latin1');
+}
+
+module.exports = {
+  renderCsv,
+  renderPdf,
+  renderText,
+  renderDigest,
+};
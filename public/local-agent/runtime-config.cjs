@@ -0,0 +1,153 @@
+/**
+ * Runtime Config
+ * Agent knobs that can change while it runs. Values live in system_settings
+ * under "config.<key>"; anything unset falls back to its default. Listeners
+ * registered with onChange() re-apply a value (restart a timer, etc.) as soon
+ * as it is saved, so no restart is needed.
+ *
+ * A definition with read/write keeps its value where the rest of the agent
+ * already looks for it (auto_reply_enabled lives in auto_reply_config).
+ */
+
+const SETTING_PREFIX = 'config.';
+const META_SUFFIX = ':meta'; // { updated_at, updated_by, source } of the last change
+
+const DEFINITIONS = {
+  pbx_sync_interval_seconds: {
+    type: 'number', default: 300, min: 60, max: 3600, unit: 's',
+    description: 'How often call records are pulled from the PBX',
+  },
+  port_poll_interval_seconds: {
+    type: 'number', default: 600, min: 60, max: 3600, unit: 's',
+    description: 'How often TG400 port status is polled',
+  },
+  poll_interval_seconds: {
+    type: 'number', default: 10, min: 5, max: 60, unit: 's',
+    description: 'How often the PBX is polled for live calls while the dashboard is open',
+  },
+  heartbeat_interval_seconds: {
+    type: 'number', default: 60, min: 15, max: 600, unit: 's',
+    description: 'How often the agent records its status heartbeat',
+  },
+  missed_call_threshold_minutes: {
+    type: 'number', default: 30, min: 5, max: 1440, unit: 'min',
+    description: 'Missed calls synced this much later than the regular PBX sync do not raise an alert',
+  },
+  sms_max_attempts: {
+    type: 'number', default: 5, min: 1, max: 10, unit: null,
+    description: 'Send attempts per queued SMS before it is marked failed',
+  },
+  campaign_span_max_failures: {
+    type: 'number', default: 3, min: 1, max: 20, unit: null,
+    description: 'Failed sends in a row before a campaign stops using a SIM',
+  },
+  auto_reply_enabled: {
+    type: 'boolean', default: false,
+    description: 'Reply to inbound SMS with the auto-reply message',
+    read: (db) => {
+      const config = db.getAutoReplyConfig();
+      return config ? String(!!config.enabled) : null;
+    },
+    write: (db, value) => {
+      const config = db.getAutoReplyConfig() || {};
+      return db.saveAutoReplyConfig({ enabled: value, message: config.message || '', notification_email: config.notification_email });
+    },
+  },
+};
+
+class RuntimeConfig {
+  constructor(db, definitions = DEFINITIONS) {
+    this.db = db;
+    this.definitions = definitions;
+    this.listeners = new Map(); // key -> [fn(value, previous)]
+  }
+
+  has(key) {
+    return Object.prototype.hasOwnProperty.call(this.definitions, key);
+  }
+
+  get(key) {
+    const definition = this.definitions[key];
+    if (!definition) throw new Error(`Unknown config key: ${key}`);
+
+    const stored = definition.read ? definition.read(this.db) : this.db.getSystemSetting(`${SETTING_PREFIX}${key}`);
+    if (stored === null || stored === undefined) return definition.default;
+    if (definition.type === 'boolean') return stored === 'true';
+
+    // A value saved under older limits is clamped rather than trusted
+    const value = Number(stored);
+    if (!Number.isFinite(value)) return definition.default;
+    return Math.min(Math.max(value, definition.min), definition.max);
+  }
+
+  // Throws with a user-facing message when the value is out of range
+  validate(key, value) {
+    const definition = this.definitions[key];
+    if (!definition) throw new Error(`Unknown config key: ${key}`);
+
+    if (definition.type === 'boolean') {
+      if (typeof value !== 'boolean') throw new Error(`${key} must be true or false`);
+      return value;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw new Error(`${key} must be a whole number`);
+    }
+    if (value < definition.min || value > definition.max) {
+      throw new Error(`${key} must be between ${definition.min} and ${definition.max}`);
+    }
+    return value;
+  }
+
+  // Saves and re-applies a value; returns { value, previous }. source is
+  // 'manual' for an admin edit and 'ai' when a recommendation applied it.
+  set(key, value, { userId = null, source = 'manual' } = {}) {
+    const valid = this.validate(key, value);
+    const definition = this.definitions[key];
+    const previous = this.get(key);
+    const saved = definition.write
+      ? definition.write(this.db, valid)
+      : this.db.setSystemSetting(`${SETTING_PREFIX}${key}`, String(valid));
+    if (!saved) throw new Error(`Failed to save ${key}`);
+    this.db.setSystemSetting(`${SETTING_PREFIX}${key}${META_SUFFIX}`,
+      JSON.stringify({ updated_at: new Date().toISOString(), updated_by: userId, source }));
+
+    if (valid !== previous) {
+      for (const listener of this.listeners.get(key) || []) {
+        listener(valid, previous);
+      }
+    }
+    return { value: valid, previous };
+  }
+
+  onChange(key, listener) {
+    if (!this.has(key)) throw new Error(`Unknown config key: ${key}`);
+    this.listeners.set(key, [...(this.listeners.get(key) || []), listener]);
+  }
+
+  meta(key) {
+    try {
+      return JSON.parse(this.db.getSystemSetting(`${SETTING_PREFIX}${key}${META_SUFFIX}`)) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Every knob with its current value, limits and who last changed it
+  describe() {
+    return Object.entries(this.definitions).map(([key, { read, write, ...definition }]) => {
+      const meta = this.meta(key);
+      return {
+        key,
+        value: this.get(key),
+        ...definition,
+        updated_at: meta?.updated_at || null,
+        updated_by: meta?.updated_by || null,
+        ai_tuned: meta?.source === 'ai',
+      };
+    });
+  }
+}
+
+RuntimeConfig.DEFINITIONS = DEFINITIONS;
+
+module.exports = RuntimeConfig;
@@ -0,0 +1,186 @@
+/**
+ * Offline SMS Classifier
+ * Tags inbound SMS with a category (otp, marketing, personal, transactional,
+ * notification, spam) using keyword/regex rules and sender heuristics, then
+ * nudges the result with what operators corrected in sms_category_feedback.
+ * No network calls — runs inline on every insert.
+ */
+
+const CATEGORIES = ['otp', 'marketing', 'personal', 'transactional', 'notification', 'spam'];
+
+// Content rules: each match adds its weight to the category score
+const CONTENT_RULES = [
+  // One-time codes
+  { category: 'otp', weight: 3, pattern: /\b(otp|one[- ]time (pin|password|code)|verification code|security code|auth(entication)? code|login code)\b/i },
+  { category: 'otp', weight: 2, pattern: /\b(code|pin)\b\D{0,20}\b\d{4,8}\b/i },
+  { category: 'otp', weight: 1.5, pattern: /\b(do not|don't|never) share\b/i },
+  { category: 'otp', weight: 1, pattern: /\b(expires?|valid) (in|for) \d+ ?(min|mins|minutes)\b/i },
+
+  // Money movement (M-PESA, banks, bills)
+  { category: 'transactional', weight: 3, pattern: /\bconfirmed\b.{0,80}\b(ksh|kes)\s?[\d,]+/i },
+  { category: 'transactional', weight: 2, pattern: /\b(ksh|kes|usd)\.?\s?[\d,]+(\.\d{1,2})?\b/i },
+  { category: 'transactional', weight: 1.5, pattern: /\b(received|paid|sent to|withdrawn?|deposited|debited|credited|transaction|balance|receipt|invoice|payment|acc(ount)? no)\b/i },
+  { category: 'transactional', weight: 1, pattern: /\b(?=[A-Z0-9]*\d)(?=[A-Z0-9]*[A-Z])[A-Z0-9]{10}\b/ }, // M-PESA transaction code
+
+  // Promotions
+  { category: 'marketing', weight: 2, pattern: /\b(offer|discount|promo(tion)?|sale|deal|bonus|shop now|limited time|hurry|subscribe|exclusive)\b|% off/i },
+  { category: 'marketing', weight: 1.5, pattern: /\b(stop|unsubscribe|opt[- ]?out)\b.{0,20}\b\d{3,6}\b/i },
+  { category: 'marketing', weight: 1, pattern: /\b(dial|sms|text)\s+\*?\d{3,6}#?/i },
+
+  // Scams and junk
+  { category: 'spam', weight: 3, pattern: /\b(congratulations?|you have won|winner|claim your|lottery|jackpot|prize)\b/i },
+  { category: 'spam', weight: 2.5, pattern: /\b(wrong(ly)? sent|mistakenly sent|sent by mistake|nimekosea kutuma|nirudishie|tuma kwa)\b/i },
+  { category: 'spam', weight: 1.5, pattern: /(bit\.ly|tinyurl\.com|wa\.me|t\.me)\//i },
+
+  // Service notices
+  { category: 'notification', weight: 2, pattern: /\b(reminder|appointment|scheduled|delivered|dispatched|your order|booking|alert|maintenance|outage|expir(y|es|ed)|renew(al)?)\b/i },
+  { category: 'notification', weight: 1, pattern: /\b(dear (customer|client|member|valued))\b/i },
+
+  // Person-to-person
+  { category: 'personal', weight: 1.5, pattern: /\b(hi|hello|hey|habari|sasa|niaje|mambo|thanks|thank you|asante|call me|nipigie|please call)\b/i },
+  { category: 'personal', weight: 1, pattern: /\?\s*$/ },
+];
+
+// Alphanumeric sender IDs belonging to money services
+const FINANCIAL_SENDER = /(m-?pesa|airtel ?money|t-?kash|kcb|equity|co-?op|absa|ncba|stanbic|family ?bank|i&m|dtb|bank|sacco|kplc|kenya ?power)/i;
+
+const TOKEN_PATTERN = /[a-z][a-z']{2,}/g;
+const MAX_SENDER_BOOST = 6;
+const TOKEN_PURITY = 0.8; // Token must point at one category this often to count
+
+class SmsClassifier {
+  constructor() {
+    this.senderFeedback = new Map(); // sender -> Map(category -> count)
+    this.tokenFeedback = new Map();  // token  -> Map(category -> count)
+    this.sampleCount = 0;
+  }
+
+  static get categories() {
+    return CATEGORIES;
+  }
+
+  static normalizeSender(sender) {
+    const raw = String(sender || '').trim();
+    const digits = raw.replace(/\D/g, '');
+    // Phone numbers: key on the last 9 digits so 07.., +2547.. and 2547.. match
+    if (digits.length >= 9 && digits.length === raw.replace(/[\s+()-]/g, '').length) {
+      return digits.slice(-9);
+    }
+    return raw.toLowerCase();
+  }
+
+  static tokenize(content) {
+    return Array.from(new Set(String(content || '').toLowerCase().match(TOKEN_PATTERN) || []));
+  }
+
+  /**
+   * Rebuild the learned weights from operator corrections.
+   * @param {Array<{sender_number: string, message_content: string, category: string}>} samples
+   */
+  train(samples = []) {
+    this.senderFeedback = new Map();
+    this.tokenFeedback = new Map();
+    this.sampleCount = 0;
+
+    const bump = (map, key, category) => {
+      const counts = map.get(key) || new Map();
+      counts.set(category, (counts.get(category) || 0) + 1);
+      map.set(key, counts);
+    };
+
+    for (const sample of samples) {
+      if (!CATEGORIES.includes(sample.category)) continue;
+      this.sampleCount++;
+      bump(this.senderFeedback, SmsClassifier.normalizeSender(sample.sender_number), sample.category);
+      for (const token of SmsClassifier.tokenize(sample.message_content)) {
+        bump(this.tokenFeedback, token, sample.category);
+      }
+    }
+  }
+
+  senderType(sender) {
+    const raw = String(sender || '').trim();
+    if (/[a-z]/i.test(raw)) return 'alphanumeric';
+    const digits = raw.replace(/\D/g, '');
+    if (digits.length >= 3 && digits.length <= 6) return 'shortcode';
+    if (digits.length >= 9) return 'mobile';
+    return 'unknown';
+  }
+
+  /**
+   * Classify a message.
+   * @returns {{category: string, confidence: number}}
+   */
+  classify({ sender_number, message_content }) {
+    const content = String(message_content || '');
+    const scores = Object.fromEntries(CATEGORIES.map(c => [c, 0]));
+
+    for (const rule of CONTENT_RULES) {
+      if (rule.pattern.test(content)) scores[rule.category] += rule.weight;
+    }
+
+    // Sender heuristics
+    const type = this.senderType(sender_number);
+    if (type === 'alphanumeric') {
+      if (FINANCIAL_SENDER.test(sender_number)) scores.transactional += 2;
+      else scores.notification += 1;
+      scores.marketing += 0.5;
+      scores.personal = 0; // Sender IDs are never a person
+    } else if (type === 'shortcode') {
+      scores.marketing += 1;
+      scores.notification += 1;
+      scores.personal = 0;
+    } else if (type === 'mobile') {
+      scores.personal += 1.5;
+      // A phone number claiming an M-PESA confirmation is the classic fake-payment scam
+      if (/\bconfirmed\b/i.test(content) && /\b(ksh|kes)\s?[\d,]+/i.test(content)) {
+        scores.spam += 4;
+        scores.transactional = 0;
+      }
+    }
+
+    // Operator corrections for this exact sender dominate
+    const senderCounts = this.senderFeedback.get(SmsClassifier.normalizeSender(sender_number));
+    if (senderCounts) {
+      for (const [category, count] of senderCounts) {
+        scores[category] += Math.min(MAX_SENDER_BOOST, count * 2);
+      }
+    }
+
+    // Words that operators consistently filed under one category
+    if (this.tokenFeedback.size > 0) {
+      for (const token of SmsClassifier.tokenize(content)) {
+        const counts = this.tokenFeedback.get(token);
+        if (!counts) continue;
+        let total = 0;
+        let best = null;
+        for (const [category, count] of counts) {
+          total += count;
+          if (!best || count > best.count) best = { category, count };
+        }
+        if (best.count / total >= TOKEN_PURITY) {
+          scores[best.category] += 0.3 * Math.min(best.count, 3);
+        }
+      }
+    }
+
+    let category = 'unknown';
+    let top = 0;
+    let sum = 0;
+    for (const c of CATEGORIES) {
+      sum += scores[c];
+      if (scores[c] > top) {
+        top = scores[c];
+        category = c;
+      }
+    }
+
+    if (top === 0) return { category: 'unknown', confidence: 0 };
+
+    // Share of the total score, damped so a single weak match isn't reported as certain
+    const confidence = Math.min(0.99, top / (sum + 1));
+    return { category, confidence: Math.round(confidence * 100) / 100 };
+  }
+}
+
+module.exports = SmsClassifier;
@@ -6,11 +6,15 @@
 const Database = require('better-sqlite3');
 const path = require('path');
 const fs = require('fs');
+const SmsClassifier = require('./sms-classifier.cjs');
+const { DEFAULT_COUNTRY_CODE, isValidCountryCode, toE164, normalizePhoneNumber } = require('./phone-number.cjs');
+const { BUILT_IN_ROLES, SUPER_ADMIN_ROLE, PERMISSION_KEYS, normalizePermissions } = require('./permissions.cjs');
 
 class SMSDatabase {
   constructor(dbPath) {
     this.dbPath = dbPath || path.join(__dirname, 'sms.db');
     this.db = null;
+    this.classifier = new SmsClassifier();
   }
 
   init() {
@@ -40,6 +44,9 @@ class SMSDatabase {
       
       // Create indices for faster querying
       this.createIndices();
+
+      // Load operator corrections into the SMS classifier
+      this.retrainClassifier();
       
       const logger = require('./logger.cjs');
       logger.info(`SQLite database initialized: ${this.dbPath}`);
@@ -70,12 +77,14 @@ class SMSDatabase {
         id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
         external_id TEXT UNIQUE,
         sender_number TEXT NOT NULL,
+        sender_number_raw TEXT,
         message_content TEXT NOT NULL,
         received_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
         gsm_span INTEGER NOT NULL CHECK (gsm_span >= 2 AND gsm_span <= 5),
         status TEXT DEFAULT 'unread' CHECK (status IN ('unread', 'read', 'processed', 'failed')),
         direction TEXT DEFAULT 'received' CHECK (direction IN ('received', 'sent')),
         category TEXT,
+        category_confidence REAL,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       );
@@ -87,6 +96,49 @@ class SMSDatabase {
       CREATE INDEX IF NOT EXISTS idx_sms_sender ON sms_messages(sender_number);
     `);
 
+    // SMS category corrections made by operators - the classifier learns from these
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sms_category_feedback (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        sms_id TEXT NOT NULL,
+        original_category TEXT NOT NULL,
+        corrected_category TEXT NOT NULL,
+        corrected_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(sms_id) REFERENCES sms_messages(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sms_category_feedback_sms ON sms_category_feedback(sms_id);
+    `);
+
+    // Outbound SMS queue - every SIM send is persisted here first and worked
+    // off by the agent, so retries and restarts don't lose messages
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sms_outbox (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        to_number TEXT NOT NULL,
+        message TEXT NOT NULL,
+        preferred_gsm_span INTEGER,
+        gsm_span INTEGER,
+        status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'cancelled')),
+        attempts INTEGER DEFAULT 0,
+        max_attempts INTEGER DEFAULT 5,
+        next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_error TEXT,
+        external_id TEXT,
+        source TEXT DEFAULT 'api',
+        category TEXT,
+        created_by TEXT,
+        sent_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sms_outbox_due ON sms_outbox(status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_sms_outbox_external ON sms_outbox(external_id);
+      CREATE INDEX IF NOT EXISTS idx_sms_outbox_created ON sms_outbox(created_at DESC);
+    `);
+
     // GSM Span Configuration table - stores names/labels for GsmSpan values (2-5)
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS gsm_span_config (
@@ -104,6 +156,111 @@ class SMSDatabase {
       );
     `);
 
+    // SIM balance checks - per-span USSD schedule and the parsed balance history
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sim_balance_config (
+        gsm_span INTEGER PRIMARY KEY CHECK (gsm_span >= 2 AND gsm_span <= 5),
+        enabled BOOLEAN DEFAULT 0,
+        ussd_code TEXT DEFAULT '*144#',
+        interval_minutes INTEGER DEFAULT 360,
+        low_threshold REAL,
+        last_checked_at DATETIME,
+        low_alerted_at DATETIME,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS sim_balance_history (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        gsm_span INTEGER NOT NULL,
+        ussd_code TEXT NOT NULL,
+        response TEXT,
+        balance REAL,
+        currency TEXT,
+        status TEXT NOT NULL CHECK (status IN ('ok', 'unparsed', 'error')),
+        triggered_by TEXT DEFAULT 'schedule',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sim_balance_history_span ON sim_balance_history(gsm_span, created_at DESC);
+    `);
+
+    // SIM health - periodic per-span samples (signal, registration, send
+    // outcomes since the previous sample) and which alerts are outstanding
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sim_health_samples (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        gsm_span INTEGER NOT NULL,
+        is_up BOOLEAN DEFAULT 0,
+        registration TEXT DEFAULT 'unknown',
+        signal_quality INTEGER,
+        operator TEXT,
+        send_attempts INTEGER DEFAULT 0,
+        send_failures INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sim_health_samples_span ON sim_health_samples(gsm_span, created_at DESC);
+
+      CREATE TABLE IF NOT EXISTS sim_health_alerts (
+        gsm_span INTEGER PRIMARY KEY CHECK (gsm_span >= 2 AND gsm_span <= 5),
+        deregistered_alerted_at DATETIME,
+        failure_alerted_at DATETIME,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Recommendations from the diagnostics engine. rule_key names the check and
+    // its subject (e.g. "sim_failure_rate:3") so a re-run updates the open
+    // recommendation instead of piling up duplicates.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ai_recommendations (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        category TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        details TEXT,
+        rule_key TEXT,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'dismissed', 'resolved')),
+        auto_applied BOOLEAN DEFAULT 0,
+        applied_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_ai_recommendations_status ON ai_recommendations(status, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_ai_recommendations_rule ON ai_recommendations(rule_key);
+    `);
+
+    // Scheduled report definitions. send_times are "HH:MM" in Nairobi time;
+    // last_slot ("YYYY-MM-DD HH:MM") is the schedule slot last delivered, so a
+    // slot goes out once even across restarts.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS report_definitions (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        name TEXT NOT NULL,
+        enabled BOOLEAN DEFAULT 1,
+        metrics TEXT NOT NULL DEFAULT '[]',
+        date_window TEXT NOT NULL DEFAULT 'yesterday',
+        extensions TEXT DEFAULT '[]',
+        gsm_spans TEXT DEFAULT '[]',
+        frequency TEXT NOT NULL DEFAULT 'daily' CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+        send_times TEXT NOT NULL DEFAULT '["08:00"]',
+        weekday INTEGER CHECK (weekday IS NULL OR (weekday >= 0 AND weekday <= 6)),
+        month_day INTEGER CHECK (month_day IS NULL OR (month_day >= 1 AND month_day <= 28)),
+        formats TEXT DEFAULT '["pdf","csv"]',
+        email_recipients TEXT DEFAULT '[]',
+        telegram_chat_ids TEXT DEFAULT '[]',
+        sms_recipient_ids TEXT DEFAULT '[]',
+        last_slot TEXT,
+        last_run_at DATETIME,
+        last_status TEXT,
+        last_error TEXT,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
     // SIM Port Configuration table - stores port labels and metadata
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS sim_port_config (
@@ -129,6 +286,8 @@ class SMSDatabase {
         external_id TEXT UNIQUE,
         caller_number TEXT,
         callee_number TEXT,
+        caller_number_raw TEXT,
+        callee_number_raw TEXT,
         caller_name TEXT,
         callee_name TEXT,
         direction TEXT,
@@ -173,6 +332,83 @@ class SMSDatabase {
       CREATE INDEX IF NOT EXISTS idx_activity_severity ON activity_logs(severity);
     `);
 
+    // Click-to-call queue - dialled from the agent's extension once it is idle
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS call_queue (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        from_extension TEXT NOT NULL,
+        to_number TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'failed', 'cancelled')),
+        priority INTEGER DEFAULT 0,
+        requested_by TEXT,
+        requested_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        picked_up_at DATETIME,
+        completed_at DATETIME,
+        call_id TEXT,
+        result TEXT,
+        error_message TEXT,
+        metadata TEXT DEFAULT '{}',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_call_queue_status ON call_queue(status, from_extension, priority DESC, requested_at);
+    `);
+
+    // Call recordings downloaded from the PBX and kept on local disk
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS call_recordings (
+        call_record_id TEXT PRIMARY KEY,
+        recording_file TEXT NOT NULL,
+        local_path TEXT NOT NULL,
+        content_type TEXT,
+        size_bytes INTEGER DEFAULT 0,
+        downloaded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_accessed_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_call_recordings_accessed ON call_recordings(last_accessed_at);
+    `);
+
+    // Callback workflow for missed inbound calls: one task per missed call,
+    // with every callback attempt and its outcome
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS callback_tasks (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        call_record_id TEXT NOT NULL UNIQUE,
+        caller_number TEXT NOT NULL,
+        extension TEXT,
+        missed_at DATETIME NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+        resolution TEXT,
+        assigned_agent_id TEXT,
+        assigned_by TEXT,
+        assigned_at DATETIME,
+        attempt_count INTEGER DEFAULT 0,
+        first_attempt_at DATETIME,
+        last_attempt_at DATETIME,
+        last_outcome TEXT,
+        closed_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS callback_attempts (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        task_id TEXT NOT NULL,
+        outcome TEXT NOT NULL CHECK (outcome IN ('reached', 'voicemail', 'no_answer', 'wrong_number')),
+        notes TEXT,
+        agent_id TEXT,
+        recorded_by TEXT,
+        attempted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (task_id) REFERENCES callback_tasks(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_callback_tasks_status ON callback_tasks(status, missed_at);
+      CREATE INDEX IF NOT EXISTS idx_callback_tasks_caller ON callback_tasks(caller_number, status);
+      CREATE INDEX IF NOT EXISTS idx_callback_attempts_task ON callback_attempts(task_id, attempted_at);
+    `);
+
     // Agent Heartbeat table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS agent_heartbeat (
@@ -226,11 +462,25 @@ class SMSDatabase {
       CREATE TABLE IF NOT EXISTS user_roles (
         id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
         user_id TEXT UNIQUE NOT NULL,
-        role TEXT NOT NULL CHECK (role IN ('super_admin','admin','operator','viewer')),
+        role TEXT NOT NULL,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
       );
     `);
 
+    // Roles as editable permission sets (see permissions.cjs). user_roles.role
+    // refers to roles.name; built-in roles are seeded and cannot be deleted.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS roles (
+        name TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        description TEXT,
+        permissions TEXT NOT NULL DEFAULT '[]',
+        built_in BOOLEAN DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
     // User Port Permissions - which SIM ports each user can access
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS user_port_permissions (
@@ -255,6 +505,22 @@ class SMSDatabase {
       );
     `);
 
+    // Auth sessions - one row per login; tokens carry the session id so a
+    // session can be revoked (logout, "sign out other sessions") server-side
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        user_id TEXT NOT NULL,
+        user_agent TEXT,
+        ip_address TEXT,
+        expires_at TEXT NOT NULL,
+        last_seen_at TEXT,
+        revoked_at TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+    `);
+
     // Channel credentials table — Telegram bot token/chat ID + email SMTP settings ONLY.
     // Notification delivery preferences (toggles) live in notifications_setup below.
     this.db.exec(`
@@ -361,6 +627,7 @@ class SMSDatabase {
       CREATE TABLE IF NOT EXISTS contacts (
         id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
         phone_number TEXT UNIQUE NOT NULL,
+        phone_number_raw TEXT,
         name TEXT,
         source TEXT DEFAULT 'sms' CHECK (source IN ('sms', 'call', 'import', 'manual', 'google')),
         first_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -368,6 +635,7 @@ class SMSDatabase {
         sms_count INTEGER DEFAULT 0,
         call_count INTEGER DEFAULT 0,
         notes TEXT,
+        custom_fields TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       );
@@ -377,6 +645,67 @@ class SMSDatabase {
       CREATE INDEX IF NOT EXISTS idx_contacts_name ON contacts(name);
     `);
 
+    // SMS suppression list - numbers that texted STOP or were opted out by staff.
+    // phone_key is the 254XXXXXXXXX form so 07.., +2547.. and 2547.. all match.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sms_opt_outs (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        phone_key TEXT UNIQUE NOT NULL,
+        phone_number TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('keyword', 'manual')),
+        keyword TEXT,
+        reason TEXT,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Staff notes and tags on a contact, shown on the customer timeline
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS contact_notes (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        contact_id TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (contact_id) REFERENCES contacts(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS contact_tags (
+        contact_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (contact_id, tag),
+        FOREIGN KEY (contact_id) REFERENCES contacts(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_contact_notes_contact ON contact_notes(contact_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_contact_tags_tag ON contact_tags(tag);
+    `);
+
+    // User-defined contact fields (values live in contacts.custom_fields) and
+    // saved segments, which are filter rules evaluated on demand
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS contact_fields (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        field_key TEXT UNIQUE NOT NULL,
+        label TEXT NOT NULL,
+        field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'boolean', 'select')),
+        options TEXT, -- JSON array of choices for select fields
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS contact_segments (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        name TEXT UNIQUE NOT NULL,
+        description TEXT,
+        filter TEXT NOT NULL, -- JSON { match: 'all' | 'any', rules: [{ field, op, value }] }
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
     // SMS Report Recipients table - phone numbers to send daily reports to
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS sms_report_recipients (
@@ -402,6 +731,87 @@ class SMSDatabase {
       );
     `);
 
+    // Keyword auto-reply rules - evaluated in position order, first match replies.
+    // gsm_spans / active_days are JSON arrays; empty means "all".
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS auto_reply_rules (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        name TEXT NOT NULL,
+        position INTEGER NOT NULL DEFAULT 0,
+        enabled BOOLEAN DEFAULT 1,
+        match_type TEXT NOT NULL DEFAULT 'keyword' CHECK (match_type IN ('exact', 'keyword', 'regex')),
+        pattern TEXT NOT NULL,
+        case_sensitive BOOLEAN DEFAULT 0,
+        reply_message TEXT,
+        template_id TEXT,
+        gsm_spans TEXT DEFAULT '[]',
+        active_days TEXT DEFAULT '[]',
+        active_from TEXT,
+        active_to TEXT,
+        cooldown_minutes INTEGER DEFAULT 60,
+        match_count INTEGER DEFAULT 0,
+        last_matched_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(template_id) REFERENCES sms_templates(id) ON DELETE SET NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS auto_reply_rule_hits (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        rule_id TEXT NOT NULL,
+        sender_number TEXT NOT NULL,
+        gsm_span INTEGER,
+        outcome TEXT NOT NULL CHECK (outcome IN ('sent', 'failed', 'cooldown')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(rule_id) REFERENCES auto_reply_rules(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_auto_reply_rules_position ON auto_reply_rules(position);
+      CREATE INDEX IF NOT EXISTS idx_auto_reply_rule_hits_sender ON auto_reply_rule_hits(rule_id, sender_number, created_at DESC);
+    `);
+
+    // Bulk SMS campaigns - message keeps {merge} fields, rendered per recipient at send time.
+    // rate_per_minute is per SIM, so a campaign over 4 spans sends up to 4x that.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sms_campaigns (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        name TEXT NOT NULL,
+        message TEXT NOT NULL,
+        template_id TEXT,
+        gsm_spans TEXT DEFAULT '[]',
+        rate_per_minute INTEGER DEFAULT 6,
+        status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'running', 'paused', 'completed', 'cancelled')),
+        scheduled_at DATETIME NOT NULL,
+        started_at DATETIME,
+        completed_at DATETIME,
+        last_error TEXT,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(template_id) REFERENCES sms_templates(id) ON DELETE SET NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS sms_campaign_recipients (
+        id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+        campaign_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        phone_number TEXT NOT NULL,
+        name TEXT,
+        merge_data TEXT DEFAULT '{}',
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped', 'cancelled')),
+        gsm_span INTEGER,
+        external_id TEXT,
+        error TEXT,
+        sent_at DATETIME,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(campaign_id) REFERENCES sms_campaigns(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_sms_campaigns_status ON sms_campaigns(status, scheduled_at);
+      CREATE INDEX IF NOT EXISTS idx_sms_campaign_recipients_campaign ON sms_campaign_recipients(campaign_id, status, position);
+      CREATE INDEX IF NOT EXISTS idx_sms_campaign_recipients_external ON sms_campaign_recipients(external_id);
+    `);
+
     // Call Auto-SMS Config table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS call_auto_sms_config (
@@ -557,6 +967,14 @@ class SMSDatabase {
       logger.info('Default admin user created (admin@nosteq.co.ke)');
     }
 
+    // Seed the built-in roles; existing rows keep their edited permissions
+    const insertRole = this.db.prepare(`
+      INSERT OR IGNORE INTO roles (name, label, description, permissions, built_in) VALUES (?, ?, ?, ?, 1)
+    `);
+    for (const role of BUILT_IN_ROLES) {
+      insertRole.run(role.name, role.label, role.description, JSON.stringify(role.permissions));
+    }
+
     // Insert default Auto-Reply config if empty
     const autoReplyCount = this.db.prepare('SELECT COUNT(*) as cnt FROM auto_reply_config').get().cnt;
     if (autoReplyCount === 0) {
@@ -636,6 +1054,33 @@ class SMSDatabase {
         }
       }
       
+      // Migration: Add category_confidence column to sms_messages if it doesn't exist
+      const hasCategoryConfidenceColumn = tableInfo.some(col => col.name === 'category_confidence');
+      if (!hasCategoryConfidenceColumn) {
+        logger.info('🔄 Migrating: Adding category_confidence column to sms_messages table...');
+        try {
+          this.db.exec(`ALTER TABLE sms_messages ADD COLUMN category_confidence REAL`);
+          logger.info('✅ Migration complete: category_confidence column added');
+        } catch (e) {
+          if (!e.message.includes('duplicate column name')) {
+            logger.warn(`⚠️  Could not add category_confidence column: ${e.message}`);
+          }
+        }
+      }
+      
+      // Migration: Keep the number as the gateway reported it; sender_number holds the E.164 form
+      if (!tableInfo.some(col => col.name === 'sender_number_raw')) {
+        logger.info('🔄 Migrating: Adding sender_number_raw column to sms_messages table...');
+        try {
+          this.db.exec(`ALTER TABLE sms_messages ADD COLUMN sender_number_raw TEXT`);
+          logger.info('✅ Migration complete: sender_number_raw column added');
+        } catch (e) {
+          if (!e.message.includes('duplicate column name')) {
+            logger.warn(`⚠️  Could not add sender_number_raw column: ${e.message}`);
+          }
+        }
+      }
+
       // Drop removed tables from existing databases
       try {
         this.db.exec(`DROP TABLE IF EXISTS business_hours`);
@@ -667,6 +1112,8 @@ class SMSDatabase {
         { name: 'transfer_to',     ddl: 'ALTER TABLE call_records ADD COLUMN transfer_to TEXT' },
         { name: 'metadata',        ddl: 'ALTER TABLE call_records ADD COLUMN metadata TEXT' },
         { name: 'is_returned',     ddl: 'ALTER TABLE call_records ADD COLUMN is_returned INTEGER DEFAULT 0' },
+        { name: 'caller_number_raw', ddl: 'ALTER TABLE call_records ADD COLUMN caller_number_raw TEXT' },
+        { name: 'callee_number_raw', ddl: 'ALTER TABLE call_records ADD COLUMN callee_number_raw TEXT' },
       ];
       for (const migration of callRecordColumnMigrations) {
         if (!callColumns.has(migration.name)) {
@@ -682,6 +1129,41 @@ class SMSDatabase {
         }
       }
 
+      // Migration: Add custom_fields (JSON object keyed by contact_fields.field_key) to contacts
+      const contactColumns = new Set(this.db.prepare(`PRAGMA table_info(contacts)`).all().map(col => col.name));
+      if (!contactColumns.has('custom_fields')) {
+        logger.info('🔄 Migrating: Adding custom_fields column to contacts...');
+        try {
+          this.db.exec(`ALTER TABLE contacts ADD COLUMN custom_fields TEXT`);
+          logger.info('✅ Migration complete: contacts.custom_fields added');
+        } catch (e) {
+          if (!e.message.includes('duplicate column name')) {
+            logger.warn(`⚠️  Could not add contacts.custom_fields: ${e.message}`);
+          }
+        }
+      }
+      if (!contactColumns.has('phone_number_raw')) {
+        logger.info('🔄 Migrating: Adding phone_number_raw column to contacts...');
+        try {
+          this.db.exec(`ALTER TABLE contacts ADD COLUMN phone_number_raw TEXT`);
+          logger.info('✅ Migration complete: contacts.phone_number_raw added');
+        } catch (e) {
+          if (!e.message.includes('duplicate column name')) {
+            logger.warn(`⚠️  Could not add contacts.phone_number_raw: ${e.message}`);
+          }
+        }
+      }
+
+      // One-off: rewrite numbers stored before E.164 normalisation and merge the
+      // contacts that turn out to be the same person
+      if (!this.getSystemSetting('phone_numbers_relinked_at')) {
+        logger.info('🔄 Migrating: Normalising stored phone numbers to E.164...');
+        const relinked = this.relinkPhoneNumbers();
+        if (relinked) {
+          logger.info(`✅ Migration complete: ${relinked.sms} SMS, ${relinked.calls} call and ${relinked.contacts} contact numbers normalised, ${relinked.merged} contacts merged`);
+        }
+      }
+
       // Migration: Split notification_configurations into credentials + notifications_setup.
       // This ensures saving Notifications page preferences never touches channel credentials and vice-versa.
       try {
@@ -861,6 +1343,32 @@ class SMSDatabase {
         // ignore migration failures here but log
         try { const logger = require('./logger.cjs'); logger.warn(`⚠️  agent_shifts migration check failed: ${e.message}`); } catch (e2) {}
       }
+
+      // Migration: user_roles.role used to be limited to the four fixed roles;
+      // rebuild it without the CHECK so custom roles can be assigned
+      try {
+        const userRolesSql = this.db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'user_roles'`).get();
+        if (userRolesSql && /CHECK\s*\(\s*role IN/i.test(userRolesSql.sql)) {
+          const logger = require('./logger.cjs');
+          logger.info('🔄 Migrating: Removing fixed role list from user_roles');
+          this.db.transaction(() => {
+            this.db.exec(`
+              CREATE TABLE user_roles_new (
+                id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+                user_id TEXT UNIQUE NOT NULL,
+                role TEXT NOT NULL,
+                created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+              );
+              INSERT INTO user_roles_new (id, user_id, role, created_at) SELECT id, user_id, role, created_at FROM user_roles;
+              DROP TABLE user_roles;
+              ALTER TABLE user_roles_new RENAME TO user_roles;
+            `);
+          })();
+          logger.info('✅ Migration complete: user_roles accepts custom roles');
+        }
+      } catch (e) {
+        try { const logger = require('./logger.cjs'); logger.warn(`⚠️  user_roles migration failed: ${e.message}`); } catch (e2) {}
+      }
     } catch (error) {
       const logger = require('./logger.cjs');
       logger.warn(`⚠️  Migration check failed: ${error.message}`);
@@ -877,6 +1385,7 @@ class SMSDatabase {
         CREATE INDEX IF NOT EXISTS idx_call_records_start_time ON call_records(start_time DESC);
         CREATE INDEX IF NOT EXISTS idx_pbx_extensions_extnumber ON pbx_extensions(extnumber);
         CREATE INDEX IF NOT EXISTS idx_pbx_extensions_callerid ON pbx_extensions(callerid);
+        CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(user_id);
       `);
       
       // NOTE: Migration disabled - all calls already have extensions attached (caller or callee)
@@ -1157,11 +1666,11 @@ class SMSDatabase {
       const crypto = require('crypto');
       const password_hash = crypto.createHash('sha256').update(password).digest('hex');
       const stmt = this.db.prepare(`INSERT INTO users (email, password_hash, role, pin, telegram_chat_id, notification_channel, name, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, 1)`);
-      const result = stmt.run(email, password_hash, role === 'super_admin' ? 'admin' : role, pin, telegram_chat_id, notification_channel, name);
+      const result = stmt.run(email, password_hash, this.legacyUserRole(role), pin, telegram_chat_id, notification_channel, name);
       if (result.changes > 0) {
         const userId = this.db.prepare('SELECT id FROM users WHERE email = ?').get(email).id;
         try {
-          this.db.prepare('INSERT OR REPLACE INTO user_roles (user_id, role) VALUES (?, ?)').run(userId, role === 'super_admin' ? 'super_admin' : role);
+          this.db.prepare('INSERT OR REPLACE INTO user_roles (user_id, role) VALUES (?, ?)').run(userId, role);
         } catch (e) {
           // ignore
         }
@@ -1177,12 +1686,9 @@ class SMSDatabase {
   setUserRole(userId, role) {
     try {
       // Update users.role (legacy field) and user_roles mapping
-      const allowed = ['super_admin', 'admin', 'operator', 'viewer'];
-      if (!allowed.includes(role)) return false;
+      if (!this.getRole(role)) return false;
 
-      // Map super_admin to admin for users.role column to maintain compatibility
-      const legacyRole = role === 'super_admin' ? 'admin' : role;
-      this.db.prepare('UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(legacyRole, userId);
+      this.db.prepare('UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(this.legacyUserRole(role), userId);
 
       // Upsert into user_roles
       this.db.prepare('INSERT INTO user_roles (user_id, role) VALUES (?, ?) ON CONFLICT(user_id) DO UPDATE SET role = excluded.role, created_at = CURRENT_TIMESTAMP').run(userId, role);
@@ -1418,11 +1924,13 @@ class SMSDatabase {
   saveCallRecord(record) {
     try {
       const {
-        external_id, caller_number, callee_number, caller_name, callee_name,
+        external_id, caller_name, callee_name,
         direction, status, sim_port, extension, start_time, answer_time,
         end_time, ring_duration, talk_duration, hold_duration, total_duration,
         recording_url, transfer_to, notes, metadata
       } = record;
+      const caller_number = this.normalizePhone(record.caller_number);
+      const callee_number = this.normalizePhone(record.callee_number);
 
       // Check if external_id already exists to avoid duplicates
       if (external_id) {
@@ -1435,15 +1943,15 @@ class SMSDatabase {
 
       const stmt = this.db.prepare(`
         INSERT INTO call_records (
-          external_id, caller_number, callee_number, caller_name, callee_name,
+          external_id, caller_number, callee_number, caller_number_raw, callee_number_raw, caller_name, callee_name,
           direction, status, sim_port, extension, start_time, answer_time,
           end_time, ring_duration, talk_duration, hold_duration, total_duration,
           recording_url, transfer_to, notes, metadata
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run(
-        external_id, caller_number, callee_number, caller_name, callee_name,
+        external_id, caller_number, callee_number, record.caller_number ?? null, record.callee_number ?? null, caller_name, callee_name,
         direction, status, sim_port, extension, start_time, answer_time,
         end_time, ring_duration || 0, talk_duration || 0, hold_duration || 0, total_duration || 0,
         recording_url, transfer_to, notes, JSON.stringify(metadata || {})
@@ -1479,10 +1987,10 @@ class SMSDatabase {
 
       // ✅ Auto-save contacts from call record
       if (caller_number) {
-        this.saveOrUpdateContact(caller_number, caller_name, 'call');
+        this.saveOrUpdateContact(record.caller_number, caller_name, 'call');
       }
       if (callee_number && direction === 'outbound') {
-        this.saveOrUpdateContact(callee_number, callee_name, 'call');
+        this.saveOrUpdateContact(record.callee_number, callee_name, 'call');
       }
 
       return true;
@@ -1860,7 +2368,8 @@ class SMSDatabase {
       `);
       stmt.run(key, String(value));
       const logger = require('./logger.cjs');
-      logger.info(`System setting updated: ${key} = ${value}`);
+      const shown = /(secret|api_key|password)/.test(key) ? '[redacted]' : value;
+      logger.info(`System setting updated: ${key} = ${shown}`);
       return true;
     } catch (error) {
       console.error(`Error setting system setting ${key}:`, error.message);
@@ -1882,14 +2391,15 @@ class SMSDatabase {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         const {
-          external_id, sender_number, message_content, received_at, gsm_span, status = 'unread', direction = 'received', category = null
+          external_id, sender_number: reportedSender, message_content, received_at, gsm_span, status = 'unread', direction = 'received', category = null
         } = smsData;
         
         // Validate required fields — gsm_span required for received SMS; optional for gateway-sent
-        if (!sender_number) {
+        if (!reportedSender) {
           logger.warn(`⚠️  SMS validation failed: missing sender_number`);
           return false;
         }
+        const sender_number = this.normalizePhone(reportedSender);
         if ((direction === 'received' || !direction) && (gsm_span === undefined || gsm_span === null)) {
           logger.warn(`⚠️  SMS validation failed: received SMS missing gsm_span=${gsm_span}`);
           return false;
@@ -1926,23 +2436,30 @@ class SMSDatabase {
         
         // sim_port (1-4) derived from gsm_span (2-5) only when gsm_span is present
         const simPort = hasGsmSpan ? Math.max(1, Math.min(4, gsm_span - 1)) : null;
+
+        // Inbound messages are tagged on the way in; sent rows keep the caller's category
+        const classification = (direction === 'received' && !category)
+          ? this.classifier.classify({ sender_number, message_content })
+          : { category, confidence: null };
         
         const stmt = this.db.prepare(`
           INSERT INTO sms_messages 
-          (external_id, sender_number, message_content, received_at, sim_port, gsm_span, status, direction, category)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          (external_id, sender_number, sender_number_raw, message_content, received_at, sim_port, gsm_span, status, direction, category, category_confidence)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
         
         const result = stmt.run(
           external_id || null,
           sender_number,
+          String(reportedSender).trim(),
           message_content,
           received_at || new Date().toISOString(),
           simPort,
           hasGsmSpan ? gsm_span : null,
           status,
           direction,
-          category
+          classification.category,
+          classification.confidence
         );
         
         if (result.changes > 0) {
@@ -1986,15 +2503,17 @@ class SMSDatabase {
       // Use INSERT OR IGNORE to prevent duplicates based on external_id constraint
       const stmt = this.db.prepare(`
         INSERT OR IGNORE INTO call_records (
-          external_id, caller_number, callee_number, caller_name, callee_name,
+          external_id, caller_number, callee_number, caller_number_raw, callee_number_raw, caller_name, callee_name,
           direction, status, sim_port, extension, start_time, answer_time, end_time,
           ring_duration, talk_duration, hold_duration, total_duration, recording_url,
           transfer_to, metadata
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       const result = stmt.run(
         callData.external_id || null,
+        this.normalizePhone(callData.caller_number) || null,
+        this.normalizePhone(callData.callee_number) || null,
         callData.caller_number || null,
         callData.callee_number || null,
         callData.caller_name || null,
@@ -2055,6 +2574,10 @@ class SMSDatabase {
         query += ' AND sm.received_at >= ?';
         params.push(filters.since);
       }
+      if (filters.segmentNumbers) {
+        query += ' AND sm.sender_number IN (SELECT value FROM json_each(?))';
+        params.push(JSON.stringify(filters.segmentNumbers));
+      }
       
       query += ' ORDER BY sm.received_at DESC';
       
@@ -2088,83 +2611,250 @@ class SMSDatabase {
     }
   }
   
-  markAllRead() {
+  // ========================================
+  // SMS CATEGORIES (classifier + operator feedback)
+  // ========================================
+
+  retrainClassifier() {
     try {
-      const stmt = this.db.prepare(`
-        UPDATE sms_messages
-        SET status = 'read', updated_at = CURRENT_TIMESTAMP
-        WHERE status != 'read'
-      `);
-      const result = stmt.run();
-      return result.changes || 0;
+      // The message's current category is the latest correction made to it
+      const samples = this.db.prepare(`
+        SELECT sender_number, message_content, category
+        FROM sms_messages
+        WHERE id IN (SELECT sms_id FROM sms_category_feedback)
+      `).all();
+      this.classifier.train(samples);
+      return samples.length;
     } catch (error) {
-      console.error('Error marking all SMS as read:', error.message);
+      console.error('Error retraining SMS classifier:', error.message);
       return 0;
     }
   }
-  saveSMSMessage(smsData) {
+
+  saveCategoryFeedback(messageId, correctedCategory, correctedBy = null) {
     try {
-      // gsm_span (2-5), sim_port (1-4): sim_port = gsm_span - 1
-      const gsm_span = smsData.gsm_span || (smsData.sim_port ? smsData.sim_port + 1 : 2);
-      const sim_port = smsData.sim_port || Math.max(1, Math.min(4, gsm_span - 1));
-      
-      // Validate gsm_span is in valid range
-      if (gsm_span < 2 || gsm_span > 5) {
-        throw new Error(`Invalid gsm_span: ${gsm_span}. Must be 2-5`);
-      }
-      
-      const stmt = this.db.prepare(`
-        INSERT INTO sms_messages (
-          sender_number, message_content, sim_port, gsm_span, status, 
-          external_id, received_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
-      `);
-      const result = stmt.run(
-        smsData.sender_number,
-        smsData.message_content,
-        sim_port,
-        gsm_span,
-        smsData.status || 'unread',
-        smsData.external_id || null,
-        smsData.received_at || new Date().toISOString()
-      );
-      
-      // ✅ Auto-save contact from SMS sender
-      if (result.changes > 0 && smsData.sender_number) {
-        this.saveOrUpdateContact(smsData.sender_number, null, 'sms');
-      }
-      
-      return result.changes > 0;
+      const message = this.db.prepare('SELECT id, category FROM sms_messages WHERE id = ?').get(messageId);
+      if (!message) return null;
+
+      const originalCategory = message.category || 'unknown';
+      this.db.transaction(() => {
+        this.db.prepare(`
+          INSERT INTO sms_category_feedback (sms_id, original_category, corrected_category, corrected_by)
+          VALUES (?, ?, ?, ?)
+        `).run(messageId, originalCategory, correctedCategory, correctedBy);
+        this.db.prepare(`
+          UPDATE sms_messages
+          SET category = ?, category_confidence = 1, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(correctedCategory, messageId);
+      })();
+
+      this.retrainClassifier();
+      return { original_category: originalCategory, corrected_category: correctedCategory };
     } catch (error) {
-      console.error('❌ Error saving SMS message:', error.message);
-      console.error('   Data:', { sender: smsData.sender_number, gsm_span: smsData.gsm_span });
-      return false;
+      console.error('Error saving category feedback:', error.message);
+      return null;
     }
   }
 
-  saveBulkSMS(messages) {
+  getCategoryFeedback(limit = 100) {
     try {
-      // sim_port (1-4), gsm_span (2-5): sim_port = gsm_span - 1
-      const insert = this.db.prepare(`
-        INSERT INTO sms_messages (
-          sender_number, message_content, sim_port, gsm_span, status, 
-          external_id, received_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
-      `);
-      
+      return this.db.prepare(`
+        SELECT f.*, sm.sender_number, sm.message_content
+        FROM sms_category_feedback f
+        LEFT JOIN sms_messages sm ON sm.id = f.sms_id
+        ORDER BY f.created_at DESC
+        LIMIT ?
+      `).all(limit);
+    } catch (error) {
+      console.error('Error getting category feedback:', error.message);
+      return [];
+    }
+  }
+
+  getInboundSmsByExternalId(externalId) {
+    try {
+      return this.db.prepare(`
+        SELECT id, sender_number, message_content, category, category_confidence
+        FROM sms_messages
+        WHERE external_id = ? AND direction = 'received'
+        LIMIT 1
+      `).get(externalId) || null;
+    } catch (error) {
+      console.error('Error getting SMS by external id:', error.message);
+      return null;
+    }
+  }
+
+  // Second-opinion category (AI fallback); never overrides an operator correction
+  refineSmsCategory(messageId, category, confidence) {
+    try {
+      const result = this.db.prepare(`
+        UPDATE sms_messages
+        SET category = ?, category_confidence = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND NOT EXISTS (SELECT 1 FROM sms_category_feedback WHERE sms_id = ?)
+      `).run(category, confidence, messageId, messageId);
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error refining SMS category:', error.message);
+      return false;
+    }
+  }
+
+  // Latest messages both ways with one number, oldest first
+  getConversationMessages(phoneNumber, limit = 10) {
+    try {
+      return this.db.prepare(`
+        SELECT direction, message_content, received_at
+        FROM sms_messages
+        WHERE sender_number = ?
+        ORDER BY received_at DESC
+        LIMIT ?
+      `).all(this.normalizePhone(phoneNumber), limit).reverse();
+    } catch (error) {
+      console.error('Error getting conversation messages:', error.message);
+      return [];
+    }
+  }
+
+  countReclassifiableSMS() {
+    try {
+      return this.db.prepare(`
+        SELECT COUNT(*) as cnt FROM sms_messages
+        WHERE direction = 'received' AND id NOT IN (SELECT sms_id FROM sms_category_feedback)
+      `).get().cnt;
+    } catch (error) {
+      console.error('Error counting SMS for reclassification:', error.message);
+      return 0;
+    }
+  }
+
+  /**
+   * Re-run the classifier over one batch of inbound messages, walking by rowid.
+   * Messages an operator corrected by hand are left alone.
+   */
+  reclassifySMSBatch(afterRowid = 0, limit = 500) {
+    try {
+      const rows = this.db.prepare(`
+        SELECT rowid, id, sender_number, message_content, category, category_confidence
+        FROM sms_messages
+        WHERE direction = 'received' AND rowid > ?
+          AND id NOT IN (SELECT sms_id FROM sms_category_feedback)
+        ORDER BY rowid
+        LIMIT ?
+      `).all(afterRowid, limit);
+
+      const update = this.db.prepare(`
+        UPDATE sms_messages SET category = ?, category_confidence = ? WHERE id = ?
+      `);
+
+      let changed = 0;
+      this.db.transaction(() => {
+        for (const row of rows) {
+          const { category, confidence } = this.classifier.classify(row);
+          if (category === row.category && confidence === row.category_confidence) continue;
+          update.run(category, confidence, row.id);
+          changed++;
+        }
+      })();
+
+      return {
+        processed: rows.length,
+        changed,
+        lastRowid: rows.length > 0 ? rows[rows.length - 1].rowid : afterRowid,
+      };
+    } catch (error) {
+      console.error('Error reclassifying SMS batch:', error.message);
+      return null;
+    }
+  }
+  
+  markAllRead() {
+    try {
+      const stmt = this.db.prepare(`
+        UPDATE sms_messages
+        SET status = 'read', updated_at = CURRENT_TIMESTAMP
+        WHERE status != 'read'
+      `);
+      const result = stmt.run();
+      return result.changes || 0;
+    } catch (error) {
+      console.error('Error marking all SMS as read:', error.message);
+      return 0;
+    }
+  }
+  saveSMSMessage(smsData) {
+    try {
+      // gsm_span (2-5), sim_port (1-4): sim_port = gsm_span - 1
+      const gsm_span = smsData.gsm_span || (smsData.sim_port ? smsData.sim_port + 1 : 2);
+      const sim_port = smsData.sim_port || Math.max(1, Math.min(4, gsm_span - 1));
+      
+      // Validate gsm_span is in valid range
+      if (gsm_span < 2 || gsm_span > 5) {
+        throw new Error(`Invalid gsm_span: ${gsm_span}. Must be 2-5`);
+      }
+      
+      const { category, confidence } = this.classifier.classify(smsData);
+      
+      const stmt = this.db.prepare(`
+        INSERT INTO sms_messages (
+          sender_number, sender_number_raw, message_content, sim_port, gsm_span, status, 
+          external_id, received_at, category, category_confidence
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      const result = stmt.run(
+        this.normalizePhone(smsData.sender_number),
+        smsData.sender_number,
+        smsData.message_content,
+        sim_port,
+        gsm_span,
+        smsData.status || 'unread',
+        smsData.external_id || null,
+        smsData.received_at || new Date().toISOString(),
+        category,
+        confidence
+      );
+      
+      // ✅ Auto-save contact from SMS sender
+      if (result.changes > 0 && smsData.sender_number) {
+        this.saveOrUpdateContact(smsData.sender_number, null, 'sms');
+      }
+      
+      return result.changes > 0;
+    } catch (error) {
+      console.error('❌ Error saving SMS message:', error.message);
+      console.error('   Data:', { sender: smsData.sender_number, gsm_span: smsData.gsm_span });
+      return false;
+    }
+  }
+
+  saveBulkSMS(messages) {
+    try {
+      // sim_port (1-4), gsm_span (2-5): sim_port = gsm_span - 1
+      const insert = this.db.prepare(`
+        INSERT INTO sms_messages (
+          sender_number, sender_number_raw, message_content, sim_port, gsm_span, status, 
+          external_id, received_at, category, category_confidence
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      
       const insertMany = this.db.transaction((msgs) => {
         for (const msg of msgs) {
           const gsm_span = msg.gsm_span || (msg.sim_port ? msg.sim_port + 1 : 2);
           const sim_port = msg.sim_port || Math.max(1, Math.min(4, gsm_span - 1));
+          const { category, confidence } = this.classifier.classify(msg);
           
           insert.run(
+            this.normalizePhone(msg.sender_number),
             msg.sender_number,
             msg.message_content,
             sim_port,
             gsm_span,
             msg.status || 'unread',
             msg.external_id || null,
-            msg.received_at || new Date().toISOString()
+            msg.received_at || new Date().toISOString(),
+            category,
+            confidence
           );
         }
       });
@@ -2197,6 +2887,171 @@ class SMSDatabase {
     }
   }
 
+  // ========================================
+  // SMS OUTBOX (durable outbound queue)
+  // queued -> sending -> sent, or back to queued with a backoff until
+  // max_attempts is used up and it lands in failed. 'sent' means the SIM
+  // accepted it: the TG400 reports no handset delivery receipts.
+  // ========================================
+
+  enqueueOutboxMessage({ to_number, message, preferred_gsm_span = null, source = 'api', category = null, created_by = null, max_attempts = 5 }) {
+    try {
+      const id = require('crypto').randomBytes(16).toString('hex');
+      this.db.prepare(`
+        INSERT INTO sms_outbox (id, to_number, message, preferred_gsm_span, source, category, created_by, max_attempts)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(id, to_number, message, preferred_gsm_span, source, category, created_by, max_attempts);
+      return this.getOutboxMessage(id);
+    } catch (error) {
+      console.error('Error queueing outbound SMS:', error.message);
+      return null;
+    }
+  }
+
+  getOutboxMessage(id) {
+    try {
+      return this.db.prepare('SELECT * FROM sms_outbox WHERE id = ?').get(id) || null;
+    } catch (error) {
+      console.error('Error getting outbound SMS:', error.message);
+      return null;
+    }
+  }
+
+  getOutboxMessages({ status = null, limit = 200 } = {}) {
+    try {
+      const params = [];
+      let query = 'SELECT * FROM sms_outbox';
+      if (status) {
+        query += ' WHERE status = ?';
+        params.push(status);
+      }
+      query += ' ORDER BY created_at DESC LIMIT ?';
+      params.push(limit);
+      return this.db.prepare(query).all(...params);
+    } catch (error) {
+      console.error('Error getting outbound SMS queue:', error.message);
+      return [];
+    }
+  }
+
+  getOutboxCounts() {
+    const counts = { queued: 0, sending: 0, sent: 0, failed: 0, cancelled: 0 };
+    try {
+      for (const row of this.db.prepare('SELECT status, COUNT(*) as count FROM sms_outbox GROUP BY status').all()) {
+        counts[row.status] = row.count;
+      }
+    } catch (error) {
+      console.error('Error counting outbound SMS queue:', error.message);
+    }
+    return counts;
+  }
+
+  hasDueOutboxMessage() {
+    try {
+      return !!this.db.prepare(`
+        SELECT 1 FROM sms_outbox WHERE status = 'queued' AND next_attempt_at <= CURRENT_TIMESTAMP LIMIT 1
+      `).get();
+    } catch (error) {
+      console.error('Error checking outbound SMS queue:', error.message);
+      return false;
+    }
+  }
+
+  // Take the next due message for sending. The status guard on the UPDATE
+  // keeps a message from being claimed twice.
+  claimOutboxMessage() {
+    try {
+      const row = this.db.prepare(`
+        SELECT id FROM sms_outbox
+        WHERE status = 'queued' AND next_attempt_at <= CURRENT_TIMESTAMP
+        ORDER BY next_attempt_at ASC, created_at ASC LIMIT 1
+      `).get();
+      if (!row) return null;
+
+      const result = this.db.prepare(`
+        UPDATE sms_outbox SET status = 'sending', attempts = attempts + 1, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'queued'
+      `).run(row.id);
+      return result.changes > 0 ? this.getOutboxMessage(row.id) : null;
+    } catch (error) {
+      console.error('Error claiming outbound SMS:', error.message);
+      return null;
+    }
+  }
+
+  // Record the outcome of a send attempt. retry_in_seconds puts the message
+  // back in the queue; otherwise status is final.
+  updateOutboxMessage(id, { status, gsm_span = null, external_id = null, last_error = null, retry_in_seconds = null }) {
+    try {
+      const nextStatus = retry_in_seconds !== null ? 'queued' : status;
+      this.db.prepare(`
+        UPDATE sms_outbox
+        SET status = ?, gsm_span = COALESCE(?, gsm_span), external_id = COALESCE(?, external_id), last_error = ?,
+            next_attempt_at = CASE WHEN ? IS NOT NULL THEN datetime('now', '+' || ? || ' seconds') ELSE next_attempt_at END,
+            sent_at = CASE WHEN ? = 'sent' THEN CURRENT_TIMESTAMP ELSE sent_at END,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(nextStatus, gsm_span, external_id, last_error, retry_in_seconds, retry_in_seconds, nextStatus, id);
+      return this.getOutboxMessage(id);
+    } catch (error) {
+      console.error('Error updating outbound SMS:', error.message);
+      return null;
+    }
+  }
+
+  // Manual retry of a failed or cancelled message: a fresh set of attempts,
+  // and the failed row in the sent log is dropped so the retry replaces it
+  retryOutboxMessage(id) {
+    try {
+      const row = this.getOutboxMessage(id);
+      if (!row || !['failed', 'cancelled'].includes(row.status)) return null;
+
+      this.db.transaction(() => {
+        if (row.external_id) {
+          this.db.prepare("DELETE FROM sms_messages WHERE external_id = ? AND direction = 'sent' AND status = 'failed'").run(row.external_id);
+        }
+        this.db.prepare(`
+          UPDATE sms_outbox
+          SET status = 'queued', attempts = 0, last_error = NULL, next_attempt_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(id);
+      })();
+      return this.getOutboxMessage(id);
+    } catch (error) {
+      console.error('Error retrying outbound SMS:', error.message);
+      return null;
+    }
+  }
+
+  cancelOutboxMessage(id) {
+    try {
+      const result = this.db.prepare(`
+        UPDATE sms_outbox SET status = 'cancelled', last_error = 'Cancelled', updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'queued'
+      `).run(id);
+      return result.changes > 0 ? this.getOutboxMessage(id) : null;
+    } catch (error) {
+      console.error('Error cancelling outbound SMS:', error.message);
+      return null;
+    }
+  }
+
+  // An attempt cut off by a restart may already have left the SIM, so like
+  // campaign sends it is failed rather than re-queued; retrying is a manual call
+  failInterruptedOutboxSends() {
+    try {
+      const result = this.db.prepare(`
+        UPDATE sms_outbox
+        SET status = 'failed', last_error = 'Interrupted by agent restart; it may have been sent', updated_at = CURRENT_TIMESTAMP
+        WHERE status = 'sending'
+      `).run();
+      return result.changes;
+    } catch (error) {
+      console.error('Error recovering outbound SMS queue:', error.message);
+      return 0;
+    }
+  }
+
   // Activity log methods
   logActivity(eventType, message, severity = 'info', sim_port = null, metadata = {}) {
     try {
@@ -2400,6 +3255,49 @@ class SMSDatabase {
     }
   }
 
+  // Analytics: SMS counts per GSM span in 15-minute UTC slices. Fine enough
+  // to regroup into local hours/days for any timezone offset; bounds are
+  // UTC "YYYY-MM-DD HH:MM:SS", end exclusive.
+  getSmsAnalyticsSlices(fromUtc, toUtc) {
+    try {
+      return this.db.prepare(`
+        SELECT strftime('%Y-%m-%d %H:', received_at) || printf('%02d', (CAST(strftime('%M', received_at) AS INTEGER) / 15) * 15) AS slice,
+               gsm_span,
+               COUNT(*) AS count
+        FROM sms_messages
+        WHERE datetime(received_at) >= ? AND datetime(received_at) < ?
+        GROUP BY slice, gsm_span
+      `).all(fromUtc, toUtc);
+    } catch (error) {
+      console.error('Error getting SMS analytics:', error.message);
+      return [];
+    }
+  }
+
+  // Analytics: per-extension call totals over a UTC range (end exclusive)
+  getCallAnalyticsByExtension(fromUtc, toUtc) {
+    try {
+      return this.db.prepare(`
+        SELECT COALESCE(cr.extension, 'Unknown') AS extension,
+               MAX(pe.username) AS username,
+               MAX(cr.sim_port) AS sim_port,
+               COUNT(*) AS total_calls,
+               SUM(CASE WHEN LOWER(cr.status) = 'answered' THEN 1 ELSE 0 END) AS answered_calls,
+               SUM(CASE WHEN LOWER(cr.status) IN ('missed', 'no-answer', 'noanswer', 'no answer') THEN 1 ELSE 0 END) AS missed_calls,
+               SUM(CASE WHEN cr.is_returned = 1 THEN 1 ELSE 0 END) AS called_back,
+               SUM(CASE WHEN LOWER(cr.status) = 'answered' THEN COALESCE(cr.talk_duration, 0) ELSE 0 END) AS total_talk_time
+        FROM call_records cr
+        LEFT JOIN pbx_extensions pe ON pe.extnumber = cr.extension
+        WHERE datetime(cr.start_time) >= ? AND datetime(cr.start_time) < ?
+        GROUP BY COALESCE(cr.extension, 'Unknown')
+        ORDER BY extension
+      `).all(fromUtc, toUtc);
+    } catch (error) {
+      console.error('Error getting call analytics:', error.message);
+      return [];
+    }
+  }
+
   // Authentication methods
   authenticateUser(email, password) {
     try {
@@ -2439,230 +3337,2986 @@ class SMSDatabase {
   }
 
   // ========================================
-  // CONTACTS MANAGEMENT
+  // ROLES & PERMISSIONS
   // ========================================
 
-  saveOrUpdateContact(phoneNumber, name = null, source = 'sms') {
+  // users.role only accepts the original roles; user_roles holds the real one.
+  // Custom roles fall back to the least privileged for anything still reading it.
+  legacyUserRole(role) {
+    if (role === SUPER_ADMIN_ROLE) return 'admin';
+    return ['admin', 'operator', 'viewer'].includes(role) ? role : 'viewer';
+  }
+
+  parseRole(row) {
+    if (!row) return null;
+    let permissions = [];
+    try { permissions = JSON.parse(row.permissions || '[]'); } catch { permissions = []; }
+    return {
+      ...row,
+      built_in: !!row.built_in,
+      permissions: row.name === SUPER_ADMIN_ROLE ? PERMISSION_KEYS : normalizePermissions(permissions),
+    };
+  }
+
+  getRoles() {
     try {
-      const existingContact = this.db.prepare('SELECT id FROM contacts WHERE phone_number = ?').get(phoneNumber);
-      
-      if (existingContact) {
-        // Update existing contact
-        this.db.prepare(`
-          UPDATE contacts 
-          SET name = COALESCE(?, name), 
-              last_seen_at = CURRENT_TIMESTAMP,
-              ${source === 'sms' ? 'sms_count = sms_count + 1' : source === 'call' ? 'call_count = call_count + 1' : ''},
-              updated_at = CURRENT_TIMESTAMP
-          WHERE phone_number = ?
-        `).run(name, phoneNumber);
-        return existingContact.id;
-      } else {
-        // Insert new contact
-        const result = this.db.prepare(`
-          INSERT INTO contacts (phone_number, name, source, first_seen_at, last_seen_at, sms_count, call_count)
-          VALUES (?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, ?, ?)
-        `).run(
-          phoneNumber,
-          name,
-          source,
-          source === 'sms' ? 1 : 0,
-          source === 'call' ? 1 : 0
-        );
-        return result.lastInsertRowid;
-      }
+      const rows = this.db.prepare(`
+        SELECT r.*, (
+          SELECT COUNT(*) FROM users u LEFT JOIN user_roles ur ON ur.user_id = u.id
+          WHERE COALESCE(ur.role, u.role) = r.name
+        ) as user_count
+        FROM roles r
+        ORDER BY r.built_in DESC, r.created_at ASC, r.name ASC
+      `).all();
+      // Built-in roles in hierarchy order, then custom roles oldest first
+      const rank = (row) => {
+        const index = BUILT_IN_ROLES.findIndex(r => r.name === row.name);
+        return index === -1 ? BUILT_IN_ROLES.length : index;
+      };
+      return rows.sort((a, b) => rank(a) - rank(b)).map(row => this.parseRole(row));
     } catch (error) {
-      console.error('Error saving contact:', error.message);
-      return null;
+      console.error('Error getting roles:', error.message);
+      return [];
     }
   }
 
-  getContacts() {
+  getRole(name) {
     try {
-      const stmt = this.db.prepare(`
-        SELECT id, phone_number, name, source, first_seen_at, last_seen_at, sms_count, call_count, notes, created_at, updated_at
-        FROM contacts
-        ORDER BY last_seen_at DESC
-      `);
-      return stmt.all() || [];
+      return this.parseRole(this.db.prepare('SELECT * FROM roles WHERE name = ?').get(name));
     } catch (error) {
-      console.error('Error getting contacts:', error.message);
-      return [];
+      console.error('Error getting role:', error.message);
+      return null;
     }
   }
 
-  getContact(id) {
+  createRole({ name, label, description = null, permissions = [] }) {
     try {
-      const stmt = this.db.prepare(`
-        SELECT id, phone_number, name, source, first_seen_at, last_seen_at, sms_count, call_count, notes, created_at, updated_at
-        FROM contacts
-        WHERE id = ?
-      `);
-      return stmt.get(id) || null;
+      this.db.prepare(`
+        INSERT INTO roles (name, label, description, permissions, built_in) VALUES (?, ?, ?, ?, 0)
+      `).run(name, label, description, JSON.stringify(normalizePermissions(permissions)));
+      return this.getRole(name);
     } catch (error) {
-      console.error('Error getting contact:', error.message);
+      console.error('Error creating role:', error.message);
       return null;
     }
   }
 
-  updateContact(id, updates = {}) {
+  updateRole(name, { label, description, permissions }) {
     try {
-      const { name, notes } = updates;
-      const fields = [];
-      const values = [];
-
+      const existing = this.getRole(name);
+      if (!existing) return null;
+      this.db.prepare(`
+        UPDATE roles SET label = ?, description = ?, permissions = ?, updated_at = CURRENT_TIMESTAMP WHERE name = ?
+      `).run(
+        label ?? existing.label,
+        description !== undefined ? description : existing.description,
+        JSON.stringify(normalizePermissions(permissions ?? existing.permissions)),
+        name
+      );
+      return this.getRole(name);
+    } catch (error) {
+      console.error('Error updating role:', error.message);
+      return null;
+    }
+  }
+
+  deleteRole(name) {
+    try {
+      return this.db.prepare('DELETE FROM roles WHERE name = ? AND built_in = 0').run(name).changes > 0;
+    } catch (error) {
+      console.error('Error deleting role:', error.message);
+      return false;
+    }
+  }
+
+  // ========================================
+  // AUTH SESSIONS
+  // ========================================
+
+  // HMAC key for auth tokens. Generated once and kept in system_settings
+  // (not via setSystemSetting, which logs the value).
+  getAuthTokenSecret() {
+    try {
+      const existing = this.getSystemSetting('auth_token_secret');
+      if (existing) return existing;
+
+      const crypto = require('crypto');
+      const secret = crypto.randomBytes(32).toString('hex');
+      this.db.prepare(`
+        INSERT OR IGNORE INTO system_settings (key, value, updated_at)
+        VALUES ('auth_token_secret', ?, CURRENT_TIMESTAMP)
+      `).run(secret);
+      return this.getSystemSetting('auth_token_secret');
+    } catch (error) {
+      console.error('Error getting auth token secret:', error.message);
+      return null;
+    }
+  }
+
+  createAuthSession({ userId, userAgent = null, ipAddress = null, expiresAt }) {
+    try {
+      const crypto = require('crypto');
+      const id = crypto.randomBytes(16).toString('hex');
+      const now = new Date().toISOString();
+      this.db.prepare(`
+        INSERT INTO auth_sessions (id, user_id, user_agent, ip_address, expires_at, last_seen_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(id, userId, userAgent, ipAddress, expiresAt, now);
+      return this.getAuthSession(id);
+    } catch (error) {
+      console.error('Error creating auth session:', error.message);
+      return null;
+    }
+  }
+
+  getAuthSession(sessionId) {
+    try {
+      return this.db.prepare('SELECT * FROM auth_sessions WHERE id = ?').get(sessionId) || null;
+    } catch (error) {
+      console.error('Error getting auth session:', error.message);
+      return null;
+    }
+  }
+
+  touchAuthSession(sessionId, expiresAt = null) {
+    try {
+      const now = new Date().toISOString();
+      if (expiresAt) {
+        this.db.prepare('UPDATE auth_sessions SET last_seen_at = ?, expires_at = ? WHERE id = ?').run(now, expiresAt, sessionId);
+      } else {
+        this.db.prepare('UPDATE auth_sessions SET last_seen_at = ? WHERE id = ?').run(now, sessionId);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error touching auth session:', error.message);
+      return false;
+    }
+  }
+
+  getUserSessions(userId) {
+    try {
+      return this.db.prepare(`
+        SELECT id, user_agent, ip_address, created_at, last_seen_at, expires_at
+        FROM auth_sessions
+        WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+        ORDER BY last_seen_at DESC
+      `).all(userId, new Date().toISOString());
+    } catch (error) {
+      console.error('Error getting user sessions:', error.message);
+      return [];
+    }
+  }
+
+  revokeAuthSession(sessionId, userId = null) {
+    try {
+      const now = new Date().toISOString();
+      const result = userId
+        ? this.db.prepare('UPDATE auth_sessions SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL').run(now, sessionId, userId)
+        : this.db.prepare('UPDATE auth_sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL').run(now, sessionId);
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error revoking auth session:', error.message);
+      return false;
+    }
+  }
+
+  // Revoke every live session for a user, optionally keeping the caller's own
+  revokeUserSessions(userId, exceptSessionId = null) {
+    try {
+      const now = new Date().toISOString();
+      const result = this.db.prepare(`
+        UPDATE auth_sessions SET revoked_at = ?
+        WHERE user_id = ? AND revoked_at IS NULL AND id != ?
+      `).run(now, userId, exceptSessionId || '');
+      return result.changes;
+    } catch (error) {
+      console.error('Error revoking user sessions:', error.message);
+      return 0;
+    }
+  }
+
+  purgeExpiredAuthSessions() {
+    try {
+      // Keep revoked/expired rows for a day so recent logouts can still be traced
+      const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const result = this.db.prepare(`
+        DELETE FROM auth_sessions WHERE expires_at < ? OR revoked_at < ?
+      `).run(cutoff, cutoff);
+      return result.changes;
+    } catch (error) {
+      console.error('Error purging auth sessions:', error.message);
+      return 0;
+    }
+  }
+
+  // ========================================
+  // PHONE NUMBER NORMALISATION
+  // ========================================
+
+  // Country code assumed for numbers written without one (0712…, 712…)
+  getDefaultCountryCode() {
+    if (!this.defaultCountryCode) {
+      const stored = this.getSystemSetting('phone_default_country_code');
+      this.defaultCountryCode = isValidCountryCode(stored) ? stored : DEFAULT_COUNTRY_CODE;
+    }
+    return this.defaultCountryCode;
+  }
+
+  setDefaultCountryCode(code) {
+    if (!isValidCountryCode(code)) return false;
+    if (!this.setSystemSetting('phone_default_country_code', code)) return false;
+    this.defaultCountryCode = String(code);
+    return true;
+  }
+
+  normalizePhone(phoneNumber) {
+    return normalizePhoneNumber(phoneNumber, this.getDefaultCountryCode());
+  }
+
+  /**
+   * Rewrites stored numbers to E.164, keeping the original in the *_raw
+   * columns, and folds contacts that turn out to share a number into the most
+   * recently seen one (counts summed, tags and notes moved over). Runs once on
+   * upgrade and again whenever an admin changes the default country.
+   */
+  relinkPhoneNumbers() {
+    try {
+      const result = { sms: 0, calls: 0, contacts: 0, merged: 0 };
+
+      // Re-derives each value from the raw original when one was kept, so a
+      // changed default country also corrects numbers already stored
+      const relinkColumn = (table, column, rawColumn = null) => {
+        const source = rawColumn ? `COALESCE(${rawColumn}, ${column})` : column;
+        const update = this.db.prepare(`
+          UPDATE ${table}
+          SET ${rawColumn ? `${rawColumn} = ${source}, ` : ''}${column} = ?
+          WHERE ${column} = ?${rawColumn ? ` AND ${source} = ?` : ''}
+        `);
+        let changed = 0;
+        for (const { value, original } of this.db.prepare(`
+          SELECT DISTINCT ${column} AS value, ${source} AS original FROM ${table} WHERE ${column} IS NOT NULL
+        `).all()) {
+          const normalized = this.normalizePhone(original);
+          if (normalized !== value) changed += update.run(normalized, value, ...(rawColumn ? [original] : [])).changes;
+        }
+        return changed;
+      };
+
+      // Opt-outs are looked up by phone_key, so it is recomputed with the number.
+      // Entries that now share a key are one suppression: the oldest is kept.
+      // Keys are parked on the row id first so two entries can swap keys
+      // without tripping the UNIQUE constraint.
+      const relinkOptOuts = () => {
+        const kept = new Map();
+        for (const optOut of this.db.prepare('SELECT id, phone_key, phone_number FROM sms_opt_outs ORDER BY created_at ASC').all()) {
+          const key = this.optOutKey(optOut.phone_number);
+          if (kept.has(key)) {
+            this.db.prepare('DELETE FROM sms_opt_outs WHERE id = ?').run(optOut.id);
+          } else {
+            kept.set(key, { ...optOut, phoneNumber: this.normalizePhone(optOut.phone_number) });
+          }
+        }
+        const changed = [...kept].filter(([key, o]) => key !== o.phone_key || o.phoneNumber !== o.phone_number);
+        const park = this.db.prepare("UPDATE sms_opt_outs SET phone_key = 'relink:' || id WHERE id = ?");
+        const update = this.db.prepare('UPDATE sms_opt_outs SET phone_key = ?, phone_number = ? WHERE id = ?');
+        changed.forEach(([, o]) => park.run(o.id));
+        changed.forEach(([key, o]) => update.run(key, o.phoneNumber, o.id));
+      };
+
+      const mergeInto = (primary, duplicates, phoneNumber) => {
+        const all = [primary, ...duplicates];
+        const customFields = Object.assign({}, ...all.slice().reverse().map(c => {
+          try { return JSON.parse(c.custom_fields || '{}'); } catch { return {}; }
+        }));
+        const notes = [...new Set(all.map(c => c.notes).filter(Boolean))].join('\n') || null;
+
+        for (const duplicate of duplicates) {
+          this.db.prepare(`
+            INSERT OR IGNORE INTO contact_tags (contact_id, tag, created_at)
+            SELECT ?, tag, created_at FROM contact_tags WHERE contact_id = ?
+          `).run(primary.id, duplicate.id);
+          this.db.prepare('UPDATE contact_notes SET contact_id = ? WHERE contact_id = ?').run(primary.id, duplicate.id);
+          this.db.prepare('DELETE FROM contacts WHERE id = ?').run(duplicate.id);
+        }
+
+        this.db.prepare(`
+          UPDATE contacts
+          SET phone_number = ?, phone_number_raw = ?, name = ?, notes = ?, custom_fields = ?,
+              sms_count = ?, call_count = ?, first_seen_at = ?, last_seen_at = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(
+          phoneNumber,
+          primary.phone_number_raw || primary.phone_number,
+          all.map(c => c.name).find(Boolean) || null,
+          notes,
+          JSON.stringify(customFields),
+          all.reduce((sum, c) => sum + (c.sms_count || 0), 0),
+          all.reduce((sum, c) => sum + (c.call_count || 0), 0),
+          all.map(c => c.first_seen_at).filter(Boolean).sort()[0] || primary.first_seen_at,
+          all.map(c => c.last_seen_at).filter(Boolean).sort().pop() || primary.last_seen_at,
+          primary.id
+        );
+      };
+
+      this.db.transaction(() => {
+        result.sms = relinkColumn('sms_messages', 'sender_number', 'sender_number_raw');
+        result.calls = relinkColumn('call_records', 'caller_number', 'caller_number_raw')
+          + relinkColumn('call_records', 'callee_number', 'callee_number_raw');
+        relinkColumn('callback_tasks', 'caller_number');
+        relinkOptOuts();
+
+        // Most recently seen first, so it becomes the surviving contact
+        const groups = new Map();
+        for (const contact of this.db.prepare('SELECT * FROM contacts ORDER BY last_seen_at DESC').all()) {
+          const phoneNumber = this.normalizePhone(contact.phone_number_raw || contact.phone_number);
+          if (!groups.has(phoneNumber)) groups.set(phoneNumber, []);
+          groups.get(phoneNumber).push(contact);
+        }
+        for (const [phoneNumber, [primary, ...duplicates]] of groups) {
+          if (duplicates.length === 0 && primary.phone_number === phoneNumber) continue;
+          mergeInto(primary, duplicates, phoneNumber);
+          result.contacts++;
+          result.merged += duplicates.length;
+        }
+      })();
+
+      this.setSystemSetting('phone_numbers_relinked_at', new Date().toISOString());
+      this.logActivity(
+        'phone_numbers_relinked',
+        `Normalised ${result.sms} SMS, ${result.calls} call and ${result.contacts} contact numbers to E.164; merged ${result.merged} duplicate contacts`,
+        'success'
+      );
+      return result;
+    } catch (error) {
+      console.error('Error normalising stored phone numbers:', error.message);
+      return null;
+    }
+  }
+
+  // ========================================
+  // SMS OPT-OUTS (suppression list)
+  // ========================================
+
+  optOutKey(phoneNumber) {
+    const e164 = toE164(phoneNumber, this.getDefaultCountryCode());
+    if (e164) return e164.substring(1);
+    const digits = String(phoneNumber || '').replace(/\D/g, '');
+    if (!digits) return String(phoneNumber || '').trim().toLowerCase();
+    if (digits.startsWith('0')) return `254${digits.substring(1)}`;
+    if (digits.length === 9) return `254${digits}`;
+    return digits;
+  }
+
+  isOptedOut(phoneNumber) {
+    try {
+      return !!this.db.prepare('SELECT 1 FROM sms_opt_outs WHERE phone_key = ?').get(this.optOutKey(phoneNumber));
+    } catch (error) {
+      console.error('Error checking SMS opt-out:', error.message);
+      return false;
+    }
+  }
+
+  getOptOut(phoneNumber) {
+    try {
+      return this.db.prepare('SELECT * FROM sms_opt_outs WHERE phone_key = ?').get(this.optOutKey(phoneNumber)) || null;
+    } catch (error) {
+      console.error('Error getting SMS opt-out:', error.message);
+      return null;
+    }
+  }
+
+  getOptOuts() {
+    try {
+      return this.db.prepare(`
+        SELECT o.*, c.name as contact_name
+        FROM sms_opt_outs o
+        LEFT JOIN contacts c ON c.phone_number = o.phone_number
+        ORDER BY o.created_at DESC
+      `).all();
+    } catch (error) {
+      console.error('Error getting SMS opt-outs:', error.message);
+      return [];
+    }
+  }
+
+  // Returns true when the number was newly added (false if already suppressed)
+  addOptOut({ phoneNumber, source = 'manual', keyword = null, reason = null, createdBy = null }) {
+    try {
+      const result = this.db.prepare(`
+        INSERT OR IGNORE INTO sms_opt_outs (phone_key, phone_number, source, keyword, reason, created_by)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(this.optOutKey(phoneNumber), this.normalizePhone(phoneNumber), source, keyword, reason, createdBy);
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error adding SMS opt-out:', error.message);
+      return false;
+    }
+  }
+
+  removeOptOut(phoneNumber) {
+    try {
+      const result = this.db.prepare('DELETE FROM sms_opt_outs WHERE phone_key = ?').run(this.optOutKey(phoneNumber));
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error removing SMS opt-out:', error.message);
+      return false;
+    }
+  }
+
+  // ========================================
+  // CUSTOMER TIMELINE, NOTES & TAGS
+  // ========================================
+
+  // The spellings a number is stored under (07.., 7.., 2547.., +2547..), since
+  // SMS, calls and contacts each keep whatever the gateway or PBX reported
+  phoneNumberVariants(phoneNumber) {
+    const raw = String(phoneNumber || '').trim();
+    const key = this.optOutKey(raw);
+    const variants = new Set([raw, key, `+${key}`]);
+    if (/^254\d{9}$/.test(key)) {
+      variants.add(`0${key.substring(3)}`);
+      variants.add(key.substring(3));
+    }
+    return Array.from(variants).filter(Boolean);
+  }
+
+  findContactByPhone(phoneNumber) {
+    try {
+      const variants = this.phoneNumberVariants(phoneNumber);
+      return this.db.prepare(`
+        SELECT * FROM contacts
+        WHERE phone_number IN (${variants.map(() => '?').join(', ')})
+        ORDER BY last_seen_at DESC
+        LIMIT 1
+      `).get(...variants) || null;
+    } catch (error) {
+      console.error('Error finding contact by phone:', error.message);
+      return null;
+    }
+  }
+
+  // Notes and tags need a contact row; staff may note a number that has
+  // never called or texted, so create one on demand
+  ensureContact(phoneNumber) {
+    try {
+      const existing = this.findContactByPhone(phoneNumber);
+      if (existing) return existing;
+
+      const id = require('crypto').randomBytes(16).toString('hex');
+      this.db.prepare(`
+        INSERT INTO contacts (id, phone_number, phone_number_raw, source, first_seen_at, last_seen_at)
+        VALUES (?, ?, ?, 'manual', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      `).run(id, this.normalizePhone(phoneNumber), String(phoneNumber).trim());
+      return this.getContact(id);
+    } catch (error) {
+      console.error('Error creating contact:', error.message);
+      return null;
+    }
+  }
+
+  getContactTags(contactId) {
+    try {
+      return this.db.prepare('SELECT tag FROM contact_tags WHERE contact_id = ? ORDER BY tag').all(contactId).map(r => r.tag);
+    } catch (error) {
+      console.error('Error getting contact tags:', error.message);
+      return [];
+    }
+  }
+
+  setContactTags(contactId, tags) {
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM contact_tags WHERE contact_id = ?').run(contactId);
+        const insert = this.db.prepare('INSERT OR IGNORE INTO contact_tags (contact_id, tag) VALUES (?, ?)');
+        tags.forEach(tag => insert.run(contactId, tag));
+      })();
+      return this.getContactTags(contactId);
+    } catch (error) {
+      console.error('Error setting contact tags:', error.message);
+      return null;
+    }
+  }
+
+  addContactNote(contactId, body, createdBy = null) {
+    try {
+      const id = require('crypto').randomBytes(16).toString('hex');
+      this.db.prepare('INSERT INTO contact_notes (id, contact_id, body, created_by) VALUES (?, ?, ?, ?)')
+        .run(id, contactId, body, createdBy);
+      return this.getContactNote(id);
+    } catch (error) {
+      console.error('Error adding contact note:', error.message);
+      return null;
+    }
+  }
+
+  getContactNote(id) {
+    try {
+      return this.db.prepare(`
+        SELECT n.*, u.name AS author_name
+        FROM contact_notes n LEFT JOIN users u ON u.id = n.created_by
+        WHERE n.id = ?
+      `).get(id) || null;
+    } catch (error) {
+      console.error('Error getting contact note:', error.message);
+      return null;
+    }
+  }
+
+  deleteContactNote(id) {
+    try {
+      return this.db.prepare('DELETE FROM contact_notes WHERE id = ?').run(id).changes > 0;
+    } catch (error) {
+      console.error('Error deleting contact note:', error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Everything that happened with a number, newest first: SMS both ways,
+   * calls, callback attempts, opt-out changes and staff notes. `before` is a
+   * UTC "YYYY-MM-DD HH:MM:SS" cursor for loading older entries and `beforeId`
+   * the id of the last item already shown: timestamps only go to the second,
+   * so items sharing one are ordered (and split across pages) by id.
+   */
+  getContactTimeline(phoneNumber, { before = null, beforeId = null, limit = 50 } = {}) {
+    try {
+      const variants = this.phoneNumberVariants(phoneNumber);
+      const inList = variants.map(() => '?').join(', ');
+      const cursor = before || '9999-12-31 23:59:59';
+      const cursorId = before ? (beforeId || '') : '';
+      const olderThan = (at, itemId) => `(${at} < ? OR (${at} = ? AND ${itemId} < ?))`;
+      const cursorParams = [cursor, cursor, cursorId];
+      const contact = this.findContactByPhone(phoneNumber);
+      const items = [];
+
+      this.db.prepare(`
+        SELECT id, 'sms:' || id AS item_id, datetime(received_at) AS at, direction, message_content, gsm_span, status, category
+        FROM sms_messages
+        WHERE sender_number IN (${inList}) AND ${olderThan('datetime(received_at)', "('sms:' || id)")}
+        ORDER BY at DESC, item_id DESC LIMIT ?
+      `).all(...variants, ...cursorParams, limit + 1).forEach(({ item_id, ...row }) => items.push({
+        id: item_id,
+        type: row.direction === 'sent' ? (['auto', 'auto_reply'].includes(row.category) ? 'auto_sms' : 'sms_out') : 'sms_in',
+        at: row.at,
+        data: row,
+      }));
+
+      this.db.prepare(`
+        SELECT id, 'call:' || id AS item_id, datetime(start_time) AS at, direction, status, caller_number, callee_number, extension, sim_port,
+               ring_duration, talk_duration, recording_url, is_returned, notes
+        FROM call_records
+        WHERE (caller_number IN (${inList}) OR callee_number IN (${inList})) AND ${olderThan('datetime(start_time)', "('call:' || id)")}
+        ORDER BY at DESC, item_id DESC LIMIT ?
+      `).all(...variants, ...variants, ...cursorParams, limit + 1).forEach(({ item_id, ...row }) => items.push({
+        id: item_id,
+        type: 'call',
+        at: row.at,
+        data: row,
+      }));
+
+      this.db.prepare(`
+        SELECT ca.id, 'callback:' || ca.id AS item_id, datetime(ca.attempted_at) AS at, ca.outcome, ca.notes, a.name AS agent_name, t.call_record_id
+        FROM callback_attempts ca
+        JOIN callback_tasks t ON t.id = ca.task_id
+        LEFT JOIN agents a ON a.id = ca.agent_id
+        WHERE t.caller_number IN (${inList}) AND ${olderThan('datetime(ca.attempted_at)', "('callback:' || ca.id)")}
+        ORDER BY at DESC, item_id DESC LIMIT ?
+      `).all(...variants, ...cursorParams, limit + 1).forEach(({ item_id, ...row }) => items.push({
+        id: item_id,
+        type: 'callback',
+        at: row.at,
+        data: row,
+      }));
+
+      this.db.prepare(`
+        SELECT id, 'optout:' || id AS item_id, datetime(created_at) AS at, event_type, message, metadata
+        FROM activity_logs
+        WHERE event_type IN ('sms_opt_out', 'sms_opt_in')
+          AND json_valid(metadata) AND json_extract(metadata, '$.phone_number') IN (${inList})
+          AND ${olderThan('datetime(created_at)', "('optout:' || id)")}
+        ORDER BY at DESC, item_id DESC LIMIT ?
+      `).all(...variants, ...cursorParams, limit + 1).forEach(row => items.push({
+        id: row.item_id,
+        type: row.event_type === 'sms_opt_in' ? 'opt_in' : 'opt_out',
+        at: row.at,
+        data: { message: row.message, ...JSON.parse(row.metadata) },
+      }));
+
+      if (contact) {
+        this.db.prepare(`
+          SELECT n.id, 'note:' || n.id AS item_id, datetime(n.created_at) AS at, n.body, n.created_by, u.name AS author_name
+          FROM contact_notes n LEFT JOIN users u ON u.id = n.created_by
+          WHERE n.contact_id = ? AND ${olderThan('datetime(n.created_at)', "('note:' || n.id)")}
+          ORDER BY at DESC, item_id DESC LIMIT ?
+        `).all(contact.id, ...cursorParams, limit + 1).forEach(({ item_id, ...row }) => items.push({
+          id: item_id,
+          type: 'note',
+          at: row.at,
+          data: row,
+        }));
+      }
+
+      // Each source returned up to limit + 1 rows, so any overflow means more to load
+      const desc = (a, b) => (a < b ? 1 : a > b ? -1 : 0);
+      items.sort((a, b) => desc(a.at, b.at) || desc(a.id, b.id));
+      const page = items.slice(0, limit);
+      const last = page[page.length - 1];
+      return {
+        items: page,
+        next_before: items.length > limit ? `${last.at}|${last.id}` : null,
+      };
+    } catch (error) {
+      console.error('Error building contact timeline:', error.message);
+      return { items: [], next_before: null };
+    }
+  }
+
+  // ========================================
+  // CONTACT FIELDS & SEGMENTS
+  // ========================================
+
+  hydrateContactField(row) {
+    if (!row) return null;
+    let options = [];
+    try { options = JSON.parse(row.options || '[]'); } catch { options = []; }
+    return { ...row, options };
+  }
+
+  getContactFields() {
+    try {
+      return this.db.prepare('SELECT * FROM contact_fields ORDER BY created_at, label').all()
+        .map(row => this.hydrateContactField(row));
+    } catch (error) {
+      console.error('Error getting contact fields:', error.message);
+      return [];
+    }
+  }
+
+  getContactField(id) {
+    try {
+      return this.hydrateContactField(this.db.prepare('SELECT * FROM contact_fields WHERE id = ?').get(id));
+    } catch (error) {
+      console.error('Error getting contact field:', error.message);
+      return null;
+    }
+  }
+
+  createContactField({ field_key, label, field_type, options = [] }) {
+    try {
+      const id = require('crypto').randomBytes(16).toString('hex');
+      this.db.prepare('INSERT INTO contact_fields (id, field_key, label, field_type, options) VALUES (?, ?, ?, ?, ?)')
+        .run(id, field_key, label, field_type, field_type === 'select' ? JSON.stringify(options) : null);
+      return this.getContactField(id);
+    } catch (error) {
+      console.error('Error creating contact field:', error.message);
+      return null;
+    }
+  }
+
+  // The key and type stay fixed once created, since stored values and
+  // segment rules depend on them
+  updateContactField(id, { label, options }) {
+    try {
+      const field = this.getContactField(id);
+      if (!field) return null;
+      this.db.prepare('UPDATE contact_fields SET label = ?, options = ? WHERE id = ?').run(
+        label ?? field.label,
+        field.field_type === 'select' ? JSON.stringify(options ?? field.options) : null,
+        id
+      );
+      return this.getContactField(id);
+    } catch (error) {
+      console.error('Error updating contact field:', error.message);
+      return null;
+    }
+  }
+
+  deleteContactField(id) {
+    try {
+      const field = this.getContactField(id);
+      if (!field) return false;
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM contact_fields WHERE id = ?').run(id);
+        this.db.prepare(`UPDATE contacts SET custom_fields = json_remove(custom_fields, ?) WHERE json_valid(custom_fields)`)
+          .run(`$.${field.field_key}`);
+      })();
+      return true;
+    } catch (error) {
+      console.error('Error deleting contact field:', error.message);
+      return false;
+    }
+  }
+
+  // Merges into the stored values; null or '' removes a field
+  setContactCustomFields(contactId, values) {
+    try {
+      const contact = this.getContact(contactId);
+      if (!contact) return null;
+      const merged = { ...contact.custom_fields };
+      for (const [key, value] of Object.entries(values)) {
+        if (value === null || value === '') delete merged[key];
+        else merged[key] = value;
+      }
+      this.db.prepare('UPDATE contacts SET custom_fields = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+        .run(JSON.stringify(merged), contactId);
+      return this.getContact(contactId);
+    } catch (error) {
+      console.error('Error setting contact custom fields:', error.message);
+      return null;
+    }
+  }
+
+  getAllContactTags() {
+    try {
+      return this.db.prepare('SELECT tag, COUNT(*) AS contacts FROM contact_tags GROUP BY tag ORDER BY tag').all();
+    } catch (error) {
+      console.error('Error getting contact tags:', error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Compiles a segment filter into a WHERE fragment over `contacts c`.
+   * Rules are validated by the API before they are saved; anything unknown
+   * here throws rather than silently widening the segment.
+   */
+  contactFilterSql(filter) {
+    const builtinTypes = {
+      name: 'text', source: 'select', notes: 'text',
+      sms_count: 'number', call_count: 'number',
+      first_seen_at: 'date', last_seen_at: 'date',
+    };
+    const customTypes = new Map(this.getContactFields().map(f => [f.field_key, f.field_type]));
+    const clauses = [];
+    const params = [];
+
+    for (const rule of filter?.rules || []) {
+      if (rule.field === 'tag') {
+        clauses.push(`${rule.op === 'not_has' ? 'NOT ' : ''}EXISTS (SELECT 1 FROM contact_tags ct WHERE ct.contact_id = c.id AND ct.tag = ?)`);
+        params.push(String(rule.value).toLowerCase());
+        continue;
+      }
+
+      let column;
+      let type;
+      if (builtinTypes[rule.field]) {
+        column = `c.${rule.field}`;
+        type = builtinTypes[rule.field];
+      } else if (String(rule.field).startsWith('field:')) {
+        const key = rule.field.substring(6);
+        if (!/^[a-z][a-z0-9_]*$/.test(key) || !customTypes.has(key)) throw new Error(`Unknown contact field: ${key}`);
+        column = `json_extract(c.custom_fields, '$.${key}')`;
+        type = customTypes.get(key);
+      } else {
+        throw new Error(`Unknown segment field: ${rule.field}`);
+      }
+
+      switch (rule.op) {
+        case 'eq':
+          clauses.push(type === 'number' ? `CAST(${column} AS REAL) = ?` : `lower(${column}) = lower(?)`);
+          params.push(rule.value);
+          break;
+        case 'neq':
+          clauses.push(`(${column} IS NULL OR ${type === 'number' ? `CAST(${column} AS REAL) != ?` : `lower(${column}) != lower(?)`})`);
+          params.push(rule.value);
+          break;
+        case 'contains':
+          clauses.push(`lower(${column}) LIKE ?`);
+          params.push(`%${String(rule.value).toLowerCase()}%`);
+          break;
+        case 'gt':
+          clauses.push(`CAST(${column} AS REAL) > ?`);
+          params.push(Number(rule.value));
+          break;
+        case 'lt':
+          clauses.push(`CAST(${column} AS REAL) < ?`);
+          params.push(Number(rule.value));
+          break;
+        case 'within_days':
+          clauses.push(`datetime(${column}) >= datetime('now', ?)`);
+          params.push(`-${Number(rule.value)} days`);
+          break;
+        case 'older_than_days':
+          clauses.push(`datetime(${column}) < datetime('now', ?)`);
+          params.push(`-${Number(rule.value)} days`);
+          break;
+        case 'is_set':
+          clauses.push(`(${column} IS NOT NULL AND ${column} != '')`);
+          break;
+        case 'not_set':
+          clauses.push(`(${column} IS NULL OR ${column} = '')`);
+          break;
+        case 'is_true':
+          clauses.push(`${column} = 1`);
+          break;
+        case 'is_false':
+          clauses.push(`COALESCE(${column}, 0) = 0`);
+          break;
+        default:
+          throw new Error(`Unknown segment operator: ${rule.op}`);
+      }
+    }
+
+    if (clauses.length === 0) return { sql: '1 = 1', params };
+    return { sql: clauses.map(clause => `(${clause})`).join(filter.match === 'any' ? ' OR ' : ' AND '), params };
+  }
+
+  countContacts(filter) {
+    const compiled = this.contactFilterSql(filter);
+    return this.db.prepare(`SELECT COUNT(*) AS total FROM contacts c WHERE ${compiled.sql}`).get(...compiled.params).total;
+  }
+
+  hydrateContactSegment(row) {
+    if (!row) return null;
+    let filter = { match: 'all', rules: [] };
+    try { filter = JSON.parse(row.filter); } catch { /* keep the empty filter */ }
+    return { ...row, filter };
+  }
+
+  getContactSegments() {
+    try {
+      return this.db.prepare('SELECT * FROM contact_segments ORDER BY name COLLATE NOCASE').all().map(row => {
+        const segment = this.hydrateContactSegment(row);
+        let memberCount = null;
+        try {
+          memberCount = this.countContacts(segment.filter);
+        } catch (error) {
+          // A rule on a since-deleted field; the segment needs editing
+          console.error(`Segment ${segment.name} cannot be evaluated:`, error.message);
+        }
+        return { ...segment, member_count: memberCount };
+      });
+    } catch (error) {
+      console.error('Error getting contact segments:', error.message);
+      return [];
+    }
+  }
+
+  getContactSegment(id) {
+    try {
+      return this.hydrateContactSegment(this.db.prepare('SELECT * FROM contact_segments WHERE id = ?').get(id));
+    } catch (error) {
+      console.error('Error getting contact segment:', error.message);
+      return null;
+    }
+  }
+
+  createContactSegment({ name, description = null, filter, created_by = null }) {
+    try {
+      const id = require('crypto').randomBytes(16).toString('hex');
+      this.db.prepare('INSERT INTO contact_segments (id, name, description, filter, created_by) VALUES (?, ?, ?, ?, ?)')
+        .run(id, name, description, JSON.stringify(filter), created_by);
+      return this.getContactSegment(id);
+    } catch (error) {
+      console.error('Error creating contact segment:', error.message);
+      return null;
+    }
+  }
+
+  updateContactSegment(id, { name, description, filter }) {
+    try {
+      const segment = this.getContactSegment(id);
+      if (!segment) return null;
+      this.db.prepare(`
+        UPDATE contact_segments SET name = ?, description = ?, filter = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+      `).run(
+        name ?? segment.name,
+        description !== undefined ? description : segment.description,
+        JSON.stringify(filter ?? segment.filter),
+        id
+      );
+      return this.getContactSegment(id);
+    } catch (error) {
+      console.error('Error updating contact segment:', error.message);
+      return null;
+    }
+  }
+
+  deleteContactSegment(id) {
+    try {
+      return this.db.prepare('DELETE FROM contact_segments WHERE id = ?').run(id).changes > 0;
+    } catch (error) {
+      console.error('Error deleting contact segment:', error.message);
+      return false;
+    }
+  }
+
+  // ========================================
+  // CONTACTS MANAGEMENT
+  // ========================================
+
+  saveOrUpdateContact(reportedNumber, name = null, source = 'sms') {
+    try {
+      const phoneNumber = this.normalizePhone(reportedNumber);
+      const existingContact = this.db.prepare('SELECT id FROM contacts WHERE phone_number = ?').get(phoneNumber);
+      
+      if (existingContact) {
+        // Update existing contact
+        this.db.prepare(`
+          UPDATE contacts 
+          SET name = COALESCE(?, name), 
+              last_seen_at = CURRENT_TIMESTAMP,
+              ${source === 'sms' ? 'sms_count = sms_count + 1' : source === 'call' ? 'call_count = call_count + 1' : ''},
+              updated_at = CURRENT_TIMESTAMP
+          WHERE phone_number = ?
+        `).run(name, phoneNumber);
+        return existingContact.id;
+      } else {
+        // Insert new contact
+        const result = this.db.prepare(`
+          INSERT INTO contacts (phone_number, phone_number_raw, name, source, first_seen_at, last_seen_at, sms_count, call_count)
+          VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, ?, ?)
+        `).run(
+          phoneNumber,
+          String(reportedNumber).trim(),
+          name,
+          source,
+          source === 'sms' ? 1 : 0,
+          source === 'call' ? 1 : 0
+        );
+        return result.lastInsertRowid;
+      }
+    } catch (error) {
+      console.error('Error saving contact:', error.message);
+      return null;
+    }
+  }
+
+  // Optional `tag` and segment `filter` narrow the list (see contactFilterSql)
+  getContacts({ tag = null, filter = null } = {}) {
+    try {
+      const where = [];
+      const params = [];
+      if (tag) {
+        where.push('EXISTS (SELECT 1 FROM contact_tags ct WHERE ct.contact_id = c.id AND ct.tag = ?)');
+        params.push(tag);
+      }
+      if (filter) {
+        const compiled = this.contactFilterSql(filter);
+        where.push(`(${compiled.sql})`);
+        params.push(...compiled.params);
+      }
+
+      const stmt = this.db.prepare(`
+        SELECT c.id, c.phone_number, c.name, c.source, c.first_seen_at, c.last_seen_at, c.sms_count, c.call_count,
+               c.notes, c.custom_fields, c.created_at, c.updated_at,
+               (SELECT group_concat(ct.tag, ',') FROM contact_tags ct WHERE ct.contact_id = c.id) AS tags
+        FROM contacts c
+        ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY c.last_seen_at DESC
+      `);
+      return stmt.all(...params).map(row => this.hydrateContact(row));
+    } catch (error) {
+      console.error('Error getting contacts:', error.message);
+      return [];
+    }
+  }
+
+  getContact(id) {
+    try {
+      const stmt = this.db.prepare(`
+        SELECT c.id, c.phone_number, c.name, c.source, c.first_seen_at, c.last_seen_at, c.sms_count, c.call_count,
+               c.notes, c.custom_fields, c.created_at, c.updated_at,
+               (SELECT group_concat(ct.tag, ',') FROM contact_tags ct WHERE ct.contact_id = c.id) AS tags
+        FROM contacts c
+        WHERE c.id = ?
+      `);
+      const row = stmt.get(id);
+      return row ? this.hydrateContact(row) : null;
+    } catch (error) {
+      console.error('Error getting contact:', error.message);
+      return null;
+    }
+  }
+
+  hydrateContact(row) {
+    let customFields = {};
+    try {
+      customFields = row.custom_fields ? JSON.parse(row.custom_fields) : {};
+    } catch {
+      // Leave a corrupt value out rather than failing the whole list
+    }
+    return {
+      ...row,
+      tags: row.tags ? row.tags.split(',').sort() : [],
+      custom_fields: customFields,
+    };
+  }
+
+  updateContact(id, updates = {}) {
+    try {
+      const { name, notes } = updates;
+      const fields = [];
+      const values = [];
+
       if (name !== undefined) {
         fields.push('name = ?');
         values.push(name);
       }
-      if (notes !== undefined) {
-        fields.push('notes = ?');
-        values.push(notes);
+      if (notes !== undefined) {
+        fields.push('notes = ?');
+        values.push(notes);
+      }
+
+      if (fields.length === 0) return false;
+
+      fields.push('updated_at = CURRENT_TIMESTAMP');
+      values.push(id);
+
+      const sql = `UPDATE contacts SET ${fields.join(', ')} WHERE id = ?`;
+      this.db.prepare(sql).run(...values);
+      this.logActivity('contact_updated', `Contact updated: ${id}`, 'success');
+      return true;
+    } catch (error) {
+      console.error('Error updating contact:', error.message);
+      return false;
+    }
+  }
+
+  mergeDuplicateContacts() {
+    try {
+      // Find duplicate phone patterns and merge
+      const duplicates = this.db.prepare(`
+        SELECT phone_number, COUNT(*) as cnt
+        FROM contacts
+        GROUP BY phone_number
+        HAVING cnt > 1
+      `).all();
+
+      let mergedCount = 0;
+
+      for (const dup of duplicates) {
+        const contacts = this.db.prepare(`
+          SELECT id, sms_count, call_count, notes
+          FROM contacts
+          WHERE phone_number = ?
+          ORDER BY last_seen_at DESC
+        `).all(dup.phone_number);
+
+        if (contacts.length > 1) {
+          const primary = contacts[0];
+          const toMerge = contacts.slice(1);
+
+          // Sum SMS and call counts
+          let totalSms = primary.sms_count;
+          let totalCalls = primary.call_count;
+          let mergedNotes = primary.notes || '';
+
+          for (const contact of toMerge) {
+            totalSms += contact.sms_count;
+            totalCalls += contact.call_count;
+            if (contact.notes && !mergedNotes.includes(contact.notes)) {
+              mergedNotes += (mergedNotes ? '\n' : '') + contact.notes;
+            }
+          }
+
+          // Update primary contact
+          this.db.prepare(`
+            UPDATE contacts
+            SET sms_count = ?, call_count = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+            WHERE id = ?
+          `).run(totalSms, totalCalls, mergedNotes, primary.id);
+
+          // Delete duplicates
+          const deleteIds = toMerge.map(c => c.id);
+          for (const id of deleteIds) {
+            this.db.prepare('DELETE FROM contacts WHERE id = ?').run(id);
+          }
+
+          mergedCount++;
+        }
+      }
+
+      if (mergedCount > 0) {
+        this.logActivity('contacts_merged', `Merged ${mergedCount} duplicate contacts`, 'success');
+      }
+      return mergedCount;
+    } catch (error) {
+      console.error('Error merging duplicates:', error.message);
+      return 0;
+    }
+  }
+
+  importContacts(contactsList = []) {
+    try {
+      let importedCount = 0;
+
+      for (const contact of contactsList) {
+        if (!contact.phone_number) continue;
+        const phoneNumber = this.normalizePhone(contact.phone_number);
+        
+        const existing = this.db.prepare('SELECT id FROM contacts WHERE phone_number = ?').get(phoneNumber);
+        
+        if (existing) {
+          // Update if it already exists
+          if (contact.name) {
+            this.db.prepare('UPDATE contacts SET name = COALESCE(?, name), source = ?, updated_at = CURRENT_TIMESTAMP WHERE phone_number = ?')
+              .run(contact.name, contact.source || 'import', phoneNumber);
+          }
+        } else {
+          // Insert new
+          this.db.prepare(`
+            INSERT INTO contacts (phone_number, phone_number_raw, name, source, first_seen_at, last_seen_at)
+            VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+          `).run(phoneNumber, String(contact.phone_number).trim(), contact.name || null, contact.source || 'import');
+        }
+        importedCount++;
+      }
+
+      if (importedCount > 0) {
+        this.logActivity('contacts_imported', `Imported ${importedCount} contacts`, 'success');
+      }
+      return importedCount;
+    } catch (error) {
+      console.error('Error importing contacts:', error.message);
+      return 0;
+    }
+  }
+
+  // Existing contacts keyed by normalised number, for duplicate detection on import
+  getContactPhoneIndex() {
+    try {
+      const index = new Map();
+      this.db.prepare('SELECT id, phone_number, name FROM contacts ORDER BY last_seen_at DESC').all()
+        .forEach(contact => {
+          const key = this.optOutKey(contact.phone_number);
+          if (!index.has(key)) index.set(key, contact);
+        });
+      return index;
+    } catch (error) {
+      console.error('Error indexing contacts:', error.message);
+      return new Map();
+    }
+  }
+
+  /**
+   * Applies reviewed import rows in one transaction. `create` inserts,
+   * `merge` only fills what the existing contact is missing, `overwrite`
+   * replaces it with whatever the file provides. Tags are always added.
+   */
+  commitContactImport(rows) {
+    try {
+      const result = { created: 0, updated: 0 };
+      const insertTag = this.db.prepare('INSERT OR IGNORE INTO contact_tags (contact_id, tag) VALUES (?, ?)');
+
+      this.db.transaction(() => {
+        for (const row of rows) {
+          let contactId = row.existing_id;
+          if (row.action === 'create') {
+            contactId = require('crypto').randomBytes(16).toString('hex');
+            this.db.prepare(`
+              INSERT INTO contacts (id, phone_number, phone_number_raw, name, source, notes, custom_fields, first_seen_at, last_seen_at)
+              VALUES (?, ?, ?, ?, 'import', ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+            `).run(contactId, row.phone_number, row.phone_input || null, row.name || null, row.notes || null, JSON.stringify(row.custom_fields || {}));
+            result.created++;
+          } else {
+            const existing = this.getContact(contactId);
+            if (!existing) continue;
+            const overwrite = row.action === 'overwrite';
+            const customFields = overwrite
+              ? { ...existing.custom_fields, ...row.custom_fields }
+              : { ...row.custom_fields, ...existing.custom_fields };
+            this.db.prepare(`
+              UPDATE contacts SET name = ?, notes = ?, custom_fields = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+            `).run(
+              overwrite ? (row.name || existing.name) : (existing.name || row.name || null),
+              overwrite ? (row.notes || existing.notes) : (existing.notes || row.notes || null),
+              JSON.stringify(customFields),
+              contactId
+            );
+            result.updated++;
+          }
+          (row.tags || []).forEach(tag => insertTag.run(contactId, tag));
+        }
+      })();
+
+      if (result.created + result.updated > 0) {
+        this.logActivity('contacts_imported', `Imported contacts from file: ${result.created} new, ${result.updated} updated`, 'success');
+      }
+      return result;
+    } catch (error) {
+      console.error('Error committing contact import:', error.message);
+      return null;
+    }
+  }
+
+  // Auto-Reply Config methods
+  getAutoReplyConfig() {
+    try {
+      return this.db.prepare('SELECT * FROM auto_reply_config LIMIT 1').get() || null;
+    } catch (error) {
+      console.error('Error getting auto-reply config:', error.message);
+      return null;
+    }
+  }
+
+  saveAutoReplyConfig({ enabled, message, notification_email }) {
+    try {
+      const existing = this.db.prepare('SELECT id FROM auto_reply_config LIMIT 1').get();
+      if (existing) {
+        this.db.prepare(`
+          UPDATE auto_reply_config SET enabled = ?, message = ?, notification_email = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+        `).run(enabled ? 1 : 0, message, notification_email || null, existing.id);
+      } else {
+        this.db.prepare(`
+          INSERT INTO auto_reply_config (enabled, message, notification_email) VALUES (?, ?, ?)
+        `).run(enabled ? 1 : 0, message, notification_email || null);
+      }
+      return true;
+    } catch (error) {
+      console.error('Error saving auto-reply config:', error.message);
+      return false;
+    }
+  }
+
+  // Keyword auto-reply rule methods
+  parseAutoReplyRule(row) {
+    if (!row) return null;
+    const parseList = (value) => {
+      try { return JSON.parse(value || '[]'); } catch { return []; }
+    };
+    return {
+      ...row,
+      enabled: !!row.enabled,
+      case_sensitive: !!row.case_sensitive,
+      gsm_spans: parseList(row.gsm_spans),
+      active_days: parseList(row.active_days),
+    };
+  }
+
+  getAutoReplyRules({ enabledOnly = false } = {}) {
+    try {
+      const rows = this.db.prepare(`
+        SELECT r.*, t.name as template_name, t.message as template_message
+        FROM auto_reply_rules r
+        LEFT JOIN sms_templates t ON t.id = r.template_id
+        ${enabledOnly ? 'WHERE r.enabled = 1' : ''}
+        ORDER BY r.position ASC, r.created_at ASC
+      `).all();
+      return rows.map(row => this.parseAutoReplyRule(row));
+    } catch (error) {
+      console.error('Error getting auto-reply rules:', error.message);
+      return [];
+    }
+  }
+
+  getAutoReplyRule(id) {
+    try {
+      return this.parseAutoReplyRule(this.db.prepare('SELECT * FROM auto_reply_rules WHERE id = ?').get(id));
+    } catch (error) {
+      console.error('Error getting auto-reply rule:', error.message);
+      return null;
+    }
+  }
+
+  saveAutoReplyRule(rule, id = null) {
+    try {
+      const values = [
+        rule.name,
+        rule.enabled === false ? 0 : 1,
+        rule.match_type || 'keyword',
+        rule.pattern,
+        rule.case_sensitive ? 1 : 0,
+        rule.reply_message || null,
+        rule.template_id || null,
+        JSON.stringify(rule.gsm_spans || []),
+        JSON.stringify(rule.active_days || []),
+        rule.active_from || null,
+        rule.active_to || null,
+        Number.isInteger(rule.cooldown_minutes) ? rule.cooldown_minutes : 60,
+      ];
+
+      if (id) {
+        const result = this.db.prepare(`
+          UPDATE auto_reply_rules
+          SET name = ?, enabled = ?, match_type = ?, pattern = ?, case_sensitive = ?, reply_message = ?, template_id = ?,
+              gsm_spans = ?, active_days = ?, active_from = ?, active_to = ?, cooldown_minutes = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(...values, id);
+        return result.changes > 0 ? id : null;
+      }
+
+      // New rules go to the end of the list
+      const newId = require('crypto').randomBytes(16).toString('hex');
+      const { next } = this.db.prepare('SELECT COALESCE(MAX(position), -1) + 1 as next FROM auto_reply_rules').get();
+      this.db.prepare(`
+        INSERT INTO auto_reply_rules
+        (name, enabled, match_type, pattern, case_sensitive, reply_message, template_id,
+         gsm_spans, active_days, active_from, active_to, cooldown_minutes, id, position)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(...values, newId, next);
+      return newId;
+    } catch (error) {
+      console.error('Error saving auto-reply rule:', error.message);
+      return null;
+    }
+  }
+
+  deleteAutoReplyRule(id) {
+    try {
+      const result = this.db.prepare('DELETE FROM auto_reply_rules WHERE id = ?').run(id);
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error deleting auto-reply rule:', error.message);
+      return false;
+    }
+  }
+
+  reorderAutoReplyRules(ids) {
+    try {
+      const update = this.db.prepare('UPDATE auto_reply_rules SET position = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?');
+      this.db.transaction(() => {
+        ids.forEach((id, index) => update.run(index, id));
+      })();
+      return true;
+    } catch (error) {
+      console.error('Error reordering auto-reply rules:', error.message);
+      return false;
+    }
+  }
+
+  recordAutoReplyRuleHit(ruleId, senderNumber, gsmSpan, outcome) {
+    try {
+      this.db.prepare(`
+        INSERT INTO auto_reply_rule_hits (rule_id, sender_number, gsm_span, outcome) VALUES (?, ?, ?, ?)
+      `).run(ruleId, senderNumber, gsmSpan || null, outcome);
+      this.db.prepare(`
+        UPDATE auto_reply_rules SET match_count = match_count + 1, last_matched_at = CURRENT_TIMESTAMP WHERE id = ?
+      `).run(ruleId);
+      return true;
+    } catch (error) {
+      console.error('Error recording auto-reply rule hit:', error.message);
+      return false;
+    }
+  }
+
+  // Whether this rule already replied to this sender inside its cooldown window
+  isAutoReplyRuleCoolingDown(ruleId, senderNumber, cooldownMinutes) {
+    try {
+      if (!cooldownMinutes || cooldownMinutes <= 0) return false;
+      const row = this.db.prepare(`
+        SELECT COUNT(*) as cnt FROM auto_reply_rule_hits
+        WHERE rule_id = ? AND sender_number = ? AND outcome = 'sent'
+          AND created_at > datetime('now', ?)
+      `).get(ruleId, senderNumber, `-${cooldownMinutes} minutes`);
+      return row.cnt > 0;
+    } catch (error) {
+      console.error('Error checking auto-reply rule cooldown:', error.message);
+      return false;
+    }
+  }
+
+  // ========================================
+  // SIM BALANCE CHECKS
+  // ========================================
+
+  getSimBalanceConfigs() {
+    try {
+      // One row per span, with defaults for spans that were never configured
+      const rows = this.db.prepare('SELECT * FROM sim_balance_config').all();
+      return [2, 3, 4, 5].map(gsmSpan => {
+        const row = rows.find(r => r.gsm_span === gsmSpan);
+        return {
+          gsm_span: gsmSpan,
+          enabled: !!row?.enabled,
+          ussd_code: row?.ussd_code || '*144#',
+          interval_minutes: row?.interval_minutes || 360,
+          low_threshold: row?.low_threshold ?? null,
+          last_checked_at: row?.last_checked_at || null,
+          low_alerted_at: row?.low_alerted_at || null,
+        };
+      });
+    } catch (error) {
+      console.error('Error getting SIM balance configs:', error.message);
+      return [];
+    }
+  }
+
+  getSimBalanceConfig(gsmSpan) {
+    return this.getSimBalanceConfigs().find(c => c.gsm_span === gsmSpan) || null;
+  }
+
+  saveSimBalanceConfig(gsmSpan, { enabled, ussd_code, interval_minutes, low_threshold }) {
+    try {
+      this.db.prepare(`
+        INSERT INTO sim_balance_config (gsm_span, enabled, ussd_code, interval_minutes, low_threshold)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(gsm_span) DO UPDATE SET
+          enabled = excluded.enabled, ussd_code = excluded.ussd_code, interval_minutes = excluded.interval_minutes,
+          low_threshold = excluded.low_threshold, updated_at = CURRENT_TIMESTAMP
+      `).run(gsmSpan, enabled ? 1 : 0, ussd_code, interval_minutes, low_threshold ?? null);
+      return true;
+    } catch (error) {
+      console.error('Error saving SIM balance config:', error.message);
+      return false;
+    }
+  }
+
+  // Marks when a low-balance alert went out; null clears it once the SIM is topped up
+  setSimBalanceLowAlerted(gsmSpan, alerted) {
+    try {
+      this.db.prepare(`
+        INSERT INTO sim_balance_config (gsm_span, low_alerted_at) VALUES (?, CASE WHEN ? THEN CURRENT_TIMESTAMP END)
+        ON CONFLICT(gsm_span) DO UPDATE SET low_alerted_at = CASE WHEN ? THEN CURRENT_TIMESTAMP END
+      `).run(gsmSpan, alerted ? 1 : 0, alerted ? 1 : 0);
+      return true;
+    } catch (error) {
+      console.error('Error updating SIM balance alert state:', error.message);
+      return false;
+    }
+  }
+
+  recordSimBalance({ gsmSpan, ussdCode, response = null, balance = null, currency = null, status, triggeredBy = 'schedule' }) {
+    try {
+      this.db.prepare(`
+        INSERT INTO sim_balance_history (gsm_span, ussd_code, response, balance, currency, status, triggered_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(gsmSpan, ussdCode, response, balance, currency, status, triggeredBy);
+      this.db.prepare(`
+        INSERT INTO sim_balance_config (gsm_span, last_checked_at) VALUES (?, CURRENT_TIMESTAMP)
+        ON CONFLICT(gsm_span) DO UPDATE SET last_checked_at = CURRENT_TIMESTAMP
+      `).run(gsmSpan);
+      return true;
+    } catch (error) {
+      console.error('Error recording SIM balance:', error.message);
+      return false;
+    }
+  }
+
+  // Latest successful reading per span
+  getLatestSimBalances() {
+    try {
+      return this.db.prepare(`
+        SELECT h.* FROM sim_balance_history h
+        JOIN (
+          SELECT gsm_span, MAX(created_at) as latest FROM sim_balance_history WHERE status = 'ok' GROUP BY gsm_span
+        ) l ON l.gsm_span = h.gsm_span AND l.latest = h.created_at
+        WHERE h.status = 'ok'
+      `).all();
+    } catch (error) {
+      console.error('Error getting latest SIM balances:', error.message);
+      return [];
+    }
+  }
+
+  getSimBalanceHistory(gsmSpan, limit = 50) {
+    try {
+      return this.db.prepare(`
+        SELECT * FROM sim_balance_history WHERE gsm_span = ? ORDER BY created_at DESC LIMIT ?
+      `).all(gsmSpan, limit);
+    } catch (error) {
+      console.error('Error getting SIM balance history:', error.message);
+      return [];
+    }
+  }
+
+  // ========================================
+  // SIM HEALTH
+  // ========================================
+
+  recordSimHealthSample({ gsmSpan, isUp, registration = 'unknown', signalQuality = null, operator = null, sendAttempts = 0, sendFailures = 0 }) {
+    try {
+      this.db.prepare(`
+        INSERT INTO sim_health_samples (gsm_span, is_up, registration, signal_quality, operator, send_attempts, send_failures)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(gsmSpan, isUp ? 1 : 0, registration, signalQuality, operator, sendAttempts, sendFailures);
+      return true;
+    } catch (error) {
+      console.error('Error recording SIM health sample:', error.message);
+      return false;
+    }
+  }
+
+  // Most recent sample per span; knownRegistrationOnly skips samples where
+  // the gateway didn't report a registration state
+  getLatestSimHealthSamples({ knownRegistrationOnly = false } = {}) {
+    try {
+      const where = knownRegistrationOnly ? "WHERE registration != 'unknown'" : '';
+      return this.db.prepare(`
+        SELECT s.* FROM sim_health_samples s
+        JOIN (
+          SELECT gsm_span, MAX(created_at) as latest FROM sim_health_samples ${where} GROUP BY gsm_span
+        ) l ON l.gsm_span = s.gsm_span AND l.latest = s.created_at
+        ${where.replace('registration', 's.registration')}
+      `).all();
+    } catch (error) {
+      console.error('Error getting latest SIM health samples:', error.message);
+      return [];
+    }
+  }
+
+  // Oldest first, for charting; gsmSpan null returns every span
+  getSimHealthHistory(gsmSpan = null, hours = 24) {
+    try {
+      const spanFilter = gsmSpan ? 'AND gsm_span = ?' : '';
+      const params = gsmSpan ? [`-${hours} hours`, gsmSpan] : [`-${hours} hours`];
+      return this.db.prepare(`
+        SELECT * FROM sim_health_samples
+        WHERE created_at >= datetime('now', ?) ${spanFilter}
+        ORDER BY created_at ASC
+      `).all(...params);
+    } catch (error) {
+      console.error('Error getting SIM health history:', error.message);
+      return [];
+    }
+  }
+
+  // Send attempts and failures per span over the last N minutes
+  getSimSendStats(minutes) {
+    try {
+      return this.db.prepare(`
+        SELECT gsm_span, SUM(send_attempts) as attempts, SUM(send_failures) as failures
+        FROM sim_health_samples
+        WHERE created_at >= datetime('now', ?)
+        GROUP BY gsm_span
+      `).all(`-${minutes} minutes`);
+    } catch (error) {
+      console.error('Error getting SIM send stats:', error.message);
+      return [];
+    }
+  }
+
+  getSimHealthAlerts() {
+    try {
+      const rows = this.db.prepare('SELECT * FROM sim_health_alerts').all();
+      return [2, 3, 4, 5].map(gsmSpan => {
+        const row = rows.find(r => r.gsm_span === gsmSpan);
+        return {
+          gsm_span: gsmSpan,
+          deregistered_alerted_at: row?.deregistered_alerted_at || null,
+          failure_alerted_at: row?.failure_alerted_at || null,
+        };
+      });
+    } catch (error) {
+      console.error('Error getting SIM health alerts:', error.message);
+      return [];
+    }
+  }
+
+  // kind is 'deregistered' or 'failure'; alerted=false re-arms it
+  setSimHealthAlerted(gsmSpan, kind, alerted) {
+    const column = kind === 'deregistered' ? 'deregistered_alerted_at' : 'failure_alerted_at';
+    try {
+      this.db.prepare(`
+        INSERT INTO sim_health_alerts (gsm_span, ${column}) VALUES (?, CASE WHEN ? THEN CURRENT_TIMESTAMP END)
+        ON CONFLICT(gsm_span) DO UPDATE SET ${column} = CASE WHEN ? THEN CURRENT_TIMESTAMP END, updated_at = CURRENT_TIMESTAMP
+      `).run(gsmSpan, alerted ? 1 : 0, alerted ? 1 : 0);
+      return true;
+    } catch (error) {
+      console.error('Error updating SIM health alert state:', error.message);
+      return false;
+    }
+  }
+
+  pruneSimHealthSamples(retentionDays) {
+    try {
+      return this.db.prepare(`
+        DELETE FROM sim_health_samples WHERE created_at < datetime('now', ?)
+      `).run(`-${retentionDays} days`).changes;
+    } catch (error) {
+      console.error('Error pruning SIM health samples:', error.message);
+      return 0;
+    }
+  }
+
+  // ========================================
+  // DIAGNOSTICS
+  // ========================================
+
+  // Everything the diagnostics engine looks at, for the last `hours` and the
+  // period before it where a trend needs a baseline
+  getDiagnosticsSnapshot(hours = 24, baselineDays = 7) {
+    try {
+      const window = `-${hours} hours`;
+      const baselineStart = `-${hours + baselineDays * 24} hours`;
+
+      const activityTop = this.db.prepare(`
+        SELECT event_type, severity, COUNT(*) as count FROM activity_logs
+        WHERE created_at >= datetime('now', ?) AND severity IN ('error', 'warning')
+        GROUP BY event_type, severity ORDER BY count DESC LIMIT 15
+      `).all(window);
+      const previousErrors = this.db.prepare(`
+        SELECT COUNT(*) as count FROM activity_logs
+        WHERE severity = 'error' AND created_at >= datetime('now', ?) AND created_at < datetime('now', ?)
+      `).get(`-${hours * 2} hours`, window).count;
+
+      // PBX start_time is "YYYY-MM-DD HH:MM:SS" or ISO; fall back to when it was synced
+      const callTime = 'COALESCE(datetime(start_time), created_at)';
+      const callCounts = `
+        SELECT COUNT(*) as total,
+          SUM(CASE WHEN status = 'missed' THEN 1 ELSE 0 END) as missed,
+          SUM(CASE WHEN status IN ('failed', 'busy') THEN 1 ELSE 0 END) as failed
+        FROM call_records
+      `;
+      const calls = this.db.prepare(`${callCounts} WHERE ${callTime} >= datetime('now', ?)`).get(window);
+      const baselineCalls = this.db.prepare(`${callCounts} WHERE ${callTime} >= datetime('now', ?) AND ${callTime} < datetime('now', ?)`)
+        .get(baselineStart, window);
+
+      const outbox = this.db.prepare(`
+        SELECT
+          SUM(CASE WHEN status = 'sent' THEN 1 ELSE 0 END) as sent,
+          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+          SUM(CASE WHEN status = 'sent' AND attempts > 1 THEN 1 ELSE 0 END) as retried,
+          SUM(CASE WHEN status = 'queued' THEN 1 ELSE 0 END) as queued
+        FROM sms_outbox WHERE created_at >= datetime('now', ?)
+      `).get(window);
+
+      const spans = this.db.prepare(`
+        SELECT gsm_span, COUNT(*) as samples,
+          SUM(CASE WHEN registration IN ('registered', 'roaming') THEN 0 ELSE 1 END) as unregistered_samples,
+          AVG(signal_quality) as avg_signal, MIN(signal_quality) as min_signal,
+          SUM(send_attempts) as attempts, SUM(send_failures) as failures
+        FROM sim_health_samples WHERE created_at >= datetime('now', ?)
+        GROUP BY gsm_span
+      `).all(window);
+      const latestSamples = this.getLatestSimHealthSamples();
+
+      const feedback = this.db.prepare(`
+        SELECT original_category, corrected_category, COUNT(*) as count FROM sms_category_feedback
+        GROUP BY original_category, corrected_category ORDER BY count DESC
+      `).all();
+      const feedbackSenders = this.db.prepare(`
+        SELECT sm.sender_number, f.corrected_category, COUNT(*) as count
+        FROM sms_category_feedback f JOIN sms_messages sm ON sm.id = f.sms_id
+        GROUP BY sm.sender_number, f.corrected_category HAVING COUNT(*) >= 2
+        ORDER BY count DESC LIMIT 10
+      `).all();
+
+      return {
+        window_hours: hours,
+        baseline_days: baselineDays,
+        activity: {
+          errors: activityTop.filter(a => a.severity === 'error').reduce((sum, a) => sum + a.count, 0),
+          warnings: activityTop.filter(a => a.severity === 'warning').reduce((sum, a) => sum + a.count, 0),
+          previous_errors: previousErrors,
+          top: activityTop,
+        },
+        calls: {
+          total: calls.total || 0,
+          missed: calls.missed || 0,
+          failed: calls.failed || 0,
+          baseline_total: baselineCalls.total || 0,
+          baseline_missed: baselineCalls.missed || 0,
+        },
+        outbox: {
+          sent: outbox.sent || 0,
+          failed: outbox.failed || 0,
+          retried: outbox.retried || 0,
+          queued: outbox.queued || 0,
+        },
+        spans: spans.map(span => {
+          const latest = latestSamples.find(l => l.gsm_span === span.gsm_span);
+          return {
+            ...span,
+            avg_signal: span.avg_signal === null ? null : Math.round(span.avg_signal * 10) / 10,
+            attempts: span.attempts || 0,
+            failures: span.failures || 0,
+            latest_registration: latest ? latest.registration : null,
+            latest_signal: latest ? latest.signal_quality : null,
+          };
+        }),
+        feedback,
+        feedback_senders: feedbackSenders,
+      };
+    } catch (error) {
+      console.error('Error building diagnostics snapshot:', error.message);
+      return null;
+    }
+  }
+
+  // ========================================
+  // AI RECOMMENDATIONS
+  // ========================================
+
+  parseAiRecommendation(row) {
+    if (!row) return null;
+    let details = {};
+    try { details = JSON.parse(row.details || '{}'); } catch { details = {}; }
+    return { ...row, details, auto_applied: !!row.auto_applied };
+  }
+
+  getAiRecommendations({ status = null, limit = 100 } = {}) {
+    try {
+      const rows = status
+        ? this.db.prepare('SELECT * FROM ai_recommendations WHERE status = ? ORDER BY created_at DESC LIMIT ?').all(status, limit)
+        : this.db.prepare('SELECT * FROM ai_recommendations ORDER BY created_at DESC LIMIT ?').all(limit);
+      return rows.map(row => this.parseAiRecommendation(row));
+    } catch (error) {
+      console.error('Error getting AI recommendations:', error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Record a finding. An open (pending) recommendation with the same rule_key
+   * is refreshed in place; one the operator dismissed within the last
+   * `snoozeDays` is not raised again. Returns { recommendation, created }, or
+   * null when snoozed or on error.
+   */
+  upsertAiRecommendation({ category, title, description, details = {}, ruleKey }, { snoozeDays = 7 } = {}) {
+    try {
+      const snoozed = this.db.prepare(`
+        SELECT 1 FROM ai_recommendations
+        WHERE rule_key = ? AND status = 'dismissed' AND updated_at >= datetime('now', ?)
+      `).get(ruleKey, `-${snoozeDays} days`);
+      if (snoozed) return null;
+
+      const open = this.db.prepare(`SELECT id FROM ai_recommendations WHERE rule_key = ? AND status = 'pending'`).get(ruleKey);
+      if (open) {
+        this.db.prepare(`
+          UPDATE ai_recommendations SET category = ?, title = ?, description = ?, details = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(category, title, description, JSON.stringify(details), open.id);
+        return { recommendation: this.getAiRecommendation(open.id), created: false };
+      }
+
+      // A dismissal whose snooze ran out is closed; the new row takes over
+      this.db.prepare(`
+        UPDATE ai_recommendations SET status = 'resolved', updated_at = CURRENT_TIMESTAMP WHERE rule_key = ? AND status = 'dismissed'
+      `).run(ruleKey);
+
+      const id = require('crypto').randomBytes(16).toString('hex');
+      this.db.prepare(`
+        INSERT INTO ai_recommendations (id, category, title, description, details, rule_key) VALUES (?, ?, ?, ?, ?, ?)
+      `).run(id, category, title, description, JSON.stringify(details), ruleKey);
+      return { recommendation: this.getAiRecommendation(id), created: true };
+    } catch (error) {
+      console.error('Error saving AI recommendation:', error.message);
+      return null;
+    }
+  }
+
+  getAiRecommendation(id) {
+    try {
+      return this.parseAiRecommendation(this.db.prepare('SELECT * FROM ai_recommendations WHERE id = ?').get(id));
+    } catch (error) {
+      console.error('Error getting AI recommendation:', error.message);
+      return null;
+    }
+  }
+
+  // Lifecycle: pending -> applied | dismissed -> resolved. details replaces
+  // the stored details when given (apply/revert keep their audit trail there).
+  updateAiRecommendation(id, { status, details = null, autoApplied = false }) {
+    try {
+      this.db.prepare(`
+        UPDATE ai_recommendations
+        SET status = ?, details = COALESCE(?, details), updated_at = CURRENT_TIMESTAMP,
+            applied_at = CASE WHEN ? = 'applied' THEN CURRENT_TIMESTAMP ELSE applied_at END,
+            auto_applied = CASE WHEN ? THEN 1 ELSE auto_applied END
+        WHERE id = ?
+      `).run(status, details ? JSON.stringify(details) : null, status, autoApplied ? 1 : 0, id);
+      return this.getAiRecommendation(id);
+    } catch (error) {
+      console.error('Error updating AI recommendation:', error.message);
+      return null;
+    }
+  }
+
+  /**
+   * Close recommendations whose condition has cleared. With ruleKeys, only
+   * those keys; with exceptKeys, every open key a generator no longer reports.
+   * Returns how many were resolved.
+   */
+  resolveAiRecommendations({ ruleKeys = null, exceptKeys = null } = {}) {
+    try {
+      let query = `UPDATE ai_recommendations SET status = 'resolved', updated_at = CURRENT_TIMESTAMP
+        WHERE status IN ('pending', 'applied', 'dismissed')`;
+      const params = [];
+      if (ruleKeys) {
+        if (ruleKeys.length === 0) return 0;
+        query += ` AND rule_key IN (${ruleKeys.map(() => '?').join(', ')})`;
+        params.push(...ruleKeys);
+      } else if (exceptKeys && exceptKeys.length > 0) {
+        query += ` AND (rule_key IS NULL OR rule_key NOT IN (${exceptKeys.map(() => '?').join(', ')}))`;
+        params.push(...exceptKeys);
+      }
+      return this.db.prepare(query).run(...params).changes;
+    } catch (error) {
+      console.error('Error resolving AI recommendations:', error.message);
+      return 0;
+    }
+  }
+
+  deleteResolvedAiRecommendations() {
+    try {
+      return this.db.prepare(`DELETE FROM ai_recommendations WHERE status = 'resolved'`).run().changes;
+    } catch (error) {
+      console.error('Error clearing resolved AI recommendations:', error.message);
+      return 0;
+    }
+  }
+
+  // ========================================
+  // REPORT DEFINITIONS (scheduled reports)
+  // ========================================
+
+  parseReportDefinition(row) {
+    if (!row) return null;
+    const parseList = (value) => {
+      try { return JSON.parse(value || '[]'); } catch { return []; }
+    };
+    return {
+      ...row,
+      enabled: !!row.enabled,
+      metrics: parseList(row.metrics),
+      extensions: parseList(row.extensions),
+      gsm_spans: parseList(row.gsm_spans),
+      send_times: parseList(row.send_times),
+      formats: parseList(row.formats),
+      email_recipients: parseList(row.email_recipients),
+      telegram_chat_ids: parseList(row.telegram_chat_ids),
+      sms_recipient_ids: parseList(row.sms_recipient_ids),
+    };
+  }
+
+  getReportDefinitions({ enabledOnly = false } = {}) {
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM report_definitions ${enabledOnly ? 'WHERE enabled = 1' : ''} ORDER BY created_at ASC
+      `).all();
+      return rows.map(row => this.parseReportDefinition(row));
+    } catch (error) {
+      console.error('Error getting report definitions:', error.message);
+      return [];
+    }
+  }
+
+  getReportDefinition(id) {
+    try {
+      return this.parseReportDefinition(this.db.prepare('SELECT * FROM report_definitions WHERE id = ?').get(id));
+    } catch (error) {
+      console.error('Error getting report definition:', error.message);
+      return null;
+    }
+  }
+
+  saveReportDefinition(definition, id = null, createdBy = null) {
+    try {
+      const values = [
+        definition.name,
+        definition.enabled === false ? 0 : 1,
+        JSON.stringify(definition.metrics || []),
+        definition.date_window || 'yesterday',
+        JSON.stringify(definition.extensions || []),
+        JSON.stringify(definition.gsm_spans || []),
+        definition.frequency || 'daily',
+        JSON.stringify(definition.send_times || []),
+        definition.frequency === 'weekly' ? definition.weekday : null,
+        definition.frequency === 'monthly' ? definition.month_day : null,
+        JSON.stringify(definition.formats || []),
+        JSON.stringify(definition.email_recipients || []),
+        JSON.stringify(definition.telegram_chat_ids || []),
+        JSON.stringify(definition.sms_recipient_ids || []),
+      ];
+
+      if (id) {
+        const result = this.db.prepare(`
+          UPDATE report_definitions
+          SET name = ?, enabled = ?, metrics = ?, date_window = ?, extensions = ?, gsm_spans = ?, frequency = ?,
+              send_times = ?, weekday = ?, month_day = ?, formats = ?, email_recipients = ?, telegram_chat_ids = ?,
+              sms_recipient_ids = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(...values, id);
+        return result.changes > 0 ? id : null;
+      }
+
+      const newId = require('crypto').randomBytes(16).toString('hex');
+      this.db.prepare(`
+        INSERT INTO report_definitions
+        (name, enabled, metrics, date_window, extensions, gsm_spans, frequency, send_times, weekday, month_day,
+         formats, email_recipients, telegram_chat_ids, sms_recipient_ids, id, created_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(...values, newId, createdBy);
+      return newId;
+    } catch (error) {
+      console.error('Error saving report definition:', error.message);
+      return null;
+    }
+  }
+
+  deleteReportDefinition(id) {
+    try {
+      return this.db.prepare('DELETE FROM report_definitions WHERE id = ?').run(id).changes > 0;
+    } catch (error) {
+      console.error('Error deleting report definition:', error.message);
+      return false;
+    }
+  }
+
+  // slot is only set for scheduled sends; manual runs leave the schedule alone
+  recordReportDefinitionRun(id, { slot = null, status, error = null }) {
+    try {
+      this.db.prepare(`
+        UPDATE report_definitions
+        SET last_slot = COALESCE(?, last_slot), last_run_at = CURRENT_TIMESTAMP, last_status = ?, last_error = ?
+        WHERE id = ?
+      `).run(slot, status, error, id);
+      return true;
+    } catch (err) {
+      console.error('Error recording report run:', err.message);
+      return false;
+    }
+  }
+
+  /**
+   * Figures for a report. from/to are UTC "YYYY-MM-DD HH:MM:SS" bounds
+   * (to exclusive); extensions filters the call metrics and gsmSpans the SMS
+   * ones. Only the requested metrics are queried.
+   */
+  getReportData({ from, to, metrics = [], extensions = [], gsmSpans = [] }) {
+    try {
+      const wanted = new Set(metrics);
+      const data = {};
+      const missed = `c.status IN ('missed', 'no-answer', 'noanswer')`;
+
+      // PBX start_time is "YYYY-MM-DD HH:MM:SS" or ISO; fall back to when it was synced
+      const callTime = 'COALESCE(datetime(c.start_time), c.created_at)';
+      let callWhere = `${callTime} >= ? AND ${callTime} < ?`;
+      const callParams = [from, to];
+      if (extensions.length > 0) {
+        callWhere += ` AND c.extension IN (${extensions.map(() => '?').join(',')})`;
+        callParams.push(...extensions.map(String));
+      }
+
+      const smsTime = 'COALESCE(datetime(m.received_at), m.created_at)';
+      let smsWhere = `${smsTime} >= ? AND ${smsTime} < ?`;
+      const smsParams = [from, to];
+      if (gsmSpans.length > 0) {
+        smsWhere += ` AND m.gsm_span IN (${gsmSpans.map(() => '?').join(',')})`;
+        smsParams.push(...gsmSpans);
+      }
+
+      if (wanted.has('calls_summary')) {
+        data.calls_summary = this.db.prepare(`
+          SELECT COUNT(*) as total,
+            SUM(CASE WHEN c.direction = 'inbound' THEN 1 ELSE 0 END) as inbound,
+            SUM(CASE WHEN c.direction = 'outbound' THEN 1 ELSE 0 END) as outbound,
+            SUM(CASE WHEN c.direction = 'internal' THEN 1 ELSE 0 END) as internal,
+            SUM(CASE WHEN c.status = 'answered' THEN 1 ELSE 0 END) as answered,
+            SUM(CASE WHEN c.direction = 'inbound' AND ${missed} THEN 1 ELSE 0 END) as missed,
+            SUM(CASE WHEN c.direction = 'inbound' AND ${missed} AND c.is_returned = 0 THEN 1 ELSE 0 END) as unreturned,
+            AVG(CASE WHEN c.status = 'answered' THEN c.talk_duration END) as avg_talk
+          FROM call_records c WHERE ${callWhere}
+        `).get(...callParams);
+      }
+
+      if (wanted.has('calls_by_extension')) {
+        data.calls_by_extension = this.db.prepare(`
+          SELECT c.extension,
+            (SELECT username FROM pbx_extensions WHERE extnumber = c.extension LIMIT 1) as name,
+            COUNT(*) as total,
+            SUM(CASE WHEN c.status = 'answered' THEN 1 ELSE 0 END) as answered,
+            SUM(CASE WHEN ${missed} THEN 1 ELSE 0 END) as missed,
+            AVG(CASE WHEN c.status = 'answered' THEN c.talk_duration END) as avg_talk
+          FROM call_records c
+          WHERE ${callWhere} AND c.extension IS NOT NULL AND c.extension != ''
+          GROUP BY c.extension ORDER BY total DESC
+        `).all(...callParams);
+      }
+
+      if (wanted.has('missed_calls')) {
+        data.missed_calls = this.db.prepare(`
+          SELECT ${callTime} as start_time, c.caller_number, c.extension, c.ring_duration, c.is_returned
+          FROM call_records c
+          WHERE ${callWhere} AND c.direction = 'inbound' AND ${missed}
+          ORDER BY start_time DESC LIMIT 1000
+        `).all(...callParams);
+      }
+
+      if (wanted.has('sms_summary')) {
+        data.sms_summary = this.db.prepare(`
+          SELECT
+            SUM(CASE WHEN m.direction = 'received' THEN 1 ELSE 0 END) as received,
+            SUM(CASE WHEN m.direction = 'sent' AND m.status != 'failed' THEN 1 ELSE 0 END) as sent,
+            SUM(CASE WHEN m.direction = 'sent' AND m.status = 'failed' THEN 1 ELSE 0 END) as failed,
+            COUNT(DISTINCT CASE WHEN m.direction = 'received' THEN m.sender_number END) as senders
+          FROM sms_messages m WHERE ${smsWhere}
+        `).get(...smsParams);
+      }
+
+      if (wanted.has('sms_by_port')) {
+        data.sms_by_port = this.db.prepare(`
+          SELECT m.gsm_span,
+            SUM(CASE WHEN m.direction = 'received' THEN 1 ELSE 0 END) as received,
+            SUM(CASE WHEN m.direction = 'sent' AND m.status != 'failed' THEN 1 ELSE 0 END) as sent,
+            SUM(CASE WHEN m.direction = 'sent' AND m.status = 'failed' THEN 1 ELSE 0 END) as failed
+          FROM sms_messages m WHERE ${smsWhere}
+          GROUP BY m.gsm_span ORDER BY m.gsm_span
+        `).all(...smsParams);
+      }
+
+      if (wanted.has('sms_by_category')) {
+        data.sms_by_category = this.db.prepare(`
+          SELECT COALESCE(m.category, 'unknown') as category, COUNT(*) as count
+          FROM sms_messages m WHERE ${smsWhere} AND m.direction = 'received'
+          GROUP BY COALESCE(m.category, 'unknown') ORDER BY count DESC
+        `).all(...smsParams);
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Error getting report data:', error.message);
+      return null;
+    }
+  }
+
+  // ========================================
+  // EXPORTS (streamed downloads)
+  // ========================================
+  // One page per call so the connection is never held open by an iterator
+  // while the response drains. Oldest first, so a month reads like a ledger
+  // and rows synced mid-export land after the current page. from/to are UTC
+  // "YYYY-MM-DD HH:MM:SS" (to exclusive); allowed* lists are the viewer's
+  // granular permissions and are applied on top of the other filters.
+
+  getCallRecordsExportPage(filters = {}, { limit = 1000, offset = 0 } = {}) {
+    try {
+      const callTime = 'COALESCE(datetime(cr.start_time), cr.created_at)';
+      const where = [];
+      const params = [];
+
+      if (filters.extension) {
+        where.push('(cr.extension = ? OR cr.caller_number = ? OR cr.callee_number = ?)');
+        params.push(filters.extension, filters.extension, filters.extension);
+      }
+      if (filters.allowedExtensions?.length > 0) {
+        const list = JSON.stringify(filters.allowedExtensions.map(String));
+        where.push(`(cr.extension IN (SELECT value FROM json_each(?))
+          OR cr.caller_number IN (SELECT value FROM json_each(?))
+          OR cr.callee_number IN (SELECT value FROM json_each(?)))`);
+        params.push(list, list, list);
+      }
+      if (filters.direction) {
+        where.push('cr.direction = ?');
+        params.push(filters.direction);
+      }
+      if (filters.status) {
+        where.push('cr.status = ?');
+        params.push(filters.status);
+      }
+      if (filters.segmentNumbers) {
+        const numbers = JSON.stringify(filters.segmentNumbers);
+        where.push('(cr.caller_number IN (SELECT value FROM json_each(?)) OR cr.callee_number IN (SELECT value FROM json_each(?)))');
+        params.push(numbers, numbers);
+      }
+      if (filters.from) {
+        where.push(`${callTime} >= ?`);
+        params.push(filters.from);
+      }
+      if (filters.to) {
+        where.push(`${callTime} < ?`);
+        params.push(filters.to);
+      }
+
+      return this.db.prepare(`
+        SELECT cr.*, ${callTime} as call_time,
+          ce_caller.username as caller_extension_username,
+          ce_callee.username as callee_extension_username
+        FROM call_records cr
+        LEFT JOIN pbx_extensions ce_caller ON cr.caller_number = ce_caller.extnumber
+        LEFT JOIN pbx_extensions ce_callee ON cr.callee_number = ce_callee.extnumber
+        ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY call_time ASC, cr.id ASC
+        LIMIT ? OFFSET ?
+      `).all(...params, limit, offset);
+    } catch (error) {
+      console.error('Error getting call records export page:', error.message);
+      return null;
+    }
+  }
+
+  getSmsMessagesExportPage(filters = {}, { limit = 1000, offset = 0 } = {}) {
+    try {
+      const smsTime = 'COALESCE(datetime(sm.received_at), sm.created_at)';
+      const where = [];
+      const params = [];
+
+      if (filters.gsmSpan) {
+        where.push('sm.gsm_span = ?');
+        params.push(filters.gsmSpan);
+      }
+      if (filters.allowedGsmSpans?.length > 0) {
+        where.push('sm.gsm_span IN (SELECT value FROM json_each(?))');
+        params.push(JSON.stringify(filters.allowedGsmSpans));
+      }
+      if (filters.direction) {
+        where.push('sm.direction = ?');
+        params.push(filters.direction);
+      }
+      if (filters.status) {
+        where.push('sm.status = ?');
+        params.push(filters.status);
+      }
+      // The panel's Read tab is everything no longer unread
+      if (filters.read === 'unread') where.push("sm.status = 'unread'");
+      if (filters.read === 'read') where.push("sm.status != 'unread'");
+      if (filters.category) {
+        where.push("COALESCE(sm.category, 'unknown') = ?");
+        params.push(filters.category);
+      }
+      if (filters.search) {
+        where.push("(sm.sender_number LIKE ? ESCAPE '\\' OR sm.message_content LIKE ? ESCAPE '\\')");
+        const pattern = `%${filters.search.replace(/[\\%_]/g, '\\$&')}%`;
+        params.push(pattern, pattern);
+      }
+      if (filters.segmentNumbers) {
+        where.push('sm.sender_number IN (SELECT value FROM json_each(?))');
+        params.push(JSON.stringify(filters.segmentNumbers));
+      }
+      if (filters.from) {
+        where.push(`${smsTime} >= ?`);
+        params.push(filters.from);
+      }
+      if (filters.to) {
+        where.push(`${smsTime} < ?`);
+        params.push(filters.to);
+      }
+
+      return this.db.prepare(`
+        SELECT sm.*, ${smsTime} as message_time,
+          COALESCE(gsc.name, 'Port ' || (sm.gsm_span - 1)) as port_name
+        FROM sms_messages sm
+        LEFT JOIN gsm_span_config gsc ON sm.gsm_span = gsc.gsm_span
+        ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY message_time ASC, sm.id ASC
+        LIMIT ? OFFSET ?
+      `).all(...params, limit, offset);
+    } catch (error) {
+      console.error('Error getting SMS export page:', error.message);
+      return null;
+    }
+  }
+
+  getActivityLogsExportPage(filters = {}, { limit = 1000, offset = 0 } = {}) {
+    try {
+      const where = [];
+      const params = [];
+
+      if (filters.severity) {
+        where.push('severity = ?');
+        params.push(filters.severity);
+      }
+      if (filters.eventType) {
+        where.push('event_type = ?');
+        params.push(filters.eventType);
+      }
+      if (filters.from) {
+        where.push('datetime(created_at) >= ?');
+        params.push(filters.from);
+      }
+      if (filters.to) {
+        where.push('datetime(created_at) < ?');
+        params.push(filters.to);
+      }
+
+      return this.db.prepare(`
+        SELECT *, datetime(created_at) as logged_at FROM activity_logs
+        ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+        ORDER BY logged_at ASC, id ASC
+        LIMIT ? OFFSET ?
+      `).all(...params, limit, offset);
+    } catch (error) {
+      console.error('Error getting activity logs export page:', error.message);
+      return null;
+    }
+  }
+
+  // ========================================
+  // CALL QUEUE (click-to-call)
+  // ========================================
+
+  parseQueuedCall(row) {
+    if (!row) return null;
+    let metadata = {};
+    try { metadata = JSON.parse(row.metadata || '{}'); } catch { metadata = {}; }
+    return { ...row, metadata };
+  }
+
+  getQueuedCall(id) {
+    try {
+      return this.parseQueuedCall(this.db.prepare('SELECT * FROM call_queue WHERE id = ?').get(id));
+    } catch (error) {
+      console.error('Error getting queued call:', error.message);
+      return null;
+    }
+  }
+
+  // Open requests first (in dial order), then the most recent finished ones
+  getCallQueue({ status = null, extension = null, limit = 100 } = {}) {
+    try {
+      const params = [];
+      let query = 'SELECT * FROM call_queue WHERE 1=1';
+      if (status) {
+        query += ' AND status = ?';
+        params.push(status);
       }
+      if (extension) {
+        query += ' AND from_extension = ?';
+        params.push(extension);
+      }
+      query += `
+        ORDER BY CASE status WHEN 'in_progress' THEN 0 WHEN 'pending' THEN 1 ELSE 2 END,
+                 CASE WHEN status IN ('pending', 'in_progress') THEN -priority ELSE 0 END,
+                 CASE WHEN status IN ('pending', 'in_progress') THEN requested_at END ASC,
+                 updated_at DESC
+        LIMIT ?
+      `;
+      params.push(limit);
+      return this.db.prepare(query).all(...params).map(row => this.parseQueuedCall(row));
+    } catch (error) {
+      console.error('Error getting call queue:', error.message);
+      return [];
+    }
+  }
+
+  findOpenQueuedCall(fromExtension, toNumber) {
+    try {
+      return this.parseQueuedCall(this.db.prepare(`
+        SELECT * FROM call_queue
+        WHERE from_extension = ? AND to_number = ? AND status IN ('pending', 'in_progress')
+        LIMIT 1
+      `).get(fromExtension, toNumber));
+    } catch (error) {
+      console.error('Error checking call queue:', error.message);
+      return null;
+    }
+  }
+
+  enqueueCall({ from_extension, to_number, priority = 0, requested_by = null, metadata = {} }) {
+    try {
+      const id = require('crypto').randomBytes(16).toString('hex');
+      this.db.prepare(`
+        INSERT INTO call_queue (id, from_extension, to_number, priority, requested_by, metadata)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(id, from_extension, to_number, priority, requested_by, JSON.stringify(metadata || {}));
+      return this.getQueuedCall(id);
+    } catch (error) {
+      console.error('Error queueing call:', error.message);
+      return null;
+    }
+  }
+
+  // The next call per extension that has nothing in progress
+  getNextQueuedCalls() {
+    try {
+      return this.db.prepare(`
+        SELECT * FROM call_queue q
+        WHERE q.status = 'pending'
+          AND NOT EXISTS (SELECT 1 FROM call_queue busy WHERE busy.from_extension = q.from_extension AND busy.status = 'in_progress')
+          AND q.id = (
+            SELECT head.id FROM call_queue head
+            WHERE head.from_extension = q.from_extension AND head.status = 'pending'
+            ORDER BY head.priority DESC, head.requested_at ASC LIMIT 1
+          )
+      `).all().map(row => this.parseQueuedCall(row));
+    } catch (error) {
+      console.error('Error getting next queued calls:', error.message);
+      return [];
+    }
+  }
+
+  getInProgressQueuedCalls() {
+    try {
+      return this.db.prepare("SELECT * FROM call_queue WHERE status = 'in_progress'").all().map(row => this.parseQueuedCall(row));
+    } catch (error) {
+      console.error('Error getting in-progress queued calls:', error.message);
+      return [];
+    }
+  }
+
+  // pending -> in_progress, guarded so a call is only picked up once
+  claimQueuedCall(id) {
+    try {
+      const result = this.db.prepare(`
+        UPDATE call_queue SET status = 'in_progress', picked_up_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'pending'
+      `).run(id);
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error claiming queued call:', error.message);
+      return false;
+    }
+  }
+
+  updateQueuedCall(id, { status, call_id = null, result = null, error_message = null }) {
+    try {
+      this.db.prepare(`
+        UPDATE call_queue
+        SET status = ?, call_id = COALESCE(?, call_id), result = COALESCE(?, result), error_message = ?,
+            completed_at = CASE WHEN ? IN ('completed', 'failed', 'cancelled') THEN CURRENT_TIMESTAMP ELSE completed_at END,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(status, call_id, result, error_message, status, id);
+      return this.getQueuedCall(id);
+    } catch (error) {
+      console.error('Error updating queued call:', error.message);
+      return null;
+    }
+  }
+
+  cancelQueuedCall(id) {
+    try {
+      const result = this.db.prepare(`
+        UPDATE call_queue SET status = 'cancelled', completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'pending'
+      `).run(id);
+      return result.changes > 0 ? this.getQueuedCall(id) : null;
+    } catch (error) {
+      console.error('Error cancelling queued call:', error.message);
+      return null;
+    }
+  }
+
+  // A call that was ringing when the agent stopped can't be tracked any more
+  failInterruptedQueuedCalls() {
+    try {
+      const result = this.db.prepare(`
+        UPDATE call_queue
+        SET status = 'failed', error_message = 'Interrupted by agent restart', completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE status = 'in_progress'
+      `).run();
+      return result.changes;
+    } catch (error) {
+      console.error('Error recovering call queue:', error.message);
+      return 0;
+    }
+  }
+
+  // Whether the PBX logged an answered outbound call to the number since sinceUtc
+  // (a minute of slack for the PBX clock)
+  hasAnsweredOutboundCall(phoneNumber, sinceUtc) {
+    try {
+      const variants = this.phoneNumberVariants(phoneNumber);
+      return !!this.db.prepare(`
+        SELECT 1 FROM call_records
+        WHERE direction = 'outbound' AND LOWER(status) = 'answered'
+          AND callee_number IN (${variants.map(() => '?').join(', ')})
+          AND datetime(start_time) >= datetime(?, '-1 minute')
+        LIMIT 1
+      `).get(...variants, sinceUtc);
+    } catch (error) {
+      console.error('Error checking for an answered call:', error.message);
+      return false;
+    }
+  }
+
+  // ========================================
+  // CALL RECORDINGS CACHE
+  // ========================================
+
+  getCallRecordById(id) {
+    try {
+      return this.db.prepare('SELECT * FROM call_records WHERE id = ?').get(id) || null;
+    } catch (error) {
+      console.error('Error getting call record:', error.message);
+      return null;
+    }
+  }
+
+  getCachedRecording(callRecordId) {
+    try {
+      return this.db.prepare('SELECT * FROM call_recordings WHERE call_record_id = ?').get(callRecordId) || null;
+    } catch (error) {
+      console.error('Error getting cached recording:', error.message);
+      return null;
+    }
+  }
+
+  saveCachedRecording({ call_record_id, recording_file, local_path, content_type = null, size_bytes = 0 }) {
+    try {
+      this.db.prepare(`
+        INSERT INTO call_recordings (call_record_id, recording_file, local_path, content_type, size_bytes)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(call_record_id) DO UPDATE SET
+          recording_file = excluded.recording_file,
+          local_path = excluded.local_path,
+          content_type = excluded.content_type,
+          size_bytes = excluded.size_bytes,
+          downloaded_at = CURRENT_TIMESTAMP,
+          last_accessed_at = CURRENT_TIMESTAMP
+      `).run(call_record_id, recording_file, local_path, content_type, size_bytes);
+      return this.getCachedRecording(call_record_id);
+    } catch (error) {
+      console.error('Error saving cached recording:', error.message);
+      return null;
+    }
+  }
+
+  touchCachedRecording(callRecordId) {
+    try {
+      this.db.prepare('UPDATE call_recordings SET last_accessed_at = CURRENT_TIMESTAMP WHERE call_record_id = ?').run(callRecordId);
+      return true;
+    } catch (error) {
+      console.error('Error touching cached recording:', error.message);
+      return false;
+    }
+  }
+
+  deleteCachedRecording(callRecordId) {
+    try {
+      return this.db.prepare('DELETE FROM call_recordings WHERE call_record_id = ?').run(callRecordId).changes > 0;
+    } catch (error) {
+      console.error('Error deleting cached recording:', error.message);
+      return false;
+    }
+  }
+
+  // Least recently played first, so eviction can walk the list from the top
+  getCachedRecordings() {
+    try {
+      return this.db.prepare('SELECT * FROM call_recordings ORDER BY last_accessed_at ASC').all();
+    } catch (error) {
+      console.error('Error listing cached recordings:', error.message);
+      return [];
+    }
+  }
+
+  getRecordingCacheStats() {
+    try {
+      return this.db.prepare(`
+        SELECT COUNT(*) AS files, COALESCE(SUM(size_bytes), 0) AS size_bytes,
+               MIN(last_accessed_at) AS oldest_access
+        FROM call_recordings
+      `).get();
+    } catch (error) {
+      console.error('Error getting recording cache stats:', error.message);
+      return { files: 0, size_bytes: 0, oldest_access: null };
+    }
+  }
 
-      if (fields.length === 0) return false;
+  // ========================================
+  // MISSED CALL CALLBACKS
+  // ========================================
 
-      fields.push('updated_at = CURRENT_TIMESTAMP');
-      values.push(id);
+  // Opens a task for every missed inbound call and closes open tasks the
+  // call log shows were dealt with: the caller rang back and was answered,
+  // or an outbound call to them was answered. Returns the number of changes.
+  syncCallbackTasks() {
+    try {
+      const missedStatuses = "('missed', 'no-answer', 'noanswer', 'no answer')";
+      return this.db.transaction(() => {
+        let changes = this.db.prepare(`
+          INSERT OR IGNORE INTO callback_tasks (id, call_record_id, caller_number, extension, missed_at, status, resolution, closed_at)
+          SELECT lower(hex(randomblob(16))), cr.id, cr.caller_number, cr.extension, datetime(cr.start_time),
+                 CASE WHEN cr.is_returned = 1 THEN 'closed' ELSE 'open' END,
+                 CASE WHEN cr.is_returned = 1 THEN 'returned' END,
+                 CASE WHEN cr.is_returned = 1 THEN CURRENT_TIMESTAMP END
+          FROM call_records cr
+          WHERE cr.direction = 'inbound' AND LOWER(cr.status) IN ${missedStatuses}
+            AND cr.caller_number IS NOT NULL AND cr.start_time IS NOT NULL
+            AND NOT EXISTS (SELECT 1 FROM callback_tasks t WHERE t.call_record_id = cr.id)
+        `).run().changes;
+
+        // Answered callback from us: counts as the first callback if none was logged
+        changes += this.db.prepare(`
+          UPDATE callback_tasks
+          SET status = 'closed', resolution = 'reached',
+              closed_at = (SELECT MIN(datetime(cr.start_time)) FROM call_records cr
+                           WHERE cr.direction = 'outbound' AND LOWER(cr.status) = 'answered'
+                             AND cr.callee_number = callback_tasks.caller_number
+                             AND datetime(cr.start_time) > callback_tasks.missed_at),
+              first_attempt_at = COALESCE(first_attempt_at,
+                          (SELECT MIN(datetime(cr.start_time)) FROM call_records cr
+                           WHERE cr.direction = 'outbound' AND cr.callee_number = callback_tasks.caller_number
+                             AND datetime(cr.start_time) > callback_tasks.missed_at)),
+              updated_at = CURRENT_TIMESTAMP
+          WHERE status = 'open' AND EXISTS (
+            SELECT 1 FROM call_records cr
+            WHERE cr.direction = 'outbound' AND LOWER(cr.status) = 'answered'
+              AND cr.callee_number = callback_tasks.caller_number
+              AND datetime(cr.start_time) > callback_tasks.missed_at
+          )
+        `).run().changes;
+
+        // The caller rang back and got through
+        changes += this.db.prepare(`
+          UPDATE callback_tasks
+          SET status = 'closed', resolution = 'caller_called_back',
+              closed_at = (SELECT MIN(datetime(cr.start_time)) FROM call_records cr
+                           WHERE cr.direction = 'inbound' AND LOWER(cr.status) = 'answered'
+                             AND cr.caller_number = callback_tasks.caller_number
+                             AND datetime(cr.start_time) > callback_tasks.missed_at),
+              updated_at = CURRENT_TIMESTAMP
+          WHERE status = 'open' AND EXISTS (
+            SELECT 1 FROM call_records cr
+            WHERE cr.direction = 'inbound' AND LOWER(cr.status) = 'answered'
+              AND cr.caller_number = callback_tasks.caller_number
+              AND datetime(cr.start_time) > callback_tasks.missed_at
+          )
+        `).run().changes;
+
+        // Marked as returned elsewhere (queued callback finished, legacy flag)
+        changes += this.db.prepare(`
+          UPDATE callback_tasks
+          SET status = 'closed', resolution = 'returned', closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+          WHERE status = 'open' AND call_record_id IN (SELECT id FROM call_records WHERE is_returned = 1)
+        `).run().changes;
 
-      const sql = `UPDATE contacts SET ${fields.join(', ')} WHERE id = ?`;
-      this.db.prepare(sql).run(...values);
-      this.logActivity('contact_updated', `Contact updated: ${id}`, 'success');
-      return true;
+        this.db.prepare(`
+          UPDATE call_records SET is_returned = 1
+          WHERE is_returned = 0 AND id IN (SELECT call_record_id FROM callback_tasks WHERE status = 'closed')
+        `).run();
+
+        return changes;
+      })();
     } catch (error) {
-      console.error('Error updating contact:', error.message);
-      return false;
+      console.error('Error syncing callback tasks:', error.message);
+      return 0;
     }
   }
 
-  mergeDuplicateContacts() {
+  getCallbackTask(id) {
     try {
-      // Find duplicate phone patterns and merge
-      const duplicates = this.db.prepare(`
-        SELECT phone_number, COUNT(*) as cnt
-        FROM contacts
-        GROUP BY phone_number
-        HAVING cnt > 1
-      `).all();
+      return this.db.prepare(`
+        SELECT t.*, a.name AS assigned_agent_name, cr.caller_name, cr.sim_port, cr.ring_duration, cr.notes
+        FROM callback_tasks t
+        LEFT JOIN agents a ON a.id = t.assigned_agent_id
+        LEFT JOIN call_records cr ON cr.id = t.call_record_id
+        WHERE t.id = ?
+      `).get(id) || null;
+    } catch (error) {
+      console.error('Error getting callback task:', error.message);
+      return null;
+    }
+  }
 
-      let mergedCount = 0;
+  getCallbackTaskByCallRecord(callRecordId) {
+    try {
+      const row = this.db.prepare('SELECT id FROM callback_tasks WHERE call_record_id = ?').get(callRecordId);
+      return row ? this.getCallbackTask(row.id) : null;
+    } catch (error) {
+      console.error('Error getting callback task:', error.message);
+      return null;
+    }
+  }
 
-      for (const dup of duplicates) {
-        const contacts = this.db.prepare(`
-          SELECT id, sms_count, call_count, notes
-          FROM contacts
-          WHERE phone_number = ?
-          ORDER BY last_seen_at DESC
-        `).all(dup.phone_number);
+  // Open tasks oldest first, then the most recently closed
+  getCallbackTasks({ status = null, agentId = null, extension = null, fromUtc = null, toUtc = null, limit = 200 } = {}) {
+    try {
+      const params = [];
+      let query = `
+        SELECT t.*, a.name AS assigned_agent_name, cr.caller_name, cr.sim_port, cr.ring_duration, cr.notes
+        FROM callback_tasks t
+        LEFT JOIN agents a ON a.id = t.assigned_agent_id
+        LEFT JOIN call_records cr ON cr.id = t.call_record_id
+        WHERE 1=1
+      `;
+      if (status) {
+        query += ' AND t.status = ?';
+        params.push(status);
+      }
+      if (agentId) {
+        query += ' AND t.assigned_agent_id = ?';
+        params.push(agentId);
+      }
+      if (extension) {
+        query += ' AND t.extension = ?';
+        params.push(extension);
+      }
+      if (fromUtc) {
+        query += ' AND t.missed_at >= ?';
+        params.push(fromUtc);
+      }
+      if (toUtc) {
+        query += ' AND t.missed_at < ?';
+        params.push(toUtc);
+      }
+      query += `
+        ORDER BY CASE t.status WHEN 'open' THEN 0 ELSE 1 END,
+                 CASE WHEN t.status = 'open' THEN t.missed_at END ASC,
+                 t.closed_at DESC
+        LIMIT ?
+      `;
+      params.push(limit);
+      return this.db.prepare(query).all(...params);
+    } catch (error) {
+      console.error('Error getting callback tasks:', error.message);
+      return [];
+    }
+  }
 
-        if (contacts.length > 1) {
-          const primary = contacts[0];
-          const toMerge = contacts.slice(1);
+  getCallbackAttempts(taskId) {
+    try {
+      return this.db.prepare(`
+        SELECT ca.*, a.name AS agent_name
+        FROM callback_attempts ca
+        LEFT JOIN agents a ON a.id = ca.agent_id
+        WHERE ca.task_id = ?
+        ORDER BY ca.attempted_at ASC
+      `).all(taskId);
+    } catch (error) {
+      console.error('Error getting callback attempts:', error.message);
+      return [];
+    }
+  }
 
-          // Sum SMS and call counts
-          let totalSms = primary.sms_count;
-          let totalCalls = primary.call_count;
-          let mergedNotes = primary.notes || '';
+  assignCallbackTask(id, agentId, assignedBy = null) {
+    try {
+      this.db.prepare(`
+        UPDATE callback_tasks
+        SET assigned_agent_id = ?, assigned_by = ?, assigned_at = CASE WHEN ? IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(agentId, agentId ? assignedBy : null, agentId, id);
+      return this.getCallbackTask(id);
+    } catch (error) {
+      console.error('Error assigning callback task:', error.message);
+      return null;
+    }
+  }
 
-          for (const contact of toMerge) {
-            totalSms += contact.sms_count;
-            totalCalls += contact.call_count;
-            if (contact.notes && !mergedNotes.includes(contact.notes)) {
-              mergedNotes += (mergedNotes ? '\n' : '') + contact.notes;
-            }
-          }
+  // Reaching the caller (or finding the number is wrong) closes every open
+  // task for that number; voicemail and no answer keep the task open
+  recordCallbackAttempt(id, { outcome, notes = null, agent_id = null, recorded_by = null }) {
+    try {
+      return this.db.transaction(() => {
+        const task = this.db.prepare('SELECT * FROM callback_tasks WHERE id = ?').get(id);
+        if (!task) return null;
 
-          // Update primary contact
-          this.db.prepare(`
-            UPDATE contacts
-            SET sms_count = ?, call_count = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
-            WHERE id = ?
-          `).run(totalSms, totalCalls, mergedNotes, primary.id);
+        const attemptId = require('crypto').randomBytes(16).toString('hex');
+        this.db.prepare(`
+          INSERT INTO callback_attempts (id, task_id, outcome, notes, agent_id, recorded_by)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(attemptId, id, outcome, notes, agent_id || task.assigned_agent_id, recorded_by);
 
-          // Delete duplicates
-          const deleteIds = toMerge.map(c => c.id);
-          for (const id of deleteIds) {
-            this.db.prepare('DELETE FROM contacts WHERE id = ?').run(id);
+        this.db.prepare(`
+          UPDATE callback_tasks
+          SET attempt_count = attempt_count + 1,
+              first_attempt_at = COALESCE(first_attempt_at, CURRENT_TIMESTAMP),
+              last_attempt_at = CURRENT_TIMESTAMP,
+              last_outcome = ?,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(outcome, id);
+
+        if (outcome === 'reached' || outcome === 'wrong_number') {
+          const closing = this.db.prepare(`
+            SELECT id, call_record_id FROM callback_tasks
+            WHERE status = 'open' AND (id = ? OR caller_number = ?)
+          `).all(id, task.caller_number);
+          const close = this.db.prepare(`
+            UPDATE callback_tasks SET status = 'closed', resolution = ?, closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+            WHERE id = ?
+          `);
+          const markReturned = this.db.prepare('UPDATE call_records SET is_returned = 1, notes = COALESCE(?, notes) WHERE id = ?');
+          for (const row of closing) {
+            close.run(outcome, row.id);
+            markReturned.run(row.id === id ? notes : null, row.call_record_id);
           }
-
-          mergedCount++;
         }
-      }
 
-      if (mergedCount > 0) {
-        this.logActivity('contacts_merged', `Merged ${mergedCount} duplicate contacts`, 'success');
-      }
-      return mergedCount;
+        return this.getCallbackTask(id);
+      })();
     } catch (error) {
-      console.error('Error merging duplicates:', error.message);
-      return 0;
+      console.error('Error recording callback attempt:', error.message);
+      return null;
     }
   }
 
-  importContacts(contactsList = []) {
+  closeCallbackTask(id, resolution = 'manual') {
     try {
-      let importedCount = 0;
+      this.db.prepare(`
+        UPDATE callback_tasks SET status = 'closed', resolution = ?, closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'open'
+      `).run(resolution, id);
+      const task = this.getCallbackTask(id);
+      if (task) this.db.prepare('UPDATE call_records SET is_returned = 1 WHERE id = ?').run(task.call_record_id);
+      return task;
+    } catch (error) {
+      console.error('Error closing callback task:', error.message);
+      return null;
+    }
+  }
 
-      for (const contact of contactsList) {
-        if (!contact.phone_number) continue;
-        
-        const existing = this.db.prepare('SELECT id FROM contacts WHERE phone_number = ?').get(contact.phone_number);
-        
-        if (existing) {
-          // Update if it already exists
-          if (contact.name) {
-            this.db.prepare('UPDATE contacts SET name = COALESCE(?, name), source = ?, updated_at = CURRENT_TIMESTAMP WHERE phone_number = ?')
-              .run(contact.name, contact.source || 'import', contact.phone_number);
-          }
-        } else {
-          // Insert new
-          this.db.prepare(`
-            INSERT INTO contacts (phone_number, name, source, first_seen_at, last_seen_at)
-            VALUES (?, ?, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-          `).run(contact.phone_number, contact.name || null, contact.source || 'import');
-        }
-        importedCount++;
-      }
+  // Per-extension SLA figures for missed calls in a UTC range. Time to first
+  // callback is the first logged attempt, or the closing call when the
+  // caller was reached without one being logged.
+  getCallbackSlaReport(fromUtc, toUtc, slaMinutes) {
+    try {
+      const slaSeconds = slaMinutes * 60;
+      return this.db.prepare(`
+        WITH timed AS (
+          SELECT t.*,
+                 (julianday(COALESCE(t.first_attempt_at, CASE WHEN t.resolution = 'reached' THEN t.closed_at END)) - julianday(t.missed_at)) * 86400 AS first_callback_seconds,
+                 (julianday('now') - julianday(t.missed_at)) * 86400 AS age_seconds
+          FROM callback_tasks t
+          WHERE t.missed_at >= ? AND t.missed_at < ?
+        )
+        SELECT COALESCE(timed.extension, 'Unknown') AS extension,
+               MAX(pe.username) AS username,
+               COUNT(*) AS missed_calls,
+               SUM(CASE WHEN status = 'open' THEN 1 ELSE 0 END) AS open_tasks,
+               SUM(CASE WHEN status = 'closed' THEN 1 ELSE 0 END) AS closed_tasks,
+               SUM(CASE WHEN resolution = 'reached' THEN 1 ELSE 0 END) AS reached,
+               SUM(CASE WHEN resolution = 'caller_called_back' THEN 1 ELSE 0 END) AS caller_called_back,
+               SUM(attempt_count) AS attempts,
+               SUM(CASE WHEN first_callback_seconds IS NOT NULL THEN 1 ELSE 0 END) AS called_back,
+               SUM(CASE WHEN first_callback_seconds IS NOT NULL AND first_callback_seconds <= ${slaSeconds} THEN 1 ELSE 0 END) AS within_sla,
+               SUM(CASE WHEN (first_callback_seconds IS NOT NULL AND first_callback_seconds > ${slaSeconds})
+                          OR (first_callback_seconds IS NULL AND status = 'open' AND age_seconds > ${slaSeconds}) THEN 1 ELSE 0 END) AS breached,
+               AVG(first_callback_seconds) AS avg_first_callback_seconds,
+               MAX(first_callback_seconds) AS max_first_callback_seconds
+        FROM timed
+        LEFT JOIN pbx_extensions pe ON pe.extnumber = timed.extension
+        GROUP BY COALESCE(timed.extension, 'Unknown')
+        ORDER BY extension
+      `).all(fromUtc, toUtc);
+    } catch (error) {
+      console.error('Error building callback SLA report:', error.message);
+      return [];
+    }
+  }
 
-      if (importedCount > 0) {
-        this.logActivity('contacts_imported', `Imported ${importedCount} contacts`, 'success');
-      }
-      return importedCount;
+  // ========================================
+  // BULK SMS CAMPAIGNS
+  // ========================================
+
+  parseCampaign(row) {
+    if (!row) return null;
+    let gsmSpans = [];
+    try { gsmSpans = JSON.parse(row.gsm_spans || '[]'); } catch { gsmSpans = []; }
+    return {
+      ...row,
+      gsm_spans: gsmSpans,
+      total: row.total || 0,
+      pending: row.pending || 0,
+      sending: row.sending || 0,
+      sent: row.sent || 0,
+      failed: row.failed || 0,
+      skipped: row.skipped || 0,
+      cancelled: row.cancelled || 0,
+    };
+  }
+
+  campaignSelect(where = '') {
+    return `
+      SELECT c.*, t.name as template_name,
+        COUNT(r.id) as total,
+        SUM(CASE WHEN r.status = 'pending' THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN r.status = 'sending' THEN 1 ELSE 0 END) as sending,
+        SUM(CASE WHEN r.status = 'sent' THEN 1 ELSE 0 END) as sent,
+        SUM(CASE WHEN r.status = 'failed' THEN 1 ELSE 0 END) as failed,
+        SUM(CASE WHEN r.status = 'skipped' THEN 1 ELSE 0 END) as skipped,
+        SUM(CASE WHEN r.status = 'cancelled' THEN 1 ELSE 0 END) as cancelled
+      FROM sms_campaigns c
+      LEFT JOIN sms_templates t ON t.id = c.template_id
+      LEFT JOIN sms_campaign_recipients r ON r.campaign_id = c.id
+      ${where}
+      GROUP BY c.id
+    `;
+  }
+
+  getCampaigns() {
+    try {
+      const rows = this.db.prepare(`${this.campaignSelect()} ORDER BY c.created_at DESC`).all();
+      return rows.map(row => this.parseCampaign(row));
     } catch (error) {
-      console.error('Error importing contacts:', error.message);
-      return 0;
+      console.error('Error getting SMS campaigns:', error.message);
+      return [];
     }
   }
 
-  // Auto-Reply Config methods
-  getAutoReplyConfig() {
+  getCampaign(id) {
     try {
-      return this.db.prepare('SELECT * FROM auto_reply_config LIMIT 1').get() || null;
+      return this.parseCampaign(this.db.prepare(this.campaignSelect('WHERE c.id = ?')).get(id));
     } catch (error) {
-      console.error('Error getting auto-reply config:', error.message);
+      console.error('Error getting SMS campaign:', error.message);
       return null;
     }
   }
 
-  saveAutoReplyConfig({ enabled, message, notification_email }) {
+  // Scheduled campaigns whose start time has passed, plus any left running
+  getDueCampaigns() {
     try {
-      const existing = this.db.prepare('SELECT id FROM auto_reply_config LIMIT 1').get();
-      if (existing) {
+      return this.db.prepare(`
+        SELECT id, status FROM sms_campaigns
+        WHERE status = 'running' OR (status = 'scheduled' AND datetime(scheduled_at) <= datetime('now'))
+        ORDER BY scheduled_at ASC
+      `).all();
+    } catch (error) {
+      console.error('Error getting due SMS campaigns:', error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Create a campaign and its recipient list in one transaction.
+   * Recipients are de-duplicated on the 254XXXXXXXXX form of their number.
+   * @param {Array<{phone_number: string, name?: string, fields?: object}>} recipients
+   */
+  createCampaign({ name, message, template_id = null, gsm_spans = [], rate_per_minute = 6, scheduled_at, created_by = null }, recipients = []) {
+    try {
+      const id = require('crypto').randomBytes(16).toString('hex');
+      const insertRecipient = this.db.prepare(`
+        INSERT INTO sms_campaign_recipients (campaign_id, position, phone_number, name, merge_data)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+
+      this.db.transaction(() => {
         this.db.prepare(`
-          UPDATE auto_reply_config SET enabled = ?, message = ?, notification_email = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
-        `).run(enabled ? 1 : 0, message, notification_email || null, existing.id);
-      } else {
+          INSERT INTO sms_campaigns (id, name, message, template_id, gsm_spans, rate_per_minute, scheduled_at, created_by)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(id, name, message, template_id, JSON.stringify(gsm_spans), rate_per_minute, scheduled_at, created_by);
+
+        const seen = new Set();
+        let position = 0;
+        for (const recipient of recipients) {
+          const key = this.optOutKey(recipient.phone_number);
+          if (seen.has(key)) continue;
+          seen.add(key);
+          insertRecipient.run(id, position++, recipient.phone_number, recipient.name || null, JSON.stringify(recipient.fields || {}));
+        }
+      })();
+
+      return id;
+    } catch (error) {
+      console.error('Error creating SMS campaign:', error.message);
+      return null;
+    }
+  }
+
+  setCampaignStatus(id, status, lastError = null) {
+    try {
+      const result = this.db.prepare(`
+        UPDATE sms_campaigns
+        SET status = ?, last_error = ?,
+            started_at = CASE WHEN ? = 'running' THEN COALESCE(started_at, CURRENT_TIMESTAMP) ELSE started_at END,
+            completed_at = CASE WHEN ? IN ('completed', 'cancelled') THEN CURRENT_TIMESTAMP ELSE completed_at END,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(status, lastError, status, status, id);
+
+      // Nothing left to send once cancelled
+      if (status === 'cancelled') {
         this.db.prepare(`
-          INSERT INTO auto_reply_config (enabled, message, notification_email) VALUES (?, ?, ?)
-        `).run(enabled ? 1 : 0, message, notification_email || null);
+          UPDATE sms_campaign_recipients SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+          WHERE campaign_id = ? AND status = 'pending'
+        `).run(id);
       }
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error updating SMS campaign status:', error.message);
+      return false;
+    }
+  }
+
+  setCampaignError(id, lastError) {
+    try {
+      this.db.prepare('UPDATE sms_campaigns SET last_error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(lastError, id);
       return true;
     } catch (error) {
-      console.error('Error saving auto-reply config:', error.message);
+      console.error('Error updating SMS campaign error:', error.message);
+      return false;
+    }
+  }
+
+  deleteCampaign(id) {
+    try {
+      const result = this.db.prepare('DELETE FROM sms_campaigns WHERE id = ?').run(id);
+      return result.changes > 0;
+    } catch (error) {
+      console.error('Error deleting SMS campaign:', error.message);
+      return false;
+    }
+  }
+
+  // Take the next pending recipient for a SIM. better-sqlite3 is synchronous,
+  // so span workers can't claim the same row.
+  claimCampaignRecipient(campaignId, gsmSpan) {
+    try {
+      const row = this.db.prepare(`
+        SELECT * FROM sms_campaign_recipients
+        WHERE campaign_id = ? AND status = 'pending'
+        ORDER BY position ASC LIMIT 1
+      `).get(campaignId);
+      if (!row) return null;
+
+      this.db.prepare(`
+        UPDATE sms_campaign_recipients SET status = 'sending', gsm_span = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+      `).run(gsmSpan, row.id);
+
+      let mergeData = {};
+      try { mergeData = JSON.parse(row.merge_data || '{}'); } catch { mergeData = {}; }
+      return { ...row, status: 'sending', gsm_span: gsmSpan, merge_data: mergeData };
+    } catch (error) {
+      console.error('Error claiming SMS campaign recipient:', error.message);
+      return null;
+    }
+  }
+
+  updateCampaignRecipient(id, { status, external_id = null, error = null }) {
+    try {
+      this.db.prepare(`
+        UPDATE sms_campaign_recipients
+        SET status = ?, external_id = COALESCE(?, external_id), error = ?,
+            sent_at = CASE WHEN ? = 'sent' THEN CURRENT_TIMESTAMP ELSE sent_at END,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(status, external_id, error, status, id);
+      return true;
+    } catch (err) {
+      console.error('Error updating SMS campaign recipient:', err.message);
       return false;
     }
   }
 
+  // Apply a TG400 delivery status report; returns the campaign id if the SMS belonged to one
+  applyCampaignDeliveryStatus(externalId, status) {
+    try {
+      const row = this.db.prepare('SELECT id, campaign_id FROM sms_campaign_recipients WHERE external_id = ?').get(externalId);
+      if (!row) return null;
+      this.db.prepare(`
+        UPDATE sms_campaign_recipients
+        SET status = ?, error = CASE WHEN ? = 'sent' THEN NULL ELSE 'Gateway reported failure' END,
+            sent_at = CASE WHEN ? = 'sent' THEN COALESCE(sent_at, CURRENT_TIMESTAMP) ELSE sent_at END,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(status, status, status, row.id);
+      return row.campaign_id;
+    } catch (error) {
+      console.error('Error applying SMS campaign delivery status:', error.message);
+      return null;
+    }
+  }
+
+  getCampaignRecipients(campaignId, { status = null, limit = 200, offset = 0 } = {}) {
+    try {
+      const params = [campaignId];
+      let query = 'SELECT * FROM sms_campaign_recipients WHERE campaign_id = ?';
+      if (status) {
+        query += ' AND status = ?';
+        params.push(status);
+      }
+      query += ' ORDER BY position ASC LIMIT ? OFFSET ?';
+      params.push(limit, offset);
+      return this.db.prepare(query).all(...params).map(row => {
+        let mergeData = {};
+        try { mergeData = JSON.parse(row.merge_data || '{}'); } catch { mergeData = {}; }
+        return { ...row, merge_data: mergeData };
+      });
+    } catch (error) {
+      console.error('Error getting SMS campaign recipients:', error.message);
+      return [];
+    }
+  }
+
+  // A send that was in flight when the agent stopped may or may not have gone
+  // out; mark it failed rather than risk texting the customer twice.
+  failInterruptedCampaignSends() {
+    try {
+      const result = this.db.prepare(`
+        UPDATE sms_campaign_recipients
+        SET status = 'failed', error = 'Interrupted by agent restart', updated_at = CURRENT_TIMESTAMP
+        WHERE status = 'sending'
+      `).run();
+      return result.changes;
+    } catch (error) {
+      console.error('Error recovering SMS campaign sends:', error.message);
+      return 0;
+    }
+  }
+
   // Call Auto-SMS Config methods
   getCallAutoSmsConfig() {
     try {
@@ -233,6 +233,8 @@ class TG400TcpApi extends EventEmitter {
       this.handleReceivedSms(messageData);
     } else if (messageData['Event'] === 'UpdateSMS') {
       this.handleSmsStatus(messageData);
+    } else if (messageData['Event'] === 'ReceivedUSSD') {
+      this.handleUssdResponse(messageData);
     } else if (messageData['Response']) {
       this.handleCommandResponse(message);
     } else if (message.includes('--END COMMAND--')) {
@@ -309,6 +311,33 @@ class TG400TcpApi extends EventEmitter {
     }
   }
 
+  /**
+   * Handle USSD reply from the network
+   * Status follows 3GPP: 0 = done, 1 = network expects a reply, 2+ = ended/error
+   */
+  handleUssdResponse(data) {
+    this.lastActivityTime = Date.now();
+    let message = data['Message'] || '';
+    try {
+      message = decodeURIComponent(message.replace(/\+/g, ' '));
+    } catch (e) {
+      // Not URL-encoded
+    }
+
+    const gsmSpan = parseInt(data['GsmSpan']) || null;
+    const status = parseInt(data['Status']);
+    const ussd = {
+      gsmSpan,
+      port: gsmSpan ? gsmSpan - 1 : null,
+      status: isNaN(status) ? null : status,
+      sessionOpen: status === 1,
+      message,
+    };
+
+    this.logger.log('info', `USSD reply on GsmSpan ${gsmSpan} (status ${ussd.status}): ${message.substring(0, 100)}`);
+    this.emit('ussd-received', ussd);
+  }
+
   /**
    * Handle command response
    */
@@ -428,28 +457,38 @@ class TG400TcpApi extends EventEmitter {
    * Parse port status response
    */
   parsePortStatus(message, port) {
-    const lines = message.split('\r\n').filter(l => l.trim());
+    const lines = message.split(/[\r\n]+/).filter(l => l.trim());
     const status = {
       port: port,
       isUp: false,
       signalQuality: 0,
       networkName: 'Unknown',
+      networkStatus: 'Unknown',
+      registration: 'unknown',
       simStatus: 'Unknown',
       raw: message,
     };
 
     for (const line of lines) {
-      if (line.includes('Status:')) {
+      if (/^\s*Status:/i.test(line)) {
         const statusValue = line.split(':')[1]?.trim() || '';
         status.isUp = statusValue.includes('Up') || statusValue.includes('Active');
       }
       if (line.includes('Signal Quality')) {
-        const match = line.match(/\((\d+),\d+\)/);
-        if (match) status.signalQuality = parseInt(match[1]);
+        // "Signal Quality (0,31): 24" - the reading follows the colon; older
+        // firmware printed it as "(24,99)"
+        const afterColon = line.match(/:\s*(\d+)/);
+        const legacy = line.match(/\((\d+),\d+\)\s*$/);
+        if (afterColon) status.signalQuality = parseInt(afterColon[1]);
+        else if (legacy) status.signalQuality = parseInt(legacy[1]);
       }
       if (line.includes('Network Name:')) {
         status.networkName = line.split(':')[1]?.trim() || 'Unknown';
       }
+      if (line.includes('Network Status:')) {
+        status.networkStatus = line.split(':')[1]?.trim() || 'Unknown';
+        status.registration = this.parseRegistration(status.networkStatus);
+      }
       if (line.includes('SIM')) {
         status.simStatus = line.split(':')[0]?.trim() || 'Unknown';
       }
@@ -458,6 +497,23 @@ class TG400TcpApi extends EventEmitter {
     return status;
   }
 
+  /**
+   * Map the module's "Network Status" text to registered, roaming,
+   * searching, denied, unregistered or unknown
+   */
+  parseRegistration(networkStatus) {
+    const text = String(networkStatus || '').toLowerCase();
+    if (!text || text === 'unknown') return 'unknown';
+    if (text.includes('denied')) return 'denied';
+    if (text.includes('not registered') || text.includes('unregistered')) {
+      return text.includes('search') ? 'searching' : 'unregistered';
+    }
+    if (text.includes('search')) return 'searching';
+    if (text.includes('roaming')) return 'roaming';
+    if (text.includes('registered')) return 'registered';
+    return 'unknown';
+  }
+
   /**
    * Check all ports status
    */
@@ -522,24 +578,36 @@ class TG400TcpApi extends EventEmitter {
   }
 
   /**
-   * Send USSD
+   * Send USSD (a code like *144#, or a menu reply while a session is open)
+   * @param {number} port - SIM port (1-4)
+   * @returns {Promise<{gsmSpan: number, port: number, status: number, sessionOpen: boolean, message: string}>}
    */
   async sendUssd(port, code, timeout = 30) {
-    const command = `Action: SMSCommand\r\ncommand: gsm send ussd ${port + 1} "${code}" ${timeout}\r\n\r\n`;
+    const gsmSpan = port + 1;
+    const command = `Action: SMSCommand\r\ncommand: gsm send ussd ${gsmSpan} "${code}" ${timeout}\r\n\r\n`;
 
     return new Promise((resolve, reject) => {
+      // The command ack carries nothing useful; the answer arrives as a ReceivedUSSD event
+      const listener = (ussd) => {
+        if (ussd.gsmSpan !== gsmSpan) return;
+        clearTimeout(requestTimeout);
+        this.removeListener('ussd-received', listener);
+        resolve(ussd);
+      };
+
       const requestTimeout = setTimeout(() => {
+        this.removeListener('ussd-received', listener);
         reject(new Error(`USSD send timeout for port ${port}`));
       }, (timeout + 5) * 1000);
 
-      const listener = (message) => {
+      this.on('ussd-received', listener);
+      try {
+        this.sendCommand(command);
+      } catch (error) {
         clearTimeout(requestTimeout);
-        this.removeListener('command-response', listener);
-        resolve(message);
-      };
-
-      this.on('command-response', listener);
-      this.sendCommand(command);
+        this.removeListener('ussd-received', listener);
+        reject(error);
+      }
     });
   }
 
@@ -6,15 +6,18 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { useInactivityLogout } from "@/hooks/useInactivityLogout";
+import { useAuthTokenRefresh } from "@/hooks/useAuthTokenRefresh";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
+import ContactDetail from "./pages/ContactDetail";
 
 const queryClient = new QueryClient();
 
 // Wrapper component to use the inactivity logout hook
 const AppWithInactivity = () => {
   useInactivityLogout();
+  useAuthTokenRefresh();
 
   return (
     <Routes>
@@ -27,6 +30,14 @@ const AppWithInactivity = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/contacts/:phone"
+        element={
+          <ProtectedRoute>
+            <ContactDetail />
+          </ProtectedRoute>
+        }
+      />
       {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
       <Route path="*" element={<NotFound />} />
     </Routes>
@@ -1,6 +1,8 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { FileText, CheckCircle, AlertCircle, Info, XCircle } from "lucide-react";
+import { ExportMenu } from "@/components/ExportMenu";
+import { useCan } from "@/hooks/useCan";
 
 interface LogEntry {
   id: string;
@@ -15,6 +17,8 @@ interface ActivityLogProps {
 }
 
 export const ActivityLog = ({ logs, isFullPage = false }: ActivityLogProps) => {
+  const can = useCan();
+
   const getLogIcon = (level: LogEntry["level"]) => {
     switch (level) {
       case "success":
@@ -31,11 +35,14 @@ export const ActivityLog = ({ logs, isFullPage = false }: ActivityLogProps) => {
   return (
     <Card className="card-glow border-border/50 bg-card h-full">
       <CardHeader className="pb-3">
-        <div className="flex items-center gap-3">
-          <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-primary/10">
-            <FileText className="w-5 h-5 text-primary" />
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-primary/10">
+              <FileText className="w-5 h-5 text-primary" />
+            </div>
+            <CardTitle className="text-base font-semibold">Activity Log</CardTitle>
           </div>
-          <CardTitle className="text-base font-semibold">Activity Log</CardTitle>
+          {can("activity.export") && <ExportMenu dataset="activity-logs" />}
         </div>
       </CardHeader>
       <CardContent className="p-0">
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useAiAutomation, type AiRecommendation } from "@/hooks/useAiAutomation";
+import { useAiAutomation, revertableChange, type AiRecommendation } from "@/hooks/useAiAutomation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -21,6 +21,10 @@ import {
   Signal,
   Layers,
   Trash2,
+  Undo2,
+  Settings2,
+  MessageSquare,
+  Phone,
 } from "lucide-react";
 
 const categoryMeta: Record<string, { label: string; icon: React.ElementType; color: string }> = {
@@ -29,6 +33,12 @@ const categoryMeta: Record<string, { label: string; icon: React.ElementType; col
   action: { label: "Action", icon: Lightbulb, color: "bg-yellow-500/10 text-yellow-700 border-yellow-500/20" },
   resource: { label: "Resource", icon: BarChart3, color: "bg-purple-500/10 text-purple-700 border-purple-500/20" },
   performance: { label: "Performance", icon: Zap, color: "bg-orange-500/10 text-orange-700 border-orange-500/20" },
+  // Categories from the local diagnostics engine and SIM health alerts
+  config: { label: "Config", icon: Settings2, color: "bg-blue-500/10 text-blue-700 border-blue-500/20" },
+  sim: { label: "SIM Health", icon: Signal, color: "bg-red-500/10 text-red-700 border-red-500/20" },
+  sms: { label: "SMS", icon: MessageSquare, color: "bg-orange-500/10 text-orange-700 border-orange-500/20" },
+  calls: { label: "Calls", icon: Phone, color: "bg-purple-500/10 text-purple-700 border-purple-500/20" },
+  errors: { label: "Errors", icon: AlertTriangle, color: "bg-yellow-500/10 text-yellow-700 border-yellow-500/20" },
 };
 
 export function AiAutomationPanel() {
@@ -38,6 +48,7 @@ export function AiAutomationPanel() {
     runAiAction,
     applyRecommendation,
     dismissRecommendation,
+    revertRecommendation,
     clearResolved,
   } = useAiAutomation();
 
@@ -51,6 +62,7 @@ export function AiAutomationPanel() {
 
   const pendingRecs = filtered.filter(r => r.status === "pending");
   const resolvedRecs = filtered.filter(r => r.status !== "pending");
+  const hasResolved = allRecs.some(r => r.status === "resolved");
 
   const categoryCounts = allRecs.reduce<Record<string, number>>((acc, r) => {
     if (r.status === "pending") {
@@ -117,7 +129,7 @@ export function AiAutomationPanel() {
                 Review and apply AI-generated suggestions
               </CardDescription>
             </div>
-            {resolvedRecs.length > 0 && (
+            {hasResolved && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -180,7 +192,9 @@ export function AiAutomationPanel() {
                     rec={rec}
                     onApply={() => {}}
                     onDismiss={() => {}}
+                    onRevert={() => revertRecommendation.mutate(rec.id)}
                     isApplying={false}
+                    isReverting={revertRecommendation.isPending}
                     resolved
                   />
                 ))}
@@ -268,18 +282,23 @@ function RecommendationCard({
   rec,
   onApply,
   onDismiss,
+  onRevert,
   isApplying,
+  isReverting,
   resolved,
 }: {
   rec: AiRecommendation;
   onApply: () => void;
   onDismiss: () => void;
+  onRevert?: () => void;
   isApplying: boolean;
+  isReverting?: boolean;
   resolved?: boolean;
 }) {
   const meta = categoryMeta[rec.category] || categoryMeta.action;
   const Icon = meta.icon;
-  const priority = (rec.details as Record<string, string>)?.priority;
+  const priority = rec.details?.priority;
+  const change = revertableChange(rec);
 
   return (
     <div
@@ -314,13 +333,36 @@ function RecommendationCard({
             )}
             {rec.status === "dismissed" && (
               <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-muted-foreground">
-                Dismissed
+                {rec.details?.applied_change?.reverted_at ? "Reverted" : "Dismissed"}
+              </Badge>
+            )}
+            {rec.status === "resolved" && (
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-muted-foreground">
+                Resolved
               </Badge>
             )}
           </div>
           <p className="text-xs text-muted-foreground line-clamp-2">{rec.description}</p>
+          {change && (
+            <p className="text-[11px] text-muted-foreground mt-1 font-mono">
+              {change.config}: {String(change.from)} → {String(change.to)}
+            </p>
+          )}
         </div>
 
+        {resolved && change && onRevert && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 gap-1 px-2 shrink-0"
+            onClick={onRevert}
+            disabled={isReverting}
+          >
+            {isReverting ? <RefreshCw className="h-3 w-3 animate-spin" /> : <Undo2 className="h-3 w-3" />}
+            Revert
+          </Button>
+        )}
+
         {!resolved && (
           <div className="flex items-center gap-1 shrink-0">
             <Button
@@ -1,59 +1,42 @@
 import { useAgentConfig } from "@/hooks/useAgentConfig";
+import { useCan } from "@/hooks/useCan";
+import { LlmProviderSettings } from "@/components/LlmProviderSettings";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
 import { Brain, RefreshCw, Settings, Sparkles } from "lucide-react";
 import { format } from "date-fns";
 import { useState } from "react";
 
-const configLabels: Record<string, { label: string; description: string; unit?: string }> = {
-  poll_interval: { 
-    label: "SMS Poll Interval", 
-    description: "How often to check for new SMS messages",
-    unit: "ms"
-  },
-  heartbeat_interval: { 
-    label: "Heartbeat Interval", 
-    description: "How often the agent reports its status",
-    unit: "ms"
-  },
-  cdr_poll_interval: { 
-    label: "CDR Poll Interval", 
-    description: "How often to check for new call records",
-    unit: "ms"
-  },
-  retry_backoff_multiplier: { 
-    label: "Retry Backoff", 
-    description: "Multiplier for exponential backoff on failures"
-  },
-  max_retries: { 
-    label: "Max Retries", 
-    description: "Maximum retry attempts before giving up"
-  },
-  auto_restart_on_crash: { 
-    label: "Auto-Restart", 
-    description: "Automatically restart agent after crashes"
-  },
+const configLabels: Record<string, string> = {
+  pbx_sync_interval_seconds: "PBX Call Sync Interval",
+  port_poll_interval_seconds: "Port Status Poll Interval",
+  poll_interval_seconds: "Live Call Poll Interval",
+  heartbeat_interval_seconds: "Heartbeat Interval",
+  missed_call_threshold_minutes: "Missed Call Alert Window",
+  sms_max_attempts: "SMS Send Attempts",
+  campaign_span_max_failures: "Campaign SIM Failure Limit",
+  auto_reply_enabled: "Auto-Reply",
 };
 
 export const AiConfigPanel = () => {
   const { data: configs, isLoading, updateConfig, triggerAiTuning } = useAgentConfig();
-  const [pendingChanges, setPendingChanges] = useState<Record<string, unknown>>({});
+  const can = useCan();
+  const [pendingChanges, setPendingChanges] = useState<Record<string, number>>({});
 
-  const handleSliderChange = (key: string, value: number[], config: typeof configs extends (infer T)[] ? T : never) => {
-    const newValue = { ...config.config_value, value: value[0] };
-    setPendingChanges(prev => ({ ...prev, [key]: newValue }));
+  const handleSliderChange = (key: string, value: number[]) => {
+    setPendingChanges(prev => ({ ...prev, [key]: value[0] }));
   };
 
   const handleSwitchChange = (key: string, checked: boolean) => {
-    const newValue = { enabled: checked };
-    updateConfig.mutate({ key, value: newValue });
+    updateConfig.mutate({ key, value: checked });
   };
 
   const handleSave = (key: string) => {
-    if (pendingChanges[key]) {
+    if (pendingChanges[key] !== undefined) {
       updateConfig.mutate({ key, value: pendingChanges[key] });
       setPendingChanges(prev => {
         const next = { ...prev };
@@ -93,7 +76,7 @@ export const AiConfigPanel = () => {
               Agent Configuration
             </CardTitle>
             <CardDescription>
-              AI-optimized settings for the local polling agent
+              Live settings for the local agent, applied without a restart
             </CardDescription>
           </div>
           <Button 
@@ -112,20 +95,17 @@ export const AiConfigPanel = () => {
       </CardHeader>
       <CardContent className="space-y-6">
         {configs?.map((config) => {
-          const meta = configLabels[config.config_key] || { 
-            label: config.config_key, 
-            description: "" 
-          };
-          const isSlider = config.config_value.min !== undefined;
-          const isSwitch = config.config_value.enabled !== undefined;
-          const pendingValue = pendingChanges[config.config_key] as typeof config.config_value | undefined;
-          const displayValue = pendingValue?.value ?? config.config_value.value;
+          const label = configLabels[config.key] || config.key;
+          const isSlider = config.type === "number" && config.min !== undefined && config.max !== undefined;
+          const isSwitch = config.type === "boolean";
+          const pendingValue = pendingChanges[config.key];
+          const displayValue = pendingValue ?? (config.value as number);
 
           return (
-            <div key={config.id} className="space-y-2">
+            <div key={config.key} className="space-y-2">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
-                  <span className="font-medium">{meta.label}</span>
+                  <span className="font-medium">{label}</span>
                   {config.ai_tuned && (
                     <Badge variant="secondary" className="text-xs">
                       <Brain className="h-3 w-3 mr-1" />
@@ -135,32 +115,32 @@ export const AiConfigPanel = () => {
                 </div>
                 {isSlider && (
                   <span className="text-sm text-muted-foreground">
-                    {displayValue?.toLocaleString()}{meta.unit ? ` ${meta.unit}` : ''}
+                    {displayValue.toLocaleString()}{config.unit ? ` ${config.unit}` : ''}
                   </span>
                 )}
               </div>
               
-              <p className="text-xs text-muted-foreground">{meta.description}</p>
+              <p className="text-xs text-muted-foreground">{config.description}</p>
               
-              {isSlider && config.config_value.min !== undefined && config.config_value.max !== undefined && (
+              {isSlider && (
                 <div className="flex items-center gap-4">
                   <div className="flex-1">
                     <Slider
-                      value={[displayValue ?? 0]}
-                      min={config.config_value.min}
-                      max={config.config_value.max}
-                      step={config.config_value.min < 10 ? 0.1 : 1000}
-                      onValueChange={(v) => handleSliderChange(config.config_key, v, config)}
+                      value={[displayValue]}
+                      min={config.min}
+                      max={config.max}
+                      step={1}
+                      onValueChange={(v) => handleSliderChange(config.key, v)}
                     />
                     <div className="flex justify-between text-xs text-muted-foreground mt-1">
-                      <span>{config.config_value.min.toLocaleString()}</span>
-                      <span>{config.config_value.max.toLocaleString()}</span>
+                      <span>{config.min.toLocaleString()}</span>
+                      <span>{config.max.toLocaleString()}</span>
                     </div>
                   </div>
-                  {pendingChanges[config.config_key] && (
+                  {pendingValue !== undefined && pendingValue !== config.value && (
                     <Button 
                       size="sm" 
-                      onClick={() => handleSave(config.config_key)}
+                      onClick={() => handleSave(config.key)}
                       disabled={updateConfig.isPending}
                     >
                       Save
@@ -171,19 +151,27 @@ export const AiConfigPanel = () => {
               
               {isSwitch && (
                 <Switch
-                  checked={config.config_value.enabled}
-                  onCheckedChange={(checked) => handleSwitchChange(config.config_key, checked)}
+                  checked={config.value === true}
+                  onCheckedChange={(checked) => handleSwitchChange(config.key, checked)}
+                  disabled={updateConfig.isPending}
                 />
               )}
 
-              {config.last_tuned_at && (
+              {config.updated_at && (
                 <p className="text-xs text-muted-foreground">
-                  Last tuned: {format(new Date(config.last_tuned_at), "MMM d, yyyy HH:mm")}
+                  {config.ai_tuned ? "Last tuned" : "Last changed"}: {format(new Date(config.updated_at), "MMM d, yyyy HH:mm")}
                 </p>
               )}
             </div>
           );
         })}
+
+        {can("ai.manage") && (
+          <>
+            <Separator />
+            <LlmProviderSettings />
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -4,21 +4,27 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Trash2, RefreshCw, Eye, EyeOff, Lock } from "lucide-react";
+import { Trash2, RefreshCw, Eye, EyeOff, Lock, Tags, Loader2 } from "lucide-react";
 import { useQueryClient } from "@tanstack/react-query";
-import { useSmsMessages } from "@/hooks/useSmsMessages";
-import { useAuth } from "@/hooks/useAuth";
+import { useSmsMessages, useCategorizeMessages, useSmsReclassifyJob } from "@/hooks/useSmsMessages";
+import { useCan } from "@/hooks/useCan";
 import { useUserPermissions } from "@/hooks/useUserPermissions";
 import { SmsFilters, SmsFiltersState } from "./SmsFilters";
 import { SentSmsPanel } from "./SentSmsPanel";
+import { SmsConversationsPanel } from "./SmsConversationsPanel";
+import { SmsCategoryPicker } from "./SmsCategoryBadge";
 import { toast } from "sonner";
 import { usePortLabels, getPortLabel } from "@/hooks/usePortLabels";
+import { ALL_SEGMENTS } from "./SegmentSelect";
+import { ExportMenu } from "./ExportMenu";
+import { format } from "date-fns";
 
 const initialFilters: SmsFiltersState = {
   search: "",
   simPort: "all",
   status: "all",
   category: "all",
+  segment: ALL_SEGMENTS,
   dateFrom: undefined,
   dateTo: undefined,
 };
@@ -28,18 +34,23 @@ export const AllSmsPanel: React.FC = () => {
   const [readFilter, setReadFilter] = useState<'all' | 'unread' | 'read'>('all');
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const queryClient = useQueryClient();
-  const { data: messages = [], isLoading } = useSmsMessages(1000, 'received');
-  const { role, isAdmin } = useAuth();
+  const segmentId = filters.segment === ALL_SEGMENTS ? undefined : filters.segment;
+  const { data: messages = [], isLoading } = useSmsMessages(1000, 'received', segmentId);
+  const can = useCan();
   const { data: permissions } = useUserPermissions();
-  const canDelete = role === 'super_admin';
-  const isViewer = role === 'viewer';
+  const canDelete = can('sms.delete');
+  const canCorrectCategory = can('sms.manage');
+  const canReclassify = can('sms.reclassify');
+  const categorize = useCategorizeMessages();
+  const { job: reclassifyJob, start: startReclassify } = useSmsReclassifyJob(canReclassify);
+  const isReclassifying = reclassifyJob?.status === 'running' || startReclassify.isPending;
   const apiUrl = import.meta.env.VITE_API_URL;
   const token = localStorage.getItem('authToken');
   const { data: portLabels } = usePortLabels();
 
-  // Function to truncate message content for non-admin users
+  // Function to truncate message content without sms.view_full
   const getTruncatedContent = (content: string): string => {
-    if (isAdmin) return content;
+    if (can('sms.view_full')) return content;
     const sensitiveMarker = "New Utility balance";
     const index = content.indexOf(sensitiveMarker);
     if (index !== -1) {
@@ -202,7 +213,7 @@ export const AllSmsPanel: React.FC = () => {
             onFiltersChange={setFilters}
             simPorts={simPorts}
             portLabels={portLabels}
-            isViewer={isViewer}
+            canFilter={can('data.filter')}
           />
         </CardHeader>
       </Card>
@@ -210,9 +221,10 @@ export const AllSmsPanel: React.FC = () => {
       {/* Messages Tabs */}
       <Tabs defaultValue="received" className="w-full">
         <div className="mb-4">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="received">Received SMS</TabsTrigger>
             <TabsTrigger value="sent">Sent SMS</TabsTrigger>
+            <TabsTrigger value="conversations">Conversations</TabsTrigger>
           </TabsList>
         </div>
 
@@ -228,9 +240,42 @@ export const AllSmsPanel: React.FC = () => {
                 {filteredMessages.length !== messages.length && ` / ${messages.length}`} messages
               </p>
             </div>
-            <Button variant="ghost" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey: ["sms-messages"] })} className="shrink-0">
-              <RefreshCw className="w-4 h-4" />
-            </Button>
+            <div className="flex items-center gap-2 shrink-0">
+              {canReclassify && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => startReclassify.mutate()}
+                  disabled={isReclassifying}
+                  className="gap-2"
+                  title="Re-run the classifier over all received messages"
+                >
+                  {isReclassifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Tags className="w-4 h-4" />}
+                  {reclassifyJob?.status === 'running'
+                    ? `Re-classifying ${reclassifyJob.processed}/${reclassifyJob.total}`
+                    : 'Re-classify'}
+                </Button>
+              )}
+              {can('sms.export') && (
+                <ExportMenu
+                  dataset="sms"
+                  filters={{
+                    direction: "received",
+                    sim_port: filters.simPort,
+                    status: filters.status,
+                    read: readFilter,
+                    category: filters.category,
+                    q: filters.search.trim(),
+                    segment_id: segmentId,
+                  }}
+                  from={filters.dateFrom ? format(filters.dateFrom, "yyyy-MM-dd") : ""}
+                  to={filters.dateTo ? format(filters.dateTo, "yyyy-MM-dd") : ""}
+                />
+              )}
+              <Button variant="ghost" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey: ["sms-messages"] })}>
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+            </div>
           </div>
 
           {/* Read/Unread Filter Tabs */}
@@ -285,7 +330,16 @@ export const AllSmsPanel: React.FC = () => {
                       </div>
                     </div>
 
-                    {m.isNew && <span className="inline-block w-2 h-2 bg-primary rounded-full" />}
+                    <div className="flex items-center gap-2">
+                      {m.isNew && <span className="inline-block w-2 h-2 bg-primary rounded-full" />}
+                      <SmsCategoryPicker
+                        category={m.category}
+                        confidence={m.categoryConfidence}
+                        showConfidence={m.categoryConfidence !== undefined}
+                        disabled={!canCorrectCategory}
+                        onChange={(category) => categorize.mutate({ messageId: m.id, category })}
+                      />
+                    </div>
 
                     <p className={`text-sm mt-2 line-clamp-2 ${m.isNew ? 'text-foreground font-medium' : 'text-muted-foreground'}`}>{getTruncatedContent(m.content)}</p>
                   </div>
@@ -306,6 +360,10 @@ export const AllSmsPanel: React.FC = () => {
         <TabsContent value="sent" className="space-y-0">
           <SentSmsPanel />
         </TabsContent>
+
+        <TabsContent value="conversations" className="space-y-0">
+          <SmsConversationsPanel />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -19,14 +19,21 @@ import {
   Area,
 } from "recharts";
 import { BarChart3, PieChartIcon, Clock, TrendingUp, MessageSquare, Zap, Phone, X } from "lucide-react";
-import { useAnalytics } from "@/hooks/useAnalytics";
+import { format } from "date-fns";
+import { useAnalytics, AnalyticsBucket } from "@/hooks/useAnalytics";
 import { usePortLabels, getPortLabel } from "@/hooks/usePortLabels";
 import { useExtensions } from "@/hooks/useExtensions";
-import { useAuth } from "@/hooks/useAuth";
+import { useCan } from "@/hooks/useCan";
 import { useUserPermissions } from "@/hooks/useUserPermissions";
 
 const COLORS = ["hsl(var(--primary))", "hsl(var(--chart-2))", "hsl(var(--chart-3))", "hsl(var(--chart-4))"];
 
+const BUCKET_OPTIONS: { value: AnalyticsBucket; label: string; title: string }[] = [
+  { value: "day", label: "Day", title: "Messages per Day" },
+  { value: "week", label: "Week", title: "Messages per Week" },
+  { value: "month", label: "Month", title: "Messages per Month" },
+];
+
 interface AnalyticsDashboardProps {
   dateFrom?: Date;
   dateTo?: Date;
@@ -36,26 +43,27 @@ interface AnalyticsDashboardProps {
 export const AnalyticsDashboard = ({ dateFrom: initialDateFrom, dateTo: initialDateTo, onDateChange }: AnalyticsDashboardProps) => {
   const [dateFrom, setDateFrom] = useState<Date | undefined>(initialDateFrom);
   const [dateTo, setDateTo] = useState<Date | undefined>(initialDateTo);
-  const { data: analytics, isLoading } = useAnalytics(7, dateFrom, dateTo);
+  const [bucket, setBucket] = useState<AnalyticsBucket>("day");
+  const { data: analytics, isLoading } = useAnalytics(7, dateFrom, dateTo, bucket);
   const { data: portLabels } = usePortLabels();
   const { getUsername } = useExtensions();
-  const { role } = useAuth();
+  const can = useCan();
   const { data: permissions } = useUserPermissions();
-  const isViewer = role === "viewer";
+  const restricted = !can("data.unrestricted");
   const viewerPorts = permissions?.ports ?? [];
   const viewerExtensions = permissions?.extensions ?? [];
 
   const visibleExtensionBreakdown = useMemo(() => {
     const all = analytics?.extensionBreakdown ?? [];
-    if (isViewer && viewerExtensions.length > 0) return all.filter(e => viewerExtensions.includes(e.extension));
+    if (restricted && viewerExtensions.length > 0) return all.filter(e => viewerExtensions.includes(e.extension));
     return all;
-  }, [analytics?.extensionBreakdown, isViewer, viewerExtensions]);
+  }, [analytics?.extensionBreakdown, restricted, viewerExtensions]);
 
   const visiblePortActivity = useMemo(() => {
     const all = analytics?.portActivity ?? [];
-    if (isViewer && viewerPorts.length > 0) return all.filter(p => viewerPorts.includes(p.port));
+    if (restricted && viewerPorts.length > 0) return all.filter(p => viewerPorts.includes(p.port));
     return all;
-  }, [analytics?.portActivity, isViewer, viewerPorts]);
+  }, [analytics?.portActivity, restricted, viewerPorts]);
 
   const handleResetDates = () => {
     setDateFrom(undefined);
@@ -129,7 +137,7 @@ export const AnalyticsDashboard = ({ dateFrom: initialDateFrom, dateTo: initialD
               <label className="text-xs text-muted-foreground">From:</label>
               <Input 
                 type="date" 
-                value={dateFrom ? dateFrom.toISOString().split('T')[0] : ''} 
+                value={dateFrom ? format(dateFrom, 'yyyy-MM-dd') : ''} 
                 onChange={(e) => {
                   const date = e.target.value ? new Date(e.target.value + 'T00:00:00') : undefined;
                   setDateFrom(date);
@@ -141,7 +149,7 @@ export const AnalyticsDashboard = ({ dateFrom: initialDateFrom, dateTo: initialD
               <label className="text-xs text-muted-foreground">To:</label>
               <Input 
                 type="date" 
-                value={dateTo ? dateTo.toISOString().split('T')[0] : ''} 
+                value={dateTo ? format(dateTo, 'yyyy-MM-dd') : ''} 
                 onChange={(e) => {
                   const date = e.target.value ? new Date(e.target.value + 'T00:00:00') : undefined;
                   setDateTo(date);
@@ -233,7 +241,22 @@ export const AnalyticsDashboard = ({ dateFrom: initialDateFrom, dateTo: initialD
               <div className="flex items-center justify-center w-8 h-8 rounded-lg bg-primary/10">
                 <BarChart3 className="w-4 h-4 text-primary" />
               </div>
-              <CardTitle className="text-sm font-semibold">Messages per Day</CardTitle>
+              <CardTitle className="text-sm font-semibold">
+                {BUCKET_OPTIONS.find((o) => o.value === bucket)?.title}
+              </CardTitle>
+              <div className="flex gap-1 ml-auto">
+                {BUCKET_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    size="sm"
+                    variant={bucket === option.value ? "secondary" : "ghost"}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setBucket(option.value)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
             </div>
           </CardHeader>
           <CardContent>
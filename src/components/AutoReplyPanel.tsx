@@ -51,7 +51,7 @@ export const AutoReplyPanel = () => {
             <div>
               <CardTitle className="text-base font-semibold">Auto-Reply SMS</CardTitle>
               <p className="text-xs text-muted-foreground mt-0.5">
-                Automatically reply to incoming SMS on all SIM ports
+                Reply to incoming SMS that no keyword rule answered
               </p>
             </div>
           </div>
@@ -78,7 +78,7 @@ export const AutoReplyPanel = () => {
         >
           <Info className="w-3.5 h-3.5 mt-0.5 shrink-0" />
           {enabled
-            ? "Auto-reply is active. Incoming SMS on all SIM ports will receive the message below."
+            ? "Auto-reply is active. Incoming SMS that don't match a keyword rule will receive the message below."
             : "Auto-reply is disabled. Toggle above to activate."}
         </div>
 
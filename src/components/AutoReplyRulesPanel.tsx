@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListOrdered, Plus, Pencil, Trash2, ArrowUp, ArrowDown, Loader2, FlaskConical, Clock } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useGsmSpanConfig } from "@/hooks/useGsmSpanConfig";
+import { useSmsTemplates } from "@/hooks/useSmsTemplates";
+import {
+  AutoReplyRule,
+  AutoReplyRuleInput,
+  useAutoReplyRules,
+  useSaveAutoReplyRule,
+  useToggleAutoReplyRule,
+  useDeleteAutoReplyRule,
+  useReorderAutoReplyRules,
+  useTestAutoReplyRules,
+} from "@/hooks/useAutoReplyRules";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const CUSTOM_MESSAGE = "custom";
+
+const emptyRule: AutoReplyRuleInput = {
+  name: "",
+  enabled: true,
+  match_type: "keyword",
+  pattern: "",
+  case_sensitive: false,
+  reply_message: "",
+  template_id: null,
+  gsm_spans: [],
+  active_days: [],
+  active_from: null,
+  active_to: null,
+  cooldown_minutes: 60,
+};
+
+const matchLabel: Record<AutoReplyRule["match_type"], string> = {
+  keyword: "First word",
+  exact: "Exact",
+  regex: "Regex",
+};
+
+export const AutoReplyRulesPanel = () => {
+  const { data: rules = [], isLoading } = useAutoReplyRules();
+  const { gsmSpans } = useGsmSpanConfig();
+  const { templates = [] } = useSmsTemplates();
+  const saveRule = useSaveAutoReplyRule();
+  const toggleRule = useToggleAutoReplyRule();
+  const deleteRule = useDeleteAutoReplyRule();
+  const reorderRules = useReorderAutoReplyRules();
+  const testRules = useTestAutoReplyRules();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AutoReplyRuleInput | null>(null);
+  const [testMessage, setTestMessage] = useState("");
+  const [testSpan, setTestSpan] = useState("2");
+
+  const openEditor = (rule?: AutoReplyRule) => {
+    setEditingId(rule?.id ?? null);
+    setDraft(
+      rule
+        ? {
+            name: rule.name,
+            enabled: rule.enabled,
+            match_type: rule.match_type,
+            pattern: rule.pattern,
+            case_sensitive: rule.case_sensitive,
+            reply_message: rule.reply_message,
+            template_id: rule.template_id,
+            gsm_spans: rule.gsm_spans,
+            active_days: rule.active_days,
+            active_from: rule.active_from,
+            active_to: rule.active_to,
+            cooldown_minutes: rule.cooldown_minutes,
+          }
+        : { ...emptyRule }
+    );
+  };
+
+  const update = (patch: Partial<AutoReplyRuleInput>) => setDraft((d) => (d ? { ...d, ...patch } : d));
+
+  const toggleIn = (list: number[], value: number) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value].sort((a, b) => a - b);
+
+  const handleSave = () => {
+    if (!draft) return;
+    saveRule.mutate(
+      { id: editingId ?? undefined, rule: draft },
+      {
+        onSuccess: () => {
+          toast.success(editingId ? "Rule updated" : "Rule created");
+          setDraft(null);
+        },
+        onError: (err) => toast.error(err.message),
+      }
+    );
+  };
+
+  const move = (index: number, offset: number) => {
+    const ids = rules.map((r) => r.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderRules.mutate(ids, { onError: (err) => toast.error(err.message) });
+  };
+
+  const handleDelete = (rule: AutoReplyRule) => {
+    deleteRule.mutate(rule.id, {
+      onSuccess: () => toast.success(`Rule "${rule.name}" deleted`),
+      onError: (err) => toast.error(err.message),
+    });
+  };
+
+  const handleTest = () => {
+    if (!testMessage.trim()) return;
+    testRules.mutate(
+      { message: testMessage, gsm_span: parseInt(testSpan) },
+      { onError: (err) => toast.error(err.message) }
+    );
+  };
+
+  const spanName = (gsmSpan: number) =>
+    gsmSpans.find((s) => s.gsm_span === gsmSpan)?.name || `Port ${gsmSpan - 1}`;
+
+  const describeWindow = (rule: AutoReplyRule) => {
+    const days = rule.active_days.length > 0 ? rule.active_days.map((d) => WEEKDAYS[d]).join(", ") : null;
+    const hours = rule.active_from && rule.active_to ? `${rule.active_from}–${rule.active_to}` : null;
+    if (!days && !hours) return null;
+    return [days, hours].filter(Boolean).join(" · ");
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-64 rounded-lg" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="bg-gradient-to-r from-emerald-500/10 to-teal-500/10 border-b">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <ListOrdered className="w-5 h-5 text-emerald-600" />
+            <div>
+              <CardTitle>Keyword Auto-Reply Rules</CardTitle>
+              <CardDescription>
+                Answer structured keywords from the SIM they arrive on. Rules run top to bottom; the first match replies
+                and the generic auto-reply is skipped.
+              </CardDescription>
+            </div>
+          </div>
+          <Button onClick={() => openEditor()} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No rules yet. Add one to reply to keywords like BALANCE or HELP.
+          </p>
+        ) : (
+          <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+            {rules.map((rule, index) => {
+              const schedule = describeWindow(rule);
+              return (
+                <div key={rule.id} className={cn("flex items-center gap-3 p-3", !rule.enabled && "opacity-60")}>
+                  <div className="flex flex-col">
+                    <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === 0} onClick={() => move(index, -1)}>
+                      <ArrowUp className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      disabled={index === rules.length - 1}
+                      onClick={() => move(index, 1)}
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </Button>
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-sm">{rule.name}</span>
+                      <Badge variant="outline" className="text-xs">{matchLabel[rule.match_type]}</Badge>
+                      <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{rule.pattern}</code>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {rule.template_name ? `Template: ${rule.template_name}` : rule.reply_message}
+                    </p>
+                    <div className="flex items-center gap-2 flex-wrap text-[11px] text-muted-foreground">
+                      <span>{rule.gsm_spans.length > 0 ? rule.gsm_spans.map(spanName).join(", ") : "All ports"}</span>
+                      {schedule && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {schedule}
+                        </span>
+                      )}
+                      <span>· cooldown {rule.cooldown_minutes} min</span>
+                      <span>· {rule.match_count} matches</span>
+                    </div>
+                  </div>
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(enabled) =>
+                      toggleRule.mutate({ id: rule.id, enabled }, { onError: (err) => toast.error(err.message) })
+                    }
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(rule)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(rule)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Dry run */}
+        <div className="p-4 rounded-lg bg-muted/30 border border-border/30 space-y-3">
+          <div className="flex items-center gap-2">
+            <FlaskConical className="w-4 h-4 text-muted-foreground" />
+            <Label className="text-sm font-medium">Test a message</Label>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <Input
+              value={testMessage}
+              onChange={(e) => setTestMessage(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleTest()}
+              placeholder="e.g. BALANCE 12345"
+              className="flex-1 min-w-[200px]"
+            />
+            <Select value={testSpan} onValueChange={setTestSpan}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[2, 3, 4, 5].map((span) => (
+                  <SelectItem key={span} value={String(span)}>{spanName(span)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleTest} disabled={testRules.isPending || !testMessage.trim()}>
+              {testRules.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Test"}
+            </Button>
+          </div>
+          {testRules.isSuccess && (
+            <p className="text-xs text-muted-foreground">
+              {testRules.data
+                ? <>Matches <strong>{testRules.data.rule_name}</strong> → “{testRules.data.reply}”</>
+                : "No rule matches — the generic auto-reply would answer, if enabled."}
+            </p>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Rule" : "New Rule"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="Balance enquiry" />
+              </div>
+
+              <div className="grid grid-cols-[140px_1fr] gap-2">
+                <div className="space-y-2">
+                  <Label>Match</Label>
+                  <Select value={draft.match_type} onValueChange={(v) => update({ match_type: v as AutoReplyRule["match_type"] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="keyword">First word</SelectItem>
+                      <SelectItem value="exact">Exact text</SelectItem>
+                      <SelectItem value="regex">Regex</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Pattern</Label>
+                  <Input
+                    value={draft.pattern}
+                    onChange={(e) => update({ pattern: e.target.value })}
+                    placeholder={draft.match_type === "regex" ? "^PIN\\s+(\\d{4})$" : "BALANCE"}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch checked={draft.case_sensitive} onCheckedChange={(v) => update({ case_sensitive: v })} />
+                <Label className="text-sm font-normal">Case sensitive</Label>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Reply</Label>
+                <Select
+                  value={draft.template_id || CUSTOM_MESSAGE}
+                  onValueChange={(v) => update({ template_id: v === CUSTOM_MESSAGE ? null : v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CUSTOM_MESSAGE}>Custom message</SelectItem>
+                    {templates.filter((t) => t.active).map((t) => (
+                      <SelectItem key={t.id} value={t.id}>Template: {t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!draft.template_id && (
+                  <Textarea
+                    value={draft.reply_message || ""}
+                    onChange={(e) => update({ reply_message: e.target.value })}
+                    rows={3}
+                    placeholder="Your balance request for {args} has been received."
+                    className="resize-none"
+                  />
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Placeholders: {"{sender}"}, {"{message}"}, {"{args}"} (text after the keyword), {"{1}"}, {"{2}"}… (regex groups)
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Ports</Label>
+                <div className="flex gap-3 flex-wrap">
+                  {[2, 3, 4, 5].map((span) => (
+                    <label key={span} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.gsm_spans.includes(span)}
+                        onCheckedChange={() => update({ gsm_spans: toggleIn(draft.gsm_spans, span) })}
+                      />
+                      {spanName(span)}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">None selected = all ports</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Active days</Label>
+                <div className="flex gap-1 flex-wrap">
+                  {WEEKDAYS.map((day, index) => (
+                    <Button
+                      key={day}
+                      type="button"
+                      size="sm"
+                      variant={draft.active_days.includes(index) ? "default" : "outline"}
+                      className="h-7 px-2 text-xs"
+                      onClick={() => update({ active_days: toggleIn(draft.active_days, index) })}
+                    >
+                      {day}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">None selected = every day</p>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Input type="time" value={draft.active_from || ""} onChange={(e) => update({ active_from: e.target.value || null })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  <Input type="time" value={draft.active_to || ""} onChange={(e) => update({ active_to: e.target.value || null })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Cooldown (min)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.cooldown_minutes}
+                    onChange={(e) => update({ cooldown_minutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave times empty to answer around the clock. A window like 18:00–08:00 wraps past midnight. Cooldown is per
+                sender.
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saveRule.isPending} className="gap-2">
+              {saveRule.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AutoReplyRulesPanel;
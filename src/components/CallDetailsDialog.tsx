@@ -0,0 +1,132 @@
+import { useState, ReactNode } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, PlayCircle, Download, AlertCircle } from "lucide-react";
+import { CallRecord } from "@/hooks/useCallRecords";
+import { useCallRecording } from "@/hooks/useCallRecording";
+import { formatDateNairobi } from "@/lib/dateUtils";
+
+interface CallDetailsDialogProps {
+  call: CallRecord | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDuration = (seconds: number): string => {
+  if (!seconds) return "—";
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
+};
+
+const DetailRow = ({ label, value }: { label: string; value: ReactNode }) => (
+  <div className="flex justify-between gap-4 py-1.5 border-b border-border/30 last:border-0">
+    <span className="text-xs text-muted-foreground">{label}</span>
+    <span className="text-sm font-medium text-right">{value}</span>
+  </div>
+);
+
+const RecordingPlayer = ({ call }: { call: CallRecord }) => {
+  // The first load pulls the file from the PBX, so wait for an explicit click
+  const [requested, setRequested] = useState(false);
+  const { data: recording, isLoading, error } = useCallRecording(call.id, requested);
+
+  if (!call.recording_url) {
+    return <p className="text-sm text-muted-foreground">No recording for this call.</p>;
+  }
+
+  if (!requested) {
+    return (
+      <Button size="sm" variant="outline" className="gap-2" onClick={() => setRequested(true)}>
+        <PlayCircle className="w-4 h-4" />
+        Load recording
+      </Button>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Fetching recording from the PBX...
+      </div>
+    );
+  }
+
+  if (error || !recording) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-destructive">
+        <AlertCircle className="w-4 h-4" />
+        {error instanceof Error ? error.message : "Recording unavailable"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <audio controls autoPlay preload="metadata" src={recording.url} className="w-full" />
+      <div className="flex justify-between items-center text-xs text-muted-foreground">
+        <span>{(recording.size_bytes / 1024 / 1024).toFixed(2)} MB</span>
+        <a href={recording.url} download className="inline-flex items-center gap-1 hover:text-foreground">
+          <Download className="w-3 h-3" />
+          Download
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export const CallDetailsDialog = ({ call, onOpenChange }: CallDetailsDialogProps) => {
+  return (
+    <Dialog open={!!call} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        {call && (
+          <>
+            <DialogHeader>
+              <DialogTitle>Call Details</DialogTitle>
+              <DialogDescription>
+                {call.caller_number} → {call.callee_number}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div>
+              <DetailRow label="Time" value={formatDateNairobi(call.start_time)} />
+              <DetailRow
+                label="Direction"
+                value={<Badge variant={call.direction === "inbound" ? "default" : "secondary"}>{call.direction}</Badge>}
+              />
+              <DetailRow
+                label="Status"
+                value={<Badge variant={call.status === "answered" ? "default" : "destructive"}>{call.status}</Badge>}
+              />
+              <DetailRow
+                label="From"
+                value={call.caller_extension_username ? `${call.caller_number} (${call.caller_extension_username})` : call.caller_number}
+              />
+              <DetailRow
+                label="To"
+                value={call.callee_extension_username ? `${call.callee_number} (${call.callee_extension_username})` : call.callee_number}
+              />
+              {call.extension && <DetailRow label="Extension" value={call.extension} />}
+              {call.sim_port && <DetailRow label="SIM Port" value={call.sim_port} />}
+              <DetailRow label="Ring" value={formatDuration(call.ring_duration)} />
+              <DetailRow label="Talk" value={formatDuration(call.talk_duration)} />
+              {call.notes && <DetailRow label="Notes" value={call.notes} />}
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">Recording</h4>
+              <RecordingPlayer key={call.id} call={call} />
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,9 +2,9 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Phone, Clock, CheckCircle2, XCircle, Loader2, X } from "lucide-react";
-import { useCallQueue, type CallQueueItem } from "@/hooks/useCallQueue";
-import { formatDistanceToNow } from "date-fns";
+import { useCallQueue, useCancelQueuedCall, type CallQueueItem } from "@/hooks/useCallQueue";
 import { formatDateNairobi } from "@/lib/dateUtils";
+import { toast } from "sonner";
 
 const statusConfig: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline"; icon: React.ElementType }> = {
   pending: { label: "Pending", variant: "outline", icon: Clock },
@@ -17,6 +17,11 @@ const statusConfig: Record<string, { label: string; variant: "default" | "second
 const CallQueueItem = ({ item }: { item: CallQueueItem }) => {
   const config = statusConfig[item.status] || statusConfig.pending;
   const Icon = config.icon;
+  const { mutate: cancel, isPending: isCancelling } = useCancelQueuedCall();
+
+  const cancelCall = (id: string) => {
+    cancel(id, { onError: (error: Error) => toast.error(error.message || "Failed to cancel call") });
+  };
 
   return (
     <div className="flex items-center justify-between py-2 border-b last:border-0">
@@ -25,10 +30,19 @@ const CallQueueItem = ({ item }: { item: CallQueueItem }) => {
           <span className="font-medium">{item.to_number}</span>
           <span className="text-xs text-muted-foreground">
             From: {item.from_extension} • {formatDateNairobi(item.requested_at)}
+            {item.metadata?.source === "missed_call" && " • Callback"}
           </span>
+          {item.status === "failed" && item.error_message && (
+            <span className="text-xs text-destructive">{item.error_message}</span>
+          )}
         </div>
       </div>
       <div className="flex items-center gap-2">
+        {item.priority > 0 && (item.status === "pending" || item.status === "in_progress") && (
+          <Badge variant="outline" className="text-xs">
+            {item.priority >= 10 ? "Urgent" : "High"}
+          </Badge>
+        )}
         <Badge variant={config.variant} className="gap-1">
           <Icon className={`h-3 w-3 ${item.status === "in_progress" ? "animate-spin" : ""}`} />
           {config.label}
@@ -6,11 +6,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { Phone, Search, Clock, Timer, ChevronLeft, ChevronRight } from "lucide-react";
+import { Phone, Search, Clock, Timer, ChevronLeft, ChevronRight, Mic } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { CallRecord } from "@/hooks/useCallRecords";
 import { useExtensions } from "@/hooks/useExtensions";
 import { formatDateNairobi } from "@/lib/dateUtils";
+import { CallDetailsDialog } from "@/components/CallDetailsDialog";
+import { SegmentSelect, ALL_SEGMENTS } from "@/components/SegmentSelect";
+import { ExportMenu } from "@/components/ExportMenu";
+import { useCan } from "@/hooks/useCan";
 
 interface CallRecordsTableProps {
   calls: CallRecord[];
@@ -25,7 +29,10 @@ interface CallRecordsTableProps {
   onDirectionFilterChange?: (direction: string) => void;
   statusFilter?: string;
   onStatusFilterChange?: (status: string) => void;
-  isViewer?: boolean;
+  segmentFilter?: string;
+  onSegmentFilterChange?: (segmentId: string) => void;
+  // Whether the extension and segment filters are shown
+  canFilter?: boolean;
 }
 
 const formatDuration = (seconds: number): string => {
@@ -48,9 +55,13 @@ export const CallRecordsTable = ({
   onDirectionFilterChange,
   statusFilter = "all",
   onStatusFilterChange,
-  isViewer = false,
+  segmentFilter = ALL_SEGMENTS,
+  onSegmentFilterChange,
+  canFilter = true,
 }: CallRecordsTableProps) => {
+  const can = useCan();
   const [search, setSearch] = useState("");
+  const [selectedCall, setSelectedCall] = useState<CallRecord | null>(null);
   const { extensions } = useExtensions();
 
   const filteredCalls = calls.filter((call) => {
@@ -94,7 +105,7 @@ export const CallRecordsTable = ({
                 className="pl-8 w-48"
               />
             </div>
-            {!isViewer && (
+            {canFilter && (
             <Select value={extensionFilter} onValueChange={(value) => onExtensionFilterChange?.(value)}>
               <SelectTrigger className="w-40">
                 <SelectValue placeholder="Extension" />
@@ -132,6 +143,20 @@ export const CallRecordsTable = ({
                 <SelectItem value="internal">Internal</SelectItem>
               </SelectContent>
             </Select>
+            {canFilter && onSegmentFilterChange && (
+              <SegmentSelect value={segmentFilter} onChange={onSegmentFilterChange} allLabel="All Callers" />
+            )}
+            {can("calls.export") && (
+              <ExportMenu
+                dataset="calls"
+                filters={{
+                  extension: extensionFilter,
+                  direction: directionFilter,
+                  status: statusFilter,
+                  segment_id: segmentFilter === ALL_SEGMENTS ? undefined : segmentFilter,
+                }}
+              />
+            )}
           </div>
         </div>
       </CardHeader>
@@ -182,7 +207,7 @@ export const CallRecordsTable = ({
                     const callBackNumber = call.direction === "inbound" ? call.caller_number : call.callee_number;
                     
                     return (
-                      <TableRow key={call.id} className="hover:bg-muted/20">
+                      <TableRow key={call.id} className="hover:bg-muted/20 cursor-pointer" onClick={() => setSelectedCall(call)}>
                         <TableCell className="font-mono text-xs whitespace-nowrap">
                           {formatDateNairobi(call.start_time)}
                         </TableCell>
@@ -227,7 +252,21 @@ export const CallRecordsTable = ({
                           {formatDuration(call.talk_duration)}
                         </TableCell>
                         <TableCell className="text-center whitespace-nowrap">
-                          <Button size="sm" variant="ghost" title={callBackNumber} className="h-8 w-8 p-0">
+                          {call.recording_url && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              title="Play recording"
+                              className="h-8 w-8 p-0"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setSelectedCall(call);
+                              }}
+                            >
+                              <Mic className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button size="sm" variant="ghost" title={callBackNumber} className="h-8 w-8 p-0" onClick={(e) => e.stopPropagation()}>
                             <Phone className="w-4 h-4" />
                           </Button>
                         </TableCell>
@@ -273,6 +312,7 @@ export const CallRecordsTable = ({
           </div>
         )}
       </CardContent>
+      <CallDetailsDialog call={selectedCall} onOpenChange={(open) => !open && setSelectedCall(null)} />
     </Card>
   );
 };
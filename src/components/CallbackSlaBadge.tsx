@@ -0,0 +1,62 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Timer } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { parseDbTimestamp } from "@/lib/dateUtils";
+import type { CallbackTask } from "@/hooks/useCallbacks";
+
+interface CallbackSlaBadgeProps {
+  task: CallbackTask;
+  slaMinutes: number;
+}
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d`;
+};
+
+/**
+ * Time to first callback against the SLA. Counts up live while the missed
+ * call is still waiting for its first attempt.
+ */
+export const CallbackSlaBadge = ({ task, slaMinutes }: CallbackSlaBadgeProps) => {
+  const waiting = task.status === "open" && !task.first_attempt_at;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  const missedAt = parseDbTimestamp(task.missed_at).getTime();
+  const endAt = task.first_attempt_at ? parseDbTimestamp(task.first_attempt_at).getTime() : waiting ? now : null;
+  if (endAt === null || Number.isNaN(missedAt)) return null;
+
+  const minutes = Math.max(0, Math.floor((endAt - missedAt) / 60000));
+  const ratio = minutes / slaMinutes;
+
+  return (
+    <Badge
+      variant="outline"
+      title={`SLA: first callback within ${slaMinutes} minutes`}
+      className={cn(
+        "text-xs h-5 px-1.5 gap-1",
+        ratio > 1
+          ? "text-destructive border-destructive/40"
+          : waiting && ratio > 0.75
+            ? "text-warning border-warning/40"
+            : "text-success border-success/30"
+      )}
+    >
+      <Timer className="w-3 h-3" />
+      {waiting
+        ? ratio > 1
+          ? `SLA breached · ${formatMinutes(minutes)}`
+          : `${formatMinutes(slaMinutes - minutes)} left`
+        : `First callback ${formatMinutes(minutes)}`}
+    </Badge>
+  );
+};
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Timer, Save } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useCallbackSlaReport, useUpdateCallbackSla } from "@/hooks/useCallbacks";
+import { useCan } from "@/hooks/useCan";
+
+interface CallbackSlaReportProps {
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export const CallbackSlaReport = ({ dateFrom, dateTo }: CallbackSlaReportProps) => {
+  const { data, isLoading } = useCallbackSlaReport(dateFrom, dateTo);
+  const { mutate: updateSla, isPending: isSaving } = useUpdateCallbackSla();
+  const can = useCan();
+  const [slaDraft, setSlaDraft] = useState("");
+
+  const rows = data?.extensions ?? [];
+  const totals = rows.reduce(
+    (acc, row) => ({
+      missed: acc.missed + row.missed_calls,
+      within: acc.within + row.within_sla,
+      breached: acc.breached + row.breached,
+    }),
+    { missed: 0, within: 0, breached: 0 }
+  );
+  const overall = totals.within + totals.breached > 0
+    ? Math.round((totals.within / (totals.within + totals.breached)) * 1000) / 10
+    : null;
+
+  const handleSaveSla = () => {
+    const minutes = parseInt(slaDraft, 10);
+    if (!minutes || minutes < 1) {
+      toast.error("Enter the SLA in minutes");
+      return;
+    }
+    updateSla(minutes, {
+      onSuccess: () => {
+        toast.success(`Callback SLA set to ${minutes} minutes`);
+        setSlaDraft("");
+      },
+      onError: (error: Error) => toast.error(error.message || "Failed to update SLA"),
+    });
+  };
+
+  return (
+    <Card className="border-border/50 bg-card">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-primary/10">
+              <Timer className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <CardTitle className="text-base font-semibold">Callback SLA by Extension</CardTitle>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                First callback within {data?.sla_minutes ?? "—"} minutes
+                {overall !== null && ` · ${overall}% on time overall`}
+              </p>
+            </div>
+          </div>
+          {can("callbacks.manage") && (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                placeholder={String(data?.sla_minutes ?? 30)}
+                value={slaDraft}
+                onChange={(e) => setSlaDraft(e.target.value)}
+                className="h-8 w-24 text-xs"
+              />
+              <Button size="sm" variant="outline" className="h-8 gap-1" disabled={isSaving || !slaDraft} onClick={handleSaveSla}>
+                <Save className="w-3 h-3" />
+                Set SLA
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-4">
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No missed calls in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Extension</TableHead>
+                <TableHead className="text-right">Missed</TableHead>
+                <TableHead className="text-right">Open</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead className="text-right">Avg First Callback</TableHead>
+                <TableHead className="text-right">Breached</TableHead>
+                <TableHead className="text-right">On Time</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.extension}>
+                  <TableCell>
+                    <span className="font-medium">{row.extension}</span>
+                    {row.username && <span className="text-xs text-muted-foreground ml-2">{row.username}</span>}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{row.missed_calls}</TableCell>
+                  <TableCell className="text-right font-mono">{row.open_tasks}</TableCell>
+                  <TableCell className="text-right font-mono">{row.attempts}</TableCell>
+                  <TableCell className="text-right font-mono">{formatSeconds(row.avg_first_callback_seconds)}</TableCell>
+                  <TableCell className={cn("text-right font-mono", row.breached > 0 && "text-destructive")}>
+                    {row.breached}
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      "text-right font-mono",
+                      row.sla_compliance !== null && (row.sla_compliance >= 90 ? "text-success" : row.sla_compliance < 70 && "text-destructive")
+                    )}
+                  >
+                    {row.sla_compliance !== null ? `${row.sla_compliance}%` : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
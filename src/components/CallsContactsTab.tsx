@@ -3,7 +3,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CallRecordsTable } from "@/components/CallRecordsTable";
 import { CallStatsCards } from "@/components/CallStatsCards";
 import { ContactsPanel } from "@/components/ContactsPanel";
+import { QuickDialWidget } from "@/components/QuickDialWidget";
+import { CallQueueStatus } from "@/components/CallQueueStatus";
 import { Phone, Users } from "lucide-react";
+import { useCan } from "@/hooks/useCan";
 
 interface CallsContactsTabProps {
   calls: any[];
@@ -18,10 +21,13 @@ interface CallsContactsTabProps {
   onDirectionFilterChange: (filter: string) => void;
   statusFilter: string;
   onStatusFilterChange: (filter: string) => void;
+  segmentFilter?: string;
+  onSegmentFilterChange?: (filter: string) => void;
   allTimeStats?: any;
   todayStats?: any;
   statsLoading?: boolean;
-  isViewer?: boolean;
+  // Whether the port/extension/segment filters are shown
+  canFilter?: boolean;
 }
 
 export const CallsContactsTab = ({
@@ -37,11 +43,14 @@ export const CallsContactsTab = ({
   onDirectionFilterChange,
   statusFilter,
   onStatusFilterChange,
+  segmentFilter,
+  onSegmentFilterChange,
   allTimeStats,
   todayStats,
   statsLoading = false,
-  isViewer = false,
+  canFilter = true,
 }: CallsContactsTabProps) => {
+  const can = useCan();
   const [activeSubTab, setActiveSubTab] = useState("calls");
 
   return (
@@ -64,6 +73,12 @@ export const CallsContactsTab = ({
             todayStats={todayStats}
             isLoading={statsLoading}
           />
+          {can("calls.dial") && (
+            <div className="grid gap-4 lg:grid-cols-[minmax(0,24rem)_1fr] items-start">
+              <QuickDialWidget />
+              <CallQueueStatus />
+            </div>
+          )}
           <CallRecordsTable
             calls={calls}
             isLoading={isLoading}
@@ -77,7 +92,9 @@ export const CallsContactsTab = ({
             onDirectionFilterChange={onDirectionFilterChange}
             statusFilter={statusFilter}
             onStatusFilterChange={onStatusFilterChange}
-            isViewer={isViewer}
+            segmentFilter={segmentFilter}
+            onSegmentFilterChange={onSegmentFilterChange}
+            canFilter={canFilter}
           />
         </TabsContent>
 
@@ -8,10 +8,12 @@ import { toast } from "@/hooks/use-toast";
 import { GatewaySettingsForm } from "./GatewaySettingsForm";
 import { PbxSettingsForm } from "./PbxSettingsForm";
 import GsmSpanSettingsForm from "./GsmSpanSettingsForm";
+import { UssdConsolePanel } from "./UssdConsolePanel";
 import ExtensionsPanel from "./ExtensionsPanel";
 import { SetupPanel } from "./SetupPanel";
 import { SystemUpdatePanel } from "./SystemUpdatePanel";
-import { useAuth } from "@/hooks/useAuth";
+import { PhoneNumberSettingsForm } from "./PhoneNumberSettingsForm";
+import { useCan } from "@/hooks/useCan";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
 interface ConfigurationPanelProps {
@@ -24,8 +26,8 @@ export const ConfigurationPanel = ({
   onConfigSaved,
 }: ConfigurationPanelProps) => {
   const [isSaving, setIsSaving] = useState(false);
-  const { role } = useAuth();
-  const isSuperAdmin = role === "super_admin";
+  const can = useCan();
+  const canUpdate = can("system.update");
 
   const handleSave = async () => {
     setIsSaving(true);
@@ -118,7 +120,7 @@ export const ConfigurationPanel = ({
               <Phone className="w-4 h-4" />
               Extensions
             </TabsTrigger>
-            {isSuperAdmin && (
+            {canUpdate && (
               <TabsTrigger value="system" className="gap-2">
                 <RefreshCw className="w-4 h-4" />
                 System Update
@@ -140,6 +142,19 @@ export const ConfigurationPanel = ({
               </div>
               <SetupPanel />
             </div>
+            <Separator />
+            <div className="space-y-4">
+              <div>
+                <h3 className="font-semibold text-sm mb-1 flex items-center gap-2">
+                  <Phone className="w-4 h-4" />
+                  Phone Numbers
+                </h3>
+                <p className="text-xs text-muted-foreground mb-4">
+                  Numbers from the TG400, the S100 and imports are stored in international (E.164) format so the same customer always matches
+                </p>
+              </div>
+              <PhoneNumberSettingsForm />
+            </div>
           </TabsContent>
 
           {/* Connectivity Tab - Gateway + PBX */}
@@ -187,6 +202,7 @@ export const ConfigurationPanel = ({
               </div>
               <GsmSpanSettingsForm />
             </div>
+            <UssdConsolePanel />
           </TabsContent>
 
           <TabsContent value="extensions" className="space-y-6">
@@ -204,7 +220,7 @@ export const ConfigurationPanel = ({
             </div>
           </TabsContent>
 
-          {isSuperAdmin && (
+          {canUpdate && (
             <TabsContent value="system" className="space-y-6">
               <div className="space-y-4">
                 <div>
@@ -0,0 +1,365 @@
+import { ChangeEvent, useMemo, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useContactFields } from "@/hooks/useContactSegments";
+import {
+  usePreviewContactImport,
+  useCommitContactImport,
+  IMPORT_ACTIONS,
+  ImportAction,
+  ImportPreview,
+  ImportRowStatus,
+} from "@/hooks/useContactImport";
+import {
+  parseContactFile,
+  guessColumnMapping,
+  tableToImportContacts,
+  ColumnTarget,
+  ContactTable,
+  ImportContact,
+} from "@/lib/contactFiles";
+
+interface ContactImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = "upload" | "mapping" | "review";
+
+// Rendering thousands of rows makes the dialog sluggish; counts still cover every row
+const REVIEW_ROW_LIMIT = 200;
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: "New",
+  existing: "Already exists",
+  duplicate: "Duplicate in file",
+  invalid: "Invalid",
+};
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: "bg-success/10 text-success border-success/20",
+  existing: "bg-primary/10 text-primary border-primary/20",
+  duplicate: "bg-warning/10 text-warning border-warning/20",
+  invalid: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: "Create",
+  merge: "Merge (fill blanks)",
+  overwrite: "Overwrite",
+  skip: "Skip",
+};
+
+export const ContactImportDialog = ({ open, onOpenChange }: ContactImportDialogProps) => {
+  const { data: fields = [] } = useContactFields();
+  const previewImport = usePreviewContactImport();
+  const commitImport = useCommitContactImport();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ContactTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnTarget[]>([]);
+  const [contacts, setContacts] = useState<ImportContact[]>([]);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [decisions, setDecisions] = useState<Record<number, ImportAction>>({});
+  const [statusFilter, setStatusFilter] = useState<ImportRowStatus | "all">("all");
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setTable(null);
+    setMapping([]);
+    setContacts([]);
+    setPreview(null);
+    setDecisions({});
+    setStatusFilter("all");
+    previewImport.reset();
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const targetOptions: { value: ColumnTarget; label: string }[] = [
+    { value: "ignore", label: "Don't import" },
+    { value: "phone", label: "Phone number" },
+    { value: "name", label: "Name" },
+    { value: "notes", label: "Notes" },
+    { value: "tags", label: "Tags" },
+    ...fields.map((f) => ({ value: `field:${f.field_key}`, label: f.label })),
+  ];
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const parsed = parseContactFile(file.name, await file.text());
+    if (parsed.rows.length === 0) {
+      toast.error("No contacts found in this file");
+      return;
+    }
+    setFileName(file.name);
+    setTable(parsed);
+    setMapping(guessColumnMapping(parsed.headers, fields));
+    setStep("mapping");
+  };
+
+  const runPreview = () => {
+    if (!table) return;
+    const rows = tableToImportContacts(table, mapping);
+    previewImport.mutate(rows, {
+      onSuccess: (data) => {
+        setContacts(rows);
+        setPreview(data);
+        setDecisions(Object.fromEntries(data.rows.map((row) => [row.index, IMPORT_ACTIONS[row.status][0]])));
+        setStep("review");
+      },
+      onError: (error: Error) => toast.error(error.message || "Failed to check contacts"),
+    });
+  };
+
+  const runCommit = () => {
+    commitImport.mutate(
+      { contacts, decisions },
+      {
+        onSuccess: ({ created, updated, skipped }) => {
+          toast.success(`Imported contacts: ${created} created, ${updated} updated, ${skipped} skipped`);
+          handleOpenChange(false);
+        },
+        onError: (error: Error) => toast.error(error.message || "Import failed"),
+      }
+    );
+  };
+
+  const setActionForStatus = (status: ImportRowStatus, action: ImportAction) => {
+    if (!preview) return;
+    setDecisions((prev) => ({
+      ...prev,
+      ...Object.fromEntries(preview.rows.filter((row) => row.status === status).map((row) => [row.index, action])),
+    }));
+  };
+
+  const visibleRows = useMemo(
+    () => (preview?.rows ?? []).filter((row) => statusFilter === "all" || row.status === statusFilter),
+    [preview, statusFilter]
+  );
+
+  const pendingChanges = preview ? preview.rows.filter((row) => decisions[row.index] && decisions[row.index] !== "skip").length : 0;
+  const hasPhoneColumn = mapping.includes("phone");
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Contacts</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or vCard (.vcf) file. Numbers are normalised to international format using the default country code."}
+            {step === "mapping" && `Match the columns in ${fileName} to contact fields.`}
+            {step === "review" && "Review what will change before anything is saved."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div
+            className="flex flex-col items-center justify-center gap-3 rounded-lg border border-dashed border-border py-10 cursor-pointer hover:bg-muted/30"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileUp className="w-8 h-8 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">Click to choose a .csv or .vcf file</p>
+            <input ref={fileInputRef} type="file" accept=".csv,.vcf,.vcard,text/csv,text/vcard" className="hidden" onChange={handleFile} />
+          </div>
+        )}
+
+        {step === "mapping" && table && (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              {table.rows.length} rows. Columns mapped to Phone number each create a contact; tags can be separated by commas.
+            </p>
+            <ScrollArea className="max-h-[55vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Import as</TableHead>
+                    <TableHead>Sample values</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {table.headers.map((header, i) => (
+                    <TableRow key={i}>
+                      <TableCell className="font-medium text-sm">{header || `Column ${i + 1}`}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping[i]}
+                          onValueChange={(value) => setMapping((prev) => prev.map((target, j) => (j === i ? value : target)))}
+                        >
+                          <SelectTrigger className="w-44 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {targetOptions.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-[280px] truncate">
+                        {table.rows
+                          .slice(0, 3)
+                          .map((row) => row[i])
+                          .filter(Boolean)
+                          .join(" · ") || "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            {!hasPhoneColumn && <p className="text-sm text-destructive">Map at least one column to Phone number.</p>}
+          </div>
+        )}
+
+        {step === "review" && preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant={statusFilter === "all" ? "secondary" : "ghost"} onClick={() => setStatusFilter("all")}>
+                All ({preview.rows.length})
+              </Button>
+              {(Object.keys(STATUS_LABELS) as ImportRowStatus[]).map((status) => (
+                <Button
+                  key={status}
+                  size="sm"
+                  variant={statusFilter === status ? "secondary" : "ghost"}
+                  onClick={() => setStatusFilter(status)}
+                  disabled={preview.summary[status] === 0}
+                >
+                  {STATUS_LABELS[status]} ({preview.summary[status]})
+                </Button>
+              ))}
+            </div>
+
+            {(["new", "existing"] as ImportRowStatus[])
+              .filter((status) => preview.summary[status] > 0)
+              .map((status) => (
+                <div key={status} className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Set all {STATUS_LABELS[status].toLowerCase()} contacts to</span>
+                  <Select onValueChange={(value) => setActionForStatus(status, value as ImportAction)}>
+                    <SelectTrigger className="w-44 h-8">
+                      <SelectValue placeholder="Choose…" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {IMPORT_ACTIONS[status].map((action) => (
+                        <SelectItem key={action} value={action}>
+                          {ACTION_LABELS[action]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+            <ScrollArea className="max-h-[45vh] rounded-lg border border-border/50">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.slice(0, REVIEW_ROW_LIMIT).map((row) => (
+                    <TableRow key={row.index}>
+                      <TableCell className="text-xs text-muted-foreground">{row.index + 1}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {row.phone_number ?? row.phone_input ?? "—"}
+                        {row.phone_number && row.phone_input && row.phone_number !== row.phone_input && (
+                          <div className="text-muted-foreground">from {row.phone_input}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.name || "—"}
+                        {row.existing && (
+                          <div className="text-xs text-muted-foreground">Saved as {row.existing.name || row.existing.phone_number}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={cn("text-xs", STATUS_STYLES[row.status])}>
+                          {STATUS_LABELS[row.status]}
+                        </Badge>
+                        {row.error && <div className="text-xs text-destructive mt-1">{row.error}</div>}
+                        {row.duplicate_of !== null && (
+                          <div className="text-xs text-muted-foreground mt-1">Same number as row {row.duplicate_of + 1}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {IMPORT_ACTIONS[row.status].length > 1 ? (
+                          <Select
+                            value={decisions[row.index]}
+                            onValueChange={(value) => setDecisions((prev) => ({ ...prev, [row.index]: value as ImportAction }))}
+                          >
+                            <SelectTrigger className="w-40 h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {IMPORT_ACTIONS[row.status].map((action) => (
+                                <SelectItem key={action} value={action}>
+                                  {ACTION_LABELS[action]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Skipped</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            {visibleRows.length > REVIEW_ROW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {REVIEW_ROW_LIMIT} of {visibleRows.length} rows. The rest use the bulk choice above.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step !== "upload" && (
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setStep(step === "review" ? "mapping" : "upload")} className="gap-1">
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </Button>
+            {step === "mapping" ? (
+              <Button onClick={runPreview} disabled={!hasPhoneColumn || previewImport.isPending} className="gap-1">
+                {previewImport.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                Check contacts
+              </Button>
+            ) : (
+              <Button onClick={runCommit} disabled={pendingChanges === 0 || commitImport.isPending} className="gap-1">
+                {commitImport.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                Import {pendingChanges} contact{pendingChanges === 1 ? "" : "s"}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
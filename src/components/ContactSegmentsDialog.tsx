@@ -0,0 +1,467 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Edit2, Eye, Loader2, Filter, ListPlus } from "lucide-react";
+import { toast } from "sonner";
+import { useCan } from "@/hooks/useCan";
+import {
+  useContactFields,
+  useContactSegments,
+  useCreateContactField,
+  useDeleteContactField,
+  useSaveContactSegment,
+  useDeleteContactSegment,
+  usePreviewContactSegment,
+  operatorNeedsValue,
+  SEGMENT_BUILTIN_FIELDS,
+  SEGMENT_OPERATORS,
+  SEGMENT_OPERATOR_LABELS,
+  ContactField,
+  ContactFieldType,
+  ContactSegment,
+  SegmentFilter,
+  SegmentRule,
+} from "@/hooks/useContactSegments";
+
+interface ContactSegmentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface SegmentDraft {
+  id?: string;
+  name: string;
+  description: string;
+  filter: SegmentFilter;
+}
+
+const newRule = (): SegmentRule => ({ field: "tag", op: "has", value: "" });
+
+const FIELD_TYPE_LABELS: Record<ContactFieldType, string> = {
+  text: "Text",
+  number: "Number",
+  date: "Date",
+  boolean: "Yes / No",
+  select: "Choice",
+};
+
+const SegmentEditor = ({
+  draft,
+  fields,
+  onChange,
+  onDone,
+}: {
+  draft: SegmentDraft;
+  fields: ContactField[];
+  onChange: (draft: SegmentDraft) => void;
+  onDone: () => void;
+}) => {
+  const saveSegment = useSaveContactSegment();
+  const preview = usePreviewContactSegment();
+
+  const fieldChoices = [
+    ...SEGMENT_BUILTIN_FIELDS,
+    ...fields.map((f) => ({ field: `field:${f.field_key}`, label: f.label, type: f.field_type, options: f.options })),
+  ];
+  const choiceFor = (field: string) => fieldChoices.find((c) => c.field === field);
+
+  const updateRule = (index: number, patch: Partial<SegmentRule>) => {
+    const rules = draft.filter.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule));
+    onChange({ ...draft, filter: { ...draft.filter, rules } });
+    preview.reset();
+  };
+
+  const changeRuleField = (index: number, field: string) => {
+    const type = choiceFor(field)?.type ?? "text";
+    updateRule(index, { field, op: SEGMENT_OPERATORS[type][0], value: "" });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...draft, filter: { ...draft.filter, rules: draft.filter.rules.filter((_, i) => i !== index) } });
+    preview.reset();
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return toast.error("Give the segment a name");
+    saveSegment.mutate(
+      { id: draft.id, name: draft.name.trim(), description: draft.description.trim() || null, filter: draft.filter },
+      {
+        onSuccess: (segment) => {
+          toast.success(`Segment "${segment.name}" saved`);
+          onDone();
+        },
+        onError: (error: Error) => toast.error(error.message || "Failed to save segment"),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Input value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} placeholder="Segment name" />
+        <Input
+          value={draft.description}
+          onChange={(e) => onChange({ ...draft, description: e.target.value })}
+          placeholder="Description (optional)"
+        />
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span>Match</span>
+        <Select
+          value={draft.filter.match}
+          onValueChange={(match) => onChange({ ...draft, filter: { ...draft.filter, match: match as SegmentFilter["match"] } })}
+        >
+          <SelectTrigger className="h-8 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">all</SelectItem>
+            <SelectItem value="any">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of these rules</span>
+      </div>
+
+      <div className="space-y-2">
+        {draft.filter.rules.map((rule, index) => {
+          const choice = choiceFor(rule.field);
+          const type = choice?.type ?? "text";
+          return (
+            <div key={index} className="flex items-center gap-2 flex-wrap">
+              <Select value={rule.field} onValueChange={(field) => changeRuleField(index, field)}>
+                <SelectTrigger className="h-8 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fieldChoices.map((c) => (
+                    <SelectItem key={c.field} value={c.field}>
+                      {c.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={rule.op} onValueChange={(op) => updateRule(index, { op: op as SegmentRule["op"] })}>
+                <SelectTrigger className="h-8 w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEGMENT_OPERATORS[type].map((op) => (
+                    <SelectItem key={op} value={op}>
+                      {SEGMENT_OPERATOR_LABELS[op]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {operatorNeedsValue(rule.op) &&
+                (type === "select" && choice?.options?.length && ["eq", "neq"].includes(rule.op) ? (
+                  <Select value={String(rule.value ?? "")} onValueChange={(value) => updateRule(index, { value })}>
+                    <SelectTrigger className="h-8 w-36">
+                      <SelectValue placeholder="Choose…" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {choice.options.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    value={String(rule.value ?? "")}
+                    onChange={(e) => updateRule(index, { value: e.target.value })}
+                    type={type === "number" || type === "date" ? "number" : "text"}
+                    min={type === "date" ? 0 : undefined}
+                    placeholder={type === "date" ? "Days" : type === "tag" ? "Tag" : "Value"}
+                    className="h-8 w-36"
+                  />
+                ))}
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => removeRule(index)}>
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        })}
+        <Button
+          size="sm"
+          variant="ghost"
+          className="gap-1"
+          onClick={() => onChange({ ...draft, filter: { ...draft.filter, rules: [...draft.filter.rules, newRule()] } })}
+        >
+          <ListPlus className="w-3 h-3" />
+          Add rule
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1"
+            disabled={preview.isPending || draft.filter.rules.length === 0}
+            onClick={() =>
+              preview.mutate(draft.filter, { onError: (error: Error) => toast.error(error.message || "Preview failed") })
+            }
+          >
+            {preview.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Eye className="w-3 h-3" />}
+            Preview
+          </Button>
+          {preview.data && (
+            <span>
+              {preview.data.member_count} contact{preview.data.member_count === 1 ? "" : "s"}
+              {preview.data.sample.length > 0 && ` · e.g. ${preview.data.sample.slice(0, 3).map((c) => c.name || c.phone_number).join(", ")}`}
+            </span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="ghost" onClick={onDone}>
+            Cancel
+          </Button>
+          <Button size="sm" disabled={saveSegment.isPending || draft.filter.rules.length === 0} onClick={handleSave}>
+            {saveSegment.isPending && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+            Save segment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const FieldsTab = ({ fields, canEdit }: { fields: ContactField[]; canEdit: boolean }) => {
+  const createField = useCreateContactField();
+  const deleteField = useDeleteContactField();
+  const [label, setLabel] = useState("");
+  const [fieldKey, setFieldKey] = useState("");
+  const [fieldType, setFieldType] = useState<ContactFieldType>("text");
+  const [options, setOptions] = useState("");
+
+  const derivedKey = fieldKey || label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+
+  const handleCreate = () => {
+    if (!label.trim()) return toast.error("Enter a label");
+    createField.mutate(
+      {
+        label: label.trim(),
+        field_key: derivedKey,
+        field_type: fieldType,
+        options: options.split(",").map((o) => o.trim()).filter(Boolean),
+      },
+      {
+        onSuccess: (field) => {
+          toast.success(`Field "${field.label}" added`);
+          setLabel("");
+          setFieldKey("");
+          setOptions("");
+        },
+        onError: (error: Error) => toast.error(error.message || "Failed to add field"),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No custom fields yet</p>
+      ) : (
+        <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+          {fields.map((field) => (
+            <div key={field.id} className="flex items-center justify-between gap-2 px-3 py-2">
+              <div className="min-w-0">
+                <span className="text-sm font-medium">{field.label}</span>
+                <span className="text-xs font-mono text-muted-foreground ml-2">{field.field_key}</span>
+                {field.field_type === "select" && (
+                  <p className="text-xs text-muted-foreground truncate">{field.options.join(", ")}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="text-xs">
+                  {FIELD_TYPE_LABELS[field.field_type]}
+                </Badge>
+                {canEdit && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    disabled={deleteField.isPending}
+                    onClick={() =>
+                      deleteField.mutate(field.id, {
+                        onSuccess: () => toast.success(`Field "${field.label}" deleted`),
+                        onError: (error: Error) => toast.error(error.message || "Failed to delete field"),
+                      })
+                    }
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="space-y-2 rounded-lg border border-border/50 p-3">
+          <div className="grid gap-2 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Label</Label>
+              <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Account no." className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Key</Label>
+              <Input
+                value={fieldKey}
+                onChange={(e) => setFieldKey(e.target.value.toLowerCase())}
+                placeholder={derivedKey || "account_no"}
+                className="h-8 font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={fieldType} onValueChange={(value) => setFieldType(value as ContactFieldType)}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FIELD_TYPE_LABELS) as ContactFieldType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {FIELD_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {fieldType === "select" && (
+            <Input
+              value={options}
+              onChange={(e) => setOptions(e.target.value)}
+              placeholder="Choices, comma separated (e.g. English, Swahili)"
+              className="h-8"
+            />
+          )}
+          <p className="text-xs text-muted-foreground">
+            The key is used in segment rules and as a campaign merge field, e.g. {`{${derivedKey || "account_no"}}`}.
+          </p>
+          <div className="flex justify-end">
+            <Button size="sm" className="gap-1" disabled={createField.isPending} onClick={handleCreate}>
+              <Plus className="w-3 h-3" />
+              Add field
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ContactSegmentsDialog = ({ open, onOpenChange }: ContactSegmentsDialogProps) => {
+  const can = useCan();
+  const canEditSegments = can("contacts.edit");
+  const { data: fields = [] } = useContactFields();
+  const { data: segments = [] } = useContactSegments();
+  const deleteSegment = useDeleteContactSegment();
+  const [draft, setDraft] = useState<SegmentDraft | null>(null);
+
+  const editSegment = (segment: ContactSegment) =>
+    setDraft({ id: segment.id, name: segment.name, description: segment.description || "", filter: segment.filter });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Segments & Custom Fields</DialogTitle>
+          <DialogDescription>
+            Segments are saved filters over contacts, usable in SMS, call records and campaigns.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="segments">
+          <TabsList>
+            <TabsTrigger value="segments" className="gap-2">
+              <Filter className="w-4 h-4" />
+              Segments
+            </TabsTrigger>
+            <TabsTrigger value="fields" className="gap-2">
+              <ListPlus className="w-4 h-4" />
+              Custom fields
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="segments" className="space-y-3">
+            {segments.length === 0 && !draft && (
+              <p className="text-sm text-muted-foreground text-center py-4">No segments yet</p>
+            )}
+            {segments.length > 0 && (
+              <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+                {segments.map((segment) => (
+                  <div key={segment.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <span className="text-sm font-medium">{segment.name}</span>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {segment.description ||
+                          `${segment.filter.rules.length} rule${segment.filter.rules.length === 1 ? "" : "s"}, match ${segment.filter.match}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Badge variant={segment.member_count === null ? "destructive" : "secondary"} className="text-xs">
+                        {segment.member_count === null ? "Needs editing" : `${segment.member_count} contacts`}
+                      </Badge>
+                      {canEditSegments && (
+                        <>
+                          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => editSegment(segment)}>
+                            <Edit2 className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            disabled={deleteSegment.isPending}
+                            onClick={() =>
+                              deleteSegment.mutate(segment.id, {
+                                onSuccess: () => toast.success(`Segment "${segment.name}" deleted`),
+                                onError: (error: Error) => toast.error(error.message || "Failed to delete segment"),
+                              })
+                            }
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {draft ? (
+              <SegmentEditor key={draft.id ?? "new"} draft={draft} fields={fields} onChange={setDraft} onDone={() => setDraft(null)} />
+            ) : (
+              canEditSegments && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={() => setDraft({ name: "", description: "", filter: { match: "all", rules: [newRule()] } })}
+                >
+                  <Plus className="w-3 h-3" />
+                  New segment
+                </Button>
+              )
+            )}
+          </TabsContent>
+
+          <TabsContent value="fields">
+            <FieldsTab fields={fields} canEdit={can("contacts.fields.manage")} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -25,14 +25,43 @@ import {
   Loader2,
   Merge,
   ArrowUpToLine,
+  Ban,
+  BellRing,
+  Filter,
 } from "lucide-react";
-import { useContacts, contactsToGoogleCSV, parseGoogleCSV, Contact } from "@/hooks/useContacts";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useContacts, contactsToGoogleCSV, Contact } from "@/hooks/useContacts";
 import { useGoogleContacts } from "@/hooks/useGoogleContacts";
 import { GoogleAuthModal } from "@/components/GoogleAuthModal";
+import { useSmsOptOuts, useAddSmsOptOut, useRemoveSmsOptOut } from "@/hooks/useSmsOptOuts";
+import { useCan } from "@/hooks/useCan";
+import { useContactFields, useContactTagList } from "@/hooks/useContactSegments";
+import { ContactSegmentsDialog } from "@/components/ContactSegmentsDialog";
+import { ContactImportDialog } from "@/components/ContactImportDialog";
+import { contactsToCsv, contactsToVCard, downloadFile } from "@/lib/contactFiles";
+import { SegmentSelect, ALL_SEGMENTS } from "@/components/SegmentSelect";
 import { format } from "date-fns";
+import { Link } from "react-router-dom";
 
 export const ContactsPanel = () => {
-  const { data: contacts = [], isLoading, updateContact, importContacts } = useContacts();
+  const [segmentId, setSegmentId] = useState(ALL_SEGMENTS);
+  const [tagFilter, setTagFilter] = useState("all");
+  const [showSegments, setShowSegments] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const { data: contacts = [], isLoading, updateContact } = useContacts({
+    tag: tagFilter === "all" ? undefined : tagFilter,
+    segmentId: segmentId === ALL_SEGMENTS ? undefined : segmentId,
+  });
+  const { data: tagList = [] } = useContactTagList();
+  const { data: contactFields = [] } = useContactFields();
   const { 
     importFromGoogle, 
     isImporting: isGoogleImporting, 
@@ -44,44 +73,32 @@ export const ContactsPanel = () => {
     setShowAuthModal,
     storeGoogleToken,
   } = useGoogleContacts();
+  const { data: optOuts = [], isOptedOut } = useSmsOptOuts();
+  const addOptOut = useAddSmsOptOut();
+  const removeOptOut = useRemoveSmsOptOut();
+  const can = useCan();
+  const canManageContacts = can("contacts.edit");
+  const [showOptOuts, setShowOptOuts] = useState(false);
+  const [optOutNumber, setOptOutNumber] = useState("");
   const [search, setSearch] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState("");
-  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const filtered = contacts.filter((c) => {
     const q = search.toLowerCase();
     return (
       c.phone_number.toLowerCase().includes(q) ||
-      (c.name || "").toLowerCase().includes(q)
+      (c.name || "").toLowerCase().includes(q) ||
+      c.tags.some((tag) => tag.includes(q))
     );
   });
 
-  const handleExport = () => {
-    const csv = contactsToGoogleCSV(contacts);
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `contacts_${format(new Date(), "yyyy-MM-dd")}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-
-  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const reader = new FileReader();
-    reader.onload = (ev) => {
-      const text = ev.target?.result as string;
-      const parsed = parseGoogleCSV(text);
-      if (parsed.length > 0) {
-        importContacts.mutate(parsed);
-      }
-    };
-    reader.readAsText(file);
-    e.target.value = "";
+  // Exports whatever is currently listed, so search, segment and tag filters apply
+  const handleExport = (kind: "csv" | "google" | "vcard3" | "vcard4") => {
+    const stamp = format(new Date(), "yyyy-MM-dd");
+    if (kind === "csv") downloadFile(contactsToCsv(filtered, contactFields), `contacts_${stamp}.csv`, "text/csv");
+    else if (kind === "google") downloadFile(contactsToGoogleCSV(filtered), `contacts_google_${stamp}.csv`, "text/csv");
+    else downloadFile(contactsToVCard(filtered, kind === "vcard4" ? "4.0" : "3.0"), `contacts_${stamp}.vcf`, "text/vcard");
   };
 
   const startEdit = (contact: Contact) => {
@@ -99,6 +116,11 @@ export const ContactsPanel = () => {
     setEditName("");
   };
 
+  const handleAddOptOut = () => {
+    if (!optOutNumber.trim()) return;
+    addOptOut.mutate({ phone_number: optOutNumber.trim() }, { onSuccess: () => setOptOutNumber("") });
+  };
+
   return (
     <Card className="card-glow border-border/50 bg-card">
       <CardHeader className="pb-3">
@@ -120,6 +142,25 @@ export const ContactsPanel = () => {
             </div>
           </div>
           <div className="flex items-center gap-2 flex-wrap">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 border-border/50"
+              onClick={() => setShowSegments(true)}
+            >
+              <Filter className="w-4 h-4" />
+              Segments
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 border-border/50"
+              onClick={() => setShowOptOuts(true)}
+            >
+              <Ban className="w-4 h-4" />
+              Opt-outs
+              <Badge variant="secondary" className="text-xs">{optOuts.length}</Badge>
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -167,45 +208,62 @@ export const ContactsPanel = () => {
               )}
               Merge Duplicates
             </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              className="gap-2 border-border/50"
-              onClick={handleExport}
-              disabled={contacts.length === 0}
-            >
-              <Download className="w-4 h-4" />
-              Export CSV
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              className="gap-2 border-border/50"
-              onClick={() => fileInputRef.current?.click()}
-              disabled={importContacts.isPending}
-            >
-              <Upload className="w-4 h-4" />
-              Import CSV
-            </Button>
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".csv"
-              className="hidden"
-              onChange={handleImport}
-            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2 border-border/50" disabled={filtered.length === 0}>
+                  <Download className="w-4 h-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                  {filtered.length} contact{filtered.length === 1 ? "" : "s"} as listed
+                </DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleExport("csv")}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("google")}>Google Contacts CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("vcard3")}>vCard 3.0 (.vcf)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("vcard4")}>vCard 4.0 (.vcf)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {canManageContacts && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 border-border/50"
+                onClick={() => setShowImport(true)}
+              >
+                <Upload className="w-4 h-4" />
+                Import
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            placeholder="Search contacts…"
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="pl-9 bg-muted/50 border-border/50"
-          />
+        <div className="flex items-center gap-2 flex-wrap">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search contacts…"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9 bg-muted/50 border-border/50"
+            />
+          </div>
+          <SegmentSelect value={segmentId} onChange={setSegmentId} />
+          <Select value={tagFilter} onValueChange={setTagFilter}>
+            <SelectTrigger className="w-36">
+              <SelectValue placeholder="Tag" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Tags</SelectItem>
+              {tagList.map(({ tag, contacts: count }) => (
+                <SelectItem key={tag} value={tag}>
+                  {tag} <span className="text-muted-foreground">({count})</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         <ScrollArea className="h-[500px]">
@@ -213,7 +271,9 @@ export const ContactsPanel = () => {
             <div className="text-center py-8 text-muted-foreground text-sm">Loading contacts…</div>
           ) : filtered.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground text-sm">
-              {search ? "No contacts match your search" : "No contacts yet — they'll appear automatically from SMS & calls"}
+              {search || segmentId !== ALL_SEGMENTS || tagFilter !== "all"
+                ? "No contacts match your filters"
+                : "No contacts yet — they'll appear automatically from SMS & calls"}
             </div>
           ) : (
             <Table>
@@ -229,7 +289,8 @@ export const ContactsPanel = () => {
                   </TableHead>
                   <TableHead>Last Seen</TableHead>
                   <TableHead>Source</TableHead>
-                  <TableHead className="w-[60px]" />
+                  <TableHead>SMS</TableHead>
+                  <TableHead className="w-[90px]" />
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -256,12 +317,31 @@ export const ContactsPanel = () => {
                           </Button>
                         </div>
                       ) : (
-                        <span className="font-medium text-sm">
-                          {contact.name || <span className="text-muted-foreground italic">No name</span>}
-                        </span>
+                        <div>
+                          <span className="font-medium text-sm">
+                            {contact.name || <span className="text-muted-foreground italic">No name</span>}
+                          </span>
+                          {contact.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {contact.tags.map((tag) => (
+                                <Badge key={tag} variant="secondary" className="text-[10px] h-4 px-1.5">
+                                  {tag}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
+                        </div>
                       )}
                     </TableCell>
-                    <TableCell className="font-mono text-sm">{contact.phone_number}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      <Link
+                        to={`/contacts/${encodeURIComponent(contact.phone_number)}`}
+                        className="hover:text-primary hover:underline"
+                        title="Open customer timeline"
+                      >
+                        {contact.phone_number}
+                      </Link>
+                    </TableCell>
                     <TableCell className="text-center text-sm">{contact.sms_count}</TableCell>
                     <TableCell className="text-center text-sm">{contact.call_count}</TableCell>
                     <TableCell className="text-sm text-muted-foreground">
@@ -272,16 +352,54 @@ export const ContactsPanel = () => {
                         {contact.source}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      {isOptedOut(contact.phone_number) ? (
+                        <Badge variant="outline" className="text-xs border-destructive/40 text-destructive">
+                          Opted out
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Subscribed</span>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {editingId !== contact.id && (
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="h-7 w-7"
-                          onClick={() => startEdit(contact)}
-                        >
-                          <Edit2 className="w-3 h-3" />
-                        </Button>
+                        <div className="flex items-center">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            onClick={() => startEdit(contact)}
+                          >
+                            <Edit2 className="w-3 h-3" />
+                          </Button>
+                          {isOptedOut(contact.phone_number) ? (
+                            can("sms.opt_out.remove") && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7"
+                                title="Re-subscribe to SMS"
+                                onClick={() => removeOptOut.mutate(contact.phone_number)}
+                                disabled={removeOptOut.isPending}
+                              >
+                                <BellRing className="w-3 h-3" />
+                              </Button>
+                            )
+                          ) : (
+                            can("sms.opt_out") && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7 text-destructive"
+                                title="Opt out of SMS"
+                                onClick={() => addOptOut.mutate({ phone_number: contact.phone_number })}
+                                disabled={addOptOut.isPending}
+                              >
+                                <Ban className="w-3 h-3" />
+                              </Button>
+                            )
+                          )}
+                        </div>
                       )}
                     </TableCell>
                   </TableRow>
@@ -292,6 +410,70 @@ export const ContactsPanel = () => {
         </ScrollArea>
       </CardContent>
 
+      <Dialog open={showOptOuts} onOpenChange={setShowOptOuts}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>SMS Suppression List</DialogTitle>
+          </DialogHeader>
+          <p className="text-xs text-muted-foreground">
+            Numbers here never receive SMS from any path — auto-replies, call auto-SMS, reports or manual replies.
+            Customers are added automatically when they text STOP and removed when they text START.
+          </p>
+          {can("sms.opt_out") && (
+            <div className="flex gap-2">
+              <Input
+                value={optOutNumber}
+                onChange={(e) => setOptOutNumber(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddOptOut()}
+                placeholder="0712 345 678"
+                className="font-mono"
+              />
+              <Button onClick={handleAddOptOut} disabled={addOptOut.isPending || !optOutNumber.trim()} className="gap-2">
+                {addOptOut.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Ban className="w-4 h-4" />}
+                Opt out
+              </Button>
+            </div>
+          )}
+          <ScrollArea className="h-[320px]">
+            {optOuts.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground text-sm">No numbers have opted out</div>
+            ) : (
+              <div className="divide-y divide-border/50">
+                {optOuts.map((o) => (
+                  <div key={o.id} className="flex items-center justify-between gap-2 py-2">
+                    <div className="min-w-0">
+                      <p className="font-mono text-sm">
+                        {o.phone_number}
+                        {o.contact_name && <span className="ml-2 font-sans text-muted-foreground">{o.contact_name}</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {o.source === "keyword" ? `Texted ${o.keyword}` : o.reason || "Added manually"} ·{" "}
+                        {format(new Date(o.created_at), "MMM d, yyyy HH:mm")}
+                      </p>
+                    </div>
+                    {can("sms.opt_out.remove") && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="gap-1 text-xs"
+                        onClick={() => removeOptOut.mutate(o.phone_number)}
+                        disabled={removeOptOut.isPending}
+                      >
+                        <BellRing className="w-3 h-3" />
+                        Re-subscribe
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      <ContactSegmentsDialog open={showSegments} onOpenChange={setShowSegments} />
+      <ContactImportDialog open={showImport} onOpenChange={setShowImport} />
+
       <GoogleAuthModal
         isOpen={showAuthModal}
         onClose={() => setShowAuthModal(false)}
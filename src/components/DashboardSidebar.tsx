@@ -1,53 +1,17 @@
 import { cn } from "@/lib/utils";
 import {
-  LayoutDashboard,
-  PhoneCall,
-  BarChart3,
-  FileText,
-  Settings,
   Brain,
-  Send,
-  Users,
   ChevronLeft,
   ChevronRight,
   User,
-  Crown,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState, useEffect } from "react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Sheet, SheetContent } from "@/components/ui/sheet";
-import { useAuth } from "@/hooks/useAuth";
-
-export type DashboardTab =
-  | "dashboard"
-  | "calls"
-  | "analytics"
-  | "config"
-  | "roles"
-  | "profile"
-  | "messages"
-  | "notifications"
-  | "staff";
-
-interface NavItem {
-  id: DashboardTab;
-  label: string;
-  icon: React.ElementType;
-  adminOnly?: boolean;
-}
-
-const navItems: NavItem[] = [
-  { id: "dashboard", label: "Dashboard", icon: LayoutDashboard },
-  { id: "messages", label: "Messages", icon: FileText },
-  { id: "calls", label: "Calls & Contacts", icon: PhoneCall },
-  { id: "analytics", label: "Insights", icon: BarChart3 },
-  { id: "notifications", label: "Notifications", icon: Send, adminOnly: true },
-  { id: "staff", label: "Staff / Clock In", icon: Users, adminOnly: true },
-  { id: "roles", label: "Roles & Permissions", icon: Crown, adminOnly: true },
-  { id: "config", label: "Configuration", icon: Settings, adminOnly: true },
-];
+import { useCan, type Permission } from "@/hooks/useCan";
+import { navItems, type DashboardTab } from "@/lib/dashboardNav";
 
 interface DashboardSidebarProps {
   activeTab: DashboardTab;
@@ -60,18 +24,18 @@ const NavItems = ({
   activeTab,
   onTabChange,
   collapsed,
-  isAdmin,
+  can,
   onItemClick,
 }: {
   activeTab: DashboardTab;
   onTabChange: (tab: DashboardTab) => void;
   collapsed: boolean;
-  isAdmin: boolean;
+  can: (permission: Permission) => boolean;
   onItemClick?: () => void;
 }) => (
   <nav className="flex-1 flex flex-col gap-1 px-2">
     {navItems
-      .filter((item) => !item.adminOnly || isAdmin)
+      .filter((item) => !item.permission || can(item.permission))
       .map((item) => {
       const isActive = activeTab === item.id;
       const button = (
@@ -117,7 +81,7 @@ export const DashboardSidebar = ({
   onMobileMenuOpenChange 
 }: DashboardSidebarProps) => {
   const isMobile = useIsMobile();
-  const { isAdmin } = useAuth();
+  const can = useCan();
   const [collapsed, setCollapsed] = useState(false);
 
   // Close mobile drawer on resize to desktop
@@ -140,7 +104,7 @@ export const DashboardSidebar = ({
               activeTab={activeTab}
               onTabChange={onTabChange}
               collapsed={false}
-              isAdmin={isAdmin}
+              can={can}
               onItemClick={() => onMobileMenuOpenChange?.(false)}
             />
           </div>
@@ -170,7 +134,7 @@ export const DashboardSidebar = ({
           </Button>
         </div>
 
-        <NavItems activeTab={activeTab} onTabChange={onTabChange} collapsed={collapsed} isAdmin={isAdmin} />
+        <NavItems activeTab={activeTab} onTabChange={onTabChange} collapsed={collapsed} can={can} />
       </aside>
     </TooltipProvider>
   );
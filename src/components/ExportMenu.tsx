@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { format, startOfMonth, subMonths, endOfMonth } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Loader2 } from "lucide-react";
+import { useDataExport, type ExportDataset, type ExportFilters, type ExportFormat } from "@/hooks/useDataExport";
+
+interface ExportMenuProps {
+  dataset: ExportDataset;
+  // The panel's current filters, passed through to the export
+  filters?: ExportFilters;
+  // Initial date range (yyyy-MM-dd), e.g. from the panel's own date filter
+  from?: string;
+  to?: string;
+}
+
+const formatLabels: Record<ExportFormat, string> = {
+  xlsx: "Excel (.xlsx)",
+  csv: "CSV",
+  json: "JSON",
+};
+
+// Download button for a panel: exports every row matching its filters,
+// not just the page on screen
+export const ExportMenu = ({ dataset, filters = {}, from = "", to = "" }: ExportMenuProps) => {
+  const exportData = useDataExport();
+  const [open, setOpen] = useState(false);
+  const [fileFormat, setFileFormat] = useState<ExportFormat>("xlsx");
+  const [dateFrom, setDateFrom] = useState(from);
+  const [dateTo, setDateTo] = useState(to);
+
+  useEffect(() => {
+    if (open) {
+      setDateFrom(from);
+      setDateTo(to);
+    }
+  }, [open, from, to]);
+
+  const setLastMonth = () => {
+    const lastMonth = subMonths(new Date(), 1);
+    setDateFrom(format(startOfMonth(lastMonth), "yyyy-MM-dd"));
+    setDateTo(format(endOfMonth(lastMonth), "yyyy-MM-dd"));
+  };
+
+  const handleExport = () => {
+    exportData.mutate(
+      { dataset, format: fileFormat, filters: { ...filters, from: dateFrom, to: dateTo } },
+      { onSuccess: () => setOpen(false) }
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Download className="w-4 h-4" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <div className="space-y-1">
+          <Label className="text-xs">Format</Label>
+          <Select value={fileFormat} onValueChange={(v) => setFileFormat(v as ExportFormat)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(formatLabels) as ExportFormat[]).map((f) => (
+                <SelectItem key={f} value={f}>{formatLabels[f]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">From</Label>
+            <Input type="date" value={dateFrom} max={dateTo || undefined} onChange={(e) => setDateFrom(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">To</Label>
+            <Input type="date" value={dateTo} min={dateFrom || undefined} onChange={(e) => setDateTo(e.target.value)} className="h-9" />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={setLastMonth}>
+            Last month
+          </Button>
+          {(dateFrom || dateTo) && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => { setDateFrom(""); setDateTo(""); }}>
+              All dates
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">Uses the filters currently applied. Dates are Nairobi time.</p>
+        <Button size="sm" className="w-full gap-2" onClick={handleExport} disabled={exportData.isPending}>
+          {exportData.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Download
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -4,6 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Loader2, Save } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { useSimBalances, formatSimBalance } from '@/hooks/useSimBalances';
+import { useSimHealth, useSampleSimHealth, isSimRegistered, SimHealth } from '@/hooks/useSimHealth';
+import { SimHealthSparkline } from '@/components/SimHealthSparkline';
+import { formatDateNairobi } from '@/lib/dateUtils';
 
 interface GsmSpan {
   gsm_span: number;
@@ -12,12 +16,60 @@ interface GsmSpan {
   is_active: number;
 }
 
+const REGISTRATION_LABELS: Record<string, string> = {
+  registered: 'Registered',
+  roaming: 'Roaming',
+  searching: 'Searching',
+  denied: 'Denied',
+  unregistered: 'No network',
+  unknown: 'Unknown',
+};
+
+function SimHealthSummary({ health }: { health: SimHealth | undefined }) {
+  const latest = health?.latest;
+  if (!latest) {
+    return <p className="mt-2 text-[10px] text-muted-foreground">No health samples yet</p>;
+  }
+
+  const registered = isSimRegistered(latest.registration);
+  const failurePercent = health.failure_rate === null ? null : Math.round(health.failure_rate * 100);
+
+  return (
+    <div className="mt-2 grid grid-cols-2 gap-3 border-t border-border/50 pt-2">
+      <div className="min-w-0">
+        <div className="flex items-center justify-between gap-1 text-[10px] text-muted-foreground">
+          <span className="truncate" title={`Sampled ${formatDateNairobi(latest.created_at)}`}>
+            <span className={registered ? 'text-green-700 dark:text-green-300' : 'font-semibold text-red-700 dark:text-red-300'}>
+              {REGISTRATION_LABELS[latest.registration] || latest.registration}
+            </span>
+            {latest.operator && ` · ${latest.operator}`}
+          </span>
+          <span>{latest.signal_quality === null ? '—' : `${latest.signal_quality}/31`}</span>
+        </div>
+        <SimHealthSparkline samples={health.samples} metric="signal" />
+      </div>
+      <div className="min-w-0">
+        <div className="flex items-center justify-between gap-1 text-[10px] text-muted-foreground">
+          <span>Send failures</span>
+          <span className={health.failure_alerted_at ? 'font-semibold text-red-700 dark:text-red-300' : undefined}>
+            {failurePercent === null ? '—' : `${failurePercent}% last hour`}
+          </span>
+        </div>
+        <SimHealthSparkline samples={health.samples} metric="failures" />
+      </div>
+    </div>
+  );
+}
+
 export default function GsmSpanSettingsForm() {
   const queryClient = useQueryClient();
   const [gsmSpans, setGsmSpans] = useState<GsmSpan[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [editingNames, setEditingNames] = useState<Record<number, { name: string; phone: string }>>({});
+  const { data: balances = [] } = useSimBalances();
+  const { data: simHealth = [] } = useSimHealth();
+  const sampleSimHealth = useSampleSimHealth();
   const apiUrl = import.meta.env.VITE_API_URL;
 
   useEffect(() => {
@@ -82,6 +134,8 @@ export default function GsmSpanSettingsForm() {
         
         // Invalidate dashboard stats cache to refresh the dashboard
         queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+        // Take a health sample too so signal and registration are current
+        sampleSimHealth.mutate(undefined, { onError: (error) => console.error('Failed to sample SIM health:', error) });
       }
     } catch (error) {
       console.error('Failed to check GSM spans:', error);
@@ -112,7 +166,7 @@ export default function GsmSpanSettingsForm() {
 
       const response = await fetch(`${apiUrl}/api/gsm-spans/${gsmSpan}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${localStorage.getItem('authToken')}` },
         body: JSON.stringify({
           name: values.name.trim() || null,
           phone_number: values.phone.trim() || null
@@ -173,6 +227,8 @@ export default function GsmSpanSettingsForm() {
         {gsmSpans.map((span) => {
           const portNumber = span.gsm_span - 1;
           const isActive = span.is_active === 1;
+          const balance = balances.find((b) => b.gsm_span === span.gsm_span);
+          const health = simHealth.find((h) => h.gsm_span === span.gsm_span);
           
           return (
             <div key={span.gsm_span} className="rounded-lg border border-border/50 bg-background p-3">
@@ -185,6 +241,16 @@ export default function GsmSpanSettingsForm() {
                 </div>
 
                 <div className="flex items-center gap-2">
+                  {balance && balance.balance !== null && (
+                    <span
+                      className={`rounded px-2 py-0.5 text-[10px] font-semibold ${
+                        balance.is_low ? 'bg-red-500/20 text-red-700 dark:text-red-300' : 'bg-muted text-muted-foreground'
+                      }`}
+                      title={balance.balance_at ? `Checked ${formatDateNairobi(balance.balance_at)}` : undefined}
+                    >
+                      {formatSimBalance(balance)}
+                    </span>
+                  )}
                   <span className={`rounded px-2 py-0.5 text-[10px] font-semibold ${
                     isActive
                       ? 'bg-green-500/20 text-green-700 dark:text-green-300'
@@ -226,6 +292,8 @@ export default function GsmSpanSettingsForm() {
                   disabled={!isActive || saving}
                 />
               </div>
+
+              <SimHealthSummary health={health} />
             </div>
           );
         })}
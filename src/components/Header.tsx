@@ -2,6 +2,7 @@ import { Radio, LogOut, User, Menu } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 import { useAuth, signOut } from "@/hooks/useAuth";
+import { useMyPermissions } from "@/hooks/useCan";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,7 +22,8 @@ interface HeaderProps {
 }
 
 export const Header = ({ onProfileClick, onMenuClick }: HeaderProps) => {
-  const { user, role, isAdmin } = useAuth();
+  const { user, role } = useAuth();
+  const { data: myPermissions } = useMyPermissions();
   const isMobile = useIsMobile();
 
   const handleSignOut = async () => {
@@ -85,7 +87,7 @@ export const Header = ({ onProfileClick, onMenuClick }: HeaderProps) => {
                 <div className="flex flex-col gap-1">
                   <span className="truncate">{user?.email}</span>
                   <Badge variant={getRoleBadgeVariant()} className="w-fit text-xs">
-                    {role || "user"}
+                    {myPermissions?.label || role || "user"}
                   </Badge>
                 </div>
               </DropdownMenuLabel>
@@ -12,7 +12,7 @@ import { useActivityLogs } from "@/hooks/useActivityLogs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
 import { BarChart3, FileText, ScrollText, BrainCircuit, Send } from "lucide-react";
-import type { AppRole } from "@/hooks/useAuth";
+import { useCan, type Permission } from "@/hooks/useCan";
 import type { UserPermissions } from "@/hooks/useUserPermissions";
 
 type Section = "analytics" | "reports" | "logs" | "ai" | "telegram";
@@ -21,29 +21,25 @@ interface SectionItem {
   id: Section;
   label: string;
   icon: React.ElementType;
+  // Hidden unless the user's role grants this
+  permission?: Permission;
 }
 
 const allSections: SectionItem[] = [
   { id: "analytics", label: "Analytics", icon: BarChart3 },
   { id: "reports", label: "Reports", icon: FileText },
-  { id: "logs", label: "Logs", icon: ScrollText },
-  { id: "ai", label: "AI & Diagnostics", icon: BrainCircuit },
-  { id: "telegram", label: "Telegram", icon: Send },
+  { id: "logs", label: "Logs", icon: ScrollText, permission: "activity.view" },
+  { id: "ai", label: "AI & Diagnostics", icon: BrainCircuit, permission: "ai.view" },
+  { id: "telegram", label: "Telegram", icon: Send, permission: "telegram.view" },
 ];
 
-// Sections viewers are NOT allowed to see
-const VIEWER_HIDDEN_SECTIONS: Section[] = ["logs", "ai", "telegram"];
-
 interface InsightsPanelProps {
-  role?: AppRole | null;
   permissions?: UserPermissions;
 }
 
-export const InsightsPanel = ({ role, permissions }: InsightsPanelProps) => {
-  const isViewer = role === "viewer";
-  const sections = isViewer
-    ? allSections.filter(s => !VIEWER_HIDDEN_SECTIONS.includes(s.id))
-    : allSections;
+export const InsightsPanel = ({ permissions }: InsightsPanelProps) => {
+  const can = useCan();
+  const sections = allSections.filter(s => !s.permission || can(s.permission));
 
   const [active, setActive] = useState<Section>("analytics");
   const [dateFrom, setDateFrom] = useState<Date | undefined>();
@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bot, Loader2, PlugZap, Save } from "lucide-react";
+import {
+  useLlmConfig,
+  useTestLlmProvider,
+  useUpdateLlmConfig,
+  type LlmFeature,
+  type LlmProviderName,
+} from "@/hooks/useLlmProvider";
+
+const providerLabels: Record<LlmProviderName, string> = {
+  none: "Off",
+  openai: "OpenAI-compatible endpoint",
+  mock: "Mock (testing)",
+};
+
+const featureLabels: Record<LlmFeature, { label: string; description: string }> = {
+  classify: { label: "SMS categorization", description: "Second opinion when the built-in rules are unsure" },
+  reply_suggestions: { label: "Reply suggestions", description: "Draft replies in the conversation view" },
+  report_summary: { label: "Report summary", description: "Short overview added to the daily report" },
+};
+
+// Settings for the optional LLM behind the AI features. Works with Ollama,
+// llama.cpp server and anything else that speaks /v1/chat/completions.
+export const LlmProviderSettings = () => {
+  const { data: config, isLoading } = useLlmConfig();
+  const updateConfig = useUpdateLlmConfig();
+  const testProvider = useTestLlmProvider();
+
+  const [provider, setProvider] = useState<LlmProviderName>("none");
+  const [baseUrl, setBaseUrl] = useState("");
+  const [model, setModel] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [timeoutSeconds, setTimeoutSeconds] = useState("20");
+
+  useEffect(() => {
+    if (!config) return;
+    setProvider(config.provider);
+    setBaseUrl(config.base_url);
+    setModel(config.model);
+    setTimeoutSeconds(String(config.timeout_seconds));
+    setApiKey("");
+  }, [config]);
+
+  if (isLoading || !config) {
+    return <div className="h-24 bg-muted rounded animate-pulse" />;
+  }
+
+  const isDirty =
+    provider !== config.provider ||
+    baseUrl !== config.base_url ||
+    model !== config.model ||
+    timeoutSeconds !== String(config.timeout_seconds) ||
+    apiKey !== "";
+
+  const handleSave = () => {
+    updateConfig.mutate({
+      provider,
+      base_url: baseUrl.trim(),
+      model: model.trim(),
+      timeout_seconds: parseInt(timeoutSeconds) || 20,
+      ...(apiKey ? { api_key: apiKey } : {}),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Bot className="h-4 w-4" />
+          <span className="font-medium">AI Provider</span>
+          <Badge variant={config.available ? "secondary" : "outline"} className="text-xs">
+            {config.available ? "Connected" : "Not configured"}
+          </Badge>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => testProvider.mutate()}
+          disabled={!config.available || isDirty || testProvider.isPending}
+        >
+          {testProvider.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PlugZap className="h-4 w-4 mr-2" />}
+          Test
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Without a provider every feature keeps its built-in behaviour.
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label className="text-xs">Provider</Label>
+          <Select value={provider} onValueChange={(v) => setProvider(v as LlmProviderName)}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(providerLabels) as LlmProviderName[]).map((name) => (
+                <SelectItem key={name} value={name}>{providerLabels[name]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Timeout (seconds)</Label>
+          <Input
+            type="number"
+            min={1}
+            max={120}
+            value={timeoutSeconds}
+            onChange={(e) => setTimeoutSeconds(e.target.value)}
+            className="h-9"
+          />
+        </div>
+        {provider === "openai" && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">Base URL</Label>
+              <Input
+                placeholder="http://192.168.1.20:11434/v1"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                className="h-9 font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Model</Label>
+              <Input
+                placeholder="llama3.1:8b"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                className="h-9 font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label className="text-xs">API key (optional)</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  placeholder={config.has_api_key ? "•••••••• (unchanged)" : "Not needed for most local servers"}
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  className="h-9"
+                  autoComplete="off"
+                />
+                {config.has_api_key && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-9"
+                    onClick={() => updateConfig.mutate({ api_key: "" })}
+                    disabled={updateConfig.isPending}
+                  >
+                    Clear
+                  </Button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {isDirty && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={updateConfig.isPending}>
+            {updateConfig.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save provider
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {(Object.keys(featureLabels) as LlmFeature[]).map((feature) => (
+          <div key={feature} className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm">{featureLabels[feature].label}</p>
+              <p className="text-xs text-muted-foreground">{featureLabels[feature].description}</p>
+            </div>
+            <Switch
+              checked={config.features[feature]}
+              onCheckedChange={(checked) => updateConfig.mutate({ features: { [feature]: checked } })}
+              disabled={updateConfig.isPending}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
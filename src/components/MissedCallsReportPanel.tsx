@@ -1,9 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   PhoneMissed,
   Mail,
@@ -14,16 +15,30 @@ import {
   Loader2,
   Send,
   X,
+  PhoneOutgoing,
+  UserCheck,
 } from "lucide-react";
 import { format } from "date-fns";
 import { useMissedCallReport, useMarkCallbackAttempted, useSendMissedCallSms, type MissedCallRecord } from "@/hooks/useMissedCallReport";
 import { useAutoReplyConfig } from "../hooks/useAutoReplyConfig";
 import { usePortLabels, getPortLabel } from "@/hooks/usePortLabels";
 import { useExtensions } from "@/hooks/useExtensions";
+import { useQueueCall } from "@/hooks/useCallQueue";
+import {
+  useCallbackTasks,
+  useAssignCallback,
+  useRecordCallbackAttempt,
+  CALLBACK_OUTCOME_LABELS,
+  type CallbackOutcome,
+  type CallbackTask,
+} from "@/hooks/useCallbacks";
+import { useAgents } from "@/hooks/useAgents";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
 import { SendReportDialog } from "./SendReportDialog";
-import { useAuth } from "@/hooks/useAuth";
+import { CallbackSlaBadge } from "./CallbackSlaBadge";
+import { CallbackSlaReport } from "./CallbackSlaReport";
+import { useCan } from "@/hooks/useCan";
 import { useUserPermissions } from "@/hooks/useUserPermissions";
 
 interface MissedCallsReportPanelProps {
@@ -40,14 +55,20 @@ export const MissedCallsReportPanel = ({ dateFrom: initialDateFrom, dateTo: init
   const { mutate: markCallback, isPending: isMarking } = useMarkCallbackAttempted();
   const { mutate: sendSms, isPending: isSendingSms } = useSendMissedCallSms();
   const { data: portLabels } = usePortLabels();
-  const { getUsername } = useExtensions();
-  const { role } = useAuth();
+  const { extensions, getUsername } = useExtensions();
+  const { mutate: queueCall, isPending: isQueueing } = useQueueCall();
+  const { data: callbackData } = useCallbackTasks();
+  const { data: agents = [] } = useAgents();
+  const { mutate: assignCallback } = useAssignCallback();
+  const { mutate: recordAttempt, isPending: isRecordingAttempt } = useRecordCallbackAttempt();
+  const can = useCan();
   const { data: permissions } = useUserPermissions();
-  const isViewer = role === "viewer";
+  const restricted = !can("data.unrestricted");
   const viewerExtensions = permissions?.extensions ?? [];
 
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [notes, setNotes] = useState<Record<string, string>>({});
+  const [callbackExtensions, setCallbackExtensions] = useState<Record<string, string>>({});
   const [sendingSmsId, setSendingSmsId] = useState<string | null>(null);
   const [reportDialogOpen, setReportDialogOpen] = useState(false);
 
@@ -79,7 +100,7 @@ export const MissedCallsReportPanel = ({ dateFrom: initialDateFrom, dateTo: init
 
   // Filter calls by date range
   const filteredCalls = calls.filter((call) => {
-    if (isViewer && viewerExtensions.length > 0 && !viewerExtensions.includes(call.extension ?? "")) return false;
+    if (restricted && viewerExtensions.length > 0 && !viewerExtensions.includes(call.extension ?? "")) return false;
     if (!dateFrom && !dateTo) return true;
     const callDate = new Date(call.start_time);
     if (dateFrom && callDate < dateFrom) return false;
@@ -87,8 +108,19 @@ export const MissedCallsReportPanel = ({ dateFrom: initialDateFrom, dateTo: init
     return true;
   });
 
-  const pending = filteredCalls.filter((c) => !c.callback_attempted);
-  const completed = filteredCalls.filter((c) => c.callback_attempted);
+  // The callback task is the source of truth once the agent has opened one
+  const tasksByCall = useMemo(
+    () => new Map((callbackData?.items ?? []).map((task) => [task.call_record_id, task])),
+    [callbackData]
+  );
+  const slaMinutes = callbackData?.sla_minutes ?? 30;
+  const isAwaitingCallback = (call: MissedCallRecord) => {
+    const task = tasksByCall.get(call.id);
+    return task ? task.status === "open" : !call.callback_attempted;
+  };
+
+  const pending = filteredCalls.filter(isAwaitingCallback);
+  const completed = filteredCalls.filter((c) => !isAwaitingCallback(c));
 
   const formatExtensionLabel = (extension: string | null) => {
     if (!extension) return null;
@@ -101,6 +133,58 @@ export const MissedCallsReportPanel = ({ dateFrom: initialDateFrom, dateTo: init
     setExpandedId(null);
   };
 
+  // Lines the callback up in the call queue; it is marked as called back once
+  // the agent's call finishes
+  const handleQueueCallback = (call: MissedCallRecord) => {
+    const extension = callbackExtensions[call.id] || call.extension;
+    if (!extension) return;
+    queueCall(
+      {
+        from_extension: extension,
+        to_number: call.caller_number,
+        metadata: { source: "missed_call", call_record_id: call.id, caller_name: call.caller_name },
+      },
+      {
+        onSuccess: () => toast.success(`Callback to ${call.caller_name || call.caller_number} queued for Ext ${extension}`),
+        onError: (error: Error) => toast.error(error.message || "Failed to queue callback"),
+      }
+    );
+  };
+
+  const handleRecordAttempt = (call: MissedCallRecord, task: CallbackTask, outcome: CallbackOutcome) => {
+    recordAttempt(
+      { id: task.id, outcome, notes: notes[call.id] || undefined },
+      {
+        onSuccess: () => {
+          toast.success(`Callback logged: ${CALLBACK_OUTCOME_LABELS[outcome]}`);
+          setNotes((prev) => ({ ...prev, [call.id]: "" }));
+          if (outcome === "reached" || outcome === "wrong_number") setExpandedId(null);
+        },
+        onError: (error: Error) => toast.error(error.message || "Failed to log callback"),
+      }
+    );
+  };
+
+  const handleAssign = (task: CallbackTask, agentId: string) => {
+    assignCallback(
+      { id: task.id, agent_id: agentId === "none" ? null : agentId },
+      { onError: (error: Error) => toast.error(error.message || "Failed to assign callback") }
+    );
+  };
+
+  const describeResolution = (task?: CallbackTask) => {
+    switch (task?.resolution) {
+      case "reached":
+        return "Reached";
+      case "wrong_number":
+        return "Wrong number";
+      case "caller_called_back":
+        return "Caller rang back";
+      default:
+        return "Called back";
+    }
+  };
+
   const handleNotify = (call: MissedCallRecord) => {
     setSendingSmsId(call.id);
     sendSms(
@@ -169,13 +253,15 @@ export const MissedCallsReportPanel = ({ dateFrom: initialDateFrom, dateTo: init
           <h1 className="text-lg font-semibold">Missed Calls Report</h1>
           <p className="text-xs text-muted-foreground mt-0.5">Track and manage missed call callbacks</p>
         </div>
-        <Button
-          className="gap-2"
-          onClick={() => setReportDialogOpen(true)}
-        >
-          <Send className="w-4 h-4" />
-          Send Report
-        </Button>
+        {(can("telegram.view") || can("reports.manage")) && (
+          <Button
+            className="gap-2"
+            onClick={() => setReportDialogOpen(true)}
+          >
+            <Send className="w-4 h-4" />
+            Send Report
+          </Button>
+        )}
       </div>
 
       <SendReportDialog open={reportDialogOpen} onOpenChange={setReportDialogOpen} />
@@ -249,98 +335,183 @@ export const MissedCallsReportPanel = ({ dateFrom: initialDateFrom, dateTo: init
             </div>
           ) : (
             <div className="space-y-3">
-              {pending.map((call) => (
-                <div
-                  key={call.id}
-                  className="rounded-lg border border-border/40 bg-muted/20 overflow-hidden"
-                >
-                  <div className="flex items-center justify-between p-4">
-                    <div className="flex items-center gap-3 min-w-0">
-                      <div className="flex items-center justify-center w-9 h-9 rounded-full bg-destructive/10 shrink-0">
-                        <PhoneMissed className="w-4 h-4 text-destructive" />
-                      </div>
-                      <div className="min-w-0">
-                        <p className="font-medium text-sm truncate">
-                          {call.caller_name || call.caller_number}
-                        </p>
-                        {call.caller_name && (
-                          <p className="text-xs text-muted-foreground font-mono">{call.caller_number}</p>
-                        )}
-                        <div className="flex items-center gap-2 mt-1">
-                          <Clock className="w-3 h-3 text-muted-foreground" />
-                          <span className="text-xs text-muted-foreground">
-                            {format(new Date(call.start_time), "dd MMM yyyy HH:mm")}
-                          </span>
-                          {call.extension && (
-                            <Badge variant="secondary" className="text-xs h-4 px-1">
-                              {formatExtensionLabel(call.extension)}
-                            </Badge>
+              {pending.map((call) => {
+                const task = tasksByCall.get(call.id);
+                return (
+                  <div
+                    key={call.id}
+                    className="rounded-lg border border-border/40 bg-muted/20 overflow-hidden"
+                  >
+                    <div className="flex items-center justify-between p-4">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <div className="flex items-center justify-center w-9 h-9 rounded-full bg-destructive/10 shrink-0">
+                          <PhoneMissed className="w-4 h-4 text-destructive" />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="font-medium text-sm truncate">
+                            {call.caller_name || call.caller_number}
+                          </p>
+                          {call.caller_name && (
+                            <p className="text-xs text-muted-foreground font-mono">{call.caller_number}</p>
                           )}
-                          {call.sim_port && (
-                            <Badge variant="outline" className="text-xs h-4 px-1">
-                              {getPortLabel(call.sim_port, portLabels)}
-                            </Badge>
+                          <div className="flex items-center gap-2 mt-1">
+                            <Clock className="w-3 h-3 text-muted-foreground" />
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(call.start_time), "dd MMM yyyy HH:mm")}
+                            </span>
+                            {call.extension && (
+                              <Badge variant="secondary" className="text-xs h-4 px-1">
+                                {formatExtensionLabel(call.extension)}
+                              </Badge>
+                            )}
+                            {call.sim_port && (
+                              <Badge variant="outline" className="text-xs h-4 px-1">
+                                {getPortLabel(call.sim_port, portLabels)}
+                              </Badge>
+                            )}
+                          </div>
+                          {task && (
+                            <div className="flex items-center gap-2 mt-1 flex-wrap">
+                              <CallbackSlaBadge task={task} slaMinutes={slaMinutes} />
+                              {task.assigned_agent_name && (
+                                <Badge variant="secondary" className="text-xs h-5 px-1.5 gap-1">
+                                  <UserCheck className="w-3 h-3" />
+                                  {task.assigned_agent_name}
+                                </Badge>
+                              )}
+                              {task.attempt_count > 0 && task.last_outcome && (
+                                <span className="text-xs text-muted-foreground">
+                                  {task.attempt_count} attempt{task.attempt_count === 1 ? "" : "s"} · last: {CALLBACK_OUTCOME_LABELS[task.last_outcome]}
+                                </span>
+                              )}
+                            </div>
                           )}
                         </div>
                       </div>
+                      <div className="flex items-center gap-2 shrink-0 ml-3">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-8 gap-1.5 text-xs"
+                          disabled={sendingSmsId === call.id || isSendingSms}
+                          onClick={() => handleNotify(call)}
+                        >
+                          {sendingSmsId === call.id ? (
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                          ) : (
+                            <Mail className="w-3 h-3" />
+                          )}
+                          Notify
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 px-2"
+                          onClick={() => setExpandedId(expandedId === call.id ? null : call.id)}
+                        >
+                          {expandedId === call.id ? (
+                            <ChevronUp className="w-4 h-4" />
+                          ) : (
+                            <ChevronDown className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </div>
                     </div>
-                    <div className="flex items-center gap-2 shrink-0 ml-3">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        className="h-8 gap-1.5 text-xs"
-                        disabled={sendingSmsId === call.id || isSendingSms}
-                        onClick={() => handleNotify(call)}
-                      >
-                        {sendingSmsId === call.id ? (
-                          <Loader2 className="w-3 h-3 animate-spin" />
-                        ) : (
-                          <Mail className="w-3 h-3" />
+                    {expandedId === call.id && (
+                      <div className="border-t border-border/30 p-4 bg-muted/10 space-y-3">
+                        {task && can("callbacks.manage") && (
+                          <Select
+                            value={task.assigned_agent_id || "none"}
+                            onValueChange={(value) => handleAssign(task, value)}
+                          >
+                            <SelectTrigger className="h-9 w-[220px] text-xs">
+                              <SelectValue placeholder="Assign to agent" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">Unassigned</SelectItem>
+                              {agents.map((agent) => (
+                                <SelectItem key={agent.id} value={agent.id}>
+                                  {agent.name}{agent.extension ? ` (Ext ${agent.extension})` : ""}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         )}
-                        Notify
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        className="h-8 px-2"
-                        onClick={() => setExpandedId(expandedId === call.id ? null : call.id)}
-                      >
-                        {expandedId === call.id ? (
-                          <ChevronUp className="w-4 h-4" />
-                        ) : (
-                          <ChevronDown className="w-4 h-4" />
+                        <Textarea
+                          placeholder="Add a note about this callback (optional)..."
+                          rows={2}
+                          className="text-sm bg-muted/30 border-border/50 resize-none"
+                          value={notes[call.id] || ""}
+                          onChange={(e) =>
+                            setNotes((prev) => ({ ...prev, [call.id]: e.target.value }))
+                          }
+                        />
+                        {task && can("callbacks.work") && (
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-xs text-muted-foreground">Log attempt:</span>
+                            {(Object.keys(CALLBACK_OUTCOME_LABELS) as CallbackOutcome[]).map((outcome) => (
+                              <Button
+                                key={outcome}
+                                size="sm"
+                                variant={outcome === "reached" ? "default" : "outline"}
+                                className="h-8 text-xs"
+                                disabled={isRecordingAttempt}
+                                onClick={() => handleRecordAttempt(call, task, outcome)}
+                              >
+                                {CALLBACK_OUTCOME_LABELS[outcome]}
+                              </Button>
+                            ))}
+                          </div>
                         )}
-                      </Button>
-                    </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button
+                            size="sm"
+                            className="gap-2"
+                            disabled={isMarking}
+                            onClick={() => handleMarkCallback(call.id)}
+                          >
+                            {isMarking ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <CheckCircle2 className="w-4 h-4" />
+                            )}
+                            Mark as Called Back
+                          </Button>
+                          {can("calls.dial") && (
+                            <>
+                              <Select
+                                value={callbackExtensions[call.id] || call.extension || ""}
+                                onValueChange={(value) => setCallbackExtensions((prev) => ({ ...prev, [call.id]: value }))}
+                              >
+                                <SelectTrigger className="h-9 w-[200px] text-xs">
+                                  <SelectValue placeholder="Extension to call from" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {extensions.map((ext) => (
+                                    <SelectItem key={ext.extnumber} value={ext.extnumber}>
+                                      {ext.extnumber} - {ext.username}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="gap-2"
+                                disabled={isQueueing || !(callbackExtensions[call.id] || call.extension)}
+                                onClick={() => handleQueueCallback(call)}
+                              >
+                                <PhoneOutgoing className="w-4 h-4" />
+                                Queue Callback
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </div>
-                  {expandedId === call.id && (
-                    <div className="border-t border-border/30 p-4 bg-muted/10 space-y-3">
-                      <Textarea
-                        placeholder="Add a note about this callback (optional)..."
-                        rows={2}
-                        className="text-sm bg-muted/30 border-border/50 resize-none"
-                        value={notes[call.id] || ""}
-                        onChange={(e) =>
-                          setNotes((prev) => ({ ...prev, [call.id]: e.target.value }))
-                        }
-                      />
-                      <Button
-                        size="sm"
-                        className="gap-2"
-                        disabled={isMarking}
-                        onClick={() => handleMarkCallback(call.id)}
-                      >
-                        {isMarking ? (
-                          <Loader2 className="w-4 h-4 animate-spin" />
-                        ) : (
-                          <CheckCircle2 className="w-4 h-4" />
-                        )}
-                        Mark as Called Back
-                      </Button>
-                    </div>
-                  )}
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </CardContent>
@@ -388,15 +559,22 @@ export const MissedCallsReportPanel = ({ dateFrom: initialDateFrom, dateTo: init
                       </div>
                     </div>
                   </div>
-                  <Badge variant="outline" className="text-success border-success/30 text-xs shrink-0">
-                    Called back
-                  </Badge>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {tasksByCall.get(call.id) && (
+                      <CallbackSlaBadge task={tasksByCall.get(call.id)!} slaMinutes={slaMinutes} />
+                    )}
+                    <Badge variant="outline" className="text-success border-success/30 text-xs">
+                      {describeResolution(tasksByCall.get(call.id))}
+                    </Badge>
+                  </div>
                 </div>
               ))}
             </div>
           </CardContent>
         </Card>
       )}
+
+      <CallbackSlaReport dateFrom={dateFrom} dateTo={dateTo} />
     </div>
   );
 };
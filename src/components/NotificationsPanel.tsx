@@ -21,6 +21,7 @@ import {
   Bell,
   FileText,
   CheckCircle2,
+  CalendarClock,
 } from "lucide-react";
 import {
   useCallAutoSmsConfig,
@@ -35,7 +36,10 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TemplateModal } from "./TemplateModal";
-import { useAuth } from "@/hooks/useAuth";
+import { AutoReplyPanel } from "./AutoReplyPanel";
+import { AutoReplyRulesPanel } from "./AutoReplyRulesPanel";
+import { ScheduledReportsPanel } from "./ScheduledReportsPanel";
+import { useCan } from "@/hooks/useCan";
 
 interface AlertConfig {
   enabled: boolean;
@@ -50,7 +54,7 @@ interface AlertConfig {
 }
 
 export const NotificationsPanel = () => {
-  const { isAdmin } = useAuth();
+  const can = useCan();
 
   // ── SMS state ──────────────────────────────────────────────────────────────
   const { data: config, isLoading: smsLoading } = useCallAutoSmsConfig();
@@ -193,7 +197,7 @@ export const NotificationsPanel = () => {
 
       const res = await fetch(`${apiUrl}/api/notifications-setup`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify(payload),
       });
       if (!res.ok) throw new Error("Failed to save");
@@ -228,7 +232,7 @@ export const NotificationsPanel = () => {
       const apiUrl = import.meta.env.VITE_API_URL;
       const res = await fetch(`${apiUrl}/api/manual-report`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
       });
       const result = await res.json();
       console.log('Manual report response:', { status: res.status, result }); // Debug log
@@ -308,7 +312,7 @@ export const NotificationsPanel = () => {
     const apiUrl = import.meta.env.VITE_API_URL;
     const res = await fetch(`${apiUrl}/api/notification-templates/${eventType}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${localStorage.getItem('authToken')}` },
       body: JSON.stringify({ template_text: text }),
     });
     const result = await res.json();
@@ -394,7 +398,7 @@ export const NotificationsPanel = () => {
     );
   }
 
-  if (!isAdmin) {
+  if (!can("notifications.manage")) {
     return (
       <div className="flex items-center justify-center py-20">
         <Card className="max-w-md w-full">
@@ -402,7 +406,7 @@ export const NotificationsPanel = () => {
             <Bell className="w-10 h-10 mx-auto text-muted-foreground/50" />
             <h2 className="text-lg font-semibold">Access Restricted</h2>
             <p className="text-sm text-muted-foreground">
-              Notifications settings are only available to Admin and Super Admin roles.
+              Your role does not have the notifications.manage permission.
             </p>
           </CardContent>
         </Card>
@@ -435,6 +439,12 @@ export const NotificationsPanel = () => {
             <Mail className="w-4 h-4" />
             Email
           </TabsTrigger>
+          {can("reports.manage") && (
+            <TabsTrigger value="reports" className="gap-2">
+              <CalendarClock className="w-4 h-4" />
+              Reports
+            </TabsTrigger>
+          )}
         </TabsList>
 
         {/* ── SMS Tab ──────────────────────────────────────────────────────── */}
@@ -693,6 +703,10 @@ export const NotificationsPanel = () => {
               </div>
             </CardContent>
           </Card>
+
+          {/* Inbound SMS auto-replies: keyword rules first, generic reply for the rest */}
+          <AutoReplyRulesPanel />
+          <AutoReplyPanel />
         </TabsContent>
 
         {/* ── Telegram Tab ─────────────────────────────────────────────────── */}
@@ -934,6 +948,13 @@ export const NotificationsPanel = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* ── Scheduled Reports Tab ────────────────────────────────────────── */}
+        {can("reports.manage") && (
+          <TabsContent value="reports" className="space-y-6">
+            <ScheduledReportsPanel />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
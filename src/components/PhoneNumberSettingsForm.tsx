@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Save, RefreshCw, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatDateNairobi } from "@/lib/dateUtils";
+import { isValidCountryCode, toE164 } from "@/lib/phone";
+import {
+  usePhoneNormalizationSettings,
+  useUpdatePhoneNormalization,
+  useRelinkPhoneNumbers,
+  PhoneRelinkResult,
+} from "@/hooks/usePhoneNormalization";
+
+const describeRelink = (result: PhoneRelinkResult | null) =>
+  result
+    ? `${result.sms} SMS, ${result.calls} call and ${result.contacts} contact numbers updated; ${result.merged} duplicate contacts merged`
+    : "Stored numbers are unchanged";
+
+export const PhoneNumberSettingsForm = () => {
+  const { data: settings } = usePhoneNormalizationSettings();
+  const updateSettings = useUpdatePhoneNormalization();
+  const relink = useRelinkPhoneNumbers();
+  const [codeDraft, setCodeDraft] = useState("");
+
+  const currentCode = settings?.default_country_code ?? "254";
+  const draft = codeDraft.replace(/^\+/, "").trim();
+  const example = toE164("0712345678", isValidCountryCode(draft) ? draft : currentCode);
+
+  const handleSave = () => {
+    if (!isValidCountryCode(draft)) {
+      toast.error("Enter a country calling code, e.g. 254");
+      return;
+    }
+    updateSettings.mutate(draft, {
+      onSuccess: ({ relinked }) => {
+        toast.success(`Default country set to +${draft}. ${describeRelink(relinked)}`);
+        setCodeDraft("");
+      },
+      onError: (error: Error) => toast.error(error.message || "Failed to update country code"),
+    });
+  };
+
+  const handleRelink = () => {
+    relink.mutate(undefined, {
+      onSuccess: ({ relinked }) => toast.success(describeRelink(relinked)),
+      onError: (error: Error) => toast.error(error.message || "Failed to normalise numbers"),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-2 flex-wrap">
+        <div className="space-y-1">
+          <Label htmlFor="phone-country-code" className="text-xs">
+            Default country code
+          </Label>
+          <Input
+            id="phone-country-code"
+            placeholder={`+${currentCode}`}
+            value={codeDraft}
+            onChange={(e) => setCodeDraft(e.target.value)}
+            className="h-8 w-28 text-sm"
+          />
+        </div>
+        <Button size="sm" variant="outline" className="h-8 gap-1" disabled={!draft || updateSettings.isPending} onClick={handleSave}>
+          {updateSettings.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" className="h-8 gap-1" disabled={relink.isPending} onClick={handleRelink}>
+          {relink.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+          Re-normalise stored numbers
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Local numbers like 0712345678 are stored as {example ?? "—"}. The number as reported by the gateway or PBX is kept
+        alongside. Changing the country re-normalises stored numbers.
+        {settings?.relinked_at && ` Last normalised ${formatDateNairobi(settings.relinked_at)}.`}
+      </p>
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useLatestDiagnostics, useRunDiagnostics, OptimizationResult } from "@/hooks/useDiagnostics";
+import { formatDateNairobi } from "@/lib/dateUtils";
 import { 
   Brain, 
   RefreshCw, 
@@ -14,67 +16,49 @@ import {
   Shield
 } from "lucide-react";
 
-interface PredictionResult {
-  risk_level: 'low' | 'medium' | 'high' | 'critical';
-  prediction: string;
-  recommended_action: string;
-  auto_applied: boolean;
-}
-
-interface OptimizationResult {
-  prediction: PredictionResult;
-  tuning: {
-    recommendations: Array<{
-      config: string;
-      old_value: number;
-      new_value: number;
-      reason: string;
-    }>;
-    error_count: number;
-  };
-  learning: {
-    feedback_count: number;
-    patterns_found: number;
-    insights: string[];
-    ai_rules: string[];
-  };
-}
-
 export function PredictiveMaintenancePanel() {
   const { toast } = useToast();
-  const [isLoading, setIsLoading] = useState(false);
-  const [lastResult, setLastResult] = useState<OptimizationResult | null>(null);
+  const { data: latest } = useLatestDiagnostics();
+  const runDiagnostics = useRunDiagnostics();
+  const [runResult, setRunResult] = useState<OptimizationResult | null>(null);
+  const isLoading = runDiagnostics.isPending;
+  // A health check isn't stored, so show it over the last stored run until the next full run
+  const lastResult = runResult ?? latest ?? null;
 
-  const runFullOptimization = async () => {
-    setIsLoading(true);
-    try {
-      throw new Error("AI diagnostics are not available in local mode");
-    } catch (error) {
-      toast({
-        title: "Optimization Failed",
-        description: error instanceof Error ? error.message : "Unknown error",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
+  const runFullOptimization = () => {
+    runDiagnostics.mutate("full", {
+      onSuccess: (result) => {
+        setRunResult(result);
+        toast({
+          title: "Optimization Complete",
+          description: `${result.prediction.risk_level} risk · ${result.recommendations_created} new recommendation(s), ${result.recommendations_updated} updated`,
+        });
+      },
+      onError: (error: Error) => {
+        toast({
+          title: "Optimization Failed",
+          description: error.message || "Unknown error",
+          variant: "destructive",
+        });
+      },
+    });
   };
 
-  const runPredictiveCheck = async () => {
-    setIsLoading(true);
-    try {
-      throw new Error("AI diagnostics are not available in local mode");
-    } catch (error) {
-      toast({
-        title: "Analysis Failed",
-        description: error instanceof Error ? error.message : "Unknown error",
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
-    }
+  const runPredictiveCheck = () => {
+    runDiagnostics.mutate("health", {
+      onSuccess: (result) => setRunResult(result),
+      onError: (error: Error) => {
+        toast({
+          title: "Analysis Failed",
+          description: error.message || "Unknown error",
+          variant: "destructive",
+        });
+      },
+    });
   };
 
+  const formatTuningValue = (value: number, unit: string | null) => (unit ? `${value}${unit}` : String(value));
+
   const getRiskColor = (level: string) => {
     switch (level) {
       case 'critical': return 'bg-red-500';
@@ -104,7 +88,7 @@ export function PredictiveMaintenancePanel() {
             AI Predictive Maintenance
           </h3>
           <p className="text-sm text-muted-foreground">
-            AI-powered system health monitoring and auto-optimization
+            Offline health checks over errors, SIM ports and call outcomes, with tuning suggestions
           </p>
         </div>
         <div className="flex gap-2">
@@ -129,7 +113,7 @@ export function PredictiveMaintenancePanel() {
                 {getRiskIcon(lastResult.prediction.risk_level)}
                 System Health Prediction
               </CardTitle>
-              <CardDescription>Current risk assessment</CardDescription>
+              <CardDescription>Analyzed {formatDateNairobi(lastResult.analyzed_at)}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="flex items-center gap-2">
@@ -146,6 +130,16 @@ export function PredictiveMaintenancePanel() {
               <p className="text-sm text-muted-foreground">
                 <strong>Recommended:</strong> {lastResult.prediction.recommended_action}
               </p>
+              {lastResult.findings.length > 1 && (
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {lastResult.findings.slice(1, 6).map((finding) => (
+                    <li key={finding.key} className="flex items-start gap-2">
+                      <span className="text-primary">•</span>
+                      {finding.title}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </CardContent>
           </Card>
 
@@ -166,7 +160,7 @@ export function PredictiveMaintenancePanel() {
                   <div key={i} className="text-sm p-2 bg-muted rounded">
                     <div className="font-medium">{rec.config}</div>
                     <div className="text-muted-foreground">
-                      {rec.old_value}ms → {rec.new_value}ms
+                      {formatTuningValue(rec.old_value, rec.unit)} → {formatTuningValue(rec.new_value, rec.unit)}
                     </div>
                     <div className="text-xs mt-1">{rec.reason}</div>
                   </div>
@@ -6,50 +6,50 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Phone, X, Loader2 } from "lucide-react";
 import { useExtensions } from "@/hooks/useExtensions";
+import { useQueueCall } from "@/hooks/useCallQueue";
 import { toast } from "@/hooks/use-toast";
 
+const PRIORITIES = [
+  { value: "0", label: "Normal" },
+  { value: "5", label: "High" },
+  { value: "10", label: "Urgent" },
+];
+
 export const QuickDialWidget = () => {
   const [phoneNumber, setPhoneNumber] = useState("");
   const [selectedExtension, setSelectedExtension] = useState("");
-  const [isDialing, setIsDialing] = useState(false);
-  const { extensions, isLoading, getExtensionName } = useExtensions();
+  const [priority, setPriority] = useState("0");
+  const { extensions, isLoading } = useExtensions();
+  const { mutate: queueCall, isPending: isDialing } = useQueueCall();
 
-  const handleDial = async () => {
+  // Calls go through the agent's queue: dialled as soon as the extension is idle
+  const handleDial = () => {
     if (!phoneNumber.trim() || !selectedExtension) return;
-    
-    setIsDialing(true);
-    try {
-      const apiUrl = import.meta.env.VITE_API_URL;
-      const response = await fetch(`${apiUrl}/api/pbx-call/dial`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          caller: selectedExtension,
-          callee: phoneNumber,
-          autoanswer: "no"
-        })
-      });
-      
-      const data = await response.json();
-      
-      if (data.success) {
-        toast({
-          title: "✅ Call Initiated",
-          description: `Calling ${phoneNumber} from extension ${selectedExtension} (Call ID: ${data.data?.callid || 'pending'})`,
-        });
-        setPhoneNumber("");
-      } else {
-        throw new Error(data.error || "Failed to initiate call");
+
+    queueCall(
+      {
+        from_extension: selectedExtension,
+        to_number: phoneNumber.trim(),
+        priority: Number(priority),
+        metadata: { source: "quick_dial" },
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "✅ Call Queued",
+            description: `${phoneNumber} will be dialled from extension ${selectedExtension} when it is free`,
+          });
+          setPhoneNumber("");
+        },
+        onError: (error) => {
+          toast({
+            title: "❌ Call Failed",
+            description: error instanceof Error ? error.message : "Failed to queue call",
+            variant: "destructive",
+          });
+        },
       }
-    } catch (error) {
-      toast({
-        title: "❌ Call Failed",
-        description: error instanceof Error ? error.message : "Failed to initiate call",
-        variant: "destructive",
-      });
-    } finally {
-      setIsDialing(false);
-    }
+    );
   };
 
   const handleKeypadClick = (digit: string) => {
@@ -97,6 +97,23 @@ export const QuickDialWidget = () => {
           </Select>
         </div>
 
+        {/* Priority */}
+        <div className="space-y-2">
+          <Label htmlFor="priority">Priority</Label>
+          <Select value={priority} onValueChange={setPriority} disabled={isDialing}>
+            <SelectTrigger id="priority">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PRIORITIES.map((p) => (
+                <SelectItem key={p.value} value={p.value}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Phone number input */}
         <div className="space-y-2">
           <Label htmlFor="phone">Phone Number</Label>
@@ -149,7 +166,7 @@ export const QuickDialWidget = () => {
             disabled={isDialing || !phoneNumber || !selectedExtension}
           >
             {isDialing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Phone className="h-4 w-4 mr-2" />}
-            {isDialing ? "Dialing..." : "Call"}
+            {isDialing ? "Queueing..." : "Call"}
           </Button>
         </div>
       </CardContent>
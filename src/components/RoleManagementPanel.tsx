@@ -8,20 +8,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
 import { Shield, ShieldCheck, UserCog, Eye, Crown, UserPlus, Loader2, KeyRound, Trash2, ChevronsUpDown, Check, Search, X } from "lucide-react";
-import { useUsersWithRoles, useCurrentUserRole, useUpdateUserRole, useCreateUser, useDeleteUser, ROLE_META, type AppRole } from "@/hooks/useRoles";
+import { useUsersWithRoles, useRoleDefinitions, useUpdateUserRole, useCreateUser, useDeleteUser, roleColor, SUPER_ADMIN_ROLE, type AppRole } from "@/hooks/useRoles";
+import { useCan, useMyPermissions } from "@/hooks/useCan";
+import { RolePermissionsEditor } from "@/components/RolePermissionsEditor";
 import { useExtensions } from "@/hooks/useExtensions";
 import { usePortLabels, getPortLabel } from "@/hooks/usePortLabels";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
 
-const ROLE_ICONS: Record<AppRole, React.ElementType> = {
+const ROLE_ICONS: Record<string, React.ElementType> = {
   super_admin: Crown,
   admin: ShieldCheck,
   operator: UserCog,
   viewer: Eye,
 };
 
-const ROLE_ORDER: AppRole[] = ["super_admin", "admin", "operator", "viewer"];
+// Custom roles get the generic shield
+const roleIcon = (role: AppRole) => ROLE_ICONS[role] || Shield;
 
 const generatePin = () => {
   return String(Math.floor(100000 + Math.random() * 900000));
@@ -171,14 +174,22 @@ const ExtensionMultiSelect = ({
 
 export const RoleManagementPanel = () => {
   const { data: users, isLoading } = useUsersWithRoles();
-  const { data: currentRole } = useCurrentUserRole();
+  const { data: roles } = useRoleDefinitions();
+  const { data: myPermissions } = useMyPermissions();
+  const can = useCan();
   const updateRole = useUpdateUserRole();
   const createUser = useCreateUser();
   const { extensions, isLoading: extensionsLoading } = useExtensions();
   const { data: portLabels } = usePortLabels();
   const ALL_PORTS = [1, 2, 3, 4];
 
-  const isSuperAdmin = currentRole === "super_admin";
+  const canManageRoles = can("roles.manage");
+  // Only a super admin can hand out super admin
+  const assignableRoles = (roles || []).filter(
+    (r) => r.name !== SUPER_ADMIN_ROLE || myPermissions?.role === SUPER_ADMIN_ROLE
+  );
+  const roleByName = (name: AppRole) => (roles || []).find((r) => r.name === name);
+  const roleLabel = (name: AppRole) => roleByName(name)?.label || name;
   const deleteUser = useDeleteUser();
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
 
@@ -201,6 +212,8 @@ export const RoleManagementPanel = () => {
     setSelectedExtensions([]);
   };
 
+  const isRestrictedRole = !roleByName(role)?.permissions.includes("data.unrestricted");
+
   const handleCreate = async () => {
     if (!email || !password || password.length < 6) return;
     
@@ -212,8 +225,8 @@ export const RoleManagementPanel = () => {
       pin,
     });
 
-    // If viewer role and permissions are specified, send them to the API
-    if (role === "viewer" && newUserResult && (selectedPorts.length > 0 || selectedExtensions.length > 0)) {
+    // Roles without unrestricted data access can be limited to some ports/extensions
+    if (isRestrictedRole && newUserResult && (selectedPorts.length > 0 || selectedExtensions.length > 0)) {
       const token = localStorage.getItem("authToken");
       const apiUrl = import.meta.env.VITE_API_URL;
 
@@ -252,20 +265,19 @@ export const RoleManagementPanel = () => {
     <div className="space-y-6">
       {/* Role Overview Cards */}
       <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        {ROLE_ORDER.map((role) => {
-          const Icon = ROLE_ICONS[role];
-          const count = (users || []).filter((u) => u.role === role).length;
+        {(roles || []).map((role) => {
+          const Icon = roleIcon(role.name);
           return (
-            <Card key={role}>
+            <Card key={role.name}>
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm font-medium flex items-center gap-2">
                   <Icon className="w-4 h-4" />
-                  {ROLE_META.labels[role]}
+                  {role.label}
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold">{count}</div>
-                <p className="text-xs text-muted-foreground mt-1">{ROLE_META.descriptions[role]}</p>
+                <div className="text-2xl font-bold">{role.user_count}</div>
+                <p className="text-xs text-muted-foreground mt-1">{role.description}</p>
               </CardContent>
             </Card>
           );
@@ -282,12 +294,12 @@ export const RoleManagementPanel = () => {
                 User Roles
               </CardTitle>
               <CardDescription>
-                {isSuperAdmin
-                  ? "As Super Admin, you can assign roles and add users"
-                  : "Only Super Admins can modify user roles"}
+                {canManageRoles
+                  ? "You can assign roles and add users"
+                  : "Your role does not allow changing user roles"}
               </CardDescription>
             </div>
-            {isSuperAdmin && (
+            {canManageRoles && (
               <Dialog open={open} onOpenChange={(v) => { setOpen(v); if (!v) resetForm(); }}>
                 <DialogTrigger asChild>
                   <Button size="sm" className="gap-2">
@@ -369,11 +381,11 @@ export const RoleManagementPanel = () => {
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {ROLE_ORDER.map((r) => (
-                            <SelectItem key={r} value={r}>
+                          {assignableRoles.map((r) => (
+                            <SelectItem key={r.name} value={r.name}>
                               <span className="flex items-center gap-2">
-                                {ROLE_META.labels[r]}
-                                <span className="text-xs text-muted-foreground">— {ROLE_META.descriptions[r]}</span>
+                                {r.label}
+                                {r.description && <span className="text-xs text-muted-foreground">— {r.description}</span>}
                               </span>
                             </SelectItem>
                           ))}
@@ -381,7 +393,7 @@ export const RoleManagementPanel = () => {
                       </Select>
                     </div>
 
-                    {role === "viewer" && (
+                    {isRestrictedRole && (
                       <>
                         <div className="space-y-2">
                           <Label>Allowed SIM Ports (leave empty for all)</Label>
@@ -468,8 +480,8 @@ export const RoleManagementPanel = () => {
                   <TableHead>User</TableHead>
                   <TableHead>Current Role</TableHead>
                   <TableHead>Permissions</TableHead>
-                  {isSuperAdmin && <TableHead>Change Role</TableHead>}
-                  {isSuperAdmin && <TableHead></TableHead>}
+                  {canManageRoles && <TableHead>Change Role</TableHead>}
+                  {canManageRoles && <TableHead></TableHead>}
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -479,8 +491,8 @@ export const RoleManagementPanel = () => {
                   </TableRow>
                 ) : (
                   (users || []).map((user) => {
-                    const Icon = ROLE_ICONS[user.role];
-                    const isCurrentSuperAdmin = user.role === "super_admin";
+                    const Icon = roleIcon(user.role);
+                    const isCurrentSuperAdmin = user.role === SUPER_ADMIN_ROLE;
                     return (
                       <TableRow key={user.user_id}>
                         <TableCell>
@@ -488,17 +500,17 @@ export const RoleManagementPanel = () => {
                           <div className="text-xs text-muted-foreground">ID: {user.user_id.slice(0, 8)}...</div>
                         </TableCell>
                         <TableCell>
-                          <Badge className={cn("gap-1", ROLE_META.colors[user.role])}>
+                          <Badge className={cn("gap-1", roleColor(user.role))}>
                             <Icon className="w-3 h-3" />
-                            {ROLE_META.labels[user.role]}
+                            {roleLabel(user.role)}
                           </Badge>
                         </TableCell>
                         <TableCell>
                           <div className="text-xs text-muted-foreground max-w-[200px]">
-                            {ROLE_META.descriptions[user.role]}
+                            {roleByName(user.role)?.description}
                           </div>
                         </TableCell>
-                        {isSuperAdmin && (
+                        {canManageRoles && (
                           <TableCell>
                             {isCurrentSuperAdmin ? (
                               <span className="text-xs text-muted-foreground">Protected</span>
@@ -513,9 +525,9 @@ export const RoleManagementPanel = () => {
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  {ROLE_ORDER.filter((r) => r !== "super_admin").map((role) => (
-                                    <SelectItem key={role} value={role}>
-                                      {ROLE_META.labels[role]}
+                                  {assignableRoles.filter((r) => r.name !== SUPER_ADMIN_ROLE).map((r) => (
+                                    <SelectItem key={r.name} value={r.name}>
+                                      {r.label}
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
@@ -523,7 +535,7 @@ export const RoleManagementPanel = () => {
                             )}
                           </TableCell>
                         )}
-                        {isSuperAdmin && (
+                        {canManageRoles && (
                           <TableCell>
                             {!isCurrentSuperAdmin && (
                               confirmDeleteId === user.user_id ? (
@@ -563,31 +575,7 @@ export const RoleManagementPanel = () => {
         </CardContent>
       </Card>
 
-      {/* Role Hierarchy */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-sm font-medium">Role Hierarchy</CardTitle>
-          <CardDescription>Permissions cascade downward — higher roles include all lower permissions</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-3">
-            {ROLE_ORDER.map((role, i) => {
-              const Icon = ROLE_ICONS[role];
-              return (
-                <div key={role} className="flex items-start gap-3">
-                  <div className={cn("w-8 h-8 rounded-full flex items-center justify-center shrink-0", ROLE_META.colors[role])}>
-                    <Icon className="w-4 h-4" />
-                  </div>
-                  <div>
-                    <div className="font-medium text-sm">{ROLE_META.labels[role]}</div>
-                    <div className="text-xs text-muted-foreground">{ROLE_META.descriptions[role]}</div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        </CardContent>
-      </Card>
+      <RolePermissionsEditor />
     </div>
   );
 };
@@ -0,0 +1,294 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { KeySquare, Loader2, Pencil, Plus, Trash2, Eye } from "lucide-react";
+import {
+  useRoleDefinitions,
+  usePermissionCatalog,
+  useSaveRole,
+  useDeleteRole,
+  roleColor,
+  SUPER_ADMIN_ROLE,
+  type RoleDefinition,
+} from "@/hooks/useRoles";
+import { useCan, type Permission } from "@/hooks/useCan";
+import { cn } from "@/lib/utils";
+
+interface RoleDraft {
+  name: string;
+  label: string;
+  description: string;
+  permissions: Permission[];
+}
+
+const emptyDraft: RoleDraft = { name: "", label: "", description: "", permissions: [] };
+
+// Lists every role with its permission count, and edits a role's permission
+// set in a dialog. super_admin is shown read-only since it always has all.
+export const RolePermissionsEditor = () => {
+  const can = useCan();
+  const canManage = can("roles.manage");
+  const { data: roles, isLoading } = useRoleDefinitions();
+  const { data: catalog } = usePermissionCatalog();
+  const saveRole = useSaveRole();
+  const deleteRole = useDeleteRole();
+
+  const [editing, setEditing] = useState<RoleDefinition | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<RoleDraft>(emptyDraft);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const groups = useMemo(() => {
+    const map = new Map<string, NonNullable<typeof catalog>>();
+    for (const p of catalog || []) {
+      if (!map.has(p.group)) map.set(p.group, []);
+      map.get(p.group)!.push(p);
+    }
+    return Array.from(map.entries());
+  }, [catalog]);
+
+  const readOnly = !canManage || editing?.name === SUPER_ADMIN_ROLE;
+
+  const openRole = (role: RoleDefinition) => {
+    setEditing(role);
+    setIsNew(false);
+    setDraft({
+      name: role.name,
+      label: role.label,
+      description: role.description || "",
+      permissions: role.permissions,
+    });
+    setOpen(true);
+  };
+
+  const openNew = () => {
+    setEditing(null);
+    setIsNew(true);
+    setDraft(emptyDraft);
+    setOpen(true);
+  };
+
+  const copyFrom = (name: string) => {
+    const source = roles?.find((r) => r.name === name);
+    if (source) setDraft((d) => ({ ...d, permissions: source.permissions }));
+  };
+
+  const toggle = (key: Permission, checked: boolean) => {
+    setDraft((d) => ({
+      ...d,
+      permissions: checked ? [...d.permissions, key] : d.permissions.filter((p) => p !== key),
+    }));
+  };
+
+  const toggleGroup = (keys: Permission[], checked: boolean) => {
+    setDraft((d) => ({
+      ...d,
+      permissions: checked
+        ? Array.from(new Set([...d.permissions, ...keys]))
+        : d.permissions.filter((p) => !keys.includes(p)),
+    }));
+  };
+
+  const handleSave = () => {
+    saveRole.mutate(
+      {
+        name: draft.name.trim().toLowerCase(),
+        isNew,
+        label: draft.label.trim(),
+        description: draft.description.trim() || null,
+        permissions: draft.permissions,
+      },
+      { onSuccess: () => setOpen(false) }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <KeySquare className="w-4 h-4" />
+              Role Permissions
+            </CardTitle>
+            <CardDescription>
+              Each role is a set of permissions, checked by the agent on every request
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" variant="outline" className="gap-2" onClick={openNew}>
+              <Plus className="w-4 h-4" />
+              New Role
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-[160px] rounded-lg" />
+        ) : (
+          <div className="space-y-2">
+            {(roles || []).map((role) => (
+              <div key={role.name} className="flex items-center gap-3 rounded-md border border-border px-3 py-2">
+                <Badge className={cn("shrink-0", roleColor(role.name))}>{role.label}</Badge>
+                <div className="min-w-0 flex-1">
+                  <div className="text-xs text-muted-foreground truncate">{role.description || "No description"}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {role.permissions.length} of {catalog?.length ?? "?"} permissions · {role.user_count} user{role.user_count === 1 ? "" : "s"}
+                    {!role.built_in && " · custom"}
+                  </div>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => openRole(role)}>
+                  {canManage && role.name !== SUPER_ADMIN_ROLE ? <Pencil className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </Button>
+                {canManage && !role.built_in && (
+                  confirmDelete === role.name ? (
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={deleteRole.isPending}
+                        onClick={() => deleteRole.mutate(role.name, { onSettled: () => setConfirmDelete(null) })}
+                      >
+                        {deleteRole.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : "Confirm"}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setConfirmDelete(null)}>Cancel</Button>
+                    </div>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      disabled={role.user_count > 0}
+                      title={role.user_count > 0 ? "Reassign its users before deleting" : undefined}
+                      onClick={() => setConfirmDelete(role.name)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl max-h-screen overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{isNew ? "New Role" : editing?.label}</DialogTitle>
+            <DialogDescription>
+              {editing?.name === SUPER_ADMIN_ROLE
+                ? "Super Admin always has every permission and cannot be changed."
+                : readOnly
+                  ? "Permissions granted by this role."
+                  : "Changes apply to everyone with this role as soon as they are saved."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {isNew && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="role-name">Name</Label>
+                  <Input
+                    id="role-name"
+                    placeholder="e.g. supervisor"
+                    value={draft.name}
+                    onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+                  />
+                  <p className="text-xs text-muted-foreground">Lowercase letters, digits and underscores</p>
+                </div>
+                <div className="space-y-2">
+                  <Label>Start from</Label>
+                  <Select onValueChange={copyFrom}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="No permissions" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(roles || []).map((r) => (
+                        <SelectItem key={r.name} value={r.name}>{r.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="role-label">Label</Label>
+                <Input
+                  id="role-label"
+                  value={draft.label}
+                  disabled={readOnly}
+                  onChange={(e) => setDraft((d) => ({ ...d, label: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="role-description">Description</Label>
+                <Input
+                  id="role-description"
+                  value={draft.description}
+                  disabled={readOnly}
+                  onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            {groups.map(([group, permissions]) => {
+              const keys = permissions.map((p) => p.key);
+              const granted = keys.filter((k) => draft.permissions.includes(k)).length;
+              return (
+                <div key={group} className="space-y-2">
+                  <div className="flex items-center gap-2 border-b border-border pb-1">
+                    <Checkbox
+                      id={`group-${group}`}
+                      checked={granted === keys.length ? true : granted > 0 ? "indeterminate" : false}
+                      disabled={readOnly}
+                      onCheckedChange={(v) => toggleGroup(keys, v === true)}
+                    />
+                    <Label htmlFor={`group-${group}`} className="text-sm font-medium">{group}</Label>
+                    <span className="text-xs text-muted-foreground ml-auto">{granted}/{keys.length}</span>
+                  </div>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {permissions.map((p) => (
+                      <div key={p.key} className="flex items-start gap-2">
+                        <Checkbox
+                          id={`perm-${p.key}`}
+                          className="mt-0.5"
+                          checked={draft.permissions.includes(p.key)}
+                          disabled={readOnly}
+                          onCheckedChange={(v) => toggle(p.key, v === true)}
+                        />
+                        <Label htmlFor={`perm-${p.key}`} className="text-xs font-normal leading-snug">
+                          {p.label}
+                          <span className="block font-mono text-[10px] text-muted-foreground">{p.key}</span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>{readOnly ? "Close" : "Cancel"}</Button>
+            {!readOnly && (
+              <Button onClick={handleSave} disabled={!draft.label.trim() || (isNew && !draft.name.trim()) || saveRole.isPending}>
+                {saveRole.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {isNew ? "Create Role" : "Save Changes"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
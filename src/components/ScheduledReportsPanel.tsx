@@ -0,0 +1,487 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Plus, Pencil, Trash2, Loader2, Send, FileDown, FileSpreadsheet, X, Clock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useExtensions } from "@/hooks/useExtensions";
+import { useGsmSpanConfig } from "@/hooks/useGsmSpanConfig";
+import {
+  ReportDefinition,
+  ReportDefinitionInput,
+  ReportFormat,
+  ReportFrequency,
+  ReportMetric,
+  ReportWindow,
+  useDeleteReportDefinition,
+  useDownloadReport,
+  useReportDefinitions,
+  useSaveReportDefinition,
+  useSendReportDefinition,
+  useSmsReportRecipients,
+} from "@/hooks/useReportDefinitions";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const metricLabels: Record<ReportMetric, string> = {
+  calls_summary: "Call summary",
+  calls_by_extension: "Calls by extension",
+  missed_calls: "Missed calls list",
+  sms_summary: "SMS summary",
+  sms_by_port: "SMS by port",
+  sms_by_category: "SMS by category",
+};
+
+const windowLabels: Record<ReportWindow, string> = {
+  today: "Today so far",
+  yesterday: "Yesterday",
+  last_7_days: "Last 7 days",
+  last_30_days: "Last 30 days",
+  previous_week: "Previous week (Mon–Sun)",
+  month_to_date: "Month to date",
+  previous_month: "Previous month",
+};
+
+const statusVariant: Record<NonNullable<ReportDefinition["last_status"]>, "secondary" | "outline" | "destructive"> = {
+  running: "outline",
+  sent: "secondary",
+  partial: "destructive",
+  failed: "destructive",
+};
+
+// The editor keeps address lists as free text until save
+interface Draft extends ReportDefinitionInput {
+  emails: string;
+  telegramChats: string;
+  newTime: string;
+}
+
+const emptyDraft: Draft = {
+  name: "",
+  enabled: true,
+  metrics: ["calls_summary", "sms_summary"],
+  date_window: "yesterday",
+  extensions: [],
+  gsm_spans: [],
+  frequency: "daily",
+  send_times: ["08:00"],
+  weekday: 1,
+  month_day: 1,
+  formats: ["pdf"],
+  email_recipients: [],
+  telegram_chat_ids: [],
+  sms_recipient_ids: [],
+  emails: "",
+  telegramChats: "",
+  newTime: "",
+};
+
+const splitList = (text: string) => text.split(/[\s,;]+/).map((item) => item.trim()).filter(Boolean);
+
+export const ScheduledReportsPanel = () => {
+  const { data: definitions = [], isLoading } = useReportDefinitions();
+  const { data: smsRecipients = [] } = useSmsReportRecipients();
+  const { extensions } = useExtensions();
+  const { gsmSpans } = useGsmSpanConfig();
+  const saveDefinition = useSaveReportDefinition();
+  const deleteDefinition = useDeleteReportDefinition();
+  const sendDefinition = useSendReportDefinition();
+  const downloadReport = useDownloadReport();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const openEditor = (definition?: ReportDefinition) => {
+    setEditingId(definition?.id ?? null);
+    setDraft(
+      definition
+        ? {
+            ...emptyDraft,
+            name: definition.name,
+            enabled: definition.enabled,
+            metrics: definition.metrics,
+            date_window: definition.date_window,
+            extensions: definition.extensions,
+            gsm_spans: definition.gsm_spans,
+            frequency: definition.frequency,
+            send_times: definition.send_times,
+            weekday: definition.weekday ?? 1,
+            month_day: definition.month_day ?? 1,
+            formats: definition.formats,
+            sms_recipient_ids: definition.sms_recipient_ids,
+            emails: definition.email_recipients.join(", "),
+            telegramChats: definition.telegram_chat_ids.join(", "),
+          }
+        : { ...emptyDraft }
+    );
+  };
+
+  const update = (patch: Partial<Draft>) => setDraft((d) => (d ? { ...d, ...patch } : d));
+
+  const toggleIn = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const addTime = () => {
+    if (!draft?.newTime || draft.send_times.includes(draft.newTime)) return;
+    update({ send_times: [...draft.send_times, draft.newTime].sort(), newTime: "" });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const { emails, telegramChats, newTime: _newTime, ...definition } = draft;
+    saveDefinition.mutate(
+      {
+        ...definition,
+        id: editingId ?? undefined,
+        email_recipients: splitList(emails),
+        telegram_chat_ids: splitList(telegramChats),
+      },
+      { onSuccess: () => setDraft(null) }
+    );
+  };
+
+  const spanName = (gsmSpan: number) =>
+    gsmSpans.find((s) => s.gsm_span === gsmSpan)?.name || `Port ${gsmSpan - 1}`;
+
+  const describeSchedule = (definition: ReportDefinition) => {
+    const times = definition.send_times.join(", ");
+    if (definition.frequency === "weekly") return `${WEEKDAYS[definition.weekday ?? 1]} at ${times}`;
+    if (definition.frequency === "monthly") return `Day ${definition.month_day} at ${times}`;
+    return `Daily at ${times}`;
+  };
+
+  const describeRecipients = (definition: ReportDefinition) =>
+    [
+      definition.email_recipients.length > 0 && `${definition.email_recipients.length} email`,
+      definition.telegram_chat_ids.length > 0 && `${definition.telegram_chat_ids.length} Telegram`,
+      definition.sms_recipient_ids.length > 0 && `${definition.sms_recipient_ids.length} SMS`,
+    ].filter(Boolean).join(", ");
+
+  if (isLoading) {
+    return <Skeleton className="h-64 rounded-lg" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="bg-gradient-to-r from-amber-500/10 to-orange-500/10 border-b">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <CalendarClock className="w-5 h-5 text-amber-600" />
+            <div>
+              <CardTitle>Scheduled Reports</CardTitle>
+              <CardDescription>
+                Pick the figures, period and filters, and when to send. Reports go out as PDF/CSV attachments by email
+                and Telegram, with a short SMS digest. Times are Nairobi time.
+              </CardDescription>
+            </div>
+          </div>
+          <Button onClick={() => openEditor()} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Add Report
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {definitions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No scheduled reports yet. The fixed daily report keeps running from the SMS tab.
+          </p>
+        ) : (
+          <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+            {definitions.map((definition) => (
+              <div key={definition.id} className={cn("flex items-center gap-3 p-3", !definition.enabled && "opacity-60")}>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-sm">{definition.name}</span>
+                    <Badge variant="outline" className="text-xs">{windowLabels[definition.date_window]}</Badge>
+                    {definition.formats.map((format) => (
+                      <Badge key={format} variant="outline" className="text-xs uppercase">{format}</Badge>
+                    ))}
+                    {definition.last_status && (
+                      <Badge variant={statusVariant[definition.last_status]} className="text-xs" title={definition.last_error || undefined}>
+                        {definition.last_status}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {definition.metrics.map((metric) => metricLabels[metric]).join(", ")}
+                  </p>
+                  <div className="flex items-center gap-2 flex-wrap text-[11px] text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {describeSchedule(definition)}
+                    </span>
+                    <span>· {describeRecipients(definition)}</span>
+                    {definition.extensions.length > 0 && <span>· ext {definition.extensions.join(", ")}</span>}
+                    {definition.gsm_spans.length > 0 && <span>· {definition.gsm_spans.map(spanName).join(", ")}</span>}
+                    {definition.last_run_at && <span>· last run {definition.last_run_at}</span>}
+                  </div>
+                  {definition.last_error && (
+                    <p className="text-[11px] text-destructive truncate">{definition.last_error}</p>
+                  )}
+                </div>
+                <Switch
+                  checked={definition.enabled}
+                  onCheckedChange={(enabled) => saveDefinition.mutate({ id: definition.id, enabled })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Download PDF"
+                  onClick={() => downloadReport.mutate({ id: definition.id, format: "pdf" })}
+                  disabled={downloadReport.isPending}
+                >
+                  <FileDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Download CSV"
+                  onClick={() => downloadReport.mutate({ id: definition.id, format: "csv" })}
+                  disabled={downloadReport.isPending}
+                >
+                  <FileSpreadsheet className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  title="Send now"
+                  onClick={() => sendDefinition.mutate(definition.id)}
+                  disabled={sendDefinition.isPending}
+                >
+                  {sendDefinition.isPending && sendDefinition.variables === definition.id
+                    ? <Loader2 className="w-4 h-4 animate-spin" />
+                    : <Send className="w-4 h-4" />}
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditor(definition)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => confirm(`Delete report "${definition.name}"?`) && deleteDefinition.mutate(definition.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Report" : "New Report"}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="Weekly call review" />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Metrics</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(metricLabels) as ReportMetric[]).map((metric) => (
+                    <label key={metric} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.metrics.includes(metric)}
+                        onCheckedChange={() => update({ metrics: toggleIn(draft.metrics, metric) })}
+                      />
+                      {metricLabels[metric]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Period</Label>
+                <Select value={draft.date_window} onValueChange={(v) => update({ date_window: v as ReportWindow })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(windowLabels) as ReportWindow[]).map((window) => (
+                      <SelectItem key={window} value={window}>{windowLabels[window]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Extensions</Label>
+                <div className="flex gap-3 flex-wrap max-h-28 overflow-y-auto">
+                  {extensions.map((ext) => (
+                    <label key={ext.extnumber} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.extensions.includes(ext.extnumber)}
+                        onCheckedChange={() => update({ extensions: toggleIn(draft.extensions, ext.extnumber) })}
+                      />
+                      {ext.extnumber}{ext.username ? ` ${ext.username}` : ""}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">None selected = all extensions (call metrics)</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Ports</Label>
+                <div className="flex gap-3 flex-wrap">
+                  {[2, 3, 4, 5].map((span) => (
+                    <label key={span} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.gsm_spans.includes(span)}
+                        onCheckedChange={() => update({ gsm_spans: toggleIn(draft.gsm_spans, span).sort((a, b) => a - b) })}
+                      />
+                      {spanName(span)}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">None selected = all ports (SMS metrics)</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label>Frequency</Label>
+                  <Select value={draft.frequency} onValueChange={(v) => update({ frequency: v as ReportFrequency })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                      <SelectItem value="monthly">Monthly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {draft.frequency === "weekly" && (
+                  <div className="space-y-2">
+                    <Label>Day</Label>
+                    <Select value={String(draft.weekday)} onValueChange={(v) => update({ weekday: parseInt(v) })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAYS.map((day, index) => (
+                          <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {draft.frequency === "monthly" && (
+                  <div className="space-y-2">
+                    <Label>Day of month</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={28}
+                      value={draft.month_day ?? 1}
+                      onChange={(e) => update({ month_day: Math.min(28, Math.max(1, parseInt(e.target.value) || 1)) })}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Send times</Label>
+                <div className="flex gap-2 flex-wrap">
+                  {draft.send_times.map((time) => (
+                    <Badge key={time} variant="secondary" className="gap-1">
+                      {time}
+                      <button type="button" onClick={() => update({ send_times: draft.send_times.filter((t) => t !== time) })}>
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Input type="time" value={draft.newTime} onChange={(e) => update({ newTime: e.target.value })} className="w-[140px]" />
+                  <Button type="button" variant="outline" onClick={addTime} disabled={!draft.newTime}>
+                    Add time
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Attachments</Label>
+                <div className="flex gap-3">
+                  {(["pdf", "csv"] as ReportFormat[]).map((format) => (
+                    <label key={format} className="flex items-center gap-2 text-sm uppercase">
+                      <Checkbox
+                        checked={draft.formats.includes(format)}
+                        onCheckedChange={() => update({ formats: toggleIn(draft.formats, format) })}
+                      />
+                      {format}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Email addresses</Label>
+                <Input
+                  value={draft.emails}
+                  onChange={(e) => update({ emails: e.target.value })}
+                  placeholder="ops@example.com, manager@example.com"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Telegram chats</Label>
+                <Input
+                  value={draft.telegramChats}
+                  onChange={(e) => update({ telegramChats: e.target.value })}
+                  placeholder="-1001234567890, @ops_channel"
+                  className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">Sent with the bot configured in the Telegram tab</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>SMS digest</Label>
+                {smsRecipients.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">Add report phone numbers in Configuration → Setup.</p>
+                ) : (
+                  <div className="flex gap-3 flex-wrap">
+                    {smsRecipients.map((recipient) => (
+                      <label key={recipient.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={draft.sms_recipient_ids.includes(recipient.id)}
+                          onCheckedChange={() => update({ sms_recipient_ids: toggleIn(draft.sms_recipient_ids, recipient.id) })}
+                        />
+                        {recipient.phone_number}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saveDefinition.isPending} className="gap-2">
+              {saveDefinition.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              Save Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ScheduledReportsPanel;
@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useContactSegments } from "@/hooks/useContactSegments";
+import { cn } from "@/lib/utils";
+
+export const ALL_SEGMENTS = "all";
+
+interface SegmentSelectProps {
+  value: string; // segment id or ALL_SEGMENTS
+  onChange: (value: string) => void;
+  className?: string;
+  allLabel?: string;
+}
+
+export const SegmentSelect = ({ value, onChange, className, allLabel = "All Contacts" }: SegmentSelectProps) => {
+  const { data: segments = [] } = useContactSegments();
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className={cn("w-40", className)}>
+        <SelectValue placeholder="Segment" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_SEGMENTS}>{allLabel}</SelectItem>
+        {segments.map((segment) => (
+          <SelectItem key={segment.id} value={segment.id}>
+            {segment.name}
+            {segment.member_count !== null && <span className="text-muted-foreground"> ({segment.member_count})</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -3,6 +3,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { Button } from "@/components/ui/button";
 import { Send, MessageSquare, Loader2 } from "lucide-react";
 import { toast } from "sonner";
+import { useCan } from "@/hooks/useCan";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:2003";
 
@@ -14,13 +15,14 @@ interface SendReportDialogProps {
 export const SendReportDialog = ({ open, onOpenChange }: SendReportDialogProps) => {
   const [isSendingTelegram, setIsSendingTelegram] = useState(false);
   const [isSendingSms, setIsSendingSms] = useState(false);
+  const can = useCan();
 
   const handleSendTelegram = async () => {
     setIsSendingTelegram(true);
     try {
       const res = await fetch(`${API_URL}/api/telegram-send`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify({ action: "system_summary" }),
       });
       const data = await res.json();
@@ -39,7 +41,7 @@ export const SendReportDialog = ({ open, onOpenChange }: SendReportDialogProps)
     try {
       const res = await fetch(`${API_URL}/api/manual-report`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
       });
       const data = await res.json();
       if (!res.ok || !data.success) throw new Error(data.error || "Failed");
@@ -62,31 +64,35 @@ export const SendReportDialog = ({ open, onOpenChange }: SendReportDialogProps)
           </DialogDescription>
         </DialogHeader>
         <div className="flex flex-col gap-3 mt-2">
-          <Button
-            onClick={handleSendTelegram}
-            disabled={isSendingTelegram}
-            className="w-full"
-          >
-            {isSendingTelegram ? (
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-            ) : (
-              <Send className="w-4 h-4 mr-2" />
-            )}
-            Send System Summary via Telegram
-          </Button>
-          <Button
-            variant="outline"
-            onClick={handleSendSms}
-            disabled={isSendingSms}
-            className="w-full"
-          >
-            {isSendingSms ? (
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-            ) : (
-              <MessageSquare className="w-4 h-4 mr-2" />
-            )}
-            Send Manual Report via SMS
-          </Button>
+          {can("telegram.view") && (
+            <Button
+              onClick={handleSendTelegram}
+              disabled={isSendingTelegram}
+              className="w-full"
+            >
+              {isSendingTelegram ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-2" />
+              )}
+              Send System Summary via Telegram
+            </Button>
+          )}
+          {can("reports.manage") && (
+            <Button
+              variant="outline"
+              onClick={handleSendSms}
+              disabled={isSendingSms}
+              className="w-full"
+            >
+              {isSendingSms ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <MessageSquare className="w-4 h-4 mr-2" />
+              )}
+              Send Manual Report via SMS
+            </Button>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -2,22 +2,71 @@ import React, { useState, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
-import { RefreshCw, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Clock, RefreshCw, RotateCcw, Trash2, X } from "lucide-react";
 import { useQueryClient } from "@tanstack/react-query";
 import { useSentMessages } from "@/hooks/useSentMessages";
-import { useAuth } from "@/hooks/useAuth";
+import { OutboxMessage, OutboxStatus, useSmsOutbox, useRetrySmsOutbox, useCancelSmsOutbox } from "@/hooks/useSmsOutbox";
+import { useCan } from "@/hooks/useCan";
 import { toast } from "sonner";
 import { usePortLabels, getPortLabel } from "@/hooks/usePortLabels";
+import { formatDateNairobi } from "@/lib/dateUtils";
+import { cn } from "@/lib/utils";
+
+const outboxStyles: Record<OutboxStatus, string> = {
+  queued: "bg-blue-500/10 text-blue-600 border-blue-500/30",
+  sending: "bg-blue-500/10 text-blue-600 border-blue-500/30",
+  sent: "bg-emerald-500/10 text-emerald-600 border-emerald-500/30",
+  failed: "bg-destructive/10 text-destructive border-destructive/30",
+  cancelled: "bg-muted text-muted-foreground",
+};
 
 export const SentSmsPanel: React.FC = () => {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const queryClient = useQueryClient();
   const { data: messages = [], isLoading } = useSentMessages(1000);
-  const { role, isAdmin } = useAuth();
-  const canDelete = role === 'super_admin' || role === 'admin';
+  const can = useCan();
+  const canDelete = can('sms.delete');
   const apiUrl = import.meta.env.VITE_API_URL;
   const token = localStorage.getItem('authToken');
   const { data: portLabels } = usePortLabels();
+  const { data: outbox } = useSmsOutbox(undefined, 500);
+  const retryOutbox = useRetrySmsOutbox();
+  const cancelOutbox = useCancelSmsOutbox();
+  const canSend = can('sms.send');
+
+  // Messages still waiting on a SIM, plus failed ones that never reached the
+  // sent log (cut off by an agent restart), and the queue entry behind each sent row
+  const pending = useMemo(() => {
+    const logged = new Set(messages.map((m) => m.external_id).filter(Boolean));
+    return (outbox?.items || []).filter(
+      (item) =>
+        item.status === 'queued' ||
+        item.status === 'sending' ||
+        (item.status === 'failed' && !(item.external_id && logged.has(item.external_id)))
+    );
+  }, [outbox, messages]);
+  const outboxByExternalId = useMemo(() => {
+    const map = new Map<string, OutboxMessage>();
+    (outbox?.items || []).forEach((item) => {
+      if (item.external_id) map.set(item.external_id, item);
+    });
+    return map;
+  }, [outbox]);
+
+  const retry = (id: string) => {
+    retryOutbox.mutate(id, {
+      onSuccess: () => toast.success('Message re-queued'),
+      onError: (e: Error) => toast.error(e.message || 'Failed to retry'),
+    });
+  };
+
+  const cancel = (id: string) => {
+    cancelOutbox.mutate(id, {
+      onSuccess: () => toast.success('Message cancelled'),
+      onError: (e: Error) => toast.error(e.message || 'Failed to cancel'),
+    });
+  };
 
   const toggleSelect = (id: string) => {
     setSelectedIds((prev) => {
@@ -72,6 +121,61 @@ export const SentSmsPanel: React.FC = () => {
 
   return (
     <div className="space-y-4">
+      {/* Outbox: queued sends the agent is still working through */}
+      {pending.length > 0 && (
+        <Card className="card-glow border-border/50 bg-card">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-semibold flex items-center gap-2">
+              <Clock className="w-4 h-4" />
+              Outbox
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {pending.length} waiting to send or needing a retry · failed attempts are retried automatically and fail over to another SIM
+            </p>
+          </CardHeader>
+          <CardContent className="pt-0">
+            <div className="divide-y divide-border/30">
+              {pending.map((item) => (
+                <div key={item.id} className="flex items-start gap-3 py-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-sm">{item.to_number}</span>
+                      <Badge variant="outline" className={cn("text-xs capitalize", outboxStyles[item.status])}>
+                        {item.status}
+                      </Badge>
+                      {item.attempts > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                          attempt {item.attempts}/{item.max_attempts}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground line-clamp-1 mt-1">{item.message}</p>
+                    {item.last_error && (
+                      <p className="text-xs text-destructive mt-1">
+                        {item.last_error}
+                        {item.status === 'queued' && ` · next try ${formatDateNairobi(item.next_attempt_at)}`}
+                      </p>
+                    )}
+                  </div>
+                  {canSend && item.status === 'queued' && (
+                    <Button size="sm" variant="ghost" onClick={() => cancel(item.id)} disabled={cancelOutbox.isPending}>
+                      <X className="w-3.5 h-3.5 mr-1" />
+                      Cancel
+                    </Button>
+                  )}
+                  {canSend && item.status === 'failed' && (
+                    <Button size="sm" variant="outline" onClick={() => retry(item.id)} disabled={retryOutbox.isPending}>
+                      <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Sent Messages Card */}
       <Card className="card-glow border-border/50 bg-card flex flex-col min-h-0">
         <CardHeader className="pb-3 shrink-0">
@@ -79,7 +183,7 @@ export const SentSmsPanel: React.FC = () => {
             <div className="min-w-0">
               <CardTitle className="text-base font-semibold">Sent SMS Messages</CardTitle>
               <p className="text-xs text-muted-foreground mt-1">
-                {messages.length} sent messages
+                {messages.length} sent messages · "sent" means the SIM accepted it; the gateway does not report delivery to the handset
               </p>
             </div>
             <Button 
@@ -130,44 +234,66 @@ export const SentSmsPanel: React.FC = () => {
 
         <ScrollArea className="flex-1 min-h-0">
           <div className="divide-y divide-border/30">
-            {messages.map((m: any) => (
-              <div 
-                key={m.id} 
-                className="flex items-start p-4 gap-3 hover:bg-muted/30 transition"
-              >
-                {/* Checkbox */}
-                <div className="flex items-center h-12" onClick={(e) => e.stopPropagation()}>
-                  <input 
-                    type="checkbox" 
-                    checked={selectedIds.has(m.id)} 
-                    onChange={() => toggleSelect(m.id)} 
-                    className="rounded" 
-                  />
-                </div>
+            {messages.map((m: any) => {
+              const queued = m.external_id ? outboxByExternalId.get(m.external_id) : undefined;
+              const state: string = queued?.status || m.status;
+              return (
+                <div 
+                  key={m.id} 
+                  className="flex items-start p-4 gap-3 hover:bg-muted/30 transition"
+                >
+                  {/* Checkbox */}
+                  <div className="flex items-center h-12" onClick={(e) => e.stopPropagation()}>
+                    <input 
+                      type="checkbox" 
+                      checked={selectedIds.has(m.id)} 
+                      onChange={() => toggleSelect(m.id)} 
+                      className="rounded" 
+                    />
+                  </div>
 
-                {/* Avatar */}
-                <div className="w-12 h-12 rounded-full bg-green-500/10 flex items-center justify-center text-green-600 font-medium flex-shrink-0 text-sm">
-                  📤
-                </div>
+                  {/* Avatar */}
+                  <div className="w-12 h-12 rounded-full bg-green-500/10 flex items-center justify-center text-green-600 font-medium flex-shrink-0 text-sm">
+                    📤
+                  </div>
 
-                {/* Content */}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between gap-2 mb-1">
-                    <h3 className="font-semibold truncate text-foreground">
-                      {m.sender_number || 'System'}
-                    </h3>
-                    <div className="text-xs text-muted-foreground whitespace-nowrap flex flex-col items-end">
-                      <span className="font-mono">{m.received_at}</span>
-                      <span className="text-xs font-medium text-muted-foreground">—</span>
+                  {/* Content */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <h3 className="font-semibold truncate text-foreground">
+                        {m.sender_number || 'System'}
+                      </h3>
+                      <div className="text-xs text-muted-foreground whitespace-nowrap flex flex-col items-end gap-1">
+                        <span className="font-mono">{m.received_at}</span>
+                        <Badge
+                          variant="outline"
+                          className={cn("text-xs capitalize", outboxStyles[state as OutboxStatus] || "text-muted-foreground")}
+                        >
+                          {state || '—'}
+                        </Badge>
+                      </div>
                     </div>
-                  </div>
 
-                  <p className="text-sm mt-2 line-clamp-2 text-muted-foreground">
-                    {m.message_content}
-                  </p>
+                    <p className="text-sm mt-2 line-clamp-2 text-muted-foreground">
+                      {m.message_content}
+                    </p>
+                    {queued?.status === 'failed' && (
+                      <div className="flex items-center gap-2 mt-2">
+                        <span className="text-xs text-destructive">
+                          {queued.last_error || 'Send failed'} ({queued.attempts} attempts)
+                        </span>
+                        {canSend && (
+                          <Button size="sm" variant="outline" onClick={() => retry(queued.id)} disabled={retryOutbox.isPending}>
+                            <RotateCcw className="w-3.5 h-3.5 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </ScrollArea>
       </Card>
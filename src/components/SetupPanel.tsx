@@ -119,7 +119,7 @@ export const SetupPanel = () => {
       // Load current full config first so we don't overwrite notification settings
       const res = await fetch(`${apiUrl}/api/channel-setup`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify(config),
       });
       if (!res.ok) throw new Error("Save failed");
@@ -148,7 +148,7 @@ export const SetupPanel = () => {
       const apiUrl = import.meta.env.VITE_API_URL;
       const res = await fetch(`${apiUrl}/api/telegram-send`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify({ action: "test", bot_token: config.bot_token, chat_id: config.chat_id }),
       });
       const result = await res.json();
@@ -195,7 +195,7 @@ export const SetupPanel = () => {
       const apiUrl = import.meta.env.VITE_API_URL;
       const res = await fetch(`${apiUrl}/api/sms-report-recipients`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify({ phone_number: phone }),
       });
       const result = await res.json();
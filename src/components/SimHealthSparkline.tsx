@@ -0,0 +1,40 @@
+import { ResponsiveContainer, LineChart, Line, BarChart, Bar, YAxis } from "recharts";
+import type { SimHealthSample } from "@/hooks/useSimHealth";
+
+interface SimHealthSparklineProps {
+  samples: SimHealthSample[];
+  metric: "signal" | "failures";
+  height?: number;
+}
+
+// Tiny axis-less chart for the port cards: signal as a line (0-31), failed
+// sends per sample as bars
+export const SimHealthSparkline = ({ samples, metric, height = 24 }: SimHealthSparklineProps) => {
+  if (samples.length < 2) {
+    return <div style={{ height }} className="flex items-center text-[10px] text-muted-foreground">Collecting samples…</div>;
+  }
+
+  if (metric === "failures") {
+    const data = samples.map((s) => ({ failures: s.send_failures, ok: s.send_attempts - s.send_failures }));
+    return (
+      <ResponsiveContainer width="100%" height={height}>
+        <BarChart data={data} margin={{ top: 0, right: 0, bottom: 0, left: 0 }} barGap={0}>
+          <YAxis hide domain={[0, "dataMax"]} />
+          <Bar dataKey="ok" stackId="sends" fill="hsl(var(--muted-foreground) / 0.3)" isAnimationActive={false} />
+          <Bar dataKey="failures" stackId="sends" fill="hsl(var(--destructive))" isAnimationActive={false} />
+        </BarChart>
+      </ResponsiveContainer>
+    );
+  }
+
+  // Gaps where the port couldn't be queried rather than dips to zero
+  const data = samples.map((s) => ({ signal: s.signal_quality }));
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart data={data} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+        <YAxis hide domain={[0, 31]} />
+        <Line type="monotone" dataKey="signal" stroke="hsl(var(--primary))" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
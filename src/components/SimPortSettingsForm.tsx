@@ -74,7 +74,7 @@ export const SimPortSettingsForm = () => {
       
       const response = await fetch(`${apiUrl}/api/gsm-spans/${gsmSpan}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${localStorage.getItem('authToken')}` },
         body: JSON.stringify({
           name: values.name.trim() || null,
           phone_number: values.phone.trim() || null
@@ -0,0 +1,567 @@
+import { useMemo, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Megaphone, Plus, Pause, Play, XCircle, Trash2, Loader2, Upload, Users, List, Clock, Filter } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { formatDateNairobi } from "@/lib/dateUtils";
+import { useContacts, Contact } from "@/hooks/useContacts";
+import { useContactFields } from "@/hooks/useContactSegments";
+import { SegmentSelect, ALL_SEGMENTS } from "@/components/SegmentSelect";
+import { useGsmSpanConfig } from "@/hooks/useGsmSpanConfig";
+import { useSmsTemplates, SmsTemplate } from "@/hooks/useSmsTemplates";
+import {
+  SmsCampaign,
+  SmsCampaignRecipientInput,
+  SmsCampaignRecipientStatus,
+  useSmsCampaigns,
+  useSmsCampaignRecipients,
+  useCreateSmsCampaign,
+  useSmsCampaignAction,
+  useDeleteSmsCampaign,
+  parseRecipientCSV,
+} from "@/hooks/useSmsCampaigns";
+
+const CUSTOM_MESSAGE = "custom";
+const ALL_STATUSES = "all";
+
+const statusStyles: Record<SmsCampaign["status"], string> = {
+  scheduled: "bg-blue-500/10 text-blue-600 border-blue-500/30",
+  running: "bg-emerald-500/10 text-emerald-600 border-emerald-500/30",
+  paused: "bg-amber-500/10 text-amber-600 border-amber-500/30",
+  completed: "bg-muted text-muted-foreground",
+  cancelled: "bg-destructive/10 text-destructive border-destructive/30",
+};
+
+const recipientStyles: Record<SmsCampaignRecipientStatus, string> = {
+  pending: "text-muted-foreground",
+  sending: "text-blue-600",
+  sent: "text-emerald-600",
+  failed: "text-destructive",
+  skipped: "text-amber-600",
+  cancelled: "text-muted-foreground",
+};
+
+interface CampaignDraft {
+  name: string;
+  templateId: string;
+  message: string;
+  source: "contacts" | "segment" | "csv";
+  contactIds: string[];
+  segmentId: string;
+  csvRecipients: SmsCampaignRecipientInput[];
+  csvFileName: string;
+  gsmSpans: number[];
+  ratePerMinute: number;
+  scheduledAt: string; // datetime-local value; empty = start now
+}
+
+const emptyDraft: CampaignDraft = {
+  name: "",
+  templateId: CUSTOM_MESSAGE,
+  message: "",
+  source: "contacts",
+  contactIds: [],
+  segmentId: ALL_SEGMENTS,
+  csvRecipients: [],
+  csvFileName: "",
+  gsmSpans: [],
+  ratePerMinute: 6,
+  scheduledAt: "",
+};
+
+// Same substitution the agent does at send time, for the preview
+const renderPreview = (message: string, recipient?: SmsCampaignRecipientInput) => {
+  if (!recipient) return message;
+  const vars: Record<string, string> = { ...recipient.fields, name: recipient.name || "", phone: recipient.phone_number };
+  return Object.entries(vars).reduce((text, [key, value]) => text.split(`{${key}}`).join(value), message);
+};
+
+// Contact custom fields become merge fields, e.g. {account_no}
+const contactRecipient = (c: Contact): SmsCampaignRecipientInput => ({
+  phone_number: c.phone_number,
+  name: c.name || undefined,
+  fields: Object.fromEntries(
+    Object.entries(c.custom_fields || {}).map(([key, value]) => [key, typeof value === "boolean" ? (value ? "Yes" : "No") : String(value)])
+  ),
+});
+
+export const SmsCampaignsPanel = () => {
+  const { data: campaigns = [], isLoading } = useSmsCampaigns();
+  const { data: contacts = [] } = useContacts();
+  const { data: contactFields = [] } = useContactFields();
+  const { gsmSpans } = useGsmSpanConfig();
+  const { templates = [] } = useSmsTemplates();
+  const createCampaign = useCreateSmsCampaign();
+  const campaignAction = useSmsCampaignAction();
+  const deleteCampaign = useDeleteSmsCampaign();
+
+  const [draft, setDraft] = useState<CampaignDraft | null>(null);
+  const [contactSearch, setContactSearch] = useState("");
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [detailStatus, setDetailStatus] = useState<string>(ALL_STATUSES);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: recipients = [], isLoading: recipientsLoading } = useSmsCampaignRecipients(
+    detailId,
+    detailStatus === ALL_STATUSES ? undefined : (detailStatus as SmsCampaignRecipientStatus)
+  );
+  const detailCampaign = campaigns.find((c) => c.id === detailId) || null;
+
+  const draftSegmentId = draft?.source === "segment" && draft.segmentId !== ALL_SEGMENTS ? draft.segmentId : undefined;
+  const { data: segmentContacts = [], isFetching: segmentLoading } = useContacts({
+    segmentId: draftSegmentId,
+    enabled: !!draftSegmentId,
+  });
+
+  const update = (patch: Partial<CampaignDraft>) => setDraft((d) => (d ? { ...d, ...patch } : d));
+
+  const filteredContacts = useMemo(() => {
+    const search = contactSearch.trim().toLowerCase();
+    if (!search) return contacts;
+    return contacts.filter(
+      (c) => c.phone_number.toLowerCase().includes(search) || (c.name || "").toLowerCase().includes(search)
+    );
+  }, [contacts, contactSearch]);
+
+  const draftRecipients = useMemo((): SmsCampaignRecipientInput[] => {
+    if (!draft) return [];
+    if (draft.source === "csv") return draft.csvRecipients;
+    if (draft.source === "segment") return draftSegmentId ? segmentContacts.map(contactRecipient) : [];
+    const selected = new Set(draft.contactIds);
+    return contacts.filter((c) => selected.has(c.id)).map(contactRecipient);
+  }, [draft, contacts, draftSegmentId, segmentContacts]);
+
+  const spanName = (gsmSpan: number) => gsmSpans.find((s) => s.gsm_span === gsmSpan)?.name || `Port ${gsmSpan - 1}`;
+
+  const toggleIn = (list: number[], value: number) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value].sort((a, b) => a - b);
+
+  const selectTemplate = (templateId: string) => {
+    const template = templates.find((t: SmsTemplate) => t.id === templateId);
+    update({ templateId, message: template ? template.message : draft?.message || "" });
+  };
+
+  const toggleContact = (id: string) => {
+    if (!draft) return;
+    update({
+      contactIds: draft.contactIds.includes(id) ? draft.contactIds.filter((c) => c !== id) : [...draft.contactIds, id],
+    });
+  };
+
+  const toggleAllContacts = (checked: boolean) => {
+    if (!draft) return;
+    const visible = filteredContacts.map((c) => c.id);
+    update({
+      contactIds: checked
+        ? Array.from(new Set([...draft.contactIds, ...visible]))
+        : draft.contactIds.filter((id) => !visible.includes(id)),
+    });
+  };
+
+  const handleCsvUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      const parsed = parseRecipientCSV(ev.target?.result as string);
+      if (parsed.length === 0) {
+        toast.error("No recipients found. The first row must have a phone (or number / mobile) column.");
+        return;
+      }
+      update({ csvRecipients: parsed, csvFileName: file.name });
+    };
+    reader.readAsText(file);
+    e.target.value = "";
+  };
+
+  const handleCreate = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) return toast.error("Give the campaign a name");
+    if (!draft.message.trim()) return toast.error("Choose a template or write a message");
+    if (draftRecipients.length === 0) return toast.error("Add at least one recipient");
+
+    createCampaign.mutate(
+      {
+        name: draft.name.trim(),
+        template_id: draft.templateId === CUSTOM_MESSAGE ? null : draft.templateId,
+        message: draft.message,
+        recipients: draftRecipients,
+        gsm_spans: draft.gsmSpans,
+        rate_per_minute: draft.ratePerMinute,
+        scheduled_at: draft.scheduledAt ? new Date(draft.scheduledAt).toISOString() : undefined,
+      },
+      { onSuccess: () => setDraft(null) }
+    );
+  };
+
+  const handleDelete = (campaign: SmsCampaign) => {
+    deleteCampaign.mutate(campaign.id, { onSuccess: () => toast.success(`Campaign "${campaign.name}" deleted`) });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-64 rounded-lg" />;
+  }
+
+  const mergeFields =
+    draft?.source === "csv"
+      ? draft.csvRecipients[0] ? Object.keys(draft.csvRecipients[0].fields || {}) : []
+      : contactFields.map((f) => f.field_key);
+
+  return (
+    <Card className="card-glow border-border/50 bg-card">
+      <CardHeader className="border-b border-border/50">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <Megaphone className="w-5 h-5 text-primary" />
+            <div>
+              <CardTitle>SMS Campaigns</CardTitle>
+              <CardDescription>
+                Bulk sends spread across healthy SIMs with a per-SIM rate limit. Opted-out numbers are skipped.
+              </CardDescription>
+            </div>
+          </div>
+          <Button onClick={() => setDraft({ ...emptyDraft })} className="gap-2">
+            <Plus className="w-4 h-4" />
+            New Campaign
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {campaigns.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No campaigns yet.</p>
+        ) : (
+          <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+            {campaigns.map((campaign) => {
+              const done = campaign.sent + campaign.failed + campaign.skipped + campaign.cancelled;
+              const percent = campaign.total > 0 ? Math.round((done / campaign.total) * 100) : 0;
+              return (
+                <div key={campaign.id} className="p-4 space-y-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">{campaign.name}</span>
+                    <Badge variant="outline" className={cn("text-xs capitalize", statusStyles[campaign.status])}>
+                      {campaign.status}
+                    </Badge>
+                    {campaign.template_name && (
+                      <Badge variant="secondary" className="text-xs">{campaign.template_name}</Badge>
+                    )}
+                    <div className="ml-auto flex items-center gap-1">
+                      {(campaign.status === "scheduled" || campaign.status === "running") && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1 h-7"
+                          onClick={() => campaignAction.mutate({ id: campaign.id, action: "pause" })}
+                          disabled={campaignAction.isPending}
+                        >
+                          <Pause className="w-3 h-3" />
+                          Pause
+                        </Button>
+                      )}
+                      {campaign.status === "paused" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1 h-7"
+                          onClick={() => campaignAction.mutate({ id: campaign.id, action: "resume" })}
+                          disabled={campaignAction.isPending}
+                        >
+                          <Play className="w-3 h-3" />
+                          Resume
+                        </Button>
+                      )}
+                      {["scheduled", "running", "paused"].includes(campaign.status) && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="gap-1 h-7 text-destructive"
+                          onClick={() => campaignAction.mutate({ id: campaign.id, action: "cancel" })}
+                          disabled={campaignAction.isPending}
+                        >
+                          <XCircle className="w-3 h-3" />
+                          Cancel
+                        </Button>
+                      )}
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setDetailId(campaign.id)}>
+                        <List className="w-4 h-4" />
+                      </Button>
+                      {campaign.status !== "running" && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7 text-destructive"
+                          onClick={() => handleDelete(campaign)}
+                          disabled={deleteCampaign.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{campaign.message}</p>
+                  <Progress value={percent} className="h-2" />
+                  <div className="flex items-center gap-3 flex-wrap text-[11px] text-muted-foreground">
+                    <span>
+                      {done}/{campaign.total} ({percent}%)
+                    </span>
+                    <span className="text-emerald-600">{campaign.sent} sent</span>
+                    {campaign.failed > 0 && <span className="text-destructive">{campaign.failed} failed</span>}
+                    {campaign.skipped > 0 && <span className="text-amber-600">{campaign.skipped} skipped</span>}
+                    <span>· {campaign.rate_per_minute}/min per SIM</span>
+                    <span>· {campaign.gsm_spans.length > 0 ? campaign.gsm_spans.map(spanName).join(", ") : "All healthy ports"}</span>
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      {campaign.started_at
+                        ? `Started ${formatDateNairobi(campaign.started_at)}`
+                        : `Starts ${formatDateNairobi(campaign.scheduled_at)}`}
+                    </span>
+                  </div>
+                  {campaign.last_error && campaign.status === "running" && (
+                    <p className="text-xs text-amber-600">{campaign.last_error}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* New campaign */}
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Campaign</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name</Label>
+                <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. December promo" />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Message</Label>
+                <Select value={draft.templateId} onValueChange={selectTemplate}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CUSTOM_MESSAGE}>Custom message</SelectItem>
+                    {templates.map((t: SmsTemplate) => (
+                      <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Textarea
+                  value={draft.message}
+                  onChange={(e) => update({ message: e.target.value })}
+                  rows={4}
+                  placeholder="Hi {name}, ..."
+                  className="resize-none"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Merge fields: {"{name}"}, {"{phone}"}
+                  {mergeFields.map((f) => `, {${f}}`).join("")}
+                  {" "}· {draft.message.length} chars
+                </p>
+                {draftRecipients[0] && draft.message && (
+                  <p className="text-xs rounded bg-muted/50 p-2">
+                    <span className="text-muted-foreground">Preview ({draftRecipients[0].phone_number}): </span>
+                    {renderPreview(draft.message, draftRecipients[0])}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Recipients ({draftRecipients.length})</Label>
+                <Tabs value={draft.source} onValueChange={(source) => update({ source: source as CampaignDraft["source"] })}>
+                  <TabsList>
+                    <TabsTrigger value="contacts" className="gap-2">
+                      <Users className="w-4 h-4" />
+                      Contacts
+                    </TabsTrigger>
+                    <TabsTrigger value="segment" className="gap-2">
+                      <Filter className="w-4 h-4" />
+                      Segment
+                    </TabsTrigger>
+                    <TabsTrigger value="csv" className="gap-2">
+                      <Upload className="w-4 h-4" />
+                      CSV upload
+                    </TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="contacts" className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={contactSearch}
+                        onChange={(e) => setContactSearch(e.target.value)}
+                        placeholder="Search contacts..."
+                        className="h-8"
+                      />
+                      <label className="flex items-center gap-2 text-xs whitespace-nowrap">
+                        <Checkbox
+                          checked={filteredContacts.length > 0 && filteredContacts.every((c) => draft.contactIds.includes(c.id))}
+                          onCheckedChange={(checked) => toggleAllContacts(!!checked)}
+                        />
+                        Select all
+                      </label>
+                    </div>
+                    <ScrollArea className="h-[200px] rounded border border-border/50">
+                      <div className="divide-y divide-border/50">
+                        {filteredContacts.map((c) => (
+                          <label key={c.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-muted/30">
+                            <Checkbox checked={draft.contactIds.includes(c.id)} onCheckedChange={() => toggleContact(c.id)} />
+                            <span className="font-mono">{c.phone_number}</span>
+                            <span className="text-muted-foreground truncate">{c.name}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </TabsContent>
+                  <TabsContent value="segment" className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <SegmentSelect
+                        value={draft.segmentId}
+                        onChange={(segmentId) => update({ segmentId })}
+                        allLabel="Choose a segment"
+                        className="w-64 h-8"
+                      />
+                      {segmentLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Everyone matching the segment when the campaign is created. Segments are managed from Contacts.
+                    </p>
+                  </TabsContent>
+                  <TabsContent value="csv" className="space-y-2">
+                    <input ref={fileInputRef} type="file" accept=".csv" className="hidden" onChange={handleCsvUpload} />
+                    <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+                      <Upload className="w-4 h-4" />
+                      {draft.csvFileName || "Choose CSV file"}
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      Needs a header row with a phone column. A name column fills {"{name}"}; every other column becomes a
+                      merge field named after its header.
+                    </p>
+                  </TabsContent>
+                </Tabs>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Send from</Label>
+                <div className="flex gap-3 flex-wrap">
+                  {[2, 3, 4, 5].map((span) => (
+                    <label key={span} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.gsmSpans.includes(span)}
+                        onCheckedChange={() => update({ gsmSpans: toggleIn(draft.gsmSpans, span) })}
+                      />
+                      {spanName(span)}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">None selected = every port that is up when the campaign runs</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label>SMS per minute, per SIM</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={draft.ratePerMinute}
+                    onChange={(e) => update({ ratePerMinute: Math.min(30, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Start</Label>
+                  <Input
+                    type="datetime-local"
+                    value={draft.scheduledAt}
+                    onChange={(e) => update({ scheduledAt: e.target.value })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Leave the start empty to send now. Keep the rate low — carriers block SIMs that blast too fast.
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={createCampaign.isPending} className="gap-2">
+              {createCampaign.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              {draft?.scheduledAt ? "Schedule" : "Start"} Campaign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Per-recipient progress */}
+      <Dialog open={detailId !== null} onOpenChange={(open) => !open && setDetailId(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{detailCampaign?.name || "Campaign"} — Recipients</DialogTitle>
+          </DialogHeader>
+          <Select value={detailStatus} onValueChange={setDetailStatus}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All</SelectItem>
+              {(Object.keys(recipientStyles) as SmsCampaignRecipientStatus[]).map((status) => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ScrollArea className="h-[400px]">
+            {recipientsLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Port</TableHead>
+                    <TableHead>Sent</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recipients.map((r) => (
+                    <TableRow key={r.id}>
+                      <TableCell className="font-mono text-sm">{r.phone_number}</TableCell>
+                      <TableCell className="text-sm">{r.name || "—"}</TableCell>
+                      <TableCell className={cn("text-xs capitalize", recipientStyles[r.status])} title={r.error || undefined}>
+                        {r.status}
+                        {r.error && <span className="block normal-case text-muted-foreground">{r.error}</span>}
+                      </TableCell>
+                      <TableCell className="text-xs">{r.gsm_span ? spanName(r.gsm_span) : "—"}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {r.sent_at ? formatDateNairobi(r.sent_at) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
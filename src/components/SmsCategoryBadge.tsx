@@ -9,6 +9,14 @@ import {
   HelpCircle,
   Sparkles
 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
 
 export type SmsCategory = "otp" | "marketing" | "personal" | "transactional" | "notification" | "spam" | "unknown";
@@ -114,3 +122,43 @@ export const CategoryLegend = () => {
     </div>
   );
 };
+
+interface SmsCategoryPickerProps extends SmsCategoryBadgeProps {
+  onChange: (category: SmsCategory) => void;
+  disabled?: boolean;
+}
+
+/** Category badge that opens a menu to correct the category. */
+export const SmsCategoryPicker = ({ onChange, disabled = false, ...badgeProps }: SmsCategoryPickerProps) => {
+  if (disabled) return <SmsCategoryBadge {...badgeProps} />;
+
+  const categories = Object.entries(categoryConfig).filter(([key]) => key !== "unknown");
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button type="button" className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring" title="Change category">
+          <SmsCategoryBadge {...badgeProps} className={cn("cursor-pointer", badgeProps.className)} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel className="text-xs">Correct category</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {categories.map(([key, config]) => {
+          const Icon = config.icon;
+          return (
+            <DropdownMenuItem
+              key={key}
+              disabled={key === badgeProps.category}
+              onSelect={() => onChange(key as SmsCategory)}
+              className="gap-2 text-xs"
+            >
+              <Icon className="w-3 h-3" />
+              {config.label}
+            </DropdownMenuItem>
+          );
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
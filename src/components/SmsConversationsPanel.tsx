@@ -0,0 +1,324 @@
+import React, { useState, useMemo, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageSquare, Send, Search, Loader2, ArrowLeft, Ban, Sparkles } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { cn } from "@/lib/utils";
+import { useCan } from "@/hooks/useCan";
+import { useUserPermissions } from "@/hooks/useUserPermissions";
+import { useGsmSpanConfig } from "@/hooks/useGsmSpanConfig";
+import { useSmsConversations, useSendSms, SmsConversation } from "@/hooks/useSmsConversations";
+import { useSmsOptOuts } from "@/hooks/useSmsOptOuts";
+import { useLlmStatus, useReplySuggestions } from "@/hooks/useLlmProvider";
+
+const SMS_SEGMENT_LENGTH = 160;
+
+export const SmsConversationsPanel: React.FC = () => {
+  const [search, setSearch] = useState("");
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [replySpan, setReplySpan] = useState<string>("");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+  const { conversations, isLoading } = useSmsConversations(1000);
+  const { gsmSpans } = useGsmSpanConfig();
+  const sendSms = useSendSms();
+  const { isOptedOut } = useSmsOptOuts();
+  const { data: llmStatus } = useLlmStatus();
+  const replySuggestions = useReplySuggestions();
+  const canSuggest = Boolean(llmStatus?.available && llmStatus.features.reply_suggestions);
+  const can = useCan();
+  const { data: permissions } = useUserPermissions();
+  const canReply = can("sms.send");
+  const apiUrl = import.meta.env.VITE_API_URL;
+  const token = localStorage.getItem("authToken");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const activeSpans = useMemo(() => gsmSpans.filter((s) => s.is_active), [gsmSpans]);
+
+  // Port-restricted users only see threads that came in on ports they can access
+  const visibleConversations = useMemo(() => {
+    const allowedPorts = permissions?.ports && permissions.ports.length > 0 ? permissions.ports : null;
+    const searchLower = search.trim().toLowerCase();
+
+    return conversations.filter((c: SmsConversation) => {
+      if (allowedPorts && !c.messages.some((m) => m.gsmSpan !== null && allowedPorts.includes(m.gsmSpan - 1))) {
+        return false;
+      }
+      if (!searchLower) return true;
+      return (
+        c.number.toLowerCase().includes(searchLower) ||
+        c.messages.some((m) => (m.content || "").toLowerCase().includes(searchLower))
+      );
+    });
+  }, [conversations, permissions, search]);
+
+  const selected = useMemo(
+    () => visibleConversations.find((c) => c.key === selectedKey) || null,
+    [visibleConversations, selectedKey]
+  );
+
+  const openKey = selected?.key;
+  const lastGsmSpan = selected?.lastGsmSpan;
+  const messageCount = selected?.messages.length;
+
+  // Default the reply span to the one the customer last texted in on
+  useEffect(() => {
+    if (!openKey) return;
+    const preferred = activeSpans.find((s) => s.gsm_span === lastGsmSpan) || activeSpans[0];
+    setReplySpan(preferred ? String(preferred.gsm_span) : "");
+  }, [openKey, lastGsmSpan, activeSpans]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [openKey, messageCount]);
+
+  const openConversation = async (conversation: SmsConversation) => {
+    setSelectedKey(conversation.key);
+    setDraft("");
+    setSuggestions([]);
+
+    const unread = conversation.messages.filter((m) => m.isNew);
+    if (unread.length === 0 || !can("sms.manage")) return;
+    try {
+      await Promise.all(unread.map((m) => fetch(`${apiUrl}/api/sms-messages/${m.id}/status`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ status: "read" }),
+      })));
+      queryClient.invalidateQueries({ queryKey: ["sms-messages"] });
+    } catch (e) {
+      console.error("Failed to mark conversation as read:", e);
+    }
+  };
+
+  const handleSend = () => {
+    if (!selected || !draft.trim() || !replySpan) return;
+    sendSms.mutate(
+      { to: selected.number, message: draft.trim(), gsm_span: parseInt(replySpan) },
+      { onSuccess: () => { setDraft(""); setSuggestions([]); } }
+    );
+  };
+
+  const handleSuggest = () => {
+    if (!selected) return;
+    replySuggestions.mutate(selected.number, { onSuccess: setSuggestions });
+  };
+
+  const spanLabel = (gsmSpan: number | null) => {
+    if (gsmSpan === null) return "Gateway";
+    const span = gsmSpans.find((s) => s.gsm_span === gsmSpan);
+    return span?.name || `Port ${gsmSpan - 1}`;
+  };
+
+  const segments = Math.max(1, Math.ceil(draft.length / SMS_SEGMENT_LENGTH));
+
+  return (
+    <Card className="card-glow border-border/50 bg-card flex flex-col min-h-0">
+      <CardHeader className="pb-3 shrink-0">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="min-w-0">
+            <CardTitle className="text-base font-semibold">Conversations</CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              {visibleConversations.length} contacts
+            </p>
+          </div>
+          <div className="relative w-full sm:w-64">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search number or message..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-8 h-9 bg-background border-border/50"
+            />
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0 flex-1 min-h-0">
+        <div className="grid grid-cols-1 md:grid-cols-[280px_1fr] border-t border-border/50 h-[600px]">
+          {/* Thread list */}
+          <ScrollArea className={cn("border-r border-border/50", selected && "hidden md:block")}>
+            {isLoading ? (
+              <div className="p-4">Loading...</div>
+            ) : visibleConversations.length === 0 ? (
+              <div className="p-4 text-muted-foreground">No conversations found</div>
+            ) : (
+              <div className="divide-y divide-border/50">
+                {visibleConversations.map((c) => (
+                  <button
+                    key={c.key}
+                    onClick={() => openConversation(c)}
+                    className={cn(
+                      "w-full text-left p-3 hover:bg-muted/30 transition",
+                      c.key === selectedKey && "bg-primary/10",
+                      c.unreadCount > 0 && c.key !== selectedKey && "bg-primary/5"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={cn("font-medium truncate", c.unreadCount > 0 ? "text-foreground" : "text-muted-foreground")}>
+                        {c.number}
+                      </span>
+                      {c.unreadCount > 0 && (
+                        <Badge className="h-5 px-1.5 text-xs">{c.unreadCount}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate mt-1">
+                      {c.lastMessage.direction === "sent" && "You: "}
+                      {c.lastMessage.content}
+                    </p>
+                    <p className="text-[10px] text-muted-foreground font-mono mt-1">{c.lastMessage.timestamp}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          {/* Thread */}
+          <div className={cn("flex flex-col min-h-0", !selected && "hidden md:flex")}>
+            {!selected ? (
+              <div className="flex-1 flex flex-col items-center justify-center text-muted-foreground gap-2">
+                <MessageSquare className="w-8 h-8" />
+                <p className="text-sm">Select a conversation</p>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-border/50 shrink-0">
+                  <Button variant="ghost" size="icon" className="h-7 w-7 md:hidden" onClick={() => setSelectedKey(null)}>
+                    <ArrowLeft className="w-4 h-4" />
+                  </Button>
+                  <div className="min-w-0">
+                    <h3 className="font-semibold truncate">{selected.number}</h3>
+                    <p className="text-xs text-muted-foreground">{selected.messages.length} messages</p>
+                  </div>
+                </div>
+
+                <ScrollArea className="flex-1 min-h-0">
+                  <div className="p-4 space-y-3">
+                    {selected.messages.map((m) => (
+                      <div key={m.id} className={cn("flex", m.direction === "sent" ? "justify-end" : "justify-start")}>
+                        <div
+                          className={cn(
+                            "max-w-[75%] rounded-lg px-3 py-2 text-sm",
+                            m.direction === "sent" ? "bg-primary text-primary-foreground" : "bg-muted text-foreground"
+                          )}
+                        >
+                          <p className="whitespace-pre-wrap break-words">{m.content}</p>
+                          <div
+                            className={cn(
+                              "flex items-center gap-2 mt-1 text-[10px]",
+                              m.direction === "sent" ? "text-primary-foreground/70" : "text-muted-foreground"
+                            )}
+                          >
+                            <span className="font-mono">{m.timestamp}</span>
+                            <span>· {m.portName || spanLabel(m.gsmSpan)}</span>
+                            {m.direction === "sent" && m.status === "failed" && (
+                              <Badge variant="destructive" className="h-4 px-1 text-[10px]">failed</Badge>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                    <div ref={bottomRef} />
+                  </div>
+                </ScrollArea>
+
+                {/* Composer */}
+                {isOptedOut(selected.number) ? (
+                  <div className="border-t border-border/50 p-3 text-xs text-muted-foreground shrink-0 flex items-center gap-2">
+                    <Ban className="w-3 h-3 text-destructive" />
+                    This number has opted out of SMS
+                  </div>
+                ) : canReply ? (
+                  <div className="border-t border-border/50 p-3 space-y-2 shrink-0">
+                    {suggestions.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {suggestions.map((suggestion) => (
+                          <button
+                            key={suggestion}
+                            type="button"
+                            onClick={() => setDraft(suggestion)}
+                            className="text-left text-xs rounded-md border border-border/50 bg-muted/40 px-2 py-1 hover:bg-muted transition-colors"
+                          >
+                            {suggestion}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <Textarea
+                      placeholder={`Reply to ${selected.number}...`}
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                          e.preventDefault();
+                          handleSend();
+                        }
+                      }}
+                      rows={3}
+                      className="resize-none bg-background border-border/50"
+                    />
+                    <div className="flex items-center justify-between gap-2 flex-wrap">
+                      <div className="flex items-center gap-2">
+                        <Select value={replySpan} onValueChange={setReplySpan}>
+                          <SelectTrigger className="h-8 w-[180px] bg-background border-border/50">
+                            <SelectValue placeholder={activeSpans.length ? "Send from..." : "No active SIM"} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {activeSpans.map((s) => (
+                              <SelectItem key={s.gsm_span} value={String(s.gsm_span)}>
+                                {s.name || `Port ${s.gsm_span - 1}`}
+                                {s.phone_number ? ` (${s.phone_number})` : ""}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <span className="text-xs text-muted-foreground">
+                          {draft.length} chars · {segments} SMS
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {canSuggest && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={handleSuggest}
+                            disabled={replySuggestions.isPending}
+                            className="gap-2"
+                          >
+                            {replySuggestions.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                            Suggest
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          onClick={handleSend}
+                          disabled={!draft.trim() || !replySpan || sendSms.isPending}
+                          className="gap-2"
+                        >
+                          {sendSms.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                          Send
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="border-t border-border/50 p-3 text-xs text-muted-foreground shrink-0">
+                    Your role cannot send messages
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SmsConversationsPanel;
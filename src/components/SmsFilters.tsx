@@ -19,12 +19,14 @@ import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 import type { SmsCategory } from "@/components/SmsCategoryBadge";
 import { getPortLabel, type PortLabel } from "@/hooks/usePortLabels";
+import { SegmentSelect, ALL_SEGMENTS } from "@/components/SegmentSelect";
 
 export interface SmsFiltersState {
   search: string;
   simPort: string;
   status: string;
   category: string;
+  segment: string; // contact segment id, or "all"
   dateFrom: Date | undefined;
   dateTo: Date | undefined;
 }
@@ -34,10 +36,11 @@ interface SmsFiltersProps {
   onFiltersChange: (filters: SmsFiltersState) => void;
   simPorts: number[];
   portLabels?: Record<number, PortLabel>;
-  isViewer?: boolean;
+  // Whether the port, status, category and date filters are shown
+  canFilter?: boolean;
 }
 
-export const SmsFilters = ({ filters, onFiltersChange, simPorts, portLabels, isViewer = false }: SmsFiltersProps) => {
+export const SmsFilters = ({ filters, onFiltersChange, simPorts, portLabels, canFilter = true }: SmsFiltersProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
 
   const updateFilter = <K extends keyof SmsFiltersState>(
@@ -53,6 +56,7 @@ export const SmsFilters = ({ filters, onFiltersChange, simPorts, portLabels, isV
       simPort: "all",
       status: "all",
       category: "all",
+      segment: ALL_SEGMENTS,
       dateFrom: undefined,
       dateTo: undefined,
     });
@@ -63,6 +67,7 @@ export const SmsFilters = ({ filters, onFiltersChange, simPorts, portLabels, isV
     filters.simPort !== "all" ||
     filters.status !== "all" ||
     filters.category !== "all" ||
+    filters.segment !== ALL_SEGMENTS ||
     filters.dateFrom ||
     filters.dateTo;
 
@@ -104,9 +109,9 @@ export const SmsFilters = ({ filters, onFiltersChange, simPorts, portLabels, isV
 
       {/* Expanded Filters */}
       {isExpanded && (
-        <div className="grid gap-3 sm:grid-cols-5 p-3 rounded-lg bg-muted/30 border border-border/30">
+        <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6 p-3 rounded-lg bg-muted/30 border border-border/30">
           {/* SIM Port Filter */}
-          {!isViewer && (
+          {canFilter && (
           <div className="space-y-1">
             <label className="text-xs text-muted-foreground">SIM Port</label>
             <Select
@@ -132,7 +137,7 @@ export const SmsFilters = ({ filters, onFiltersChange, simPorts, portLabels, isV
           )}
 
           {/* Status Filter */}
-          {!isViewer && (
+          {canFilter && (
           <div className="space-y-1">
             <label className="text-xs text-muted-foreground">Status</label>
             <Select
@@ -153,7 +158,7 @@ export const SmsFilters = ({ filters, onFiltersChange, simPorts, portLabels, isV
           )}
 
           {/* Category Filter */}
-          {!isViewer && (
+          {canFilter && (
           <div className="space-y-1">
             <label className="text-xs text-muted-foreground flex items-center gap-1">
               <Sparkles className="w-3 h-3" />
@@ -180,6 +185,18 @@ export const SmsFilters = ({ filters, onFiltersChange, simPorts, portLabels, isV
           </div>
           )}
 
+          {/* Contact Segment Filter */}
+          {canFilter && (
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Segment</label>
+            <SegmentSelect
+              value={filters.segment}
+              onChange={(value) => updateFilter("segment", value)}
+              className="w-full h-9 bg-background border-border/50"
+            />
+          </div>
+          )}
+
           {/* Date From */}
           <div className="space-y-1">
             <label className="text-xs text-muted-foreground">From Date</label>
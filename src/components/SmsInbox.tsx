@@ -4,11 +4,12 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { MessageSquare, Clock, Eye, EyeOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { SmsCategoryBadge, SmsCategory } from "./SmsCategoryBadge";
+import { SmsCategoryPicker, SmsCategory } from "./SmsCategoryBadge";
 import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { usePortLabels, getPortLabel } from "@/hooks/usePortLabels";
-import { useAuth } from "@/hooks/useAuth";
+import { useCan } from "@/hooks/useCan";
+import { useCategorizeMessages } from "@/hooks/useSmsMessages";
 
 interface SmsMessage {
   id: string;
@@ -34,11 +35,13 @@ export const SmsInbox = ({ messages }: SmsInboxProps) => {
   const apiUrl = import.meta.env.VITE_API_URL;
   const token = localStorage.getItem('authToken');
   const { data: portLabels } = usePortLabels();
-  const { isAdmin } = useAuth();
+  const can = useCan();
+  const categorize = useCategorizeMessages();
+  const canCorrectCategory = can("sms.manage");
 
-  // For non-admins, hide account balance information from MPESA messages
+  // Without sms.view_full, hide account balance information from MPESA messages
   const maskContent = (content: string): string => {
-    if (isAdmin) return content;
+    if (can("sms.view_full")) return content;
     const idx = content.search(/new utility balance/i);
     if (idx !== -1) return content.substring(0, idx).trimEnd() + "…";
     return content;
@@ -123,10 +126,12 @@ export const SmsInbox = ({ messages }: SmsInboxProps) => {
                       >
                         {message.portName || getPortLabel(message.simPort, portLabels)}
                       </Badge>
-                      <SmsCategoryBadge 
-                        category={message.category} 
+                      <SmsCategoryPicker
+                        category={message.category}
                         confidence={message.categoryConfidence}
                         showConfidence={message.categoryConfidence !== undefined}
+                        disabled={!canCorrectCategory}
+                        onChange={(category) => categorize.mutate({ messageId: message.id, category })}
                       />
                       {message.isNew && (
                         <Badge className="text-xs bg-primary/20 text-primary border-0">
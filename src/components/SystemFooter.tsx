@@ -2,7 +2,7 @@ import { RefreshCw, BellRing } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useQuery } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/useAuth";
+import { useCan } from "@/hooks/useCan";
 
 const API_URL = import.meta.env.VITE_API_URL || "http://localhost:2003";
 
@@ -12,8 +12,8 @@ interface SystemFooterProps {
 }
 
 export const SystemFooter = ({ lastSync, onRefresh }: SystemFooterProps) => {
-  const { role } = useAuth();
-  const isSuperAdmin = role === "super_admin";
+  const can = useCan();
+  const canUpdate = can("system.update");
 
   const { data: updateCheck } = useQuery({
     queryKey: ["system-update-check-footer"],
@@ -23,7 +23,7 @@ export const SystemFooter = ({ lastSync, onRefresh }: SystemFooterProps) => {
       if (!res.ok || !json.success) throw new Error(json.error || "Failed to check updates");
       return json.data as { configured: boolean; updateAvailable: boolean };
     },
-    enabled: isSuperAdmin,
+    enabled: canUpdate,
     refetchInterval: 60000,
     retry: 0,
   });
@@ -34,7 +34,7 @@ export const SystemFooter = ({ lastSync, onRefresh }: SystemFooterProps) => {
         <div className="flex items-center gap-3 text-sm">
           <span className="text-muted-foreground">Last sync:</span>
           <span className="font-mono text-foreground">{lastSync}</span>
-          {isSuperAdmin && updateCheck?.updateAvailable && (
+          {canUpdate && updateCheck?.updateAvailable && (
             <Badge variant="destructive" className="gap-1 text-[11px]">
               <BellRing className="w-3 h-3" />
               Update available
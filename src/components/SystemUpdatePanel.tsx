@@ -59,7 +59,10 @@ export const SystemUpdatePanel = () => {
     mutationFn: async () => {
       const r = await fetch(`${API_URL}/api/system/update`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("authToken")}`,
+        },
       });
       const j = await r.json();
       if (!r.ok) throw new Error(j.error || "Failed to start update");
@@ -76,7 +76,7 @@ export const TelegramSettingsForm = () => {
       const apiUrl = import.meta.env.VITE_API_URL;
       const response = await fetch(`${apiUrl}/api/notifications-setup`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify({
           telegram_enabled:    config.enabled,
           email_enabled:       config.email_enabled,
@@ -109,7 +109,7 @@ export const TelegramSettingsForm = () => {
       const apiUrl = import.meta.env.VITE_API_URL;
       const response = await fetch(`${apiUrl}/api/manual-report`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
       });
       const result = await response.json();
       if (response.ok && result.success) {
@@ -4,14 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { KeyRound, Loader2, User, Mail, Star, BarChart3, Phone, PhoneMissed, Clock } from "lucide-react";
-import { useAuth } from "@/hooks/useAuth";
-import { useCurrentUserRole, ROLE_META } from "@/hooks/useRoles";
-import { useQuery } from "@tanstack/react-query";
+import { KeyRound, Loader2, User, Mail, Star, BarChart3, Phone, PhoneMissed, Clock, Monitor, LogOut } from "lucide-react";
+import { useAuth, signOut } from "@/hooks/useAuth";
+import { roleColor } from "@/hooks/useRoles";
+import { useMyPermissions } from "@/hooks/useCan";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { z } from "zod";
-import { format, startOfDay, endOfDay } from "date-fns";
+import { format, formatDistanceToNow, startOfDay, endOfDay } from "date-fns";
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:2003';
 
@@ -55,6 +56,36 @@ const useMyDailyReport = () => {
   });
 };
 
+interface AuthSession {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+  expires_at: string;
+  current: boolean;
+}
+
+const useMySessions = () => {
+  return useQuery({
+    queryKey: ["my-sessions"],
+    queryFn: async (): Promise<AuthSession[]> => {
+      const res = await fetch(`${API_URL}/api/auth/sessions`, { headers: getAuthHeaders() });
+      const json = await res.json();
+      if (!res.ok || !json.success) throw new Error(json.error || "Failed to load sessions");
+      return json.data || [];
+    },
+  });
+};
+
+// Short "Chrome on Windows" style label from a user agent string
+const describeUserAgent = (ua: string | null) => {
+  if (!ua) return "Unknown device";
+  const browser = /Edg\//.test(ua) ? "Edge" : /Chrome\//.test(ua) ? "Chrome" : /Firefox\//.test(ua) ? "Firefox" : /Safari\//.test(ua) ? "Safari" : "Browser";
+  const os = /Android/.test(ua) ? "Android" : /iPhone|iPad/.test(ua) ? "iOS" : /Windows/.test(ua) ? "Windows" : /Mac OS X/.test(ua) ? "macOS" : /Linux/.test(ua) ? "Linux" : "Unknown OS";
+  return `${browser} on ${os}`;
+};
+
 const useMyRatings = () => {
   return useQuery({
     queryKey: ["my-ratings"],
@@ -87,9 +118,12 @@ const StarRating = ({ rating }: { rating: number }) => (
 
 export const UserProfilePanel = () => {
   const { user } = useAuth();
-  const { data: currentRole } = useCurrentUserRole();
+  const { data: currentRole } = useMyPermissions();
   const { data: dailyReport } = useMyDailyReport();
   const { data: ratingsData } = useMyRatings();
+  const { data: sessions = [], isLoading: sessionsLoading } = useMySessions();
+  const queryClient = useQueryClient();
+  const [revokingId, setRevokingId] = useState<string | null>(null);
 
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
@@ -120,6 +154,7 @@ export const UserProfilePanel = () => {
       toast.success("Password updated successfully");
       setNewPassword("");
       setConfirmPassword("");
+      queryClient.invalidateQueries({ queryKey: ["my-sessions"] });
     }
     setIsUpdating(false);
   };
@@ -147,6 +182,42 @@ export const UserProfilePanel = () => {
     setIsPinUpdating(false);
   };
 
+  const handleRevokeSession = async (session: AuthSession) => {
+    if (session.current) {
+      await signOut();
+      return;
+    }
+    setRevokingId(session.id);
+    const res = await fetch(`${API_URL}/api/auth/sessions/${session.id}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      toast.error(json.error || "Failed to sign out session");
+    } else {
+      toast.success("Session signed out");
+    }
+    setRevokingId(null);
+    queryClient.invalidateQueries({ queryKey: ["my-sessions"] });
+  };
+
+  const handleRevokeOtherSessions = async () => {
+    setRevokingId("others");
+    const res = await fetch(`${API_URL}/api/auth/sessions/revoke-others`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+    });
+    const json = await res.json();
+    if (!res.ok || !json.success) {
+      toast.error(json.error || "Failed to sign out other sessions");
+    } else {
+      toast.success(`Signed out ${json.revoked} other session${json.revoked === 1 ? "" : "s"}`);
+    }
+    setRevokingId(null);
+    queryClient.invalidateQueries({ queryKey: ["my-sessions"] });
+  };
+
   return (
     <div className="space-y-6 max-w-3xl mx-auto">
       {/* Profile Info */}
@@ -169,10 +240,10 @@ export const UserProfilePanel = () => {
             <div className="flex items-center gap-3">
               <KeyRound className="w-4 h-4 text-muted-foreground" />
               <div>
-                <Badge className={ROLE_META.colors[currentRole]}>
-                  {ROLE_META.labels[currentRole]}
+                <Badge className={roleColor(currentRole.role)}>
+                  {currentRole.label}
                 </Badge>
-                <div className="text-xs text-muted-foreground mt-1">{ROLE_META.descriptions[currentRole]}</div>
+                <div className="text-xs text-muted-foreground mt-1">{currentRole.description}</div>
               </div>
             </div>
           )}
@@ -350,6 +421,63 @@ export const UserProfilePanel = () => {
           </Tabs>
         </CardContent>
       </Card>
+
+      {/* Sessions */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                <Monitor className="w-4 h-4" />
+                Sessions
+              </CardTitle>
+              <CardDescription>Devices currently signed in to your account</CardDescription>
+            </div>
+            {sessions.length > 1 && (
+              <Button size="sm" variant="outline" onClick={handleRevokeOtherSessions} disabled={revokingId !== null}>
+                {revokingId === "others" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Sign out other sessions
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {sessionsLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active sessions</p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/30">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{describeUserAgent(session.user_agent)}</span>
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {session.ip_address || "Unknown IP"}
+                      {session.last_seen_at && ` · active ${formatDistanceToNow(new Date(session.last_seen_at), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRevokeSession(session)}
+                    disabled={revokingId !== null}
+                    className="shrink-0 gap-2"
+                  >
+                    {revokingId === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+                    {session.current ? "Log out" : "Sign out"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
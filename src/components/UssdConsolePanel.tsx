@@ -0,0 +1,310 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Send, Terminal, Wallet, RefreshCw, History, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { formatDateNairobi } from "@/lib/dateUtils";
+import { useGsmSpanConfig } from "@/hooks/useGsmSpanConfig";
+import {
+  SimBalanceConfigInput,
+  useSimBalances,
+  useSimBalanceHistory,
+  useSaveSimBalanceConfig,
+  useCheckSimBalance,
+  useSendUssd,
+  formatSimBalance,
+} from "@/hooks/useSimBalances";
+
+interface TranscriptEntry {
+  id: number;
+  gsmSpan: number;
+  direction: "out" | "in" | "error";
+  text: string;
+  sessionOpen?: boolean;
+}
+
+const INTERVAL_OPTIONS = [
+  { value: 60, label: "Hourly" },
+  { value: 180, label: "Every 3 hours" },
+  { value: 360, label: "Every 6 hours" },
+  { value: 720, label: "Every 12 hours" },
+  { value: 1440, label: "Daily" },
+];
+
+export const UssdConsolePanel = () => {
+  const { gsmSpans } = useGsmSpanConfig();
+  const { data: balances = [] } = useSimBalances();
+  const sendUssd = useSendUssd();
+  const saveConfig = useSaveSimBalanceConfig();
+  const checkBalance = useCheckSimBalance();
+
+  const [gsmSpan, setGsmSpan] = useState("2");
+  const [code, setCode] = useState("");
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, SimBalanceConfigInput>>({});
+  const [historySpan, setHistorySpan] = useState<number | null>(null);
+  const { data: history = [], isLoading: historyLoading } = useSimBalanceHistory(historySpan);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [transcript.length]);
+
+  // Seed the editors once per span so a live balance refresh doesn't wipe unsaved edits
+  useEffect(() => {
+    setDrafts((prev) => {
+      const next = { ...prev };
+      balances.forEach((b) => {
+        if (!next[b.gsm_span]) {
+          next[b.gsm_span] = {
+            enabled: b.enabled,
+            ussd_code: b.ussd_code,
+            interval_minutes: b.interval_minutes,
+            low_threshold: b.low_threshold,
+          };
+        }
+      });
+      return next;
+    });
+  }, [balances]);
+
+  const spanName = (span: number) => gsmSpans.find((s) => s.gsm_span === span)?.name || `Port ${span - 1}`;
+
+  const lastForSpan = [...transcript].reverse().find((t) => t.gsmSpan === parseInt(gsmSpan) && t.direction !== "out");
+  const sessionOpen = !!lastForSpan?.sessionOpen;
+
+  const append = (entry: Omit<TranscriptEntry, "id">) =>
+    setTranscript((prev) => [...prev, { ...entry, id: prev.length ? prev[prev.length - 1].id + 1 : 1 }]);
+
+  const handleSend = () => {
+    const value = code.trim();
+    if (!value) return;
+    const span = parseInt(gsmSpan);
+    append({ gsmSpan: span, direction: "out", text: value });
+    setCode("");
+    sendUssd.mutate(
+      { gsm_span: span, code: value },
+      {
+        onSuccess: (reply) =>
+          append({ gsmSpan: span, direction: "in", text: reply.message || "(empty reply)", sessionOpen: reply.session_open }),
+        onError: (err) => append({ gsmSpan: span, direction: "error", text: err.message }),
+      }
+    );
+  };
+
+  const updateDraft = (span: number, patch: Partial<SimBalanceConfigInput>) =>
+    setDrafts((prev) => ({ ...prev, [span]: { ...prev[span], ...patch } }));
+
+  const handleSaveConfig = (span: number) => {
+    saveConfig.mutate(
+      { gsmSpan: span, config: drafts[span] },
+      {
+        onSuccess: () => toast.success(`Balance checks saved for ${spanName(span)}`),
+        onError: (err) => toast.error(err.message),
+      }
+    );
+  };
+
+  const handleCheckNow = (span: number) => {
+    checkBalance.mutate(span, {
+      onSuccess: (reading) => {
+        if (reading.status === "ok") toast.success(`${spanName(span)}: ${formatSimBalance(reading)}`);
+        else toast.warning(`${spanName(span)}: ${reading.status === "error" ? reading.response : "reply had no balance"}`);
+      },
+      onError: (err) => toast.error(err.message),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Interactive console */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="font-semibold text-sm mb-1 flex items-center gap-2">
+            <Terminal className="w-4 h-4" />
+            USSD Console
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Run codes like *144# on a SIM. When the network shows a menu, type the option number to reply.
+          </p>
+        </div>
+
+        <ScrollArea className="h-[220px] rounded-lg border border-border/50 bg-muted/20">
+          <div className="p-3 space-y-2 font-mono text-xs">
+            {transcript.length === 0 ? (
+              <p className="text-muted-foreground">No USSD requests yet.</p>
+            ) : (
+              transcript.map((entry) => (
+                <div key={entry.id} className={cn("flex gap-2", entry.direction === "out" && "justify-end")}>
+                  <div
+                    className={cn(
+                      "max-w-[85%] rounded px-2 py-1 whitespace-pre-wrap break-words",
+                      entry.direction === "out" && "bg-primary text-primary-foreground",
+                      entry.direction === "in" && "bg-background border border-border/50",
+                      entry.direction === "error" && "bg-destructive/10 text-destructive"
+                    )}
+                  >
+                    <span className="block text-[10px] opacity-70">{spanName(entry.gsmSpan)}</span>
+                    {entry.text}
+                  </div>
+                </div>
+              ))
+            )}
+            {sendUssd.isPending && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            <div ref={bottomRef} />
+          </div>
+        </ScrollArea>
+
+        <div className="flex gap-2 flex-wrap">
+          <Select value={gsmSpan} onValueChange={setGsmSpan}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[2, 3, 4, 5].map((span) => (
+                <SelectItem key={span} value={String(span)}>{spanName(span)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSend()}
+            placeholder={sessionOpen ? "Menu choice, e.g. 1" : "e.g. *144#"}
+            className="flex-1 min-w-[160px] font-mono"
+          />
+          <Button onClick={handleSend} disabled={sendUssd.isPending || !code.trim()} className="gap-2">
+            {sendUssd.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            {sessionOpen ? "Reply" : "Send"}
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => setTranscript([])} disabled={transcript.length === 0}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Scheduled balance checks */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="font-semibold text-sm mb-1 flex items-center gap-2">
+            <Wallet className="w-4 h-4" />
+            Balance Checks
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Dial the balance code on a schedule, keep the history, and alert by Telegram / email when a SIM drops below
+            its threshold.
+          </p>
+        </div>
+
+        <div className="divide-y divide-border/50 rounded-lg border border-border/50">
+          {balances.map((b) => {
+            const draft = drafts[b.gsm_span];
+            if (!draft) return null;
+            return (
+              <div key={b.gsm_span} className="p-3 space-y-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium">{spanName(b.gsm_span)}</span>
+                  <Badge variant="outline" className={cn("text-xs", b.is_low && "border-destructive/40 text-destructive")}>
+                    {formatSimBalance(b)}
+                  </Badge>
+                  {b.is_low && <Badge variant="destructive" className="text-xs">Low</Badge>}
+                  {b.balance_at && (
+                    <span className="text-[11px] text-muted-foreground">as of {formatDateNairobi(b.balance_at)}</span>
+                  )}
+                  <div className="ml-auto flex items-center gap-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 gap-1"
+                      onClick={() => handleCheckNow(b.gsm_span)}
+                      disabled={checkBalance.isPending}
+                    >
+                      <RefreshCw className={cn("w-3 h-3", checkBalance.isPending && checkBalance.variables === b.gsm_span && "animate-spin")} />
+                      Check now
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => setHistorySpan(historySpan === b.gsm_span ? null : b.gsm_span)}
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid gap-2 sm:grid-cols-[auto_1fr_1fr_1fr_auto] items-end">
+                  <div className="flex items-center gap-2 h-8">
+                    <Switch checked={draft.enabled} onCheckedChange={(enabled) => updateDraft(b.gsm_span, { enabled })} />
+                    <Label className="text-xs">Scheduled</Label>
+                  </div>
+                  <Input
+                    value={draft.ussd_code}
+                    onChange={(e) => updateDraft(b.gsm_span, { ussd_code: e.target.value })}
+                    placeholder="*144#"
+                    className="h-8 text-sm font-mono"
+                  />
+                  <Select
+                    value={String(draft.interval_minutes)}
+                    onValueChange={(value) => updateDraft(b.gsm_span, { interval_minutes: parseInt(value) })}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVAL_OPTIONS.map((o) => (
+                        <SelectItem key={o.value} value={String(o.value)}>{o.label}</SelectItem>
+                      ))}
+                      {!INTERVAL_OPTIONS.some((o) => o.value === draft.interval_minutes) && (
+                        <SelectItem value={String(draft.interval_minutes)}>Every {draft.interval_minutes} min</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.low_threshold ?? ""}
+                    onChange={(e) =>
+                      updateDraft(b.gsm_span, { low_threshold: e.target.value === "" ? null : Math.max(0, parseFloat(e.target.value) || 0) })
+                    }
+                    placeholder="Alert below"
+                    className="h-8 text-sm"
+                  />
+                  <Button size="sm" className="h-8" onClick={() => handleSaveConfig(b.gsm_span)} disabled={saveConfig.isPending}>
+                    <Save className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+
+                {historySpan === b.gsm_span && (
+                  <div className="rounded bg-muted/30 p-2 text-xs space-y-1">
+                    {historyLoading ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                    ) : history.length === 0 ? (
+                      <p className="text-muted-foreground">No checks yet</p>
+                    ) : (
+                      history.map((h) => (
+                        <div key={h.id} className="flex items-center gap-2">
+                          <span className="font-mono text-muted-foreground w-[130px] shrink-0">{formatDateNairobi(h.created_at)}</span>
+                          <span className={cn("w-[90px] shrink-0", h.status !== "ok" && "text-amber-600")}>
+                            {h.status === "ok" ? formatSimBalance(h) : h.status}
+                          </span>
+                          <span className="truncate text-muted-foreground" title={h.response || undefined}>{h.response}</span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -204,7 +204,7 @@ export const WeeklyShiftPlanner = () => {
     try {
       const response = await fetch(`${API_URL}/api/shift-schedule/bulk`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify({ entries }),
       });
       const json = await response.json().catch(() => ({}));
@@ -256,7 +256,7 @@ export const WeeklyShiftPlanner = () => {
 
     const response = await fetch(`${API_URL}/api/shift-schedule/${entry.id}`, {
       method: "PUT",
-      headers: { "Content-Type": "application/json" },
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
       body: JSON.stringify({ start_time: editStart, end_time: editEnd }),
     });
     const json = await response.json().catch(() => ({}));
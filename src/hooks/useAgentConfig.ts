@@ -1,46 +1,54 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import type { AppliedConfigChange } from "@/hooks/useAiAutomation";
 
+const API_URL = import.meta.env.VITE_API_URL;
+
+// One runtime knob of the local agent. Values are stored in system_settings
+// and the agent applies a change as soon as it is saved.
 export interface AgentConfig {
-  id: string;
-  config_key: string;
-  config_value: {
-    value?: number;
-    min?: number;
-    max?: number;
-    enabled?: boolean;
-  };
+  key: string;
+  type: "number" | "boolean";
+  value: number | boolean;
+  default: number | boolean;
+  min?: number;
+  max?: number;
+  unit?: string | null;
+  description: string;
   ai_tuned: boolean;
-  last_tuned_at: string | null;
-  updated_at: string;
+  updated_at: string | null;
+  updated_by: string | null;
 }
 
-const DEFAULT_CONFIGS: AgentConfig[] = [
-  { id: "1", config_key: "poll_interval_seconds", config_value: { value: 30, min: 10, max: 300 }, ai_tuned: false, last_tuned_at: null, updated_at: new Date().toISOString() },
-  { id: "2", config_key: "missed_call_threshold_minutes", config_value: { value: 5, min: 1, max: 60 }, ai_tuned: false, last_tuned_at: null, updated_at: new Date().toISOString() },
-  { id: "3", config_key: "auto_reply_enabled", config_value: { enabled: false }, ai_tuned: false, last_tuned_at: null, updated_at: new Date().toISOString() },
-];
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
 
-// Stub hook — agent config is not persisted to server in local mode
 export const useAgentConfig = () => {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   const query = useQuery({
     queryKey: ["agent-config"],
-    queryFn: async (): Promise<AgentConfig[]> => DEFAULT_CONFIGS,
-    staleTime: Infinity,
+    queryFn: async (): Promise<AgentConfig[]> => (await request("/api/agent-config")) || [],
+    staleTime: 60_000,
   });
 
   const updateConfig = useMutation({
-    mutationFn: async (_params: { key: string; value: unknown }) => {
-      // No-op in local mode
-    },
-    onSuccess: () => {
+    mutationFn: ({ key, value }: { key: string; value: number | boolean }): Promise<AgentConfig> =>
+      request(`/api/agent-config/${key}`, { method: "PUT", body: JSON.stringify({ value }) }),
+    onSuccess: (config) => {
       queryClient.invalidateQueries({ queryKey: ["agent-config"] });
       toast({
         title: "Configuration Updated",
-        description: "Settings saved (local mode).",
+        description: `${config.key} is now ${String(config.value)}${config.unit ? ` ${config.unit}` : ""}`,
       });
     },
     onError: (error: Error) => {
@@ -52,15 +60,26 @@ export const useAgentConfig = () => {
     },
   });
 
+  // Runs the diagnostics and applies every config change they recommend
   const autoTune = useMutation({
-    mutationFn: async () => {
-      // No-op in local mode
-    },
-    onSuccess: () => {
+    mutationFn: (): Promise<{ applied: AppliedConfigChange[] }> =>
+      request("/api/agent-config/auto-tune", { method: "POST" }),
+    onSuccess: ({ applied }) => {
       queryClient.invalidateQueries({ queryKey: ["agent-config"] });
+      queryClient.invalidateQueries({ queryKey: ["ai-recommendations"] });
+      queryClient.invalidateQueries({ queryKey: ["diagnostics"] });
       toast({
         title: "Auto-Tune Complete",
-        description: "Agent configuration optimized (local mode).",
+        description: applied.length > 0
+          ? applied.map((change) => `${change.config}: ${change.from} → ${change.to}`).join(", ")
+          : "No changes recommended",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Auto-Tune Failed",
+        description: error.message,
+        variant: "destructive",
       });
     },
   });
@@ -39,7 +39,10 @@ export interface ShiftScheduleEntry {
 const generatePin = () => String(Math.floor(1000 + Math.random() * 9000));
 
 const jsonFetch = async (url: string, init?: RequestInit) => {
-  const res = await fetch(url, init);
+  const res = await fetch(url, {
+    ...init,
+    headers: { Authorization: `Bearer ${localStorage.getItem("authToken")}`, ...init?.headers },
+  });
   const payload = await res.json().catch(() => ({}));
   if (!res.ok || payload?.success === false) {
     throw new Error(payload?.error || payload?.message || "Request failed");
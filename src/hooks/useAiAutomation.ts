@@ -1,78 +1,128 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type AiRecommendationStatus = "pending" | "applied" | "dismissed" | "resolved";
+
+export interface AppliedConfigChange {
+  config: string;
+  from: number | boolean;
+  to: number | boolean;
+  applied_at: string;
+  applied_by: string | null;
+  reverted_at?: string;
+  reverted_by?: string | null;
+}
+
 export interface AiRecommendation {
   id: string;
   category: string;
   title: string;
   description: string;
-  details: Record<string, unknown>;
-  status: string;
+  details: Record<string, unknown> & { applied_change?: AppliedConfigChange; priority?: string };
+  rule_key: string | null;
+  status: AiRecommendationStatus;
   auto_applied: boolean;
   applied_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// A config change that was applied and can still be undone
+export const revertableChange = (rec: AiRecommendation) => {
+  const change = rec.details?.applied_change;
+  return change && !change.reverted_at ? change : null;
+};
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
 export const useAiAutomation = () => {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  // Stub: no AI backend in local mode
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["ai-recommendations"] });
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
   const recommendations = useQuery({
     queryKey: ["ai-recommendations"],
-    queryFn: async (): Promise<AiRecommendation[]> => [],
-    staleTime: Infinity,
+    queryFn: async (): Promise<AiRecommendation[]> => (await request("/api/ai-recommendations")) || [],
+    staleTime: 60_000,
   });
 
-  // Run specific AI action (stub)
+  // Every action runs the local diagnostics engine, which covers SIM, SMS,
+  // call and error checks plus config tuning; contact discovery has no local generator
   const runAiAction = useMutation({
-    mutationFn: async (action: string) => {
-      void action;
-      throw new Error("AI diagnostics are not available in local mode");
+    mutationFn: async (action: string): Promise<{ recommendations_created: number; recommendations_updated: number }> => {
+      if (action === "auto_create_contacts") {
+        throw new Error("Contact discovery is not available in local mode");
+      }
+      return request("/api/diagnostics/run", { method: "POST", body: JSON.stringify({ scope: "full" }) });
     },
-    onError: (error: Error) => {
+    onSuccess: (result) => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ["diagnostics"] });
       toast({
-        title: "AI Action Failed",
-        description: error.message,
-        variant: "destructive",
+        title: "Analysis complete",
+        description: `${result.recommendations_created} new, ${result.recommendations_updated} updated recommendation(s)`,
       });
     },
+    onError: onError("AI Action Failed"),
   });
 
-  // Apply a recommendation (stub)
   const applyRecommendation = useMutation({
-    mutationFn: async (_recommendationId: string) => {
-      throw new Error("Not available in local mode");
-    },
-    onError: (error: Error) => {
+    mutationFn: (recommendationId: string): Promise<AiRecommendation> =>
+      request(`/api/ai-recommendations/${recommendationId}/apply`, { method: "POST" }),
+    onSuccess: (rec) => {
+      invalidate();
+      const change = revertableChange(rec);
       toast({
-        title: "Apply Failed",
-        description: error.message,
-        variant: "destructive",
+        title: "Recommendation applied",
+        description: change ? `${change.config}: ${change.from} → ${change.to}` : rec.title,
       });
     },
+    onError: onError("Apply Failed"),
   });
 
-  // Dismiss a recommendation (stub — optimistic in-memory only)
   const dismissRecommendation = useMutation({
-    mutationFn: async (_recommendationId: string) => {
-      // No-op
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["ai-recommendations"] });
+    mutationFn: (recommendationId: string): Promise<AiRecommendation> =>
+      request(`/api/ai-recommendations/${recommendationId}/dismiss`, { method: "POST" }),
+    onSuccess: invalidate,
+    onError: onError("Dismiss Failed"),
+  });
+
+  const revertRecommendation = useMutation({
+    mutationFn: (recommendationId: string): Promise<AiRecommendation> =>
+      request(`/api/ai-recommendations/${recommendationId}/revert`, { method: "POST" }),
+    onSuccess: (rec) => {
+      invalidate();
+      const change = rec.details?.applied_change;
+      toast({
+        title: "Change reverted",
+        description: change ? `${change.config} is back to ${change.from}` : rec.title,
+      });
     },
+    onError: onError("Revert Failed"),
   });
 
-  // Clear resolved (stub)
   const clearResolved = useMutation({
-    mutationFn: async () => {
-      // No-op
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["ai-recommendations"] });
-      toast({ title: "Cleared resolved recommendations" });
+    mutationFn: (): Promise<{ deleted: number }> => request("/api/ai-recommendations/resolved", { method: "DELETE" }),
+    onSuccess: ({ deleted }) => {
+      invalidate();
+      toast({ title: `Cleared ${deleted} resolved recommendation(s)` });
     },
+    onError: onError("Clear Failed"),
   });
 
   const pendingCount = recommendations.data?.filter(r => r.status === "pending").length || 0;
@@ -83,6 +133,7 @@ export const useAiAutomation = () => {
     runAiAction,
     applyRecommendation,
     dismissRecommendation,
+    revertRecommendation,
     clearResolved,
   };
 };
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 
-export type AppRole = "super_admin" | "admin" | "operator" | "viewer";
+// A role name from the agent's roles table. The built-in ones are super_admin,
+// admin, operator and viewer; what a role may do is checked with useCan().
+export type AppRole = string;
 
 interface AuthState {
   user: any | null;
@@ -8,8 +10,6 @@ interface AuthState {
   role: AppRole | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  isAdmin: boolean;
-  isOperator: boolean;
 }
 
 interface LoginCredentials {
@@ -19,6 +19,16 @@ interface LoginCredentials {
 
 const apiUrl = import.meta.env.VITE_API_URL;
 
+// Signed tokens are "<payload>.<signature>"; the old "userId:role" tokens are
+// no longer accepted by the agent and must be replaced by a fresh login.
+const isSignedToken = (token: string) => token.split('.').length === 2 && !token.includes(':');
+
+const clearStoredSession = () => {
+  localStorage.removeItem('user');
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('authTokenExpiresAt');
+};
+
 export const useAuth = (): AuthState => {
   const [isLoading, setIsLoading] = useState(true);
   const [user, setUser] = useState<any | null>(null);
@@ -29,15 +39,16 @@ export const useAuth = (): AuthState => {
     const storedUser = localStorage.getItem('user');
     const storedToken = localStorage.getItem('authToken');
     
-    if (storedUser && storedToken) {
+    if (storedToken && !isSignedToken(storedToken)) {
+      clearStoredSession();
+    } else if (storedUser && storedToken) {
       try {
         const parsedUser = JSON.parse(storedUser);
         setUser(parsedUser);
         setIsAuthenticated(true);
       } catch (error) {
         console.error('Failed to parse stored user:', error);
-        localStorage.removeItem('user');
-        localStorage.removeItem('authToken');
+        clearStoredSession();
       }
     }
     
@@ -45,8 +56,6 @@ export const useAuth = (): AuthState => {
   }, []);
 
   const role = user?.role || null;
-  const isAdmin = role === 'admin' || role === 'super_admin';
-  const isOperator = role === 'operator' || isAdmin;
 
   return {
     user,
@@ -54,8 +63,6 @@ export const useAuth = (): AuthState => {
     role: role as AppRole | null,
     isLoading,
     isAuthenticated,
-    isAdmin,
-    isOperator,
   };
 };
 
@@ -76,6 +83,7 @@ export const login = async (credentials: LoginCredentials) => {
     // Store user and token in localStorage
     localStorage.setItem('user', JSON.stringify(result.user));
     localStorage.setItem('authToken', result.token);
+    localStorage.setItem('authTokenExpiresAt', result.expiresAt);
     
     // Log login activity
     try {
@@ -121,19 +129,50 @@ export const register = async (email: string, password: string, name?: string) =
   }
 };
 
+/**
+ * Swap the stored token for a fresh one on the same server-side session.
+ * Returns false (and clears the local session) if the session was revoked or expired.
+ */
+export const refreshAuthToken = async (): Promise<boolean> => {
+  const token = localStorage.getItem('authToken');
+  if (!token) return false;
+
+  try {
+    const response = await fetch(`${apiUrl}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (response.status === 401) {
+      clearStoredSession();
+      return false;
+    }
+    if (!response.ok || !result.success) return false;
+
+    localStorage.setItem('authToken', result.token);
+    localStorage.setItem('authTokenExpiresAt', result.expiresAt);
+    return true;
+  } catch (error) {
+    // Network errors leave the current token in place; the next attempt may succeed
+    console.error('Token refresh error:', error);
+    return false;
+  }
+};
+
 export const signOut = async () => {
   try {
-    // Call logout endpoint
+    // Revoke this session on the agent
+    const token = localStorage.getItem('authToken');
     await fetch(`${apiUrl}/api/auth/logout`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
     });
   } catch (error) {
     console.error('Logout error:', error);
   } finally {
     // Always clear local storage
-    localStorage.removeItem('user');
-    localStorage.removeItem('authToken');
+    clearStoredSession();
     // Reload to reset auth state
     window.location.href = '/auth';
   }
@@ -0,0 +1,35 @@
+import { useEffect } from "react";
+import { useAuth, refreshAuthToken } from "./useAuth";
+import { toast } from "sonner";
+
+const REFRESH_INTERVAL = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Keeps the signed auth token rolling while the app is open and notices when
+ * the session was revoked elsewhere (logout, "sign out other sessions").
+ */
+export const useAuthTokenRefresh = () => {
+  const { isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const refresh = async () => {
+      const refreshed = await refreshAuthToken();
+      // refreshAuthToken clears the stored session when the agent rejects it
+      if (!refreshed && !localStorage.getItem('authToken')) {
+        toast.error("Your session has ended. Please log in again.");
+        window.location.href = '/auth';
+      }
+    };
+
+    // A token that expired while the tab was closed is refreshed straight away
+    const expiresAt = localStorage.getItem('authTokenExpiresAt');
+    if (!expiresAt || new Date(expiresAt).getTime() - Date.now() < REFRESH_INTERVAL) {
+      refresh();
+    }
+
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isAuthenticated]);
+};
@@ -29,7 +29,7 @@ export const useUpdateAutoReplyConfig = () => {
     mutationFn: async (payload: { enabled: boolean; message: string; notification_email?: string | null }) => {
       const res = await fetch(`${API_URL}/api/auto-reply-config`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify(payload),
       });
       const json = await res.json();
@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type AutoReplyMatchType = "exact" | "keyword" | "regex";
+
+export interface AutoReplyRule {
+  id: string;
+  name: string;
+  position: number;
+  enabled: boolean;
+  match_type: AutoReplyMatchType;
+  pattern: string;
+  case_sensitive: boolean;
+  reply_message: string | null;
+  template_id: string | null;
+  template_name?: string | null;
+  gsm_spans: number[]; // Empty = all spans
+  active_days: number[]; // 0 = Sunday; empty = every day
+  active_from: string | null; // HH:MM, server local time
+  active_to: string | null;
+  cooldown_minutes: number;
+  match_count: number;
+  last_matched_at: string | null;
+}
+
+export type AutoReplyRuleInput = Omit<
+  AutoReplyRule,
+  "id" | "position" | "match_count" | "last_matched_at" | "template_name"
+>;
+
+export interface AutoReplyRuleTestResult {
+  rule_id: string;
+  rule_name: string;
+  reply: string;
+}
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+export const useAutoReplyRules = () => {
+  return useQuery({
+    queryKey: ["auto-reply-rules"],
+    queryFn: async (): Promise<AutoReplyRule[]> => (await request("/api/auto-reply-rules")) || [],
+    staleTime: 30_000,
+  });
+};
+
+export const useSaveAutoReplyRule = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, rule }: { id?: string; rule: AutoReplyRuleInput }): Promise<AutoReplyRule> =>
+      request(id ? `/api/auto-reply-rules/${id}` : "/api/auto-reply-rules", {
+        method: id ? "PUT" : "POST",
+        body: JSON.stringify(rule),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["auto-reply-rules"] });
+    },
+  });
+};
+
+export const useToggleAutoReplyRule = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, enabled }: { id: string; enabled: boolean }) =>
+      request(`/api/auto-reply-rules/${id}`, { method: "PUT", body: JSON.stringify({ enabled }) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["auto-reply-rules"] });
+    },
+  });
+};
+
+export const useDeleteAutoReplyRule = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => request(`/api/auto-reply-rules/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["auto-reply-rules"] });
+    },
+  });
+};
+
+export const useReorderAutoReplyRules = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (ids: string[]): Promise<AutoReplyRule[]> =>
+      request("/api/auto-reply-rules/reorder", { method: "PUT", body: JSON.stringify({ ids }) }),
+    onSuccess: (rules) => {
+      queryClient.setQueryData(["auto-reply-rules"], rules);
+    },
+  });
+};
+
+export const useTestAutoReplyRules = () => {
+  return useMutation({
+    mutationFn: (payload: { message: string; gsm_span: number }): Promise<AutoReplyRuleTestResult | null> =>
+      request("/api/auto-reply-rules/test", { method: "POST", body: JSON.stringify(payload) }),
+  });
+};
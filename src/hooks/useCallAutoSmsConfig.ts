@@ -45,7 +45,7 @@ export const useUpdateCallAutoSmsConfig = () => {
     }) => {
       const res = await fetch(`${API_URL}/api/call-auto-sms-config`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify(payload),
       });
       const json = await res.json();
@@ -1,4 +1,7 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRealtimeInterval } from "@/hooks/useRealtimeEvents";
+
+const API_URL = import.meta.env.VITE_API_URL;
 
 export interface CallQueueItem {
   id: string;
@@ -17,15 +20,54 @@ export interface CallQueueItem {
   updated_at: string;
 }
 
+export interface QueueCallInput {
+  from_extension: string;
+  to_number: string;
+  priority?: number; // 0 = normal, higher is dialled first
+  metadata?: Record<string, unknown>; // source, call_record_id, contact name...
+}
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
 export const useCallQueue = () => {
+  const refetchInterval = useRealtimeInterval(10000);
+
   return useQuery({
     queryKey: ["call-queue"],
-    queryFn: async () => {
-      // Local SQLite doesn't have a call_queue table
-      return [];
-    },
-    refetchInterval: 60000, // Increased from 5 to 60 seconds - not critical
-    staleTime: 30000, // 30 second stale time
+    queryFn: async (): Promise<CallQueueItem[]> => (await request("/api/call-queue?limit=50")) || [],
+    refetchInterval, // call.queue events push changes while the stream is up
+    staleTime: 5000,
     retry: 1,
   });
 };
+
+export const useQueueCall = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: QueueCallInput): Promise<CallQueueItem> =>
+      request("/api/call-queue", { method: "POST", body: JSON.stringify(payload) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["call-queue"] });
+    },
+  });
+};
+
+export const useCancelQueuedCall = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string): Promise<CallQueueItem> =>
+      request(`/api/call-queue/${id}/cancel`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["call-queue"] });
+    },
+  });
+};
@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export interface CallRecordingLink {
+  url: string; // Signed stream URL, usable directly as an <audio> src
+  expires_at: string;
+  content_type: string | null;
+  size_bytes: number;
+}
+
+/**
+ * Fetches (and caches on the agent) a call's recording, returning a
+ * short-lived signed URL. Only runs once `enabled` is set, since the first
+ * request downloads the file from the PBX.
+ */
+export const useCallRecording = (callId: string | null, enabled = true) => {
+  return useQuery({
+    queryKey: ["call-recording", callId],
+    queryFn: async (): Promise<CallRecordingLink> => {
+      const token = localStorage.getItem("authToken");
+      const res = await fetch(`${API_URL}/api/call-records/${callId}/recording`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.error || "Failed to load recording");
+      return { ...json.data, url: `${API_URL}${json.data.url}` };
+    },
+    enabled: !!callId && enabled,
+    staleTime: 10 * 60 * 1000, // Links are signed for 15 minutes
+    gcTime: 10 * 60 * 1000,
+    retry: false, // 403/404/502 won't fix themselves
+  });
+};
@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { useRealtimeInterval } from "@/hooks/useRealtimeEvents";
 
 const apiUrl = import.meta.env.VITE_API_URL;
 
@@ -27,9 +28,11 @@ export interface CallRecord {
   created_at: string;
 }
 
-export const useCallRecords = (page = 1, pageSize = 100, extension?: string, direction?: string, status?: string) => {
+export const useCallRecords = (page = 1, pageSize = 100, extension?: string, direction?: string, status?: string, segmentId?: string) => {
+  const refetchInterval = useRealtimeInterval(5000);
+
   return useQuery({
-    queryKey: ["call-records", page, pageSize, extension, direction, status],
+    queryKey: ["call-records", page, pageSize, extension, direction, status, segmentId],
     queryFn: async () => {
       let url = `${apiUrl}/api/call-records?page=${page}&pageSize=${pageSize}`;
       if (extension && extension !== "all") {
@@ -41,13 +44,16 @@ export const useCallRecords = (page = 1, pageSize = 100, extension?: string, dir
       if (status && status !== "all") {
         url += `&status=${status}`;
       }
+      if (segmentId && segmentId !== "all") {
+        url += `&segment_id=${encodeURIComponent(segmentId)}`;
+      }
       const response = await fetch(url);
       if (!response.ok) {
         throw new Error('Failed to fetch call records');
       }
       return await response.json();
     },
-    refetchInterval: 5000, // CRITICAL: Every 5 seconds for real-time calls
+    refetchInterval, // Every 5 seconds unless the push stream is delivering call.ended
     staleTime: 1000, // Fresh data required
     retry: 2, // Restored for reliability
   });
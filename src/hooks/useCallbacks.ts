@@ -0,0 +1,149 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useRealtimeInterval } from "@/hooks/useRealtimeEvents";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type CallbackOutcome = "reached" | "voicemail" | "no_answer" | "wrong_number";
+
+// reached / wrong_number come from logged attempts; the rest are set when the
+// call log or the quick "called back" button closes the task
+export type CallbackResolution = CallbackOutcome | "caller_called_back" | "returned" | "manual";
+
+export interface CallbackTask {
+  id: string;
+  call_record_id: string;
+  caller_number: string;
+  caller_name: string | null;
+  extension: string | null;
+  sim_port: number | null;
+  missed_at: string; // UTC
+  status: "open" | "closed";
+  resolution: CallbackResolution | null;
+  assigned_agent_id: string | null;
+  assigned_agent_name: string | null;
+  assigned_at: string | null;
+  attempt_count: number;
+  first_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_outcome: CallbackOutcome | null;
+  closed_at: string | null;
+  notes: string | null;
+}
+
+export interface CallbackAttempt {
+  id: string;
+  task_id: string;
+  outcome: CallbackOutcome;
+  notes: string | null;
+  agent_id: string | null;
+  agent_name: string | null;
+  attempted_at: string;
+}
+
+export interface CallbackSlaRow {
+  extension: string;
+  username: string | null;
+  missed_calls: number;
+  open_tasks: number;
+  closed_tasks: number;
+  reached: number;
+  caller_called_back: number;
+  attempts: number;
+  called_back: number;
+  within_sla: number;
+  breached: number;
+  avg_first_callback_seconds: number | null;
+  max_first_callback_seconds: number | null;
+  sla_compliance: number | null; // percent
+}
+
+export const CALLBACK_OUTCOME_LABELS: Record<CallbackOutcome, string> = {
+  reached: "Reached",
+  voicemail: "Voicemail",
+  no_answer: "No answer",
+  wrong_number: "Wrong number",
+};
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+const rangeParams = (dateFrom?: Date, dateTo?: Date) => {
+  const params = new URLSearchParams({ tz: "Africa/Nairobi" });
+  if (dateFrom) params.append("from", format(dateFrom, "yyyy-MM-dd"));
+  if (dateTo) params.append("to", format(dateTo, "yyyy-MM-dd"));
+  return params;
+};
+
+export const useCallbackTasks = (dateFrom?: Date, dateTo?: Date) => {
+  const refetchInterval = useRealtimeInterval(30000);
+
+  return useQuery({
+    queryKey: ["callback-tasks", dateFrom?.toDateString(), dateTo?.toDateString()],
+    queryFn: async (): Promise<{ items: CallbackTask[]; sla_minutes: number }> =>
+      request(`/api/callbacks?${rangeParams(dateFrom, dateTo)}&limit=500`),
+    refetchInterval, // callback.updated pushes changes while the stream is up
+  });
+};
+
+export const useCallbackAttempts = (taskId: string | null) => {
+  return useQuery({
+    queryKey: ["callback-tasks", "detail", taskId],
+    queryFn: async (): Promise<CallbackTask & { attempts: CallbackAttempt[] }> => request(`/api/callbacks/${taskId}`),
+    enabled: !!taskId,
+  });
+};
+
+export const useCallbackSlaReport = (dateFrom?: Date, dateTo?: Date) => {
+  return useQuery({
+    queryKey: ["callback-sla", dateFrom?.toDateString(), dateTo?.toDateString()],
+    queryFn: async (): Promise<{ sla_minutes: number; extensions: CallbackSlaRow[] }> =>
+      request(`/api/callbacks/sla-report?${rangeParams(dateFrom, dateTo)}`),
+    staleTime: 60000,
+  });
+};
+
+const useCallbackMutation = <T,>(mutationFn: (input: T) => Promise<CallbackTask>) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["callback-tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["callback-sla"] });
+      queryClient.invalidateQueries({ queryKey: ["missed-call-report"] });
+    },
+  });
+};
+
+export const useAssignCallback = () =>
+  useCallbackMutation(({ id, agent_id }: { id: string; agent_id: string | null }) =>
+    request(`/api/callbacks/${id}/assign`, { method: "PUT", body: JSON.stringify({ agent_id }) })
+  );
+
+export const useRecordCallbackAttempt = () =>
+  useCallbackMutation(({ id, ...body }: { id: string; outcome: CallbackOutcome; notes?: string; agent_id?: string }) =>
+    request(`/api/callbacks/${id}/attempts`, { method: "POST", body: JSON.stringify(body) })
+  );
+
+export const useCloseCallback = () =>
+  useCallbackMutation((id: string) => request(`/api/callbacks/${id}/close`, { method: "POST" }));
+
+export const useUpdateCallbackSla = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (sla_minutes: number) =>
+      request("/api/callbacks/settings", { method: "PUT", body: JSON.stringify({ sla_minutes }) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["callback-tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["callback-sla"] });
+    },
+  });
+};
@@ -0,0 +1,84 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+// Named permissions, as defined by the agent (public/local-agent/permissions.cjs).
+// Roles are editable sets of these; the API enforces them with requirePermission.
+export type Permission =
+  | "users.view"
+  | "users.manage"
+  | "roles.manage"
+  | "data.unrestricted"
+  | "data.filter"
+  | "system.status.view"
+  | "activity.view"
+  | "activity.export"
+  | "sms.view_full"
+  | "sms.send"
+  | "sms.manage"
+  | "sms.delete"
+  | "sms.reclassify"
+  | "sms.export"
+  | "sms.automation.manage"
+  | "sms.opt_out"
+  | "sms.opt_out.remove"
+  | "campaigns.manage"
+  | "calls.dial"
+  | "calls.export"
+  | "callbacks.work"
+  | "callbacks.manage"
+  | "contacts.edit"
+  | "contacts.moderate"
+  | "contacts.fields.manage"
+  | "reports.manage"
+  | "notifications.manage"
+  | "telegram.view"
+  | "staff.manage"
+  | "ai.view"
+  | "ai.manage"
+  | "config.view"
+  | "config.gateway.write"
+  | "config.system.write"
+  | "sims.manage"
+  | "system.update";
+
+export interface MyPermissions {
+  role: string;
+  label: string;
+  description: string | null;
+  permissions: Permission[];
+}
+
+// The signed-in user's role and what it allows. Refreshed by the
+// roles.updated realtime event when a role is edited or reassigned.
+export const useMyPermissions = () => {
+  const token = localStorage.getItem("authToken");
+  return useQuery({
+    queryKey: ["my-permissions"],
+    queryFn: async (): Promise<MyPermissions> => {
+      const res = await fetch(`${API_URL}/api/auth/permissions`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.error || "Failed to load permissions");
+      return json.data;
+    },
+    enabled: !!token,
+    staleTime: 60_000,
+  });
+};
+
+/**
+ * Returns can(permission). Everything is denied until the permissions have
+ * loaded; check useMyPermissions().isSuccess to tell "not yet known" from
+ * "not allowed".
+ */
+export const useCan = () => {
+  const { data } = useMyPermissions();
+  const permissions = data?.permissions;
+  return useCallback(
+    (permission: Permission) => !!permissions && permissions.includes(permission),
+    [permissions]
+  );
+};
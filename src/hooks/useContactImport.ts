@@ -0,0 +1,68 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ImportContact } from "@/lib/contactFiles";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type ImportRowStatus = "new" | "existing" | "duplicate" | "invalid";
+export type ImportAction = "create" | "merge" | "overwrite" | "skip";
+
+export interface ImportPreviewRow {
+  index: number;
+  phone_input: string;
+  phone_number: string | null; // E.164, null when the number couldn't be parsed
+  name: string | null;
+  notes: string | null;
+  tags: string[];
+  custom_fields: Record<string, string | number | boolean>;
+  status: ImportRowStatus;
+  error: string | null;
+  existing: { id: string; phone_number: string; name: string | null } | null;
+  duplicate_of: number | null; // index of the earlier row with the same number
+}
+
+export interface ImportPreview {
+  rows: ImportPreviewRow[];
+  summary: Record<ImportRowStatus, number>;
+}
+
+// Mirrors the agent's CONTACT_IMPORT_ACTIONS; the first entry is the default
+export const IMPORT_ACTIONS: Record<ImportRowStatus, ImportAction[]> = {
+  new: ["create", "skip"],
+  existing: ["merge", "overwrite", "skip"],
+  duplicate: ["skip"],
+  invalid: ["skip"],
+};
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+export const usePreviewContactImport = () =>
+  useMutation({
+    mutationFn: (contacts: ImportContact[]): Promise<ImportPreview> =>
+      request("/api/contacts/import/preview", { method: "POST", body: JSON.stringify({ contacts }) }),
+  });
+
+export const useCommitContactImport = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: {
+      contacts: ImportContact[];
+      decisions: Record<number, ImportAction>;
+    }): Promise<{ created: number; updated: number; skipped: number }> =>
+      request("/api/contacts/import/commit", { method: "POST", body: JSON.stringify(input) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["contact-tags"] });
+      queryClient.invalidateQueries({ queryKey: ["contact-segments"] });
+      queryClient.invalidateQueries({ queryKey: ["contact-timeline"] });
+    },
+  });
+};
@@ -0,0 +1,168 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Contact } from "@/hooks/useContacts";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type ContactFieldType = "text" | "number" | "date" | "boolean" | "select";
+
+export interface ContactField {
+  id: string;
+  field_key: string;
+  label: string;
+  field_type: ContactFieldType;
+  options: string[]; // choices for select fields
+  created_at: string;
+}
+
+export type SegmentOperator =
+  | "eq"
+  | "neq"
+  | "contains"
+  | "gt"
+  | "lt"
+  | "within_days"
+  | "older_than_days"
+  | "is_set"
+  | "not_set"
+  | "is_true"
+  | "is_false"
+  | "has"
+  | "not_has";
+
+// `field` is a built-in column, "tag", or "field:<field_key>" for a custom field
+export interface SegmentRule {
+  field: string;
+  op: SegmentOperator;
+  value?: string | number | null;
+}
+
+export interface SegmentFilter {
+  match: "all" | "any";
+  rules: SegmentRule[];
+}
+
+export interface ContactSegment {
+  id: string;
+  name: string;
+  description: string | null;
+  filter: SegmentFilter;
+  member_count: number | null; // null when a rule no longer evaluates
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+type SegmentValueType = ContactFieldType | "tag";
+
+// Mirrors the agent's SEGMENT_OPERATORS
+export const SEGMENT_OPERATORS: Record<SegmentValueType, SegmentOperator[]> = {
+  text: ["eq", "neq", "contains", "is_set", "not_set"],
+  select: ["eq", "neq", "is_set", "not_set"],
+  number: ["eq", "neq", "gt", "lt", "is_set", "not_set"],
+  date: ["within_days", "older_than_days", "is_set", "not_set"],
+  boolean: ["is_true", "is_false"],
+  tag: ["has", "not_has"],
+};
+
+export const SEGMENT_OPERATOR_LABELS: Record<SegmentOperator, string> = {
+  eq: "is",
+  neq: "is not",
+  contains: "contains",
+  gt: "greater than",
+  lt: "less than",
+  within_days: "within last (days)",
+  older_than_days: "more than (days) ago",
+  is_set: "is set",
+  not_set: "is empty",
+  is_true: "is yes",
+  is_false: "is no",
+  has: "has",
+  not_has: "doesn't have",
+};
+
+export const SEGMENT_BUILTIN_FIELDS: { field: string; label: string; type: SegmentValueType; options?: string[] }[] = [
+  { field: "tag", label: "Tag", type: "tag" },
+  { field: "name", label: "Name", type: "text" },
+  { field: "source", label: "Source", type: "select", options: ["sms", "call", "import", "manual", "google"] },
+  { field: "notes", label: "Notes", type: "text" },
+  { field: "sms_count", label: "SMS count", type: "number" },
+  { field: "call_count", label: "Call count", type: "number" },
+  { field: "last_seen_at", label: "Last seen", type: "date" },
+  { field: "first_seen_at", label: "First seen", type: "date" },
+];
+
+export const operatorNeedsValue = (op: SegmentOperator) => !["is_set", "not_set", "is_true", "is_false"].includes(op);
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+export const useContactFields = () => {
+  return useQuery({
+    queryKey: ["contact-fields"],
+    queryFn: async (): Promise<ContactField[]> => request("/api/contact-fields"),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useContactTagList = () => {
+  return useQuery({
+    queryKey: ["contact-tags"],
+    queryFn: async (): Promise<{ tag: string; contacts: number }[]> => request("/api/contact-tags"),
+    staleTime: 60000,
+  });
+};
+
+export const useContactSegments = () => {
+  return useQuery({
+    queryKey: ["contact-segments"],
+    queryFn: async (): Promise<ContactSegment[]> => request("/api/contact-segments"),
+    staleTime: 60000,
+  });
+};
+
+const useSegmentMutation = <T, R>(mutationFn: (input: T) => Promise<R>) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contact-fields"] });
+      queryClient.invalidateQueries({ queryKey: ["contact-segments"] });
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+    },
+  });
+};
+
+export const useCreateContactField = () =>
+  useSegmentMutation(
+    (field: Pick<ContactField, "field_key" | "label" | "field_type" | "options">): Promise<ContactField> =>
+      request("/api/contact-fields", { method: "POST", body: JSON.stringify(field) })
+  );
+
+export const useDeleteContactField = () =>
+  useSegmentMutation((id: string) => request(`/api/contact-fields/${id}`, { method: "DELETE" }));
+
+export const useSaveContactSegment = () =>
+  useSegmentMutation(
+    ({ id, ...segment }: { id?: string; name: string; description?: string | null; filter: SegmentFilter }): Promise<ContactSegment> =>
+      request(id ? `/api/contact-segments/${id}` : "/api/contact-segments", {
+        method: id ? "PUT" : "POST",
+        body: JSON.stringify(segment),
+      })
+  );
+
+export const useDeleteContactSegment = () =>
+  useSegmentMutation((id: string) => request(`/api/contact-segments/${id}`, { method: "DELETE" }));
+
+export const usePreviewContactSegment = () =>
+  useMutation({
+    mutationFn: (filter: SegmentFilter): Promise<{ member_count: number; sample: Contact[] }> =>
+      request("/api/contact-segments/preview", { method: "POST", body: JSON.stringify({ filter }) }),
+  });
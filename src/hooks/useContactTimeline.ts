@@ -0,0 +1,140 @@
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRealtimeInterval } from "@/hooks/useRealtimeEvents";
+import { usePhoneNormalization } from "@/hooks/usePhoneNormalization";
+import type { CallbackOutcome } from "@/hooks/useCallbacks";
+import type { ContactFieldValue } from "@/hooks/useContacts";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export interface TimelineSms {
+  id: string;
+  direction: string | null;
+  message_content: string;
+  gsm_span: number | null;
+  status: string | null;
+  category: string | null;
+}
+
+export interface TimelineCall {
+  id: string;
+  direction: "inbound" | "outbound" | "internal";
+  status: string;
+  caller_number: string;
+  callee_number: string;
+  extension: string | null;
+  sim_port: number | null;
+  ring_duration: number;
+  talk_duration: number;
+  recording_url: string | null;
+  is_returned: number;
+  notes: string | null;
+}
+
+export interface TimelineCallback {
+  id: string;
+  outcome: CallbackOutcome;
+  notes: string | null;
+  agent_name: string | null;
+  call_record_id: string;
+}
+
+export interface TimelineOptOut {
+  message: string;
+  phone_number: string;
+  keyword?: string;
+  reason?: string | null;
+  source?: "keyword" | "manual";
+}
+
+export interface ContactNote {
+  id: string;
+  body: string;
+  created_by: string | null;
+  author_name: string | null;
+}
+
+export type TimelineItem = { id: string; at: string /* UTC */ } & (
+  | { type: "sms_in" | "sms_out" | "auto_sms"; data: TimelineSms }
+  | { type: "call"; data: TimelineCall }
+  | { type: "callback"; data: TimelineCallback }
+  | { type: "opt_out" | "opt_in"; data: TimelineOptOut }
+  | { type: "note"; data: ContactNote }
+);
+
+export interface ContactTimelinePage {
+  phone_number: string;
+  contact: {
+    id: string;
+    name: string | null;
+    source: string;
+    sms_count: number;
+    call_count: number;
+    first_seen_at: string;
+    last_seen_at: string;
+    tags: string[];
+    custom_fields: Record<string, ContactFieldValue>;
+  } | null;
+  opt_out: { reason: string | null; created_at: string } | null;
+  items: TimelineItem[];
+  next_before: string | null;
+}
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+const phonePath = (phone: string) => `/api/contacts/by-phone/${encodeURIComponent(phone)}`;
+
+/**
+ * Every SMS, call, callback attempt, opt-out change and note for a number,
+ * newest first. Older entries load a page at a time via `fetchNextPage`.
+ */
+export const useContactTimeline = (phone: string) => {
+  const refetchInterval = useRealtimeInterval(60000);
+  // 0712…, 712… and +254712… share one cache entry
+  const number = usePhoneNormalization().normalize(phone);
+
+  return useInfiniteQuery({
+    queryKey: ["contact-timeline", number],
+    queryFn: async ({ pageParam }): Promise<ContactTimelinePage> => {
+      const params = new URLSearchParams({ limit: "50" });
+      if (pageParam) params.append("before", pageParam);
+      return request(`${phonePath(number)}/timeline?${params}`);
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.next_before,
+    enabled: !!phone,
+    refetchInterval,
+  });
+};
+
+const useTimelineMutation = <T, R>(mutationFn: (input: T) => Promise<R>) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["contact-timeline"] });
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+    },
+  });
+};
+
+export const useAddContactNote = (phone: string) =>
+  useTimelineMutation((body: string): Promise<ContactNote> =>
+    request(`${phonePath(phone)}/notes`, { method: "POST", body: JSON.stringify({ body }) })
+  );
+
+export const useDeleteContactNote = () =>
+  useTimelineMutation((id: string) => request(`/api/contact-notes/${id}`, { method: "DELETE" }));
+
+export const useSetContactTags = (phone: string) =>
+  useTimelineMutation((tags: string[]): Promise<string[]> =>
+    request(`${phonePath(phone)}/tags`, { method: "PUT", body: JSON.stringify({ tags }) })
+  );
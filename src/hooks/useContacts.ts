@@ -11,40 +11,64 @@ export interface Contact {
   sms_count: number;
   call_count: number;
   notes: string | null;
+  tags: string[];
+  custom_fields: Record<string, ContactFieldValue>;
   created_at: string;
   updated_at: string;
 }
 
+export type ContactFieldValue = string | number | boolean;
+
+export interface ContactsQuery {
+  tag?: string;
+  segmentId?: string;
+  enabled?: boolean;
+}
+
 const apiUrl = import.meta.env.VITE_API_URL;
 
-export const useContacts = () => {
+export const useContacts = ({ tag, segmentId, enabled = true }: ContactsQuery = {}) => {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   const query = useQuery({
-    queryKey: ["contacts"],
+    queryKey: ["contacts", tag ?? null, segmentId ?? null],
     queryFn: async (): Promise<Contact[]> => {
-      const response = await fetch(`${apiUrl}/api/contacts`);
+      const params = new URLSearchParams();
+      if (tag) params.append("tag", tag);
+      if (segmentId) params.append("segment_id", segmentId);
+      const search = params.toString();
+      const response = await fetch(`${apiUrl}/api/contacts${search ? `?${search}` : ""}`);
       if (!response.ok) throw new Error('Failed to fetch contacts');
       const data = await response.json();
       return data.data || [];
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
+    enabled,
   });
 
   const updateContact = useMutation({
-    mutationFn: async ({ id, name, notes }: { id: string; name?: string; notes?: string }) => {
+    mutationFn: async ({ id, name, notes, custom_fields }: {
+      id: string;
+      name?: string;
+      notes?: string;
+      custom_fields?: Record<string, ContactFieldValue | null>;
+    }) => {
       const response = await fetch(`${apiUrl}/api/contacts/${id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, notes }),
+        body: JSON.stringify({ name, notes, custom_fields }),
       });
-      if (!response.ok) throw new Error('Failed to update contact');
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to update contact');
+      }
       const data = await response.json();
       return data.data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["contact-timeline"] });
       toast({
         title: "Success",
         description: "Contact updated successfully",
@@ -186,7 +210,7 @@ export function parseGoogleCSV(csvText: string): { phone_number: string; name: s
   return contacts;
 }
 
-function parseCSVLine(line: string): string[] {
+export function parseCSVLine(line: string): string[] {
   const result: string[] = [];
   let current = "";
   let inQuotes = false;
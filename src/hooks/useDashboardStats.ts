@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { useRealtimeInterval } from "@/hooks/useRealtimeEvents";
 
 export interface DashboardStats {
   totalMessages: number;
@@ -9,6 +10,8 @@ export interface DashboardStats {
 }
 
 export const useDashboardStats = () => {
+  const refetchInterval = useRealtimeInterval(5000);
+
   return useQuery({
     queryKey: ["dashboard-stats"],
     queryFn: async (): Promise<DashboardStats> => {
@@ -53,7 +56,7 @@ export const useDashboardStats = () => {
         unreadMessages: stats.unreadMessages || 0,
       };
     },
-    refetchInterval: 5000, // Poll every 5 seconds to sync with SMS/calls
+    refetchInterval, // Poll every 5 seconds unless sms.received/port.status events are flowing
     staleTime: 1000, // Consider stale after 1 second
     retry: 1,
   });
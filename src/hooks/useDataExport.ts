@@ -0,0 +1,53 @@
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type ExportDataset = "calls" | "sms" | "activity-logs";
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+// Filters as the panels hold them; "all" and empty values are left out.
+// from/to are Nairobi dates (yyyy-MM-dd), both inclusive.
+export type ExportFilters = Record<string, string | number | null | undefined>;
+
+export interface ExportRequest {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  filters?: ExportFilters;
+}
+
+// Streams the full filtered data set from the agent and saves it as a file
+export const useDataExport = () => {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async ({ dataset, format, filters = {} }: ExportRequest): Promise<string> => {
+      const params = new URLSearchParams({ format });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value !== undefined && value !== null && value !== "" && value !== "all") params.set(key, String(value));
+      }
+
+      const token = localStorage.getItem("authToken");
+      const res = await fetch(`${API_URL}/api/exports/${dataset}?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        throw new Error(json.error || "Export failed");
+      }
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || `${dataset}.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      return filename;
+    },
+    onSuccess: (filename) => {
+      toast({ title: "Export downloaded", description: filename });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Export Failed", description: error.message, variant: "destructive" });
+    },
+  });
+};
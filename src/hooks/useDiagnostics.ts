@@ -0,0 +1,82 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type RiskLevel = "low" | "medium" | "high" | "critical";
+
+export interface PredictionResult {
+  risk_level: RiskLevel;
+  prediction: string;
+  recommended_action: string;
+  auto_applied: boolean;
+}
+
+export interface TuningRecommendation {
+  config: string;
+  old_value: number;
+  new_value: number;
+  unit: string | null;
+  reason: string;
+}
+
+export interface DiagnosticFinding {
+  key: string;
+  points: number;
+  category: "sim" | "sms" | "calls" | "errors";
+  title: string;
+  prediction: string;
+  action: string;
+  details: Record<string, unknown>;
+}
+
+export interface OptimizationResult {
+  prediction: PredictionResult;
+  tuning: {
+    recommendations: TuningRecommendation[];
+    error_count: number;
+  };
+  learning: {
+    feedback_count: number;
+    patterns_found: number;
+    insights: string[];
+    ai_rules: string[];
+  };
+  findings: DiagnosticFinding[];
+  top_errors: Array<{ signature: string; count: number; last_at: number }>;
+  analyzed_at: string;
+  recommendations_created: number; // Always 0 for a health check, which stores nothing
+  recommendations_updated: number;
+}
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+export const useLatestDiagnostics = () => {
+  return useQuery({
+    queryKey: ["diagnostics"],
+    queryFn: async (): Promise<OptimizationResult | null> => request("/api/diagnostics/latest"),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useRunDiagnostics = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (scope: "health" | "full"): Promise<OptimizationResult> =>
+      request("/api/diagnostics/run", { method: "POST", body: JSON.stringify({ scope }) }),
+    onSuccess: (_result, scope) => {
+      if (scope === "full") {
+        queryClient.invalidateQueries({ queryKey: ["diagnostics"] });
+        queryClient.invalidateQueries({ queryKey: ["ai-recommendations"] });
+      }
+    },
+  });
+};
@@ -15,7 +15,9 @@ export const useGatewayConfig = () => {
     queryFn: async () => {
       // Fetch from local API
       const apiUrl = import.meta.env.VITE_API_URL;
-      const response = await fetch(`${apiUrl}/api/gateway-config`);
+      const response = await fetch(`${apiUrl}/api/gateway-config`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem("authToken")}` },
+      });
       if (!response.ok) throw new Error("Failed to fetch gateway config");
       const result = await response.json();
       return result.data as GatewayConfig;
@@ -38,7 +40,10 @@ export const useGatewayConfig = () => {
         
         const response = await fetch(`${apiUrl}/api/gateway-config`, {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("authToken")}`,
+          },
           body: JSON.stringify(requestBody),
         });
         
@@ -8,13 +8,16 @@ export interface GatewayStatus {
   timestamp: string;
 }
 
-export const useGatewayStatus = () => {
+// Needs system.status.view; pass enabled = false for users without it
+export const useGatewayStatus = (enabled = true) => {
   return useQuery({
     queryKey: ["gateway-status"],
     queryFn: async () => {
       const apiUrl = import.meta.env.VITE_API_URL;
       try {
-        const response = await fetch(`${apiUrl}/api/gateway-status`);
+        const response = await fetch(`${apiUrl}/api/gateway-status`, {
+          headers: { Authorization: `Bearer ${localStorage.getItem("authToken")}` },
+        });
         if (!response.ok) throw new Error("Failed to fetch gateway status");
         const data = await response.json();
         return data as GatewayStatus;
@@ -33,5 +36,6 @@ export const useGatewayStatus = () => {
     refetchInterval: 30000, // Reduced from 5 to 30 seconds
     staleTime: 15000, // 15 second stale time
     retry: 1, // Reduced from 2 to 1
+    enabled,
   });
 };
@@ -0,0 +1,100 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type LlmProviderName = "none" | "openai" | "mock";
+export type LlmFeature = "classify" | "reply_suggestions" | "report_summary";
+
+export interface LlmStatus {
+  provider: LlmProviderName;
+  available: boolean;
+  features: Record<LlmFeature, boolean>;
+}
+
+// The API key is write-only: the agent reports whether one is set
+export interface LlmConfig extends LlmStatus {
+  base_url: string;
+  model: string;
+  timeout_seconds: number;
+  has_api_key: boolean;
+}
+
+export interface LlmConfigUpdate {
+  provider?: LlmProviderName;
+  base_url?: string;
+  model?: string;
+  api_key?: string; // "" clears the stored key
+  timeout_seconds?: number;
+  features?: Partial<Record<LlmFeature, boolean>>;
+}
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+// Which AI features are usable right now; safe for every role
+export const useLlmStatus = () => {
+  return useQuery({
+    queryKey: ["llm-status"],
+    queryFn: (): Promise<LlmStatus> => request("/api/llm/status"),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useLlmConfig = () => {
+  return useQuery({
+    queryKey: ["llm-config"],
+    queryFn: (): Promise<LlmConfig> => request("/api/llm/config"),
+  });
+};
+
+export const useUpdateLlmConfig = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: (update: LlmConfigUpdate): Promise<LlmConfig> =>
+      request("/api/llm/config", { method: "PUT", body: JSON.stringify(update) }),
+    onSuccess: (config) => {
+      queryClient.setQueryData(["llm-config"], config);
+      queryClient.invalidateQueries({ queryKey: ["llm-status"] });
+      toast({ title: "AI provider saved", description: config.available ? `Using ${config.model || config.provider}` : "AI features are off" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+};
+
+export const useTestLlmProvider = () => {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: (): Promise<{ reply: string; latency_ms: number; model: string | null }> =>
+      request("/api/llm/test", { method: "POST" }),
+    onSuccess: (result) => {
+      toast({ title: "AI provider reachable", description: `Replied "${result.reply.slice(0, 40)}" in ${result.latency_ms}ms` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "AI provider test failed", description: error.message, variant: "destructive" });
+    },
+  });
+};
+
+// Draft replies to the latest message in a conversation
+export const useReplySuggestions = () => {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (phoneNumber: string): Promise<string[]> =>
+      (await request("/api/llm/reply-suggestions", { method: "POST", body: JSON.stringify({ phone_number: phoneNumber }) })).suggestions,
+    onError: (error: Error) => {
+      toast({ title: "No suggestions", description: error.message, variant: "destructive" });
+    },
+  });
+};
@@ -19,7 +19,9 @@ export const usePbxConfig = () => {
   const { data: config, isLoading, error } = useQuery({
     queryKey: ["pbx-config"],
     queryFn: async () => {
-      const response = await fetch(`${apiUrl}/api/pbx-config`);
+      const response = await fetch(`${apiUrl}/api/pbx-config`, {
+        headers: { Authorization: `Bearer ${localStorage.getItem('authToken')}` },
+      });
       if (!response.ok) throw new Error('Failed to fetch PBX config');
       const result = await response.json();
       return (result.data || {}) as PbxConfig | null;
@@ -31,12 +33,15 @@ export const usePbxConfig = () => {
     mutationFn: async (updates: Partial<Omit<PbxConfig, "id">>) => {
       const response = await fetch(`${apiUrl}/api/pbx-config`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('authToken')}`,
+        },
         body: JSON.stringify(updates),
       });
       
-      if (!response.ok) throw new Error('Failed to save PBX config');
-      const result = await response.json();
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.error || 'Failed to save PBX config');
       return result.data;
     },
     onSuccess: () => {
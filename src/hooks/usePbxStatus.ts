@@ -10,13 +10,16 @@ export interface PbxStatus {
   timestamp: string;
 }
 
-export const usePbxStatus = () => {
+// Needs system.status.view; pass enabled = false for users without it
+export const usePbxStatus = (enabled = true) => {
   return useQuery({
     queryKey: ["pbx-status"],
     queryFn: async () => {
       const apiUrl = import.meta.env.VITE_API_URL;
       try {
-        const response = await fetch(`${apiUrl}/api/pbx-status`);
+        const response = await fetch(`${apiUrl}/api/pbx-status`, {
+          headers: { Authorization: `Bearer ${localStorage.getItem("authToken")}` },
+        });
         if (!response.ok) throw new Error("Failed to fetch PBX status");
         const data = await response.json();
         return data as PbxStatus;
@@ -37,5 +40,6 @@ export const usePbxStatus = () => {
     refetchInterval: 30000, // Reduced from 5 to 30 seconds
     staleTime: 15000, // 15 second stale time
     retry: 1, // Reduced from 2 to 1
+    enabled,
   });
 };
@@ -0,0 +1,79 @@
+import { useCallback } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { DEFAULT_COUNTRY_CODE, normalizePhoneNumber, phoneKey } from "@/lib/phone";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export interface PhoneNormalizationSettings {
+  default_country_code: string;
+  relinked_at: string | null; // last time stored numbers were rewritten to E.164
+}
+
+export interface PhoneRelinkResult {
+  sms: number;
+  calls: number;
+  contacts: number;
+  merged: number;
+}
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+// Every query that holds phone numbers; all of them change when stored numbers are rewritten
+export const PHONE_QUERY_KEYS = [
+  "phone-normalization",
+  "contacts",
+  "contact-timeline",
+  "contact-segments",
+  "sms-messages",
+  "sent-messages",
+  "sms-opt-outs",
+  "call-records",
+  "callback-tasks",
+  "missed-call-report",
+];
+
+export const usePhoneNormalizationSettings = () =>
+  useQuery({
+    queryKey: ["phone-normalization"],
+    queryFn: async (): Promise<PhoneNormalizationSettings> => request("/api/system-settings/phone-normalization"),
+    staleTime: 5 * 60 * 1000,
+  });
+
+/**
+ * Normalisers bound to the agent's configured default country, for matching
+ * numbers typed by users or stored before normalisation.
+ */
+export const usePhoneNormalization = () => {
+  const { data } = usePhoneNormalizationSettings();
+  const countryCode = data?.default_country_code || DEFAULT_COUNTRY_CODE;
+
+  const normalize = useCallback((number: string) => normalizePhoneNumber(number, countryCode), [countryCode]);
+  const keyOf = useCallback((number: string) => phoneKey(number, countryCode), [countryCode]);
+
+  return { countryCode, normalize, phoneKey: keyOf };
+};
+
+const usePhoneSettingsMutation = <T>(mutationFn: (input: T) => Promise<PhoneNormalizationSettings & { relinked: PhoneRelinkResult | null }>) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSuccess: () => PHONE_QUERY_KEYS.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] })),
+  });
+};
+
+export const useUpdatePhoneNormalization = () =>
+  usePhoneSettingsMutation((default_country_code: string) =>
+    request("/api/system-settings/phone-normalization", { method: "PUT", body: JSON.stringify({ default_country_code }) })
+  );
+
+export const useRelinkPhoneNumbers = () =>
+  usePhoneSettingsMutation<void>(() => request("/api/system-settings/phone-normalization/relink", { method: "POST" }));
@@ -0,0 +1,104 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiClient, RealtimeEvent } from "@/integrations/supabase/api-client";
+import { PHONE_QUERY_KEYS } from "@/hooks/usePhoneNormalization";
+
+/**
+ * Whether the agent's push stream is currently connected.
+ * Hooks use this to drop their polling interval while events are flowing.
+ */
+export const useRealtimeConnected = () =>
+  useSyncExternalStore(
+    (onChange) => apiClient.onRealtimeStatus(onChange),
+    () => apiClient.isRealtimeConnected()
+  );
+
+/**
+ * Polling interval to use for a query: the normal interval while the push
+ * stream is down, a slow safety-net refresh while it is up.
+ */
+export const useRealtimeInterval = (pollingMs: number, connectedMs = 60000) => {
+  const connected = useRealtimeConnected();
+  return connected ? Math.max(pollingMs, connectedMs) : pollingMs;
+};
+
+/**
+ * Subscribes to the agent's push stream and invalidates the React Query
+ * caches each event affects. Mount once, high in the authenticated tree.
+ */
+export const useRealtimeSync = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const invalidate = (...keys: string[]) => {
+      keys.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+    };
+
+    const subscription = apiClient.on("*", (event: RealtimeEvent) => {
+      switch (event.type) {
+        case "sms.received":
+          invalidate("sms-messages", "dashboard-stats", "contact-timeline");
+          break;
+        case "sms.status":
+          invalidate("sent-messages", "sms-messages", "contact-timeline");
+          break;
+        case "sms.outbox":
+          invalidate("sms-outbox");
+          break;
+        case "sms.opt_out":
+          invalidate("sms-opt-outs", "contact-timeline");
+          break;
+        case "campaign.progress":
+          invalidate("sms-campaigns", "sms-campaign-recipients");
+          break;
+        case "call.started":
+          invalidate("call-queue");
+          break;
+        case "call.ended":
+          invalidate("call-records", "call-stats", "call-stats-all-time", "call-queue", "missed-call-report", "contact-timeline");
+          break;
+        case "call.queue":
+          invalidate("call-queue", "missed-call-report");
+          break;
+        case "callback.updated":
+          invalidate("callback-tasks", "callback-sla", "missed-call-report", "contact-timeline");
+          break;
+        case "contacts.relinked":
+          // Stored numbers were rewritten to E.164; anything holding numbers is stale
+          invalidate(...PHONE_QUERY_KEYS);
+          break;
+        case "port.status":
+          invalidate("dashboard-stats", "gateway-status");
+          break;
+        case "sim.balance":
+          invalidate("sim-balances");
+          break;
+        case "sim.health":
+          invalidate("sim-health");
+          break;
+        case "ai.recommendations":
+          invalidate("ai-recommendations", "diagnostics");
+          break;
+        case "agent.config":
+          invalidate("agent-config");
+          break;
+        case "report.definitions":
+          invalidate("report-definitions");
+          break;
+        case "roles.updated":
+          invalidate("my-permissions", "roles", "users-with-roles");
+          break;
+        case "activity.logged":
+          invalidate("activity-logs");
+          // Gateway sends (reports, auto-replies) don't go through the TG400,
+          // so their activity row is the only signal that a sent SMS was stored
+          if (String(event.data?.event_type || "").includes("sms")) {
+            invalidate("sent-messages");
+          }
+          break;
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+};
@@ -0,0 +1,177 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type ReportMetric =
+  | "calls_summary"
+  | "calls_by_extension"
+  | "missed_calls"
+  | "sms_summary"
+  | "sms_by_port"
+  | "sms_by_category";
+export type ReportWindow =
+  | "today"
+  | "yesterday"
+  | "last_7_days"
+  | "last_30_days"
+  | "previous_week"
+  | "month_to_date"
+  | "previous_month";
+export type ReportFrequency = "daily" | "weekly" | "monthly";
+export type ReportFormat = "pdf" | "csv";
+
+// What the editor sends. Send times are "HH:MM" Nairobi; weekday is 0 (Sunday)
+// to 6 and only used for weekly reports, month_day (1–28) only for monthly.
+export interface ReportDefinitionInput {
+  name: string;
+  enabled: boolean;
+  metrics: ReportMetric[];
+  date_window: ReportWindow;
+  extensions: string[];
+  gsm_spans: number[];
+  frequency: ReportFrequency;
+  send_times: string[];
+  weekday: number | null;
+  month_day: number | null;
+  formats: ReportFormat[];
+  email_recipients: string[];
+  telegram_chat_ids: string[];
+  sms_recipient_ids: string[];
+}
+
+export interface ReportDefinition extends ReportDefinitionInput {
+  id: string;
+  last_slot: string | null;
+  last_run_at: string | null;
+  last_status: "running" | "sent" | "partial" | "failed" | null;
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReportDeliveryResult {
+  status: "sent" | "partial" | "failed";
+  delivered: { email: number; telegram: number; sms: number };
+  errors: string[];
+}
+
+export interface SmsReportRecipient {
+  id: string;
+  phone_number: string;
+}
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+export const useReportDefinitions = () => {
+  return useQuery({
+    queryKey: ["report-definitions"],
+    queryFn: async (): Promise<ReportDefinition[]> => (await request("/api/report-definitions")) || [],
+  });
+};
+
+// The phone numbers a report can send its SMS digest to
+export const useSmsReportRecipients = () => {
+  return useQuery({
+    queryKey: ["sms-report-recipients"],
+    queryFn: async (): Promise<SmsReportRecipient[]> => (await request("/api/sms-report-recipients")) || [],
+    staleTime: 60_000,
+  });
+};
+
+export const useSaveReportDefinition = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: ({ id, ...input }: Partial<ReportDefinitionInput> & { id?: string }): Promise<ReportDefinition> =>
+      request(id ? `/api/report-definitions/${id}` : "/api/report-definitions", {
+        method: id ? "PUT" : "POST",
+        body: JSON.stringify(input),
+      }),
+    onSuccess: (definition) => {
+      queryClient.invalidateQueries({ queryKey: ["report-definitions"] });
+      toast({ title: "Report saved", description: definition.name });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Save Failed", description: error.message, variant: "destructive" });
+    },
+  });
+};
+
+export const useDeleteReportDefinition = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: (id: string) => request(`/api/report-definitions/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["report-definitions"] });
+      toast({ title: "Report deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+};
+
+// Delivers a report now, outside its schedule
+export const useSendReportDefinition = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: (id: string): Promise<ReportDeliveryResult> =>
+      request(`/api/report-definitions/${id}/send`, { method: "POST" }),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["report-definitions"] });
+      const { email, telegram, sms } = result.delivered;
+      toast({
+        title: result.status === "sent" ? "Report sent" : "Report partly sent",
+        description: [
+          `${email} email, ${telegram} Telegram, ${sms} SMS`,
+          ...result.errors,
+        ].join(" · "),
+        variant: result.status === "sent" ? undefined : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["report-definitions"] });
+      toast({ title: "Report Failed", description: error.message, variant: "destructive" });
+    },
+  });
+};
+
+// Renders the report for its current window and saves the file
+export const useDownloadReport = () => {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async ({ id, format }: { id: string; format: ReportFormat }) => {
+      const token = localStorage.getItem("authToken");
+      const res = await fetch(`${API_URL}/api/report-definitions/${id}/download?format=${format}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
+        throw new Error(json.error || "Download failed");
+      }
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || `report.${format}`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Download Failed", description: error.message, variant: "destructive" });
+    },
+  });
+};
@@ -1,20 +1,10 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
+import type { AppRole } from "@/hooks/useAuth";
+import type { Permission } from "@/hooks/useCan";
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:2003';
 
-// Equivalent of supabase.auth.getUser() — reads from localStorage session
-const getLocalUser = () => {
-  try {
-    const stored = localStorage.getItem('user');
-    const token = localStorage.getItem('authToken');
-    if (!stored || !token) return null;
-    return { ...JSON.parse(stored), token };
-  } catch {
-    return null;
-  }
-};
-
 const authHeaders = () => {
   const token = localStorage.getItem('authToken');
   return token
@@ -22,7 +12,7 @@ const authHeaders = () => {
     : { 'Content-Type': 'application/json' };
 };
 
-export type AppRole = "super_admin" | "admin" | "operator" | "viewer";
+export type { AppRole };
 
 export interface UserWithRole {
   user_id: string;
@@ -31,28 +21,36 @@ export interface UserWithRole {
   created_at: string;
 }
 
-const ROLE_LABELS: Record<AppRole, string> = {
-  super_admin: "Super Admin",
-  admin: "Admin",
-  operator: "Operator",
-  viewer: "Viewer",
-};
+// A role as an editable permission set. Built-in roles can be edited but not
+// deleted; super_admin always has every permission.
+export interface RoleDefinition {
+  name: string;
+  label: string;
+  description: string | null;
+  permissions: Permission[];
+  built_in: boolean;
+  user_count: number;
+  created_at: string;
+  updated_at: string;
+}
 
-const ROLE_DESCRIPTIONS: Record<AppRole, string> = {
-  super_admin: "Full system access, role management, all admin powers",
-  admin: "Manage agents, shifts, configuration, and system settings",
-  operator: "Manage calls, contacts, SIM config, and daily operations",
-  viewer: "Read-only access to dashboard, calls, and reports",
-};
+export interface PermissionDefinition {
+  key: Permission;
+  group: string;
+  label: string;
+}
+
+export const SUPER_ADMIN_ROLE = "super_admin";
 
-const ROLE_COLORS: Record<AppRole, string> = {
+const ROLE_COLORS: Record<string, string> = {
   super_admin: "bg-chart-5 text-white",
   admin: "bg-primary text-primary-foreground",
   operator: "bg-chart-2 text-white",
   viewer: "bg-muted text-muted-foreground",
 };
 
-export const ROLE_META = { labels: ROLE_LABELS, descriptions: ROLE_DESCRIPTIONS, colors: ROLE_COLORS };
+// Badge colours for the built-in roles; custom roles share one
+export const roleColor = (role: AppRole) => ROLE_COLORS[role] || "bg-secondary text-secondary-foreground";
 
 // Equivalent of: supabase.from("user_roles").select() + supabase.functions.invoke("get-users-list")
 export const useUsersWithRoles = () => {
@@ -66,28 +64,87 @@ export const useUsersWithRoles = () => {
       return json.users.map((u: any) => ({
         user_id: u.id,
         email: u.email,
-        role: (u.role || 'operator') as AppRole,
+        role: u.role || 'operator',
         created_at: u.created_at,
       }));
     },
   });
 };
 
-// Equivalent of: supabase.auth.getUser() + supabase.from("user_roles").select("role")
-export const useCurrentUserRole = () => {
+export const useRoleDefinitions = () => {
+  return useQuery({
+    queryKey: ["roles"],
+    queryFn: async (): Promise<RoleDefinition[]> => {
+      const resp = await fetch(`${API_URL}/api/roles`, { headers: authHeaders() });
+      const json = await resp.json().catch(() => ({}));
+      if (!resp.ok || !json?.success) throw new Error(json?.error || 'Failed to fetch roles');
+      return json.data || [];
+    },
+  });
+};
+
+// Every permission a role can be given, grouped for the role editor
+export const usePermissionCatalog = () => {
   return useQuery({
-    queryKey: ["current-user-role"],
-    queryFn: async (): Promise<AppRole | null> => {
-      const localUser = getLocalUser();
-      if (!localUser) return null;
+    queryKey: ["permission-catalog"],
+    queryFn: async (): Promise<PermissionDefinition[]> => {
+      const resp = await fetch(`${API_URL}/api/permissions`, { headers: authHeaders() });
+      const json = await resp.json().catch(() => ({}));
+      if (!resp.ok || !json?.success) throw new Error(json?.error || 'Failed to fetch permissions');
+      return json.data || [];
+    },
+    staleTime: Infinity,
+  });
+};
 
-      const resp = await fetch(`${API_URL}/api/users`, { headers: authHeaders() });
-      if (!resp.ok) return null;
-      const json = await resp.json();
-      if (!json?.success || !Array.isArray(json.users)) return null;
+export interface RoleInput {
+  label: string;
+  description: string | null;
+  permissions: Permission[];
+}
 
-      const match = json.users.find((u: any) => u.email === localUser.email);
-      return (match?.role as AppRole) || null;
+// Creates a role when name is new, otherwise updates it
+export const useSaveRole = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ name, isNew, ...input }: RoleInput & { name: string; isNew: boolean }): Promise<RoleDefinition> => {
+      const resp = await fetch(`${API_URL}/api/roles${isNew ? '' : `/${name}`}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: authHeaders(),
+        body: JSON.stringify(isNew ? { name, ...input } : input),
+      });
+      const json = await resp.json().catch(() => ({}));
+      if (!resp.ok || !json?.success) throw new Error(json?.error || 'Failed to save role');
+      return json.data;
+    },
+    onSuccess: (role) => {
+      queryClient.invalidateQueries({ queryKey: ["roles"] });
+      queryClient.invalidateQueries({ queryKey: ["my-permissions"] });
+      toast.success(`Role "${role.label}" saved`);
+    },
+    onError: (err: Error) => {
+      toast.error(err.message || "Failed to save role");
+    },
+  });
+};
+
+export const useDeleteRole = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const resp = await fetch(`${API_URL}/api/roles/${name}`, {
+        method: 'DELETE',
+        headers: authHeaders(),
+      });
+      const json = await resp.json().catch(() => ({}));
+      if (!resp.ok || !json?.success) throw new Error(json?.error || 'Failed to delete role');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["roles"] });
+      toast.success("Role deleted");
+    },
+    onError: (err: Error) => {
+      toast.error(err.message || "Failed to delete role");
     },
   });
 };
@@ -109,6 +166,7 @@ export const useUpdateUserRole = () => {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["users-with-roles"] });
+      queryClient.invalidateQueries({ queryKey: ["roles"] });
       toast.success("Role updated");
     },
     onError: (err: Error) => {
@@ -1,11 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
 import { format, isToday, isYesterday } from "date-fns";
+import { useRealtimeInterval } from "@/hooks/useRealtimeEvents";
 
 export interface SentMessage {
   id: string;
+  external_id?: string | null; // Matches sms_outbox.external_id for queued sends
   sender_number: string;  // Phone number sent from (System or SIM)
   message_content: string;
   received_at: string;    // Sent at timestamp
+  receivedDate: Date;
   gsm_span: number;
   portName?: string;
   status: string;
@@ -26,6 +29,7 @@ const formatTimestampWithRelativeDate = (date: Date): string => {
 
 export const useSentMessages = (limit = 50) => {
   const apiUrl = import.meta.env.VITE_API_URL;
+  const refetchInterval = useRealtimeInterval(5000);
 
   return useQuery({
     queryKey: ["sent-messages", limit],
@@ -46,6 +50,7 @@ export const useSentMessages = (limit = 50) => {
           
           return {
             id: msg.id,
+            external_id: msg.external_id || null,
             sender_number: msg.sender_number || 'System',
             message_content: msg.message_content,
             received_at: formatTimestampWithRelativeDate(receivedDate),
@@ -61,6 +66,6 @@ export const useSentMessages = (limit = 50) => {
         return [];
       }
     },
-    refetchInterval: 5000, // Refetch every 5 seconds
+    refetchInterval, // Every 5 seconds unless the push stream is delivering sms.status
   });
 };
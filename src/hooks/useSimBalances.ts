@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export interface SimBalance {
+  gsm_span: number;
+  enabled: boolean;
+  ussd_code: string;
+  interval_minutes: number;
+  low_threshold: number | null;
+  last_checked_at: string | null;
+  balance: number | null; // Latest successful reading
+  currency: string | null;
+  balance_at: string | null;
+  is_low: boolean;
+}
+
+export type SimBalanceConfigInput = Pick<SimBalance, "enabled" | "ussd_code" | "interval_minutes" | "low_threshold">;
+
+export interface SimBalanceReading {
+  id: string;
+  gsm_span: number;
+  ussd_code: string;
+  response: string | null;
+  balance: number | null;
+  currency: string | null;
+  status: "ok" | "unparsed" | "error";
+  triggered_by: string;
+  created_at: string;
+}
+
+export interface UssdReply {
+  gsm_span: number;
+  code: string;
+  status: number | null;
+  session_open: boolean; // The network is waiting for a menu choice
+  message: string;
+}
+
+export const formatSimBalance = (reading: Pick<SimBalance, "balance" | "currency">) =>
+  reading.balance === null ? "—" : `${reading.currency || ""} ${reading.balance.toFixed(2)}`.trim();
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+export const useSimBalances = () => {
+  return useQuery({
+    queryKey: ["sim-balances"],
+    queryFn: async (): Promise<SimBalance[]> => (await request("/api/sim-balances")) || [],
+    staleTime: 60_000,
+  });
+};
+
+export const useSimBalanceHistory = (gsmSpan: number | null) => {
+  return useQuery({
+    queryKey: ["sim-balances", "history", gsmSpan],
+    queryFn: async (): Promise<SimBalanceReading[]> => (await request(`/api/sim-balances/${gsmSpan}/history?limit=20`)) || [],
+    enabled: gsmSpan !== null,
+  });
+};
+
+export const useSaveSimBalanceConfig = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ gsmSpan, config }: { gsmSpan: number; config: SimBalanceConfigInput }) =>
+      request(`/api/sim-balances/${gsmSpan}/config`, { method: "PUT", body: JSON.stringify(config) }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sim-balances"] });
+    },
+  });
+};
+
+export const useCheckSimBalance = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (gsmSpan: number): Promise<Pick<SimBalanceReading, "status" | "response" | "balance" | "currency">> =>
+      request(`/api/sim-balances/${gsmSpan}/check`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sim-balances"] });
+    },
+  });
+};
+
+export const useSendUssd = () => {
+  return useMutation({
+    mutationFn: (payload: { gsm_span: number; code: string }): Promise<UssdReply> =>
+      request("/api/ussd", { method: "POST", body: JSON.stringify(payload) }),
+  });
+};
@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type SimRegistration = "registered" | "roaming" | "searching" | "denied" | "unregistered" | "unknown";
+
+export interface SimHealthSample {
+  id: string;
+  gsm_span: number;
+  is_up: number;
+  registration: SimRegistration;
+  signal_quality: number | null; // 0-31, null when the port couldn't be queried
+  operator: string | null;
+  send_attempts: number; // Since the previous sample
+  send_failures: number;
+  created_at: string;
+}
+
+export interface SimHealth {
+  gsm_span: number;
+  latest: SimHealthSample | null;
+  samples: SimHealthSample[]; // Oldest first
+  failure_rate: number | null; // Last hour; null when too few sends to judge
+  deregistered_alerted_at: string | null;
+  failure_alerted_at: string | null;
+}
+
+export const isSimRegistered = (registration: SimRegistration | undefined) =>
+  registration === "registered" || registration === "roaming";
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+export const useSimHealth = (hours = 24) => {
+  return useQuery({
+    queryKey: ["sim-health", hours],
+    queryFn: async (): Promise<SimHealth[]> => (await request(`/api/sim-health?hours=${hours}`)) || [],
+    staleTime: 60_000,
+  });
+};
+
+export const useSampleSimHealth = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (): Promise<SimHealthSample[]> => request("/api/sim-health/sample", { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sim-health"] });
+    },
+  });
+};
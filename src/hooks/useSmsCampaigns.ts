@@ -0,0 +1,169 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { parseCSVLine } from "@/hooks/useContacts";
+import { useRealtimeInterval } from "@/hooks/useRealtimeEvents";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export type SmsCampaignStatus = "scheduled" | "running" | "paused" | "completed" | "cancelled";
+export type SmsCampaignRecipientStatus = "pending" | "sending" | "sent" | "failed" | "skipped" | "cancelled";
+
+export interface SmsCampaign {
+  id: string;
+  name: string;
+  message: string;
+  template_id: string | null;
+  template_name: string | null;
+  gsm_spans: number[]; // Empty = every healthy span
+  rate_per_minute: number; // Per SIM
+  status: SmsCampaignStatus;
+  scheduled_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  total: number;
+  pending: number;
+  sending: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+}
+
+export interface SmsCampaignRecipient {
+  id: string;
+  campaign_id: string;
+  phone_number: string;
+  name: string | null;
+  merge_data: Record<string, string>;
+  status: SmsCampaignRecipientStatus;
+  gsm_span: number | null;
+  error: string | null;
+  sent_at: string | null;
+}
+
+export interface SmsCampaignRecipientInput {
+  phone_number: string;
+  name?: string;
+  fields?: Record<string, string>;
+}
+
+export interface SmsCampaignInput {
+  name: string;
+  template_id?: string | null;
+  message?: string;
+  recipients: SmsCampaignRecipientInput[];
+  gsm_spans: number[];
+  rate_per_minute: number;
+  scheduled_at?: string;
+}
+
+export type SmsCampaignAction = "pause" | "resume" | "cancel";
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+export const useSmsCampaigns = () => {
+  // campaign.progress events invalidate this while the stream is up
+  const refetchInterval = useRealtimeInterval(10000);
+  return useQuery({
+    queryKey: ["sms-campaigns"],
+    queryFn: async (): Promise<SmsCampaign[]> => (await request("/api/sms-campaigns")) || [],
+    refetchInterval,
+  });
+};
+
+export const useSmsCampaignRecipients = (campaignId: string | null, status?: SmsCampaignRecipientStatus) => {
+  return useQuery({
+    queryKey: ["sms-campaign-recipients", campaignId, status],
+    queryFn: async (): Promise<SmsCampaignRecipient[]> =>
+      (await request(`/api/sms-campaigns/${campaignId}/recipients?limit=500${status ? `&status=${status}` : ""}`)) || [],
+    enabled: !!campaignId,
+  });
+};
+
+export const useCreateSmsCampaign = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (campaign: SmsCampaignInput): Promise<SmsCampaign & { invalid: number }> =>
+      request("/api/sms-campaigns", { method: "POST", body: JSON.stringify(campaign) }),
+    onSuccess: (campaign) => {
+      queryClient.invalidateQueries({ queryKey: ["sms-campaigns"] });
+      toast.success(
+        `Campaign "${campaign.name}" scheduled for ${campaign.total} recipients` +
+          (campaign.invalid > 0 ? ` (${campaign.invalid} invalid numbers dropped)` : "")
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useSmsCampaignAction = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, action }: { id: string; action: SmsCampaignAction }): Promise<SmsCampaign> =>
+      request(`/api/sms-campaigns/${id}/${action}`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sms-campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["sms-campaign-recipients"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useDeleteSmsCampaign = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => request(`/api/sms-campaigns/${id}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sms-campaigns"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+const PHONE_HEADERS = ["phone", "phone_number", "phone number", "number", "mobile", "msisdn"];
+
+/**
+ * Parse an uploaded recipient list. The first row is the header: one phone
+ * column (phone, number, mobile...), an optional name column, and any other
+ * column becomes a {merge} field named after its lower-cased header.
+ */
+export function parseRecipientCSV(csvText: string): SmsCampaignRecipientInput[] {
+  const lines = csvText.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) return [];
+
+  const headers = parseCSVLine(lines[0]).map((h) => h.trim().toLowerCase());
+  const phoneIdx = headers.findIndex((h) => PHONE_HEADERS.includes(h));
+  if (phoneIdx === -1) return [];
+  const nameIdx = headers.indexOf("name");
+
+  const recipients: SmsCampaignRecipientInput[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const values = parseCSVLine(lines[i]);
+    const phone = (values[phoneIdx] || "").trim();
+    if (!phone) continue;
+
+    const fields: Record<string, string> = {};
+    headers.forEach((header, idx) => {
+      if (idx !== phoneIdx && idx !== nameIdx && header) fields[header.replace(/\s+/g, "_")] = (values[idx] || "").trim();
+    });
+    recipients.push({ phone_number: phone, name: nameIdx >= 0 ? (values[nameIdx] || "").trim() : undefined, fields });
+  }
+  return recipients;
+}
@@ -0,0 +1,132 @@
+import { useMemo } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useSmsMessages } from "@/hooks/useSmsMessages";
+import { useSentMessages } from "@/hooks/useSentMessages";
+import { usePhoneNormalization } from "@/hooks/usePhoneNormalization";
+import { DEFAULT_COUNTRY_CODE, phoneKey } from "@/lib/phone";
+
+export interface ConversationMessage {
+  id: string;
+  direction: "received" | "sent";
+  content: string;
+  gsmSpan: number | null;
+  portName?: string;
+  timestamp: string;
+  date: Date;
+  status?: string;
+  category?: string;
+  isNew: boolean;
+}
+
+export interface SmsConversation {
+  key: string;
+  number: string; // Number as last seen on the wire — used as the reply destination
+  messages: ConversationMessage[]; // Oldest first
+  lastMessage: ConversationMessage;
+  lastGsmSpan: number | null; // Span the customer last texted in on (default reply span)
+  unreadCount: number;
+}
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+// Same customer shows up as 07.., +2547.. or 2547.. on rows stored before
+// numbers were normalised, so threads are keyed on the E.164 digits.
+export const conversationKey = (number: string, countryCode = DEFAULT_COUNTRY_CODE): string => phoneKey(number, countryCode);
+
+export const useSmsConversations = (limit = 1000) => {
+  const { data: received = [], isLoading: receivedLoading } = useSmsMessages(limit, "received");
+  const { data: sent = [], isLoading: sentLoading } = useSentMessages(limit);
+  const { countryCode } = usePhoneNormalization();
+
+  const conversations = useMemo(() => {
+    const threads = new Map<string, { number: string; messages: ConversationMessage[] }>();
+
+    // Inbound rows are pushed first and arrive newest-first, so the first number
+    // seen for a thread is the one the customer last texted from.
+    const push = (number: string, message: ConversationMessage) => {
+      if (!number) return;
+      const key = conversationKey(number, countryCode);
+      const thread = threads.get(key) || { number, messages: [] };
+      thread.messages.push(message);
+      threads.set(key, thread);
+    };
+
+    received.forEach((m) => {
+      push(m.sender, {
+        id: m.id,
+        direction: "received",
+        content: m.content,
+        gsmSpan: m.gsmSpan ?? null,
+        portName: m.portName,
+        timestamp: m.timestamp,
+        date: m.receivedAt,
+        status: m.status,
+        category: m.category,
+        isNew: m.isNew,
+      });
+    });
+
+    sent.forEach((m) => {
+      // Gateway notifications without a recipient are stored as 'System' — not a conversation
+      if (!m.sender_number || m.sender_number === "System") return;
+      push(m.sender_number, {
+        id: m.id,
+        direction: "sent",
+        content: m.message_content,
+        gsmSpan: m.gsm_span ?? null,
+        timestamp: m.received_at,
+        date: m.receivedDate,
+        status: m.status,
+        category: m.category,
+        isNew: false,
+      });
+    });
+
+    const result: SmsConversation[] = [];
+    threads.forEach((thread, key) => {
+      const messages = thread.messages.sort((a, b) => a.date.getTime() - b.date.getTime());
+      const lastInbound = [...messages].reverse().find((m) => m.direction === "received");
+      result.push({
+        key,
+        number: thread.number,
+        messages,
+        lastMessage: messages[messages.length - 1],
+        lastGsmSpan: lastInbound?.gsmSpan ?? null,
+        unreadCount: messages.filter((m) => m.isNew).length,
+      });
+    });
+
+    return result.sort((a, b) => b.lastMessage.date.getTime() - a.lastMessage.date.getTime());
+  }, [received, sent, countryCode]);
+
+  return { conversations, isLoading: receivedLoading || sentLoading };
+};
+
+export const useSendSms = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (payload: { to: string; message: string; gsm_span: number }) => {
+      const token = localStorage.getItem("authToken");
+      const response = await fetch(`${API_URL}/api/sms-messages/send`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify(payload),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to send SMS");
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      // The agent queues the reply; the thread picks it up once the SIM sends it
+      queryClient.invalidateQueries({ queryKey: ["sms-outbox"] });
+      toast.success("SMS queued for sending");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to send SMS");
+    },
+  });
+};
@@ -3,6 +3,7 @@ import { format, isToday, isYesterday } from "date-fns";
 import { useEffect } from "react";
 import { toast } from "sonner";
 import type { SmsCategory } from "@/components/SmsCategoryBadge";
+import { useRealtimeInterval } from "@/hooks/useRealtimeEvents";
 
 export interface SmsMessage {
   id: string;
@@ -30,16 +31,18 @@ const formatTimestampWithRelativeDate = (date: Date): string => {
   }
 };
 
-export const useSmsMessages = (limit = 50, direction?: string) => {
+export const useSmsMessages = (limit = 50, direction?: string, segmentId?: string) => {
   const queryClient = useQueryClient();
   const apiUrl = import.meta.env.VITE_API_URL;
+  const refetchInterval = useRealtimeInterval(3000);
 
   return useQuery({
-    queryKey: ["sms-messages", limit, direction],
+    queryKey: ["sms-messages", limit, direction, segmentId],
     queryFn: async (): Promise<SmsMessage[]> => {
       try {
         const params = new URLSearchParams({ limit: String(limit) });
         if (direction) params.set('direction', direction);
+        if (segmentId) params.set('segment_id', segmentId);
         const response = await fetch(
           `${apiUrl}/api/sms-messages?${params.toString()}`
         );
@@ -72,43 +75,100 @@ export const useSmsMessages = (limit = 50, direction?: string) => {
         return [];
       }
     },
-    refetchInterval: 3000, // CRITICAL: Every 3 seconds for real-time SMS
+    refetchInterval, // Every 3 seconds unless the push stream is delivering sms.received
     retry: 2, // Restored for reliability
     staleTime: 1000, // Fresh data required
   });
 };;
 
+export interface SmsReclassifyJob {
+  status: "idle" | "running" | "completed" | "failed";
+  total: number;
+  processed: number;
+  changed: number;
+  started_at: string | null;
+  finished_at: string | null;
+  error: string | null;
+}
+
+// Operator correction — the agent stores it as feedback and retrains its classifier
 export const useCategorizeMessages = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (options?: { messageId?: string; batch?: boolean }) => {
-      // For now, just update the status locally
+    mutationFn: async ({ messageId, category }: { messageId: string; category: SmsCategory }) => {
       const apiUrl = import.meta.env.VITE_API_URL;
-      
-      if (options?.messageId) {
-        const response = await fetch(
-          `${apiUrl}/api/sms-messages/${options.messageId}/status`,
-          {
-            method: "PUT",
-            headers: { "Content-Type": "application/json" },
-           body: JSON.stringify({ status: "processed" }),
-          }
-        );
-        if (!response.ok) throw new Error("Failed to categorize message");
-        return { success: true };
+      const token = localStorage.getItem("authToken");
+      const response = await fetch(`${apiUrl}/api/sms-messages/${messageId}/category`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ category }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to update category");
       }
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sms-messages"] });
+      toast.success("Category updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update category");
+    },
+  });
+};
 
-      return { success: true };
+export const useSmsReclassifyJob = (enabled = true) => {
+  const queryClient = useQueryClient();
+  const apiUrl = import.meta.env.VITE_API_URL;
+
+  const job = useQuery({
+    queryKey: ["sms-reclassify-job"],
+    queryFn: async (): Promise<SmsReclassifyJob | null> => {
+      const token = localStorage.getItem("authToken");
+      const response = await fetch(`${apiUrl}/api/sms-messages/reclassify`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) return null;
+      const result = await response.json();
+      return result.data || null;
     },
-    onSuccess: (data) => {
+    enabled,
+    refetchInterval: (query) => (query.state.data?.status === "running" ? 1000 : false),
+  });
+
+  const status = job.data?.status;
+  useEffect(() => {
+    if (status === "completed") {
       queryClient.invalidateQueries({ queryKey: ["sms-messages"] });
-      toast.success("Message processed");
+    }
+  }, [status, queryClient]);
+
+  const start = useMutation({
+    mutationFn: async () => {
+      const token = localStorage.getItem("authToken");
+      const response = await fetch(`${apiUrl}/api/sms-messages/reclassify`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to start re-classification");
+      }
+      return result.data as SmsReclassifyJob;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["sms-reclassify-job"], data);
+      toast.success(`Re-classifying ${data.total} messages`);
     },
     onError: (error: Error) => {
-      toast.error(error.message || "Failed to process message");
+      toast.error(error.message || "Failed to start re-classification");
     },
   });
+
+  return { job: job.data, start };
 };
 
 export const useMarkAllSmsAsRead = () => {
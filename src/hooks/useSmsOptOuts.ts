@@ -0,0 +1,86 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { usePhoneNormalization } from "@/hooks/usePhoneNormalization";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+export interface SmsOptOut {
+  id: string;
+  phone_key: string; // E.164 digits without the + — same form as phoneKey()
+  phone_number: string;
+  source: "keyword" | "manual";
+  keyword: string | null;
+  reason: string | null;
+  created_by: string | null;
+  contact_name: string | null;
+  created_at: string;
+}
+
+const authHeaders = () => ({
+  "Content-Type": "application/json",
+  Authorization: `Bearer ${localStorage.getItem("authToken")}`,
+});
+
+export const useSmsOptOuts = () => {
+  const query = useQuery({
+    queryKey: ["sms-opt-outs"],
+    queryFn: async (): Promise<SmsOptOut[]> => {
+      const response = await fetch(`${API_URL}/api/sms-opt-outs`, { headers: authHeaders() });
+      if (!response.ok) return [];
+      const result = await response.json();
+      return result.data || [];
+    },
+    staleTime: 60_000,
+  });
+
+  const { phoneKey } = usePhoneNormalization();
+  const optOutKeys = useMemo(() => new Set((query.data || []).map((o) => o.phone_key)), [query.data]);
+  const isOptedOut = (phoneNumber: string) => optOutKeys.has(phoneKey(phoneNumber));
+
+  return { ...query, isOptedOut };
+};
+
+export const useAddSmsOptOut = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ phone_number, reason }: { phone_number: string; reason?: string }) => {
+      const response = await fetch(`${API_URL}/api/sms-opt-outs`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: JSON.stringify({ phone_number, reason }),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) throw new Error(result.error || "Failed to opt out number");
+      return result.data as SmsOptOut;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["sms-opt-outs"] });
+      toast.success(`${data.phone_number} will no longer receive SMS`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useRemoveSmsOptOut = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (phoneNumber: string) => {
+      const response = await fetch(`${API_URL}/api/sms-opt-outs/${encodeURIComponent(phoneNumber)}`, {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok || !result.success) throw new Error(result.error || "Failed to remove opt-out");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sms-opt-outs"] });
+      toast.success("Number re-subscribed to SMS");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+};
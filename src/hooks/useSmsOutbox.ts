@@ -0,0 +1,69 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRealtimeInterval } from "@/hooks/useRealtimeEvents";
+
+const API_URL = import.meta.env.VITE_API_URL;
+
+// "sent" means the SIM accepted the message; the gateway reports no handset delivery
+export type OutboxStatus = "queued" | "sending" | "sent" | "failed" | "cancelled";
+
+export interface OutboxMessage {
+  id: string;
+  to_number: string;
+  message: string;
+  preferred_gsm_span: number | null;
+  gsm_span: number | null; // Span of the latest attempt
+  status: OutboxStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  external_id: string | null;
+  source: string; // reply, rule, api
+  category: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type OutboxCounts = Record<OutboxStatus, number>;
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = localStorage.getItem("authToken");
+  const res = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...init.headers },
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.error || "Request failed");
+  return json.data;
+};
+
+export const useSmsOutbox = (status?: OutboxStatus, limit = 200) => {
+  const refetchInterval = useRealtimeInterval(5000);
+
+  return useQuery({
+    queryKey: ["sms-outbox", status ?? "all", limit],
+    queryFn: async (): Promise<{ items: OutboxMessage[]; counts: OutboxCounts }> => {
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (status) params.append("status", status);
+      return request(`/api/sms-outbox?${params}`);
+    },
+    refetchInterval, // Pushed via sms.outbox while the event stream is up
+  });
+};
+
+const useOutboxAction = (action: "retry" | "cancel") => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string): Promise<OutboxMessage> =>
+      request(`/api/sms-outbox/${id}/${action}`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sms-outbox"] });
+      queryClient.invalidateQueries({ queryKey: ["sent-messages"] });
+    },
+  });
+};
+
+export const useRetrySmsOutbox = () => useOutboxAction("retry");
+
+export const useCancelSmsOutbox = () => useOutboxAction("cancel");
@@ -28,7 +28,7 @@ export const useSmsTemplates = () => {
     mutationFn: async (data: { name: string; message: string }) => {
       const response = await fetch(`${API_URL}/api/sms-templates`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify(data),
       });
       if (!response.ok) throw new Error("Failed to create template");
@@ -53,7 +53,7 @@ export const useSmsTemplates = () => {
     }) => {
       const response = await fetch(`${API_URL}/api/sms-templates/${id}`, {
         method: "PUT",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify({ name, message, active }),
       });
       if (!response.ok) throw new Error("Failed to update template");
@@ -68,6 +68,7 @@ export const useSmsTemplates = () => {
     mutationFn: async (id: string) => {
       const response = await fetch(`${API_URL}/api/sms-templates/${id}`, {
         method: "DELETE",
+        headers: { Authorization: `Bearer ${localStorage.getItem("authToken")}` },
       });
       if (!response.ok) throw new Error("Failed to delete template");
       return response.json();
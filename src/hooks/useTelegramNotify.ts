@@ -18,7 +18,7 @@ export const useTelegramNotify = () => {
     mutationFn: async (action: TelegramAction) => {
       const response = await fetch(`${API_URL}/api/telegram-send`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${localStorage.getItem("authToken")}` },
         body: JSON.stringify({ action }),
       });
       const data = await response.json();
@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "./useAuth";
+import { useCan, useMyPermissions } from "./useCan";
 
 const apiUrl = import.meta.env.VITE_API_URL;
 
@@ -9,25 +10,28 @@ export interface UserPermissions {
 }
 
 /**
- * Fetches granular port and extension permissions for non-admin users.
+ * Fetches granular port and extension permissions for the current user.
  * 
  * Permission Logic:
- * - Admins: Always have full access (empty arrays = no restrictions)
- * - Non-Admins with NO granular permissions: Full access (empty arrays = no restrictions)
- * - Non-Admins WITH granular permissions: Access ONLY to specified ports/extensions
+ * - Roles with data.unrestricted: Always have full access (empty arrays = no restrictions)
+ * - Others with NO granular permissions: Full access (empty arrays = no restrictions)
+ * - Others WITH granular permissions: Access ONLY to specified ports/extensions
  * 
- * Role-based permissions (admin, operator, viewer) are enforced server-side.
+ * Role permissions (useCan) are enforced server-side.
  * This hook only retrieves granular restrictions applied to a specific user.
  */
 export const useUserPermissions = () => {
-  const { user, isAdmin } = useAuth();
+  const { user } = useAuth();
+  const can = useCan();
+  const { isSuccess: rolePermissionsLoaded } = useMyPermissions();
+  const unrestricted = can("data.unrestricted");
   const token = localStorage.getItem('authToken');
 
   return useQuery({
-    queryKey: ['user-permissions', user?.id],
+    queryKey: ['user-permissions', user?.id, unrestricted],
     queryFn: async (): Promise<UserPermissions> => {
-      // Admins and superadmins have no restrictions
-      if (isAdmin) {
+      // Unrestricted roles see every port and extension
+      if (unrestricted) {
         return { ports: [], extensions: [] };
       }
 
@@ -62,6 +66,6 @@ export const useUserPermissions = () => {
       }
     },
     staleTime: 1000 * 60 * 5, // 5 minutes
-    enabled: !!user,
+    enabled: !!user && rolePermissionsLoaded,
   });
 };
@@ -14,6 +14,40 @@ interface Database {
   [key: string]: any[];
 }
 
+// Every event the agent pushes. EventSource only dispatches named events that
+// have a listener, so an event missing here never reaches the app.
+const REALTIME_EVENTS = [
+  'sms.received',
+  'sms.status',
+  'sms.outbox',
+  'sms.opt_out',
+  'campaign.progress',
+  'call.started',
+  'call.ended',
+  'call.queue',
+  'callback.updated',
+  'contacts.relinked',
+  'port.status',
+  'sim.balance',
+  'sim.health',
+  'ai.recommendations',
+  'agent.config',
+  'report.definitions',
+  'roles.updated',
+  'activity.logged',
+] as const;
+
+export type RealtimeEventType = (typeof REALTIME_EVENTS)[number];
+
+export interface RealtimeEvent<T = any> {
+  type: RealtimeEventType;
+  data: T;
+  timestamp: string;
+}
+
+type RealtimeCallback = (event: RealtimeEvent) => void;
+
+
 interface RequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
   headers?: Record<string, string>;
@@ -23,6 +57,10 @@ interface RequestOptions {
 class ApiClient {
   private baseUrl: string;
   private defaultHeaders: Record<string, string>;
+  private eventSource: EventSource | null = null;
+  private realtimeListeners = new Map<string, Set<RealtimeCallback>>();
+  private realtimeStatusListeners = new Set<(connected: boolean) => void>();
+  private realtimeConnected = false;
 
   constructor(baseUrl: string = API_URL) {
     this.baseUrl = baseUrl;
@@ -36,7 +74,12 @@ class ApiClient {
     options: RequestOptions = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
-    const headers = { ...this.defaultHeaders, ...options.headers };
+    const token = localStorage.getItem('authToken');
+    const headers = {
+      ...this.defaultHeaders,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...options.headers,
+    };
 
     const config: RequestInit = {
       method: options.method || 'GET',
@@ -212,14 +255,74 @@ class ApiClient {
     return { data: result.data || (agentId ? null : []), error: null };
   }
 
-  // Realtime subscription (simulated)
-  on(event: string, callback: (data: any) => void) {
-    console.warn(`Realtime subscriptions not yet implemented for ${event}`);
+  // Realtime subscription over the local agent's SSE stream (/api/events).
+  // Pass '*' to receive every event type. One EventSource is shared by all
+  // subscribers and closed when the last one unsubscribes.
+  on(event: RealtimeEventType | '*', callback: RealtimeCallback) {
+    const listeners = this.realtimeListeners.get(event) || new Set<RealtimeCallback>();
+    listeners.add(callback);
+    this.realtimeListeners.set(event, listeners);
+    this.openEventStream();
+
     return {
-      unsubscribe: () => {},
+      unsubscribe: () => {
+        listeners.delete(callback);
+        if (listeners.size === 0) this.realtimeListeners.delete(event);
+        if (this.realtimeListeners.size === 0) this.closeEventStream();
+      },
     };
   }
 
+  isRealtimeConnected() {
+    return this.realtimeConnected;
+  }
+
+  onRealtimeStatus(callback: (connected: boolean) => void) {
+    this.realtimeStatusListeners.add(callback);
+    return () => {
+      this.realtimeStatusListeners.delete(callback);
+    };
+  }
+
+  private setRealtimeConnected(connected: boolean) {
+    if (this.realtimeConnected === connected) return;
+    this.realtimeConnected = connected;
+    this.realtimeStatusListeners.forEach((listener) => listener(connected));
+  }
+
+  private openEventStream() {
+    if (this.eventSource || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`${this.baseUrl}/api/events`);
+
+    source.onopen = () => this.setRealtimeConnected(true);
+    // EventSource reconnects on its own; fall back to polling until it does
+    source.onerror = () => this.setRealtimeConnected(false);
+
+    REALTIME_EVENTS.forEach((type) => {
+      source.addEventListener(type, (message: MessageEvent) => {
+        let event: RealtimeEvent;
+        try {
+          event = JSON.parse(message.data);
+        } catch {
+          console.warn(`Malformed realtime event: ${type}`);
+          return;
+        }
+        this.realtimeListeners.get(type)?.forEach((listener) => listener(event));
+        this.realtimeListeners.get('*')?.forEach((listener) => listener(event));
+      });
+    });
+
+    this.eventSource = source;
+  }
+
+  private closeEventStream() {
+    if (!this.eventSource) return;
+    this.eventSource.close();
+    this.eventSource = null;
+    this.setRealtimeConnected(false);
+  }
+
   subscribe() {
     return this;
   }
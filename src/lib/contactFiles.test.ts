@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { Contact } from "@/hooks/useContacts";
+import type { ContactField } from "@/hooks/useContactSegments";
+import {
+  contactsToCsv,
+  contactsToVCard,
+  guessColumnMapping,
+  parseContactFile,
+  parseCsv,
+  parseVCards,
+  tableToImportContacts,
+} from "./contactFiles";
+
+const field = (field_key: string, label: string) => ({ field_key, label }) as ContactField;
+
+describe("parseCsv", () => {
+  it("handles quoted delimiters, escaped quotes and newlines", () => {
+    const table = parseCsv('\uFEFFName,Phone,Notes\r\n"Doe, Jane",0712345678,"Said ""hi""\nthen left"\r\n');
+    expect(table.headers).toEqual(["Name", "Phone", "Notes"]);
+    expect(table.rows).toEqual([["Doe, Jane", "0712345678", 'Said "hi"\nthen left']]);
+  });
+
+  it("detects semicolon-separated files", () => {
+    expect(parseCsv("Name;Phone\nJane;0712345678").rows).toEqual([["Jane", "0712345678"]]);
+  });
+
+  it("drops blank lines", () => {
+    expect(parseCsv("Name,Phone\n\n,\nJane,0712345678\n").rows).toEqual([["Jane", "0712345678"]]);
+  });
+});
+
+describe("parseVCards", () => {
+  it("makes one row per phone number", () => {
+    const table = parseVCards(
+      [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        "FN:Jane Doe",
+        "TEL;TYPE=CELL:0712345678",
+        "item1.TEL:tel:+254722000111",
+        "ORG:Acme;Sales",
+        "NOTE:Prefers\\, SMS",
+        "CATEGORIES:vip,lead",
+        "END:VCARD",
+      ].join("\r\n")
+    );
+    expect(table.rows).toEqual([
+      ["Jane Doe", "0712345678", "Acme", "", "Prefers, SMS", "vip,lead"],
+      ["Jane Doe", "+254722000111", "Acme", "", "Prefers, SMS", "vip,lead"],
+    ]);
+  });
+
+  it("builds the name from N when FN is missing and unfolds long lines", () => {
+    const table = parseVCards("BEGIN:VCARD\nN:Doe;Jane;;;\nTEL:07123\n 45678\nEND:VCARD");
+    expect(table.rows[0].slice(0, 2)).toEqual(["Jane Doe", "0712345678"]);
+  });
+
+  it("decodes quoted-printable values", () => {
+    const table = parseVCards("BEGIN:VCARD\nFN;ENCODING=QUOTED-PRINTABLE:Jane=20Doe\nTEL:0712345678\nEND:VCARD");
+    expect(table.rows[0][0]).toBe("Jane Doe");
+  });
+
+  it("joins quoted-printable soft line breaks and decodes in the declared charset", () => {
+    const table = parseVCards(
+      [
+        "BEGIN:VCARD",
+        "VERSION:2.1",
+        "FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Ren=C3=A9e M=C3=BC=",
+        "ller",
+        "NOTE;CHARSET=ISO-8859-1;ENCODING=QUOTED-PRINTABLE:Caf=E9",
+        "TEL:0712345678",
+        "END:VCARD",
+      ].join("\r\n")
+    );
+    expect(table.rows[0]).toEqual(["Renée Müller", "0712345678", "", "", "Café", ""]);
+  });
+});
+
+describe("parseContactFile", () => {
+  it("picks the parser from the file name or content", () => {
+    expect(parseContactFile("contacts.vcf", "BEGIN:VCARD\nFN:A\nTEL:1\nEND:VCARD").headers[0]).toBe("Name");
+    expect(parseContactFile("export.txt", "BEGIN:VCARD\nFN:A\nEND:VCARD").rows).toHaveLength(1);
+    expect(parseContactFile("contacts.csv", "Phone\n0712345678").headers).toEqual(["Phone"]);
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("maps common headers and custom fields", () => {
+    const mapping = guessColumnMapping(
+      ["Full Name", "Mobile Number", "Phone Type", "Notes", "Group Membership", "Company", "Account No"],
+      [field("company", "Company")]
+    );
+    expect(mapping).toEqual(["name", "phone", "ignore", "notes", "tags", "field:company", "ignore"]);
+  });
+
+  it("uses given name only when there is no full name column", () => {
+    expect(guessColumnMapping(["Given Name", "Phone"], [])).toEqual(["name", "phone"]);
+    expect(guessColumnMapping(["Name", "Given Name"], [])).toEqual(["name", "ignore"]);
+  });
+});
+
+describe("tableToImportContacts", () => {
+  it("splits multi-value phones and tags", () => {
+    const contacts = tableToImportContacts(
+      { headers: ["Name", "Phone", "Tags", "Company"], rows: [["Jane", "0712345678 ::: 0722000111", "* myContacts ::: VIP", "Acme"]] },
+      ["name", "phone", "tags", "field:company"]
+    );
+    expect(contacts).toEqual([
+      { name: "Jane", tags: ["VIP"], custom_fields: { company: "Acme" }, phone_number: "0712345678" },
+      { name: "Jane", tags: ["VIP"], custom_fields: { company: "Acme" }, phone_number: "0722000111" },
+    ]);
+  });
+
+  it("keeps rows without a number so the preview can report them", () => {
+    expect(tableToImportContacts({ headers: ["Name"], rows: [["Jane"]] }, ["name"])).toEqual([{ name: "Jane", phone_number: "" }]);
+  });
+});
+
+const contact = {
+  name: 'Jane "JD" Doe',
+  phone_number: "+254712345678",
+  tags: ["vip", "lead"],
+  notes: "Line one\nLine two",
+  source: "import",
+  sms_count: 3,
+  call_count: 1,
+  first_seen_at: "2024-01-01",
+  last_seen_at: "2024-02-01",
+  custom_fields: { opted_in: true },
+} as unknown as Contact;
+
+describe("contactsToCsv", () => {
+  it("quotes every cell and formats custom field values", () => {
+    const lines = contactsToCsv([contact], [field("opted_in", "Opted In")]).split("\r\n");
+    expect(lines[0]).toBe('"Name","Phone","Tags","Notes","Source","SMS Count","Call Count","First Seen","Last Seen","Opted In"');
+    expect(lines[1]).toBe('"Jane ""JD"" Doe","+254712345678","vip, lead","Line one\nLine two","import","3","1","2024-01-01","2024-02-01","Yes"');
+  });
+
+  it("defuses cells a spreadsheet would run as formulas", () => {
+    const risky = { ...contact, name: '=HYPERLINK("http://x","y")', notes: "@SUM(A1)", tags: ["-1+2"] } as Contact;
+    const [, row] = contactsToCsv([risky], []).split("\r\n");
+    expect(row).toBe(`"'=HYPERLINK(""http://x"",""y"")","+254712345678","'-1+2","'@SUM(A1)","import","3","1","2024-01-01","2024-02-01"`);
+  });
+});
+
+describe("contactsToVCard", () => {
+  it("round-trips through parseVCards", () => {
+    const vcf = contactsToVCard([contact], "4.0");
+    expect(vcf).toContain("TEL;VALUE=uri;TYPE=cell:tel:+254712345678");
+    expect(parseVCards(vcf).rows).toEqual([['Jane "JD" Doe', "+254712345678", "", "", "Line one\nLine two", "vip,lead"]]);
+  });
+});
@@ -0,0 +1,268 @@
+import type { Contact } from "@/hooks/useContacts";
+import type { ContactField } from "@/hooks/useContactSegments";
+
+/**
+ * CSV / vCard parsing and export for contacts. Both import formats are turned
+ * into a header + rows table so one column-mapping step serves either.
+ */
+
+export interface ContactTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// "phone" | "name" | "notes" | "tags" | "ignore" | "field:<field_key>"
+export type ColumnTarget = string;
+
+export interface ImportContact {
+  phone_number: string;
+  name?: string;
+  notes?: string;
+  tags?: string[];
+  custom_fields?: Record<string, string>;
+}
+
+// RFC 4180-ish: quoted fields may contain delimiters, quotes ("") and newlines
+export function parseCsv(text: string): ContactTable {
+  const clean = text.replace(/^\uFEFF/, "");
+  const firstLine = clean.split(/\r?\n/, 1)[0] || "";
+  const delimiter = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < clean.length; i++) {
+    const char = clean[i];
+    if (inQuotes) {
+      if (char === '"' && clean[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && clean[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((value) => value.trim()));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map((h) => h.trim()), rows };
+}
+
+// =XX escapes are bytes in the declared CHARSET, so multi-byte UTF-8 names
+// have to be decoded together rather than one character per escape
+const decodeQuotedPrintable = (value: string, charset = "utf-8") => {
+  const encoder = new TextEncoder();
+  const bytes = value
+    .split(/(=[0-9A-F]{2})/i)
+    .flatMap((part) => (/^=[0-9A-F]{2}$/i.test(part) ? [parseInt(part.substring(1), 16)] : Array.from(encoder.encode(part))));
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    decoder = new TextDecoder();
+  }
+  return decoder.decode(new Uint8Array(bytes));
+};
+
+const isQuotedPrintable = (line: string) => /^[^:]*QUOTED-PRINTABLE/i.test(line);
+
+// A quoted-printable line ending in "=" (a soft line break) continues on the next line
+const joinSoftLineBreaks = (lines: string[]) => {
+  const joined: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+    while (isQuotedPrintable(line) && line.endsWith("=") && i + 1 < lines.length) line = line.slice(0, -1) + lines[++i];
+    joined.push(line);
+  }
+  return joined;
+};
+
+const unescapeVCard = (value: string) =>
+  value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1");
+
+export const VCARD_HEADERS = ["Name", "Phone", "Organization", "Email", "Notes", "Categories"];
+
+/**
+ * vCard 2.1 / 3.0 / 4.0. Each TEL becomes its own row so every number is
+ * checked for duplicates, the same way multi-phone CSV rows are handled.
+ */
+export function parseVCards(text: string): ContactTable {
+  // Unfold continuation lines (a line starting with a space or tab)
+  const lines = joinSoftLineBreaks(text.replace(/^\uFEFF/, "").replace(/\r?\n[ \t]/g, "").split(/\r?\n/));
+  const rows: string[][] = [];
+  let card: Record<string, string[]> | null = null;
+
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper.startsWith("BEGIN:VCARD")) {
+      card = {};
+      continue;
+    }
+    if (upper.startsWith("END:VCARD")) {
+      if (card) {
+        const name = card.FN?.[0] || (card.N?.[0] || "").split(";").filter(Boolean).reverse().join(" ");
+        const phones = card.TEL || [];
+        const base = [card.ORG?.[0]?.split(";")[0] || "", card.EMAIL?.[0] || "", card.NOTE?.join("\n") || "", card.CATEGORIES?.join(",") || ""];
+        (phones.length ? phones : [""]).forEach((phone) => rows.push([name, phone, ...base]));
+      }
+      card = null;
+      continue;
+    }
+    if (!card) continue;
+
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const [nameWithGroup, ...params] = line.substring(0, colon).split(";");
+    const property = nameWithGroup.split(".").pop()!.toUpperCase();
+    let value = line.substring(colon + 1);
+    if (params.some((p) => /ENCODING=QUOTED-PRINTABLE|^QUOTED-PRINTABLE$/i.test(p))) {
+      const charset = params.find((p) => /^CHARSET=/i.test(p))?.substring(8);
+      value = decodeQuotedPrintable(value, charset);
+    }
+    if (property === "TEL") value = value.replace(/^tel:/i, "");
+    value = unescapeVCard(value).trim();
+    if (value) (card[property] ||= []).push(value);
+  }
+
+  return { headers: VCARD_HEADERS, rows };
+}
+
+export function parseContactFile(fileName: string, text: string): ContactTable {
+  return /\.(vcf|vcard)$/i.test(fileName) || /^\s*BEGIN:VCARD/i.test(text) ? parseVCards(text) : parseCsv(text);
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+// Best guess per column; the user can change any of them before preview
+export function guessColumnMapping(headers: string[], fields: ContactField[]): ColumnTarget[] {
+  const hasFullName = headers.some((h) => normalizeHeader(h) === "name");
+
+  return headers.map((header) => {
+    const h = normalizeHeader(header);
+    const field = fields.find((f) => f.field_key === h.replace(/ /g, "_") || normalizeHeader(f.label) === h);
+    if (field) return `field:${field.field_key}`;
+    if (/phone|mobile|msisdn|tel|cell|number/.test(h) && !/type|label/.test(h)) return "phone";
+    if (h === "name" || h === "full name" || h === "display name" || (!hasFullName && /^(given name|first name)$/.test(h))) return "name";
+    if (/^(notes?|comments?|description)$/.test(h)) return "notes";
+    if (/^(tags?|labels?|categories|group membership|groups?)$/.test(h)) return "tags";
+    return "ignore";
+  });
+}
+
+const splitTags = (value: string) =>
+  value
+    .split(/:::|[,;|]/)
+    .map((tag) => tag.replace(/^\*\s*/, "").trim())
+    .filter((tag) => tag && tag.toLowerCase() !== "mycontacts");
+
+export function tableToImportContacts(table: ContactTable, mapping: ColumnTarget[]): ImportContact[] {
+  const contacts: ImportContact[] = [];
+
+  for (const row of table.rows) {
+    const base: Omit<ImportContact, "phone_number"> = {};
+    const phones: string[] = [];
+
+    mapping.forEach((target, i) => {
+      const value = (row[i] || "").trim();
+      if (!value || target === "ignore") return;
+      if (target === "phone") phones.push(...value.split(/\s*:::\s*/));
+      else if (target === "name") base.name = base.name ? `${base.name} ${value}` : value;
+      else if (target === "notes") base.notes = base.notes ? `${base.notes}\n${value}` : value;
+      else if (target === "tags") base.tags = [...(base.tags || []), ...splitTags(value)];
+      else if (target.startsWith("field:")) base.custom_fields = { ...base.custom_fields, [target.substring(6)]: value };
+    });
+
+    // Rows without any number are still sent so the preview can report them
+    (phones.length ? phones : [""]).forEach((phone) => contacts.push({ ...base, phone_number: phone }));
+  }
+  return contacts;
+}
+
+// Same rule as the agent's exports: a cell a spreadsheet would run as a
+// formula gets a leading apostrophe, phone numbers like +2547... are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?[\d\s().]+$/;
+
+const csvCell = (value: unknown) => {
+  const text = String(value ?? "");
+  const safe = FORMULA_START.test(text) && !PLAIN_NUMBER.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+const formatFieldValue = (value: unknown) =>
+  typeof value === "boolean" ? (value ? "Yes" : "No") : value === undefined || value === null ? "" : String(value);
+
+export function contactsToCsv(contacts: Contact[], fields: ContactField[]): string {
+  const headers = ["Name", "Phone", "Tags", "Notes", "Source", "SMS Count", "Call Count", "First Seen", "Last Seen", ...fields.map((f) => f.label)];
+  const rows = contacts.map((c) =>
+    [
+      c.name,
+      c.phone_number,
+      (c.tags || []).join(", "),
+      c.notes,
+      c.source,
+      c.sms_count,
+      c.call_count,
+      c.first_seen_at,
+      c.last_seen_at,
+      ...fields.map((f) => formatFieldValue(c.custom_fields?.[f.field_key])),
+    ].map(csvCell).join(",")
+  );
+  return [headers.map(csvCell).join(","), ...rows].join("\r\n");
+}
+
+const escapeVCard = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/([,;])/g, "\\$1");
+
+// Lines longer than 75 characters are folded onto continuation lines
+const foldLine = (line: string) => line.match(/.{1,74}/g)?.join("\r\n ") ?? line;
+
+export function contactsToVCard(contacts: Contact[], version: "3.0" | "4.0" = "3.0"): string {
+  return contacts
+    .map((c) => {
+      const name = c.name || c.phone_number;
+      const lines = [
+        "BEGIN:VCARD",
+        `VERSION:${version}`,
+        `FN:${escapeVCard(name)}`,
+        `N:${escapeVCard(name)};;;;`,
+        version === "4.0" ? `TEL;VALUE=uri;TYPE=cell:tel:${c.phone_number}` : `TEL;TYPE=CELL:${c.phone_number}`,
+      ];
+      if (c.notes) lines.push(`NOTE:${escapeVCard(c.notes)}`);
+      if (c.tags?.length) lines.push(`CATEGORIES:${c.tags.map(escapeVCard).join(",")}`);
+      lines.push("END:VCARD");
+      return lines.map(foldLine).join("\r\n");
+    })
+    .join("\r\n");
+}
+
+export function downloadFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,48 @@
+import {
+  LayoutDashboard,
+  PhoneCall,
+  BarChart3,
+  FileText,
+  Settings,
+  Send,
+  Users,
+  Crown,
+  Megaphone,
+} from "lucide-react";
+import type { Permission } from "@/hooks/useCan";
+
+export type DashboardTab =
+  | "dashboard"
+  | "calls"
+  | "analytics"
+  | "config"
+  | "roles"
+  | "profile"
+  | "messages"
+  | "notifications"
+  | "campaigns"
+  | "staff";
+
+export interface NavItem {
+  id: DashboardTab;
+  label: string;
+  icon: React.ElementType;
+  // Hidden unless the user's role grants this
+  permission?: Permission;
+}
+
+export const navItems: NavItem[] = [
+  { id: "dashboard", label: "Dashboard", icon: LayoutDashboard },
+  { id: "messages", label: "Messages", icon: FileText },
+  { id: "calls", label: "Calls & Contacts", icon: PhoneCall },
+  { id: "analytics", label: "Insights", icon: BarChart3 },
+  { id: "notifications", label: "Notifications", icon: Send, permission: "notifications.manage" },
+  { id: "campaigns", label: "Campaigns", icon: Megaphone, permission: "campaigns.manage" },
+  { id: "staff", label: "Staff / Clock In", icon: Users, permission: "staff.manage" },
+  { id: "roles", label: "Roles & Permissions", icon: Crown, permission: "users.view" },
+  { id: "config", label: "Configuration", icon: Settings, permission: "config.view" },
+];
+
+// The permission needed to open a tab, if any
+export const tabPermission = (tab: DashboardTab): Permission | undefined =>
+  navItems.find((item) => item.id === tab)?.permission;
@@ -96,3 +96,14 @@ export const formatTimeOnlyNairobi = (date?: Date | string | null): string => {
     hour12: false,
   });
 };
+
+/**
+ * Parse a database timestamp into a Date. Bare "YYYY-MM-DD HH:MM:SS" values
+ * are UTC; ISO strings keep their own offset.
+ */
+export const parseDbTimestamp = (value: string): Date => {
+  if (value.includes(' ') && !value.includes('Z') && !value.includes('+') && !value.includes('-', 10)) {
+    return new Date(value.replace(' ', 'T') + 'Z');
+  }
+  return new Date(value);
+};
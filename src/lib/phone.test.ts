@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { isValidCountryCode, normalizePhoneNumber, phoneKey, toE164 } from "./phone";
+
+describe("toE164", () => {
+  it("matches the agent's rules for local and international numbers", () => {
+    expect(toE164("0712345678")).toBe("+254712345678");
+    expect(toE164("712345678")).toBe("+254712345678");
+    expect(toE164("+254 712 345 678")).toBe("+254712345678");
+    expect(toE164("00447911123456")).toBe("+447911123456");
+    expect(toE164("0772123456", "256")).toBe("+256772123456");
+  });
+
+  it("rejects sender IDs, short codes and wrong lengths", () => {
+    expect(toE164("MPESA")).toBeNull();
+    expect(toE164("22141")).toBeNull();
+    expect(toE164("+25471234567")).toBeNull();
+    expect(toE164(null)).toBeNull();
+  });
+});
+
+describe("normalizePhoneNumber", () => {
+  it("falls back to the trimmed original", () => {
+    expect(normalizePhoneNumber("0712345678")).toBe("+254712345678");
+    expect(normalizePhoneNumber(" 1001 ")).toBe("1001");
+  });
+});
+
+describe("phoneKey", () => {
+  it("gives every spelling of a number the same key", () => {
+    expect(phoneKey("0712345678")).toBe("254712345678");
+    expect(phoneKey("+254712345678")).toBe("254712345678");
+    expect(phoneKey("712 345 678")).toBe("254712345678");
+  });
+
+  it("lower-cases anything that isn't a phone number", () => {
+    expect(phoneKey("MPESA")).toBe("mpesa");
+  });
+});
+
+describe("isValidCountryCode", () => {
+  it("accepts one to three digits", () => {
+    expect(isValidCountryCode("44")).toBe(true);
+    expect(isValidCountryCode("+44")).toBe(false);
+  });
+});
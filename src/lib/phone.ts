@@ -0,0 +1,66 @@
+/**
+ * Browser copy of the agent's phone-number.cjs. The agent stores numbers in
+ * E.164 (+254712…); the UI uses the same rules to match what users type, or
+ * rows stored before normalisation, against those.
+ */
+
+export const DEFAULT_COUNTRY_CODE = "254";
+
+// National (significant) number length for the country codes we can check
+const NATIONAL_NUMBER_LENGTHS: Record<string, number> = {
+  "1": 10,
+  "27": 9,
+  "44": 10,
+  "91": 10,
+  "211": 9,
+  "234": 10,
+  "250": 9,
+  "251": 9,
+  "254": 9,
+  "255": 9,
+  "256": 9,
+  "257": 8,
+  "971": 9,
+};
+
+const KNOWN_CODES = Object.keys(NATIONAL_NUMBER_LENGTHS).sort((a, b) => b.length - a.length);
+
+export const isValidCountryCode = (code: string) => /^[1-9]\d{0,2}$/.test(code || "");
+
+// +<digits>, or null when the input isn't a dialable subscriber number
+export const toE164 = (number: string | null | undefined, defaultCountryCode = DEFAULT_COUNTRY_CODE): string | null => {
+  if (number === null || number === undefined) return null;
+  const raw = String(number).trim().replace(/^tel:/i, "");
+  if (/[a-z]/i.test(raw.replace(/\s*(ext|x)\.?\s*\d+$/i, ""))) return null;
+
+  let digits = raw.replace(/\D/g, "");
+  if (!digits) return null;
+
+  const countryCode = isValidCountryCode(defaultCountryCode) ? defaultCountryCode : DEFAULT_COUNTRY_CODE;
+  const nationalLength = NATIONAL_NUMBER_LENGTHS[countryCode];
+
+  if (raw.startsWith("+")) {
+    // Already international
+  } else if (digits.startsWith("00")) {
+    digits = digits.substring(2);
+  } else if (digits.startsWith("0")) {
+    digits = countryCode + digits.substring(1);
+  } else if (nationalLength ? digits.length === nationalLength : !digits.startsWith(countryCode) && digits.length <= 9) {
+    digits = countryCode + digits;
+  }
+
+  const knownCode = KNOWN_CODES.find((code) => digits.startsWith(code));
+  if (knownCode && digits.length !== knownCode.length + NATIONAL_NUMBER_LENGTHS[knownCode]) return null;
+  if (digits.length < 8 || digits.length > 15) return null;
+  return `+${digits}`;
+};
+
+// E.164 when possible, otherwise the trimmed original (extensions, short codes, sender IDs)
+export const normalizePhoneNumber = (number: string, defaultCountryCode = DEFAULT_COUNTRY_CODE): string =>
+  toE164(number, defaultCountryCode) ?? (number || "").trim();
+
+// Comparison key: E.164 digits without the "+", matching the agent's phone_key
+export const phoneKey = (number: string, defaultCountryCode = DEFAULT_COUNTRY_CODE): string => {
+  const e164 = toE164(number, defaultCountryCode);
+  return e164 ? e164.substring(1) : (number || "").trim().toLowerCase();
+};
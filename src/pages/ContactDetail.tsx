@@ -0,0 +1,422 @@
+import { useState, KeyboardEvent } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Header } from "@/components/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ArrowLeft,
+  ArrowDownLeft,
+  ArrowUpRight,
+  Bot,
+  Phone,
+  PhoneMissed,
+  PhoneForwarded,
+  Ban,
+  BellRing,
+  StickyNote,
+  Tag,
+  X,
+  Trash2,
+  Loader2,
+  Clock,
+  Save,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { formatDateNairobi } from "@/lib/dateUtils";
+import { useAuth } from "@/hooks/useAuth";
+import { useCan } from "@/hooks/useCan";
+import { useRealtimeSync } from "@/hooks/useRealtimeEvents";
+import { CALLBACK_OUTCOME_LABELS } from "@/hooks/useCallbacks";
+import { useContacts, ContactFieldValue } from "@/hooks/useContacts";
+import { useContactFields } from "@/hooks/useContactSegments";
+import {
+  useContactTimeline,
+  useAddContactNote,
+  useDeleteContactNote,
+  useSetContactTags,
+  TimelineItem,
+} from "@/hooks/useContactTimeline";
+
+const formatDuration = (seconds: number): string => {
+  if (!seconds) return "0s";
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return mins > 0 ? `${mins}m ${secs}s` : `${secs}s`;
+};
+
+const itemStyle = (item: TimelineItem) => {
+  switch (item.type) {
+    case "sms_in":
+      return { icon: ArrowDownLeft, label: "SMS received", tone: "text-primary bg-primary/10" };
+    case "sms_out":
+      return { icon: ArrowUpRight, label: "SMS sent", tone: "text-success bg-success/10" };
+    case "auto_sms":
+      return { icon: Bot, label: "Automatic SMS", tone: "text-muted-foreground bg-muted" };
+    case "call":
+      return item.data.status === "answered"
+        ? { icon: Phone, label: `${item.data.direction === "outbound" ? "Outbound" : "Inbound"} call`, tone: "text-primary bg-primary/10" }
+        : { icon: PhoneMissed, label: `${item.data.direction === "outbound" ? "Unanswered" : "Missed"} call`, tone: "text-destructive bg-destructive/10" };
+    case "callback":
+      return { icon: PhoneForwarded, label: "Callback attempt", tone: "text-warning bg-warning/10" };
+    case "opt_out":
+      return { icon: Ban, label: "Opted out", tone: "text-destructive bg-destructive/10" };
+    case "opt_in":
+      return { icon: BellRing, label: "Opted back in", tone: "text-success bg-success/10" };
+    case "note":
+      return { icon: StickyNote, label: "Note", tone: "text-foreground bg-secondary" };
+  }
+};
+
+const TimelineBody = ({ item }: { item: TimelineItem }) => {
+  switch (item.type) {
+    case "sms_in":
+    case "sms_out":
+    case "auto_sms":
+      return (
+        <>
+          <p className="text-sm whitespace-pre-wrap break-words">{item.data.message_content}</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {item.data.gsm_span ? `Port ${item.data.gsm_span - 1}` : "Gateway"}
+            {item.data.status && ` · ${item.data.status}`}
+          </p>
+        </>
+      );
+    case "call":
+      return (
+        <p className="text-sm text-muted-foreground">
+          {item.data.caller_number} → {item.data.callee_number}
+          {item.data.extension && ` · ext ${item.data.extension}`}
+          {item.data.status === "answered" ? ` · talked ${formatDuration(item.data.talk_duration)}` : ` · rang ${formatDuration(item.data.ring_duration)}`}
+          {item.data.notes && <span className="block text-foreground mt-1">{item.data.notes}</span>}
+        </p>
+      );
+    case "callback":
+      return (
+        <p className="text-sm">
+          {CALLBACK_OUTCOME_LABELS[item.data.outcome] ?? item.data.outcome}
+          {item.data.agent_name && <span className="text-muted-foreground"> · {item.data.agent_name}</span>}
+          {item.data.notes && <span className="block text-muted-foreground mt-1">{item.data.notes}</span>}
+        </p>
+      );
+    case "opt_out":
+    case "opt_in":
+      return <p className="text-sm text-muted-foreground">{item.data.message}</p>;
+    case "note":
+      return (
+        <>
+          <p className="text-sm whitespace-pre-wrap break-words">{item.data.body}</p>
+          <p className="text-xs text-muted-foreground mt-1">{item.data.author_name || "Unknown user"}</p>
+        </>
+      );
+  }
+};
+
+const NO_CHOICE = "__none__";
+
+const ContactFieldsEditor = ({
+  contactId,
+  values,
+  canEdit,
+}: {
+  contactId: string;
+  values: Record<string, ContactFieldValue>;
+  canEdit: boolean;
+}) => {
+  const { data: fields = [] } = useContactFields();
+  const { updateContact } = useContacts({ enabled: false });
+  const [draft, setDraft] = useState<Record<string, ContactFieldValue | null>>({});
+
+  if (fields.length === 0) return null;
+
+  const valueOf = (key: string) => (key in draft ? draft[key] : values[key] ?? null);
+  const setValue = (key: string, value: ContactFieldValue | null) => setDraft((d) => ({ ...d, [key]: value }));
+  const dirty = Object.keys(draft).length > 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-3 sm:grid-cols-2">
+        {fields.map((field) => {
+          const value = valueOf(field.field_key);
+          return (
+            <div key={field.id} className="space-y-1">
+              <label className="text-xs text-muted-foreground">{field.label}</label>
+              {field.field_type === "boolean" ? (
+                <div className="h-8 flex items-center">
+                  <Switch checked={value === true} disabled={!canEdit} onCheckedChange={(checked) => setValue(field.field_key, checked)} />
+                </div>
+              ) : field.field_type === "select" ? (
+                <Select
+                  value={value === null ? NO_CHOICE : String(value)}
+                  disabled={!canEdit}
+                  onValueChange={(choice) => setValue(field.field_key, choice === NO_CHOICE ? null : choice)}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CHOICE}>—</SelectItem>
+                    {field.options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  type={field.field_type === "number" ? "number" : field.field_type === "date" ? "date" : "text"}
+                  value={value === null ? "" : String(value)}
+                  disabled={!canEdit}
+                  onChange={(e) => setValue(field.field_key, e.target.value === "" ? null : e.target.value)}
+                  className="h-8"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {canEdit && dirty && (
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="ghost" onClick={() => setDraft({})}>
+            Discard
+          </Button>
+          <Button
+            size="sm"
+            className="gap-1"
+            disabled={updateContact.isPending}
+            onClick={() => updateContact.mutate({ id: contactId, custom_fields: draft }, { onSuccess: () => setDraft({}) })}
+          >
+            <Save className="w-3 h-3" />
+            Save details
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ContactDetail = () => {
+  const { phone = "" } = useParams();
+  const { user } = useAuth();
+  const can = useCan();
+  const canEdit = can("contacts.edit");
+
+  useRealtimeSync();
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useContactTimeline(phone);
+  const addNote = useAddContactNote(phone);
+  const deleteNote = useDeleteContactNote();
+  const setTags = useSetContactTags(phone);
+  const [noteDraft, setNoteDraft] = useState("");
+  const [tagDraft, setTagDraft] = useState("");
+
+  const summary = data?.pages[0];
+  const contact = summary?.contact;
+  const tags = contact?.tags ?? [];
+  const items = data?.pages.flatMap((page) => page.items) ?? [];
+
+  const saveTags = (next: string[]) => {
+    setTags.mutate(next, {
+      onSuccess: () => setTagDraft(""),
+      onError: (err: Error) => toast.error(err.message || "Failed to update tags"),
+    });
+  };
+
+  const handleTagKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    const tag = tagDraft.trim().toLowerCase();
+    if (!tag || tags.includes(tag)) {
+      setTagDraft("");
+      return;
+    }
+    saveTags([...tags, tag]);
+  };
+
+  const handleAddNote = () => {
+    const body = noteDraft.trim();
+    if (!body) return;
+    addNote.mutate(body, {
+      onSuccess: () => {
+        setNoteDraft("");
+        toast.success("Note added");
+      },
+      onError: (err: Error) => toast.error(err.message || "Failed to add note"),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <Header />
+
+      <main className="container max-w-4xl flex-1 p-6 space-y-6">
+        <Link to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="w-4 h-4" />
+          Back to dashboard
+        </Link>
+
+        <Card className="border-border/50 bg-card">
+          <CardHeader className="pb-3">
+            {isLoading ? (
+              <Skeleton className="h-10 w-64" />
+            ) : (
+              <div className="flex items-start justify-between gap-3 flex-wrap">
+                <div>
+                  <CardTitle className="text-xl">{contact?.name || summary?.phone_number || phone}</CardTitle>
+                  <p className="text-sm font-mono text-muted-foreground mt-1">{summary?.phone_number || phone}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-wrap">
+                  {summary?.opt_out && (
+                    <Badge variant="destructive" className="gap-1" title={summary.opt_out.reason || undefined}>
+                      <Ban className="w-3 h-3" />
+                      Opted out
+                    </Badge>
+                  )}
+                  {contact && (
+                    <>
+                      <Badge variant="outline">{contact.sms_count} SMS</Badge>
+                      <Badge variant="outline">{contact.call_count} calls</Badge>
+                      <Badge variant="outline" className="gap-1">
+                        <Clock className="w-3 h-3" />
+                        Last seen {formatDateNairobi(contact.last_seen_at)}
+                      </Badge>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Tag className="w-4 h-4 text-muted-foreground" />
+              {tags.length === 0 && !canEdit && <span className="text-sm text-muted-foreground">No tags</span>}
+              {tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="gap-1">
+                  {tag}
+                  {canEdit && (
+                    <button
+                      type="button"
+                      aria-label={`Remove ${tag}`}
+                      className="hover:text-destructive"
+                      disabled={setTags.isPending}
+                      onClick={() => saveTags(tags.filter((t) => t !== tag))}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+              {canEdit && (
+                <Input
+                  value={tagDraft}
+                  onChange={(e) => setTagDraft(e.target.value)}
+                  onKeyDown={handleTagKey}
+                  placeholder="Add tag…"
+                  className="h-7 w-32 text-xs"
+                  disabled={setTags.isPending}
+                />
+              )}
+            </div>
+
+            {contact && <ContactFieldsEditor key={contact.id} contactId={contact.id} values={contact.custom_fields} canEdit={canEdit} />}
+
+            {canEdit && (
+              <div className="space-y-2">
+                <Textarea
+                  value={noteDraft}
+                  onChange={(e) => setNoteDraft(e.target.value)}
+                  placeholder="Add a note about this customer…"
+                  rows={2}
+                  maxLength={2000}
+                />
+                <div className="flex justify-end">
+                  <Button size="sm" className="gap-1" disabled={!noteDraft.trim() || addNote.isPending} onClick={handleAddNote}>
+                    {addNote.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <StickyNote className="w-3 h-3" />}
+                    Add note
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-border/50 bg-card">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-semibold">Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-3">
+                {[0, 1, 2].map((i) => (
+                  <Skeleton key={i} className="h-14 w-full" />
+                ))}
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive text-center py-8">
+                {error instanceof Error ? error.message : "Failed to load timeline"}
+              </p>
+            ) : items.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No activity for this number yet</p>
+            ) : (
+              <ol className="relative border-l border-border/50 ml-4 space-y-5">
+                {items.map((item) => {
+                  const { icon: Icon, label, tone } = itemStyle(item);
+                  const canDelete =
+                    item.type === "note" && canEdit && (can("contacts.moderate") || item.data.created_by === user?.id);
+                  return (
+                    <li key={item.id} className="ml-6">
+                      <span className={cn("absolute -left-4 flex items-center justify-center w-8 h-8 rounded-full", tone)}>
+                        <Icon className="w-4 h-4" />
+                      </span>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium">{label}</span>
+                        <div className="flex items-center gap-1">
+                          <span className="text-xs text-muted-foreground">{formatDateNairobi(item.at)}</span>
+                          {canDelete && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6"
+                              disabled={deleteNote.isPending}
+                              onClick={() =>
+                                deleteNote.mutate(item.data.id, {
+                                  onError: (err: Error) => toast.error(err.message || "Failed to delete note"),
+                                })
+                              }
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      <div className="mt-1">
+                        <TimelineBody item={item} />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+
+            {hasNextPage && (
+              <div className="flex justify-center mt-6">
+                <Button variant="outline" size="sm" disabled={isFetchingNextPage} onClick={() => fetchNextPage()}>
+                  {isFetchingNextPage && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                  Load older
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ContactDetail;
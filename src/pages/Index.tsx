@@ -13,16 +13,16 @@ import { AnalyticsDashboard } from "@/components/AnalyticsDashboard";
 import { InsightsPanel } from "@/components/InsightsPanel";
 import { CallRecordsTable } from "@/components/CallRecordsTable";
 import { CallStatsCards } from "@/components/CallStatsCards";
-import { QuickDialWidget } from "@/components/QuickDialWidget";
-import { CallQueueStatus } from "@/components/CallQueueStatus";
 import { ErrorLogsPanel } from "@/components/ErrorLogsPanel";
 import { ContactsPanel } from "@/components/ContactsPanel";
 import { CallsContactsTab } from "@/components/CallsContactsTab";
 import { AllSmsPanel } from "@/components/AllSmsPanel";
 import { StaffPanel } from "@/components/StaffPanel";
 import { NotificationsPanel } from "@/components/NotificationsPanel";
+import { SmsCampaignsPanel } from "@/components/SmsCampaignsPanel";
 
-import { DashboardSidebar, DashboardTab } from "@/components/DashboardSidebar";
+import { DashboardSidebar } from "@/components/DashboardSidebar";
+import { DashboardTab, tabPermission } from "@/lib/dashboardNav";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Server, Phone, Database, Lock } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
@@ -30,19 +30,23 @@ import { toast } from "sonner";
 import { useSmsMessages } from "@/hooks/useSmsMessages";
 import { useActivityLogs } from "@/hooks/useActivityLogs";
 import { useDashboardStats } from "@/hooks/useDashboardStats";
-import { usePbxConfig } from "@/hooks/usePbxConfig";
 import { usePbxStatus } from "@/hooks/usePbxStatus";
 import { useGatewayStatus } from "@/hooks/useGatewayStatus";
 import { useCallRecords, useCallStats, useAllTimeCallStats } from "@/hooks/useCallRecords";
-import { useAuth } from "@/hooks/useAuth";
+import { useCan, useMyPermissions } from "@/hooks/useCan";
 import { useUserPermissions } from "@/hooks/useUserPermissions";
+import { useRealtimeSync } from "@/hooks/useRealtimeEvents";
 import { formatDateNairobi } from "@/lib/dateUtils";
 
 const Index = () => {
   const queryClient = useQueryClient();
-  const { role, isAdmin } = useAuth();
+  const can = useCan();
+  const { isSuccess: rolePermissionsLoaded } = useMyPermissions();
   const { data: permissions } = useUserPermissions();
-  const isViewer = role === "viewer";
+  const restricted = !can("data.unrestricted");
+
+  // Push updates from the local agent keep the query caches fresh
+  useRealtimeSync();
   
   // Initialize activeTab from localStorage, default to "dashboard"
   const [activeTab, setActiveTab] = useState<DashboardTab>(() => {
@@ -55,15 +59,15 @@ const Index = () => {
   });
   
   // Validate activeTab permissions: if user lacks permission, reset to dashboard
-  // ONLY run this AFTER auth has finished loading
+  // ONLY run this AFTER the role's permissions have loaded
   useEffect(() => {
-    if (role === null) return; // Auth still loading, skip validation
-    
-    const adminOnlyTabs: DashboardTab[] = ["notifications", "staff", "roles", "config"];
-    if (adminOnlyTabs.includes(activeTab) && !isAdmin) {
+    if (!rolePermissionsLoaded) return;
+
+    const permission = tabPermission(activeTab);
+    if (permission && !can(permission)) {
       setActiveTab("dashboard");
     }
-  }, [role, isAdmin]); // Depend on role which is null during loading
+  }, [rolePermissionsLoaded, can]);
 
   // Save activeTab to localStorage whenever it changes
   useEffect(() => {
@@ -78,11 +82,12 @@ const Index = () => {
   const [callRecordsExtensionFilter, setCallRecordsExtensionFilter] = useState<string>("all");
   const [callRecordsDirectionFilter, setCallRecordsDirectionFilter] = useState<string>("all");
   const [callRecordsStatusFilter, setCallRecordsStatusFilter] = useState<string>("all");
+  const [callRecordsSegmentFilter, setCallRecordsSegmentFilter] = useState<string>("all");
 
   const { data: messages = [], isLoading: messagesLoading } = useSmsMessages(50, 'received');
   const { data: logs = [], isLoading: logsLoading } = useActivityLogs();
   const { data: stats, isLoading: statsLoading } = useDashboardStats();
-  const { data: callsResponse, isLoading: callsLoading } = useCallRecords(callRecordsPage, 50, callRecordsExtensionFilter, callRecordsDirectionFilter, callRecordsStatusFilter);
+  const { data: callsResponse, isLoading: callsLoading } = useCallRecords(callRecordsPage, 50, callRecordsExtensionFilter, callRecordsDirectionFilter, callRecordsStatusFilter, callRecordsSegmentFilter);
   const calls = callsResponse?.data || [];
   const callsPagination = callsResponse?.pagination || { page: 1, pageSize: 50, total: 0, totalPages: 1 };
 
@@ -90,32 +95,31 @@ const Index = () => {
   const viewerPorts = permissions?.ports ?? [];
   const viewerExtensions = permissions?.extensions ?? [];
 
-  // Lock viewer's extension filter to their assigned extension (server-side filtering)
+  // Lock a restricted user's extension filter to their assigned extension (server-side filtering)
   useEffect(() => {
-    if (isViewer && viewerExtensions.length > 0) {
+    if (restricted && viewerExtensions.length > 0) {
       setCallRecordsExtensionFilter(viewerExtensions[0]);
       setCallRecordsPage(1);
     }
-  }, [isViewer, viewerExtensions.join(',')]);
+  }, [restricted, viewerExtensions.join(',')]);
 
   const filteredMessages = useMemo(() => {
-    if (!isViewer || viewerPorts.length === 0) return messages;
+    if (!restricted || viewerPorts.length === 0) return messages;
     return messages.filter((m: any) => viewerPorts.includes(m.simPort));
-  }, [messages, isViewer, viewerPorts]);
+  }, [messages, restricted, viewerPorts]);
 
   // For calls, server handles filtering via callRecordsExtensionFilter (locked for viewers)
   // No client-side call filtering needed
   // Reset to page 1 when any filter changes
   useEffect(() => {
     setCallRecordsPage(1);
-  }, [callRecordsExtensionFilter, callRecordsDirectionFilter, callRecordsStatusFilter]);
+  }, [callRecordsExtensionFilter, callRecordsDirectionFilter, callRecordsStatusFilter, callRecordsSegmentFilter]);
 
-  const viewerExtForStats = isViewer && viewerExtensions.length > 0 ? viewerExtensions[0] : undefined;
+  const viewerExtForStats = restricted && viewerExtensions.length > 0 ? viewerExtensions[0] : undefined;
   const { data: callStats, isLoading: callStatsLoading } = useCallStats(viewerExtForStats);
   const { data: allTimeCallStats, isLoading: allTimeCallStatsLoading } = useAllTimeCallStats(viewerExtForStats);
-  const { config: pbxConfig } = usePbxConfig();
-  const { data: pbxStatus } = usePbxStatus();
-  const { data: gatewayStatus } = useGatewayStatus();
+  const { data: pbxStatus } = usePbxStatus(can("system.status.view"));
+  const { data: gatewayStatus } = useGatewayStatus(can("system.status.view"));
 
   // Determine gateway status based on actual connection
   const gatewayStatusValue = gatewayStatus?.connected
@@ -169,8 +173,8 @@ const Index = () => {
           <main className="flex-1 overflow-y-auto p-6 space-y-6">
           {activeTab === "dashboard" && (
             <>
-              {/* System Status Row - Admin/SuperAdmin Only */}
-              {isAdmin && (
+              {/* System Status Row - system.status.view only */}
+              {can("system.status.view") && (
                 <div className="grid gap-4 md:grid-cols-3">
                   <SystemStatusCard
                     title="TG400 Gateway"
@@ -207,7 +211,7 @@ const Index = () => {
                   />
                 </div>
               )}
-              {!isAdmin && (
+              {!can("system.status.view") && (
                 <Card className="border-border/50 bg-muted/30">
                   <CardContent className="pt-6">
                     <div className="flex items-center justify-center gap-3 text-muted-foreground">
@@ -231,7 +235,7 @@ const Index = () => {
                   ) : (
                     <CallsSummaryPanel calls={calls} />
                   )}
-                  {(!isViewer && !logsLoading) && (
+                  {(can("activity.view") && !logsLoading) && (
                     <ActivityLog logs={logs} />
                   )}
                 </div>
@@ -253,28 +257,32 @@ const Index = () => {
               onDirectionFilterChange={setCallRecordsDirectionFilter}
               statusFilter={callRecordsStatusFilter}
               onStatusFilterChange={setCallRecordsStatusFilter}
+              segmentFilter={callRecordsSegmentFilter}
+              onSegmentFilterChange={setCallRecordsSegmentFilter}
               allTimeStats={allTimeCallStats}
               todayStats={callStats}
               statsLoading={allTimeCallStatsLoading || callStatsLoading}
-              isViewer={isViewer}
+              canFilter={can("data.filter")}
             />
           )}
 
-          {activeTab === "analytics" && <InsightsPanel role={role} permissions={permissions} />}
+          {activeTab === "analytics" && <InsightsPanel permissions={permissions} />}
 
-          {activeTab === "roles" && (
+          {activeTab === "roles" && can("users.view") && (
             <RoleManagementPanel />
           )}
 
-          {activeTab === "notifications" && isAdmin && (
+          {activeTab === "notifications" && can("notifications.manage") && (
             <NotificationsPanel />
           )}
 
+          {activeTab === "campaigns" && can("campaigns.manage") && <SmsCampaignsPanel />}
+
           {activeTab === "profile" && (
             <UserProfilePanel />
           )}
 
-          {activeTab === "config" && (
+          {activeTab === "config" && can("config.view") && (
             <ConfigurationPanel
               onConfigSaved={() => {
                 queryClient.invalidateQueries({ queryKey: ["sim-ports"] });
@@ -283,7 +291,7 @@ const Index = () => {
           )}
 
           {activeTab === "messages" && <AllSmsPanel />}
-          {activeTab === "staff" && <StaffPanel />}
+          {activeTab === "staff" && can("staff.manage") && <StaffPanel />}
           </main>
 
           <SystemFooter lastSync={lastSync} onRefresh={handleRefresh} />
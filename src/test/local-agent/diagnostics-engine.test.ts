@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { analyze, errorSignature } from "../../../public/local-agent/diagnostics-engine.cjs";
+
+const NOW = Date.parse("2024-06-01T12:00:00Z");
+
+// A quiet 24h snapshot; tests override the parts they exercise
+const snapshot = (overrides: Record<string, unknown> = {}) => ({
+  window_hours: 24,
+  baseline_days: 7,
+  spans: [],
+  outbox: { sent: 0, failed: 0, retried: 0 },
+  calls: { total: 0, failed: 0, missed: 0, baseline_total: 0, baseline_missed: 0 },
+  activity: { top: [], errors: 0, previous_errors: 0 },
+  feedback: [],
+  feedback_senders: [],
+  ...overrides,
+});
+
+const span = (overrides: Record<string, unknown> = {}) => ({
+  gsm_span: 2,
+  samples: 12,
+  unregistered_samples: 0,
+  latest_registration: "registered",
+  attempts: 0,
+  failures: 0,
+  avg_signal: 20,
+  min_signal: 18,
+  ...overrides,
+});
+
+describe("analyze", () => {
+  it("reports low risk and no recommendations when nothing is wrong", () => {
+    const result = analyze(snapshot({ spans: [span()] }), { now: NOW });
+    expect(result.prediction.risk_level).toBe("low");
+    expect(result.prediction.recommended_action).toBe("No action needed.");
+    expect(result.recommendations).toEqual([]);
+    expect(result.analyzed_at).toBe(new Date(NOW).toISOString());
+  });
+
+  it("treats a SIM that dropped off the network as high risk", () => {
+    const result = analyze(snapshot({ spans: [span({ latest_registration: "searching", unregistered_samples: 1 })] }), { now: NOW });
+    expect(result.prediction.risk_level).toBe("high");
+    expect(result.findings[0].key).toBe("sim_deregistered:2");
+    expect(result.findings[0].title).toBe("Port 1 SIM is off the network");
+    expect(result.recommendations[0].ruleKey).toBe("sim_deregistered:2");
+    expect(result.recommendations[0].details.priority).toBe("high");
+  });
+
+  it("flags a port failing most of its sends", () => {
+    const result = analyze(snapshot({ spans: [span({ attempts: 10, failures: 6 })] }), { now: NOW });
+    expect(result.findings.map((f) => f.key)).toContain("sim_failure_rate:2");
+  });
+
+  it("does not judge a port on too few sends", () => {
+    const result = analyze(snapshot({ spans: [span({ attempts: 2, failures: 2 })] }), { now: NOW });
+    expect(result.findings).toEqual([]);
+  });
+
+  it("compares missed calls with the baseline rate", () => {
+    const calls = { total: 40, failed: 0, missed: 16, baseline_total: 400, baseline_missed: 80 };
+    const result = analyze(snapshot({ calls }), { now: NOW });
+    expect(result.findings.map((f) => f.key)).toContain("missed_call_rise");
+  });
+
+  it("detects an error spike and groups recurring errors", () => {
+    const errors = Array.from({ length: 12 }, (_, i) => ({ at: NOW - i * 60000, message: `Timeout after ${i}ms talking to 10.0.0.${i}` }));
+    const result = analyze(snapshot(), { errors, now: NOW });
+    expect(result.findings.map((f) => f.key)).toEqual(
+      expect.arrayContaining(["error_spike", "recurring_error:Timeout after #ms talking to #"])
+    );
+    expect(result.top_errors[0]).toMatchObject({ signature: "Timeout after #ms talking to #", count: 12 });
+  });
+
+  it("suggests tuning clamped to the tunable's range", () => {
+    const activity = { top: [{ event_type: "call_sync", severity: "error", count: 4 }], errors: 0, previous_errors: 0 };
+    const tunables = { pbx_sync_interval_seconds: { value: 2000, min: 10, max: 3600, unit: "s" } };
+    const result = analyze(snapshot({ activity }), { tunables, now: NOW });
+    expect(result.tuning.recommendations).toEqual([
+      expect.objectContaining({ config: "pbx_sync_interval_seconds", old_value: 2000, new_value: 3600 }),
+    ]);
+    expect(result.recommendations).toContainEqual(
+      expect.objectContaining({ ruleKey: "config:pbx_sync_interval_seconds", details: expect.objectContaining({ priority: "medium" }) })
+    );
+  });
+
+  it("summarises operator category corrections", () => {
+    const result = analyze(
+      snapshot({
+        feedback: [
+          { original_category: "personal", corrected_category: "spam", count: 3 },
+          { original_category: null, corrected_category: "otp", count: 1 },
+        ],
+        feedback_senders: [{ sender_number: "0712345678", corrected_category: "spam", count: 3 }],
+      }),
+      { now: NOW }
+    );
+    expect(result.learning).toEqual({
+      feedback_count: 4,
+      patterns_found: 1,
+      insights: ["personal → spam (3)"],
+      ai_rules: ["Messages from 0712345678 are spam (3 corrections)"],
+    });
+  });
+});
+
+describe("errorSignature", () => {
+  it("collapses ids, numbers and quoted values", () => {
+    expect(errorSignature("Port 3 failed: 'abc' id 0123456789abcdef01\nstack")).toBe("Port # failed: '…' id <id>");
+  });
+});
@@ -0,0 +1,93 @@
+import { PassThrough } from "stream";
+import { inflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { ExportWriter } from "../../../public/local-agent/export-writer.cjs";
+
+const columns = [
+  { key: "phone", header: "Phone" },
+  { key: "message", header: "Message" },
+  { key: "count", header: "Count" },
+];
+
+const rows = [
+  { phone: "+254712345678", message: 'Said "hi", then =HYPERLINK("x")', count: 3 },
+  { phone: "0722000111", message: "-10 off today", count: null },
+];
+
+async function run(format: string, batches: Record<string, unknown>[][]) {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on("data", (chunk) => chunks.push(chunk));
+  const writer = new ExportWriter(output, format, columns, { sheetName: "Messages" });
+  await writer.start();
+  for (const batch of batches) await writer.writeRows(batch);
+  await writer.end();
+  return Buffer.concat(chunks);
+}
+
+// Reads a ZIP's entries from its central directory
+function unzip(zip: Buffer) {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let pos = zip.readUInt32LE(end + 16);
+  const files: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    const method = zip.readUInt16LE(pos + 10);
+    const compressedSize = zip.readUInt32LE(pos + 20);
+    const nameLength = zip.readUInt16LE(pos + 28);
+    const offset = zip.readUInt32LE(pos + 42);
+    const name = zip.toString("utf8", pos + 46, pos + 46 + nameLength);
+    const start = offset + 30 + zip.readUInt16LE(offset + 26);
+    const data = zip.subarray(start, start + compressedSize);
+    files[name] = (method === 8 ? inflateRawSync(data) : data).toString("utf8");
+    pos += 46 + nameLength;
+  }
+  return files;
+}
+
+describe("ExportWriter", () => {
+  it("writes CSV with a BOM and guards formula-like cells", async () => {
+    const csv = (await run("csv", [rows])).toString("utf8");
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+    expect(csv.slice(1).split("\r\n")).toEqual([
+      '"Phone","Message","Count"',
+      '"+254712345678","Said ""hi"", then =HYPERLINK(""x"")","3"',
+      '"0722000111","\'-10 off today",""',
+      "",
+    ]);
+  });
+
+  it("writes a JSON array across batches", async () => {
+    const json = JSON.parse((await run("json", [rows.slice(0, 1), rows.slice(1)])).toString("utf8"));
+    expect(json).toEqual([
+      { phone: "+254712345678", message: 'Said "hi", then =HYPERLINK("x")', count: 3 },
+      { phone: "0722000111", message: "-10 off today", count: null },
+    ]);
+  });
+
+  it("writes an empty JSON array when there are no rows", async () => {
+    expect(JSON.parse((await run("json", [])).toString("utf8"))).toEqual([]);
+  });
+
+  it("writes an XLSX workbook with numbers as numbers", async () => {
+    const files = unzip(await run("xlsx", [rows]));
+    expect(Object.keys(files)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    expect(files["xl/workbook.xml"]).toContain('<sheet name="Messages"');
+    const sheet = files["xl/worksheets/sheet1.xml"];
+    expect(sheet).toContain('<c t="inlineStr" s="1"><is><t xml:space="preserve">Phone</t></is></c>');
+    expect(sheet).toContain("<c><v>3</v></c>");
+    expect(sheet).toContain("Said \"hi\", then =HYPERLINK(\"x\")");
+    expect(sheet.endsWith("</sheetData></worksheet>")).toBe(true);
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => new ExportWriter(new PassThrough(), "pdf", columns)).toThrow("Unsupported export format: pdf");
+  });
+});
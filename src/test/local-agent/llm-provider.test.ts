@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  LlmUnavailableError,
+  classifySms,
+  createLlmProvider,
+  extractJson,
+  suggestReplies,
+  summarizeReport,
+} from "../../../public/local-agent/llm-provider.cjs";
+
+const categories = ["otp", "transactional", "marketing", "personal"];
+const mock = () => createLlmProvider({ provider: "mock" });
+
+describe("extractJson", () => {
+  it("finds the JSON inside prose or code fences", () => {
+    expect(extractJson('Sure!\n```json\n{"category": "otp"}\n```')).toEqual({ category: "otp" });
+    expect(extractJson('["a", "b"]')).toEqual(["a", "b"]);
+    expect(() => extractJson("no idea")).toThrow("no JSON");
+  });
+});
+
+describe("unconfigured provider", () => {
+  it("is unavailable and every feature rejects with LlmUnavailableError", async () => {
+    for (const llm of [createLlmProvider(), createLlmProvider({ provider: "none" }), createLlmProvider({ provider: "openai" })]) {
+      expect(llm.available).toBe(false);
+      await expect(classifySms(llm, { categories, sender: "MPESA", message: "hi" })).rejects.toBeInstanceOf(LlmUnavailableError);
+      await expect(suggestReplies(llm, [{ direction: "received", message_content: "hi" }])).rejects.toBeInstanceOf(LlmUnavailableError);
+      await expect(summarizeReport(llm, "Missed calls: 3")).rejects.toBeInstanceOf(LlmUnavailableError);
+    }
+  });
+});
+
+describe("classifySms", () => {
+  it("returns one of the offered categories, the same one for the same message", async () => {
+    const input = { categories, sender: "0712345678", message: "Are you open on Sunday?" };
+    const first = await classifySms(mock(), input);
+    expect(categories).toContain(first.category);
+    expect(first.confidence).toBe(0.6);
+    expect(await classifySms(mock(), input)).toEqual(first);
+  });
+
+  it("ignores categories the caller did not offer", async () => {
+    const llm = mock();
+    vi.spyOn(llm, "complete").mockResolvedValue('{"category": "spam", "confidence": 0.99}');
+    expect(await classifySms(llm, { categories, sender: "x", message: "y" })).toBeNull();
+  });
+
+  it("caps confidence below an operator correction", async () => {
+    const llm = mock();
+    vi.spyOn(llm, "complete").mockResolvedValue('{"category": "otp", "confidence": 1}');
+    expect(await classifySms(llm, { categories, sender: "x", message: "y" })).toEqual({ category: "otp", confidence: 0.9 });
+  });
+});
+
+describe("suggestReplies", () => {
+  const history = [
+    { direction: "sent", message_content: "Your order has shipped." },
+    { direction: "received", message_content: "When will it arrive?" },
+  ];
+
+  it("returns the mock's three drafts", async () => {
+    const suggestions = await suggestReplies(mock(), history);
+    expect(suggestions).toHaveLength(3);
+    suggestions.forEach((suggestion: string) => expect(suggestion.length).toBeLessThanOrEqual(160));
+  });
+
+  it("sends the conversation as a transcript and keeps at most three non-empty strings", async () => {
+    const llm = mock();
+    const complete = vi.spyOn(llm, "complete").mockResolvedValue('```json\n[" One ", "", 3, "Two", "Three", "Four"]\n```');
+    expect(await suggestReplies(llm, history)).toEqual(["One", "Two", "Three"]);
+    expect(complete.mock.calls[0][0][1].content).toBe("Us: Your order has shipped.\nCustomer: When will it arrive?");
+  });
+
+  it("rejects a reply that is not a list", async () => {
+    const llm = mock();
+    vi.spyOn(llm, "complete").mockResolvedValue('{"reply": "Hi"}');
+    await expect(suggestReplies(llm, history)).rejects.toThrow("no suggestions");
+  });
+});
+
+describe("summarizeReport", () => {
+  it("summarizes the report text deterministically", async () => {
+    const report = "Daily report\nMissed calls: 12\nUnreturned: 9";
+    const summary = await summarizeReport(mock(), report);
+    expect(summary).toMatch(/^Mock summary \([0-9a-f]{8}\): 3 report lines reviewed\.$/);
+    expect(await summarizeReport(mock(), report)).toBe(summary);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { toE164, isValidCountryCode, normalizePhoneNumber } from "../../../public/local-agent/phone-number.cjs";
+
+describe("toE164", () => {
+  it("adds the default country code to local numbers", () => {
+    expect(toE164("0712345678")).toBe("+254712345678");
+    expect(toE164("712345678")).toBe("+254712345678");
+    expect(toE164("0712 345 678")).toBe("+254712345678");
+  });
+
+  it("keeps numbers that are already international", () => {
+    expect(toE164("+254712345678")).toBe("+254712345678");
+    expect(toE164("254712345678")).toBe("+254712345678");
+    expect(toE164("00447911123456")).toBe("+447911123456");
+    expect(toE164("+1 (415) 555-0100")).toBe("+14155550100");
+    expect(toE164("tel:+254712345678")).toBe("+254712345678");
+  });
+
+  it("uses the given default country", () => {
+    expect(toE164("0772123456", "256")).toBe("+256772123456");
+    expect(toE164("07911123456", "44")).toBe("+447911123456");
+  });
+
+  it("falls back to Kenya for an invalid default country", () => {
+    expect(toE164("0712345678", "abc")).toBe("+254712345678");
+  });
+
+  it("rejects numbers of the wrong length for a known country", () => {
+    expect(toE164("+25471234567")).toBeNull();
+    expect(toE164("07123456789")).toBeNull();
+  });
+
+  it("rejects sender IDs, short codes and empty input", () => {
+    expect(toE164("MPESA")).toBeNull();
+    expect(toE164("Safaricom")).toBeNull();
+    expect(toE164("22141")).toBeNull();
+    expect(toE164("")).toBeNull();
+    expect(toE164(null)).toBeNull();
+  });
+});
+
+describe("isValidCountryCode", () => {
+  it("accepts one to three digits not starting with 0", () => {
+    expect(isValidCountryCode("1")).toBe(true);
+    expect(isValidCountryCode("254")).toBe(true);
+    expect(isValidCountryCode("0")).toBe(false);
+    expect(isValidCountryCode("2540")).toBe(false);
+    expect(isValidCountryCode("")).toBe(false);
+  });
+});
+
+describe("normalizePhoneNumber", () => {
+  it("stores subscriber numbers in E.164", () => {
+    expect(normalizePhoneNumber("0712345678")).toBe("+254712345678");
+    expect(normalizePhoneNumber("0772123456", "256")).toBe("+256772123456");
+  });
+
+  it("leaves extensions, short codes and sender IDs as reported", () => {
+    expect(normalizePhoneNumber(" 1001 ")).toBe("1001");
+    expect(normalizePhoneNumber("22141")).toBe("22141");
+    expect(normalizePhoneNumber("M-PESA")).toBe("M-PESA");
+  });
+
+  it("passes empty values through", () => {
+    expect(normalizePhoneNumber("")).toBe("");
+    expect(normalizePhoneNumber(null)).toBeNull();
+  });
+});
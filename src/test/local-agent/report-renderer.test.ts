@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { renderCsv, renderDigest, renderPdf, renderText } from "../../../public/local-agent/report-renderer.cjs";
+
+const report = (rows = [["0712345678", "3"], ["0722000111", "1"]]) => ({
+  title: "Missed calls",
+  period: { label: "1-7 Jun 2024", from: "2024-06-01", to: "2024-06-07" },
+  generated_at: "2024-06-08 07:00",
+  filters: ["Extensions: 1001"],
+  sections: [
+    {
+      key: "summary",
+      title: "Summary",
+      summary: [["Missed", 4], ["Called back", "75%"]],
+      columns: [],
+      rows: [],
+      digest: "4 missed, 75% called back",
+    },
+    {
+      key: "callers",
+      title: "Top callers",
+      columns: ["Caller", "Missed"],
+      rows,
+      digest: "top 0712345678",
+    },
+  ],
+});
+
+describe("renderCsv", () => {
+  it("writes a header block and each section as quoted rows", () => {
+    const lines = renderCsv(report()).toString("utf8").split("\r\n");
+    expect(lines.slice(0, 4)).toEqual(['"Missed calls"', '"Period","1-7 Jun 2024"', '"Generated","2024-06-08 07:00"', '"Filter","Extensions: 1001"']);
+    expect(lines).toContain('"Missed","4"');
+    expect(lines).toContain('"Caller","Missed"');
+    expect(lines).toContain('"0722000111","1"');
+  });
+});
+
+describe("renderText", () => {
+  it("caps long tables and notes the remainder", () => {
+    const rows = Array.from({ length: 13 }, (_, i) => [`07000000${String(i).padStart(2, "0")}`, "1"]);
+    const text = renderText(report(rows));
+    expect(text).toContain("== Top callers ==");
+    expect(text).toContain("Caller | Missed");
+    expect(text).toContain("… 3 more row(s)");
+  });
+
+  it("says so when a table section is empty", () => {
+    const empty = report([]);
+    empty.sections = [{ ...empty.sections[1], summary: [] }];
+    expect(renderText(empty)).toContain("No data");
+  });
+});
+
+describe("renderDigest", () => {
+  it("joins section digests on one line", () => {
+    expect(renderDigest(report())).toBe("Missed calls 1-7 Jun 2024: 4 missed, 75% called back; top 0712345678");
+  });
+
+  it("trims to the maximum length", () => {
+    const digest = renderDigest(report(), 30);
+    expect(digest.length).toBeLessThanOrEqual(30);
+    expect(digest.endsWith("…")).toBe(true);
+  });
+});
+
+describe("renderPdf", () => {
+  it("writes a well-formed PDF with a correct xref offset", () => {
+    const pdf = renderPdf(report()).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    const xref = Number(pdf.match(/startxref\n(\d+)\n/)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe("xref");
+    expect(pdf).toContain("/Count 1");
+    expect(pdf).toContain("(Missed calls - page 1 of 1)");
+  });
+
+  it("continues long tables onto more pages", () => {
+    const rows = Array.from({ length: 200 }, (_, i) => [`0700${i}`, "1"]);
+    const pdf = renderPdf(report(rows)).toString("latin1");
+    const pages = Number(pdf.match(/\/Count (\d+)/)![1]);
+    expect(pages).toBeGreaterThan(1);
+    expect(pdf).toContain(`page ${pages} of ${pages}`);
+  });
+
+  it("escapes PDF string syntax and replaces characters outside Latin-1", () => {
+    const custom = report();
+    custom.title = "Calls (week) \\ 日本";
+    const pdf = renderPdf(custom).toString("latin1");
+    expect(pdf).toContain("(Calls \\(week\\) \\\\ ??)");
+  });
+});
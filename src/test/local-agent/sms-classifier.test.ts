@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import SmsClassifier from "../../../public/local-agent/sms-classifier.cjs";
+
+describe("SmsClassifier", () => {
+  it("tags one-time codes", () => {
+    const classifier = new SmsClassifier();
+    const result = classifier.classify({
+      sender_number: "GOOGLE",
+      message_content: "G-482913 is your verification code. Do not share it with anyone.",
+    });
+    expect(result.category).toBe("otp");
+    expect(result.confidence).toBeGreaterThan(0);
+  });
+
+  it("treats M-PESA confirmations from a money sender as transactional", () => {
+    const classifier = new SmsClassifier();
+    const result = classifier.classify({
+      sender_number: "MPESA",
+      message_content: "QFH7X2K9LM Confirmed. Ksh1,500.00 sent to JOHN DOE 0712345678 on 3/4/24.",
+    });
+    expect(result.category).toBe("transactional");
+  });
+
+  it("flags the same confirmation from a mobile number as spam", () => {
+    const classifier = new SmsClassifier();
+    const result = classifier.classify({
+      sender_number: "0712345678",
+      message_content: "QFH7X2K9LM Confirmed. Ksh1,500.00 received from JOHN DOE. Nirudishie tafadhali.",
+    });
+    expect(result.category).toBe("spam");
+  });
+
+  it("never calls a sender ID or short code personal", () => {
+    const classifier = new SmsClassifier();
+    expect(classifier.classify({ sender_number: "SAFARICOM", message_content: "Hello, thanks!" }).category).not.toBe("personal");
+    expect(classifier.classify({ sender_number: "22141", message_content: "Hi there" }).category).not.toBe("personal");
+  });
+
+  it("returns unknown with zero confidence when nothing matches", () => {
+    const classifier = new SmsClassifier();
+    expect(classifier.classify({ sender_number: "", message_content: "" })).toEqual({ category: "unknown", confidence: 0 });
+  });
+
+  it("learns a sender's category from operator corrections", () => {
+    const classifier = new SmsClassifier();
+    const message = { sender_number: "+254722000111", message_content: "Stock arrives Monday" };
+    expect(classifier.classify(message).category).toBe("personal");
+
+    classifier.train([
+      { sender_number: "0722000111", message_content: "Stock arrives Monday", category: "notification" },
+      { sender_number: "722000111", message_content: "Stock update", category: "notification" },
+    ]);
+    expect(classifier.sampleCount).toBe(2);
+    expect(classifier.classify(message).category).toBe("notification");
+  });
+
+  it("ignores feedback with an unknown category", () => {
+    const classifier = new SmsClassifier();
+    classifier.train([{ sender_number: "0722000111", message_content: "x", category: "bogus" }]);
+    expect(classifier.sampleCount).toBe(0);
+  });
+
+  it("keys phone senders on their last nine digits", () => {
+    expect(SmsClassifier.normalizeSender("+254 712 345 678")).toBe("712345678");
+    expect(SmsClassifier.normalizeSender("0712345678")).toBe("712345678");
+    expect(SmsClassifier.normalizeSender("M-PESA")).toBe("m-pesa");
+  });
+});